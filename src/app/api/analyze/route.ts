@@ -1,80 +1,25 @@
 import { NextResponse } from 'next/server';
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import { RETAILER_REQUIREMENTS, RetailerRequirements, getRegionFromState, US_REGIONS } from '@/data/retailerRequirements';
-import {
-  ALL_BUSINESSES,
-  getBusinessesThatFitLot,
-  getBusinessesForShoppingCenter,
-  getNewConstructionOnlyBusinesses,
-  assessDriveThroughFeasibility,
-  BusinessRequirements,
-  CONSTRUCTION_LABELS,
-} from '@/data/BusinessIntelligence';
-import { LOT_SIZE_REFERENCE } from '@/data/lotSizeReference';
-
-// Helper to get tenant examples from CRE Lot Size Reference spreadsheet
-function getTenantsFromSpreadsheet(category: string): string[] {
-  const categoryMap: Record<string, string[]> = {
-    'qsr': ['QUICK-SERVICE RESTAURANT (QSR)'],
-    'casual_dining': ['CASUAL / FULL-SERVICE RESTAURANT'],
-    'coffee': ['QUICK-SERVICE RESTAURANT (QSR)'],
-    'convenience': ['CONVENIENCE STORE / GAS STATION'],
-    'discount_retail': ['DOLLAR STORE / DISCOUNT'],
-    'retail': ['DEPARTMENT STORE / MALL ANCHOR', 'HOME IMPROVEMENT / SPECIALTY RETAIL'],
-    'bank': ['BANK / FINANCIAL'],
-    'pharmacy': ['PHARMACY / HEALTH / MEDICAL'],
-    'auto_service': ['AUTO PARTS / SERVICE / DEALERSHIP'],
-    'fitness': ['CLUB / FITNESS / ENTERTAINMENT'],
-    'medical': ['PHARMACY / HEALTH / MEDICAL'],
-    'grocery': ['GROCERY / SUPERMARKET'],
-    'big_box': ['BIG BOX / WAREHOUSE RETAIL'],
-    'hotel': ['HOTEL / HOSPITALITY'],
-    'office': ['OFFICE'],
-    'industrial': ['INDUSTRIAL / WAREHOUSE / DISTRIBUTION'],
-  };
-
-  const categories = categoryMap[category] || [];
-  const tenants = LOT_SIZE_REFERENCE
-    .filter(t => categories.includes(t.category))
-    .map(t => t.tenant);
-
-  return tenants.slice(0, 8);
-}
+import { getFixtureMode, replayable } from '@/lib/providers';
+import { TENANT_CATALOG, queryTenants, tenantExpandsIn, US_REGIONS } from '@/data/tenantCatalog';
+import { findBrandsPresent, isSameBrand, resolveBrand } from '@/lib/brands';
+import { analyzeCoTenancy } from '@/lib/co-tenancy';
+import { scoreFeasibility, getScoringModel, ScoringModelError } from '@/lib/scoring';
+import type { ScoringOptions } from '@/lib/scoring';
+import { scoreDaypartFit, tenantDaypart } from '@/lib/traffic-profile';
+import type { AccessPoint, CoTenancyReport, FeasibilityScore, FrontageAnalysis, PoiCategoryCode, TrafficProfile } from '@/types';
 
 // Re-export for use in other files
-export type { RetailerMatch } from '@/app/api/retailer-match/route';
+export type { RetailerMatch } from '@/lib/retailer-match';
 
 interface Business {
   name: string;
   type: string;
+  category?: PoiCategoryCode;
   distance: string;
   address: string;
-}
-
-// Feasibility score breakdown
-export interface FeasibilityScore {
-  overall: number;
-  breakdown: {
-    trafficScore: number;
-    demographicsScore: number;
-    competitionScore: number;
-    accessScore: number;
-    environmentalScore: number;
-    marketScore: number;
-    economicScore: number;
-    siteScore: number;
-  };
-  details: {
-    traffic: string;
-    demographics: string;
-    competition: string;
-    access: string;
-    environmental: string;
-    market: string;
-    economic: string;
-    site: string;
-  };
-  rating: 'Excellent' | 'Good' | 'Fair' | 'Poor';
+  brand?: string;
+  tenantId?: string;
 }
 
 interface TrafficInfo {
@@ -83,6 +28,7 @@ interface TrafficInfo {
   roadType: string;
   trafficLevel: string;
   congestionPercent: number;
+  profiles?: TrafficProfile[];
 }
 
 interface DemographicsInfo {
@@ -145,6 +91,7 @@ interface MarketCompInfo {
   saleDate: string;
   distance: string;
   propertyType: string;
+  verification?: 'verified' | 'estimated';
 }
 
 interface AnalyzeRequest {
@@ -157,6 +104,13 @@ interface AnalyzeRequest {
   environmentalRisk: EnvironmentalRiskInfo | null;
   marketComps: MarketCompInfo[] | null;
   locationIntelligence?: LocationIntelligenceInfo | null;
+  // From the access points API, with turning movements; scored the same way as the live score
+  accessPoints?: AccessPoint[];
+  // Measured from the parcel boundary by the access points API
+  frontage?: FrontageAnalysis | null;
+  // Published scoring model to use (defaults to the current one) and the tenant category to score for
+  scoringModelVersion?: string;
+  tenantCategory?: string;
 }
 
 // VPD thresholds, income preferences, and lot size requirements for different business types
@@ -708,9 +662,9 @@ function generateBusinessIntelligenceContext(address: string, nearbyBusinesses:
     ['plaza', 'center', 'mall', 'shopping', 'village', 'commons', 'square'].some(kw => addressLower.includes(kw));
 
   // Get key business requirements examples
-  const driveThruRequired = ALL_BUSINESSES.filter(b => b.driveThrough === 'required').slice(0, 10);
-  const newConstructionOnly = getNewConstructionOnlyBusinesses().slice(0, 8);
-  const shoppingCenterOk = getBusinessesForShoppingCenter().slice(0, 10);
+  const driveThruRequired = queryTenants({ driveThru: 'required', limit: 10 });
+  const newConstructionOnly = queryTenants({ construction: 'new_only', limit: 8 });
+  const shoppingCenterOk = queryTenants({ shoppingCenterOk: true, limit: 10 });
 
   let context = `\n\n=== BUSINESS INTELLIGENCE RULES ===\n`;
 
@@ -730,10 +684,10 @@ APPROPRIATE for shopping centers: ${shoppingCenterOk.map(b => b.name).join(', ')
   context += `
 DRIVE-THROUGH REQUIREMENTS (DO NOT recommend if lot cannot support drive-through):
 These businesses REQUIRE drive-through and need 0.5-1.5 acre lots with corner access:
-${driveThruRequired.map(b => `- ${b.name}: ${b.minSqFt}-${b.maxSqFt} sq ft, ${b.minLotAcres || 0.5}-${b.maxLotAcres || 1.5} acres${b.driveThroughNotes ? ` (${b.driveThroughNotes})` : ''}`).join('\n')}
+${driveThruRequired.map(t => `- ${t.name}: ${t.buildingSF ? `${t.buildingSF.min}-${t.buildingSF.max} sq ft, ` : ''}${t.lotAcres?.min || 0.5}-${t.lotAcres?.max || 1.5} acres${t.driveThruNotes ? ` (${t.driveThruNotes})` : ''}`).join('\n')}
 
 NEW CONSTRUCTION ONLY (will not convert existing buildings):
-${newConstructionOnly.map(b => `- ${b.name}: ${b.notes || 'Requires new construction'}`).join('\n')}
+${newConstructionOnly.map(t => `- ${t.name}: ${t.notes || 'Requires new construction'}`).join('\n')}
 
 LOT SIZE REQUIREMENTS:
 - Chick-fil-A: 1.0-1.5 acres (dual drive-through, 20+ car stacking)
@@ -956,272 +910,28 @@ function parseLotSize(lotSizeEstimate: string | undefined): number | null {
   return null;
 }
 
-// Calculate comprehensive feasibility score
+// Server-side score from the request data; the client re-scores live as more data loads
 function calculateFeasibilityScore(
   trafficData: TrafficInfo | null,
   demographicsData: DemographicsInfo | null,
   nearbyBusinesses: Business[],
   environmentalRisk: EnvironmentalRiskInfo | null,
-  marketComps: MarketCompInfo[] | null
+  marketComps: MarketCompInfo[] | null,
+  locationIntelligence: LocationIntelligenceInfo | null = null,
+  lotSizeAcres: number | null = null,
+  scoringOptions: ScoringOptions = {},
+  accessPoints: AccessPoint[] = []
 ): FeasibilityScore {
-  let trafficScore = 5; // Default middle score
-  let demographicsScore = 5;
-  let competitionScore = 5;
-  let accessScore = 5;
-  let environmentalScore = 5;
-  let marketScore = 5;
-
-  let trafficDetail = 'No traffic data available';
-  let demographicsDetail = 'No demographics data available';
-  let competitionDetail = 'No nearby business data';
-  let accessDetail = 'Unable to assess access';
-  let environmentalDetail = 'No environmental data available';
-  let marketDetail = 'No market comp data available';
-
-  // TRAFFIC SCORE (0-10)
-  if (trafficData) {
-    const vpd = trafficData.estimatedVPD;
-    if (vpd >= 30000) {
-      trafficScore = 10;
-      trafficDetail = `Excellent traffic: ${vpd.toLocaleString()} VPD supports all business types`;
-    } else if (vpd >= 20000) {
-      trafficScore = 9;
-      trafficDetail = `Very high traffic: ${vpd.toLocaleString()} VPD ideal for most retail`;
-    } else if (vpd >= 15000) {
-      trafficScore = 8;
-      trafficDetail = `High traffic: ${vpd.toLocaleString()} VPD supports drive-thru concepts`;
-    } else if (vpd >= 10000) {
-      trafficScore = 6;
-      trafficDetail = `Moderate traffic: ${vpd.toLocaleString()} VPD suitable for quick service`;
-    } else if (vpd >= 5000) {
-      trafficScore = 4;
-      trafficDetail = `Low-moderate traffic: ${vpd.toLocaleString()} VPD limits options`;
-    } else {
-      trafficScore = 2;
-      trafficDetail = `Low traffic: ${vpd.toLocaleString()} VPD - local service only`;
-    }
-
-    // Bonus for road type
-    if (trafficData.roadType.includes('Major') || trafficData.roadType.includes('Motorway')) {
-      accessScore = Math.min(10, accessScore + 2);
-      accessDetail = `${trafficData.roadType} with high visibility`;
-    } else if (trafficData.roadType.includes('Secondary')) {
-      accessScore = 6;
-      accessDetail = `${trafficData.roadType} - good local access`;
-    } else {
-      accessScore = 4;
-      accessDetail = `${trafficData.roadType} - limited visibility`;
-    }
-  }
-
-  // DEMOGRAPHICS SCORE (0-10)
-  if (demographicsData) {
-    const income = demographicsData.medianHouseholdIncome;
-    const employment = demographicsData.employmentRate;
-    const population = demographicsData.population;
-    const isCollegeTown = demographicsData.isCollegeTown || false;
-    const collegePercent = demographicsData.collegeEnrollmentPercent || 0;
-
-    // Income scoring - adjusted for college towns
-    let incomeScore = 5;
-    if (isCollegeTown) {
-      // College towns: student spending power exceeds census income data
-      // Parents, loans, and financial aid boost effective purchasing power
-      // Treat college towns as middle-to-upper-middle income markets
-      if (collegePercent >= 25) {
-        incomeScore = 8; // Major university = strong spending power
-      } else if (collegePercent >= 15) {
-        incomeScore = 7.5;
-      } else {
-        incomeScore = 7;
-      }
-    } else {
-      // Standard income scoring for non-college areas
-      if (income >= 85000) incomeScore = 9;
-      else if (income >= 65000) incomeScore = 8;
-      else if (income >= 50000) incomeScore = 7;
-      else if (income >= 35000) incomeScore = 5;
-      else incomeScore = 4;
-    }
-
-    // Employment bonus - lower for college towns since students aren't employed
-    const employmentBonus = isCollegeTown
-      ? 0.5 // College towns get partial bonus regardless of employment rate
-      : (employment >= 95 ? 1 : employment >= 90 ? 0.5 : 0);
-
-    // Population density consideration - college towns often have high density
-    const populationBonus = population >= 5000 ? 1 : population >= 2000 ? 0.5 : 0;
-
-    demographicsScore = Math.min(10, Math.round(incomeScore + employmentBonus + populationBonus));
-
-    if (isCollegeTown) {
-      demographicsDetail = `College Town market (${collegePercent}% students) - Strong student spending power despite $${income.toLocaleString()} census income, ${population.toLocaleString()} pop`;
-    } else {
-      demographicsDetail = `${demographicsData.consumerProfile.type} market - $${income.toLocaleString()} median income, ${population.toLocaleString()} pop, ${employment}% employed`;
-    }
-  }
-
-  // COMPETITION SCORE (0-10) - Balance is good, oversaturation is bad
-  if (nearbyBusinesses.length > 0) {
-    const businessCount = nearbyBusinesses.length;
-
-    // Count business types
-    const typeCount: Record<string, number> = {};
-    nearbyBusinesses.forEach(b => {
-      const type = b.type || 'Other';
-      typeCount[type] = (typeCount[type] || 0) + 1;
-    });
-
-    const uniqueTypes = Object.keys(typeCount).length;
-
-    // Some competition is good (shows area is viable), too much is bad
-    if (businessCount >= 5 && businessCount <= 20 && uniqueTypes >= 3) {
-      competitionScore = 9;
-      competitionDetail = `Healthy mix: ${businessCount} businesses, ${uniqueTypes} categories - proven commercial area`;
-    } else if (businessCount >= 3 && businessCount <= 30) {
-      competitionScore = 7;
-      competitionDetail = `Good activity: ${businessCount} businesses nearby - established area`;
-    } else if (businessCount > 30) {
-      competitionScore = 5;
-      competitionDetail = `High density: ${businessCount} businesses - competitive market`;
-    } else if (businessCount < 3) {
-      competitionScore = 4;
-      competitionDetail = `Limited activity: Only ${businessCount} businesses - unproven area`;
-    }
-
-    // Check for anchor stores (positive signal)
-    const hasAnchor = nearbyBusinesses.some(b =>
-      ['walmart', 'target', 'costco', 'home depot', 'lowes', 'publix', 'kroger'].some(
-        anchor => b.name.toLowerCase().includes(anchor)
-      )
-    );
-    if (hasAnchor) {
-      competitionScore = Math.min(10, competitionScore + 1);
-      competitionDetail += ' + anchor tenant present';
-    }
-  }
-
-  // ENVIRONMENTAL SCORE (0-10) - Lower risk = higher score
-  if (environmentalRisk) {
-    const riskScore = environmentalRisk.overallRiskScore; // 0-100, higher is better (less risk)
-
-    // Convert 0-100 risk score to 0-10 feasibility score
-    environmentalScore = Math.round(riskScore / 10);
-
-    // Build detail string
-    const riskFactors: string[] = [];
-
-    if (environmentalRisk.floodZone.risk === 'high') {
-      riskFactors.push('High flood risk');
-      environmentalScore = Math.max(0, environmentalScore - 2);
-    } else if (environmentalRisk.floodZone.risk === 'moderate') {
-      riskFactors.push('Moderate flood risk');
-      environmentalScore = Math.max(0, environmentalScore - 1);
-    }
-
-    if (environmentalRisk.wetlands.present) {
-      riskFactors.push('Wetlands present');
-      environmentalScore = Math.max(0, environmentalScore - 1);
-    }
-
-    if (environmentalRisk.brownfields.present) {
-      const count = environmentalRisk.brownfields.count || 1;
-      riskFactors.push(`${count} brownfield site(s) nearby`);
-      environmentalScore = Math.max(0, environmentalScore - 1);
-    }
-
-    if (environmentalRisk.superfund.present) {
-      const count = environmentalRisk.superfund.count || 1;
-      riskFactors.push(`${count} Superfund site(s) nearby`);
-      environmentalScore = Math.max(0, environmentalScore - 2);
-    }
-
-    environmentalScore = Math.min(10, Math.max(0, environmentalScore));
-
-    if (riskFactors.length === 0) {
-      environmentalDetail = `Low environmental risk (${riskScore}/100) - Clear for development`;
-    } else {
-      environmentalDetail = `Environmental concerns: ${riskFactors.join(', ')} (Risk score: ${riskScore}/100)`;
-    }
-  }
-
-  // MARKET SCORE (0-10) - Based on comparable sales validation
-  if (marketComps && marketComps.length > 0) {
-    const avgPricePerSqft = marketComps.reduce((sum, c) => sum + c.pricePerSqft, 0) / marketComps.length;
-    const compCount = marketComps.length;
-
-    // More comps = more market validation
-    if (compCount >= 5) {
-      marketScore = 8;
-      marketDetail = `Strong market activity: ${compCount} recent sales, avg $${Math.round(avgPricePerSqft)}/sqft`;
-    } else if (compCount >= 3) {
-      marketScore = 7;
-      marketDetail = `Good market activity: ${compCount} recent sales, avg $${Math.round(avgPricePerSqft)}/sqft`;
-    } else {
-      marketScore = 5;
-      marketDetail = `Limited market data: ${compCount} recent sales, avg $${Math.round(avgPricePerSqft)}/sqft`;
-    }
-
-    // Bonus for higher price per sqft (indicates desirable area)
-    if (avgPricePerSqft >= 200) {
-      marketScore = Math.min(10, marketScore + 2);
-      marketDetail += ' - Premium market';
-    } else if (avgPricePerSqft >= 150) {
-      marketScore = Math.min(10, marketScore + 1);
-      marketDetail += ' - Strong market';
-    }
-  }
-
-  // Calculate overall score (weighted average)
-  const weights = {
-    traffic: 0.25,        // 25% - traffic is critical
-    demographics: 0.20,   // 20% - demographics matter
-    competition: 0.15,    // 15% - market validation
-    access: 0.15,         // 15% - visibility/access
-    environmental: 0.15,  // 15% - environmental risk
-    market: 0.10          // 10% - market comps validation
-  };
-
-  const overall = Math.round(
-    (trafficScore * weights.traffic +
-    demographicsScore * weights.demographics +
-    competitionScore * weights.competition +
-    accessScore * weights.access +
-    environmentalScore * weights.environmental +
-    marketScore * weights.market) * 10
-  ) / 10;
-
-  // Determine rating
-  let rating: 'Excellent' | 'Good' | 'Fair' | 'Poor';
-  if (overall >= 8) rating = 'Excellent';
-  else if (overall >= 6) rating = 'Good';
-  else if (overall >= 4) rating = 'Fair';
-  else rating = 'Poor';
-
-  return {
-    overall,
-    breakdown: {
-      trafficScore,
-      demographicsScore,
-      competitionScore,
-      accessScore,
-      environmentalScore,
-      marketScore,
-      economicScore: 5, // Calculated on client with full data
-      siteScore: 5      // Calculated on client with parcel info
-    },
-    details: {
-      traffic: trafficDetail,
-      demographics: demographicsDetail,
-      competition: competitionDetail,
-      environmental: environmentalDetail,
-      market: marketDetail,
-      access: accessDetail,
-      economic: 'Calculated with live data',
-      site: 'Calculated with parcel data'
-    },
-    rating
-  };
+  return scoreFeasibility({
+    traffic: trafficData,
+    accessPoints,
+    demographics: demographicsData,
+    businesses: nearbyBusinesses,
+    environmentalRisk,
+    marketComps,
+    locationIntelligence,
+    parcel: lotSizeAcres ? { acres: lotSizeAcres } : null,
+  }, scoringOptions);
 }
 
 // Calculate retailer matches for expansion intelligence
@@ -1242,6 +952,7 @@ interface RetailerMatchResult {
   totalInvestment?: string;
   expansionRegions: string[];
   notes?: string;
+  coTenancyReport?: CoTenancyReport;
 }
 
 function calculateRetailerMatches(
@@ -1251,16 +962,15 @@ function calculateRetailerMatches(
   incomeLevel: 'low' | 'moderate' | 'middle' | 'upper-middle' | 'high' | null,
   population: number | null,
   stateCode: string | null,
-  isCollegeTown: boolean = false
+  isCollegeTown: boolean = false,
+  nearbyBusinesses: Business[] = []
 ): { matches: RetailerMatchResult[]; totalMatches: number } {
   const matches: RetailerMatchResult[] = [];
 
-  for (const retailer of RETAILER_REQUIREMENTS) {
-    // Only include actively expanding retailers
-    if (!retailer.activelyExpanding) continue;
-
+  // Only include actively expanding retailers
+  for (const retailer of queryTenants({ activelyExpanding: true })) {
     // Skip discount retailers in college town markets (student income is deceptively low)
-    if (isCollegeTown && retailer.category === 'Discount Retail') {
+    if (isCollegeTown && retailer.category === 'DOLLAR / VALUE / THRIFT / RESALE') {
       continue;
     }
 
@@ -1275,22 +985,23 @@ function calculateRetailerMatches(
     let weightedFactors = 0;
 
     // === LOT SIZE MATCHING (30% weight) ===
-    if (lotSizeAcres !== null) {
+    if (lotSizeAcres !== null && retailer.lotAcres) {
       const lotWeight = 30;
       weightedFactors += lotWeight;
+      const { min: minLotSize, max: maxLotSize } = retailer.lotAcres;
 
-      if (lotSizeAcres >= retailer.minLotSize && lotSizeAcres <= retailer.maxLotSize * 1.5) {
+      if (lotSizeAcres >= minLotSize && lotSizeAcres <= maxLotSize * 1.5) {
         matchDetails.lotSize.matches = true;
-        matchDetails.lotSize.note = `${retailer.minLotSize}-${retailer.maxLotSize} acres needed, site has ${lotSizeAcres.toFixed(1)} acres`;
+        matchDetails.lotSize.note = `${minLotSize}-${maxLotSize} acres needed, site has ${lotSizeAcres.toFixed(1)} acres`;
         totalScore += lotWeight;
-      } else if (lotSizeAcres >= retailer.minLotSize * 0.8) {
+      } else if (lotSizeAcres >= minLotSize * 0.8) {
         matchDetails.lotSize.matches = true;
-        matchDetails.lotSize.note = `Site is slightly small (${lotSizeAcres.toFixed(1)} vs ${retailer.minLotSize} min)`;
+        matchDetails.lotSize.note = `Site is slightly small (${lotSizeAcres.toFixed(1)} vs ${minLotSize} min)`;
         totalScore += lotWeight * 0.6;
       } else {
         matchDetails.lotSize.matches = false;
-        matchDetails.lotSize.note = `Site too small: needs ${retailer.minLotSize}+ acres, has ${lotSizeAcres.toFixed(1)}`;
-        if (lotSizeAcres < retailer.minLotSize * 0.5) {
+        matchDetails.lotSize.note = `Site too small: needs ${minLotSize}+ acres, has ${lotSizeAcres.toFixed(1)}`;
+        if (lotSizeAcres < minLotSize * 0.5) {
           continue; // Disqualify
         }
         totalScore += lotWeight * 0.2;
@@ -1300,25 +1011,27 @@ function calculateRetailerMatches(
     }
 
     // === TRAFFIC/VPD MATCHING (25% weight) ===
-    if (vpd !== null) {
+    if (vpd !== null && retailer.minVPD !== null) {
       const vpdWeight = 25;
       weightedFactors += vpdWeight;
+      const minVPD = retailer.minVPD;
+      const idealVPD = retailer.idealVPD ?? minVPD;
 
-      if (vpd >= retailer.idealVPD) {
+      if (vpd >= idealVPD) {
         matchDetails.traffic.matches = true;
-        matchDetails.traffic.note = `Excellent: ${vpd.toLocaleString()} VPD (ideal is ${retailer.idealVPD.toLocaleString()}+)`;
+        matchDetails.traffic.note = `Excellent: ${vpd.toLocaleString()} VPD (ideal is ${idealVPD.toLocaleString()}+)`;
         totalScore += vpdWeight;
-      } else if (vpd >= retailer.minVPD) {
+      } else if (vpd >= minVPD) {
         matchDetails.traffic.matches = true;
-        matchDetails.traffic.note = `Good: ${vpd.toLocaleString()} VPD meets minimum of ${retailer.minVPD.toLocaleString()}`;
+        matchDetails.traffic.note = `Good: ${vpd.toLocaleString()} VPD meets minimum of ${minVPD.toLocaleString()}`;
         totalScore += vpdWeight * 0.7;
-      } else if (vpd >= retailer.minVPD * 0.7) {
+      } else if (vpd >= minVPD * 0.7) {
         matchDetails.traffic.matches = false;
-        matchDetails.traffic.note = `Below ideal: ${vpd.toLocaleString()} VPD (needs ${retailer.minVPD.toLocaleString()}+)`;
+        matchDetails.traffic.note = `Below ideal: ${vpd.toLocaleString()} VPD (needs ${minVPD.toLocaleString()}+)`;
         totalScore += vpdWeight * 0.3;
       } else {
         matchDetails.traffic.matches = false;
-        matchDetails.traffic.note = `Insufficient: ${vpd.toLocaleString()} VPD (needs ${retailer.minVPD.toLocaleString()}+)`;
+        matchDetails.traffic.note = `Insufficient: ${vpd.toLocaleString()} VPD (needs ${minVPD.toLocaleString()}+)`;
       }
     } else {
       matchDetails.traffic.note = 'Traffic data not available';
@@ -1363,34 +1076,35 @@ function calculateRetailerMatches(
 
     if (medianIncome !== null) {
       // STRICT check: if income exceeds max by more than 30%, disqualify
-      if (retailer.maxMedianIncome && medianIncome > retailer.maxMedianIncome * 1.3) {
+      if (retailer.maxHHI && medianIncome > retailer.maxHHI * 1.3) {
         // Disqualify - income way too high for this retailer
         continue;
-      } else if (retailer.minMedianIncome && medianIncome < retailer.minMedianIncome * 0.7) {
+      } else if (retailer.minHHI && medianIncome < retailer.minHHI * 0.7) {
         // Disqualify - income way too low for this retailer
         continue;
-      } else if (retailer.minMedianIncome && medianIncome < retailer.minMedianIncome) {
-        demoNotes.push(`Income below minimum ($${medianIncome.toLocaleString()} vs $${retailer.minMedianIncome.toLocaleString()})`);
+      } else if (retailer.minHHI && medianIncome < retailer.minHHI) {
+        demoNotes.push(`Income below minimum ($${medianIncome.toLocaleString()} vs $${retailer.minHHI.toLocaleString()})`);
         demoScore += 0.1;
-      } else if (retailer.maxMedianIncome && medianIncome > retailer.maxMedianIncome) {
-        demoNotes.push(`Income above target ($${medianIncome.toLocaleString()} vs $${retailer.maxMedianIncome.toLocaleString()} max)`);
+      } else if (retailer.maxHHI && medianIncome > retailer.maxHHI) {
+        demoNotes.push(`Income above target ($${medianIncome.toLocaleString()} vs $${retailer.maxHHI.toLocaleString()} max)`);
         demoScore += 0.1;
-      } else if (retailer.minMedianIncome && medianIncome >= retailer.minMedianIncome) {
+      } else if (retailer.minHHI && medianIncome >= retailer.minHHI) {
         demoScore += 0.3;
       } else {
         demoScore += 0.2;
       }
     }
 
-    if (population !== null) {
-      if (population >= retailer.minPopulation) {
+    if (population !== null && retailer.minPopulation !== null) {
+      const minPopulation = retailer.minPopulation;
+      if (population >= minPopulation) {
         demoScore += 0.3;
         demoNotes.push(`Population (${population.toLocaleString()}) meets minimum`);
-      } else if (population >= retailer.minPopulation * 0.7) {
+      } else if (population >= minPopulation * 0.7) {
         demoScore += 0.15;
-        demoNotes.push(`Population slightly below target (${population.toLocaleString()} vs ${retailer.minPopulation.toLocaleString()})`);
+        demoNotes.push(`Population slightly below target (${population.toLocaleString()} vs ${minPopulation.toLocaleString()})`);
       } else {
-        demoNotes.push(`Population too low (${population.toLocaleString()} vs ${retailer.minPopulation.toLocaleString()} needed)`);
+        demoNotes.push(`Population too low (${population.toLocaleString()} vs ${minPopulation.toLocaleString()} needed)`);
       }
     }
 
@@ -1403,12 +1117,7 @@ function calculateRetailerMatches(
     weightedFactors += regionWeight;
 
     if (stateCode) {
-      const siteRegions = getRegionFromState(stateCode);
-      const expandingInRegion = retailer.expansionRegions.some(r =>
-        r === 'National' || siteRegions.includes(r) || r === stateCode
-      );
-
-      if (expandingInRegion) {
+      if (tenantExpandsIn(retailer, stateCode)) {
         matchDetails.region.matches = true;
         if (retailer.expansionRegions.includes('National')) {
           matchDetails.region.note = 'Expanding nationally';
@@ -1436,7 +1145,7 @@ function calculateRetailerMatches(
 
     matches.push({
       name: retailer.name,
-      category: retailer.category,
+      category: retailer.categoryLabel,
       matchScore: finalScore,
       matchDetails,
       activelyExpanding: retailer.activelyExpanding,
@@ -1447,7 +1156,8 @@ function calculateRetailerMatches(
         ? `$${(retailer.totalInvestmentMin / 1000000).toFixed(1)}M - $${(retailer.totalInvestmentMax / 1000000).toFixed(1)}M`
         : undefined,
       expansionRegions: retailer.expansionRegions,
-      notes: retailer.notes,
+      notes: retailer.notes ?? undefined,
+      coTenancyReport: nearbyBusinesses.length > 0 ? analyzeCoTenancy(retailer, nearbyBusinesses) : undefined,
     });
   }
 
@@ -1460,32 +1170,14 @@ function calculateRetailerMatches(
   };
 }
 
-// Check if a business name matches any of the examples (fuzzy match)
-function businessExistsInArea(businessName: string, examples: string[]): boolean {
-  const normalizedName = businessName.toLowerCase().replace(/[^a-z0-9]/g, '');
-  return examples.some(example => {
-    const normalizedExample = example.toLowerCase().replace(/[^a-z0-9]/g, '');
-    return normalizedName.includes(normalizedExample) || normalizedExample.includes(normalizedName);
-  });
-}
-
 // Get list of existing business names from nearby businesses
 function getExistingBusinessNames(nearbyBusinesses: Business[]): string[] {
   return nearbyBusinesses.map(b => b.name);
 }
 
-// Filter examples to exclude businesses that already exist nearby
+// Filter examples to exclude brands that already exist nearby
 function filterExistingBusinesses(examples: string[], nearbyBusinesses: Business[]): string[] {
-  const existingNames = nearbyBusinesses.map(b => b.name.toLowerCase().replace(/[^a-z0-9]/g, ''));
-
-  return examples.filter(example => {
-    const normalizedExample = example.toLowerCase().replace(/[^a-z0-9]/g, '');
-    // Check if this business already exists in the nearby area
-    const exists = existingNames.some(existing =>
-      existing.includes(normalizedExample) || normalizedExample.includes(existing)
-    );
-    return !exists;
-  });
+  return examples.filter(example => !nearbyBusinesses.some(b => isSameBrand(example, b)));
 }
 
 function calculateBusinessSuitability(
@@ -1737,13 +1429,7 @@ function calculateBusinessSuitability(
     };
 
     // Find which businesses from this category already exist in the area
-    const existingInArea = threshold.examples.filter(example => {
-      const normalizedExample = example.toLowerCase().replace(/[^a-z0-9]/g, '');
-      return nearbyBusinesses.some(b => {
-        const normalizedName = b.name.toLowerCase().replace(/[^a-z0-9]/g, '');
-        return normalizedName.includes(normalizedExample) || normalizedExample.includes(normalizedName);
-      });
-    });
+    const existingInArea = findBrandsPresent(threshold.examples, nearbyBusinesses);
 
     // Filter out existing businesses from recommendations
     const availableExamples = filterExistingBusinesses(threshold.examples, nearbyBusinesses);
@@ -1831,7 +1517,7 @@ function calculateBusinessSuitability(
     .map(({ siteAdvantage, ...rest }) => rest); // Remove siteAdvantage from output
 }
 
-// Generate top specific recommendations using RETAILER_REQUIREMENTS spreadsheet
+// Generate top specific recommendations using the tenant catalog
 // Score-based matching against ALL address metrics from spreadsheet columns
 interface TopRecommendation {
   name: string;
@@ -1848,7 +1534,9 @@ function generateTopRecommendations(
   stateCode: string | null = null,
   isCornerLot: boolean = false,
   buildingSqFt: number | null = null,
-  locationIntelligence: LocationIntelligenceInfo | null = null
+  locationIntelligence: LocationIntelligenceInfo | null = null,
+  frontageFeet: number | null = null,
+  trafficProfile: TrafficProfile | null = null
 ): TopRecommendation[] {
   const recommendations: Array<{ name: string; score: number; category: string }> = [];
 
@@ -1877,11 +1565,11 @@ function generateTopRecommendations(
   }
 
   // Debug logging
-  console.log(`[Recommendations] Input metrics: VPD=${actualVPD}, Pop=${actualPopulation}, Income=$${actualMedianIncome}, Level=${actualIncomeLevel}, State=${stateCode}, Region=${addressRegion}, LotSize=${lotSizeAcres}, Corner=${isCornerLot}`);
+  console.log(`[Recommendations] Input metrics: VPD=${actualVPD}, Pop=${actualPopulation}, Income=$${actualMedianIncome}, Level=${actualIncomeLevel}, State=${stateCode}, Region=${addressRegion}, LotSize=${lotSizeAcres}, Corner=${isCornerLot}, Frontage=${frontageFeet}`);
 
-  // Get list of existing business names (normalized for comparison)
-  const existingNames = nearbyBusinesses.map(b =>
-    b.name.toLowerCase().replace(/[^a-z0-9]/g, '')
+  // Catalog tenants that already operate nearby are not recommended again
+  const presentTenantIds = new Set(
+    nearbyBusinesses.map(b => resolveBrand(b)?.tenant.id).filter((id): id is string => !!id)
   );
 
   // If historic downtown, add downtown-specific recommendations first
@@ -1902,8 +1590,16 @@ function generateTopRecommendations(
     }
   }
 
-  // Score each retailer from the spreadsheet against actual metrics
-  for (const retailer of RETAILER_REQUIREMENTS) {
+  // Score each catalog tenant with lot and traffic requirements against actual metrics
+  for (const retailer of TENANT_CATALOG) {
+    if (!retailer.lotAcres || retailer.minVPD === null) continue;
+    const { min: minLotSize, max: maxLotSize } = retailer.lotAcres;
+    const minVPD = retailer.minVPD;
+    const idealVPD = retailer.idealVPD ?? minVPD;
+    const minPopulation = retailer.minPopulation ?? 0;
+
+    if (presentTenantIds.has(retailer.id)) continue;
+
     // Skip inappropriate categories for district type
     if (districtInfo?.inappropriateCategories.some(cat =>
       retailer.category.toLowerCase().includes(cat.toLowerCase())
@@ -1915,29 +1611,34 @@ function generateTopRecommendations(
 
     // HARD FILTER 1: Lot size too small - SKIP entirely
     if (lotSizeAcres !== null && lotSizeAcres > 0) {
-      if (lotSizeAcres < retailer.minLotSize * 0.7) {
+      if (lotSizeAcres < minLotSize * 0.7) {
         // Lot is more than 30% below minimum - impossible to fit
         continue;
       }
     }
 
-    // HARD FILTER 2: VPD way below minimum - SKIP entirely
-    if (actualVPD > 0 && retailer.minVPD > 0) {
-      if (actualVPD < retailer.minVPD * 0.4) {
+    // HARD FILTER 2: Measured frontage well short of the tenant's minimum - SKIP
+    if (frontageFeet !== null && retailer.minFrontageFeet !== null && frontageFeet < retailer.minFrontageFeet * 0.75) {
+      continue;
+    }
+
+    // HARD FILTER 3: VPD way below minimum - SKIP entirely
+    if (actualVPD > 0 && minVPD > 0) {
+      if (actualVPD < minVPD * 0.4) {
         // VPD is less than 40% of minimum - not viable
         continue;
       }
     }
 
-    // HARD FILTER 3: Population way below minimum - SKIP entirely
-    if (actualPopulation > 0 && retailer.minPopulation > 0) {
-      if (actualPopulation < retailer.minPopulation * 0.3) {
+    // HARD FILTER 4: Population way below minimum - SKIP entirely
+    if (actualPopulation > 0 && minPopulation > 0) {
+      if (actualPopulation < minPopulation * 0.3) {
         // Population is less than 30% of minimum - not viable
         continue;
       }
     }
 
-    // HARD FILTER 4: Income bracket completely mismatched - SKIP entirely
+    // HARD FILTER 5: Income bracket completely mismatched - SKIP entirely
     if (retailer.incomePreference && retailer.incomePreference.length > 0) {
       const incomeOrder = ['low', 'moderate', 'middle', 'upper-middle', 'high'];
       const actualIndex = incomeOrder.indexOf(actualIncomeLevel);
@@ -1955,7 +1656,7 @@ function generateTopRecommendations(
       }
     }
 
-    // HARD FILTER 5: Highway-dependent retailers far from highway - SKIP
+    // HARD FILTER 6: Highway-dependent retailers far from highway - SKIP
     const highwayDependentCategories = ['Gas Station', 'Hotel', 'Truck Stop', 'Travel Center'];
     const isHighwayDependent = highwayDependentCategories.some(cat =>
       retailer.category.toLowerCase().includes(cat.toLowerCase())
@@ -1974,20 +1675,20 @@ function generateTopRecommendations(
     // === VPD SCORING (0-30 points) ===
     totalChecks++;
     if (actualVPD > 0) {
-      if (actualVPD >= retailer.idealVPD) {
+      if (actualVPD >= idealVPD) {
         score += 30; // Exceeds ideal traffic
         matchCount++;
-      } else if (actualVPD >= retailer.minVPD) {
+      } else if (actualVPD >= minVPD) {
         // Scale between min and ideal
-        const vpdRatio = (actualVPD - retailer.minVPD) / (retailer.idealVPD - retailer.minVPD);
+        const vpdRatio = (actualVPD - minVPD) / (idealVPD - minVPD);
         score += 20 + Math.round(vpdRatio * 10); // 20-30 points
         matchCount++;
-      } else if (actualVPD >= retailer.minVPD * 0.6) {
+      } else if (actualVPD >= minVPD * 0.6) {
         // Close to minimum (within 60%) - still viable
-        const vpdRatio = actualVPD / retailer.minVPD;
+        const vpdRatio = actualVPD / minVPD;
         score += Math.round(vpdRatio * 18); // 11-18 points
         matchCount += 0.7;
-      } else if (actualVPD >= retailer.minVPD * 0.4) {
+      } else if (actualVPD >= minVPD * 0.4) {
         // Below minimum but not impossible
         score += 5;
         matchCount += 0.3;
@@ -1997,13 +1698,13 @@ function generateTopRecommendations(
 
     // === POPULATION SCORING (0-20 points) - More forgiving ===
     totalChecks++;
-    if (actualPopulation > 0 && retailer.minPopulation) {
-      if (actualPopulation >= retailer.minPopulation) {
+    if (actualPopulation > 0 && minPopulation) {
+      if (actualPopulation >= minPopulation) {
         score += 20;
         matchCount++;
-      } else if (actualPopulation >= retailer.minPopulation * 0.5) {
+      } else if (actualPopulation >= minPopulation * 0.5) {
         // Within 50% of minimum - still viable for many businesses
-        const popRatio = actualPopulation / retailer.minPopulation;
+        const popRatio = actualPopulation / minPopulation;
         score += Math.round(popRatio * 20);
         matchCount += 0.6;
       } else {
@@ -2011,7 +1712,7 @@ function generateTopRecommendations(
         score += 5;
         matchCount += 0.2;
       }
-    } else if (!retailer.minPopulation) {
+    } else if (!minPopulation) {
       // No population requirement = automatic pass
       score += 15;
       matchCount++;
@@ -2057,26 +1758,26 @@ function generateTopRecommendations(
       }
 
       // Additional max income enforcement - penalty instead of skip
-      if (retailer.maxMedianIncome && actualMedianIncome > 0) {
-        if (actualMedianIncome > retailer.maxMedianIncome * 1.5) {
+      if (retailer.maxHHI && actualMedianIncome > 0) {
+        if (actualMedianIncome > retailer.maxHHI * 1.5) {
           score -= 15; // Way above max
-        } else if (actualMedianIncome > retailer.maxMedianIncome * 1.2) {
+        } else if (actualMedianIncome > retailer.maxHHI * 1.2) {
           score -= 10; // Above max
-        } else if (actualMedianIncome > retailer.maxMedianIncome) {
+        } else if (actualMedianIncome > retailer.maxHHI) {
           score -= 5;
         } else {
           score += 5;
         }
       }
 
-      if (retailer.minMedianIncome && actualMedianIncome > 0) {
-        if (actualMedianIncome < retailer.minMedianIncome * 0.5) {
+      if (retailer.minHHI && actualMedianIncome > 0) {
+        if (actualMedianIncome < retailer.minHHI * 0.5) {
           // Income is 50%+ below retailer's min - penalty but don't skip
           score -= 20;
-        } else if (actualMedianIncome < retailer.minMedianIncome * 0.7) {
+        } else if (actualMedianIncome < retailer.minHHI * 0.7) {
           // Income is 30-50% below min
           score -= 10;
-        } else if (actualMedianIncome < retailer.minMedianIncome) {
+        } else if (actualMedianIncome < retailer.minHHI) {
           score -= 5; // Below min but within 30%
         } else {
           score += 5; // Above minimum
@@ -2087,15 +1788,15 @@ function generateTopRecommendations(
     // === LOT SIZE SCORING (0-15 points) ===
     if (lotSizeAcres !== null && lotSizeAcres > 0) {
       totalChecks++;
-      if (lotSizeAcres >= retailer.minLotSize && lotSizeAcres <= retailer.maxLotSize * 2) {
-        if (lotSizeAcres <= retailer.maxLotSize) {
+      if (lotSizeAcres >= minLotSize && lotSizeAcres <= maxLotSize * 2) {
+        if (lotSizeAcres <= maxLotSize) {
           score += 15; // Perfect fit
           matchCount++;
         } else {
           score += 8; // Slightly oversized but workable
           matchCount += 0.5;
         }
-      } else if (lotSizeAcres < retailer.minLotSize) {
+      } else if (lotSizeAcres < minLotSize) {
         // Lot too small - significant penalty
         score -= 10;
       }
@@ -2123,7 +1824,7 @@ function generateTopRecommendations(
     }
 
     // === DRIVE-THRU REQUIREMENT CHECK ===
-    if (retailer.driveThruRequired) {
+    if (retailer.driveThru === 'required') {
       // Drive-thru typically needs at least 0.5 acres for proper stacking lanes
       if (lotSizeAcres !== null && lotSizeAcres < 0.4) {
         continue; // Lot too small for drive-thru - SKIP this retailer
@@ -2143,16 +1844,22 @@ function generateTopRecommendations(
       }
     }
 
+    // === FRONTAGE CHECK ===
+    if (frontageFeet !== null && retailer.minFrontageFeet !== null && frontageFeet < retailer.minFrontageFeet) {
+      score -= 5; // Short of the tenant's frontage requirement but within 25%
+    }
+
     // === BUILDING SIZE CHECK ===
-    if (buildingSqFt !== null && buildingSqFt > 0) {
-      if (retailer.minSqFt && buildingSqFt < retailer.minSqFt * 0.8) {
+    if (buildingSqFt !== null && buildingSqFt > 0 && retailer.buildingSF) {
+      const { min: minSqFt, max: maxSqFt } = retailer.buildingSF;
+      if (minSqFt && buildingSqFt < minSqFt * 0.8) {
         continue; // Building too small - SKIP
       }
-      if (retailer.maxSqFt && buildingSqFt > retailer.maxSqFt * 1.5) {
+      if (maxSqFt && buildingSqFt > maxSqFt * 1.5) {
         score -= 5; // Building much larger than needed
       }
-      if (retailer.minSqFt && retailer.maxSqFt) {
-        if (buildingSqFt >= retailer.minSqFt && buildingSqFt <= retailer.maxSqFt) {
+      if (minSqFt && maxSqFt) {
+        if (buildingSqFt >= minSqFt && buildingSqFt <= maxSqFt) {
           score += 10; // Perfect building size fit
         }
       }
@@ -2246,13 +1953,20 @@ function generateTopRecommendations(
       score += 3; // Tax incentives make site more attractive for investment
     }
 
+    // === DAYPART FIT (-8 to +8 points) ===
+    // Breakfast concepts want the morning-commute side, dinner and grocery the going-home side
+    const daypart = trafficProfile ? tenantDaypart(retailer) : null;
+    if (trafficProfile && daypart) {
+      score += Math.round((scoreDaypartFit(trafficProfile, daypart).score - 5) * 1.6);
+    }
+
     // Only include if score is positive and meets minimum threshold
     const minScoreThreshold = 35; // Higher threshold - only show retailers that actually fit the site
     if (score >= minScoreThreshold) {
       recommendations.push({
         name: retailer.name,
         score: score,
-        category: retailer.category
+        category: retailer.categoryLabel
       });
     }
   }
@@ -2286,7 +2000,17 @@ function generateTopRecommendations(
 export async function POST(request: Request) {
   try {
     const body: AnalyzeRequest = await request.json();
-    const { images, address, nearbyBusinesses, trafficData, demographicsData, environmentalRisk, marketComps, locationIntelligence } = body;
+    const { images, address, nearbyBusinesses, trafficData, demographicsData, environmentalRisk, marketComps, locationIntelligence, frontage } = body;
+
+    const scoringOptions: ScoringOptions = { modelVersion: body.scoringModelVersion, tenantCategory: body.tenantCategory };
+    try {
+      getScoringModel(scoringOptions.modelVersion);
+    } catch (err) {
+      if (err instanceof ScoringModelError) {
+        return NextResponse.json({ error: err.message }, { status: 400 });
+      }
+      throw err;
+    }
 
     // Debug logging - track what data is received for each address
     console.log(`\n========== ANALYZE REQUEST ==========`);
@@ -2303,17 +2027,20 @@ export async function POST(request: Request) {
     const hasImages = images && images.length > 0;
 
     const apiKey = process.env.GOOGLE_GEMINI_API_KEY;
-    if (!apiKey) {
+    // Replay mode serves recorded Gemini responses, so no key is needed
+    const replaying = getFixtureMode() === 'replay';
+    if (!apiKey && !replaying) {
       console.error('GOOGLE_GEMINI_API_KEY not configured');
       return NextResponse.json({
-        ...getMockAnalysis(nearbyBusinesses, trafficData, demographicsData, 1.35, address, environmentalRisk, marketComps),
+        ...getMockAnalysis(nearbyBusinesses, trafficData, demographicsData, 1.35, address, environmentalRisk, marketComps, scoringOptions),
         usingMockData: true,
         reason: 'API key not configured'
       });
     }
 
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
+    const modelName = 'gemini-2.5-flash';
+    const genAI = new GoogleGenerativeAI(apiKey || '');
+    const model = genAI.getGenerativeModel({ model: modelName });
 
     // Get list of existing businesses to exclude
     const existingBusinessNames = nearbyBusinesses.map(b => b.name).join(', ');
@@ -2433,13 +2160,14 @@ CRITICAL RULES:
 
 Return ONLY valid JSON, no markdown or explanation.`;
 
-    const result = await model.generateContent([
-      prompt,
-      ...imageParts as any[],
-    ]);
-
-    const response = await result.response;
-    let analysisText = response.text().trim();
+    let analysisText = (await replayable('gemini', { model: modelName, prompt, imageParts }, async () => {
+      const result = await model.generateContent([
+        prompt,
+        ...imageParts as any[],
+      ]);
+      const response = await result.response;
+      return response.text();
+    })).trim();
 
     // Remove markdown code blocks if present
     if (analysisText.startsWith('```json')) {
@@ -2479,8 +2207,11 @@ Return ONLY valid JSON, no markdown or explanation.`;
       stateCode = stateMatch[1];
     }
 
-    // Determine if corner lot from AI analysis or parcel data
-    const isCornerLot = analysis.siteCharacteristics?.toLowerCase().includes('corner') || false;
+    // Corner lot from the measured parcel frontage, falling back to the AI site description
+    const isCornerLot = frontage
+      ? frontage.isCornerLot
+      : analysis.siteCharacteristics?.toLowerCase().includes('corner') || false;
+    const frontageFeet = frontage?.primaryFrontageFeet || null;
 
     // Get building size if available from analysis
     const buildingSqFt = analysis.estimatedLotSize ?
@@ -2504,7 +2235,9 @@ Return ONLY valid JSON, no markdown or explanation.`;
         stateCode,
         isCornerLot,
         buildingSqFt,
-        locationIntelligence
+        locationIntelligence,
+        frontageFeet,
+        trafficData.profiles?.[0] ?? null
       );
 
       // Add downtown-specific recommendations if in historic downtown
@@ -2522,7 +2255,17 @@ Return ONLY valid JSON, no markdown or explanation.`;
     }
 
     // Calculate comprehensive feasibility score
-    const feasibilityScore = calculateFeasibilityScore(trafficData, demographicsData, nearbyBusinesses, environmentalRisk, marketComps);
+    const feasibilityScore = calculateFeasibilityScore(
+      trafficData,
+      demographicsData,
+      nearbyBusinesses,
+      environmentalRisk,
+      marketComps,
+      locationIntelligence ?? null,
+      lotSizeAcres,
+      scoringOptions,
+      body.accessPoints ?? []
+    );
     analysis.feasibilityScore = feasibilityScore;
     // Override viabilityScore with our calculated score
     analysis.viabilityScore = feasibilityScore.overall;
@@ -2534,7 +2277,8 @@ Return ONLY valid JSON, no markdown or explanation.`;
       demographicsData?.incomeLevel || null,
       demographicsData?.population || null,
       stateCode,
-      demographicsData?.isCollegeTown || false
+      demographicsData?.isCollegeTown || false,
+      nearbyBusinesses
     );
     analysis.retailerMatches = retailerMatches;
 
@@ -2555,7 +2299,7 @@ Return ONLY valid JSON, no markdown or explanation.`;
   }
 }
 
-function getMockAnalysis(nearbyBusinesses: Business[], trafficData: TrafficInfo | null, demographicsData: DemographicsInfo | null = null, lotSizeAcres: number | null = 1.35, address: string = '', environmentalRisk: EnvironmentalRiskInfo | null = null, marketComps: MarketCompInfo[] | null = null) {
+function getMockAnalysis(nearbyBusinesses: Business[], trafficData: TrafficInfo | null, demographicsData: DemographicsInfo | null = null, lotSizeAcres: number | null = 1.35, address: string = '', environmentalRisk: EnvironmentalRiskInfo | null = null, marketComps: MarketCompInfo[] | null = null, scoringOptions: ScoringOptions = {}) {
   const vpd = trafficData?.estimatedVPD || 15000;
 
   // Extract state code from address FIRST
@@ -2567,7 +2311,7 @@ function getMockAnalysis(nearbyBusinesses: Business[], trafficData: TrafficInfo
 
   const businessSuitability = calculateBusinessSuitability(vpd, nearbyBusinesses, demographicsData, lotSizeAcres, null, null);
   const topRecommendations = generateTopRecommendations(vpd, nearbyBusinesses, demographicsData, lotSizeAcres, null, stateCode, false, null, null);
-  const feasibilityScore = calculateFeasibilityScore(trafficData, demographicsData, nearbyBusinesses, environmentalRisk, marketComps);
+  const feasibilityScore = calculateFeasibilityScore(trafficData, demographicsData, nearbyBusinesses, environmentalRisk, marketComps, null, null, scoringOptions);
 
   const retailerMatches = calculateRetailerMatches(
     lotSizeAcres,
@@ -2576,7 +2320,8 @@ function getMockAnalysis(nearbyBusinesses: Business[], trafficData: TrafficInfo
     demographicsData?.incomeLevel || null,
     demographicsData?.population || null,
     stateCode,
-    demographicsData?.isCollegeTown || false
+    demographicsData?.isCollegeTown || false,
+    nearbyBusinesses
   );
 
   // Build recommendation excluding existing businesses
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { SPREADSHEET_CONTENT_TYPES, SpreadsheetFormat, writeSpreadsheet } from '@/lib/spreadsheet';
+import { getJobSnapshot } from '@/lib/jobs';
+import { exportBulkImportSheet } from '@/lib/bulk-import';
+import type { BulkImportView } from '@/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/bulk-import/:id/export?format=csv|xlsx - ranked results; works mid-run with what's done so far
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const format = (new URL(request.url).searchParams.get('format') || 'xlsx') as SpreadsheetFormat;
+
+    if (format !== 'csv' && format !== 'xlsx') {
+      return NextResponse.json({ error: `Unknown format: ${format}` }, { status: 400 });
+    }
+
+    const job = await getJobSnapshot(id);
+    if (!job || job.kind !== 'bulk-import') {
+      return NextResponse.json({ error: 'Import not found' }, { status: 404 });
+    }
+
+    const view = job.data as BulkImportView;
+    const baseName = view.fileName.replace(/\.[^.]+$/, '').replace(/[^A-Za-z0-9_-]+/g, '-') || 'sites';
+    const data = writeSpreadsheet(exportBulkImportSheet(view), format, 'Ranked Sites');
+    return new Response(Buffer.from(data), {
+      headers: {
+        'Content-Type': SPREADSHEET_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${baseName}-ranked.${format}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to export bulk import:', error);
+    return NextResponse.json({ error: 'Failed to export bulk import' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { readSpreadsheet } from '@/lib/spreadsheet';
+import { enqueueJob, listJobs } from '@/lib/jobs';
+import { BulkImportInput, parseImportSheet } from '@/lib/bulk-import';
+
+// GET /api/bulk-import - recent import jobs, newest first
+export async function GET() {
+  try {
+    return NextResponse.json({ jobs: await listJobs('bulk-import') });
+  } catch (error) {
+    console.error('Failed to list bulk imports:', error);
+    return NextResponse.json({ error: 'Failed to list bulk imports' }, { status: 500 });
+  }
+}
+
+// POST /api/bulk-import (multipart: file)
+// Queues a full analysis of every site in the sheet as a background job and responds with its snapshot;
+// follow progress at /api/jobs/:id/events
+export async function POST(request: Request) {
+  try {
+    const form = await request.formData();
+    const file = form.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'A CSV or XLSX file is required' }, { status: 400 });
+    }
+
+    let sheet;
+    try {
+      sheet = readSpreadsheet(file.name, new Uint8Array(await file.arrayBuffer()));
+    } catch (err) {
+      return NextResponse.json({ error: `Could not read ${file.name}: ${err instanceof Error ? err.message : err}` }, { status: 400 });
+    }
+
+    const parsed = parseImportSheet(sheet);
+    if (parsed.rows.length === 0) {
+      return NextResponse.json({ error: 'No sites to analyze', issues: parsed.issues }, { status: 422 });
+    }
+
+    const input: BulkImportInput = { fileName: file.name, issues: parsed.issues };
+    const job = await enqueueJob('bulk-import', input, parsed.rows);
+    console.log(`[BulkImport] Queued job ${job.id} for ${file.name}: ${parsed.rows.length} sites, ${parsed.issues.length} issues`);
+
+    return NextResponse.json(job, { status: 202 });
+  } catch (error) {
+    console.error('Failed to start bulk import:', error);
+    return NextResponse.json({ error: 'Failed to start bulk import' }, { status: 500 });
+  }
+}
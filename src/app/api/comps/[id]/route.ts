@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { deleteSaleComp } from '@/lib/comps';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const deleted = await deleteSaleComp(id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Sale comp not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete sale comp:', error);
+    return NextResponse.json({ error: 'Failed to delete sale comp' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { readSpreadsheet } from '@/lib/spreadsheet';
+import { importCompSheet } from '@/lib/comps';
+import { withProvenance } from '@/lib/providers';
+
+// POST /api/comps/import (multipart: file)
+// Reads a CSV/XLSX of closed sales (address, sale price and sale date required), geocodes rows
+// without coordinates, drops residential sales and stores the rest as verified comps
+export const POST = withProvenance(async (request: Request) => {
+  try {
+    const form = await request.formData();
+    const file = form.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'A CSV or XLSX file is required' }, { status: 400 });
+    }
+
+    let rows;
+    try {
+      rows = readSpreadsheet(file.name, new Uint8Array(await file.arrayBuffer()));
+    } catch (err) {
+      return NextResponse.json({ error: `Could not read ${file.name}: ${err instanceof Error ? err.message : err}` }, { status: 400 });
+    }
+
+    const result = await importCompSheet(rows, file.name);
+
+    return NextResponse.json({
+      imported: result.imported.length,
+      skipped: result.skipped,
+      issues: result.issues,
+      comps: result.imported,
+    });
+  } catch (error) {
+    console.error('Failed to import sale comps:', error);
+    return NextResponse.json({ error: 'Failed to import sale comps' }, { status: 500 });
+  }
+});
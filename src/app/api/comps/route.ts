@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { listSaleComps } from '@/lib/comps';
+
+// GET /api/comps - recorded sales imported from spreadsheets, newest first
+export async function GET() {
+  try {
+    const comps = await listSaleComps();
+    return NextResponse.json({ comps });
+  } catch (error) {
+    console.error('Failed to list sale comps:', error);
+    return NextResponse.json({ error: 'Failed to list sale comps' }, { status: 500 });
+  }
+}
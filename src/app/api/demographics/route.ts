@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { DemographicsData, NearbyUniversity } from '@/types/demographics';
+import { providerFetch, withProvenance } from '@/lib/providers';
 
 // Re-export for backward compatibility
 export type { DemographicsData, NearbyUniversity };
@@ -17,7 +18,7 @@ async function getGeographyFromCoords(lat: number, lng: number): Promise<{
   try {
     // Census Bureau's geocoder is more reliable than FCC API
     const url = `https://geocoding.geo.census.gov/geocoder/geographies/coordinates?x=${lng}&y=${lat}&benchmark=Public_AR_Current&vintage=Current_Current&layers=Census%20Tracts&format=json`;
-    const response = await fetch(url);
+    const response = await providerFetch(url);
 
     if (!response.ok) return null;
 
@@ -53,7 +54,7 @@ async function fetchNearbyUniversities(lat: number, lng: number): Promise<Nearby
     const url = `https://api.data.gov/ed/collegescorecard/v1/schools?api_key=${apiKey}&location.lat=${lat}&location.lon=${lng}&distance=10mi&latest.student.size__range=1000..&fields=id,school.name,school.city,school.state,latest.student.size,location.lat,location.lon&per_page=10`;
 
     console.log('Fetching universities from College Scorecard...');
-    const response = await fetch(url);
+    const response = await providerFetch(url);
 
     if (!response.ok) {
       console.log('College Scorecard API error:', response.status);
@@ -122,13 +123,13 @@ async function fetchCensusData(
     const url = `https://api.census.gov/data/2022/acs/acs5?get=${variables}&for=tract:${tractCode}&in=state:${stateCode}%20county:${countyCode}`;
 
     console.log('Census API URL:', url);
-    const response = await fetch(url);
+    const response = await providerFetch(url);
 
     if (!response.ok) {
       console.log('Census API not ok:', response.status);
       // Try 2021 data if 2022 not available
       const url2021 = url.replace('/2022/', '/2021/');
-      const response2021 = await fetch(url2021);
+      const response2021 = await providerFetch(url2021);
       if (!response2021.ok) return null;
       const data = await response2021.json();
       return parseCensusData(data, stateCode, countyCode, tractCode);
@@ -446,7 +447,7 @@ function getConsumerProfile(
   };
 }
 
-export async function POST(request: Request) {
+export const POST = withProvenance(async (request: Request) => {
   try {
     const body: DemographicsRequest = await request.json();
     const { coordinates } = body;
@@ -522,4 +523,4 @@ export async function POST(request: Request) {
       message: String(error),
     }, { status: 500 });
   }
-}
+});
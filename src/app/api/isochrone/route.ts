@@ -0,0 +1,29 @@
+// Drive-time trade area polygons over the OSM road network
+import { NextResponse } from 'next/server';
+import { withProvenance } from '@/lib/providers';
+import { DEFAULT_DRIVE_MINUTES, fetchIsochrones, IsochroneError } from '@/lib/isochrone';
+
+interface IsochroneRequest {
+  lat: number;
+  lng: number;
+  minutes?: number[];
+}
+
+export const POST = withProvenance(async (request: Request) => {
+  try {
+    const { lat, lng, minutes = DEFAULT_DRIVE_MINUTES }: IsochroneRequest = await request.json();
+
+    if (!lat || !lng) {
+      return NextResponse.json({ error: 'Coordinates required' }, { status: 400 });
+    }
+
+    const result = await fetchIsochrones(lat, lng, minutes);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof IsochroneError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Failed to build drive-time areas:', error);
+    return NextResponse.json({ error: 'Failed to build drive-time areas' }, { status: 500 });
+  }
+});
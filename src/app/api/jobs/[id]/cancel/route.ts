@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { cancelJob } from '@/lib/jobs';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/jobs/:id/cancel - items already in flight finish; results so far are kept
+export async function POST(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const snapshot = await cancelJob(id);
+    if (!snapshot) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    return NextResponse.json(snapshot);
+  } catch (error) {
+    console.error('Failed to cancel job:', error);
+    return NextResponse.json({ error: 'Failed to cancel job' }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import { getJobSnapshot, startJobWorker } from '@/lib/jobs';
+import type { JobStatus } from '@/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// How often the stored job is checked for changes
+const POLL_INTERVAL_MS = 1000;
+// Comment line sent when nothing changed for a while, so proxies don't drop the connection
+const KEEPALIVE_MS = 15000;
+
+const FINISHED: JobStatus[] = ['done', 'failed', 'cancelled'];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// GET /api/jobs/:id/events - server-sent events: a `progress` event with the job snapshot whenever it
+// changes, ending after the snapshot that shows the job finished. Reconnecting resends the current state
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    await startJobWorker();
+    if (!(await getJobSnapshot(id))) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Failed to load job:', error);
+    return NextResponse.json({ error: 'Failed to load job' }, { status: 500 });
+  }
+
+  const encoder = new TextEncoder();
+  // Set when the client goes away
+  let closed = false;
+  const stream = new ReadableStream({
+    async start(controller) {
+      let lastUpdate = '';
+      let lastSent = Date.now();
+
+      try {
+        while (!closed && !request.signal.aborted) {
+          const snapshot = await getJobSnapshot(id);
+          if (!snapshot) {
+            controller.enqueue(encoder.encode(`event: error\ndata: ${JSON.stringify({ error: 'Job not found' })}\n\n`));
+            break;
+          }
+
+          if (snapshot.updatedAt !== lastUpdate) {
+            controller.enqueue(encoder.encode(`event: progress\ndata: ${JSON.stringify(snapshot)}\n\n`));
+            lastUpdate = snapshot.updatedAt;
+            lastSent = Date.now();
+          } else if (Date.now() - lastSent >= KEEPALIVE_MS) {
+            controller.enqueue(encoder.encode(': keepalive\n\n'));
+            lastSent = Date.now();
+          }
+
+          if (FINISHED.includes(snapshot.status)) break;
+          await sleep(POLL_INTERVAL_MS);
+        }
+      } catch (error) {
+        console.error(`Job event stream for ${id} failed:`, error);
+      }
+      if (!closed) controller.close();
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { deleteJob, getJobSnapshot } from '@/lib/jobs';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/jobs/:id - progress and the results so far
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const snapshot = await getJobSnapshot(id);
+    if (!snapshot) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    return NextResponse.json(snapshot);
+  } catch (error) {
+    console.error('Failed to load job:', error);
+    return NextResponse.json({ error: 'Failed to load job' }, { status: 500 });
+  }
+}
+
+// DELETE /api/jobs/:id - stops the job if it is still running and removes it
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!(await deleteJob(id))) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete job:', error);
+    return NextResponse.json({ error: 'Failed to delete job' }, { status: 500 });
+  }
+}
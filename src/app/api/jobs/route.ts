@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { listJobs } from '@/lib/jobs';
+import type { JobKind } from '@/types';
+
+const JOB_KINDS: JobKind[] = ['batch-analyze', 'bulk-import'];
+
+// GET /api/jobs?kind=batch-analyze|bulk-import - recent jobs, newest first
+export async function GET(request: Request) {
+  try {
+    const kind = new URL(request.url).searchParams.get('kind') as JobKind | null;
+    if (kind && !JOB_KINDS.includes(kind)) {
+      return NextResponse.json({ error: `Unknown job kind: ${kind}` }, { status: 400 });
+    }
+    return NextResponse.json({ jobs: await listJobs(kind ?? undefined) });
+  } catch (error) {
+    console.error('Failed to list jobs:', error);
+    return NextResponse.json({ error: 'Failed to list jobs' }, { status: 500 });
+  }
+}
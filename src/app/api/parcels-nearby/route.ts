@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { providerFetch, withProvenance } from '@/lib/providers';
 
 interface ParcelBounds {
   north: number;
@@ -72,8 +73,8 @@ async function fetchParcelsFromArcGIS(bounds: ParcelBounds): Promise<NearbyParce
     url.searchParams.set('resultRecordCount', '100'); // Limit results
     url.searchParams.set('f', 'json');
 
-    const response = await fetch(url.toString(), {
-      signal: AbortSignal.timeout(10000),
+    const response = await providerFetch(url.toString(), {
+      timeoutMs: 10000,
     });
 
     if (!response.ok) return [];
@@ -137,8 +138,8 @@ async function fetchParcelsFromAuburnGIS(bounds: ParcelBounds): Promise<NearbyPa
     url.searchParams.set('resultRecordCount', '100');
     url.searchParams.set('f', 'json');
 
-    const response = await fetch(url.toString(), {
-      signal: AbortSignal.timeout(8000),
+    const response = await providerFetch(url.toString(), {
+      timeoutMs: 8000,
       headers: { 'User-Agent': 'DroneSense/1.0' }
     });
 
@@ -211,8 +212,8 @@ async function fetchParcelsFromLeeCountyAL(bounds: ParcelBounds): Promise<Nearby
     url.searchParams.set('resultRecordCount', '100');
     url.searchParams.set('f', 'json');
 
-    const response = await fetch(url.toString(), {
-      signal: AbortSignal.timeout(8000),
+    const response = await providerFetch(url.toString(), {
+      timeoutMs: 8000,
       headers: { 'User-Agent': 'DroneSense/1.0' }
     });
 
@@ -263,12 +264,12 @@ async function fetchParcelsFromRegrid(bounds: ParcelBounds): Promise<NearbyParce
 
     const url = `https://tiles.regrid.com/api/v1/parcel?lat=${centerLat}&lon=${centerLng}&token=public&return_geometry=true`;
 
-    const response = await fetch(url, {
+    const response = await providerFetch(url, {
       headers: {
         'User-Agent': 'DroneSense/1.0',
         'Accept': 'application/json',
       },
-      signal: AbortSignal.timeout(8000),
+      timeoutMs: 8000,
     });
 
     if (!response.ok) return [];
@@ -400,8 +401,8 @@ async function fetchParcelsFromFloridaCounty(bounds: ParcelBounds, county: Flori
     url.searchParams.set('resultRecordCount', '100');
     url.searchParams.set('f', 'json');
 
-    const response = await fetch(url.toString(), {
-      signal: AbortSignal.timeout(10000),
+    const response = await providerFetch(url.toString(), {
+      timeoutMs: 10000,
       headers: { 'User-Agent': 'DroneSense/1.0' }
     });
 
@@ -448,7 +449,7 @@ async function fetchParcelsFromFloridaCounty(bounds: ParcelBounds, county: Flori
   }
 }
 
-export async function POST(request: Request) {
+export const POST = withProvenance(async (request: Request) => {
   try {
     const body: ParcelRequest = await request.json();
     const { bounds, centerLat, centerLng } = body;
@@ -522,4 +523,4 @@ export async function POST(request: Request) {
       message: String(error)
     }, { status: 500 });
   }
-}
+});
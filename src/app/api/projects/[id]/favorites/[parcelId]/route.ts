@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { removeFavorite } from '@/lib/projects';
+
+interface RouteContext {
+  params: Promise<{ id: string; parcelId: string }>;
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id, parcelId } = await params;
+
+    if (!(await removeFavorite(id, decodeURIComponent(parcelId)))) {
+      return NextResponse.json({ error: 'Favorite not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to remove favorite:', error);
+    return NextResponse.json({ error: 'Failed to remove favorite' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { getProject, listFavorites, addFavorite, clearFavorites } from '@/lib/projects';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!(await getProject(id))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const favorites = await listFavorites(id);
+    return NextResponse.json({ favorites });
+  } catch (error) {
+    console.error('Failed to list favorites:', error);
+    return NextResponse.json({ error: 'Failed to list favorites' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!(await getProject(id))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const favorite = await request.json();
+    if (!favorite.parcelId || !favorite.coordinates) {
+      return NextResponse.json({ error: 'Favorite must have a parcelId and coordinates' }, { status: 400 });
+    }
+
+    await addFavorite(id, favorite);
+    return NextResponse.json({ favorite }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to add favorite:', error);
+    return NextResponse.json({ error: 'Failed to add favorite' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const removed = await clearFavorites(id);
+    return NextResponse.json({ success: true, removed });
+  } catch (error) {
+    console.error('Failed to clear favorites:', error);
+    return NextResponse.json({ error: 'Failed to clear favorites' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { updateSearchHistory, deleteSearchHistory } from '@/lib/projects';
+
+interface RouteContext {
+  params: Promise<{ id: string; itemId: string }>;
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id, itemId } = await params;
+    const { address, coordinates, feasibilityScore, thumbnail } = await request.json();
+
+    const item = await updateSearchHistory(id, itemId, { address, coordinates, feasibilityScore, thumbnail });
+    if (!item) {
+      return NextResponse.json({ error: 'History item not found' }, { status: 404 });
+    }
+    return NextResponse.json({ item });
+  } catch (error) {
+    console.error('Failed to update search history:', error);
+    return NextResponse.json({ error: 'Failed to update search history' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id, itemId } = await params;
+
+    if (!(await deleteSearchHistory(id, itemId))) {
+      return NextResponse.json({ error: 'History item not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete search history:', error);
+    return NextResponse.json({ error: 'Failed to delete search history' }, { status: 500 });
+  }
+}
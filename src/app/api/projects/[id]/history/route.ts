@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { getProject, listSearchHistory, addSearchHistory, clearSearchHistory, DocumentConflictError } from '@/lib/projects';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!(await getProject(id))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const limit = Number(new URL(request.url).searchParams.get('limit')) || undefined;
+    const history = await listSearchHistory(id, limit);
+    return NextResponse.json({ history });
+  } catch (error) {
+    console.error('Failed to list search history:', error);
+    return NextResponse.json({ error: 'Failed to list search history' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!(await getProject(id))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    if (!body.address || !body.coordinates) {
+      return NextResponse.json({ error: 'Address and coordinates are required' }, { status: 400 });
+    }
+
+    const item = await addSearchHistory(id, {
+      id: body.id,
+      address: body.address,
+      coordinates: body.coordinates,
+      timestamp: body.timestamp,
+      feasibilityScore: body.feasibilityScore ?? null,
+      thumbnail: body.thumbnail,
+    });
+    return NextResponse.json({ item }, { status: 201 });
+  } catch (error) {
+    if (error instanceof DocumentConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Failed to add search history:', error);
+    return NextResponse.json({ error: 'Failed to add search history' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const removed = await clearSearchHistory(id);
+    return NextResponse.json({ success: true, removed });
+  } catch (error) {
+    console.error('Failed to clear search history:', error);
+    return NextResponse.json({ error: 'Failed to clear search history' }, { status: 500 });
+  }
+}
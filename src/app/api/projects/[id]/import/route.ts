@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { getProject, importWorkspace } from '@/lib/projects';
+import { WorkspaceImport } from '@/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// One-time import of saved properties, history and favorites from browser localStorage
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!(await getProject(id))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const payload: WorkspaceImport = await request.json();
+    const imported = await importWorkspace(id, payload);
+
+    return NextResponse.json({ imported });
+  } catch (error) {
+    console.error('Failed to import workspace data:', error);
+    return NextResponse.json({ error: 'Failed to import workspace data' }, { status: 500 });
+  }
+}
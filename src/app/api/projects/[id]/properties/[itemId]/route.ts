@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { updateSavedProperty, deleteSavedProperty } from '@/lib/projects';
+
+interface RouteContext {
+  params: Promise<{ id: string; itemId: string }>;
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id, itemId } = await params;
+    const { name, address, data, thumbnail } = await request.json();
+
+    const property = await updateSavedProperty(id, itemId, { name, address, data, thumbnail });
+    if (!property) {
+      return NextResponse.json({ error: 'Saved property not found' }, { status: 404 });
+    }
+    return NextResponse.json({ property });
+  } catch (error) {
+    console.error('Failed to update saved property:', error);
+    return NextResponse.json({ error: 'Failed to update saved property' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id, itemId } = await params;
+
+    if (!(await deleteSavedProperty(id, itemId))) {
+      return NextResponse.json({ error: 'Saved property not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete saved property:', error);
+    return NextResponse.json({ error: 'Failed to delete saved property' }, { status: 500 });
+  }
+}
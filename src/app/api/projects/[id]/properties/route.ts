@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { DocumentConflictError, getProject, listSavedProperties, saveProperty } from '@/lib/projects';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!(await getProject(id))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const properties = await listSavedProperties(id);
+    return NextResponse.json({ properties });
+  } catch (error) {
+    console.error('Failed to list saved properties:', error);
+    return NextResponse.json({ error: 'Failed to list saved properties' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!(await getProject(id))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    if (!body.address || !body.data || typeof body.data !== 'object') {
+      return NextResponse.json({ error: 'Property must have an address and data' }, { status: 400 });
+    }
+
+    const property = await saveProperty(id, {
+      id: body.id,
+      name: body.name || body.address,
+      address: body.address,
+      data: body.data,
+      thumbnail: body.thumbnail,
+    });
+    return NextResponse.json({ property }, { status: 201 });
+  } catch (error) {
+    if (error instanceof DocumentConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Failed to save property:', error);
+    return NextResponse.json({ error: 'Failed to save property' }, { status: 500 });
+  }
+}
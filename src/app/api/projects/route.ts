@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { listProjects, createProject } from '@/lib/projects';
+
+export async function GET() {
+  try {
+    const projects = await listProjects();
+    return NextResponse.json({ projects });
+  } catch (error) {
+    console.error('Failed to list projects:', error);
+    return NextResponse.json({ error: 'Failed to list projects' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { name, description } = await request.json();
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'Project name is required' }, { status: 400 });
+    }
+
+    const project = await createProject({ name, description });
+    return NextResponse.json({ project }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create project:', error);
+    return NextResponse.json({ error: 'Failed to create project' }, { status: 500 });
+  }
+}
@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { providerFetch, withProvenance } from '@/lib/providers';
 
 interface PropertyRequest {
   address: string;
@@ -26,7 +27,7 @@ export interface PropertyData {
   ownerType: string;
 }
 
-export async function POST(request: Request) {
+export const POST = withProvenance(async (request: Request) => {
   try {
     const body: PropertyRequest = await request.json();
     const { address } = body;
@@ -46,7 +47,7 @@ export async function POST(request: Request) {
 
     // Use RealtyMole API via RapidAPI
     const encodedAddress = encodeURIComponent(address);
-    const response = await fetch(
+    const response = await providerFetch(
       `https://realty-mole-property-api.p.rapidapi.com/properties?address=${encodedAddress}`,
       {
         method: 'GET',
@@ -134,4 +135,4 @@ export async function POST(request: Request) {
       message: String(error)
     }, { status: 500 });
   }
-}
+});
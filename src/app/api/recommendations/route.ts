@@ -1,7 +1,6 @@
 import { NextResponse } from 'next/server';
-import { getRecommendationsForSite, ALL_BUSINESSES } from '@/data/BusinessIntelligence';
-import { LOT_SIZE_REFERENCE, findMatchingTenants, LotSizeRequirement } from '@/data/lotSizeReference';
-import { SE_CRE_TENANTS, getTopRecommendations, SETenantRequirement } from '@/data/seCRETenants';
+import { CatalogTenant, getTopTenantsForSite, queryTenants } from '@/data/tenantCatalog';
+import type { PoiCategoryCode } from '@/types';
 
 // Business type requirements for scoring
 const BUSINESS_TYPE_REQUIREMENTS: Record<string, {
@@ -162,11 +161,13 @@ interface RecommendationRequest {
   accessPointCount: number;
   roadCount: number;
   isCornerLot: boolean;
+  // Primary road frontage measured from the parcel boundary, when available
+  frontageFeet?: number | null;
   hasHighwayAccess: boolean;
   lotSizeAcres: number | null;
   medianIncome: number | null;
   population: number | null;
-  nearbyBusinesses: Array<{ name: string; type: string; distance: number }>;
+  nearbyBusinesses: Array<{ name: string; type: string; category?: PoiCategoryCode; distance: number }>;
   floodRisk: 'low' | 'medium' | 'high' | null;
   zoning: string | null;
 }
@@ -260,7 +261,8 @@ function scoreAccess(
   roadCount: number,
   isCornerLot: boolean,
   hasHighwayAccess: boolean,
-  requirements: typeof BUSINESS_TYPE_REQUIREMENTS[string] | null
+  requirements: typeof BUSINESS_TYPE_REQUIREMENTS[string] | null,
+  frontageFeet: number | null = null
 ): ScoreResult {
   let value = 70; // Base score
   const insights: string[] = [];
@@ -286,6 +288,20 @@ function scoreAccess(
     insights.push(`Frontage on ${roadCount} roads`);
   }
 
+  // Measured frontage on the primary road
+  if (frontageFeet) {
+    if (frontageFeet >= 200) {
+      value += 5;
+      insights.push(`${frontageFeet} ft of primary road frontage`);
+    } else if (frontageFeet < 100) {
+      value -= 5;
+      insights.push(`Narrow ${frontageFeet} ft frontage`);
+      recommendations.push('Confirm signage and driveway spacing fit the limited frontage');
+    } else {
+      insights.push(`${frontageFeet} ft of primary road frontage`);
+    }
+  }
+
   // Corner lot
   if (isCornerLot) {
     value += 10;
@@ -313,7 +329,7 @@ function scoreAccess(
 }
 
 function scoreCompetition(
-  nearbyBusinesses: Array<{ name: string; type: string; distance: number }>,
+  nearbyBusinesses: Array<{ name: string; type: string; category?: PoiCategoryCode; distance: number }>,
   businessType: string | null
 ): { result: ScoreResult; gaps: string[] } {
   const gaps: string[] = [];
@@ -361,20 +377,23 @@ function scoreCompetition(
     recommendation = 'Market may be saturated - unique concept required';
   }
 
-  // Check for specific gaps
+  // Check for specific gaps (by POI category, or by type for businesses saved before categories)
   const hasGrocery = nearbyBusinesses.some(b =>
+    b.category ? b.category === 'grocery' :
     b.type.toLowerCase().includes('grocery') || b.type.toLowerCase().includes('supermarket')
   );
   const hasPharmacy = nearbyBusinesses.some(b =>
+    b.category ? b.category === 'pharmacy' :
     b.type.toLowerCase().includes('pharmacy') || b.type.toLowerCase().includes('drugstore')
   );
   const hasBank = nearbyBusinesses.some(b =>
-    b.type.toLowerCase().includes('bank')
+    b.category ? b.category === 'bank' : b.type.toLowerCase().includes('bank')
   );
   const hasCoffee = nearbyBusinesses.some(b =>
-    b.type.toLowerCase().includes('coffee') || b.name.toLowerCase().includes('starbucks')
+    b.category === 'coffee' || b.type.toLowerCase().includes('coffee') || b.name.toLowerCase().includes('starbucks')
   );
   const hasGas = nearbyBusinesses.some(b =>
+    b.category ? b.category === 'convenience-fuel' :
     b.type.toLowerCase().includes('gas') || b.type.toLowerCase().includes('fuel')
   );
 
@@ -540,34 +559,38 @@ function generateSuggestedUses(
   medianIncome: number | null,
   nearbyBusinesses: Array<{ name: string; type: string }>,
   isCornerLot: boolean,
-  population?: number | null
+  population?: number | null,
+  frontageFeet?: number | null
 ): string[] {
-  // Use the comprehensive SE CRE tenant database (358 tenants)
+  // Use the unified tenant catalog
   if (!lotSizeAcres) {
     // Fallback if no lot size - return generic suggestions
     return ['QSR/Fast Food', 'Retail Strip', 'Professional Office', 'Medical Clinic'];
   }
 
-  // Get top recommendations using SE CRE data with all site criteria
-  const topMatches = getTopRecommendations(
+  // Get top recommendations using the catalog with all site criteria
+  const topMatches = getTopTenantsForSite(
     lotSizeAcres,
     vpd,
     population,
     medianIncome,
     15 // Get more matches to filter
+  ).filter(tenant =>
+    // Drop tenants whose frontage requirement the parcel can't meet
+    !frontageFeet || tenant.minFrontageFeet === null || frontageFeet >= tenant.minFrontageFeet * 0.75
   );
 
   if (topMatches.length === 0) {
-    // Fallback to old method if no SE CRE matches
-    const matchingTenants = findMatchingTenants(lotSizeAcres);
+    // Fallback to lot size alone if nothing matches the full site criteria
+    const matchingTenants = queryTenants({ lotAcres: lotSizeAcres });
     if (matchingTenants.length === 0) {
       return ['Custom Development', 'Multi-Tenant Center', 'Mixed-Use Development'];
     }
-    return matchingTenants.slice(0, 8).map(t => t.tenant);
+    return matchingTenants.slice(0, 8).map(t => t.name);
   }
 
   // Prioritize based on corner lot preference
-  const prioritized: SETenantRequirement[] = [];
+  const prioritized: CatalogTenant[] = [];
   const cornerCategories = [
     'QSR — BURGER / CHICKEN / SANDWICH',
     'QSR — COFFEE / BAKERY / SMOOTHIE / DESSERT',
@@ -576,7 +599,7 @@ function generateSuggestedUses(
   ];
 
   for (const tenant of topMatches) {
-    if (isCornerLot && cornerCategories.includes(tenant.category)) {
+    if (isCornerLot && (tenant.cornerLotPreferred || cornerCategories.includes(tenant.category))) {
       prioritized.unshift(tenant);
     } else {
       prioritized.push(tenant);
@@ -590,21 +613,21 @@ function generateSuggestedUses(
   for (const tenant of prioritized) {
     // Calculate fit quality
     let fitLabel = '';
-    if (tenant.typicalLotAcres && tenant.lotRangeAcres) {
-      const typicalDiff = Math.abs((tenant.typicalLotAcres - lotSizeAcres) / tenant.typicalLotAcres);
+    if (tenant.lotAcres?.typical) {
+      const typicalDiff = Math.abs((tenant.lotAcres.typical - lotSizeAcres) / tenant.lotAcres.typical);
       if (typicalDiff < 0.1) {
         fitLabel = '(ideal fit)';
-      } else if (lotSizeAcres >= tenant.lotRangeAcres.min && lotSizeAcres <= tenant.lotRangeAcres.max) {
+      } else if (lotSizeAcres >= tenant.lotAcres.min && lotSizeAcres <= tenant.lotAcres.max) {
         fitLabel = '(good fit)';
       }
     }
 
     // Check if VPD requirements are well-met
-    if (vpd && tenant.preferredVPD && vpd >= tenant.preferredVPD) {
+    if (vpd && tenant.idealVPD && vpd >= tenant.idealVPD) {
       fitLabel = fitLabel || '(excellent traffic)';
     }
 
-    const suggestion = `${tenant.tenant} ${fitLabel}`.trim();
+    const suggestion = `${tenant.name} ${fitLabel}`.trim();
 
     // Limit to 2 per category to ensure variety
     const catCount = categoryCount[tenant.category] || 0;
@@ -727,6 +750,7 @@ export async function POST(request: Request) {
       accessPointCount,
       roadCount,
       isCornerLot,
+      frontageFeet,
       hasHighwayAccess,
       lotSizeAcres,
       medianIncome,
@@ -744,7 +768,7 @@ export async function POST(request: Request) {
 
     // Calculate individual scores
     const trafficScore = scoreTraffic(vpd, normalizedBusinessType, requirements);
-    const accessScore = scoreAccess(accessPointCount, roadCount, isCornerLot, hasHighwayAccess, requirements);
+    const accessScore = scoreAccess(accessPointCount, roadCount, isCornerLot, hasHighwayAccess, requirements, frontageFeet ?? null);
     const { result: competitionScore, gaps } = scoreCompetition(nearbyBusinesses || [], normalizedBusinessType);
     const demographicsScore = scoreDemographics(medianIncome, population, normalizedBusinessType);
     const siteScore = scoreSiteConditions(lotSizeAcres, floodRisk, zoning, requirements);
@@ -767,7 +791,8 @@ export async function POST(request: Request) {
       medianIncome,
       nearbyBusinesses || [],
       isCornerLot,
-      population
+      population,
+      frontageFeet
     );
 
     const concerns = generateConcerns(
@@ -0,0 +1,45 @@
+// Huff gravity model sales and market-share forecast for a proposed use at the site
+import { NextResponse } from 'next/server';
+import { withProvenance } from '@/lib/providers';
+import { IsochroneError } from '@/lib/isochrone';
+import { PlacesError } from '@/lib/places';
+import { forecastSales, SalesForecastError } from '@/lib/sales-forecast';
+import { DEFAULT_SALES_FORECAST_CATEGORY } from '@/data/salesForecastCategories';
+
+interface SalesForecastRequest {
+  lat: number;
+  lng: number;
+  category?: string;
+  radiusMiles?: number;
+  driveMinutes?: number;
+  subjectAttractiveness?: number;
+}
+
+export const POST = withProvenance(async (request: Request) => {
+  try {
+    const {
+      lat,
+      lng,
+      category = DEFAULT_SALES_FORECAST_CATEGORY,
+      radiusMiles,
+      driveMinutes,
+      subjectAttractiveness,
+    }: SalesForecastRequest = await request.json();
+
+    if (!lat || !lng) {
+      return NextResponse.json({ error: 'Coordinates required' }, { status: 400 });
+    }
+
+    const forecast = await forecastSales(lat, lng, { category, radiusMiles, driveMinutes, subjectAttractiveness });
+    return NextResponse.json(forecast);
+  } catch (error) {
+    if (error instanceof SalesForecastError || error instanceof IsochroneError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof PlacesError) {
+      return NextResponse.json({ error: `Competitor lookup failed: ${error.message}` }, { status: 500 });
+    }
+    console.error('Failed to forecast sales:', error);
+    return NextResponse.json({ error: 'Failed to forecast sales' }, { status: 500 });
+  }
+});
@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+import { CURRENT_SCORING_MODEL_VERSION, listScoringModels } from '@/lib/scoring';
+
+// GET /api/scoring-models - published scoring models and the tenant categories each adjusts for
+export async function GET() {
+  return NextResponse.json({ current: CURRENT_SCORING_MODEL_VERSION, models: listScoringModels() });
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { providerFetch, withProvenance } from '@/lib/providers';
 
 interface ParcelRadiusRequest {
   center: { lat: number; lng: number };
@@ -12,6 +13,8 @@ interface ParcelResult {
   coordinates: { lat: number; lng: number };
   lotSize?: number;
   zoning?: string;
+  // Outer ring as [lat, lng], for frontage measurement
+  boundary: [number, number][];
 }
 
 // Earth radius in miles
@@ -137,8 +140,8 @@ async function fetchParcelsFromArcGISCell(
     url.searchParams.set('resultRecordCount', '1000');
     url.searchParams.set('f', 'json');
 
-    const response = await fetch(url.toString(), {
-      signal: AbortSignal.timeout(30000),
+    const response = await providerFetch(url.toString(), {
+      timeoutMs: 30000,
     });
 
     if (!response.ok) return [];
@@ -161,9 +164,9 @@ async function fetchParcelsFromArcGISCell(
       if (distance > maxRadius) continue;
 
       const attrs = feature.attributes || {};
+      const boundary: [number, number][] = coords.map((c: number[]) => [c[1], c[0]]);
       let lotSize = attrs.ACRES || attrs.GIS_ACRES;
       if (!lotSize) {
-        const boundary: [number, number][] = coords.map((c: number[]) => [c[1], c[0]]);
         lotSize = calculatePolygonArea(boundary) / 43560;
       }
 
@@ -173,6 +176,7 @@ async function fetchParcelsFromArcGISCell(
         coordinates: { lat: centroidLat, lng: centroidLng },
         lotSize: lotSize ? Math.round(lotSize * 43560) : undefined,
         zoning: attrs.ZONING || attrs.ZONE_CODE,
+        boundary,
       });
     }
 
@@ -225,8 +229,8 @@ async function fetchParcelsFromLeonCountyCell(
     url.searchParams.set('resultRecordCount', '1000');
     url.searchParams.set('f', 'json');
 
-    const response = await fetch(url.toString(), {
-      signal: AbortSignal.timeout(30000),
+    const response = await providerFetch(url.toString(), {
+      timeoutMs: 30000,
       headers: { 'User-Agent': 'DroneSense/1.0' }
     });
 
@@ -249,9 +253,9 @@ async function fetchParcelsFromLeonCountyCell(
       if (distance > maxRadius) continue;
 
       const attrs = feature.attributes || {};
+      const boundary: [number, number][] = coords.map((c: number[]) => [c[1], c[0]]);
       let lotSize = attrs.ACRES || attrs.ACREAGE || attrs.CALC_ACREA;
       if (!lotSize) {
-        const boundary: [number, number][] = coords.map((c: number[]) => [c[1], c[0]]);
         lotSize = calculatePolygonArea(boundary) / 43560;
       }
 
@@ -264,6 +268,7 @@ async function fetchParcelsFromLeonCountyCell(
         coordinates: { lat: centroidLat, lng: centroidLng },
         lotSize: lotSize ? Math.round(lotSize * 43560) : undefined,
         zoning: attrs.ZONING || attrs.ZONE_CODE,
+        boundary,
       });
     }
 
@@ -280,7 +285,7 @@ function isInLeonCounty(center: { lat: number; lng: number }): boolean {
          center.lng >= -84.65 && center.lng <= -83.98;
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withProvenance(async (request: NextRequest) => {
   const startTime = Date.now();
 
   try {
@@ -431,4 +436,4 @@ export async function POST(request: NextRequest) {
       message: String(error)
     }, { status: 500 });
   }
-}
+});
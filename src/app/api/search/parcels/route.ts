@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { providerFetch, withProvenance } from '@/lib/providers';
 
 interface ParcelData {
   parcelId: string;
@@ -31,7 +32,7 @@ const FLORIDA_COUNTY_GIS: Record<string, { url: string; layers: number[] }> = {
 async function getZipCodeBoundary(zipCode: string): Promise<{ lat: number; lng: number; bounds: { north: number; south: number; east: number; west: number } } | null> {
   try {
     // Use Nominatim to get zip code center and approximate bounds
-    const response = await fetch(
+    const response = await providerFetch(
       `https://nominatim.openstreetmap.org/search?postalcode=${zipCode}&country=US&format=json&limit=1`,
       { headers: { 'User-Agent': 'DroneSense/1.0' } }
     );
@@ -80,7 +81,7 @@ async function fetchParcelsFromOverpass(bounds: { north: number; south: number;
       out center meta;
     `;
 
-    const response = await fetch('https://overpass-api.de/api/interpreter', {
+    const response = await providerFetch('https://overpass-api.de/api/interpreter', {
       method: 'POST',
       body: `data=${encodeURIComponent(query)}`,
       headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
@@ -126,7 +127,7 @@ async function generateSampleParcels(center: { lat: number; lng: number }, zipCo
   // Get street names from Nominatim for more realistic addresses
   let streetNames: string[] = [];
   try {
-    const response = await fetch(
+    const response = await providerFetch(
       `https://nominatim.openstreetmap.org/search?q=street+${zipCode}&countrycodes=US&format=json&limit=20`,
       { headers: { 'User-Agent': 'DroneSense/1.0' } }
     );
@@ -173,7 +174,7 @@ async function generateSampleParcels(center: { lat: number; lng: number }, zipCo
   return parcels;
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withProvenance(async (request: NextRequest) => {
   try {
     const body: SearchParcelsRequest = await request.json();
     const { zipCode, propertyType = 'all' } = body;
@@ -222,4 +223,4 @@ export async function POST(request: NextRequest) {
     console.error('Error searching parcels:', error);
     return NextResponse.json({ error: 'Failed to search parcels' }, { status: 500 });
   }
-}
+});
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { getShare, revokeShare } from '@/lib/shares';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const result = await getShare(id);
+
+    switch (result.status) {
+      case 'ok':
+        return NextResponse.json(result.snapshot);
+      case 'expired':
+        return NextResponse.json({ error: 'This share link has expired' }, { status: 410 });
+      case 'revoked':
+        return NextResponse.json({ error: 'This share link has been revoked' }, { status: 410 });
+      default:
+        return NextResponse.json({ error: 'Shared analysis not found' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Failed to load shared analysis:', error);
+    return NextResponse.json({ error: 'Failed to load shared analysis' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const revokeToken = request.headers.get('x-revoke-token');
+
+    if (!revokeToken) {
+      return NextResponse.json({ error: 'Revoke token is required' }, { status: 401 });
+    }
+
+    const result = await revokeShare(id, revokeToken);
+    if (result === 'not_found') {
+      return NextResponse.json({ error: 'Shared analysis not found' }, { status: 404 });
+    }
+    if (result === 'forbidden') {
+      return NextResponse.json({ error: 'Invalid revoke token' }, { status: 403 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to revoke share link:', error);
+    return NextResponse.json({ error: 'Failed to revoke share link' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { createShare } from '@/lib/shares';
+import { CreateShareResult } from '@/types';
+
+export async function POST(request: Request) {
+  try {
+    const { propertyData, accessPoints, retailerMatches, expiresInDays } = await request.json();
+
+    if (!propertyData || !propertyData.address || !propertyData.analysis) {
+      return NextResponse.json({ error: 'A completed analysis is required to share' }, { status: 400 });
+    }
+    if (expiresInDays != null && (typeof expiresInDays !== 'number' || expiresInDays <= 0)) {
+      return NextResponse.json({ error: 'expiresInDays must be a positive number' }, { status: 400 });
+    }
+
+    const { snapshot, revokeToken } = await createShare({
+      propertyData,
+      accessPoints,
+      retailerMatches,
+      expiresInDays,
+    });
+
+    const result: CreateShareResult = {
+      id: snapshot.id,
+      url: `${new URL(request.url).origin}/shared/${snapshot.id}`,
+      expiresAt: snapshot.expiresAt,
+      revokeToken,
+    };
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create share link:', error);
+    return NextResponse.json({ error: 'Failed to create share link' }, { status: 500 });
+  }
+}
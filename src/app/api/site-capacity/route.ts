@@ -0,0 +1,39 @@
+// Buildable envelope and site-plan capacity for a parcel boundary
+import { NextResponse } from 'next/server';
+import { withProvenance } from '@/lib/providers';
+import { calculateSiteCapacity, fetchConstraintAreas, SiteCapacityError, SiteCapacityOptions } from '@/lib/site-capacity';
+import type { SiteConstraintArea } from '@/types';
+
+interface SiteCapacityRequest extends SiteCapacityOptions {
+  boundary: [number, number][]; // [lat, lng]
+  // Constraint areas already returned by /api/environmental; looked up when omitted
+  constraintAreas?: SiteConstraintArea[];
+}
+
+export const POST = withProvenance(async (request: Request) => {
+  try {
+    const { boundary, constraintAreas, ...options }: SiteCapacityRequest = await request.json();
+
+    if (!Array.isArray(boundary) || boundary.length < 3) {
+      return NextResponse.json({ error: 'Parcel boundary required' }, { status: 400 });
+    }
+
+    let constraints = constraintAreas;
+    let unavailable: string[] = [];
+    if (!constraints) {
+      ({ areas: constraints, unavailable } = await fetchConstraintAreas(boundary));
+    }
+
+    const capacity = calculateSiteCapacity(boundary, constraints, options);
+    for (const source of unavailable) {
+      capacity.notes.push(`${source === 'flood' ? 'Flood hazard' : 'Wetland'} data unavailable - envelope may be overstated`);
+    }
+    return NextResponse.json(capacity);
+  } catch (error) {
+    if (error instanceof SiteCapacityError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Site capacity error:', error);
+    return NextResponse.json({ error: 'Failed to calculate site capacity' }, { status: 500 });
+  }
+});
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import {
+  getTenantProfile,
+  updateTenantProfile,
+  deleteTenantProfile,
+  InvalidTenantProfileError,
+} from '@/lib/tenant-profiles';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const profile = await getTenantProfile(id);
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Tenant profile not found' }, { status: 404 });
+    }
+    return NextResponse.json({ profile });
+  } catch (error) {
+    console.error('Failed to load tenant profile:', error);
+    return NextResponse.json({ error: 'Failed to load tenant profile' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const updates = await request.json();
+
+    const profile = await updateTenantProfile(id, updates ?? {});
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Tenant profile not found' }, { status: 404 });
+    }
+    return NextResponse.json({ profile });
+  } catch (error) {
+    if (error instanceof InvalidTenantProfileError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Failed to update tenant profile:', error);
+    return NextResponse.json({ error: 'Failed to update tenant profile' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const deleted = await deleteTenantProfile(id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Tenant profile not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete tenant profile:', error);
+    return NextResponse.json({ error: 'Failed to delete tenant profile' }, { status: 500 });
+  }
+}
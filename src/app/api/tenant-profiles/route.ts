@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import {
+  listTenantProfiles,
+  createTenantProfile,
+  parseTenantProfileInput,
+  InvalidTenantProfileError,
+} from '@/lib/tenant-profiles';
+
+export async function GET() {
+  try {
+    const profiles = await listTenantProfiles();
+    return NextResponse.json({ profiles });
+  } catch (error) {
+    console.error('Failed to list tenant profiles:', error);
+    return NextResponse.json({ error: 'Failed to list tenant profiles' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const profile = await createTenantProfile(parseTenantProfileInput(body ?? {}));
+    return NextResponse.json({ profile }, { status: 201 });
+  } catch (error) {
+    if (error instanceof InvalidTenantProfileError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Failed to create tenant profile:', error);
+    return NextResponse.json({ error: 'Failed to create tenant profile' }, { status: 500 });
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { findCatalogConflicts } from '@/data/tenantCatalog';
+
+// Records where the merged source datasets disagree, for data cleanup
+export async function GET() {
+  try {
+    const conflicts = findCatalogConflicts();
+    return NextResponse.json({ conflicts, total: conflicts.length });
+  } catch (error) {
+    console.error('Failed to check tenant catalog:', error);
+    return NextResponse.json({ error: 'Failed to check tenant catalog' }, { status: 500 });
+  }
+}
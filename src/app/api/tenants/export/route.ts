@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { SPREADSHEET_CONTENT_TYPES, SpreadsheetFormat, writeSpreadsheet } from '@/lib/spreadsheet';
+import { TENANT_SHEET_SCHEMAS, TenantSheetSchema, exportTenantSheet } from '@/lib/tenant-spreadsheet';
+
+const SHEET_NAMES: Record<TenantSheetSchema, string> = {
+  'se-cre': 'SE CRE Tenants',
+  'retailer': 'Retailer Requirements',
+};
+
+// GET /api/tenants/export?schema=se-cre|retailer&format=csv|xlsx
+export async function GET(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const schema = (params.get('schema') || 'se-cre') as TenantSheetSchema;
+    const format = (params.get('format') || 'xlsx') as SpreadsheetFormat;
+
+    if (!TENANT_SHEET_SCHEMAS.includes(schema)) {
+      return NextResponse.json({ error: `Unknown schema: ${schema}` }, { status: 400 });
+    }
+    if (format !== 'csv' && format !== 'xlsx') {
+      return NextResponse.json({ error: `Unknown format: ${format}` }, { status: 400 });
+    }
+
+    const data = writeSpreadsheet(exportTenantSheet(schema), format, SHEET_NAMES[schema]);
+    return new Response(Buffer.from(data), {
+      headers: {
+        'Content-Type': SPREADSHEET_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="tenants-${schema}.${format}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to export tenants:', error);
+    return NextResponse.json({ error: 'Failed to export tenants' }, { status: 500 });
+  }
+}
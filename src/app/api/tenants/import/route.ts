@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { readSpreadsheet } from '@/lib/spreadsheet';
+import { TENANT_SHEET_SCHEMAS, TenantSheetSchema, importTenantSheet, renderTenantSource } from '@/lib/tenant-spreadsheet';
+
+// POST /api/tenants/import (multipart: file, schema=se-cre|retailer)
+// Validates the sheet and reports how it differs from the current data. With ?output=typescript and
+// no validation errors, responds with the regenerated array literal for the data module instead
+export async function POST(request: Request) {
+  try {
+    const output = new URL(request.url).searchParams.get('output') || 'report';
+    const form = await request.formData();
+    const file = form.get('file');
+    const schema = (form.get('schema') || 'se-cre') as TenantSheetSchema;
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'A CSV or XLSX file is required' }, { status: 400 });
+    }
+    if (!TENANT_SHEET_SCHEMAS.includes(schema)) {
+      return NextResponse.json({ error: `Unknown schema: ${schema}` }, { status: 400 });
+    }
+
+    let rows;
+    try {
+      rows = readSpreadsheet(file.name, new Uint8Array(await file.arrayBuffer()));
+    } catch (err) {
+      return NextResponse.json({ error: `Could not read ${file.name}: ${err instanceof Error ? err.message : err}` }, { status: 400 });
+    }
+
+    const result = importTenantSheet(schema, rows);
+    const errors = result.issues.filter(issue => issue.severity === 'error').length;
+
+    console.log(`[Tenants] Import of ${file.name} (${schema}): ${result.records.length} rows, ${errors} errors, ${result.diff.added.length} added, ${result.diff.changed.length} changed, ${result.diff.removed.length} removed`);
+
+    if (output === 'typescript') {
+      if (errors > 0) {
+        return NextResponse.json({ error: 'Fix validation errors before generating source', issues: result.issues }, { status: 422 });
+      }
+      return new Response(renderTenantSource(schema, result.records), {
+        headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+      });
+    }
+
+    return NextResponse.json({
+      schema,
+      rows: result.records.length,
+      valid: errors === 0,
+      issues: result.issues,
+      diff: result.diff,
+    });
+  } catch (error) {
+    console.error('Failed to import tenants:', error);
+    return NextResponse.json({ error: 'Failed to import tenants' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { DriveThru, TENANT_CATALOG, TenantQuery, queryTenants } from '@/data/tenantCatalog';
+import { SpaceType } from '@/data/BusinessIntelligence';
+
+const DRIVE_THRU_VALUES: DriveThru[] = ['required', 'preferred', 'optional', 'not_applicable'];
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function parseBoolean(value: string | null): boolean | undefined {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return undefined;
+}
+
+// GET /api/tenants?category=&lotAcres=&vpd=&hhi=&region=&driveThru=&spaceType=&expanding=&search=&limit=
+export async function GET(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const driveThru = params.get('driveThru');
+
+    if (driveThru && !['true', 'false', ...DRIVE_THRU_VALUES].includes(driveThru)) {
+      return NextResponse.json({ error: `Invalid driveThru value: ${driveThru}` }, { status: 400 });
+    }
+
+    const query: TenantQuery = {
+      category: params.get('category') || undefined,
+      lotAcres: parseNumber(params.get('lotAcres')),
+      vpd: parseNumber(params.get('vpd')),
+      hhi: parseNumber(params.get('hhi')),
+      region: params.get('region') || undefined,
+      driveThru: driveThru ? parseBoolean(driveThru) ?? (driveThru as DriveThru) : undefined,
+      spaceType: (params.get('spaceType') as SpaceType) || undefined,
+      activelyExpanding: parseBoolean(params.get('expanding')),
+      search: params.get('search') || undefined,
+      limit: parseNumber(params.get('limit')),
+    };
+
+    const tenants = queryTenants(query);
+    return NextResponse.json({ tenants, total: tenants.length, catalogSize: TENANT_CATALOG.length });
+  } catch (error) {
+    console.error('Failed to query tenants:', error);
+    return NextResponse.json({ error: 'Failed to query tenants' }, { status: 500 });
+  }
+}
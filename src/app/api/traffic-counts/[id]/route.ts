@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { deleteTrafficCountDataset } from '@/lib/traffic-counts';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const deleted = await deleteTrafficCountDataset(id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Traffic count layer not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete traffic count layer:', error);
+    return NextResponse.json({ error: 'Failed to delete traffic count layer' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { importTrafficCountLayer, TrafficCountImportError } from '@/lib/traffic-counts';
+
+// POST /api/traffic-counts/import (multipart: file, name?, agency?, year?)
+// Stores a GeoJSON file or zipped shapefile of AADT counts (WGS 84 points or road segments) so
+// lookups in its area use it alongside the state DOT counts
+export async function POST(request: Request) {
+  try {
+    const form = await request.formData();
+    const file = form.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'A GeoJSON file or zipped shapefile is required' }, { status: 400 });
+    }
+
+    const yearValue = form.get('year');
+    const year = typeof yearValue === 'string' && yearValue.trim() ? Number(yearValue) : undefined;
+    if (year !== undefined && !(Number.isInteger(year) && year >= 1950 && year <= new Date().getFullYear())) {
+      return NextResponse.json({ error: `Invalid year: ${yearValue}` }, { status: 400 });
+    }
+
+    const text = (key: string) => {
+      const value = form.get(key);
+      return typeof value === 'string' ? value : undefined;
+    };
+
+    const result = await importTrafficCountLayer(file.name, new Uint8Array(await file.arrayBuffer()), {
+      name: text('name'),
+      agency: text('agency'),
+      year,
+    });
+
+    return NextResponse.json(result, { status: result.dataset ? 200 : 400 });
+  } catch (error) {
+    if (error instanceof TrafficCountImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Failed to import traffic counts:', error);
+    return NextResponse.json({ error: 'Failed to import traffic counts' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { fetchTrafficCounts, listTrafficCountDatasets } from '@/lib/traffic-counts';
+import { withProvenance } from '@/lib/providers';
+
+const DEFAULT_RADIUS_METERS = 200;
+const MAX_RADIUS_METERS = 2000;
+
+// GET /api/traffic-counts - imported count layers, newest first
+export async function GET() {
+  try {
+    const datasets = await listTrafficCountDatasets();
+    return NextResponse.json({ datasets });
+  } catch (error) {
+    console.error('Failed to list traffic count layers:', error);
+    return NextResponse.json({ error: 'Failed to list traffic count layers' }, { status: 500 });
+  }
+}
+
+// POST /api/traffic-counts { lat, lng, radiusMeters? }
+// AADT counts near a point from imported layers and the DOT of the state the point is in, nearest first
+export const POST = withProvenance(async (request: Request) => {
+  try {
+    const { lat, lng, radiusMeters = DEFAULT_RADIUS_METERS } = await request.json();
+
+    if (typeof lat !== 'number' || typeof lng !== 'number') {
+      return NextResponse.json({ error: 'Latitude and longitude are required' }, { status: 400 });
+    }
+    if (typeof radiusMeters !== 'number' || radiusMeters <= 0 || radiusMeters > MAX_RADIUS_METERS) {
+      return NextResponse.json({ error: `radiusMeters must be between 0 and ${MAX_RADIUS_METERS}` }, { status: 400 });
+    }
+
+    const counts = await fetchTrafficCounts(lat, lng, { radiusMeters });
+    counts.sort((a, b) => (a.distanceMeters ?? Infinity) - (b.distanceMeters ?? Infinity));
+
+    return NextResponse.json({ counts });
+  } catch (error) {
+    console.error('Traffic count lookup error:', error);
+    return NextResponse.json({ error: 'Failed to look up traffic counts' }, { status: 500 });
+  }
+});
@@ -1,4 +1,6 @@
 import { NextResponse } from 'next/server';
+import { withProvenance } from '@/lib/providers';
+import { fetchSiteTraffic, TrafficError } from '@/lib/site-traffic';
 
 interface TrafficRequest {
   coordinates: { lat: number; lng: number };
@@ -6,532 +8,7 @@ interface TrafficRequest {
   parcelBoundary?: Array<[number, number]>;
 }
 
-interface RoadVPD {
-  roadName: string;
-  vpd: number;
-  year: number;
-  source: string;
-  roadwayId?: string;
-}
-
-interface FDOTSegment {
-  aadt: number;
-  year: number;
-  roadway: string;
-  descTo: string;
-  descFrm: string;
-}
-
-export interface TrafficData {
-  // Individual road VPD data
-  roads: RoadVPD[];
-  // Primary/average VPD (for backwards compatibility)
-  estimatedVPD: number;
-  vpdRange: string;
-  vpdSource: string;
-  // Road info
-  roadType: string;
-  // Real-time traffic
-  currentSpeed: number;
-  freeFlowSpeed: number;
-  currentTravelTime: number;
-  freeFlowTravelTime: number;
-  confidence: number;
-  trafficLevel: string;
-  congestionPercent: number;
-  // Multiple roads indicator
-  hasMultipleRoads: boolean;
-  averageVPD?: number;
-}
-
-// Road classification labels
-const HIGHWAY_TYPE_LABELS: Record<string, string> = {
-  motorway: 'Highway/Interstate',
-  motorway_link: 'Highway Ramp',
-  trunk: 'Major Highway',
-  trunk_link: 'Highway Ramp',
-  primary: 'Primary Arterial',
-  primary_link: 'Primary Ramp',
-  secondary: 'Secondary Arterial',
-  secondary_link: 'Secondary Ramp',
-  tertiary: 'Collector Road',
-  tertiary_link: 'Collector Ramp',
-  residential: 'Residential Street',
-  unclassified: 'Local Road',
-  living_street: 'Living Street',
-  service: 'Service Road',
-};
-
-// VPD ranges by road type
-const VPD_RANGES: Record<string, { min: number; max: number }> = {
-  motorway: { min: 40000, max: 150000 },
-  trunk: { min: 20000, max: 60000 },
-  primary: { min: 10000, max: 35000 },
-  secondary: { min: 5000, max: 20000 },
-  tertiary: { min: 2000, max: 10000 },
-  residential: { min: 500, max: 3000 },
-  unclassified: { min: 200, max: 2000 },
-};
-
-interface RoadWithType {
-  name: string;
-  highwayType: string;
-}
-
-// Find adjacent roads using OpenStreetMap Overpass API
-async function findAdjacentRoads(lat: number, lng: number, boundaryCoords?: Array<[number, number]>): Promise<RoadWithType[]> {
-  try {
-    const overpassUrl = 'https://overpass-api.de/api/interpreter';
-
-    // Search for roads within 500m to capture main roads even if property is set back
-    // Prioritize major roads (primary, secondary, trunk) over residential
-    const query = `
-      [out:json][timeout:15];
-      (
-        way["highway"~"primary|secondary|trunk|motorway"](around:500,${lat},${lng});
-        way["highway"~"tertiary"](around:300,${lat},${lng});
-        way["highway"~"residential"](around:150,${lat},${lng});
-      );
-      out body;
-      >;
-      out skel qt;
-    `;
-
-    const response = await fetch(overpassUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-      body: `data=${encodeURIComponent(query)}`,
-    });
-
-    if (!response.ok) {
-      console.log('[Traffic] Overpass API error:', response.status);
-      return [];
-    }
-
-    const data = await response.json();
-    const roads: RoadWithType[] = [];
-    const seenNames = new Set<string>();
-
-    for (const el of data.elements || []) {
-      if (el.type === 'way' && el.tags?.name && el.tags?.highway) {
-        const name = el.tags.name;
-        if (!seenNames.has(name)) {
-          seenNames.add(name);
-          roads.push({ name, highwayType: el.tags.highway });
-        }
-      }
-    }
-
-    console.log('[Traffic] Found adjacent roads from OSM:', roads.map(r => `${r.name} (${r.highwayType})`).join(', '));
-    return roads;
-  } catch (error) {
-    console.error('[Traffic] Overpass error:', error);
-    return [];
-  }
-}
-
-// Common road name aliases (local name -> FDOT name patterns)
-// This maps common/local names to their official route designations in FDOT data
-const ROAD_ALIASES: Record<string, string[]> = {
-  // Tallahassee area
-  'capital circle': ['sr-263', 'sr263', 'capital', 'state road 263', '263'],
-  'apalachee': ['sr-27', 'us-27', 'apalachee', 'state road 27', '27'],
-  'tennessee': ['us-90', 'sr-10', 'tennessee', 'state road 10', '90', '10'],
-  'mahan': ['us-90', 'sr-10', 'mahan', 'state road 10', '90', '10'],
-  'tharpe': ['cr-158', 'tharpe', 'county road 158', '158'],
-  'lake bradford': ['sr-371', 'lake bradford', 'state road 371', '371'],
-  'monroe': ['sr-63', 'us-27', 'monroe', 'state road 63', '63'],
-  'magnolia': ['magnolia', 'sr-61', 'state road 61', '61'],
-  'meridian': ['sr-155', 'cr-155', 'meridian', 'state road 155', '155'],
-  'thomasville': ['sr-61', 'thomasville', 'state road 61', '61'],
-  'pensacola': ['sr-363', 'pensacola', 'state road 363', '363'],
-  'ocala': ['sr-20', 'ocala', 'state road 20', '20'],
-  'blountstown': ['sr-20', 'blountstown', 'us-90', 'state road 20', '20'],
-  'centerville': ['cr-259', 'centerville', 'county road 259', '259'],
-  'miccosukee': ['cr-59', 'miccosukee', 'county road 59', '59'],
-  // Orlando area
-  'colonial': ['sr-50', 'colonial', 'state road 50', '50'],
-  'orange blossom': ['sr-451', 'orange blossom', 'state road 451', '451'],
-  'sand lake': ['sr-482', 'sand lake', 'state road 482', '482'],
-  'international': ['sr-535', 'international', 'state road 535', '535'],
-  // Tampa area
-  'dale mabry': ['sr-574', 'dale mabry', 'state road 574', '574'],
-  'hillsborough': ['sr-580', 'hillsborough', 'state road 580', '580'],
-  'fowler': ['sr-582', 'fowler', 'state road 582', '582'],
-  'busch': ['sr-580', 'busch', 'state road 580', '580'],
-  'kennedy': ['sr-60', 'kennedy', 'state road 60', '60'],
-  // Miami area
-  'biscayne': ['us-1', 'biscayne', 'us 1', '1'],
-  'flagler': ['sr-968', 'flagler', 'state road 968', '968'],
-  'calle ocho': ['sr-90', 'calle ocho', 'state road 90', '90'],
-  // Jacksonville area
-  'atlantic': ['sr-10', 'atlantic', 'state road 10', '10'],
-  'beach': ['sr-212', 'beach', 'state road 212', '212'],
-  'university': ['sr-109', 'university', 'state road 109', '109'],
-};
-
-
-// Normalize street name for comparison
-function normalizeStreetName(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/\s+(road|rd|street|st|avenue|ave|boulevard|blvd|drive|dr|lane|ln|way|court|ct|circle|cir|parkway|pkwy|highway|hwy|place|pl|trail|trl|terrace|ter)\.?$/i, '')
-    .replace(/^(north|south|east|west|n|s|e|w|ne|nw|se|sw)\s+/i, '')
-    .replace(/^(sr-\d+\/|cr-\d+\/|us-\d+\/)/i, '')
-    .replace(/[^a-z0-9]/g, '')
-    .trim();
-}
-
-// Get aliases for a road name
-function getRoadAliases(roadName: string): string[] {
-  const normalized = normalizeStreetName(roadName);
-  const aliases: string[] = [normalized];
-
-  for (const [key, values] of Object.entries(ROAD_ALIASES)) {
-    if (normalized.includes(normalizeStreetName(key)) || normalizeStreetName(key).includes(normalized)) {
-      aliases.push(...values.map(v => normalizeStreetName(v)));
-    }
-  }
-
-  return [...new Set(aliases)];
-}
-
-// Check if two road names match (including aliases)
-function roadNamesMatch(name1: string, name2: string): boolean {
-  if (!name1 || !name2) return false;
-  if (name1.toUpperCase() === 'N/A' || name2.toUpperCase() === 'N/A') return false;
-
-  // Get all possible aliases for both names
-  const aliases1 = getRoadAliases(name1);
-  const aliases2 = getRoadAliases(name2);
-
-  // Also add the parts from compound names (e.g., "SR-61/THOMASVILLE RD")
-  name1.split('/').forEach(part => aliases1.push(...getRoadAliases(part)));
-  name2.split('/').forEach(part => aliases2.push(...getRoadAliases(part)));
-
-  // Check all combinations
-  for (const a1 of aliases1) {
-    if (!a1 || a1.length < 3) continue;
-    for (const a2 of aliases2) {
-      if (!a2 || a2.length < 3) continue;
-
-      // Exact match
-      if (a1 === a2) return true;
-
-      // One contains the other
-      const minLen = Math.min(a1.length, a2.length);
-      const threshold = Math.max(3, Math.floor(minLen * 0.6));
-
-      if (a1.includes(a2) && a2.length >= threshold) return true;
-      if (a2.includes(a1) && a1.length >= threshold) return true;
-    }
-  }
-
-  return false;
-}
-
-// Fetch FDOT AADT data for a specific road (with optional extended radius)
-async function fetchFDOTForRoad(lat: number, lng: number, roadName: string, extendedRadius: boolean = false): Promise<RoadVPD | null> {
-  try {
-    // Use a moderate search area - not too large to avoid picking up distant segments
-    const radius = extendedRadius ? 0.008 : 0.005; // ~880m vs ~550m
-    const tolerance = extendedRadius ? 100 : 75;
-    const mapExtent = `${lng - radius},${lat - radius},${lng + radius},${lat + radius}`;
-    const url = `https://gis.fdot.gov/arcgis/rest/services/FTO/fto_PROD/MapServer/identify?` +
-      `geometry=${lng},${lat}&geometryType=esriGeometryPoint&sr=4326&` +
-      `layers=all:7&tolerance=${tolerance}&mapExtent=${mapExtent}&imageDisplay=400,400,96&` +
-      `returnGeometry=false&f=json`;
-
-    const response = await fetch(url);
-    if (!response.ok) return null;
-
-    const data = await response.json();
-    if (!data.results || data.results.length === 0) return null;
-
-    // Parse all segments with additional FDOT fields
-    interface ExtendedFDOTSegment extends FDOTSegment {
-      routeId?: string;
-      county?: string;
-      roadName?: string;
-    }
-
-    const segments: ExtendedFDOTSegment[] = [];
-    for (const result of data.results) {
-      const attrs = result.attributes;
-      if (attrs && attrs.AADT && Number(attrs.AADT) > 0) {
-        segments.push({
-          aadt: Number(attrs.AADT),
-          year: Number(attrs.YEAR_) || 2024,
-          roadway: attrs.ROADWAY || '',
-          descTo: attrs.DESC_TO || '',
-          descFrm: attrs.DESC_FRM || '',
-          routeId: attrs.ROUTE_ID || attrs.ROUTEID || '',
-          roadName: attrs.ROAD_NAME || attrs.ROADNAME || '',
-        });
-      }
-    }
-
-    // Get all aliases for the road name we're searching for
-    const searchAliases = getRoadAliases(roadName);
-    console.log(`[FDOT] Searching for "${roadName}" with aliases: ${searchAliases.join(', ')}`);
-
-    // Find ROADWAY IDs that match this road name using multiple strategies
-    const matchingRoadwayIds = new Set<string>();
-
-    for (const seg of segments) {
-      // Strategy 1: Check if ROAD_NAME field matches (primary - this IS the road)
-      if (seg.roadName && roadNamesMatch(seg.roadName, roadName)) {
-        matchingRoadwayIds.add(seg.roadway);
-        continue;
-      }
-
-      // Strategy 2: Check if ROUTE_ID contains the road name pattern
-      // ROUTE_ID often has format like "61000000" for SR-61 (Thomasville)
-      if (seg.routeId) {
-        const routeAliases = getRoadAliases(roadName);
-        for (const alias of routeAliases) {
-          // Match route numbers (e.g., "61" in routeId for Thomasville/SR-61)
-          const routeMatch = alias.match(/\d+/);
-          if (routeMatch && seg.routeId.startsWith(routeMatch[0])) {
-            matchingRoadwayIds.add(seg.roadway);
-            break;
-          }
-        }
-      }
-    }
-
-    // Strategy 3 (fallback): Only use DESC_TO/DESC_FRM if no ROAD_NAME matches found
-    // BUT only if the DESC field suggests this road IS the segment, not just a cross street
-    // This is less reliable since DESC_TO/DESC_FRM are typically cross-street names
-    if (matchingRoadwayIds.size === 0) {
-      for (const seg of segments) {
-        // Only match if BOTH desc fields mention the road (suggesting it's the main road)
-        // or if one desc field is the road and the other is a generic endpoint
-        const descToMatches = roadNamesMatch(seg.descTo, roadName);
-        const descFrmMatches = roadNamesMatch(seg.descFrm, roadName);
-
-        // If both mention the road, it's likely the road itself
-        if (descToMatches && descFrmMatches) {
-          matchingRoadwayIds.add(seg.roadway);
-        }
-      }
-    }
-
-    if (matchingRoadwayIds.size === 0) {
-      console.log(`[FDOT] No ROADWAY match for "${roadName}"`);
-      return null;
-    }
-
-    // Get all segments with matching ROADWAY IDs
-    const matchingSegments = segments.filter(s => matchingRoadwayIds.has(s.roadway));
-
-    // Find the best segment (most recent year, then highest AADT)
-    let best: ExtendedFDOTSegment | null = null;
-    for (const seg of matchingSegments) {
-      if (!best || seg.year > best.year || (seg.year === best.year && seg.aadt > best.aadt)) {
-        best = seg;
-      }
-    }
-
-    if (!best) return null;
-
-    console.log(`[FDOT] Found VPD for "${roadName}": ${best.aadt} (${best.year}) ROADWAY=${best.roadway}`);
-
-    return {
-      roadName,
-      vpd: best.aadt,
-      year: best.year,
-      source: 'Florida DOT AADT',
-      roadwayId: best.roadway,
-    };
-  } catch (error) {
-    console.error(`[FDOT] Error fetching for "${roadName}":`, error);
-    return null;
-  }
-}
-
-// Fetch all FDOT data near location and group by road
-async function fetchAllFDOTRoads(lat: number, lng: number): Promise<RoadVPD[]> {
-  try {
-    // Use a smaller search area to get only segments adjacent to the property
-    // ~0.003 degrees ≈ 330 meters, tolerance 50 ≈ immediate vicinity
-    const mapExtent = `${lng - 0.003},${lat - 0.003},${lng + 0.003},${lat + 0.003}`;
-    const url = `https://gis.fdot.gov/arcgis/rest/services/FTO/fto_PROD/MapServer/identify?` +
-      `geometry=${lng},${lat}&geometryType=esriGeometryPoint&sr=4326&` +
-      `layers=all:7&tolerance=50&mapExtent=${mapExtent}&imageDisplay=400,400,96&` +
-      `returnGeometry=false&f=json`;
-
-    const response = await fetch(url);
-    if (!response.ok) return [];
-
-    const data = await response.json();
-    if (!data.results || data.results.length === 0) return [];
-
-    // Group segments by ROADWAY ID
-    const roadwayMap = new Map<string, { segments: FDOTSegment[], names: Set<string>, primaryName: string }>();
-
-    for (const result of data.results) {
-      const attrs = result.attributes;
-      if (attrs && attrs.AADT && Number(attrs.AADT) > 0 && attrs.ROADWAY) {
-        const roadway = attrs.ROADWAY;
-
-        if (!roadwayMap.has(roadway)) {
-          roadwayMap.set(roadway, { segments: [], names: new Set(), primaryName: '' });
-        }
-
-        const entry = roadwayMap.get(roadway)!;
-        entry.segments.push({
-          aadt: Number(attrs.AADT),
-          year: Number(attrs.YEAR_) || 2024,
-          roadway,
-          descTo: attrs.DESC_TO || '',
-          descFrm: attrs.DESC_FRM || '',
-        });
-
-        // PRIORITY 1: Use ROAD_NAME or ROADNAME field (this IS the road's name)
-        const fdotRoadName = attrs.ROAD_NAME || attrs.ROADNAME || '';
-        if (fdotRoadName && fdotRoadName !== 'N/A' && !entry.primaryName) {
-          entry.primaryName = fdotRoadName;
-        }
-
-        // PRIORITY 2: Collect DESC_TO and DESC_FRM as fallback (these are cross-streets)
-        // Only use these if no ROAD_NAME is available
-        if (attrs.DESC_TO && attrs.DESC_TO !== 'N/A') {
-          entry.names.add(attrs.DESC_TO);
-        }
-        if (attrs.DESC_FRM && attrs.DESC_FRM !== 'N/A') {
-          entry.names.add(attrs.DESC_FRM);
-        }
-      }
-    }
-
-    // Convert to RoadVPD array - get best segment for each ROADWAY
-    const roads: RoadVPD[] = [];
-
-    for (const [roadway, { segments, names, primaryName }] of roadwayMap.entries()) {
-      // Find best segment (most recent, then highest AADT)
-      let best: FDOTSegment | null = null;
-      for (const seg of segments) {
-        if (!best || seg.year > best.year || (seg.year === best.year && seg.aadt > best.aadt)) {
-          best = seg;
-        }
-      }
-
-      if (best) {
-        let roadName = '';
-
-        // PRIORITY 1: Use the primary ROAD_NAME from FDOT (this is the actual road name)
-        if (primaryName) {
-          roadName = primaryName;
-          // Clean up - extract just the road name part if it's compound (e.g., "SR-61/THOMASVILLE RD")
-          if (primaryName.includes('/')) {
-            const roadNamePattern = /([\w\s]+(?:RD|ST|AVE|BLVD|DR|LN|WAY|PKWY|HWY|TRL|CT|CIR))/i;
-            const match = primaryName.match(roadNamePattern);
-            if (match && match[1]) {
-              roadName = match[1].trim();
-            }
-          }
-        }
-
-        // PRIORITY 2: Try to derive from route ID patterns (less reliable)
-        if (!roadName && roadway) {
-          // Try to match known roads by their ROADWAY ID patterns
-          // Format is typically like "61000000" for SR-61
-          const routeNum = roadway.match(/^(\d+)/)?.[1];
-          if (routeNum) {
-            for (const [localName, aliases] of Object.entries(ROAD_ALIASES)) {
-              if (aliases.some(a => a.includes(routeNum))) {
-                roadName = localName.charAt(0).toUpperCase() + localName.slice(1) + ' Road';
-                break;
-              }
-            }
-          }
-        }
-
-        // PRIORITY 3: Fall back to DESC_TO/DESC_FRM (these are cross-streets, least reliable)
-        // Only use if we couldn't determine the road name otherwise
-        if (!roadName) {
-          const roadNamePattern = /(?:^|\/)([\w\s]+(?:RD|ST|AVE|BLVD|DR|LN|WAY|PKWY|HWY|TRL|CT|CIR))(?:$|\/)/i;
-          for (const name of names) {
-            const match = name.match(roadNamePattern);
-            if (match && match[1]) {
-              roadName = match[1].trim();
-              break;
-            }
-          }
-        }
-
-        // Last resort fallback
-        if (!roadName) {
-          roadName = Array.from(names).find(n => !n.includes('Bridge') && n.length > 3) ||
-                     Array.from(names)[0] ||
-                     `Road ${roadway}`;
-          roadName = roadName.replace(/^(CR-\d+\/|SR-\d+\/|US-\d+\/)/, '').trim();
-        }
-
-        roads.push({
-          roadName,
-          vpd: best.aadt,
-          year: best.year,
-          source: 'Florida DOT AADT',
-          roadwayId: roadway,
-        });
-      }
-    }
-
-    // Sort by VPD descending
-    roads.sort((a, b) => b.vpd - a.vpd);
-
-    console.log(`[FDOT] Found ${roads.length} unique roads:`, roads.map(r => `${r.roadName}: ${r.vpd}`).join(', '));
-
-    return roads;
-  } catch (error) {
-    console.error('[FDOT] Error fetching all roads:', error);
-    return [];
-  }
-}
-
-// Extract street name from address
-function extractStreetName(address: string): string | null {
-  if (!address) return null;
-  const withoutNumber = address.replace(/^\d+\s*/, '');
-  const streetPart = withoutNumber.split(',')[0].trim();
-  const withoutDirection = streetPart.replace(/^(North|South|East|West|N|S|E|W|NE|NW|SE|SW)\s+/i, '');
-  const withoutSuffix = withoutDirection.replace(/\s+(Road|Rd|Street|St|Avenue|Ave|Boulevard|Blvd|Drive|Dr|Lane|Ln|Way|Court|Ct|Circle|Cir|Parkway|Pkwy|Highway|Hwy|Place|Pl|Trail|Trl|Terrace|Ter)\.?$/i, '');
-  const streetName = withoutSuffix.trim();
-  return streetName.length >= 3 ? streetName : null;
-}
-
-// Get road name at coordinates using reverse geocoding
-async function getRoadNameAtLocation(lat: number, lng: number): Promise<string | null> {
-  try {
-    const response = await fetch(
-      `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}&zoom=17`,
-      { headers: { 'User-Agent': 'DroneSense/1.0' } }
-    );
-    if (!response.ok) return null;
-    const data = await response.json();
-    return data.address?.road || data.address?.street || null;
-  } catch {
-    return null;
-  }
-}
-
-// Fetch TomTom traffic data
-async function fetchTomTomTraffic(lat: number, lng: number, apiKey: string) {
-  try {
-    const response = await fetch(
-      `https://api.tomtom.com/traffic/services/4/flowSegmentData/relative0/10/json?point=${lat},${lng}&unit=MPH&thickness=1&key=${apiKey}`
-    );
-    if (!response.ok) return null;
-    const data = await response.json();
-    return data.flowSegmentData || null;
-  } catch {
-    return null;
-  }
-}
-
-export async function POST(request: Request) {
+export const POST = withProvenance(async (request: Request) => {
   try {
     const body: TrafficRequest = await request.json();
     const { coordinates, address, parcelBoundary } = body;
@@ -540,233 +17,15 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'No coordinates provided' }, { status: 400 });
     }
 
-    const apiKey = process.env.TOMTOM_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json({ error: 'Traffic API not configured' }, { status: 500 });
-    }
-
-    const { lat, lng } = coordinates;
-    console.log(`[Traffic] Processing: ${address || `${lat},${lng}`}`);
-
-    // STEP 1: Extract property street from address
-    let propertyStreet = address ? extractStreetName(address) : null;
-    console.log(`[Traffic] Property street from address: ${propertyStreet}`);
-
-    // STEP 2: Use reverse geocoding to get the official road name at this location
-    const reverseGeocodedRoad = await getRoadNameAtLocation(lat, lng);
-    console.log(`[Traffic] Reverse geocoded road: ${reverseGeocodedRoad}`);
-
-    // STEP 3: Find adjacent roads from OpenStreetMap (with highway types)
-    const osmRoads = await findAdjacentRoads(lat, lng, parcelBoundary);
-    console.log(`[Traffic] OSM adjacent roads: ${osmRoads.map(r => `${r.name} (${r.highwayType})`).join(', ') || 'none'}`);
-
-    // Add reverse geocoded road to OSM roads if not already present
-    if (reverseGeocodedRoad) {
-      const reverseNormalized = normalizeStreetName(reverseGeocodedRoad);
-      const alreadyHas = osmRoads.some(r => normalizeStreetName(r.name) === reverseNormalized);
-      if (!alreadyHas) {
-        // Default to primary if we don't know the type
-        osmRoads.unshift({ name: reverseGeocodedRoad, highwayType: 'primary' });
-      }
-    }
-
-    // STEP 4: Get all FDOT roads in the area
-    const allFDOTRoads = await fetchAllFDOTRoads(lat, lng);
-
-    // STEP 5: Match roads with FDOT data
-    const matchedRoads: RoadVPD[] = [];
-    const matchedRoadwayIds = new Set<string>();
-
-    // Strategy 1: Match property street with OSM roads first
-    // If the address street matches an OSM road, use that as the property's main road
-    let propertyOSMRoad: RoadWithType | null = null;
-    if (propertyStreet) {
-      for (const osmRoad of osmRoads) {
-        if (roadNamesMatch(osmRoad.name, propertyStreet)) {
-          propertyOSMRoad = osmRoad;
-          console.log(`[Traffic] Property street "${propertyStreet}" matches OSM road "${osmRoad.name}" (${osmRoad.highwayType})`);
-          break;
-        }
-      }
-    }
-
-    // Strategy 2: Match property street with FDOT data by name
-    // Look for the property street name in FDOT DESC_TO/DESC_FRM fields
-    if (propertyStreet && allFDOTRoads.length > 0) {
-      // First, try to find an FDOT segment that actually matches the property street name
-      let matchedPropertyRoad: RoadVPD | null = null;
-
-      for (const fdotRoad of allFDOTRoads) {
-        // Check if this FDOT road matches the property street
-        if (roadNamesMatch(fdotRoad.roadName, propertyStreet)) {
-          matchedPropertyRoad = fdotRoad;
-          console.log(`[Traffic] Found FDOT match for "${propertyStreet}": ${fdotRoad.roadName} = ${fdotRoad.vpd} VPD`);
-          break;
-        }
-      }
-
-      // If no direct match, try fetching specifically for the property street with extended radius
-      if (!matchedPropertyRoad) {
-        const specificFetch = await fetchFDOTForRoad(lat, lng, propertyStreet, true);
-        if (specificFetch) {
-          matchedPropertyRoad = specificFetch;
-          console.log(`[Traffic] Found FDOT via specific fetch for "${propertyStreet}": ${specificFetch.vpd} VPD`);
-        }
-      }
-
-      // Only add to matched roads if we found a verified match
-      // DO NOT use fallback that assigns wrong VPD to wrong road name
-      if (matchedPropertyRoad) {
-        matchedRoads.push({
-          ...matchedPropertyRoad,
-          roadName: propertyOSMRoad?.name || propertyStreet,
-        });
-        matchedRoadwayIds.add(matchedPropertyRoad.roadwayId!);
-      } else {
-        // No match found - log warning but don't add incorrect data
-        console.log(`[Traffic] No FDOT match found for property street "${propertyStreet}" - will not assign unverified VPD`);
-      }
-    }
-
-    // Strategy 3: Match other OSM roads with remaining FDOT roads
-    for (const osmRoad of osmRoads) {
-      // Skip if this is the property street (already handled)
-      if (propertyStreet && roadNamesMatch(osmRoad.name, propertyStreet)) continue;
-
-      // Try matching with FDOT roads that haven't been claimed
-      for (const fdotRoad of allFDOTRoads) {
-        if (fdotRoad.roadwayId && !matchedRoadwayIds.has(fdotRoad.roadwayId)) {
-          // Match if names are similar OR if it's a minor road
-          if (roadNamesMatch(fdotRoad.roadName, osmRoad.name)) {
-            matchedRoads.push({
-              ...fdotRoad,
-              roadName: osmRoad.name,
-            });
-            matchedRoadwayIds.add(fdotRoad.roadwayId);
-            break;
-          }
-        }
-      }
-    }
-
-    // Strategy 4: If still no roads matched, include nearby FDOT roads with their ORIGINAL names
-    // DO NOT relabel them with the property street name - keep accurate road identification
-    if (matchedRoads.length === 0 && allFDOTRoads.length > 0) {
-      // Add nearby FDOT roads with their correct names (not the property street)
-      for (const fdotRoad of allFDOTRoads.slice(0, 3)) { // Include up to 3 nearby roads
-        if (!matchedRoadwayIds.has(fdotRoad.roadwayId!)) {
-          matchedRoads.push({
-            ...fdotRoad,
-            // Keep the FDOT road's actual name - don't mislabel it
-            roadName: fdotRoad.roadName,
-          });
-          matchedRoadwayIds.add(fdotRoad.roadwayId!);
-        }
-      }
-      console.log(`[Traffic] Added ${matchedRoads.length} nearby FDOT roads (no direct property match found)`);
-    }
-
-    console.log(`[Traffic] Final matched roads: ${matchedRoads.map(r => `${r.roadName}:${r.vpd}`).join(', ')}`);
-
-    // STEP 5: Get TomTom real-time traffic
-    const flowData = await fetchTomTomTraffic(lat, lng, apiKey);
-
-    const currentSpeed = flowData?.currentSpeed || 35;
-    const freeFlowSpeed = flowData?.freeFlowSpeed || 45;
-    const congestionPercent = freeFlowSpeed > 0
-      ? Math.max(0, Math.round((1 - currentSpeed / freeFlowSpeed) * 100))
-      : 0;
-
-    let trafficLevel = 'Free Flow';
-    if (congestionPercent > 50) trafficLevel = 'Heavy';
-    else if (congestionPercent > 25) trafficLevel = 'Moderate';
-    else if (congestionPercent > 10) trafficLevel = 'Light';
-
-    // STEP 6: Calculate averages and prepare response
-    const hasMultipleRoads = matchedRoads.length > 1;
-    const totalVPD = matchedRoads.reduce((sum, r) => sum + r.vpd, 0);
-    const averageVPD = hasMultipleRoads ? Math.round(totalVPD / matchedRoads.length) : undefined;
-
-    // Primary VPD is the highest among matched roads (or average if multiple)
-    const primaryVPD = matchedRoads.length > 0
-      ? (hasMultipleRoads ? averageVPD! : matchedRoads[0].vpd)
-      : 0;
-
-    // Primary road name
-    const primaryRoad = matchedRoads.length > 0
-      ? matchedRoads[0].roadName
-      : (propertyStreet || 'Unknown');
-
-    // Get road classification from OSM data
-    let roadClassification = 'Unknown';
-    if (propertyOSMRoad) {
-      roadClassification = HIGHWAY_TYPE_LABELS[propertyOSMRoad.highwayType] || 'Road';
-    } else if (osmRoads.length > 0) {
-      // Use the first (highest priority) road's type
-      roadClassification = HIGHWAY_TYPE_LABELS[osmRoads[0].highwayType] || 'Road';
-    } else if (primaryVPD >= 25000) {
-      roadClassification = 'Major Arterial';
-    } else if (primaryVPD >= 15000) {
-      roadClassification = 'Primary Arterial';
-    } else if (primaryVPD >= 8000) {
-      roadClassification = 'Secondary Arterial';
-    } else if (primaryVPD >= 3000) {
-      roadClassification = 'Collector Road';
-    } else {
-      roadClassification = 'Local Road';
-    }
-
-    // Build VPD source string
-    let vpdSource = '';
-    if (matchedRoads.length > 1) {
-      vpdSource = `Average of ${matchedRoads.length} roads: ${matchedRoads.map(r => r.roadName).join(', ')}`;
-    } else if (matchedRoads.length === 1) {
-      vpdSource = `Florida DOT AADT - ${matchedRoads[0].roadName} (${matchedRoads[0].year})`;
-    } else {
-      vpdSource = 'No official data available';
-    }
-
-    // Build VPD range string - show ±15% range for single road official counts
-    let vpdRange = '';
-    if (matchedRoads.length > 1) {
-      const minVPD = Math.min(...matchedRoads.map(r => r.vpd));
-      const maxVPD = Math.max(...matchedRoads.map(r => r.vpd));
-      vpdRange = `${minVPD.toLocaleString()} - ${maxVPD.toLocaleString()}`;
-    } else if (matchedRoads.length === 1) {
-      // Show ±15% variance range even for official counts (accounts for seasonal variation)
-      const vpd = matchedRoads[0].vpd;
-      const lowRange = Math.round(vpd * 0.85);
-      const highRange = Math.round(vpd * 1.15);
-      vpdRange = `${lowRange.toLocaleString()} - ${highRange.toLocaleString()}`;
-    } else {
-      vpdRange = 'N/A';
-    }
-
-    const trafficData: TrafficData = {
-      roads: matchedRoads,
-      estimatedVPD: primaryVPD,
-      vpdRange,
-      vpdSource,
-      roadType: roadClassification,
-      currentSpeed: Math.round(currentSpeed),
-      freeFlowSpeed: Math.round(freeFlowSpeed),
-      currentTravelTime: flowData?.currentTravelTime || 0,
-      freeFlowTravelTime: flowData?.freeFlowTravelTime || 0,
-      confidence: flowData?.confidence || 0,
-      trafficLevel,
-      congestionPercent,
-      hasMultipleRoads,
-      averageVPD,
-    };
-
-    console.log(`[Traffic] Response: VPD=${primaryVPD}, Roads=${matchedRoads.length}, HasMultiple=${hasMultipleRoads}`);
-
-    return NextResponse.json(trafficData);
+    return NextResponse.json(await fetchSiteTraffic(coordinates, address, parcelBoundary));
   } catch (error) {
+    if (error instanceof TrafficError) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
     console.error('[Traffic] API error:', error);
     return NextResponse.json({
       error: 'Failed to fetch traffic data',
       message: String(error)
     }, { status: 500 });
   }
-}
+});
@@ -0,0 +1,285 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { BulkImportIssue, BulkImportRow, BulkImportView, JobSummary } from '@/types';
+import { isJobFinished, useJob } from '@/hooks/useJob';
+import { getRatingColor, getScoreColor } from '@/utils/feasibilityScore';
+
+const CURRENT_JOB_KEY = 'drone-sense-bulk-import-job';
+
+function formatNumber(value: number | null | undefined, prefix = ''): string {
+  return value === null || value === undefined ? '—' : `${prefix}${value.toLocaleString()}`;
+}
+
+export default function BulkImportPage() {
+  const [jobId, setJobId] = useState<string | null>(null);
+  const { job, error: jobError } = useJob<BulkImportView>(jobId);
+  const [recentJobs, setRecentJobs] = useState<JobSummary[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [uploadIssues, setUploadIssues] = useState<BulkImportIssue[]>([]);
+
+  const openJob = useCallback((id: string | null) => {
+    if (id) localStorage.setItem(CURRENT_JOB_KEY, id);
+    else localStorage.removeItem(CURRENT_JOB_KEY);
+    setJobId(id);
+  }, []);
+
+  const loadRecentJobs = useCallback(async () => {
+    const response = await fetch('/api/bulk-import');
+    if (response.ok) setRecentJobs((await response.json()).jobs || []);
+  }, []);
+
+  // Reopen the job this browser last started
+  useEffect(() => {
+    setJobId(localStorage.getItem(CURRENT_JOB_KEY));
+    loadRecentJobs().catch(err => console.error('Failed to list bulk imports:', err));
+  }, [loadRecentJobs]);
+
+  // The stored job is gone (deleted elsewhere or cleaned up)
+  useEffect(() => {
+    if (jobError) openJob(null);
+  }, [jobError, openJob]);
+
+  // Refresh the list's progress once the open job finishes
+  const running = job ? !isJobFinished(job) : false;
+  const finishedJobId = job && !running ? job.id : null;
+  useEffect(() => {
+    if (finishedJobId) loadRecentJobs().catch(() => {});
+  }, [finishedJobId, loadRecentJobs]);
+
+  const handleFile = async (file: File) => {
+    setUploading(true);
+    setError(null);
+    setUploadIssues([]);
+
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      const response = await fetch('/api/bulk-import', { method: 'POST', body: form });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Import failed');
+        setUploadIssues(data.issues || []);
+        return;
+      }
+
+      openJob(data.id);
+      loadRecentJobs().catch(() => {});
+    } catch (err) {
+      console.error('Bulk import failed:', err);
+      setError('Import failed. Check your connection and try again.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // The event stream picks up the cancelled status
+  const handleCancel = async () => {
+    if (!job) return;
+    await fetch(`/api/jobs/${job.id}/cancel`, { method: 'POST' });
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Delete this import and its results? This cannot be undone.')) return;
+    const response = await fetch(`/api/jobs/${id}`, { method: 'DELETE' });
+    if (!response.ok) return;
+    if (jobId === id) openJob(null);
+    setRecentJobs(prev => prev.filter(j => j.id !== id));
+  };
+
+  const progress = job?.progress;
+  const processed = progress ? progress.completed + progress.failed : 0;
+  const percent = progress && progress.total > 0 ? Math.round((processed / progress.total) * 100) : 0;
+  const fileIssues = job ? job.data.issues : uploadIssues;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-[var(--text-primary)]">Bulk Import</h1>
+          <p className="text-[var(--text-muted)] mt-1">
+            Run a full site analysis on every address in a CSV or XLSX and rank the results
+          </p>
+        </div>
+        <Link
+          href="/"
+          className="text-[var(--accent-cyan)] hover:underline flex items-center gap-2"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+          </svg>
+          Back to Analysis
+        </Link>
+      </div>
+
+      {/* Upload */}
+      <div className="p-4 bg-[var(--bg-tertiary)] rounded-lg border border-[var(--border-color)] mb-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <label className={`btn-primary cursor-pointer inline-flex items-center gap-2 ${uploading || running ? 'opacity-50 pointer-events-none' : ''}`}>
+            {uploading ? 'Uploading...' : 'Upload Sites (CSV/XLSX)'}
+            <input
+              type="file"
+              accept=".csv,.xlsx"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <p className="text-xs text-[var(--text-muted)]">
+            Up to 500 sites. Columns: Address (or Street, City, State, Zip), optional APN and Lat/Lng.
+            APNs are checked against the parcel found at each address.
+          </p>
+        </div>
+        {error && <p className="text-sm text-[var(--accent-red)] mt-3">{error}</p>}
+        {fileIssues.length > 0 && (
+          <details className="mt-3">
+            <summary className="text-xs text-[var(--text-muted)] cursor-pointer hover:text-[var(--text-secondary)]">
+              {fileIssues.length} {fileIssues.length === 1 ? 'issue' : 'issues'} in the file
+            </summary>
+            <div className="mt-2 space-y-1 text-xs">
+              {fileIssues.map(issue => (
+                <p
+                  key={`${issue.row}-${issue.column}-${issue.message}`}
+                  className={issue.severity === 'error' ? 'text-[var(--accent-red)]' : 'text-[var(--accent-orange)]'}
+                >
+                  Row {issue.row}{issue.column ? ` (${issue.column})` : ''}: {issue.message}
+                </p>
+              ))}
+            </div>
+          </details>
+        )}
+      </div>
+
+      {job && (
+        <div className="terminal-card mb-6">
+          <div className="terminal-header">
+            <div className="terminal-dot red"></div>
+            <div className="terminal-dot yellow"></div>
+            <div className="terminal-dot green"></div>
+            <span className="terminal-title">{job.data.fileName}</span>
+          </div>
+          <div className="terminal-body">
+            {/* Progress */}
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+              <div className="text-sm text-[var(--text-secondary)]">
+                <span className="tag tag-cyan mr-2">{job.status}</span>
+                {processed} of {job.progress.total} sites analyzed
+                {job.progress.failed > 0 && <span className="text-[var(--accent-red)]"> ({job.progress.failed} failed)</span>}
+              </div>
+              <div className="flex items-center gap-2">
+                {running && (
+                  <button onClick={handleCancel} className="btn-secondary text-sm">Cancel</button>
+                )}
+                <a href={`/api/bulk-import/${job.id}/export?format=csv`} className="btn-secondary text-sm">Export CSV</a>
+                <a href={`/api/bulk-import/${job.id}/export?format=xlsx`} className="btn-secondary text-sm">Export XLSX</a>
+              </div>
+            </div>
+            <div className="h-2 bg-[var(--bg-tertiary)] rounded-full overflow-hidden mb-6">
+              <div
+                className="h-full bg-[var(--accent-cyan)] transition-all duration-300"
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+
+            <ResultsTable rows={job.data.rows} />
+          </div>
+        </div>
+      )}
+
+      {recentJobs.length > 0 && (
+        <div className="p-4 bg-[var(--bg-tertiary)] rounded-lg border border-[var(--border-color)]">
+          <h2 className="text-sm font-semibold text-[var(--text-secondary)] mb-3">Recent Imports</h2>
+          <div className="space-y-2">
+            {recentJobs.map(j => (
+              <div key={j.id} className="flex items-center justify-between text-sm">
+                <button
+                  onClick={() => openJob(j.id)}
+                  className={`text-left hover:text-[var(--accent-cyan)] ${j.id === jobId ? 'text-[var(--accent-cyan)]' : 'text-[var(--text-secondary)]'}`}
+                >
+                  {j.label}
+                  <span className="text-xs text-[var(--text-muted)] ml-2">
+                    {new Date(j.createdAt).toLocaleString()} · {j.progress.completed}/{j.progress.total} · {j.status}
+                  </span>
+                </button>
+                <button
+                  onClick={() => handleDelete(j.id)}
+                  className="text-xs text-[var(--text-muted)] hover:text-[var(--accent-red)]"
+                >
+                  Delete
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Sites in ranked order; unfinished and failed sites follow the scored ones
+function ResultsTable({ rows }: { rows: BulkImportRow[] }) {
+  let rank = 0;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-[var(--text-muted)] border-b border-[var(--border-color)]">
+            <th className="py-2 pr-3">#</th>
+            <th className="py-2 pr-3">Site</th>
+            <th className="py-2 pr-3 text-right">Score</th>
+            <th className="py-2 pr-3 text-right">Acres</th>
+            <th className="py-2 pr-3 text-right">VPD</th>
+            <th className="py-2 pr-3 text-right">Median Income</th>
+            <th className="py-2 pr-3 text-right">Population</th>
+            <th className="py-2 pr-3">Flood</th>
+            <th className="py-2">Top Retailers</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.row} className="border-b border-[var(--border-color)] align-top">
+              <td className="py-2 pr-3 text-[var(--text-muted)]">{row.status === 'done' ? ++rank : ''}</td>
+              <td className="py-2 pr-3">
+                <div className="text-[var(--text-primary)]">{row.geocode?.formattedAddress || row.address}</div>
+                <div className="text-xs text-[var(--text-muted)]">
+                  Row {row.row}
+                  {(row.parcel?.apn || row.apn) && ` · APN ${row.parcel?.apn || row.apn}`}
+                  {row.parcel?.zoning && ` · ${row.parcel.zoning}`}
+                </div>
+                {row.error && <div className="text-xs text-[var(--accent-red)]">{row.error}</div>}
+                {row.warnings.map(warning => (
+                  <div key={warning} className="text-xs text-[var(--accent-orange)]">{warning}</div>
+                ))}
+              </td>
+              <td className="py-2 pr-3 text-right whitespace-nowrap">
+                {row.status === 'done' && row.score !== undefined ? (
+                  <>
+                    <span className="font-bold" style={{ color: getScoreColor(row.score) }}>{row.score.toFixed(1)}</span>
+                    <div className="text-xs" style={{ color: getRatingColor(row.rating || '') }}>{row.rating}</div>
+                  </>
+                ) : (
+                  <span className="text-xs text-[var(--text-muted)]">{row.status}</span>
+                )}
+              </td>
+              <td className="py-2 pr-3 text-right">{row.parcel?.acres !== undefined ? row.parcel.acres.toFixed(2) : '—'}</td>
+              <td className="py-2 pr-3 text-right">{formatNumber(row.vpd)}</td>
+              <td className="py-2 pr-3 text-right">{formatNumber(row.medianIncome, '$')}</td>
+              <td className="py-2 pr-3 text-right">{formatNumber(row.population)}</td>
+              <td className="py-2 pr-3 capitalize">{row.floodRisk || '—'}</td>
+              <td className="py-2 text-xs text-[var(--text-secondary)]">
+                {(row.topRetailers || []).slice(0, 3).map(t => `${t.name} (${t.matchScore})`).join(', ') || '—'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
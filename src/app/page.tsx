@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import PhotoUpload from '@/components/PhotoUpload';
 import AddressInput from '@/components/AddressInput';
 import MapView, { ParcelData } from '@/components/MapView';
@@ -8,7 +8,9 @@ import AnalysisReport from '@/components/AnalysisReport';
 import TabNavigation, { TabPanel } from '@/components/ui/TabNavigation';
 import { SkeletonCard } from '@/components/ui/Skeleton';
 import ErrorBoundary from '@/components/ErrorBoundary';
+import ShareButton from '@/components/ShareButton';
 import { useSearchHistory } from '@/hooks/useSearchHistory';
+import { buildRetailerMatchRequest } from '@/utils/siteRequests';
 
 // Import types from shared types file
 import {
@@ -22,7 +24,9 @@ import {
   PropertyData,
   SelectedParcel,
   AccessPoint,
+  FrontageAnalysis,
   LocationIntelligence as LocationIntelligenceType,
+  SiteInputs,
 } from '@/types';
 
 
@@ -49,6 +53,11 @@ const MarketComps = dynamic(() => import('@/components/MarketComps'), {
   ssr: false
 });
 
+const SalesForecast = dynamic(() => import('@/components/SalesForecast'), {
+  loading: () => <SkeletonCard />,
+  ssr: false
+});
+
 const LocationIntelligence = dynamic(() => import('@/components/LocationIntelligence'), {
   loading: () => <SkeletonCard />,
   ssr: false
@@ -69,6 +78,11 @@ const RecommendationsPanel = dynamic(() => import('@/components/RecommendationsP
   ssr: false
 });
 
+const ScenarioAnalysis = dynamic(() => import('@/components/ScenarioAnalysis'), {
+  loading: () => <SkeletonCard />,
+  ssr: false
+});
+
 // Inline retry error banner component
 function RetryBanner({
   message,
@@ -136,6 +150,7 @@ function RetryBanner({
 const TABS = [
   { id: 'overview', label: 'Overview', icon: <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" /></svg> },
   { id: 'recommendations', label: 'AI Analysis', icon: <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" /></svg> },
+  { id: 'scenarios', label: 'What-If', icon: <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" /></svg> },
   { id: 'site-data', label: 'Site Data', icon: <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" /></svg> },
   { id: 'market', label: 'Market', icon: <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" /></svg> },
   { id: 'report', label: 'Report', icon: <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg> },
@@ -155,6 +170,7 @@ export default function HomePage() {
   const [marketComps, setMarketComps] = useState<MarketComp[] | null>(null);
   const [selectedParcel, setSelectedParcel] = useState<SelectedParcel | null>(null);
   const [accessPoints, setAccessPoints] = useState<AccessPoint[]>([]);
+  const [frontage, setFrontage] = useState<FrontageAnalysis | null>(null);
   const [parcelData, setParcelData] = useState<ParcelData | null>(null);
   const [retailerMatches, setRetailerMatches] = useState<RetailerMatchResult | null>(null);
   const [loading, setLoading] = useState(false);
@@ -254,7 +270,8 @@ export default function HomePage() {
         body: JSON.stringify({
           lat: coordinates.lat,
           lng: coordinates.lng,
-          radii: [1, 3, 5]
+          radii: [1, 3, 5],
+          driveMinutes: [5, 10, 15],
         }),
       });
 
@@ -318,7 +335,8 @@ export default function HomePage() {
 
       if (response.ok) {
         const data = await response.json();
-        setMarketComps(data.comps || []);
+        // Recorded sales first; estimates stay flagged so every view can label them
+        setMarketComps([...(data.comps || []), ...(data.estimatedComps || [])]);
       } else {
         setDataErrors(prev => ({ ...prev, marketComps: 'Failed to load market comparables. Check your connection and try again.' }));
       }
@@ -393,68 +411,35 @@ export default function HomePage() {
     fetchTrafficData();
   }, [fetchTrafficData]);
 
-  // Fetch retailer matches when we have sufficient data
-  useEffect(() => {
-    const fetchRetailerMatches = async () => {
-      // Need at least some data to match
-      const lotSize = selectedParcel?.parcelInfo?.acres || parcelData?.parcelInfo?.acres || null;
-      const primaryVpd = accessPoints.length > 0
-        ? Math.max(...accessPoints.map(ap => ap.vpd || ap.estimatedVpd || 0))
-        : trafficData?.estimatedVPD || null;
-      const medianIncome = demographicsData?.medianHouseholdIncome || null;
-      const population = demographicsData?.population || null;
-
-      // Need at least 2 data points to make meaningful matches
-      const dataPoints = [lotSize, primaryVpd, medianIncome, population].filter(v => v !== null).length;
-      if (dataPoints < 2) {
-        return;
-      }
+  // Everything scoring, retailer matching and recommendations work from
+  const siteInputs = useMemo<SiteInputs>(() => ({
+    traffic: trafficData,
+    accessPoints,
+    demographics: demographicsData,
+    businesses,
+    environmentalRisk,
+    marketComps,
+    locationIntelligence,
+    parcel: selectedParcel?.parcelInfo || parcelData?.parcelInfo || null,
+  }), [trafficData, accessPoints, demographicsData, businesses, environmentalRisk, marketComps, locationIntelligence, selectedParcel?.parcelInfo, parcelData?.parcelInfo]);
 
-      // Derive income level from median income
-      let incomeLevel: 'low' | 'moderate' | 'middle' | 'upper-middle' | 'high' | null = null;
-      if (medianIncome) {
-        if (medianIncome < 35000) incomeLevel = 'low';
-        else if (medianIncome < 50000) incomeLevel = 'moderate';
-        else if (medianIncome < 75000) incomeLevel = 'middle';
-        else if (medianIncome < 100000) incomeLevel = 'upper-middle';
-        else incomeLevel = 'high';
-      }
+  // Serialized so matches are only re-fetched when the request itself changes
+  const retailerMatchRequest = useMemo(() => {
+    const request = buildRetailerMatchRequest(siteInputs, address);
+    return request ? JSON.stringify(request) : null;
+  }, [siteInputs, address]);
 
-      // Extract state code from address
-      let stateCode: string | null = null;
-      if (address) {
-        const stateMatch = address.match(/,\s*([A-Z]{2})\s*\d{5}/);
-        if (stateMatch) {
-          stateCode = stateMatch[1];
-        } else {
-          // Try alternate patterns
-          const stateNames: Record<string, string> = {
-            'florida': 'FL', 'georgia': 'GA', 'alabama': 'AL', 'texas': 'TX',
-            'california': 'CA', 'new york': 'NY', 'tennessee': 'TN', 'north carolina': 'NC',
-            'south carolina': 'SC', 'virginia': 'VA', 'ohio': 'OH', 'michigan': 'MI',
-          };
-          const lowerAddress = address.toLowerCase();
-          for (const [name, code] of Object.entries(stateNames)) {
-            if (lowerAddress.includes(name)) {
-              stateCode = code;
-              break;
-            }
-          }
-        }
-      }
+  // Fetch retailer matches when we have sufficient data
+  useEffect(() => {
+    // Need at least 2 data points to make meaningful matches
+    if (!retailerMatchRequest) return;
 
+    const fetchRetailerMatches = async () => {
       try {
         const response = await fetch('/api/retailer-match', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            lotSizeAcres: lotSize,
-            vpd: primaryVpd,
-            medianIncome,
-            incomeLevel,
-            population,
-            stateCode,
-          }),
+          body: retailerMatchRequest,
         });
 
         if (response.ok) {
@@ -467,15 +452,7 @@ export default function HomePage() {
     };
 
     fetchRetailerMatches();
-  }, [
-    selectedParcel?.parcelInfo?.acres,
-    parcelData?.parcelInfo?.acres,
-    accessPoints,
-    trafficData?.estimatedVPD,
-    demographicsData?.medianHouseholdIncome,
-    demographicsData?.population,
-    address,
-  ]);
+  }, [retailerMatchRequest]);
 
   const handleAnalyze = async () => {
     if (!address && !coordinates) {
@@ -506,6 +483,8 @@ export default function HomePage() {
           environmentalRisk,
           marketComps,
           locationIntelligence,
+          accessPoints,
+          frontage,
           selectedParcel: selectedParcel?.isConfirmed ? {
             boundaries: selectedParcel.boundaries,
             parcelInfo: selectedParcel.parcelInfo,
@@ -677,6 +656,7 @@ export default function HomePage() {
                 onCoordinatesChange={setCoordinates}
                 onAddressChange={setAddress}
                 onAccessPointsChange={setAccessPoints}
+                onFrontageChange={setFrontage}
                 onParcelDataChange={setParcelData}
                 interactiveMode={true}
               />
@@ -757,6 +737,7 @@ export default function HomePage() {
                 businesses={businesses}
                 environmentalRisk={environmentalRisk}
                 accessPoints={accessPoints}
+                frontage={frontage}
                 parcelInfo={selectedParcel?.parcelInfo || parcelData?.parcelInfo}
               />
             ) : (
@@ -771,6 +752,35 @@ export default function HomePage() {
         </div>
       </TabPanel>
 
+      {/* What-If Tab */}
+      <TabPanel id="scenarios" activeTab={activeTab}>
+        <div className="terminal-card">
+          <div className="terminal-header">
+            <div className="terminal-dot red"></div>
+            <div className="terminal-dot yellow"></div>
+            <div className="terminal-dot green"></div>
+            <span className="terminal-title">scenario_analysis.module</span>
+          </div>
+          <div className="terminal-body">
+            {coordinates ? (
+              <ScenarioAnalysis
+                site={siteInputs}
+                address={address}
+                frontage={frontage}
+                baselineMatches={retailerMatches}
+              />
+            ) : (
+              <div className="text-center py-12 text-[var(--text-muted)]">
+                <svg className="w-12 h-12 mx-auto mb-4 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
+                </svg>
+                <p>Enter an address to run what-if scenarios</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </TabPanel>
+
       {/* Site Data Tab - Combined Demographics, Traffic, Risk */}
       <TabPanel id="site-data" activeTab={activeTab}>
         {coordinates ? (
@@ -889,6 +899,7 @@ export default function HomePage() {
                 <MarketComps
                   coordinates={coordinates}
                   comps={marketComps}
+                  onCompsImported={fetchMarketComps}
                 />
               )
             ) : (
@@ -901,12 +912,44 @@ export default function HomePage() {
             )}
           </div>
         </div>
+
+        {coordinates && (
+          <div className="terminal-card mt-6">
+            <div className="terminal-header">
+              <div className="terminal-dot red"></div>
+              <div className="terminal-dot yellow"></div>
+              <div className="terminal-dot green"></div>
+              <span className="terminal-title">sales_forecast.module</span>
+            </div>
+            <div className="terminal-body">
+              <SalesForecast coordinates={coordinates} />
+            </div>
+          </div>
+        )}
       </TabPanel>
 
       {/* Report Tab */}
       <TabPanel id="report" activeTab={activeTab}>
         {analysis ? (
           <div className="space-y-6">
+            <div className="flex justify-end">
+              <ShareButton
+                propertyData={{
+                  ...getCurrentPropertyData(),
+                  // Fall back to the auto-detected parcel so recipients still see the boundary
+                  selectedParcel: selectedParcel || (parcelData && coordinates ? {
+                    boundaries: parcelData.boundaries,
+                    parcelInfo: parcelData.parcelInfo,
+                    coordinates,
+                    isConfirmed: false,
+                  } : null),
+                }}
+                address={address}
+                accessPoints={accessPoints}
+                retailerMatches={retailerMatches}
+              />
+            </div>
+
             <div className="terminal-card glow-cyan">
               <div className="terminal-header">
                 <div className="terminal-dot red"></div>
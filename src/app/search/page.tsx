@@ -4,8 +4,12 @@ import { useState, useCallback, useMemo, useEffect } from 'react';
 import Link from 'next/link';
 import dynamic from 'next/dynamic';
 import { useSearchFavorites, QuickFeasibility } from '@/hooks/useSearchFavorites';
-import { ZONING_TYPES, getBusinessRequirement, getBusinessTypeOptions } from '@/lib/business-requirements';
+import { useTenantProfiles } from '@/hooks/useTenantProfiles';
+import { isJobFinished, useJob } from '@/hooks/useJob';
+import { ZONING_TYPES, PROFILE_KEY_PREFIX, getBusinessRequirement, getBusinessTypeOptions } from '@/lib/business-requirements';
 import PropertyCompare from '@/components/PropertyCompare';
+import TenantProfileEditor from '@/components/TenantProfileEditor';
+import { BatchAnalyzeView, TenantProfileInput } from '@/types';
 
 // Dynamically import MapResults to avoid SSR issues with Leaflet
 const MapResults = dynamic(() => import('@/components/MapResults'), {
@@ -141,6 +145,9 @@ export default function SearchPage() {
   const [progress, setProgress] = useState(0);
   const [results, setResults] = useState<SearchResults | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Batch-analyze job scoring the parcels found; results fill in as it runs
+  const [analysis, setAnalysis] = useState<{ jobId: string; totalParcels: number; searchArea: string } | null>(null);
+  const { job: analysisJob, error: analysisError } = useJob<BatchAnalyzeView>(analysis?.jobId ?? null);
   const [sortField, setSortField] = useState<SortField>('score');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
@@ -152,6 +159,10 @@ export default function SearchPage() {
   // Favorites hook
   const { favorites, isFavorite, toggleFavorite } = useSearchFavorites();
 
+  // Saved tenant profiles show up as business types; 'new' opens a blank editor
+  const { profiles, createProfile, updateProfile, deleteProfile } = useTenantProfiles();
+  const [editingProfile, setEditingProfile] = useState<string | 'new' | null>(null);
+
   // Load persisted results from sessionStorage on mount
   useEffect(() => {
     try {
@@ -226,7 +237,7 @@ export default function SearchPage() {
       return;
     }
 
-    const requirements = getBusinessRequirement(businessType);
+    const requirements = getBusinessRequirement(businessType, profiles);
     if (requirements) {
       setFilters(prev => ({
         ...prev,
@@ -239,7 +250,26 @@ export default function SearchPage() {
       }));
       setShowAdvancedFilters(true);
     }
-  }, []);
+  }, [profiles]);
+
+  const selectedRequirements = filters.businessType ? getBusinessRequirement(filters.businessType, profiles) : null;
+
+  const handleSaveProfile = useCallback(async (input: TenantProfileInput) => {
+    if (editingProfile && editingProfile !== 'new') {
+      await updateProfile(editingProfile, input);
+    } else {
+      const profile = await createProfile(input);
+      setFilters(prev => ({ ...prev, businessType: `${PROFILE_KEY_PREFIX}${profile.id}` }));
+    }
+    setEditingProfile(null);
+  }, [editingProfile, createProfile, updateProfile]);
+
+  const handleDeleteProfile = useCallback(async () => {
+    if (!editingProfile || editingProfile === 'new') return;
+    await deleteProfile(editingProfile);
+    setFilters(prev => prev.businessType === `${PROFILE_KEY_PREFIX}${editingProfile}` ? { ...prev, businessType: null } : prev);
+    setEditingProfile(null);
+  }, [editingProfile, deleteProfile]);
 
   // Handle zoning type toggle
   const handleZoningToggle = useCallback((zoningCode: string) => {
@@ -258,6 +288,12 @@ export default function SearchPage() {
       return;
     }
 
+    // A new search replaces one still being analyzed
+    if (analysis) {
+      fetch(`/api/jobs/${analysis.jobId}/cancel`, { method: 'POST' }).catch(() => {});
+      setAnalysis(null);
+    }
+
     setLoading(true);
     setError(null);
     setProgress(0);
@@ -300,7 +336,7 @@ export default function SearchPage() {
         return;
       }
 
-      // Step 2: Batch analyze parcels with demographics from search center
+      // Step 2: Queue batch analysis of the parcels with demographics from search center
       const analyzeResponse = await fetch('/api/search/batch-analyze', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -308,33 +344,53 @@ export default function SearchPage() {
           parcels: parcelsData.parcels,
           minScore: filters.minScore,
           searchCenter: filters.center, // Pass center for area demographics
+          tenantProfileId: selectedRequirements?.tenantProfileId,
         }),
       });
 
-      setProgress(80);
-
       if (!analyzeResponse.ok) {
         const data = await analyzeResponse.json();
         throw new Error(data.error || 'Failed to analyze parcels');
       }
 
-      const analysisData = await analyzeResponse.json();
-      setProgress(100);
-
-      setResults({
-        totalParcels: parcelsData.totalCount,
-        matchingParcels: analysisData.results.length,
-        results: analysisData.results,
-        searchArea: searchAreaLabel,
-        searchTime: analysisData.searchTime,
-      });
+      // Progress and results arrive over the job's event stream (see below)
+      const job = await analyzeResponse.json();
+      setAnalysis({ jobId: job.id, totalParcels: parcelsData.totalCount, searchArea: searchAreaLabel });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Search failed');
-    } finally {
       setLoading(false);
     }
   };
 
+  // Show parcels as the analysis job scores them; the final snapshot adds frontage and tenant profile fit
+  useEffect(() => {
+    if (!analysis) return;
+    if (analysisError) {
+      setError(analysisError);
+      setLoading(false);
+      setAnalysis(null);
+      return;
+    }
+    if (!analysisJob) return;
+
+    const { progress: jobProgress, data } = analysisJob;
+    const processed = jobProgress.completed + jobProgress.failed;
+    setProgress(30 + Math.round((70 * processed) / Math.max(jobProgress.total, 1)));
+    setResults({
+      totalParcels: analysis.totalParcels,
+      matchingParcels: data.results.length,
+      results: data.results,
+      searchArea: analysis.searchArea,
+      searchTime: data.searchTime,
+    });
+
+    if (isJobFinished(analysisJob)) {
+      if (analysisJob.status === 'failed') setError(analysisJob.error || 'Failed to analyze parcels');
+      setLoading(false);
+      setAnalysis(null);
+    }
+  }, [analysis, analysisJob, analysisError]);
+
   // Apply client-side filters
   const filteredResults = useMemo(() => {
     if (!results) return [];
@@ -352,6 +408,14 @@ export default function SearchPage() {
         return false;
       }
 
+      // Frontage and corner status are measured from parcel geometry; unmeasured parcels don't pass
+      if (filters.minRoadFrontage !== null && (property.frontageFeet === undefined || property.frontageFeet < filters.minRoadFrontage)) {
+        return false;
+      }
+      if (filters.cornerLotOnly && !property.isCornerLot) {
+        return false;
+      }
+
       if (filters.zoningTypes.length > 0 && property.zoning) {
         const propertyZoning = property.zoning.toUpperCase();
         const matchesZoning = filters.zoningTypes.some(z =>
@@ -360,16 +424,13 @@ export default function SearchPage() {
         if (!matchesZoning) return false;
       }
 
-      if (filters.businessType) {
-        const requirements = getBusinessRequirement(filters.businessType);
-        if (requirements && property.estimatedVPD !== undefined && property.estimatedVPD < requirements.minVPD) {
-          return false;
-        }
+      if (selectedRequirements && property.estimatedVPD !== undefined && property.estimatedVPD < selectedRequirements.minVPD) {
+        return false;
       }
 
       return true;
     });
-  }, [results, filters]);
+  }, [results, filters, selectedRequirements]);
 
   // Sort results
   const sortedResults = useMemo(() => {
@@ -447,7 +508,7 @@ export default function SearchPage() {
   const exportToCSV = useCallback(() => {
     if (!results) return;
 
-    const headers = ['Address', 'Parcel ID', 'Lot Size (sqft)', 'Lot Size (acres)', 'Feasibility Score', 'Traffic Score', 'Business Density', 'Zoning Score', 'Access Score', 'Estimated VPD', 'Zoning', 'Latitude', 'Longitude'];
+    const headers = ['Address', 'Parcel ID', 'Lot Size (sqft)', 'Lot Size (acres)', 'Feasibility Score', 'Traffic Score', 'Business Density', 'Zoning Score', 'Access Score', 'Estimated VPD', 'Frontage (ft)', 'Corner Lot', 'Zoning', 'Latitude', 'Longitude'];
     const rows = sortedResults.map(r => [
       `"${r.address}"`,
       r.parcelId,
@@ -459,6 +520,8 @@ export default function SearchPage() {
       r.factors.zoningScore.toFixed(1),
       r.factors.accessScore.toFixed(1),
       r.estimatedVPD || '',
+      r.frontageFeet ?? '',
+      r.isCornerLot === undefined ? '' : r.isCornerLot ? 'Yes' : 'No',
       r.zoning || '',
       r.coordinates.lat,
       r.coordinates.lng,
@@ -475,7 +538,7 @@ export default function SearchPage() {
   }, [results, sortedResults, filters.radiusMiles]);
 
   // Business type options
-  const businessTypeOptions = getBusinessTypeOptions();
+  const businessTypeOptions = getBusinessTypeOptions(profiles);
 
   return (
     <div className="max-w-7xl mx-auto px-6 py-8">
@@ -574,10 +637,33 @@ export default function SearchPage() {
                 className="w-full px-4 py-2 bg-[var(--bg-tertiary)] border border-[var(--border-color)] rounded-lg focus:outline-none focus:border-[var(--accent-cyan)]"
               >
                 <option value="">No preset</option>
-                {businessTypeOptions.map(opt => (
+                {businessTypeOptions.filter(opt => !opt.custom).map(opt => (
                   <option key={opt.value} value={opt.value}>{opt.label}</option>
                 ))}
+                {profiles.length > 0 && (
+                  <optgroup label="Custom Profiles">
+                    {businessTypeOptions.filter(opt => opt.custom).map(opt => (
+                      <option key={opt.value} value={opt.value}>{opt.label}</option>
+                    ))}
+                  </optgroup>
+                )}
               </select>
+              <div className="flex gap-3 mt-1 text-xs">
+                <button
+                  onClick={() => setEditingProfile('new')}
+                  className="text-[var(--accent-cyan)] hover:underline"
+                >
+                  + New profile
+                </button>
+                {selectedRequirements?.tenantProfileId && (
+                  <button
+                    onClick={() => setEditingProfile(selectedRequirements.tenantProfileId ?? null)}
+                    className="text-[var(--accent-cyan)] hover:underline"
+                  >
+                    Edit profile
+                  </button>
+                )}
+              </div>
             </div>
 
             {/* Search Button */}
@@ -620,6 +706,17 @@ export default function SearchPage() {
             </div>
           </div>
 
+          {/* Tenant Profile Editor */}
+          {editingProfile && (
+            <TenantProfileEditor
+              key={editingProfile}
+              profile={editingProfile === 'new' ? null : profiles.find(p => p.id === editingProfile)}
+              onSave={handleSaveProfile}
+              onDelete={editingProfile === 'new' ? undefined : handleDeleteProfile}
+              onClose={() => setEditingProfile(null)}
+            />
+          )}
+
           {/* Advanced Filters Toggle */}
           <button
             onClick={() => setShowAdvancedFilters(!showAdvancedFilters)}
@@ -759,9 +856,9 @@ export default function SearchPage() {
               <p className="text-xs text-[var(--text-muted)] mt-1 text-center">
                 {progress < 30
                   ? `Scanning ${filters.radiusMiles >= 1 ? 'grid cells in' : ''} ${Number.isInteger(filters.radiusMiles) ? filters.radiusMiles : filters.radiusMiles.toFixed(1)} mile radius...`
-                  : progress < 80
-                    ? 'Analyzing properties with real traffic data...'
-                    : 'Finalizing results...'}
+                  : analysisJob && analysisJob.status === 'running'
+                    ? `Analyzing properties with real traffic data... ${analysisJob.progress.completed + analysisJob.progress.failed} of ${analysisJob.progress.total}`
+                    : 'Waiting for analysis to start...'}
               </p>
               {filters.radiusMiles >= 1 && progress < 30 && (
                 <p className="text-xs text-[var(--text-muted)] mt-1 text-center opacity-70">
@@ -1052,8 +1149,33 @@ export default function SearchPage() {
                                         <span className="text-[var(--text-muted)]">Nearby Businesses:</span>
                                         <p className="font-medium">{property.nearbyBusinesses ?? 'N/A'}</p>
                                       </div>
+                                      <div>
+                                        <span className="text-[var(--text-muted)]">Frontage:</span>
+                                        <p className="font-medium">
+                                          {property.frontageFeet ? `${property.frontageFeet} ft${property.isCornerLot ? ' (corner)' : ''}` : 'N/A'}
+                                        </p>
+                                      </div>
+                                      <div>
+                                        <span className="text-[var(--text-muted)]">Depth : Frontage:</span>
+                                        <p className="font-medium">{property.depthToFrontageRatio?.toFixed(1) ?? 'N/A'}</p>
+                                      </div>
                                     </div>
 
+                                    {/* Fit against the selected tenant profile */}
+                                    {property.profileFit && (
+                                      <div
+                                        className={`mb-3 px-2 py-1.5 rounded text-xs ${property.profileFit.meetsRequirements ? 'bg-green-500/10 text-green-300' : 'bg-red-500/10 text-red-300'}`}
+                                        title={property.profileFit.notes.join('\n')}
+                                      >
+                                        <span className="font-medium">{property.profileFit.profileName} fit: {property.profileFit.score.toFixed(1)}/10</span>
+                                        {property.profileFit.coTenants?.excluded.length ? (
+                                          <span> · Near {property.profileFit.coTenants.excluded.join(', ')}</span>
+                                        ) : property.profileFit.coTenants?.preferred.length ? (
+                                          <span> · Near {property.profileFit.coTenants.preferred.join(', ')}</span>
+                                        ) : null}
+                                      </div>
+                                    )}
+
                                     {/* Score Breakdown - 7 factors */}
                                     <div className="grid grid-cols-7 gap-0.5 mb-3">
                                       {[
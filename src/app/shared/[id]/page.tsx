@@ -3,39 +3,54 @@
 import { useEffect, useState } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
-import { PropertyData } from '@/types';
+import dynamic from 'next/dynamic';
+import AnalysisReport from '@/components/AnalysisReport';
+import { SkeletonCard } from '@/components/ui/Skeleton';
+import { SharedSnapshot } from '@/types';
 
-interface SharedData {
-  address: string;
-  coordinates: { lat: number; lng: number };
-  score?: number;
-  timestamp: string;
-  fullData?: PropertyData;
-}
+const LeafletMap = dynamic(() => import('@/components/LeafletMap'), {
+  loading: () => <SkeletonCard />,
+  ssr: false
+});
+
+const DemographicsCharts = dynamic(() => import('@/components/charts/DemographicsCharts'), {
+  loading: () => <SkeletonCard />,
+  ssr: false
+});
+
+const TrafficCharts = dynamic(() => import('@/components/charts/TrafficCharts'), {
+  loading: () => <SkeletonCard />,
+  ssr: false
+});
+
+const RiskAssessment = dynamic(() => import('@/components/RiskAssessment'), {
+  loading: () => <SkeletonCard />,
+  ssr: false
+});
+
+const MarketComps = dynamic(() => import('@/components/MarketComps'), {
+  loading: () => <SkeletonCard />,
+  ssr: false
+});
 
 export default function SharedPage() {
   const params = useParams();
-  const [data, setData] = useState<SharedData | null>(null);
+  const [data, setData] = useState<SharedSnapshot | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    const loadSharedData = () => {
+    const loadSharedData = async () => {
       try {
         const id = params.id as string;
-        const decoded = JSON.parse(atob(decodeURIComponent(id))) as SharedData;
+        const response = await fetch(`/api/shares/${encodeURIComponent(id)}`);
+        const result = await response.json();
 
-        // Try to load full data from localStorage
-        const shareKey = `drone-sense-share-${id.slice(0, 20)}`;
-        const stored = localStorage.getItem(shareKey);
-
-        if (stored) {
-          const fullData = JSON.parse(stored);
-          setData(fullData);
-        } else {
-          // Just use the minimal data from URL
-          setData(decoded);
+        if (!response.ok) {
+          setError(result.error || 'Invalid or expired share link');
+          return;
         }
+        setData(result as SharedSnapshot);
       } catch (err) {
         console.error('Failed to load shared data:', err);
         setError('Invalid or expired share link');
@@ -113,11 +128,15 @@ export default function SharedPage() {
     );
   }
 
-  const fullData = data.fullData;
-  const analysis = fullData?.analysis;
+  const fullData = data.propertyData;
+  const analysis = fullData.analysis
+    ? { ...fullData.analysis, retailerMatches: fullData.analysis.retailerMatches || data.retailerMatches || undefined }
+    : null;
+  const parcel = fullData.selectedParcel;
+  const accessPoints = data.accessPoints || [];
 
   return (
-    <div className="container mx-auto px-4 py-8 max-w-4xl">
+    <div className="container mx-auto px-4 py-8 max-w-5xl">
       {/* Header */}
       <div className="mb-8">
         <div className="flex items-center gap-2 text-[var(--text-muted)] text-sm mb-4">
@@ -130,7 +149,8 @@ export default function SharedPage() {
           {data.address}
         </h1>
         <p className="text-[var(--text-muted)]">
-          Shared on {formatDate(data.timestamp)}
+          Shared on {formatDate(data.createdAt)}
+          {data.expiresAt && ` · Link expires ${formatDate(data.expiresAt)}`}
         </p>
       </div>
 
@@ -159,106 +179,140 @@ export default function SharedPage() {
         </div>
       )}
 
-      {/* Location Info */}
-      <div className="terminal-card mb-8">
-        <div className="terminal-header">
-          <div className="terminal-dot red"></div>
-          <div className="terminal-dot yellow"></div>
-          <div className="terminal-dot green"></div>
-          <span className="terminal-title">location_data.info</span>
-        </div>
-        <div className="terminal-body">
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <p className="text-[var(--text-muted)] text-sm">Latitude</p>
-              <p className="text-[var(--accent-green)] font-mono">
-                {data.coordinates.lat.toFixed(6)}
-              </p>
+      {/* Location & Parcel Map */}
+      {data.coordinates && (
+        <div className="terminal-card mb-8">
+          <div className="terminal-header">
+            <div className="terminal-dot red"></div>
+            <div className="terminal-dot yellow"></div>
+            <div className="terminal-dot green"></div>
+            <span className="terminal-title">location_data.info</span>
+          </div>
+          <div className="terminal-body space-y-4">
+            <div className="h-[350px] rounded-lg overflow-hidden">
+              <LeafletMap
+                coordinates={data.coordinates}
+                mapType="satellite"
+                parcelData={parcel ? { boundaries: parcel.boundaries, parcelInfo: parcel.parcelInfo, zoning: null } : null}
+                accessPoints={accessPoints}
+                pinLocation={data.coordinates}
+                interactiveMode={false}
+              />
             </div>
-            <div>
-              <p className="text-[var(--text-muted)] text-sm">Longitude</p>
-              <p className="text-[var(--accent-green)] font-mono">
-                {data.coordinates.lng.toFixed(6)}
-              </p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-[var(--text-muted)] text-sm">Latitude</p>
+                <p className="text-[var(--accent-green)] font-mono">
+                  {data.coordinates.lat.toFixed(6)}
+                </p>
+              </div>
+              <div>
+                <p className="text-[var(--text-muted)] text-sm">Longitude</p>
+                <p className="text-[var(--accent-green)] font-mono">
+                  {data.coordinates.lng.toFixed(6)}
+                </p>
+              </div>
+              {parcel?.parcelInfo?.acres != null && (
+                <div>
+                  <p className="text-[var(--text-muted)] text-sm">Lot Size</p>
+                  <p className="text-[var(--text-primary)] font-mono">{parcel.parcelInfo.acres.toFixed(2)} acres</p>
+                </div>
+              )}
+              {parcel?.parcelInfo?.zoning && (
+                <div>
+                  <p className="text-[var(--text-muted)] text-sm">Zoning</p>
+                  <p className="text-[var(--text-primary)] font-mono">{parcel.parcelInfo.zoning}</p>
+                </div>
+              )}
             </div>
           </div>
         </div>
-      </div>
+      )}
 
-      {/* Analysis Details (if full data available) */}
+      {/* Full Analysis Report */}
       {analysis && (
-        <>
-          {/* Key Findings */}
-          {analysis.keyFindings && analysis.keyFindings.length > 0 && (
-            <div className="terminal-card mb-8">
-              <div className="terminal-header">
-                <div className="terminal-dot red"></div>
-                <div className="terminal-dot yellow"></div>
-                <div className="terminal-dot green"></div>
-                <span className="terminal-title">key_findings.list</span>
-              </div>
-              <div className="terminal-body">
-                <ul className="space-y-2">
-                  {analysis.keyFindings.map((finding, idx) => (
-                    <li key={idx} className="flex items-start gap-2">
-                      <svg
-                        className="w-4 h-4 text-[var(--accent-cyan)] flex-shrink-0 mt-0.5"
-                        fill="currentColor"
-                        viewBox="0 0 20 20"
-                      >
-                        <path
-                          fillRule="evenodd"
-                          d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z"
-                          clipRule="evenodd"
-                        />
-                      </svg>
-                      <span className="text-[var(--text-secondary)]">{finding}</span>
-                    </li>
-                  ))}
-                </ul>
-              </div>
-            </div>
-          )}
+        <div className="terminal-card glow-cyan mb-8">
+          <div className="terminal-header">
+            <div className="terminal-dot red"></div>
+            <div className="terminal-dot yellow"></div>
+            <div className="terminal-dot green"></div>
+            <span className="terminal-title">analysis_report.output</span>
+          </div>
+          <div className="terminal-body">
+            <AnalysisReport
+              analysis={analysis}
+              address={data.address}
+              trafficData={fullData.trafficData}
+              demographicsData={fullData.demographicsData}
+              businesses={fullData.businesses}
+              environmentalRisk={fullData.environmentalRisk}
+              marketComps={fullData.marketComps}
+              accessPoints={accessPoints}
+              locationIntelligence={fullData.locationIntelligence}
+              parcelInfo={parcel?.parcelInfo}
+            />
+          </div>
+        </div>
+      )}
 
-          {/* Recommendations */}
-          {analysis.recommendations && analysis.recommendations.length > 0 && (
-            <div className="terminal-card mb-8">
-              <div className="terminal-header">
-                <div className="terminal-dot red"></div>
-                <div className="terminal-dot yellow"></div>
-                <div className="terminal-dot green"></div>
-                <span className="terminal-title">recommendations.list</span>
-              </div>
-              <div className="terminal-body">
-                <ul className="space-y-2">
-                  {analysis.recommendations.map((rec, idx) => (
-                    <li key={idx} className="flex items-start gap-2">
-                      <span className="text-[var(--accent-orange)]">{idx + 1}.</span>
-                      <span className="text-[var(--text-secondary)]">{rec}</span>
-                    </li>
-                  ))}
-                </ul>
-              </div>
-            </div>
-          )}
+      {/* Demographics */}
+      {fullData.demographicsData && (
+        <div className="terminal-card mb-8">
+          <div className="terminal-header">
+            <div className="terminal-dot red"></div>
+            <div className="terminal-dot yellow"></div>
+            <div className="terminal-dot green"></div>
+            <span className="terminal-title">demographics.module</span>
+          </div>
+          <div className="terminal-body">
+            <DemographicsCharts demographics={fullData.demographicsData} />
+          </div>
+        </div>
+      )}
 
-          {/* Business Recommendation */}
-          {analysis.businessRecommendation && (
-            <div className="terminal-card mb-8">
-              <div className="terminal-header">
-                <div className="terminal-dot red"></div>
-                <div className="terminal-dot yellow"></div>
-                <div className="terminal-dot green"></div>
-                <span className="terminal-title">ai_recommendation.summary</span>
-              </div>
-              <div className="terminal-body">
-                <p className="text-[var(--text-secondary)]">
-                  {analysis.businessRecommendation}
-                </p>
-              </div>
-            </div>
-          )}
-        </>
+      {/* Traffic */}
+      {fullData.trafficData && (
+        <div className="terminal-card mb-8">
+          <div className="terminal-header">
+            <div className="terminal-dot red"></div>
+            <div className="terminal-dot yellow"></div>
+            <div className="terminal-dot green"></div>
+            <span className="terminal-title">traffic.module</span>
+          </div>
+          <div className="terminal-body">
+            <TrafficCharts trafficData={fullData.trafficData} accessPoints={accessPoints} />
+          </div>
+        </div>
+      )}
+
+      {/* Environmental Risk */}
+      {data.coordinates && fullData.environmentalRisk && (
+        <div className="terminal-card mb-8">
+          <div className="terminal-header">
+            <div className="terminal-dot red"></div>
+            <div className="terminal-dot yellow"></div>
+            <div className="terminal-dot green"></div>
+            <span className="terminal-title">risk.module</span>
+          </div>
+          <div className="terminal-body">
+            <RiskAssessment coordinates={data.coordinates} environmentalRisk={fullData.environmentalRisk} />
+          </div>
+        </div>
+      )}
+
+      {/* Market Comps */}
+      {data.coordinates && fullData.marketComps && fullData.marketComps.length > 0 && (
+        <div className="terminal-card mb-8">
+          <div className="terminal-header">
+            <div className="terminal-dot red"></div>
+            <div className="terminal-dot yellow"></div>
+            <div className="terminal-dot green"></div>
+            <span className="terminal-title">market_comps.module</span>
+          </div>
+          <div className="terminal-body">
+            <MarketComps coordinates={data.coordinates} comps={fullData.marketComps} />
+          </div>
+        </div>
       )}
 
       {/* CTA */}
@@ -267,7 +321,9 @@ export default function SharedPage() {
           Want to run your own site analysis?
         </p>
         <Link
-          href={`/?address=${encodeURIComponent(data.address)}&lat=${data.coordinates.lat}&lng=${data.coordinates.lng}`}
+          href={data.coordinates
+            ? `/?address=${encodeURIComponent(data.address)}&lat=${data.coordinates.lat}&lng=${data.coordinates.lng}`
+            : '/'}
           className="btn-primary inline-flex items-center gap-2"
         >
           <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
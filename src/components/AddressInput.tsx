@@ -2,6 +2,16 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { useSearchHistory, SearchHistoryItem } from '@/hooks/useSearchHistory';
+import { GeocodeCandidate, GeocodeMatchQuality, GeocodeResult } from '@/types';
+
+const SNAP_TO_PARCEL_KEY = 'drone-sense-snap-to-parcel';
+
+const QUALITY_LABELS: Record<GeocodeMatchQuality, string> = {
+  rooftop: 'Exact address',
+  interpolated: 'Street range estimate',
+  street: 'Street only',
+  locality: 'City/ZIP only',
+};
 
 interface AddressInputProps {
   address: string;
@@ -18,12 +28,27 @@ export default function AddressInput({
 }: AddressInputProps) {
   const [loading, setLoading] = useState(false);
   const [showDropdown, setShowDropdown] = useState(false);
+  // Shown instead of placing the pin when the geocoder isn't sure which match is right
+  const [candidates, setCandidates] = useState<GeocodeCandidate[] | null>(null);
+  const [snapToParcel, setSnapToParcel] = useState(true);
+  // The match behind the current pin; stale once the pin is moved on the map
+  const [placement, setPlacement] = useState<{ candidate: GeocodeCandidate; pin: { lat: number; lng: number }; note: string | null } | null>(null);
   const { getRecentSearches, clearHistory } = useSearchHistory();
   const inputRef = useRef<HTMLInputElement>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   const recentSearches = getRecentSearches(5);
 
+  useEffect(() => {
+    const stored = localStorage.getItem(SNAP_TO_PARCEL_KEY);
+    if (stored !== null) setSnapToParcel(stored === 'true');
+  }, []);
+
+  const toggleSnapToParcel = (enabled: boolean) => {
+    setSnapToParcel(enabled);
+    localStorage.setItem(SNAP_TO_PARCEL_KEY, String(enabled));
+  };
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
@@ -41,11 +66,46 @@ export default function AddressInput({
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  // Moves the pin onto the parcel the candidate falls in, so traffic and access analysis start from the lot
+  const placeCandidate = async (candidate: GeocodeCandidate) => {
+    setCandidates(null);
+    const place = (pin: { lat: number; lng: number }, note: string | null) => {
+      setCoordinates(pin);
+      setPlacement({ candidate, pin, note });
+    };
+
+    if (snapToParcel) {
+      try {
+        const response = await fetch('/api/parcel', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ coordinates: { lat: candidate.lat, lng: candidate.lng }, address }),
+        });
+        const data = await response.json();
+        if (response.ok && data.centroid) {
+          place(
+            { lat: data.centroid.lat, lng: data.centroid.lng },
+            `Snapped to parcel centroid, ${data.centroid.distanceMeters} m from the geocoded point`
+          );
+          return;
+        }
+        place({ lat: candidate.lat, lng: candidate.lng }, 'No parcel boundary found here; using the geocoded point');
+      } catch (error) {
+        console.error('Parcel snap error:', error);
+        place({ lat: candidate.lat, lng: candidate.lng }, "Couldn't load the parcel; using the geocoded point");
+      }
+      return;
+    }
+
+    place({ lat: candidate.lat, lng: candidate.lng }, null);
+  };
+
   const handleGeocode = async () => {
     if (!address.trim()) return;
 
     setLoading(true);
     setShowDropdown(false);
+    setCandidates(null);
     try {
       const response = await fetch('/api/geocode', {
         method: 'POST',
@@ -59,10 +119,12 @@ export default function AddressInput({
         throw new Error(data.error || 'Address not found');
       }
 
-      setCoordinates({
-        lat: data.lat,
-        lng: data.lng,
-      });
+      const result = data as GeocodeResult;
+      if (result.ambiguous) {
+        setCandidates(result.candidates);
+      } else {
+        await placeCandidate(result.candidates[0]);
+      }
     } catch (error) {
       console.error('Geocoding error:', error);
       const errorMessage = error instanceof Error && error.message === 'Address not found'
@@ -78,6 +140,8 @@ export default function AddressInput({
     setAddress(item.address);
     setCoordinates(item.coordinates);
     setShowDropdown(false);
+    setCandidates(null);
+    setPlacement(null);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -217,6 +281,54 @@ export default function AddressInput({
           </div>
         </div>
 
+        <label className="flex items-center gap-2 text-xs text-[var(--text-muted)] cursor-pointer">
+          <input
+            type="checkbox"
+            checked={snapToParcel}
+            onChange={(e) => toggleSnapToParcel(e.target.checked)}
+            className="accent-[var(--accent-cyan)]"
+          />
+          Snap pin to parcel centroid
+        </label>
+
+        {/* Candidate Picker */}
+        {candidates && (
+          <div className="p-3 bg-[var(--bg-tertiary)] rounded-lg border border-[var(--accent-orange)]">
+            <p className="text-sm text-[var(--text-primary)] mb-1">Which location did you mean?</p>
+            <p className="text-xs text-[var(--text-muted)] mb-3">
+              {candidates.length > 1
+                ? 'The geocoders disagree on where this address is. Pick the right match, or drop a pin on the map.'
+                : 'Only a low-confidence match was found. Confirm it, or drop a pin on the map.'}
+            </p>
+            <ul className="space-y-2">
+              {candidates.map((candidate, i) => (
+                <li key={`${candidate.lat},${candidate.lng}`}>
+                  <button
+                    onClick={() => placeCandidate(candidate)}
+                    className="w-full p-2 text-left bg-[var(--bg-secondary)] rounded-lg hover:border-[var(--accent-cyan)] border border-[var(--border-color)] transition-colors"
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="text-sm text-[var(--text-primary)]">
+                        {i === 0 && <span className="tag tag-cyan mr-2">Best</span>}
+                        {candidate.formattedAddress}
+                      </p>
+                      <span className="text-xs font-mono text-[var(--text-muted)] whitespace-nowrap">
+                        {Math.round(candidate.confidence * 100)}%
+                      </span>
+                    </div>
+                    <p className="text-xs text-[var(--text-muted)] mt-1">
+                      {QUALITY_LABELS[candidate.quality]} · {candidate.sources.join(', ')} · {candidate.lat.toFixed(5)}, {candidate.lng.toFixed(5)}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <button onClick={() => setCandidates(null)} className="mt-2 text-xs text-[var(--text-muted)] hover:text-[var(--text-secondary)]">
+              Cancel
+            </button>
+          </div>
+        )}
+
         {/* Coordinates Display */}
         {coordinates && (
           <div className="flex items-center gap-4 text-sm">
@@ -231,7 +343,14 @@ export default function AddressInput({
           </div>
         )}
 
-        {!coordinates && address && (
+        {coordinates && placement && placement.pin.lat === coordinates.lat && placement.pin.lng === coordinates.lng && (
+          <p className="text-xs text-[var(--text-muted)]">
+            {QUALITY_LABELS[placement.candidate.quality]} ({Math.round(placement.candidate.confidence * 100)}% confidence, {placement.candidate.sources.join(', ')})
+            {placement.note && <span className="block mt-1">{placement.note}</span>}
+          </p>
+        )}
+
+        {!coordinates && address && !candidates && (
           <div className="text-center py-8 border border-dashed border-[var(--border-color)] rounded-lg">
             <p className="text-[var(--text-muted)] text-sm">
               Click &quot;Locate&quot; to find coordinates
@@ -3,6 +3,7 @@
 import { useState, useMemo } from 'react';
 import { AnalysisResult, TrafficInfo, ExtendedDemographics, Business, EnvironmentalRisk, MarketComp, FeasibilityScore, AccessPoint, LocationIntelligence } from '@/types';
 import DataSourceTooltip, { DATA_SOURCES } from '@/components/ui/DataSourceTooltip';
+import ScoreAuditPanel from '@/components/ScoreAuditPanel';
 import { calculateFeasibilityScore, getScoreLabelAndIcon } from '@/utils/feasibilityScore';
 
 interface ParcelInfo {
@@ -53,13 +54,15 @@ export default function AnalysisReport({
         marketComps || null,
         accessPoints,
         locationIntelligence,
-        parcelInfo
+        parcelInfo,
+        // A saved report re-scores with the model it was saved under
+        { modelVersion: analysis.feasibilityScore?.modelVersion, tenantCategory: analysis.feasibilityScore?.tenantCategory }
       );
     } catch (err) {
       console.error('Error calculating live feasibility score:', err);
       return null;
     }
-  }, [trafficData, demographicsData, businesses, environmentalRisk, marketComps, accessPoints, locationIntelligence, parcelInfo]);
+  }, [trafficData, demographicsData, businesses, environmentalRisk, marketComps, accessPoints, locationIntelligence, parcelInfo, analysis.feasibilityScore?.modelVersion, analysis.feasibilityScore?.tenantCategory]);
 
   // Use live score if available, otherwise use analysis score
   const feasibilityScore: FeasibilityScore | undefined = liveFeasibilityScore || analysis.feasibilityScore;
@@ -111,7 +114,7 @@ export default function AnalysisReport({
     // Create traffic/access section from access points
     let trafficSection = '';
     if (accessPoints && accessPoints.length > 0) {
-      const uniqueRoads = new Map<string, { vpd: number; source: string; type: string }>();
+      const uniqueRoads = new Map<string, { vpd: number; source: string; agency?: string; type: string }>();
       accessPoints.forEach(ap => {
         const existing = uniqueRoads.get(ap.roadName);
         const apVpd = ap.vpd || ap.estimatedVpd || 0;
@@ -119,6 +122,7 @@ export default function AnalysisReport({
           uniqueRoads.set(ap.roadName, {
             vpd: apVpd,
             source: ap.vpdSource || 'estimated',
+            agency: ap.vpdAgency,
             type: ap.roadType || 'road'
           });
         }
@@ -135,14 +139,14 @@ export default function AnalysisReport({
       trafficSection = `
       TRAFFIC & ACCESS POINTS
       -----------------------
-      Primary Road: ${primaryRoad?.roadName || 'Unknown'} - ${primaryVpd.toLocaleString()} VPD (${primaryRoad?.vpdSource === 'fdot' ? 'FDOT Official' : 'Estimated'})
+      Primary Road: ${primaryRoad?.roadName || 'Unknown'} - ${primaryVpd.toLocaleString()} VPD (${primaryRoad?.vpdSource === 'official' ? `${primaryRoad.vpdAgency || 'DOT'} Official` : 'Estimated'})
       Total VPD Exposure: ${totalVpd.toLocaleString()}
       Access Points: ${accessPoints.length} from ${uniqueRoads.size} road(s)
 
       Road Details:
       ${Array.from(uniqueRoads.entries())
         .sort((a, b) => b[1].vpd - a[1].vpd)
-        .map(([name, data]) => `  - ${name} (${data.type}): ${data.vpd.toLocaleString()} VPD [${data.source === 'fdot' ? 'FDOT' : 'Est.'}]`)
+        .map(([name, data]) => `  - ${name} (${data.type}): ${data.vpd.toLocaleString()} VPD [${data.source === 'official' ? data.agency || 'DOT' : 'Est.'}]`)
         .join('\n')}
       `;
     }
@@ -431,6 +435,8 @@ export default function AnalysisReport({
             <p><span className="text-emerald-400">Economic:</span> {feasibilityScore.details.economic || 'No data'}</p>
             <p><span className="text-amber-400">Site:</span> {feasibilityScore.details.site || 'No data'}</p>
           </div>
+
+          <ScoreAuditPanel feasibilityScore={feasibilityScore} />
         </div>
       )}
 
@@ -461,7 +467,7 @@ export default function AnalysisReport({
                   <p className="font-semibold text-[var(--accent-cyan)]">{primaryRoad?.roadName || 'Unknown'}</p>
                   <p className="text-2xl font-bold">{primaryVpd.toLocaleString()}</p>
                   <p className="text-xs text-[var(--text-muted)]">
-                    VPD {primaryRoad?.vpdSource === 'fdot' ? '(FDOT Official)' : '(Estimated)'}
+                    VPD {primaryRoad?.vpdSource === 'official' ? `(${primaryRoad.vpdAgency || 'DOT'} Official)` : '(Estimated)'}
                   </p>
                 </div>
               );
@@ -509,11 +515,12 @@ export default function AnalysisReport({
                   <th className="text-left py-2 text-[var(--text-muted)] font-medium">Type</th>
                   <th className="text-right py-2 text-[var(--text-muted)] font-medium">VPD</th>
                   <th className="text-left py-2 text-[var(--text-muted)] font-medium pl-3">Source</th>
+                  <th className="text-left py-2 text-[var(--text-muted)] font-medium pl-3">Access</th>
                 </tr>
               </thead>
               <tbody>
                 {(() => {
-                  const uniqueRoads = new Map<string, { vpd: number; source: string; type: string }>();
+                  const uniqueRoads = new Map<string, { vpd: number; source: string; type: string; access?: AccessPoint }>();
                   accessPoints.forEach(ap => {
                     const existing = uniqueRoads.get(ap.roadName);
                     const apVpd = ap.vpd || ap.estimatedVpd || 0;
@@ -521,7 +528,8 @@ export default function AnalysisReport({
                       uniqueRoads.set(ap.roadName, {
                         vpd: apVpd,
                         source: ap.vpdSource || 'estimated',
-                        type: ap.roadType || 'road'
+                        type: ap.roadType || 'road',
+                        access: ap
                       });
                     }
                   });
@@ -534,12 +542,23 @@ export default function AnalysisReport({
                         <td className="py-2 text-[var(--text-muted)] capitalize">{data.type.replace('_', ' ')}</td>
                         <td className="py-2 text-right font-semibold">{data.vpd.toLocaleString()}</td>
                         <td className="py-2 pl-3">
-                          {data.source === 'fdot' ? (
-                            <span className="px-2 py-0.5 bg-green-500/20 text-green-400 text-xs rounded-full">FDOT</span>
+                          {data.source === 'official' ? (
+                            <span className="px-2 py-0.5 bg-green-500/20 text-green-400 text-xs rounded-full">{data.access?.vpdAgency || 'DOT'}</span>
                           ) : (
                             <span className="px-2 py-0.5 bg-yellow-500/20 text-yellow-400 text-xs rounded-full">Est.</span>
                           )}
                         </td>
+                        <td className="py-2 pl-3" title={data.access?.accessReason}>
+                          {data.access?.accessType === 'full' ? (
+                            <span className="px-2 py-0.5 bg-green-500/20 text-green-400 text-xs rounded-full">Full</span>
+                          ) : data.access?.accessType === 'right-in-right-out' ? (
+                            <span className="px-2 py-0.5 bg-yellow-500/20 text-yellow-400 text-xs rounded-full">RI/RO</span>
+                          ) : data.access?.accessType === 'limited' ? (
+                            <span className="px-2 py-0.5 bg-red-500/20 text-red-400 text-xs rounded-full">Limited</span>
+                          ) : (
+                            <span className="text-xs text-[var(--text-muted)]">-</span>
+                          )}
+                        </td>
                       </tr>
                     ));
                 })()}
@@ -1019,6 +1038,38 @@ export default function AnalysisReport({
                   </div>
                 </div>
 
+                {/* Co-Tenancy */}
+                {retailer.coTenancyReport && (
+                  <div className="mb-3 p-2 rounded bg-[var(--bg-primary)]/50 text-xs space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">Co-Tenancy</span>
+                      <span className={`px-2 py-0.5 rounded-full ${
+                        retailer.coTenancyReport.cannibalization.risk === 'high' ? 'bg-red-500/20 text-red-300' :
+                        retailer.coTenancyReport.cannibalization.risk === 'moderate' ? 'bg-yellow-500/20 text-yellow-300' :
+                        'bg-green-500/20 text-green-300'
+                      }`}>
+                        {retailer.coTenancyReport.cannibalization.risk} cannibalization
+                      </span>
+                    </div>
+                    <p className="text-[var(--text-muted)]">{retailer.coTenancyReport.cannibalization.note}</p>
+                    {retailer.coTenancyReport.directCompetitors.length > 0 && (
+                      <p>
+                        <span className="text-red-300">Competitors:</span>{' '}
+                        {retailer.coTenancyReport.directCompetitors.slice(0, 4).map(c => `${c.brand ?? c.name} (${c.distance})`).join(', ')}
+                      </p>
+                    )}
+                    {retailer.coTenancyReport.complementaryAnchors.length > 0 && (
+                      <p>
+                        <span className="text-green-300">Anchors:</span>{' '}
+                        {retailer.coTenancyReport.complementaryAnchors.slice(0, 3).map(a => `${a.brand ?? a.name} (${a.distance})`).join(', ')}
+                        <span className="text-[var(--text-muted)]">
+                          {' - '}{[...new Set(retailer.coTenancyReport.complementaryAnchors.slice(0, 3).map(a => a.role))].join('; ')}
+                        </span>
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 {/* Expansion & Franchise Info */}
                 <div className="flex flex-wrap gap-2 mb-2">
                   {retailer.activelyExpanding && (
@@ -186,6 +186,9 @@ export default function CompsMap({ coordinates, comps }: CompsMapProps) {
                   >
                     {comp.assetClass || 'Commercial'}
                   </span>
+                  <span className="text-xs text-gray-500">
+                    {comp.verification === 'verified' ? 'Recorded sale' : 'Estimate'}
+                  </span>
                 </div>
                 <p className="font-medium text-gray-800">{comp.address}</p>
                 <div className="mt-2 space-y-1 text-xs text-gray-600">
@@ -38,13 +38,18 @@ interface FinancialOutputs {
 
 export default function FinancialCalculator({ marketComps, demographicsData }: FinancialCalculatorProps) {
   // Initialize with market-based estimates
+  // Recorded sales drive the default price; regional estimates are only a fallback
+  const verifiedComps = useMemo(() => (marketComps || []).filter(c => c.verification === 'verified'), [marketComps]);
+  const priceBasis = verifiedComps.length > 0 ? 'verified' : marketComps && marketComps.length > 0 ? 'estimated' : 'default';
+
   const estimatedPrice = useMemo(() => {
-    if (marketComps && marketComps.length > 0) {
-      const avgPrice = marketComps.reduce((sum, c) => sum + c.salePrice, 0) / marketComps.length;
+    const basisComps = verifiedComps.length > 0 ? verifiedComps : marketComps || [];
+    if (basisComps.length > 0) {
+      const avgPrice = basisComps.reduce((sum, c) => sum + c.salePrice, 0) / basisComps.length;
       return Math.round(avgPrice / 10000) * 10000;
     }
     return 500000;
-  }, [marketComps]);
+  }, [marketComps, verifiedComps]);
 
   const [inputs, setInputs] = useState<FinancialInputs>({
     purchasePrice: estimatedPrice,
@@ -203,6 +208,13 @@ export default function FinancialCalculator({ marketComps, demographicsData }: F
               onChange={(e) => handleInputChange('purchasePrice', e.target.value)}
               className="financial-input"
             />
+            <p className="text-[10px] text-[var(--text-muted)] mt-1">
+              {priceBasis === 'verified'
+                ? `Avg. of ${verifiedComps.length} recorded sale${verifiedComps.length === 1 ? '' : 's'}`
+                : priceBasis === 'estimated'
+                  ? 'From regional estimates (no recorded sales)'
+                  : 'Default placeholder'}
+            </p>
           </div>
           <div>
             <label className="block text-xs text-[var(--text-muted)] mb-1">Down Payment %</label>
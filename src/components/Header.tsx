@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import ThemeToggle from './ThemeToggle';
+import ProjectSwitcher from './ProjectSwitcher';
 
 export default function Header() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -42,6 +43,11 @@ export default function Header() {
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
       </svg>
     )},
+    { href: '/bulk-import', label: 'Bulk Import', icon: (
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+      </svg>
+    )},
   ];
 
   return (
@@ -80,6 +86,7 @@ export default function Header() {
               </Link>
             ))}
             <div className="flex items-center gap-3 pl-4 border-l border-[var(--border-color)]">
+              <ProjectSwitcher />
               <ThemeToggle />
               <div className="flex items-center gap-2">
                 <div className="status-dot active"></div>
@@ -124,6 +131,9 @@ export default function Header() {
             </svg>
           </button>
         </div>
+        <div className="px-4 pt-4">
+          <ProjectSwitcher />
+        </div>
         <nav className="p-4 space-y-2">
           {navLinks.map((link) => (
             <Link
@@ -4,7 +4,7 @@ import { useEffect, useRef, useState, MutableRefObject } from 'react';
 import { MapContainer, TileLayer, Polygon, Popup, Tooltip, Marker, useMap, useMapEvents } from 'react-leaflet';
 import { LatLngExpression, Icon, DivIcon } from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import { Business as BaseBusiness, AccessPoint } from '@/types';
+import { Business as BaseBusiness, AccessPoint, DriveTimeArea, SiteCapacity } from '@/types';
 import { getZoningColor, CATEGORY_COLORS } from '@/constants/zoning';
 
 export interface NearbyParcel {
@@ -70,6 +70,37 @@ interface LeafletMapProps {
   pinLocation?: { lat: number; lng: number } | null;
   interactiveMode?: boolean;
   showHeatmap?: boolean;
+  tradeAreas?: DriveTimeArea[];
+  siteCapacity?: SiteCapacity | null;
+}
+
+// Outline colors for drive-time areas, innermost first
+const TRADE_AREA_COLORS = ['#22c55e', '#eab308', '#f97316', '#ef4444'];
+
+// GeoJSON [lng, lat] rings -> Leaflet [lat, lng] positions (one entry per polygon part)
+function tradeAreaPositions(area: DriveTimeArea): [number, number][][][] {
+  const polygons = area.polygon.type === 'Polygon' ? [area.polygon.coordinates] : area.polygon.coordinates;
+  return polygons.map(rings => rings.map(ring => ring.map(([lng, lat]) => [lat, lng] as [number, number])));
+}
+
+// Zoom out to the largest drive-time area when a new set is shown
+function FitToTradeAreas({ tradeAreas }: { tradeAreas?: DriveTimeArea[] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!tradeAreas || tradeAreas.length === 0) return;
+    const outer = tradeAreaPositions(tradeAreas[tradeAreas.length - 1]).flat(2);
+    if (outer.length === 0) return;
+
+    const lats = outer.map(c => c[0]);
+    const lngs = outer.map(c => c[1]);
+    map.fitBounds([
+      [Math.min(...lats), Math.min(...lngs)],
+      [Math.max(...lats), Math.max(...lngs)],
+    ], { padding: [20, 20] });
+  }, [tradeAreas, map]);
+
+  return null;
 }
 
 // Heatmap layer component
@@ -315,6 +346,8 @@ export default function LeafletMap({
   pinLocation,
   interactiveMode = false,
   showHeatmap = false,
+  tradeAreas,
+  siteCapacity,
 }: LeafletMapProps) {
   const [pinIcon, setPinIcon] = useState<Icon | DivIcon | null>(null);
   const [accessPointIcon, setAccessPointIcon] = useState<DivIcon | null>(null);
@@ -425,6 +458,25 @@ export default function LeafletMap({
         <HeatmapLayer coordinates={coordinates} businesses={businesses} />
       )}
 
+      {/* Drive-time trade areas, largest first so smaller areas draw on top */}
+      {tradeAreas && [...tradeAreas].reverse().map((area) => (
+        <Polygon
+          key={`trade-area-${area.minutes}`}
+          positions={tradeAreaPositions(area)}
+          pathOptions={{
+            color: TRADE_AREA_COLORS[tradeAreas.indexOf(area) % TRADE_AREA_COLORS.length],
+            weight: 2,
+            fillOpacity: 0.08,
+            dashArray: '6 4',
+          }}
+        >
+          <Tooltip sticky>
+            {area.minutes}-minute drive ({area.areaSqMiles} sq mi)
+          </Tooltip>
+        </Polygon>
+      ))}
+      <FitToTradeAreas tradeAreas={tradeAreas} />
+
       {/* Map event handler for bounds changes and clicks */}
       <MapEventHandler
         onBoundsChange={onBoundsChange}
@@ -561,6 +613,29 @@ export default function LeafletMap({
         })
       )}
 
+      {/* Wetland and flood areas removed from the site, then the buildable envelope inside the setbacks */}
+      {siteCapacity?.constraints.map((constraint, index) => (
+        <Polygon
+          key={`constraint-${index}`}
+          positions={constraint.polygons}
+          pathOptions={{ color: constraint.source === 'flood' ? '#3b82f6' : '#14b8a6', weight: 1, fillOpacity: 0.3 }}
+        >
+          <Tooltip sticky>
+            {constraint.source === 'flood' ? `Flood zone ${constraint.label}` : `Wetland: ${constraint.label}`}
+          </Tooltip>
+        </Polygon>
+      ))}
+      {siteCapacity && siteCapacity.envelope.length > 0 && (
+        <Polygon
+          positions={siteCapacity.envelope}
+          pathOptions={{ color: '#22c55e', weight: 2, fillOpacity: 0.15, dashArray: '4 4' }}
+        >
+          <Tooltip sticky>
+            Buildable: {siteCapacity.buildableSqFt.toLocaleString()} sq ft • Max footprint {siteCapacity.maxBuildingFootprintSqFt.toLocaleString()} SF with {siteCapacity.maxParkingStalls} stalls
+          </Tooltip>
+        </Polygon>
+      )}
+
       {/* Access Point Markers */}
       {accessPoints && accessPoints.length > 0 && accessPointIcon && accessPoints.map((point, index) => (
         <Marker
@@ -579,6 +654,12 @@ export default function LeafletMap({
               <strong>Access Point</strong>
               <p className="mt-1">Road: {point.roadName}</p>
               {point.roadType && <p>Type: {point.roadType}</p>}
+              {point.accessType && (
+                <p>
+                  Access: {point.accessType === 'full' ? 'Full' : point.accessType === 'right-in-right-out' ? 'Right-in/right-out' : 'Limited'}
+                </p>
+              )}
+              {point.accessReason && <p className="text-xs text-gray-500">{point.accessReason}</p>}
               <p className="text-xs text-gray-500 mt-1">
                 {point.coordinates[0].toFixed(6)}, {point.coordinates[1].toFixed(6)}
               </p>
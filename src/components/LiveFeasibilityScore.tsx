@@ -3,6 +3,7 @@
 import { useMemo } from 'react';
 import { TrafficInfo, ExtendedDemographics, Business, EnvironmentalRisk, MarketComp, AccessPoint, LocationIntelligence } from '@/types';
 import { calculateFeasibilityScore, getScoreColor, getRatingColor, getScoreLabelAndIcon } from '@/utils/feasibilityScore';
+import { CURRENT_SCORING_MODEL_VERSION, resolveScoringModel } from '@/lib/scoring';
 
 interface ParcelInfo {
   acres?: number;
@@ -71,6 +72,7 @@ export default function LiveFeasibilityScore({
           site: 'Error calculating',
         },
         rating: 'Poor' as const,
+        modelVersion: CURRENT_SCORING_MODEL_VERSION,
       };
     }
   }, [trafficData, demographicsData, businesses, environmentalRisk, marketComps, accessPoints, locationIntelligence, parcelInfo]);
@@ -93,15 +95,19 @@ export default function LiveFeasibilityScore({
 
   if (!isVisible) return null;
 
+  const { weights } = resolveScoringModel({ modelVersion: feasibilityScore.modelVersion });
+  const totalWeight = Object.values(weights).reduce((sum, w) => sum + w, 0);
+  const weightLabel = (weight: number) => `${Math.round(weight / totalWeight * 100)}%`;
+
   const scoreBreakdown = [
-    { key: 'traffic', label: 'Traffic', score: feasibilityScore.breakdown.trafficScore, weight: '20%', available: dataSources.traffic },
-    { key: 'demographics', label: 'Demographics', score: feasibilityScore.breakdown.demographicsScore, weight: '15%', available: dataSources.demographics },
-    { key: 'economic', label: 'Economic', score: feasibilityScore.breakdown.economicScore, weight: '15%', available: dataSources.economic },
-    { key: 'competition', label: 'Competition', score: feasibilityScore.breakdown.competitionScore, weight: '10%', available: dataSources.competition },
-    { key: 'access', label: 'Access', score: feasibilityScore.breakdown.accessScore, weight: '10%', available: dataSources.traffic },
-    { key: 'site', label: 'Site', score: feasibilityScore.breakdown.siteScore, weight: '10%', available: dataSources.site },
-    { key: 'environmental', label: 'Environmental', score: feasibilityScore.breakdown.environmentalScore, weight: '10%', available: dataSources.environmental },
-    { key: 'market', label: 'Market', score: feasibilityScore.breakdown.marketScore, weight: '10%', available: dataSources.market },
+    { key: 'traffic', label: 'Traffic', score: feasibilityScore.breakdown.trafficScore, weight: weightLabel(weights.traffic), available: dataSources.traffic },
+    { key: 'demographics', label: 'Demographics', score: feasibilityScore.breakdown.demographicsScore, weight: weightLabel(weights.demographics), available: dataSources.demographics },
+    { key: 'economic', label: 'Economic', score: feasibilityScore.breakdown.economicScore, weight: weightLabel(weights.economic), available: dataSources.economic },
+    { key: 'competition', label: 'Competition', score: feasibilityScore.breakdown.competitionScore, weight: weightLabel(weights.competition), available: dataSources.competition },
+    { key: 'access', label: 'Access', score: feasibilityScore.breakdown.accessScore, weight: weightLabel(weights.access), available: dataSources.traffic },
+    { key: 'site', label: 'Site', score: feasibilityScore.breakdown.siteScore, weight: weightLabel(weights.site), available: dataSources.site },
+    { key: 'environmental', label: 'Environmental', score: feasibilityScore.breakdown.environmentalScore, weight: weightLabel(weights.environmental), available: dataSources.environmental },
+    { key: 'market', label: 'Market', score: feasibilityScore.breakdown.marketScore, weight: weightLabel(weights.market), available: dataSources.market },
   ];
 
   return (
@@ -110,7 +116,7 @@ export default function LiveFeasibilityScore({
         <div>
           <h3 className="font-semibold text-[var(--text-primary)]">Live Feasibility Score</h3>
           <p className="text-xs text-[var(--text-muted)]">
-            {availableCount}/{totalSources} data sources loaded
+            {availableCount}/{totalSources} data sources loaded - scoring model v{feasibilityScore.modelVersion}
           </p>
         </div>
 
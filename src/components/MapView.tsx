@@ -2,7 +2,7 @@
 
 import { useEffect, useState, useMemo, useCallback, useRef } from 'react';
 import dynamic from 'next/dynamic';
-import { EnvironmentalRisk, SelectedParcel } from '@/types';
+import { DriveTimeArea, EnvironmentalRisk, FrontageAnalysis, SelectedParcel, SiteCapacity } from '@/types';
 import { NearbyParcel, AccessPoint } from './LeafletMap';
 import { getZoningColor, CATEGORY_COLORS } from '@/constants/zoning';
 
@@ -18,6 +18,7 @@ interface MapViewProps {
   onCoordinatesChange?: (coords: { lat: number; lng: number }) => void;
   onAddressChange?: (address: string) => void;
   onAccessPointsChange?: (accessPoints: AccessPoint[]) => void;
+  onFrontageChange?: (frontage: FrontageAnalysis | null) => void;
   onParcelDataChange?: (parcelData: ParcelData | null) => void;
   interactiveMode?: boolean;
 }
@@ -104,6 +105,7 @@ export default function MapView({
   onCoordinatesChange,
   onAddressChange,
   onAccessPointsChange,
+  onFrontageChange,
   onParcelDataChange,
   interactiveMode = true,
 }: MapViewProps) {
@@ -119,6 +121,12 @@ export default function MapView({
   const [suggestedParcelAPN, setSuggestedParcelAPN] = useState<string | null>(null);
   const [parcelSource, setParcelSource] = useState<string | null>(null);
   const [pinLocation, setPinLocation] = useState<{ lat: number; lng: number } | null>(null);
+  const [showDriveTime, setShowDriveTime] = useState(false);
+  const [tradeAreas, setTradeAreas] = useState<DriveTimeArea[]>([]);
+  const [loadingTradeAreas, setLoadingTradeAreas] = useState(false);
+  const [showEnvelope, setShowEnvelope] = useState(false);
+  const [siteCapacity, setSiteCapacity] = useState<SiteCapacity | null>(null);
+  const [loadingEnvelope, setLoadingEnvelope] = useState(false);
   const lastBoundsRef = useRef<MapBounds | null>(null);
 
   // Sync pin location with coordinates
@@ -189,6 +197,71 @@ export default function MapView({
     }
   }, [onCoordinatesChange, onAddressChange, onParcelSelect, reverseGeocode]);
 
+  // Fetch drive-time polygons while the overlay is on
+  useEffect(() => {
+    if (!showDriveTime || !coordinates) {
+      setTradeAreas([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoadingTradeAreas(true);
+    fetch('/api/isochrone', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ lat: coordinates.lat, lng: coordinates.lng, minutes: [5, 10, 15] }),
+    })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load drive-time areas');
+        if (!cancelled) setTradeAreas(data.areas || []);
+      })
+      .catch((err) => {
+        console.error('Drive-time areas error:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load drive-time areas');
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingTradeAreas(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showDriveTime, coordinates?.lat, coordinates?.lng]);
+
+  // Fetch the buildable envelope for the selected parcel while the overlay is on
+  const envelopeBoundary = selectedParcel?.boundaries?.[0] || parcelData?.boundaries?.[0];
+  useEffect(() => {
+    if (!showEnvelope || !envelopeBoundary || envelopeBoundary.length < 3) {
+      setSiteCapacity(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoadingEnvelope(true);
+    fetch('/api/site-capacity', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ boundary: envelopeBoundary, constraintAreas: environmentalRisk?.constraintAreas }),
+    })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load buildable envelope');
+        if (!cancelled) setSiteCapacity(data);
+      })
+      .catch((err) => {
+        console.error('Buildable envelope error:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load buildable envelope');
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingEnvelope(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showEnvelope, envelopeBoundary, environmentalRisk?.constraintAreas]);
+
   // Fetch parcel data when coordinates change (for suggested parcel)
   useEffect(() => {
     if (coordinates) {
@@ -261,6 +334,7 @@ export default function MapView({
       if (!coordinates || !boundaries || boundaries.length < 3) {
         setAccessPoints([]);
         onAccessPointsChange?.([]);
+        onFrontageChange?.(null);
         return;
       }
 
@@ -280,23 +354,26 @@ export default function MapView({
           const points = data.accessPoints || [];
           setAccessPoints(points);
           onAccessPointsChange?.(points);
+          onFrontageChange?.(data.frontage ?? null);
           console.log(`[MapView] Found ${points.length} access points`);
         } else {
           console.error('[MapView] Failed to fetch access points');
           setAccessPoints([]);
           onAccessPointsChange?.([]);
+          onFrontageChange?.(null);
         }
       } catch (err) {
         console.error('[MapView] Error fetching access points:', err);
         setAccessPoints([]);
         onAccessPointsChange?.([]);
+        onFrontageChange?.(null);
       } finally {
         setLoadingAccessPoints(false);
       }
     };
 
     fetchAccessPoints();
-  }, [coordinates?.lat, coordinates?.lng, parcelData?.boundaries, selectedParcel?.boundaries, onAccessPointsChange]);
+  }, [coordinates?.lat, coordinates?.lng, parcelData?.boundaries, selectedParcel?.boundaries, onAccessPointsChange, onFrontageChange]);
 
   // Fetch nearby parcels when bounds change
   const fetchNearbyParcels = useCallback(async (bounds: MapBounds) => {
@@ -480,6 +557,28 @@ export default function MapView({
               Finding access points...
             </span>
           )}
+          {loadingTradeAreas && (
+            <span className="text-xs text-[var(--accent-cyan)]">Building drive times...</span>
+          )}
+          {loadingEnvelope && (
+            <span className="text-xs text-[var(--accent-cyan)]">Sizing envelope...</span>
+          )}
+          <button
+            onClick={() => setShowEnvelope(prev => !prev)}
+            disabled={!envelopeBoundary}
+            className={`text-xs py-1 px-2 rounded ${showEnvelope ? 'bg-[var(--accent-green)] text-white' : 'bg-[var(--bg-tertiary)]'}`}
+            title="Show the buildable envelope after setbacks, wetlands and flood zones"
+          >
+            Envelope
+          </button>
+          <button
+            onClick={() => setShowDriveTime(prev => !prev)}
+            disabled={!coordinates}
+            className={`text-xs py-1 px-2 rounded ${showDriveTime ? 'bg-[var(--accent-green)] text-white' : 'bg-[var(--bg-tertiary)]'}`}
+            title="Show 5/10/15-minute drive-time trade areas"
+          >
+            Drive Time
+          </button>
           <div className="flex gap-1">
             <button
               onClick={() => setMapType('satellite')}
@@ -520,6 +619,8 @@ export default function MapView({
           onMarkerDrag={handleMarkerDrag}
           pinLocation={pinLocation}
           interactiveMode={interactiveMode}
+          tradeAreas={tradeAreas}
+          siteCapacity={siteCapacity}
         />
 
         {/* Loading Overlay */}
@@ -759,11 +860,11 @@ export default function MapView({
           {/* Access Points Info */}
           {accessPoints.length > 0 && (() => {
             // Get unique roads with their best VPD
-            const roadVPDs = new Map<string, { vpd?: number; source?: string }>();
+            const roadVPDs = new Map<string, { vpd?: number; source?: string; agency?: string }>();
             for (const ap of accessPoints) {
               const existing = roadVPDs.get(ap.roadName);
               if (!existing || (ap.vpd && (!existing.vpd || ap.vpd > existing.vpd))) {
-                roadVPDs.set(ap.roadName, { vpd: ap.vpd, source: ap.vpdSource });
+                roadVPDs.set(ap.roadName, { vpd: ap.vpd, source: ap.vpdSource, agency: ap.vpdAgency });
               }
             }
             const sortedRoads = Array.from(roadVPDs.entries())
@@ -794,8 +895,8 @@ export default function MapView({
                     <div key={i} className="flex items-center justify-between text-xs">
                       <span className="text-[var(--text-secondary)]">{roadName}</span>
                       {data.vpd ? (
-                        <span className={data.source === 'fdot' ? 'text-[var(--accent-green)] font-medium' : 'text-[var(--text-muted)]'}>
-                          {data.vpd.toLocaleString()} {data.source === 'fdot' ? '(FDOT)' : '(Est.)'}
+                        <span className={data.source === 'official' ? 'text-[var(--accent-green)] font-medium' : 'text-[var(--text-muted)]'}>
+                          {data.vpd.toLocaleString()} {data.source === 'official' ? `(${data.agency || 'DOT'})` : '(Est.)'}
                         </span>
                       ) : (
                         <span className="text-[var(--text-muted)]">--</span>
@@ -809,7 +910,7 @@ export default function MapView({
                   )}
                 </div>
                 <p className="text-xs text-[var(--text-muted)] mt-2">
-                  VPD from Florida DOT at access point locations
+                  VPD from official AADT counts at access point locations
                 </p>
               </div>
             );
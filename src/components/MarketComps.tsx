@@ -12,9 +12,73 @@ const CompsMap = dynamic(() => import('./CompsMap'), { ssr: false });
 interface MarketCompsProps {
   coordinates: { lat: number; lng: number };
   comps: MarketComp[] | null;
+  // Called after a sales spreadsheet is imported so the comps can be refetched
+  onCompsImported?: () => void;
 }
 
-export default function MarketComps({ coordinates, comps }: MarketCompsProps) {
+interface ImportSummary {
+  imported: number;
+  skipped: number;
+  issues: { row: number; message: string; severity: 'error' | 'warning' }[];
+}
+
+// Upload closed sales (CSV/XLSX) as verified comps
+function CompsImportButton({ onImported }: { onImported: () => void }) {
+  const [importing, setImporting] = useState(false);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    setImporting(true);
+    setError(null);
+    setSummary(null);
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      const response = await fetch('/api/comps/import', { method: 'POST', body: form });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Import failed');
+      setSummary(data);
+      if (data.imported > 0) onImported();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const errors = summary?.issues.filter(issue => issue.severity === 'error') ?? [];
+
+  return (
+    <div className="text-sm">
+      <label className={`btn-secondary text-xs py-1 px-3 cursor-pointer inline-flex items-center gap-1 ${importing ? 'opacity-50 pointer-events-none' : ''}`}>
+        {importing ? 'Importing...' : 'Import Sales (CSV/XLSX)'}
+        <input
+          type="file"
+          accept=".csv,.xlsx"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+      {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+      {summary && (
+        <div className="text-xs text-[var(--text-muted)] mt-2">
+          <p>Imported {summary.imported} sale{summary.imported === 1 ? '' : 's'}, skipped {summary.skipped}</p>
+          {errors.slice(0, 5).map(issue => (
+            <p key={`${issue.row}-${issue.message}`} className="text-red-400">Row {issue.row}: {issue.message}</p>
+          ))}
+          {errors.length > 5 && <p>...and {errors.length - 5} more</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function MarketComps({ coordinates, comps, onCompsImported }: MarketCompsProps) {
   const [sortBy, setSortBy] = useState<'distance' | 'price' | 'date'>('distance');
 
   if (!comps) {
@@ -35,14 +99,23 @@ export default function MarketComps({ coordinates, comps }: MarketCompsProps) {
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
         </svg>
         <p>No comparable sales found in this area</p>
+        {onCompsImported && (
+          <div className="mt-4">
+            <CompsImportButton onImported={onCompsImported} />
+          </div>
+        )}
       </div>
     );
   }
 
-  // Calculate market statistics
-  const avgPricePerSqft = Math.round(comps.reduce((sum, c) => sum + c.pricePerSqft, 0) / comps.length);
-  const medianPrice = comps.map(c => c.salePrice).sort((a, b) => a - b)[Math.floor(comps.length / 2)];
-  const totalVolume = comps.reduce((sum, c) => sum + c.salePrice, 0);
+  // Statistics come from recorded sales when there are any; estimates only stand in without them
+  const verifiedComps = comps.filter(c => c.verification === 'verified');
+  const estimatedCount = comps.length - verifiedComps.length;
+  const statComps = verifiedComps.length > 0 ? verifiedComps : comps;
+  const statSource = verifiedComps.length > 0 ? DATA_SOURCES.recordedSales : DATA_SOURCES.marketEstimate;
+  const avgPricePerSqft = Math.round(statComps.reduce((sum, c) => sum + c.pricePerSqft, 0) / statComps.length);
+  const medianPrice = statComps.map(c => c.salePrice).sort((a, b) => a - b)[Math.floor(statComps.length / 2)];
+  const totalVolume = statComps.reduce((sum, c) => sum + c.salePrice, 0);
 
   // Sort comps
   const sortedComps = [...comps].sort((a, b) => {
@@ -90,6 +163,21 @@ export default function MarketComps({ coordinates, comps }: MarketCompsProps) {
 
   return (
     <div className="space-y-8">
+      {/* Verified vs estimated summary */}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        {verifiedComps.length === 0 ? (
+          <div className="flex-1 p-3 rounded-lg border border-yellow-500/40 bg-yellow-500/10 text-sm text-yellow-200">
+            No recorded sales found nearby. The comparables below are estimates from regional pricing, not actual transactions.
+          </div>
+        ) : (
+          <div className="flex-1 text-sm text-[var(--text-secondary)]">
+            {verifiedComps.length} recorded sale{verifiedComps.length === 1 ? '' : 's'}
+            {estimatedCount > 0 && ` plus ${estimatedCount} regional estimate${estimatedCount === 1 ? '' : 's'} (excluded from statistics)`}
+          </div>
+        )}
+        {onCompsImported && <CompsImportButton onImported={onCompsImported} />}
+      </div>
+
       {/* Comps Map - Visual Overview */}
       <div>
         <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
@@ -130,13 +218,13 @@ export default function MarketComps({ coordinates, comps }: MarketCompsProps) {
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <div className="metric-card">
           <p className="metric-card-label">
-            <DataSourceTooltip source={DATA_SOURCES.marketEstimate}>Avg. Price/SqFt</DataSourceTooltip>
+            <DataSourceTooltip source={statSource}>Avg. Price/SqFt</DataSourceTooltip>
           </p>
           <p className="metric-card-value">${avgPricePerSqft}</p>
         </div>
         <div className="metric-card">
           <p className="metric-card-label">
-            <DataSourceTooltip source={DATA_SOURCES.marketEstimate}>Median Sale Price</DataSourceTooltip>
+            <DataSourceTooltip source={statSource}>Median Sale Price</DataSourceTooltip>
           </p>
           <p className="metric-card-value">{formatCurrency(medianPrice)}</p>
         </div>
@@ -152,9 +240,9 @@ export default function MarketComps({ coordinates, comps }: MarketCompsProps) {
         </div>
         <div className="metric-card">
           <p className="metric-card-label">
-            <DataSourceTooltip source={DATA_SOURCES.marketEstimate}>Comparables Found</DataSourceTooltip>
+            <DataSourceTooltip source={statSource}>Recorded Sales</DataSourceTooltip>
           </p>
-          <p className="metric-card-value">{comps.length}</p>
+          <p className="metric-card-value">{verifiedComps.length}</p>
         </div>
       </div>
 
@@ -256,6 +344,7 @@ export default function MarketComps({ coordinates, comps }: MarketCompsProps) {
                 <th className="text-right py-3 px-4 text-[var(--text-muted)]">$/SqFt</th>
                 <th className="text-right py-3 px-4 text-[var(--text-muted)]">Distance</th>
                 <th className="text-right py-3 px-4 text-[var(--text-muted)]">Sale Date</th>
+                <th className="text-center py-3 px-4 text-[var(--text-muted)]">Source</th>
               </tr>
             </thead>
             <tbody>
@@ -278,6 +367,13 @@ export default function MarketComps({ coordinates, comps }: MarketCompsProps) {
                   <td className="py-3 px-4 text-right text-[var(--accent-cyan)]">${comp.pricePerSqft}</td>
                   <td className="py-3 px-4 text-right">{comp.distance}</td>
                   <td className="py-3 px-4 text-right text-[var(--text-muted)]">{comp.saleDate}</td>
+                  <td className="py-3 px-4 text-center" title={comp.sourceLabel}>
+                    {comp.verification === 'verified' ? (
+                      <span className="px-2 py-1 rounded text-xs font-medium bg-green-500/20 text-green-300">Verified</span>
+                    ) : (
+                      <span className="px-2 py-1 rounded text-xs font-medium bg-yellow-500/20 text-yellow-300">Estimate</span>
+                    )}
+                  </td>
                 </tr>
               ))}
             </tbody>
@@ -311,8 +407,10 @@ export default function MarketComps({ coordinates, comps }: MarketCompsProps) {
 
       <div className="text-center text-sm text-[var(--text-muted)]">
         <p className="font-medium text-[var(--text-secondary)]">Commercial Real Estate Comparables Only</p>
-        <p className="mt-1">Sales data within 1 mile radius • No residential properties included</p>
-        <p className="mt-1">Comparable sales are estimates based on regional commercial market data</p>
+        <p className="mt-1">Recorded sales within 3 miles over the last 36 months • No residential properties included</p>
+        {estimatedCount > 0 && (
+          <p className="mt-1">Rows marked Estimate are synthesized from regional commercial pricing and are not transactions</p>
+        )}
       </div>
     </div>
   );
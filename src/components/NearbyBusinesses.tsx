@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Business } from '@/types';
+import { Business, TradeAreaMode } from '@/types';
+import SalesForecast from '@/components/SalesForecast';
 
 interface MarketContext {
   population?: number;
@@ -76,6 +77,15 @@ function calculateSmartRadius(context: MarketContext): { radius: number; reasoni
   };
 }
 
+// Drive time that roughly covers the smart radius, as the starting point in drive-time mode
+function driveMinutesForRadius(radiusMiles: number): number {
+  if (radiusMiles <= 1) return 5;
+  if (radiusMiles <= 2) return 10;
+  return 15;
+}
+
+const DRIVE_MINUTE_OPTIONS = [5, 10, 15];
+
 // Analyze market saturation for different business types
 function analyzeMarketSaturation(businesses: Business[], population: number): {
   type: string;
@@ -144,18 +154,25 @@ export default function NearbyBusinesses({
   const [loading, setLoading] = useState(false);
   const [selectedTypes, setSelectedTypes] = useState<string[]>([]);
   const [marketRadius, setMarketRadius] = useState<{ radius: number; reasoning: string } | null>(null);
+  const [tradeAreaMode, setTradeAreaMode] = useState<TradeAreaMode>('radius');
+  const [driveMinutes, setDriveMinutes] = useState<number | null>(null);
 
   const fetchNearbyBusinesses = async (radius: number) => {
     if (!coordinates) return;
 
     const radiusMeters = Math.round(radius * 1609.34);
+    const minutes = driveMinutes ?? driveMinutesForRadius(radius);
 
     setLoading(true);
     try {
       const response = await fetch('/api/places', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ coordinates, radius: radiusMeters }),
+        body: JSON.stringify({
+          coordinates,
+          radius: radiusMeters,
+          ...(tradeAreaMode === 'drive-time' ? { driveMinutes: minutes } : {}),
+        }),
       });
 
       if (response.ok) {
@@ -195,7 +212,7 @@ export default function NearbyBusinesses({
       setBusinesses([]);
       fetchNearbyBusinesses(marketRadius.radius);
     }
-  }, [coordinates?.lat, coordinates?.lng, marketRadius?.radius]);
+  }, [coordinates?.lat, coordinates?.lng, marketRadius?.radius, tradeAreaMode, driveMinutes]);
 
   // Filter businesses based on selected types
   const filteredBusinesses = selectedTypes.length === 0
@@ -251,7 +268,36 @@ export default function NearbyBusinesses({
             <svg className="w-4 h-4 text-[var(--accent-cyan)]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
             </svg>
-            <span className="text-[var(--text-secondary)]">{marketRadius.reasoning}</span>
+            <span className="text-[var(--text-secondary)] flex-1">
+              {tradeAreaMode === 'drive-time'
+                ? `${driveMinutes ?? driveMinutesForRadius(marketRadius.radius)}-minute drive-time trade area`
+                : marketRadius.reasoning}
+            </span>
+            {tradeAreaMode === 'drive-time' && (
+              <select
+                value={driveMinutes ?? driveMinutesForRadius(marketRadius.radius)}
+                onChange={(e) => setDriveMinutes(Number(e.target.value))}
+                className="bg-[var(--bg-secondary)] border border-[var(--border-color)] rounded px-1 py-0.5"
+              >
+                {DRIVE_MINUTE_OPTIONS.map(m => (
+                  <option key={m} value={m}>{m} min</option>
+                ))}
+              </select>
+            )}
+            <div className="flex gap-1">
+              <button
+                onClick={() => setTradeAreaMode('radius')}
+                className={`py-0.5 px-2 rounded ${tradeAreaMode === 'radius' ? 'bg-[var(--accent-cyan)] text-white' : 'bg-[var(--bg-secondary)]'}`}
+              >
+                Radius
+              </button>
+              <button
+                onClick={() => setTradeAreaMode('drive-time')}
+                className={`py-0.5 px-2 rounded ${tradeAreaMode === 'drive-time' ? 'bg-[var(--accent-cyan)] text-white' : 'bg-[var(--bg-secondary)]'}`}
+              >
+                Drive Time
+              </button>
+            </div>
           </div>
         </div>
       )}
@@ -290,6 +336,19 @@ export default function NearbyBusinesses({
         </div>
       )}
 
+      {/* Sales Forecast (Huff model over the same trade area) */}
+      {coordinates && marketRadius && (
+        <div className="mb-4">
+          <span className="text-xs text-[var(--text-muted)] uppercase tracking-wider">Sales Forecast</span>
+          <div className="mt-2">
+            <SalesForecast
+              coordinates={coordinates}
+              driveMinutes={tradeAreaMode === 'drive-time' ? (driveMinutes ?? driveMinutesForRadius(marketRadius.radius)) : undefined}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Type Filters */}
       {businesses.length > 0 && (
         <div className="mb-4">
@@ -5,12 +5,13 @@ import { PropertyData } from '@/types';
 import { SelectedParcel } from '@/components/MapView';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import { FACTOR_LABELS, formatTraceInputs, formatTracePoints } from '@/utils/feasibilityScore';
 
 interface PDFReportGeneratorProps {
   propertyData: PropertyData;
   address: string;
   selectedParcel?: SelectedParcel | null;
-  accessPoints?: Array<{ roadName: string; vpd?: number; vpdSource?: string }>;
+  accessPoints?: Array<{ roadName: string; vpd?: number; vpdSource?: string; vpdAgency?: string }>;
 }
 
 export default function PDFReportGenerator({
@@ -378,7 +379,7 @@ export default function PDFReportGenerator({
             body: accessPoints.slice(0, 6).map(ap => [
               ap.roadName,
               ap.vpd?.toLocaleString() || 'N/A',
-              ap.vpdSource === 'fdot' ? 'FDOT Official' : 'Estimated',
+              ap.vpdSource === 'official' ? `${ap.vpdAgency || 'DOT'} Official` : 'Estimated',
             ]),
             styles: {
               fillColor: cardBg,
@@ -702,6 +703,77 @@ export default function PDFReportGenerator({
         });
       }
 
+      // ========== APPENDIX: SCORE AUDIT TRAIL ==========
+      const audit = analysis?.feasibilityScore?.audit;
+      if (audit && audit.length > 0) {
+        setCurrentStep('Adding score audit trail...');
+        doc.addPage();
+        yPos = margin;
+        addSectionHeader('Appendix: Score Audit Trail');
+
+        doc.setTextColor(...textMuted);
+        doc.setFontSize(9);
+        doc.setFont('helvetica', 'normal');
+        doc.text(
+          `Scoring model v${analysis.feasibilityScore!.modelVersion}${analysis.feasibilityScore!.tenantCategory ? ` (${analysis.feasibilityScore!.tenantCategory})` : ''}. Each factor's score x weight = contribution to the overall ${analysis.feasibilityScore!.overall}/10.`,
+          margin,
+          yPos
+        );
+        yPos += 8;
+
+        audit.forEach(trace => {
+          checkNewPage(35);
+          doc.setTextColor(...primaryColor);
+          doc.setFontSize(10);
+          doc.setFont('helvetica', 'bold');
+          doc.text(
+            `${FACTOR_LABELS[trace.factor]}: ${trace.score}/10 x ${Math.round(trace.weight * 100)}% = ${trace.contribution.toFixed(2)}${trace.neutral ? ' (no data)' : ''}`,
+            margin,
+            yPos
+          );
+          yPos += 5;
+
+          doc.setTextColor(...textMuted);
+          doc.setFontSize(8);
+          doc.setFont('helvetica', 'normal');
+          const inputs = formatTraceInputs(trace.inputs);
+          const notes = [
+            trace.source ? `Source: ${trace.source}` : null,
+            inputs ? `Inputs: ${inputs}` : null,
+          ].filter((line): line is string => line !== null);
+          notes.forEach(note => {
+            const lines = doc.splitTextToSize(note, pageWidth - 2 * margin);
+            checkNewPage(lines.length * 4);
+            doc.text(lines, margin, yPos);
+            yPos += lines.length * 4;
+          });
+
+          autoTable(doc, {
+            startY: yPos + 1,
+            margin: { left: margin, right: margin },
+            head: [['Rule', 'Points']],
+            body: trace.steps.map(step => [step.rule, formatTracePoints(step)]),
+            styles: {
+              fillColor: cardBg,
+              textColor: textWhite,
+              fontSize: 8,
+            },
+            headStyles: {
+              fillColor: [0, 120, 120],
+              textColor: textWhite,
+              fontStyle: 'bold',
+            },
+            columnStyles: {
+              1: { halign: 'right', cellWidth: 20 },
+            },
+            alternateRowStyles: {
+              fillColor: [40, 50, 65],
+            },
+          });
+          yPos = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 8;
+        });
+      }
+
       setProgress(98);
       setCurrentStep('Adding page numbers...');
 
@@ -0,0 +1,80 @@
+'use client';
+
+import { useState } from 'react';
+import { useProjects } from '@/hooks/useProjects';
+
+export default function ProjectSwitcher() {
+  const { projects, currentProject, isLoading, switchProject, createProject } = useProjects();
+  const [creating, setCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    try {
+      await createProject(newName.trim());
+      setNewName('');
+      setCreating(false);
+    } catch (err) {
+      console.error('Failed to create project:', err);
+      alert('Failed to create project');
+    }
+  };
+
+  if (isLoading) {
+    return <span className="text-xs text-[var(--text-muted)]">Loading workspace...</span>;
+  }
+
+  if (creating) {
+    return (
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          placeholder="Project name"
+          className="terminal-input text-xs py-1 w-36"
+          autoFocus
+        />
+        <button
+          onClick={handleCreate}
+          className="text-xs text-[var(--accent-green)] hover:underline"
+        >
+          Create
+        </button>
+        <button
+          onClick={() => setCreating(false)}
+          className="text-xs text-[var(--text-muted)] hover:underline"
+        >
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2" title="Active project workspace">
+      <svg className="w-4 h-4 text-[var(--text-muted)]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+      </svg>
+      <select
+        value={currentProject?.id || ''}
+        onChange={(e) => {
+          if (e.target.value === '__new__') {
+            setCreating(true);
+          } else {
+            switchProject(e.target.value);
+          }
+        }}
+        className="bg-[var(--bg-tertiary)] border border-[var(--border-color)] rounded text-xs text-[var(--text-secondary)] px-2 py-1 max-w-[10rem]"
+      >
+        {projects.map((project) => (
+          <option key={project.id} value={project.id}>
+            {project.name}
+          </option>
+        ))}
+        <option value="__new__">+ New project...</option>
+      </select>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
-import { TrafficInfo, ExtendedDemographics, Business, EnvironmentalRisk, AccessPoint } from '@/types';
+import { TrafficInfo, ExtendedDemographics, Business, EnvironmentalRisk, AccessPoint, FrontageAnalysis } from '@/types';
+import { buildRecommendationRequest } from '@/utils/siteRequests';
 
 // Business types for dropdown
 const BUSINESS_TYPES = [
@@ -53,6 +54,7 @@ interface RecommendationsPanelProps {
   businesses: Business[];
   environmentalRisk: EnvironmentalRisk | null;
   accessPoints: AccessPoint[];
+  frontage?: FrontageAnalysis | null;
   parcelInfo?: {
     acres?: number;
     zoning?: string;
@@ -99,6 +101,7 @@ export default function RecommendationsPanel({
   businesses,
   environmentalRisk,
   accessPoints,
+  frontage,
   parcelInfo,
 }: RecommendationsPanelProps) {
   const [selectedBusinessType, setSelectedBusinessType] = useState('');
@@ -107,49 +110,14 @@ export default function RecommendationsPanel({
   const [expandedSection, setExpandedSection] = useState<string | null>(null);
 
   // Calculate derived data
-  const derivedData = useMemo(() => {
-    // Primary VPD from access points
-    const primaryVpd = accessPoints.length > 0
-      ? Math.max(...accessPoints.map(ap => ap.vpd || ap.estimatedVpd || 0))
-      : trafficData?.estimatedVPD || null;
-
-    // Count unique roads
-    const uniqueRoads = new Set(accessPoints.map(ap => ap.roadName)).size;
-
-    // Check for corner lot (2+ roads)
-    const isCornerLot = uniqueRoads >= 2;
-
-    // Check for highway access
-    const hasHighwayAccess = accessPoints.some(ap =>
-      ap.roadType?.includes('trunk') ||
-      ap.roadType?.includes('motorway') ||
-      ap.roadType?.includes('primary')
-    );
-
-    // Format nearby businesses
-    const nearbyBusinesses = businesses.map(b => ({
-      name: b.name,
-      type: b.type || 'business',
-      distance: b.distance || 0,
-    }));
-
-    // Flood risk
-    const floodRisk = environmentalRisk?.floodZone?.risk as 'low' | 'medium' | 'high' | null;
-
-    return {
-      vpd: primaryVpd,
-      accessPointCount: accessPoints.length,
-      roadCount: uniqueRoads,
-      isCornerLot,
-      hasHighwayAccess,
-      lotSizeAcres: parcelInfo?.acres || null,
-      medianIncome: demographicsData?.medianHouseholdIncome || null,
-      population: demographicsData?.population || null,
-      nearbyBusinesses,
-      floodRisk,
-      zoning: parcelInfo?.zoning || null,
-    };
-  }, [accessPoints, trafficData, businesses, environmentalRisk, demographicsData, parcelInfo]);
+  const derivedData = useMemo(() => buildRecommendationRequest({
+    traffic: trafficData,
+    accessPoints,
+    demographics: demographicsData,
+    businesses,
+    environmentalRisk,
+    parcel: parcelInfo ?? null,
+  }, frontage), [accessPoints, frontage, trafficData, businesses, environmentalRisk, demographicsData, parcelInfo]);
 
   // Fetch recommendations when data changes
   useEffect(() => {
@@ -0,0 +1,151 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { SalesForecast as SalesForecastResult } from '@/types';
+import { DEFAULT_SALES_FORECAST_CATEGORY, SALES_FORECAST_CATEGORIES } from '@/data/salesForecastCategories';
+
+interface SalesForecastProps {
+  coordinates: { lat: number; lng: number };
+  // Drive-time study area; the category's default radius is used otherwise
+  driveMinutes?: number;
+}
+
+// Subject draw relative to a typical competitor (Huff attractiveness)
+const ATTRACTIVENESS_OPTIONS = [
+  { value: 0.5, label: 'Smaller than typical' },
+  { value: 1, label: 'Typical competitor' },
+  { value: 1.5, label: 'Stronger brand / larger' },
+  { value: 2, label: 'Category leader' },
+];
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+
+export default function SalesForecast({ coordinates, driveMinutes }: SalesForecastProps) {
+  const [category, setCategory] = useState(DEFAULT_SALES_FORECAST_CATEGORY);
+  const [attractiveness, setAttractiveness] = useState(1);
+  const [forecast, setForecast] = useState<SalesForecastResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchForecast = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch('/api/sales-forecast', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            lat: coordinates.lat,
+            lng: coordinates.lng,
+            category,
+            subjectAttractiveness: attractiveness,
+            ...(driveMinutes ? { driveMinutes } : {}),
+          }),
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Forecast failed');
+        if (!cancelled) setForecast(data);
+      } catch (err) {
+        console.error('Failed to fetch sales forecast:', err);
+        if (!cancelled) {
+          setForecast(null);
+          setError(err instanceof Error ? err.message : 'Forecast failed');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchForecast();
+    return () => { cancelled = true; };
+  }, [coordinates.lat, coordinates.lng, category, attractiveness, driveMinutes]);
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          className="bg-[var(--bg-secondary)] border border-[var(--border-color)] rounded px-2 py-1"
+        >
+          {Object.entries(SALES_FORECAST_CATEGORIES).map(([key, c]) => (
+            <option key={key} value={key}>{c.label}</option>
+          ))}
+        </select>
+        <select
+          value={attractiveness}
+          onChange={(e) => setAttractiveness(Number(e.target.value))}
+          className="bg-[var(--bg-secondary)] border border-[var(--border-color)] rounded px-2 py-1"
+        >
+          {ATTRACTIVENESS_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {loading && (
+        <div className="text-center py-6 text-[var(--text-muted)] text-sm">Running gravity model...</div>
+      )}
+
+      {!loading && error && (
+        <div className="p-3 rounded-lg border border-red-500/30 bg-red-500/10 text-red-400 text-sm">{error}</div>
+      )}
+
+      {!loading && forecast && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            <div className="p-3 bg-[var(--bg-tertiary)] rounded-lg border border-[var(--border-color)]">
+              <div className="text-xs text-[var(--text-muted)]">Annual Revenue</div>
+              <div className="text-lg font-bold text-[var(--accent-green)] font-mono">{formatCurrency(forecast.annualRevenue)}</div>
+            </div>
+            <div className="p-3 bg-[var(--bg-tertiary)] rounded-lg border border-[var(--border-color)]">
+              <div className="text-xs text-[var(--text-muted)]">Annual Visits</div>
+              <div className="text-lg font-bold font-mono">{forecast.annualVisits.toLocaleString()}</div>
+            </div>
+            <div className="p-3 bg-[var(--bg-tertiary)] rounded-lg border border-[var(--border-color)]">
+              <div className="text-xs text-[var(--text-muted)]">Market Share</div>
+              <div className="text-lg font-bold text-[var(--accent-cyan)] font-mono">{forecast.marketShare}%</div>
+            </div>
+          </div>
+
+          <p className="text-xs text-[var(--text-secondary)]">
+            {forecast.tradeArea.mode === 'drive-time'
+              ? `${forecast.tradeArea.driveMinutes}-minute drive time`
+              : `${forecast.tradeArea.radiusMiles}-mile radius`}
+            {' · '}{forecast.tradeArea.households.toLocaleString()} households in {forecast.tradeArea.geographyCount} {forecast.demandGeography}s
+            {' · '}{formatCurrency(forecast.tradeArea.totalAnnualSpend)} category spend
+            {' · '}{forecast.competitorCount} competitors
+          </p>
+
+          {forecast.competitors.length > 0 && (
+            <div>
+              <span className="text-xs text-[var(--text-muted)] uppercase tracking-wider">Competitor Capture</span>
+              <div className="mt-2 space-y-1 max-h-[200px] overflow-y-auto">
+                {forecast.competitors.map((competitor, i) => (
+                  <div key={`${competitor.name}-${i}`} className="flex items-center justify-between text-xs p-2 bg-[var(--bg-tertiary)] rounded border border-[var(--border-color)]">
+                    <span className="font-medium">{competitor.name}</span>
+                    <span className="text-[var(--text-muted)]">
+                      {competitor.distanceMiles} mi · <span className="font-mono">{competitor.marketShare}%</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="text-xs text-[var(--text-muted)] space-y-1">
+            <p>
+              Huff model: distance decay {forecast.parameters.distanceDecay}, {forecast.parameters.annualVisitsPerHousehold} trips/household/yr,
+              {' '}{formatCurrency(forecast.parameters.averageTicket)} average ticket. Demand from {forecast.vintage}.
+            </p>
+            {forecast.notes.map((note, i) => <p key={i}>{note}</p>)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
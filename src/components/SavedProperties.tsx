@@ -1,95 +1,35 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { PropertyData } from '@/types';
+import { useState } from 'react';
+import { PropertyData, SavedProperty } from '@/types';
+import { useSavedProperties } from '@/hooks/useSavedProperties';
 
 interface SavedPropertiesProps {
   currentProperty: PropertyData;
   onLoadProperty: (property: PropertyData) => void;
 }
 
-interface SavedProperty {
-  id: string;
-  name: string;
-  address: string;
-  savedAt: string;
-  data: PropertyData;
-  thumbnail?: string;
-}
-
-const STORAGE_KEY = 'drone-sense-saved-properties';
-const STORAGE_VERSION_KEY = 'drone-sense-data-version';
-const CURRENT_VERSION = 2; // Increment this when data structure changes
-
 export default function SavedProperties({ currentProperty, onLoadProperty }: SavedPropertiesProps) {
-  const [savedProperties, setSavedProperties] = useState<SavedProperty[]>([]);
+  const { savedProperties, saveProperty, deleteProperty } = useSavedProperties();
   const [saveName, setSaveName] = useState('');
   const [showSaveDialog, setShowSaveDialog] = useState(false);
   const [selectedForCompare, setSelectedForCompare] = useState<string[]>([]);
   const [showComparison, setShowComparison] = useState(false);
 
-  // Load saved properties from localStorage
-  useEffect(() => {
-    try {
-      // Check version and clear if outdated
-      const storedVersion = localStorage.getItem(STORAGE_VERSION_KEY);
-      if (!storedVersion || parseInt(storedVersion) < CURRENT_VERSION) {
-        console.log('Clearing outdated saved properties data');
-        localStorage.removeItem(STORAGE_KEY);
-        localStorage.setItem(STORAGE_VERSION_KEY, String(CURRENT_VERSION));
-        return;
-      }
-
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        // Validate each property has required fields
-        const validProperties = parsed.filter((p: SavedProperty) =>
-          p && p.id && p.data && typeof p.data === 'object'
-        );
-        setSavedProperties(validProperties);
-      }
-    } catch (err) {
-      console.error('Failed to load saved properties:', err);
-      // Clear corrupted data
-      localStorage.removeItem(STORAGE_KEY);
-      localStorage.setItem(STORAGE_VERSION_KEY, String(CURRENT_VERSION));
-    }
-  }, []);
-
-  // Save to localStorage
-  const saveToStorage = (properties: SavedProperty[]) => {
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(properties));
-      setSavedProperties(properties);
-    } catch (err) {
-      console.error('Failed to save properties:', err);
-    }
-  };
-
   const handleSave = () => {
     if (!currentProperty.address) {
       alert('Please enter an address before saving');
       return;
     }
 
-    const newProperty: SavedProperty = {
-      id: Date.now().toString(),
-      name: saveName || currentProperty.address,
-      address: currentProperty.address,
-      savedAt: new Date().toISOString(),
-      data: currentProperty,
-      thumbnail: currentProperty.images[0],
-    };
-
-    saveToStorage([...savedProperties, newProperty]);
+    saveProperty(currentProperty, saveName || undefined);
     setSaveName('');
     setShowSaveDialog(false);
   };
 
   const handleDelete = (id: string) => {
     if (confirm('Are you sure you want to delete this saved property?')) {
-      saveToStorage(savedProperties.filter(p => p.id !== id));
+      deleteProperty(id);
       setSelectedForCompare(selectedForCompare.filter(s => s !== id));
     }
   };
@@ -0,0 +1,532 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { FeasibilityScore, FloodRisk, FrontageAnalysis, PoiCategoryCode, RetailerMatchResult, ScenarioOverrides, ScoreSensitivity, SiteInputs } from '@/types';
+import {
+  applyScenario,
+  businessKey,
+  CURRENT_SCORING_MODEL_VERSION,
+  listScoringModels,
+  scoreFeasibility,
+  scoreSensitivity,
+  sitePrimaryVpd,
+} from '@/lib/scoring';
+import { ZONING_TYPES } from '@/lib/business-requirements';
+import { POI_TAXONOMY } from '@/data/poiTaxonomy';
+import { buildRecommendationRequest, buildRetailerMatchRequest } from '@/utils/siteRequests';
+import { getRatingColor, getScoreColor } from '@/utils/feasibilityScore';
+
+// Scenario edits settle before matches and recommendations are re-fetched
+const REFETCH_DELAY_MS = 600;
+
+const inputClass = 'w-full px-3 py-2 bg-[var(--bg-secondary)] border border-[var(--border-color)] rounded-lg focus:outline-none focus:border-[var(--accent-cyan)] text-sm';
+
+const FACTORS: Array<{ key: keyof FeasibilityScore['breakdown']; label: string }> = [
+  { key: 'trafficScore', label: 'Traffic' },
+  { key: 'demographicsScore', label: 'Demographics' },
+  { key: 'economicScore', label: 'Economic' },
+  { key: 'competitionScore', label: 'Competition' },
+  { key: 'accessScore', label: 'Access' },
+  { key: 'siteScore', label: 'Site' },
+  { key: 'environmentalScore', label: 'Environmental' },
+  { key: 'marketScore', label: 'Market' },
+];
+
+interface RecommendationSummary {
+  overallScore: string;
+  overallGrade: 'A' | 'B' | 'C' | 'D' | 'F';
+  summary: string;
+  suggestedUses: string[];
+  concerns: string[];
+}
+
+interface ScenarioAnalysisProps {
+  site: SiteInputs;
+  address: string;
+  frontage?: FrontageAnalysis | null;
+  // Matches for the site as fetched, from the page
+  baselineMatches: RetailerMatchResult | null;
+}
+
+async function postJson<T>(url: string, body: string): Promise<T | null> {
+  const response = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+  return response.ok ? response.json() : null;
+}
+
+function formatDelta(delta: number, digits = 1): string {
+  if (Math.abs(delta) < 0.05) return '–';
+  return `${delta > 0 ? '+' : ''}${delta.toFixed(digits)}`;
+}
+
+function deltaColor(delta: number): string {
+  if (Math.abs(delta) < 0.05) return 'var(--text-muted)';
+  return delta > 0 ? 'var(--accent-green)' : 'var(--accent-red)';
+}
+
+function hasOverrides(overrides: ScenarioOverrides): boolean {
+  return Object.entries(overrides).some(([, value]) => Array.isArray(value) ? value.length > 0 : value !== undefined);
+}
+
+export default function ScenarioAnalysis({ site, address, frontage, baselineMatches }: ScenarioAnalysisProps) {
+  const [overrides, setOverrides] = useState<ScenarioOverrides>({});
+  const [tenantCategory, setTenantCategory] = useState('');
+  const [newBusinessName, setNewBusinessName] = useState('');
+  const [newBusinessCategory, setNewBusinessCategory] = useState<PoiCategoryCode>('fast-food');
+  const [scenarioMatches, setScenarioMatches] = useState<RetailerMatchResult | null>(null);
+  const [baselineRecommendations, setBaselineRecommendations] = useState<RecommendationSummary | null>(null);
+  const [scenarioRecommendations, setScenarioRecommendations] = useState<RecommendationSummary | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const categories = useMemo(
+    () => listScoringModels().find(m => m.version === CURRENT_SCORING_MODEL_VERSION)?.categories ?? [],
+    []
+  );
+  const scoringOptions = useMemo(() => ({ tenantCategory: tenantCategory || undefined }), [tenantCategory]);
+
+  const scenarioSite = useMemo(() => applyScenario(site, overrides), [site, overrides]);
+  const changed = hasOverrides(overrides);
+
+  const baselineScore = useMemo(() => scoreFeasibility(site, scoringOptions), [site, scoringOptions]);
+  const scenarioScore = useMemo(() => scoreFeasibility(scenarioSite, scoringOptions), [scenarioSite, scoringOptions]);
+  const sensitivity = useMemo(() => scoreSensitivity(scenarioSite, scoringOptions), [scenarioSite, scoringOptions]);
+
+  // Serialized so requests only go out when their bodies actually change
+  const baselineRecommendationRequest = useMemo(() => JSON.stringify(buildRecommendationRequest(site, frontage)), [site, frontage]);
+  const scenarioRecommendationRequest = useMemo(() => JSON.stringify(buildRecommendationRequest(scenarioSite, frontage)), [scenarioSite, frontage]);
+  const scenarioMatchRequest = useMemo(() => {
+    const request = buildRetailerMatchRequest(scenarioSite, address);
+    return request ? JSON.stringify(request) : null;
+  }, [scenarioSite, address]);
+
+  useEffect(() => {
+    let cancelled = false;
+    postJson<RecommendationSummary>('/api/recommendations', baselineRecommendationRequest)
+      .then(data => { if (!cancelled) setBaselineRecommendations(data); })
+      .catch(err => console.error('Failed to fetch baseline recommendations:', err));
+    return () => { cancelled = true; };
+  }, [baselineRecommendationRequest]);
+
+  useEffect(() => {
+    if (!changed) {
+      setScenarioMatches(null);
+      setScenarioRecommendations(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setRefreshing(true);
+      try {
+        const [matches, recommendations] = await Promise.all([
+          scenarioMatchRequest ? postJson<RetailerMatchResult>('/api/retailer-match', scenarioMatchRequest) : null,
+          postJson<RecommendationSummary>('/api/recommendations', scenarioRecommendationRequest),
+        ]);
+        if (!cancelled) {
+          setScenarioMatches(matches);
+          setScenarioRecommendations(recommendations);
+        }
+      } catch (err) {
+        console.error('Failed to fetch scenario matches and recommendations:', err);
+      } finally {
+        if (!cancelled) setRefreshing(false);
+      }
+    }, REFETCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [changed, scenarioMatchRequest, scenarioRecommendationRequest]);
+
+  const update = <K extends keyof ScenarioOverrides>(key: K, value: ScenarioOverrides[K]) => {
+    setOverrides(prev => ({ ...prev, [key]: value }));
+  };
+
+  const numberOverride = (key: 'vpd' | 'lotAcres' | 'medianIncome', raw: string) => {
+    const value = parseFloat(raw);
+    update(key, raw.trim() === '' || isNaN(value) || value < 0 ? undefined : value);
+  };
+
+  const baselineVpd = sitePrimaryVpd(site);
+  const baselineAcres = site.parcel?.acres || (site.parcel?.sqft ? site.parcel.sqft / 43560 : null);
+  const baselineIncome = site.demographics?.medianHouseholdIncome || null;
+  const removed = new Set(overrides.removedBusinesses ?? []);
+
+  const toggleBusiness = (key: string) => {
+    const next = removed.has(key) ? [...removed].filter(k => k !== key) : [...removed, key];
+    update('removedBusinesses', next);
+  };
+
+  const addBusiness = () => {
+    if (!newBusinessName.trim()) return;
+    update('addedBusinesses', [...(overrides.addedBusinesses ?? []), { name: newBusinessName.trim(), category: newBusinessCategory }]);
+    setNewBusinessName('');
+  };
+
+  const removeAddedBusiness = (index: number) => {
+    update('addedBusinesses', (overrides.addedBusinesses ?? []).filter((_, i) => i !== index));
+  };
+
+  const scenarioMatchList = changed ? scenarioMatches : baselineMatches;
+  const scenarioRecs = changed ? scenarioRecommendations : baselineRecommendations;
+
+  return (
+    <div className="space-y-6">
+      {/* Scenario inputs */}
+      <div className="p-4 bg-[var(--bg-tertiary)] rounded-lg border border-[var(--border-color)]">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="font-semibold text-[var(--text-primary)]">Scenario Inputs</h3>
+            <p className="text-xs text-[var(--text-muted)]">Blank fields keep the fetched value, shown as the placeholder</p>
+          </div>
+          <button
+            onClick={() => setOverrides({})}
+            disabled={!changed}
+            className="btn-secondary text-sm"
+          >
+            Reset to Baseline
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-xs text-[var(--text-muted)] mb-1">Primary Road VPD</label>
+            <input
+              type="number"
+              min="0"
+              step="500"
+              value={overrides.vpd ?? ''}
+              onChange={(e) => numberOverride('vpd', e.target.value)}
+              placeholder={baselineVpd ? baselineVpd.toLocaleString() : 'No count'}
+              className={inputClass}
+            />
+            {baselineVpd && (
+              <div className="flex gap-1 mt-1">
+                {[-20, -10, 10, 20].map(pct => (
+                  <button
+                    key={pct}
+                    type="button"
+                    onClick={() => update('vpd', Math.round(baselineVpd * (1 + pct / 100)))}
+                    className="px-2 py-0.5 rounded text-xs bg-[var(--bg-secondary)] text-[var(--text-secondary)] hover:text-[var(--accent-cyan)]"
+                  >
+                    {pct > 0 ? '+' : ''}{pct}%
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <div>
+            <label className="block text-xs text-[var(--text-muted)] mb-1">Lot Size (acres)</label>
+            <input
+              type="number"
+              min="0"
+              step="0.1"
+              value={overrides.lotAcres ?? ''}
+              onChange={(e) => numberOverride('lotAcres', e.target.value)}
+              placeholder={baselineAcres ? baselineAcres.toFixed(2) : 'Unknown'}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-[var(--text-muted)] mb-1">Zoning</label>
+            <input
+              type="text"
+              list="scenario-zoning"
+              value={overrides.zoning ?? ''}
+              onChange={(e) => update('zoning', e.target.value.trim() === '' ? undefined : e.target.value)}
+              placeholder={site.parcel?.zoning || 'Unknown'}
+              className={inputClass}
+            />
+            <datalist id="scenario-zoning">
+              {ZONING_TYPES.map(zone => <option key={zone.code} value={zone.code}>{zone.label}</option>)}
+            </datalist>
+          </div>
+          <div>
+            <label className="block text-xs text-[var(--text-muted)] mb-1">Median Household Income ($)</label>
+            <input
+              type="number"
+              min="0"
+              step="1000"
+              value={overrides.medianIncome ?? ''}
+              onChange={(e) => numberOverride('medianIncome', e.target.value)}
+              placeholder={baselineIncome ? baselineIncome.toLocaleString() : 'Unknown'}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-[var(--text-muted)] mb-1">Flood Risk</label>
+            <select
+              value={overrides.floodRisk ?? ''}
+              onChange={(e) => update('floodRisk', (e.target.value || undefined) as FloodRisk | undefined)}
+              className={inputClass}
+            >
+              <option value="">As fetched ({site.environmentalRisk?.floodZone.risk ?? 'unknown'})</option>
+              <option value="low">Low</option>
+              <option value="medium">Medium</option>
+              <option value="high">High</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-[var(--text-muted)] mb-1">Score As</label>
+            <select
+              value={tenantCategory}
+              onChange={(e) => setTenantCategory(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">General commercial</option>
+              {categories.map(category => <option key={category} value={category}>{category}</option>)}
+            </select>
+          </div>
+        </div>
+
+        {/* Competitors */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mt-4">
+          <div>
+            <label className="block text-xs text-[var(--text-muted)] mb-1">
+              Nearby Businesses ({site.businesses.length - removed.size} of {site.businesses.length} open) - uncheck to close
+            </label>
+            <div className="max-h-48 overflow-y-auto space-y-1 p-2 bg-[var(--bg-secondary)] rounded-lg">
+              {site.businesses.length === 0 && (
+                <p className="text-xs text-[var(--text-muted)]">No nearby businesses loaded</p>
+              )}
+              {site.businesses.map(business => {
+                const key = businessKey(business);
+                return (
+                  <label key={key} className="flex items-center gap-2 text-xs cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!removed.has(key)}
+                      onChange={() => toggleBusiness(key)}
+                      className="w-3.5 h-3.5 accent-[var(--accent-cyan)]"
+                    />
+                    <span className={removed.has(key) ? 'line-through text-[var(--text-muted)]' : 'text-[var(--text-secondary)]'}>
+                      {business.name}
+                    </span>
+                    <span className="text-[var(--text-muted)] ml-auto">{business.distance}</span>
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs text-[var(--text-muted)] mb-1">Add a Business</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newBusinessName}
+                onChange={(e) => setNewBusinessName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addBusiness()}
+                placeholder="e.g. Chick-fil-A"
+                className={inputClass}
+              />
+              <select
+                value={newBusinessCategory}
+                onChange={(e) => setNewBusinessCategory(e.target.value as PoiCategoryCode)}
+                className={inputClass}
+              >
+                {POI_TAXONOMY.map(category => <option key={category.code} value={category.code}>{category.label}</option>)}
+              </select>
+              <button onClick={addBusiness} disabled={!newBusinessName.trim()} className="btn-secondary text-sm">
+                Add
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2 mt-2">
+              {(overrides.addedBusinesses ?? []).map((business, index) => (
+                <span key={`${business.name}-${index}`} className="tag tag-cyan flex items-center gap-1">
+                  {business.name}
+                  <button onClick={() => removeAddedBusiness(index)} aria-label={`Remove ${business.name}`}>×</button>
+                </span>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Score comparison */}
+      <div className="p-4 bg-[var(--bg-tertiary)] rounded-lg border border-[var(--border-color)]">
+        <h3 className="font-semibold text-[var(--text-primary)] mb-4">Feasibility Score</h3>
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          {[{ title: 'Baseline', score: baselineScore }, { title: 'Scenario', score: scenarioScore }].map(({ title, score }) => (
+            <div key={title} className="p-3 bg-[var(--bg-secondary)] rounded-lg text-center">
+              <p className="text-xs text-[var(--text-muted)] mb-1">{title}</p>
+              <p className="text-3xl font-bold" style={{ color: getScoreColor(score.overall) }}>{score.overall.toFixed(1)}</p>
+              <p className="text-sm font-medium" style={{ color: getRatingColor(score.rating) }}>{score.rating}</p>
+            </div>
+          ))}
+        </div>
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[var(--text-muted)]">
+              <th className="text-left font-normal pb-1">Factor</th>
+              <th className="text-right font-normal pb-1">Baseline</th>
+              <th className="text-right font-normal pb-1">Scenario</th>
+              <th className="text-right font-normal pb-1">Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {FACTORS.map(({ key, label }) => {
+              const delta = scenarioScore.breakdown[key] - baselineScore.breakdown[key];
+              return (
+                <tr key={key} className="border-t border-[var(--border-color)]">
+                  <td className="py-1 text-[var(--text-secondary)]">{label}</td>
+                  <td className="py-1 text-right">{baselineScore.breakdown[key].toFixed(1)}</td>
+                  <td className="py-1 text-right">{scenarioScore.breakdown[key].toFixed(1)}</td>
+                  <td className="py-1 text-right font-medium" style={{ color: deltaColor(delta) }}>{formatDelta(delta)}</td>
+                </tr>
+              );
+            })}
+            <tr className="border-t border-[var(--border-color)] font-semibold">
+              <td className="py-1">Overall</td>
+              <td className="py-1 text-right">{baselineScore.overall.toFixed(1)}</td>
+              <td className="py-1 text-right">{scenarioScore.overall.toFixed(1)}</td>
+              <td className="py-1 text-right" style={{ color: deltaColor(scenarioScore.overall - baselineScore.overall) }}>
+                {formatDelta(scenarioScore.overall - baselineScore.overall)}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+        <p className="text-xs text-[var(--text-muted)] mt-2">Scoring model v{scenarioScore.modelVersion}</p>
+      </div>
+
+      <SensitivityChart bars={sensitivity} />
+
+      {/* Retailer matches */}
+      <div className="p-4 bg-[var(--bg-tertiary)] rounded-lg border border-[var(--border-color)]">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-semibold text-[var(--text-primary)]">Retailer Matches</h3>
+          {refreshing && <span className="text-xs text-[var(--text-muted)] animate-pulse">Updating scenario...</span>}
+        </div>
+        <RetailerMatchComparison baseline={baselineMatches} scenario={scenarioMatchList} />
+      </div>
+
+      {/* Recommendations */}
+      <div className="p-4 bg-[var(--bg-tertiary)] rounded-lg border border-[var(--border-color)]">
+        <h3 className="font-semibold text-[var(--text-primary)] mb-3">Recommendations</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {[{ title: 'Baseline', recs: baselineRecommendations }, { title: 'Scenario', recs: scenarioRecs }].map(({ title, recs }) => (
+            <div key={title} className="p-3 bg-[var(--bg-secondary)] rounded-lg">
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-xs text-[var(--text-muted)]">{title}</p>
+                {recs && <span className="text-lg font-bold">{recs.overallGrade} <span className="text-xs text-[var(--text-muted)]">({recs.overallScore})</span></span>}
+              </div>
+              {recs ? (
+                <>
+                  <p className="text-xs text-[var(--text-secondary)] mb-2">{recs.summary}</p>
+                  <p className="text-xs font-medium text-[var(--text-secondary)]">Suggested uses</p>
+                  <ul className="text-xs text-[var(--text-muted)] list-disc list-inside mb-2">
+                    {recs.suggestedUses.slice(0, 5).map(use => <li key={use}>{use}</li>)}
+                  </ul>
+                  {recs.concerns.length > 0 && (
+                    <>
+                      <p className="text-xs font-medium text-[var(--text-secondary)]">Concerns</p>
+                      <ul className="text-xs text-[var(--text-muted)] list-disc list-inside">
+                        {recs.concerns.slice(0, 4).map(concern => <li key={concern}>{concern}</li>)}
+                      </ul>
+                    </>
+                  )}
+                </>
+              ) : (
+                <p className="text-xs text-[var(--text-muted)]">{changed || title === 'Baseline' ? 'Loading...' : 'Not enough data'}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Tornado chart: each bar spans the overall score with one input at the low and high end of its test range
+function SensitivityChart({ bars }: { bars: ScoreSensitivity[] }) {
+  if (bars.length === 0) return null;
+
+  const values = bars.flatMap(b => [b.lowScore, b.highScore, b.baseScore]);
+  const min = Math.max(0, Math.floor(Math.min(...values) - 0.5));
+  const max = Math.min(10, Math.ceil(Math.max(...values) + 0.5));
+  const position = (score: number) => `${((score - min) / (max - min || 1)) * 100}%`;
+  const base = bars[0].baseScore;
+
+  return (
+    <div className="p-4 bg-[var(--bg-tertiary)] rounded-lg border border-[var(--border-color)]">
+      <h3 className="font-semibold text-[var(--text-primary)]">Score Sensitivity</h3>
+      <p className="text-xs text-[var(--text-muted)] mb-4">
+        Overall score with one scenario input moved at a time; the line marks the scenario score ({base.toFixed(1)})
+      </p>
+      <div className="space-y-3">
+        {bars.map(bar => {
+          const lower = Math.min(bar.lowScore, bar.highScore);
+          const upper = Math.max(bar.lowScore, bar.highScore);
+          return (
+            <div key={bar.input} className="flex items-center gap-3">
+              <div className="w-32 text-xs text-[var(--text-secondary)]">
+                {bar.label}
+                <span className="block text-[var(--text-muted)]">±{bar.swing.toFixed(1)}</span>
+              </div>
+              <div className="flex-1">
+                <div className="relative h-4 bg-[var(--bg-secondary)] rounded">
+                  {lower < base && (
+                    <div
+                      className="absolute h-full rounded-l"
+                      style={{ left: position(lower), width: `calc(${position(base)} - ${position(lower)})`, backgroundColor: 'var(--accent-red)', opacity: 0.7 }}
+                    />
+                  )}
+                  {upper > base && (
+                    <div
+                      className="absolute h-full rounded-r"
+                      style={{ left: position(base), width: `calc(${position(upper)} - ${position(base)})`, backgroundColor: 'var(--accent-green)', opacity: 0.7 }}
+                    />
+                  )}
+                  <div className="absolute h-full w-px bg-[var(--text-primary)]" style={{ left: position(base) }} />
+                </div>
+                <div className="flex justify-between text-[10px] text-[var(--text-muted)] mt-0.5">
+                  <span>{bar.lowLabel}: {bar.lowScore.toFixed(1)}</span>
+                  <span>{bar.highLabel}: {bar.highScore.toFixed(1)}</span>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex justify-between text-[10px] text-[var(--text-muted)] mt-2 ml-[8.75rem]">
+        <span>{min}</span>
+        <span>{max}</span>
+      </div>
+    </div>
+  );
+}
+
+function RetailerMatchComparison({ baseline, scenario }: { baseline: RetailerMatchResult | null; scenario: RetailerMatchResult | null }) {
+  if (!scenario || scenario.matches.length === 0) {
+    return <p className="text-xs text-[var(--text-muted)]">No retailer matches for this scenario</p>;
+  }
+
+  const baselineScores = new Map((baseline?.matches ?? []).map(m => [m.name, m.matchScore]));
+  const scenarioNames = new Set(scenario.matches.map(m => m.name));
+  const dropped = (baseline?.matches ?? []).slice(0, 10).filter(m => !scenarioNames.has(m.name));
+
+  return (
+    <div>
+      <div className="space-y-1">
+        {scenario.matches.slice(0, 10).map(match => {
+          const before = baselineScores.get(match.name);
+          const delta = before === undefined ? null : match.matchScore - before;
+          return (
+            <div key={match.name} className="flex items-center gap-2 text-xs p-2 bg-[var(--bg-secondary)] rounded">
+              <span className="font-medium">{match.name}</span>
+              <span className="text-[var(--text-muted)]">{match.category}</span>
+              <span className="ml-auto font-medium">{match.matchScore}%</span>
+              <span className="w-12 text-right" style={{ color: delta === null ? 'var(--accent-cyan)' : deltaColor(delta) }}>
+                {delta === null ? 'New' : formatDelta(delta, 0)}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      {dropped.length > 0 && (
+        <p className="text-xs text-[var(--text-muted)] mt-2">
+          No longer matching: {dropped.map(m => m.name).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { FeasibilityScore } from '@/types';
+import { FACTOR_LABELS, formatTraceInputs, formatTracePoints, getScoreColor } from '@/utils/feasibilityScore';
+
+interface ScoreAuditPanelProps {
+  feasibilityScore: FeasibilityScore;
+}
+
+// Expandable per-factor breakdown of how the score was reached: inputs, data source and each rule that fired
+export default function ScoreAuditPanel({ feasibilityScore }: ScoreAuditPanelProps) {
+  const audit = feasibilityScore.audit;
+
+  return (
+    <details className="mt-4 pt-4 border-t border-[var(--border-color)]">
+      <summary className="text-xs text-[var(--text-muted)] cursor-pointer hover:text-[var(--text-secondary)]">
+        Score audit trail (model v{feasibilityScore.modelVersion}{feasibilityScore.tenantCategory ? `, ${feasibilityScore.tenantCategory}` : ''})
+      </summary>
+
+      {!audit ? (
+        <p className="mt-2 text-xs text-[var(--text-muted)]">
+          This score was saved before audit trails were recorded. Re-run the analysis to see how it was reached.
+        </p>
+      ) : (
+        <div className="mt-3 space-y-3">
+          {audit.map(trace => (
+            <div key={trace.factor} className="p-3 bg-[var(--bg-secondary)] rounded-lg text-xs">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-[var(--text-secondary)]">{FACTOR_LABELS[trace.factor]}</span>
+                  {trace.neutral && <span className="tag tag-cyan">No data</span>}
+                </div>
+                <div className="flex items-center gap-3 font-mono">
+                  <span style={{ color: getScoreColor(trace.score) }}>{trace.score}/10</span>
+                  <span className="text-[var(--text-muted)]">× {Math.round(trace.weight * 100)}%</span>
+                  <span className="text-[var(--text-secondary)]">= {trace.contribution.toFixed(2)}</span>
+                </div>
+              </div>
+
+              {trace.source && (
+                <p className="text-[var(--text-muted)] mb-1">
+                  <span className="text-[var(--text-secondary)]">Source:</span> {trace.source}
+                </p>
+              )}
+              {Object.keys(trace.inputs).length > 0 && (
+                <p className="text-[var(--text-muted)] mb-2">
+                  <span className="text-[var(--text-secondary)]">Inputs:</span> {formatTraceInputs(trace.inputs)}
+                </p>
+              )}
+
+              <table className="w-full">
+                <tbody>
+                  {trace.steps.map((step, i) => (
+                    <tr key={i} className="border-t border-[var(--border-color)]">
+                      <td className="py-1 pr-2 text-[var(--text-muted)]">{step.rule}</td>
+                      <td
+                        className={`py-1 text-right font-mono whitespace-nowrap ${
+                          step.kind === 'base'
+                            ? 'text-[var(--text-secondary)]'
+                            : step.points >= 0 ? 'text-[var(--accent-green)]' : 'text-[var(--accent-red)]'
+                        }`}
+                      >
+                        {formatTracePoints(step)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+
+          <p className="text-xs text-[var(--text-muted)] text-right font-mono">
+            Overall: {audit.reduce((sum, t) => sum + t.contribution, 0).toFixed(2)} → {feasibilityScore.overall}
+          </p>
+        </div>
+      )}
+    </details>
+  );
+}
@@ -1,81 +1,195 @@
 'use client';
 
 import { useState } from 'react';
-import { PropertyData } from '@/types';
+import { PropertyData, AccessPoint, RetailerMatchResult, CreateShareResult } from '@/types';
 
 interface ShareButtonProps {
   propertyData: PropertyData;
   address: string;
+  accessPoints?: AccessPoint[];
+  retailerMatches?: RetailerMatchResult | null;
 }
 
-export default function ShareButton({ propertyData, address }: ShareButtonProps) {
+// Revoke tokens for links created in this browser, keyed by share ID
+const SHARE_TOKENS_KEY = 'drone-sense-share-tokens';
+
+const EXPIRY_OPTIONS = [
+  { value: 0, label: 'Never expires' },
+  { value: 7, label: 'Expires in 7 days' },
+  { value: 30, label: 'Expires in 30 days' },
+  { value: 90, label: 'Expires in 90 days' },
+];
+
+function rememberRevokeToken(id: string, token: string) {
+  try {
+    const tokens = JSON.parse(localStorage.getItem(SHARE_TOKENS_KEY) || '{}');
+    tokens[id] = token;
+    localStorage.setItem(SHARE_TOKENS_KEY, JSON.stringify(tokens));
+  } catch (err) {
+    console.error('Failed to store share revoke token:', err);
+  }
+}
+
+function getRevokeToken(id: string): string | null {
+  try {
+    return JSON.parse(localStorage.getItem(SHARE_TOKENS_KEY) || '{}')[id] || null;
+  } catch {
+    return null;
+  }
+}
+
+export default function ShareButton({ propertyData, address, accessPoints, retailerMatches }: ShareButtonProps) {
+  const [showPanel, setShowPanel] = useState(false);
+  const [expiresInDays, setExpiresInDays] = useState(0);
+  const [share, setShare] = useState<CreateShareResult | null>(null);
   const [copied, setCopied] = useState(false);
   const [sharing, setSharing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const shareUrl = share ? `${window.location.origin}/shared/${share.id}` : '';
 
-  const generateShareUrl = async () => {
+  const copyLink = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 3000);
+  };
+
+  const createShareLink = async () => {
     if (!propertyData.coordinates) {
       alert('No location data to share');
       return;
     }
 
     setSharing(true);
+    setError(null);
 
     try {
-      // Create a minimal shareable data object
-      const shareData = {
-        address,
-        coordinates: propertyData.coordinates,
-        score: propertyData.analysis?.viabilityScore || propertyData.analysis?.feasibilityScore?.overall,
-        timestamp: new Date().toISOString(),
-      };
-
-      // Encode the data as base64 for URL sharing
-      const encoded = btoa(JSON.stringify(shareData));
-
-      // Store full data in localStorage with the encoded ID as key
-      const shareKey = `drone-sense-share-${encoded.slice(0, 20)}`;
-      localStorage.setItem(shareKey, JSON.stringify({
-        ...shareData,
-        fullData: propertyData,
-      }));
-
-      // Generate the shareable URL
-      const shareUrl = `${window.location.origin}/shared/${encodeURIComponent(encoded)}`;
-
-      // Copy to clipboard
-      await navigator.clipboard.writeText(shareUrl);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 3000);
-    } catch (error) {
-      console.error('Failed to share:', error);
-      alert('Failed to generate share link');
+      const response = await fetch('/api/shares', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          propertyData: { ...propertyData, address },
+          accessPoints,
+          retailerMatches,
+          expiresInDays: expiresInDays || null,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to generate share link');
+      }
+
+      const created = data as CreateShareResult;
+      rememberRevokeToken(created.id, created.revokeToken);
+      setShare(created);
+      await copyLink(`${window.location.origin}/shared/${created.id}`);
+    } catch (err) {
+      console.error('Failed to share:', err);
+      setError(err instanceof Error ? err.message : 'Failed to generate share link');
     } finally {
       setSharing(false);
     }
   };
 
+  const revokeShareLink = async () => {
+    if (!share) return;
+    const token = getRevokeToken(share.id) || share.revokeToken;
+    if (!confirm('Revoke this link? Anyone who has it will no longer be able to view the analysis.')) return;
+
+    try {
+      const response = await fetch(`/api/shares/${share.id}`, {
+        method: 'DELETE',
+        headers: { 'x-revoke-token': token },
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to revoke link');
+      }
+      setShare(null);
+    } catch (err) {
+      console.error('Failed to revoke share link:', err);
+      setError(err instanceof Error ? err.message : 'Failed to revoke link');
+    }
+  };
+
   return (
-    <button
-      onClick={generateShareUrl}
-      disabled={sharing || !propertyData.analysis}
-      className="btn-secondary flex items-center gap-2 disabled:opacity-50"
-      title={copied ? 'Link copied!' : 'Share this analysis'}
-    >
-      {sharing ? (
-        <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
-          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-        </svg>
-      ) : copied ? (
-        <svg className="w-4 h-4 text-[var(--accent-green)]" fill="currentColor" viewBox="0 0 20 20">
-          <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-        </svg>
-      ) : (
+    <div className="relative">
+      <button
+        onClick={() => setShowPanel(!showPanel)}
+        disabled={!propertyData.analysis}
+        className="btn-secondary flex items-center gap-2 disabled:opacity-50"
+        title="Share this analysis"
+      >
         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
         </svg>
+        Share
+      </button>
+
+      {showPanel && (
+        <div className="absolute right-0 mt-2 w-80 z-40 p-4 rounded-lg border border-[var(--border-color)] bg-[var(--bg-secondary)] shadow-lg space-y-3">
+          {share ? (
+            <>
+              <p className="text-xs text-[var(--text-muted)]">
+                {share.expiresAt
+                  ? `Link expires ${new Date(share.expiresAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`
+                  : 'Link never expires'}
+              </p>
+              <input
+                type="text"
+                readOnly
+                value={shareUrl}
+                onFocus={(e) => e.target.select()}
+                className="w-full terminal-input text-xs"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={() => copyLink(shareUrl)}
+                  className="flex-1 px-3 py-2 bg-[var(--accent-cyan)] text-white rounded text-sm font-medium"
+                >
+                  {copied ? 'Copied!' : 'Copy Link'}
+                </button>
+                <button
+                  onClick={revokeShareLink}
+                  className="px-3 py-2 bg-[var(--bg-tertiary)] text-[var(--text-secondary)] hover:text-[var(--accent-red)] rounded text-sm"
+                >
+                  Revoke
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-xs text-[var(--text-muted)]">
+                Creates a read-only snapshot of this analysis that anyone with the link can view.
+              </p>
+              <select
+                value={expiresInDays}
+                onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                className="w-full bg-[var(--bg-tertiary)] border border-[var(--border-color)] rounded text-sm text-[var(--text-secondary)] px-2 py-2"
+              >
+                {EXPIRY_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={createShareLink}
+                disabled={sharing}
+                className="w-full px-3 py-2 bg-[var(--accent-cyan)] text-white rounded text-sm font-medium disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {sharing && (
+                  <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                  </svg>
+                )}
+                Create Share Link
+              </button>
+            </>
+          )}
+          {error && <p className="text-xs text-[var(--accent-red)]">{error}</p>}
+        </div>
       )}
-      {copied ? 'Copied!' : 'Share'}
-    </button>
+    </div>
   );
 }
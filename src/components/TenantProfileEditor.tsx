@@ -0,0 +1,267 @@
+'use client';
+
+import { useState } from 'react';
+import { TenantProfile, TenantProfileInput } from '@/types';
+import { ZONING_TYPES } from '@/lib/business-requirements';
+
+interface TenantProfileEditorProps {
+  profile?: TenantProfile | null;
+  onSave: (input: TenantProfileInput) => Promise<void>;
+  onDelete?: () => Promise<void>;
+  onClose: () => void;
+}
+
+// Form values are kept as strings so fields can be left blank while editing
+interface ProfileForm {
+  name: string;
+  description: string;
+  minAcres: string;
+  maxAcres: string;
+  minVPD: string;
+  idealVPD: string;
+  minHHI: string;
+  maxHHI: string;
+  minPopulation: string;
+  minRoadFrontage: string;
+  preferCornerLot: boolean;
+  driveThruRequired: boolean;
+  zoning: string[];
+  preferredCoTenants: string;
+  excludedCoTenants: string;
+  expansionRegions: string;
+}
+
+function toForm(profile?: TenantProfile | null): ProfileForm {
+  const text = (value?: number) => (value === undefined ? '' : String(value));
+  return {
+    name: profile?.name ?? '',
+    description: profile?.description ?? '',
+    minAcres: text(profile?.minAcres),
+    maxAcres: text(profile?.maxAcres),
+    minVPD: text(profile?.minVPD),
+    idealVPD: text(profile?.idealVPD),
+    minHHI: text(profile?.minHHI),
+    maxHHI: text(profile?.maxHHI),
+    minPopulation: text(profile?.minPopulation),
+    minRoadFrontage: text(profile?.minRoadFrontage),
+    preferCornerLot: profile?.preferCornerLot ?? false,
+    driveThruRequired: profile?.driveThruRequired ?? false,
+    zoning: profile?.zoning ?? [],
+    preferredCoTenants: profile?.coTenancy.preferred.join(', ') ?? '',
+    excludedCoTenants: profile?.coTenancy.excluded.join(', ') ?? '',
+    expansionRegions: profile?.expansionRegions.join(', ') ?? '',
+  };
+}
+
+function toInput(form: ProfileForm): TenantProfileInput {
+  const number = (value: string) => (value.trim() === '' ? undefined : Number(value));
+  const list = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+  return {
+    name: form.name,
+    description: form.description || undefined,
+    minAcres: Number(form.minAcres),
+    maxAcres: Number(form.maxAcres),
+    minVPD: Number(form.minVPD),
+    idealVPD: number(form.idealVPD),
+    minHHI: number(form.minHHI),
+    maxHHI: number(form.maxHHI),
+    minPopulation: number(form.minPopulation),
+    minRoadFrontage: number(form.minRoadFrontage),
+    preferCornerLot: form.preferCornerLot,
+    driveThruRequired: form.driveThruRequired,
+    zoning: form.zoning,
+    coTenancy: {
+      preferred: list(form.preferredCoTenants),
+      excluded: list(form.excludedCoTenants),
+    },
+    expansionRegions: list(form.expansionRegions),
+  };
+}
+
+type TextField = { [K in keyof ProfileForm]: ProfileForm[K] extends string ? K : never }[keyof ProfileForm];
+
+const inputClass = 'w-full px-3 py-2 bg-[var(--bg-secondary)] border border-[var(--border-color)] rounded-lg focus:outline-none focus:border-[var(--accent-cyan)] text-sm';
+
+export default function TenantProfileEditor({ profile, onSave, onDelete, onClose }: TenantProfileEditorProps) {
+  const [form, setForm] = useState<ProfileForm>(() => toForm(profile));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = <K extends keyof ProfileForm>(field: K, value: ProfileForm[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const toggleZoning = (code: string) => {
+    update('zoning', form.zoning.includes(code) ? form.zoning.filter(z => z !== code) : [...form.zoning, code]);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.minAcres || !form.maxAcres || !form.minVPD) {
+      setError('Name, acreage range and minimum VPD are required');
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(toInput(form));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!onDelete || !confirm(`Delete the "${profile?.name}" profile?`)) return;
+    setSaving(true);
+    try {
+      await onDelete();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete profile');
+      setSaving(false);
+    }
+  };
+
+  const numberField = (field: TextField, label: string, placeholder: string, step = '1') => (
+    <div>
+      <label className="block text-xs text-[var(--text-muted)] mb-1">{label}</label>
+      <input
+        type="number"
+        min="0"
+        step={step}
+        value={form[field]}
+        onChange={(e) => update(field, e.target.value)}
+        placeholder={placeholder}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  return (
+    <div className="p-4 bg-[var(--bg-tertiary)] rounded-lg mb-4 border border-[var(--accent-cyan)]/30">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold">{profile ? `Edit Profile: ${profile.name}` : 'New Tenant Profile'}</h3>
+        <button onClick={onClose} className="text-sm text-[var(--text-muted)] hover:underline">
+          Close
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="md:col-span-2">
+          <label className="block text-xs text-[var(--text-muted)] mb-1">Profile Name</label>
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => update('name', e.target.value)}
+            placeholder="e.g. Sunshine Coffee Co. freestanding"
+            className={inputClass}
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-xs text-[var(--text-muted)] mb-1">Description</label>
+          <input
+            type="text"
+            value={form.description}
+            onChange={(e) => update('description', e.target.value)}
+            placeholder="Optional notes about the tenant's criteria"
+            className={inputClass}
+          />
+        </div>
+
+        {numberField('minAcres', 'Min Acres', '0.5', '0.1')}
+        {numberField('maxAcres', 'Max Acres', '1.5', '0.1')}
+        {numberField('minVPD', 'Min VPD', '15000')}
+        {numberField('idealVPD', 'Ideal VPD', '25000')}
+        {numberField('minHHI', 'Min Median HHI ($)', '50000')}
+        {numberField('maxHHI', 'Max Median HHI ($)', 'No max')}
+        {numberField('minPopulation', 'Min Trade Area Population', '20000')}
+        {numberField('minRoadFrontage', 'Min Road Frontage (ft)', '150')}
+
+        <div className="md:col-span-2">
+          <label className="block text-xs text-[var(--text-muted)] mb-1">Preferred Co-Tenants</label>
+          <input
+            type="text"
+            value={form.preferredCoTenants}
+            onChange={(e) => update('preferredCoTenants', e.target.value)}
+            placeholder="Publix, Target, Starbucks"
+            className={inputClass}
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-xs text-[var(--text-muted)] mb-1">Excluded Co-Tenants</label>
+          <input
+            type="text"
+            value={form.excludedCoTenants}
+            onChange={(e) => update('excludedCoTenants', e.target.value)}
+            placeholder="Competing brands to stay away from"
+            className={inputClass}
+          />
+        </div>
+
+        <div className="md:col-span-2">
+          <label className="block text-xs text-[var(--text-muted)] mb-1">Expansion Regions</label>
+          <input
+            type="text"
+            value={form.expansionRegions}
+            onChange={(e) => update('expansionRegions', e.target.value)}
+            placeholder="Southeast, TX (blank for anywhere)"
+            className={inputClass}
+          />
+        </div>
+        <div className="md:col-span-2 flex items-end gap-6 pb-2">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={form.preferCornerLot}
+              onChange={(e) => update('preferCornerLot', e.target.checked)}
+              className="w-4 h-4 accent-[var(--accent-cyan)]"
+            />
+            <span className="text-sm text-[var(--text-secondary)]">Prefers Corner Lot</span>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={form.driveThruRequired}
+              onChange={(e) => update('driveThruRequired', e.target.checked)}
+              className="w-4 h-4 accent-[var(--accent-cyan)]"
+            />
+            <span className="text-sm text-[var(--text-secondary)]">Requires Drive-Thru</span>
+          </label>
+        </div>
+
+        <div className="md:col-span-2 lg:col-span-4">
+          <label className="block text-xs text-[var(--text-muted)] mb-1">Allowed Zoning</label>
+          <div className="flex flex-wrap gap-2">
+            {ZONING_TYPES.map(zone => (
+              <button
+                key={zone.code}
+                type="button"
+                onClick={() => toggleZoning(zone.code)}
+                className={`px-3 py-1.5 rounded-lg text-xs transition-colors ${
+                  form.zoning.includes(zone.code)
+                    ? 'bg-[var(--accent-cyan)]/20 border border-[var(--accent-cyan)] text-[var(--accent-cyan)]'
+                    : 'bg-[var(--bg-secondary)] border border-[var(--border-color)] text-[var(--text-secondary)] hover:border-[var(--accent-cyan)]/50'
+                }`}
+              >
+                {zone.code}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400 mt-3">{error}</p>}
+
+      <div className="flex items-center justify-between mt-4">
+        {profile && onDelete ? (
+          <button onClick={handleDelete} disabled={saving} className="text-sm text-red-400 hover:text-red-300">
+            Delete Profile
+          </button>
+        ) : <span />}
+        <button onClick={handleSave} disabled={saving} className="btn-primary px-6">
+          {saving ? 'Saving...' : 'Save Profile'}
+        </button>
+      </div>
+    </div>
+  );
+}
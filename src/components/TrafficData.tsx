@@ -150,7 +150,7 @@ export default function TrafficData({ coordinates, address, parcelBoundary, onDa
                   <div className="flex justify-between items-center">
                     <div>
                       <p className="font-semibold text-[var(--text-primary)]">{road.roadName}</p>
-                      <p className="text-xs text-[var(--text-muted)]">Florida DOT {road.year}</p>
+                      <p className="text-xs text-[var(--text-muted)]">{road.source || 'Official AADT'} {road.year}</p>
                     </div>
                     <div className="text-right">
                       <p className="text-xl font-bold text-[var(--accent-cyan)]">
@@ -219,7 +219,7 @@ export default function TrafficData({ coordinates, address, parcelBoundary, onDa
           </div>
 
           <p className="text-xs text-[var(--text-muted)] text-center">
-            Real-time: TomTom | VPD: Florida DOT AADT
+            Real-time: TomTom | VPD: {traffic.roads?.length ? Array.from(new Set(traffic.roads.map(r => r.source || 'Official AADT'))).join(', ') : 'Estimated'}
           </p>
         </div>
       )}
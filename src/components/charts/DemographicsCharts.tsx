@@ -1,7 +1,8 @@
 'use client';
 
+import { useState } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend } from 'recharts';
-import { ExtendedDemographics } from '@/types';
+import { ExtendedDemographics, TradeAreaMode } from '@/types';
 import DataSourceTooltip, { DATA_SOURCES } from '@/components/ui/DataSourceTooltip';
 
 interface DemographicsChartsProps {
@@ -11,12 +12,18 @@ interface DemographicsChartsProps {
 const COLORS = ['#06b6d4', '#3b82f6', '#22c55e', '#f97316', '#a855f7', '#ef4444'];
 
 export default function DemographicsCharts({ demographics }: DemographicsChartsProps) {
-  // Population by radius data
-  const radiusData = demographics.multiRadius ? [
-    { radius: '1 Mile', population: demographics.multiRadius.oneMile.population, households: demographics.multiRadius.oneMile.households },
-    { radius: '3 Miles', population: demographics.multiRadius.threeMile.population, households: demographics.multiRadius.threeMile.households },
-    { radius: '5 Miles', population: demographics.multiRadius.fiveMile.population, households: demographics.multiRadius.fiveMile.households },
-  ] : [];
+  const [tradeAreaMode, setTradeAreaMode] = useState<TradeAreaMode>('radius');
+  const driveTimeAreas = demographics.driveTime?.areas ?? [];
+  const showDriveTime = tradeAreaMode === 'drive-time' && driveTimeAreas.length > 0;
+
+  // Population by radius (or drive time) data
+  const radiusData = showDriveTime
+    ? driveTimeAreas.map(area => ({ radius: `${area.driveMinutes} Min`, population: area.population, households: area.households }))
+    : demographics.multiRadius ? [
+      { radius: '1 Mile', population: demographics.multiRadius.oneMile.population, households: demographics.multiRadius.oneMile.households },
+      { radius: '3 Miles', population: demographics.multiRadius.threeMile.population, households: demographics.multiRadius.threeMile.households },
+      { radius: '5 Miles', population: demographics.multiRadius.fiveMile.population, households: demographics.multiRadius.fiveMile.households },
+    ] : [];
 
   // Age distribution data
   const ageData = demographics.ageDistribution || [
@@ -111,12 +118,30 @@ export default function DemographicsCharts({ demographics }: DemographicsChartsP
       {/* Population by Radius */}
       {radiusData.length > 0 && (
         <div>
-          <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
-            <svg className="w-5 h-5 text-[var(--accent-cyan)]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
-            </svg>
-            Population by Radius
-          </h3>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold flex items-center gap-2">
+              <svg className="w-5 h-5 text-[var(--accent-cyan)]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+              </svg>
+              {showDriveTime ? 'Population by Drive Time' : 'Population by Radius'}
+            </h3>
+            {driveTimeAreas.length > 0 && (
+              <div className="flex gap-1">
+                <button
+                  onClick={() => setTradeAreaMode('radius')}
+                  className={`text-xs py-1 px-2 rounded ${tradeAreaMode === 'radius' ? 'bg-[var(--accent-cyan)] text-white' : 'bg-[var(--bg-tertiary)]'}`}
+                >
+                  Radius
+                </button>
+                <button
+                  onClick={() => setTradeAreaMode('drive-time')}
+                  className={`text-xs py-1 px-2 rounded ${tradeAreaMode === 'drive-time' ? 'bg-[var(--accent-cyan)] text-white' : 'bg-[var(--bg-tertiary)]'}`}
+                >
+                  Drive Time
+                </button>
+              </div>
+            )}
+          </div>
           <div className="h-64">
             <ResponsiveContainer width="100%" height="100%">
               <BarChart data={radiusData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
@@ -130,6 +155,18 @@ export default function DemographicsCharts({ demographics }: DemographicsChartsP
               </BarChart>
             </ResponsiveContainer>
           </div>
+          {showDriveTime && demographics.driveTime && (
+            <p className="text-xs text-[var(--text-muted)] mt-2">
+              {`${driveTimeAreas[driveTimeAreas.length - 1].geographyCount ?? 0} census ${demographics.driveTime.geography}s pooled within a ${driveTimeAreas[driveTimeAreas.length - 1].driveMinutes}-minute drive (${driveTimeAreas[driveTimeAreas.length - 1].areaSqMiles} sq mi, ${demographics.driveTime.vintage})`}
+            </p>
+          )}
+          {!showDriveTime && demographics.radiusMethod && (
+            <p className="text-xs text-[var(--text-muted)] mt-2">
+              {demographics.radiusMethod.method === 'single-tract-scaled'
+                ? 'Estimated: site census tract scaled by ring area'
+                : `${demographics.multiRadius?.fiveMile.geographyCount ?? 0} census ${demographics.radiusMethod.geography}s pooled within 5 miles (${demographics.radiusMethod.vintage})`}
+            </p>
+          )}
         </div>
       )}
 
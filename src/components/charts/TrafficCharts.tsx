@@ -1,6 +1,6 @@
 'use client';
 
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, RadialBarChart, RadialBar } from 'recharts';
+import { BarChart, Bar, LineChart, Line, Legend, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, RadialBarChart, RadialBar } from 'recharts';
 import { TrafficInfo, AccessPoint } from '@/types';
 import DataSourceTooltip, { DATA_SOURCES } from '@/components/ui/DataSourceTooltip';
 
@@ -27,14 +27,15 @@ const ROAD_TYPE_VPD: Record<string, { min: number; max: number; avg: number; lab
   service: { min: 50, max: 500, avg: 200, label: 'Service Road' },
 };
 
-// Calculate VPD from access points (now uses actual FDOT data when available)
+// Calculate VPD from access points (uses official DOT/local AADT counts when available)
 function calculateAccessPointVPD(accessPoints: AccessPoint[]): {
   totalVPD: number;
   primaryRoadVPD: number;
   primaryRoadType: string;
   primaryRoadName: string;
-  primaryVpdSource: 'fdot' | 'estimated' | undefined;
-  roadBreakdown: Array<{ name: string; type: string; vpd: number; label: string; source: 'fdot' | 'estimated'; year?: number }>;
+  primaryVpdSource: 'official' | 'estimated' | undefined;
+  primaryVpdAgency?: string;
+  roadBreakdown: Array<{ name: string; type: string; vpd: number; label: string; source: 'official' | 'estimated'; year?: number; agency?: string }>;
 } {
   if (!accessPoints || accessPoints.length === 0) {
     return {
@@ -51,33 +52,35 @@ function calculateAccessPointVPD(accessPoints: AccessPoint[]): {
   const roadMap = new Map<string, {
     type: string;
     vpd: number;
-    source: 'fdot' | 'estimated';
+    source: 'official' | 'estimated';
     year?: number;
+    agency?: string;
   }>();
 
   for (const ap of accessPoints) {
     const existing = roadMap.get(ap.roadName);
-    // Use actual FDOT VPD if available, otherwise use estimated
+    // Use the official count if available, otherwise use estimated
     const vpd = ap.vpd || ap.estimatedVpd || ROAD_TYPE_VPD[ap.roadType || 'unclassified']?.avg || 800;
     const source = ap.vpdSource || 'estimated';
     const year = ap.vpdYear;
+    const agency = ap.vpdAgency;
 
     if (!existing) {
-      roadMap.set(ap.roadName, { type: ap.roadType || 'unclassified', vpd, source, year });
+      roadMap.set(ap.roadName, { type: ap.roadType || 'unclassified', vpd, source, year, agency });
     } else {
-      // Prefer FDOT data over estimated, or higher VPD if both same source
-      if ((source === 'fdot' && existing.source !== 'fdot') ||
+      // Prefer official counts over estimated, or higher VPD if both same source
+      if ((source === 'official' && existing.source !== 'official') ||
           (source === existing.source && vpd > existing.vpd)) {
-        roadMap.set(ap.roadName, { type: ap.roadType || 'unclassified', vpd, source, year });
+        roadMap.set(ap.roadName, { type: ap.roadType || 'unclassified', vpd, source, year, agency });
       }
     }
   }
 
   // Build road breakdown
-  const roadBreakdown: Array<{ name: string; type: string; vpd: number; label: string; source: 'fdot' | 'estimated'; year?: number }> = [];
+  const roadBreakdown: Array<{ name: string; type: string; vpd: number; label: string; source: 'official' | 'estimated'; year?: number; agency?: string }> = [];
   let maxVPD = 0;
-  let primaryRoad: { name: string; type: string; vpd: number; source: 'fdot' | 'estimated'; year?: number } = {
-    name: '', type: '', vpd: 0, source: 'estimated', year: undefined
+  let primaryRoad: { name: string; type: string; vpd: number; source: 'official' | 'estimated'; year?: number; agency?: string } = {
+    name: '', type: '', vpd: 0, source: 'estimated', year: undefined, agency: undefined
   };
 
   for (const [roadName, info] of roadMap) {
@@ -90,11 +93,12 @@ function calculateAccessPointVPD(accessPoints: AccessPoint[]): {
       label,
       source: info.source,
       year: info.year,
+      agency: info.agency,
     });
 
     if (info.vpd > maxVPD) {
       maxVPD = info.vpd;
-      primaryRoad = { name: roadName, type: info.type, vpd: info.vpd, source: info.source, year: info.year };
+      primaryRoad = { name: roadName, type: info.type, vpd: info.vpd, source: info.source, year: info.year, agency: info.agency };
     }
   }
 
@@ -110,6 +114,7 @@ function calculateAccessPointVPD(accessPoints: AccessPoint[]): {
     primaryRoadType: primaryRoad.type,
     primaryRoadName: primaryRoad.name,
     primaryVpdSource: primaryRoad.source,
+    primaryVpdAgency: primaryRoad.agency,
     roadBreakdown,
   };
 }
@@ -121,6 +126,15 @@ export default function TrafficCharts({ trafficData, accessPoints: propAccessPoi
   // Calculate VPD from access points
   const accessPointVPD = calculateAccessPointVPD(accessPoints || []);
 
+  // Agencies behind the official counts shown, for source labels
+  const officialAgencies = Array.from(new Set(
+    accessPointVPD.roadBreakdown.filter(r => r.source === 'official').map(r => r.agency || 'DOT')
+  ));
+  const officialSourceName = officialAgencies.length > 0 ? `${officialAgencies.join(', ')} AADT` : 'Traffic Estimation';
+  const officialSourceUrl = officialAgencies.length === 1 && officialAgencies[0] === 'FDOT' ? 'https://tdaappsprod.dot.state.fl.us/fto/' : undefined;
+  // The traffic route only lists roads matched to an official count
+  const hasOfficialRoadCounts = (trafficData.roads?.length ?? 0) > 0;
+
   // Determine primary VPD source - prefer access points
   const hasAccessPointData = accessPoints && accessPoints.length > 0 && accessPointVPD.totalVPD > 0;
   const primaryVPD = hasAccessPointData ? accessPointVPD.totalVPD : trafficData.estimatedVPD;
@@ -209,6 +223,48 @@ export default function TrafficCharts({ trafficData, accessPoints: propAccessPoi
     return null;
   };
 
+  // Multi-year AADT history per road; the projection is drawn from the latest non-anomalous count
+  const trendColors = ['#06b6d4', '#8b5cf6', '#ec4899', '#f59e0b'];
+  const trendRoads = (trafficData.roads || []).filter(road => road.trend && road.trend.history.length >= 2);
+  const trendYears = Array.from(new Set(trendRoads.flatMap(road => [
+    ...road.trend!.history.map(h => h.year),
+    ...(road.trend!.projectedVpd !== null ? [road.trend!.projectionYear] : []),
+  ]))).sort((a, b) => a - b);
+  const trendData = trendYears.map(year => {
+    const row: Record<string, number> = { year };
+    for (const road of trendRoads) {
+      const trend = road.trend!;
+      const observed = trend.history.find(h => h.year === year);
+      if (observed) row[road.roadName] = observed.aadt;
+
+      const anomalyYears = new Set(trend.anomalies.map(a => a.year));
+      const base = [...trend.history].reverse().find(h => !anomalyYears.has(h.year));
+      if (trend.projectedVpd !== null && base) {
+        if (year === base.year) row[`${road.roadName} (projected)`] = base.aadt;
+        if (year === trend.projectionYear) row[`${road.roadName} (projected)`] = trend.projectedVpd;
+      }
+    }
+    return row;
+  });
+
+  // Hourly profile of the primary road, split into the lanes on the site's side and the far side
+  const profile = trafficData.profiles?.[0];
+  const formatHour = (hour: number) => `${hour % 12 === 0 ? 12 : hour % 12}${hour < 12 ? 'a' : 'p'}`;
+  const hourlyData = (profile?.hourly || []).map(h => ({
+    hour: formatHour(h.hour),
+    inbound: h.inbound,
+    outbound: h.outbound,
+  }));
+  const sideLabel = (direction: 'inbound' | 'outbound') =>
+    direction === 'inbound' ? 'Inbound (morning commute)' : 'Outbound (going home)';
+  const amFit = profile?.daypartFits.find(f => f.daypart === 'morning');
+  const pmFit = profile?.daypartFits.find(f => f.daypart === 'evening');
+  const fitColor = (score: number) =>
+    score >= 7 ? 'text-green-400' : score >= 5 ? 'text-cyan-400' : score >= 3 ? 'text-yellow-400' : 'text-red-400';
+
+  const formatGrowth = (cagr: number | null) =>
+    cagr === null ? 'N/A' : `${cagr >= 0 ? '+' : ''}${(cagr * 100).toFixed(1)}%/yr`;
+
   const getTrafficLevelColor = (level: string) => {
     switch (level.toLowerCase()) {
       case 'high': return 'text-green-400';
@@ -230,9 +286,9 @@ export default function TrafficCharts({ trafficData, accessPoints: propAccessPoi
             </svg>
             <DataSourceTooltip source={{
               name: 'Access Point Traffic',
-              description: 'VPD from Florida DOT AADT at exact access point locations, with estimates for roads without official data',
+              description: 'VPD from state DOT or imported local AADT counts at exact access point locations, with estimates for roads without official data',
               type: 'api',
-              url: 'https://tdaappsprod.dot.state.fl.us/fto/'
+              url: officialSourceUrl
             }}>Property Access Points ({accessPoints.length})</DataSourceTooltip>
           </h3>
 
@@ -243,8 +299,8 @@ export default function TrafficCharts({ trafficData, accessPoints: propAccessPoi
                 <p className="text-sm text-[var(--text-muted)]">Primary Access Road</p>
                 <p className="font-semibold text-[var(--text-primary)]">{accessPointVPD.primaryRoadName}</p>
                 <p className="text-xs text-[var(--text-muted)]">
-                  {accessPointVPD.primaryVpdSource === 'fdot' ? (
-                    <span className="text-green-400">Florida DOT Official</span>
+                  {accessPointVPD.primaryVpdSource === 'official' ? (
+                    <span className="text-green-400">{accessPointVPD.primaryVpdAgency || 'DOT'} Official</span>
                   ) : (
                     <span>{ROAD_TYPE_VPD[accessPointVPD.primaryRoadType]?.label || 'Road'} (Estimated)</span>
                   )}
@@ -272,12 +328,12 @@ export default function TrafficCharts({ trafficData, accessPoints: propAccessPoi
                 >
                   <div className="flex items-center gap-3">
                     <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                      road.source === 'fdot' ? 'bg-green-500/20 text-green-400' :
+                      road.source === 'official' ? 'bg-green-500/20 text-green-400' :
                       road.vpd >= 10000 ? 'bg-cyan-500/20 text-cyan-400' :
                       road.vpd >= 5000 ? 'bg-yellow-500/20 text-yellow-400' :
                       'bg-gray-500/20 text-gray-400'
                     }`}>
-                      {road.source === 'fdot' ? (
+                      {road.source === 'official' ? (
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                         </svg>
@@ -290,8 +346,8 @@ export default function TrafficCharts({ trafficData, accessPoints: propAccessPoi
                     <div>
                       <p className="font-medium text-[var(--text-primary)]">{road.name}</p>
                       <p className="text-xs text-[var(--text-muted)]">
-                        {road.source === 'fdot' ? (
-                          <span className="text-green-400">FDOT AADT {road.year}</span>
+                        {road.source === 'official' ? (
+                          <span className="text-green-400">{road.agency || 'DOT'} AADT {road.year}</span>
                         ) : (
                           <span>{road.label} (Est.)</span>
                         )}
@@ -299,7 +355,7 @@ export default function TrafficCharts({ trafficData, accessPoints: propAccessPoi
                     </div>
                   </div>
                   <div className="text-right">
-                    <p className={`font-bold ${road.source === 'fdot' ? 'text-[var(--accent-green)]' : 'text-[var(--accent-cyan)]'}`}>
+                    <p className={`font-bold ${road.source === 'official' ? 'text-[var(--accent-green)]' : 'text-[var(--accent-cyan)]'}`}>
                       {road.vpd.toLocaleString()}
                     </p>
                     <p className="text-xs text-[var(--text-muted)]">VPD</p>
@@ -328,7 +384,7 @@ export default function TrafficCharts({ trafficData, accessPoints: propAccessPoi
             <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
-            VPD from Florida DOT AADT at access point locations. Roads without official counts show estimates.
+            VPD from official AADT counts at access point locations. Roads without official counts show estimates.
           </p>
         </div>
       )}
@@ -338,10 +394,10 @@ export default function TrafficCharts({ trafficData, accessPoints: propAccessPoi
         <div className="metric-card">
           <p className="metric-card-label">
             <DataSourceTooltip source={{
-              name: accessPointVPD.roadBreakdown.some(r => r.source === 'fdot') ? 'Florida DOT AADT' : 'Traffic Estimation',
+              name: officialSourceName,
               description: `Combined traffic from ${accessPointVPD.roadBreakdown.length} access road(s): ${accessPointVPD.roadBreakdown.map(r => r.name).join(', ')}`,
-              url: accessPointVPD.roadBreakdown.some(r => r.source === 'fdot') ? 'https://tdaappsprod.dot.state.fl.us/fto/' : undefined,
-              type: accessPointVPD.roadBreakdown.some(r => r.source === 'fdot') ? 'api' : 'estimate'
+              url: officialSourceUrl,
+              type: officialAgencies.length > 0 ? 'api' : 'estimate'
             }}>Vehicles Per Day</DataSourceTooltip>
           </p>
           <p className="metric-card-value">{accessPointVPD.totalVPD.toLocaleString()}</p>
@@ -349,10 +405,10 @@ export default function TrafficCharts({ trafficData, accessPoints: propAccessPoi
         <div className="metric-card">
           <p className="metric-card-label">
             <DataSourceTooltip source={{
-              name: accessPointVPD.roadBreakdown.some(r => r.source === 'fdot') ? 'Florida DOT AADT' : 'Traffic Estimation',
+              name: officialSourceName,
               description: `VPD range across ${accessPointVPD.roadBreakdown.length} access road(s)`,
-              url: accessPointVPD.roadBreakdown.some(r => r.source === 'fdot') ? 'https://tdaappsprod.dot.state.fl.us/fto/' : undefined,
-              type: accessPointVPD.roadBreakdown.some(r => r.source === 'fdot') ? 'api' : 'estimate'
+              url: officialSourceUrl,
+              type: officialAgencies.length > 0 ? 'api' : 'estimate'
             }}>VPD Range</DataSourceTooltip>
           </p>
           <p className="text-lg font-semibold text-[var(--text-primary)]">
@@ -451,6 +507,197 @@ export default function TrafficCharts({ trafficData, accessPoints: propAccessPoi
         </div>
       </div>
 
+      {/* AADT Trend */}
+      {trendRoads.length > 0 && (
+        <div className="p-4 bg-[var(--bg-tertiary)] rounded-lg border border-[var(--border-color)]">
+          <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+            <svg className="w-5 h-5 text-[var(--accent-purple)]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
+            </svg>
+            <DataSourceTooltip source={{
+              name: 'AADT History',
+              description: 'Annual counts for each road segment. Growth is a log-linear fit excluding anomalous years; the dashed line projects the latest count at that rate.',
+              type: 'calculation'
+            }}>Traffic Trend</DataSourceTooltip>
+          </h3>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={trendData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="var(--border-color)" />
+                <XAxis dataKey="year" type="number" domain={['dataMin', 'dataMax']} allowDecimals={false} stroke="var(--text-secondary)" />
+                <YAxis stroke="var(--text-secondary)" tickFormatter={(value) => `${(value / 1000).toFixed(0)}k`} />
+                <Tooltip
+                  contentStyle={{ background: 'var(--bg-secondary)', border: '1px solid var(--border-color)', borderRadius: '8px' }}
+                  labelStyle={{ color: 'var(--text-primary)' }}
+                  formatter={(value) => [`${(value as number).toLocaleString()} VPD`, '']}
+                />
+                <Legend />
+                {trendRoads.map((road, index) => (
+                  <Line key={road.roadName} type="monotone" dataKey={road.roadName} stroke={trendColors[index % trendColors.length]} strokeWidth={2} dot={{ r: 4 }} connectNulls />
+                ))}
+                {trendRoads.filter(road => road.trend!.projectedVpd !== null).map(road => (
+                  <Line
+                    key={`${road.roadName}-projected`}
+                    type="linear"
+                    dataKey={`${road.roadName} (projected)`}
+                    stroke={trendColors[trendRoads.indexOf(road) % trendColors.length]}
+                    strokeDasharray="6 4"
+                    strokeWidth={2}
+                    dot={false}
+                    legendType="none"
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="mt-4 space-y-2">
+            {trendRoads.map(road => {
+              const trend = road.trend!;
+              return (
+                <div key={road.roadName} className="p-3 bg-[var(--bg-primary)] rounded-lg border border-[var(--border-color)]">
+                  <div className="flex justify-between items-center">
+                    <div>
+                      <p className="font-medium text-[var(--text-primary)]">{road.roadName}</p>
+                      <p className="text-xs text-[var(--text-muted)]">
+                        {trend.history[0].year}-{trend.history[trend.history.length - 1].year} ({trend.history.length} counts)
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className={`font-bold ${
+                        trend.direction === 'growing' ? 'text-green-400' :
+                        trend.direction === 'declining' ? 'text-red-400' :
+                        'text-[var(--text-secondary)]'
+                      }`}>
+                        {formatGrowth(trend.cagr)}
+                      </p>
+                      {trend.projectedVpd !== null && (
+                        <p className="text-xs text-[var(--text-muted)]">
+                          ~{trend.projectedVpd.toLocaleString()} VPD by {trend.projectionYear}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  {trend.anomalies.length > 0 && (
+                    <p className="text-xs text-yellow-400 mt-2">
+                      Anomalies (excluded from growth): {trend.anomalies.map(a =>
+                        `${a.year}: ${a.aadt.toLocaleString()} (${a.deviationPercent > 0 ? '+' : ''}${a.deviationPercent}% vs trend)`
+                      ).join('; ')}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {trafficData.growth && (
+            <p className="text-xs text-[var(--text-muted)] mt-4">
+              Corridor growth {formatGrowth(trafficData.growth.cagr)} across {trafficData.growth.roadsWithHistory} road(s) with count history;
+              projected {trafficData.growth.projectedVpd.toLocaleString()} VPD by {trafficData.growth.projectionYear}.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Time of Day / Day of Week */}
+      {profile && (
+        <div className="p-4 bg-[var(--bg-tertiary)] rounded-lg border border-[var(--border-color)]">
+          <h3 className="text-lg font-semibold mb-1 flex items-center gap-2">
+            <svg className="w-5 h-5 text-[var(--accent-cyan)]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <DataSourceTooltip source={{
+              name: profile.factorSource === 'published' ? 'AADT with K/D Factors' : 'Modeled Hourly Profile',
+              description: profile.factorSource === 'published'
+                ? 'Typical weekday hourly distribution scaled to the peak-hour (K) and directional (D) factors published with the count.'
+                : `Typical weekday hourly distribution for a ${profile.profileType} road; K and D factors are modeled, not published.`,
+              type: profile.factorSource === 'published' ? 'api' : 'estimate'
+            }}>Traffic by Time of Day</DataSourceTooltip>
+          </h3>
+          <p className="text-xs text-[var(--text-muted)] mb-4">
+            {profile.roadName} - {profile.aadt.toLocaleString()} AADT, K {(profile.kFactor * 100).toFixed(1)}%, D {(profile.dFactor * 100).toFixed(0)}%
+            {profile.activityCenter && <> - inbound is toward {profile.activityCenter.name}</>}
+          </p>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={hourlyData} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="var(--border-color)" />
+                  <XAxis dataKey="hour" stroke="var(--text-secondary)" interval={2} />
+                  <YAxis stroke="var(--text-secondary)" tickFormatter={(value) => value.toLocaleString()} />
+                  <Tooltip
+                    contentStyle={{ background: 'var(--bg-secondary)', border: '1px solid var(--border-color)', borderRadius: '8px' }}
+                    labelStyle={{ color: 'var(--text-primary)' }}
+                    formatter={(value, name) => [`${(value as number).toLocaleString()} vehicles`, name]}
+                  />
+                  <Legend />
+                  <Bar
+                    dataKey="inbound"
+                    name={profile.siteSideDirection === 'inbound' ? `${sideLabel('inbound')} - site side` : sideLabel('inbound')}
+                    stackId="direction"
+                    fill="#06b6d4"
+                    fillOpacity={profile.siteSideDirection === 'outbound' ? 0.4 : 1}
+                  />
+                  <Bar
+                    dataKey="outbound"
+                    name={profile.siteSideDirection === 'outbound' ? `${sideLabel('outbound')} - site side` : sideLabel('outbound')}
+                    stackId="direction"
+                    fill="#8b5cf6"
+                    fillOpacity={profile.siteSideDirection === 'inbound' ? 0.4 : 1}
+                  />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={profile.weekly} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="var(--border-color)" />
+                  <XAxis dataKey="day" stroke="var(--text-secondary)" />
+                  <YAxis stroke="var(--text-secondary)" tickFormatter={(value) => `${(value / 1000).toFixed(0)}k`} />
+                  <Tooltip
+                    contentStyle={{ background: 'var(--bg-secondary)', border: '1px solid var(--border-color)', borderRadius: '8px' }}
+                    labelStyle={{ color: 'var(--text-primary)' }}
+                    formatter={(value) => [`${(value as number).toLocaleString()} VPD`, '']}
+                  />
+                  <Bar dataKey="vpd" fill="#f59e0b" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mt-4">
+            <div className="p-3 bg-[var(--bg-primary)] rounded-lg border border-[var(--border-color)]">
+              <p className="text-xs text-[var(--text-muted)]">AM Peak</p>
+              <p className="font-bold text-[var(--text-primary)]">{profile.amPeak.vpd.toLocaleString()}/hr</p>
+              <p className="text-xs text-[var(--text-muted)]">{formatHour(profile.amPeak.hour)}-{formatHour(profile.amPeak.hour + 1)}</p>
+            </div>
+            <div className="p-3 bg-[var(--bg-primary)] rounded-lg border border-[var(--border-color)]">
+              <p className="text-xs text-[var(--text-muted)]">PM Peak</p>
+              <p className="font-bold text-[var(--text-primary)]">{profile.pmPeak.vpd.toLocaleString()}/hr</p>
+              <p className="text-xs text-[var(--text-muted)]">{formatHour(profile.pmPeak.hour)}-{formatHour(profile.pmPeak.hour + 1)}</p>
+            </div>
+            {[
+              { title: 'AM Concepts (coffee, breakfast)', fit: amFit },
+              { title: 'PM Concepts (dinner, grocery)', fit: pmFit },
+            ].map(({ title, fit }) => fit && (
+              <div key={title} className="p-3 bg-[var(--bg-primary)] rounded-lg border border-[var(--border-color)]">
+                <p className="text-xs text-[var(--text-muted)]">{title}</p>
+                <p className={`font-bold ${fitColor(fit.score)}`}>{fit.score.toFixed(1)}/10</p>
+                <p className="text-xs text-[var(--text-muted)]">{fit.detail}</p>
+              </div>
+            ))}
+          </div>
+
+          <p className="text-xs text-[var(--text-muted)] mt-4">
+            {profile.siteSideDirection
+              ? `The site is on the ${sideLabel(profile.siteSideDirection).toLowerCase()} side of ${profile.roadName}.`
+              : 'The site side of the road is unknown (near the city center or the road runs across the commute), so AM/PM fit reflects volume only.'}
+          </p>
+        </div>
+      )}
+
       {/* Road Classification Reference */}
       <div>
         <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
@@ -498,7 +745,7 @@ export default function TrafficCharts({ trafficData, accessPoints: propAccessPoi
           </svg>
           <DataSourceTooltip source={{
             name: 'Traffic Data Sources',
-            description: 'VPD from Florida DOT official counts when available, otherwise estimated from TomTom road classification',
+            description: 'VPD from state DOT or imported local AADT counts when available, otherwise estimated from TomTom road classification',
             type: 'api'
           }}>Road Information</DataSourceTooltip>
         </h3>
@@ -526,7 +773,7 @@ export default function TrafficCharts({ trafficData, accessPoints: propAccessPoi
             </div>
             <div className="flex-1">
               <p className="font-semibold text-[var(--text-primary)]">
-                {trafficData.vpdSource?.includes('Florida DOT') ? 'Official AADT Count' : 'Estimated VPD'}
+                {hasOfficialRoadCounts ? 'Official AADT Count' : 'Estimated VPD'}
               </p>
               <p className="text-sm text-[var(--text-muted)]">{trafficData.vpdSource || 'Estimated from road classification'}</p>
             </div>
@@ -569,8 +816,8 @@ export default function TrafficCharts({ trafficData, accessPoints: propAccessPoi
             <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
-            {trafficData.vpdSource?.includes('Florida DOT')
-              ? 'Official traffic count from Florida Department of Transportation. Data is updated annually.'
+            {hasOfficialRoadCounts
+              ? `Official traffic count from ${Array.from(new Set(trafficData.roads!.map(r => r.source || 'the state DOT'))).join(', ')}. Data is updated annually.`
               : 'VPD estimated based on road functional classification (FRC) from TomTom. For official counts, check your state DOT website.'}
           </p>
         </div>
@@ -185,6 +185,11 @@ export const DATA_SOURCES = {
     description: 'National Wetlands Inventory data',
     type: 'api' as const,
   },
+  recordedSales: {
+    name: 'Recorded Sales',
+    description: 'Closed commercial sales from imported transaction data and county property appraiser records',
+    type: 'api' as const,
+  },
   marketEstimate: {
     name: 'Market Analysis Model',
     description: 'Estimated based on regional commercial real estate data and comparable sales',
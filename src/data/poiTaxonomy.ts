@@ -0,0 +1,221 @@
+// POI taxonomy: maps each normalized place category to the OSM tags that identify it and to the
+// tenant catalog categories (SE_CRE_CATEGORIES) it competes with or anchors.
+// Categories are checked in order, so more specific tags (e.g. shop=wholesale) come before broader ones.
+
+import type { SECRECategory } from './seCRETenants';
+import type { PoiCategoryCode } from '@/types';
+
+export interface OsmTagFilter {
+  key: string;
+  // Omitted = any value of the key
+  values?: string[];
+}
+
+export interface PoiCategory {
+  code: PoiCategoryCode;
+  label: string;
+  tags: OsmTagFilter[];
+  tenantCategories: SECRECategory[];
+  // Included when a caller doesn't ask for specific categories
+  includeByDefault: boolean;
+}
+
+export const POI_TAXONOMY: PoiCategory[] = [
+  {
+    code: 'fast-food',
+    label: 'Fast Food',
+    tags: [{ key: 'amenity', values: ['fast_food'] }],
+    tenantCategories: ['QSR — BURGER / CHICKEN / SANDWICH', 'QSR — MEXICAN / ASIAN / PIZZA / OTHER'],
+    includeByDefault: true,
+  },
+  {
+    code: 'coffee',
+    label: 'Coffee / Bakery / Dessert',
+    tags: [{ key: 'amenity', values: ['cafe', 'ice_cream'] }, { key: 'shop', values: ['bakery', 'pastry'] }],
+    tenantCategories: ['QSR — COFFEE / BAKERY / SMOOTHIE / DESSERT'],
+    includeByDefault: true,
+  },
+  {
+    code: 'restaurant',
+    label: 'Restaurant / Bar',
+    tags: [{ key: 'amenity', values: ['restaurant', 'bar', 'pub'] }],
+    tenantCategories: ['CASUAL / FULL-SERVICE RESTAURANT'],
+    includeByDefault: true,
+  },
+  {
+    code: 'big-box',
+    label: 'Big Box / Warehouse',
+    tags: [{ key: 'shop', values: ['department_store', 'wholesale'] }],
+    tenantCategories: ['BIG BOX / WAREHOUSE RETAIL'],
+    includeByDefault: true,
+  },
+  {
+    code: 'grocery',
+    label: 'Grocery',
+    tags: [{ key: 'shop', values: ['supermarket', 'grocery', 'greengrocer'] }],
+    tenantCategories: ['GROCERY / SUPERMARKET'],
+    includeByDefault: true,
+  },
+  {
+    code: 'convenience-fuel',
+    label: 'Gas / Convenience',
+    tags: [{ key: 'amenity', values: ['fuel'] }, { key: 'shop', values: ['convenience'] }],
+    tenantCategories: ['CONVENIENCE STORE / FUEL'],
+    includeByDefault: true,
+  },
+  {
+    code: 'pharmacy',
+    label: 'Pharmacy',
+    tags: [{ key: 'amenity', values: ['pharmacy'] }, { key: 'shop', values: ['chemist'] }],
+    tenantCategories: ['PHARMACY / MEDICAL / DENTAL / WELLNESS'],
+    includeByDefault: true,
+  },
+  {
+    code: 'medical',
+    label: 'Medical / Dental',
+    tags: [{ key: 'amenity', values: ['clinic', 'doctors', 'dentist', 'hospital', 'veterinary'] }, { key: 'healthcare' }],
+    tenantCategories: ['PHARMACY / MEDICAL / DENTAL / WELLNESS'],
+    includeByDefault: true,
+  },
+  {
+    code: 'bank',
+    label: 'Bank / Financial',
+    tags: [{ key: 'amenity', values: ['bank'] }, { key: 'office', values: ['insurance', 'tax_advisor', 'financial'] }],
+    tenantCategories: ['BANK / FINANCIAL / TAX / INSURANCE'],
+    includeByDefault: true,
+  },
+  {
+    code: 'dollar-discount',
+    label: 'Dollar / Discount',
+    tags: [{ key: 'shop', values: ['variety_store', 'second_hand', 'charity'] }],
+    tenantCategories: ['DOLLAR / VALUE / THRIFT / RESALE'],
+    includeByDefault: true,
+  },
+  {
+    code: 'mall',
+    label: 'Mall / Shopping Center',
+    tags: [{ key: 'shop', values: ['mall'] }],
+    tenantCategories: ['DEPARTMENT / APPAREL / SHOES'],
+    includeByDefault: true,
+  },
+  {
+    code: 'apparel',
+    label: 'Apparel / Shoes',
+    tags: [{ key: 'shop', values: ['clothes', 'shoes', 'boutique'] }],
+    tenantCategories: ['DEPARTMENT / APPAREL / SHOES'],
+    includeByDefault: true,
+  },
+  {
+    code: 'home-improvement',
+    label: 'Home / Hardware',
+    tags: [{ key: 'shop', values: ['doityourself', 'hardware', 'furniture', 'garden_centre', 'paint', 'trade'] }],
+    tenantCategories: ['HOME / FURNITURE / HARDWARE / PAINT / GARDEN', 'BUILDING SUPPLY / EQUIPMENT RENTAL / TRADE'],
+    includeByDefault: true,
+  },
+  {
+    code: 'specialty-retail',
+    label: 'Specialty Retail',
+    tags: [{ key: 'shop', values: ['electronics', 'pet', 'sports', 'books', 'toys', 'gift', 'craft', 'jewelry', 'optician'] }],
+    tenantCategories: ['SPECIALTY RETAIL / ELECTRONICS / PET / SPORTING'],
+    includeByDefault: true,
+  },
+  {
+    code: 'personal-services',
+    label: 'Personal Services',
+    tags: [
+      { key: 'shop', values: ['hairdresser', 'beauty', 'laundry', 'dry_cleaning', 'mobile_phone', 'copyshop'] },
+      { key: 'amenity', values: ['post_office'] },
+    ],
+    tenantCategories: ['PERSONAL SERVICES / SALON / WIRELESS / SHIPPING'],
+    includeByDefault: true,
+  },
+  {
+    code: 'fitness',
+    label: 'Fitness',
+    tags: [{ key: 'leisure', values: ['fitness_centre', 'sports_centre'] }, { key: 'amenity', values: ['spa'] }],
+    tenantCategories: ['FITNESS / WELLNESS / SPA'],
+    includeByDefault: true,
+  },
+  {
+    code: 'entertainment',
+    label: 'Entertainment',
+    tags: [
+      { key: 'amenity', values: ['cinema', 'theatre', 'nightclub'] },
+      { key: 'leisure', values: ['bowling_alley', 'amusement_arcade', 'miniature_golf', 'trampoline_park'] },
+    ],
+    tenantCategories: ['ENTERTAINMENT / RECREATION'],
+    includeByDefault: true,
+  },
+  {
+    code: 'auto',
+    label: 'Auto',
+    tags: [{ key: 'shop', values: ['car', 'car_repair', 'car_parts', 'tyres'] }, { key: 'amenity', values: ['car_wash'] }],
+    tenantCategories: ['AUTO PARTS / SERVICE / CAR WASH / DEALERSHIP'],
+    includeByDefault: true,
+  },
+  {
+    code: 'hotel',
+    label: 'Hotel',
+    tags: [{ key: 'tourism', values: ['hotel', 'motel'] }],
+    tenantCategories: ['HOTEL / HOSPITALITY'],
+    includeByDefault: true,
+  },
+  {
+    code: 'school',
+    label: 'School',
+    tags: [{ key: 'amenity', values: ['school', 'college', 'university', 'driving_school'] }],
+    tenantCategories: ['CHILDCARE / EDUCATION / TRADE SCHOOL'],
+    includeByDefault: true,
+  },
+  {
+    code: 'childcare',
+    label: 'Childcare',
+    tags: [{ key: 'amenity', values: ['childcare', 'kindergarten'] }],
+    tenantCategories: ['CHILDCARE / EDUCATION / TRADE SCHOOL'],
+    includeByDefault: true,
+  },
+  {
+    code: 'ev-charging',
+    label: 'EV Charging',
+    tags: [{ key: 'amenity', values: ['charging_station'] }],
+    tenantCategories: ['EV CHARGING / ENERGY / INFRASTRUCTURE'],
+    includeByDefault: false,
+  },
+  {
+    code: 'civic',
+    label: 'Civic / Worship',
+    tags: [{ key: 'amenity', values: ['place_of_worship', 'townhall', 'library', 'community_centre', 'police', 'fire_station'] }],
+    tenantCategories: ['CHURCH / CIVIC / MUNICIPAL / MISCELLANEOUS'],
+    includeByDefault: false,
+  },
+];
+
+export const POI_CATEGORIES = Object.fromEntries(
+  POI_TAXONOMY.map(category => [category.code, category])
+) as Record<PoiCategoryCode, PoiCategory>;
+
+export function isPoiCategoryCode(code: string): code is PoiCategoryCode {
+  return code in POI_CATEGORIES;
+}
+
+export const DEFAULT_POI_CATEGORIES: PoiCategoryCode[] = POI_TAXONOMY
+  .filter(category => category.includeByDefault)
+  .map(category => category.code);
+
+function matchesFilter(tags: Record<string, string>, filter: OsmTagFilter): boolean {
+  const value = tags[filter.key];
+  return value !== undefined && value !== 'no' && (!filter.values || filter.values.includes(value));
+}
+
+// First category (in taxonomy order) whose tag filters match, with the tag that matched
+export function classifyOsmTags(
+  tags: Record<string, string>,
+  codes: PoiCategoryCode[] = POI_TAXONOMY.map(c => c.code)
+): { category: PoiCategory; key: string; value: string } | null {
+  for (const category of POI_TAXONOMY) {
+    if (!codes.includes(category.code)) continue;
+    const filter = category.tags.find(f => matchesFilter(tags, f));
+    if (filter) return { category, key: filter.key, value: tags[filter.key] };
+  }
+  return null;
+}
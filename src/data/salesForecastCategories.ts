@@ -0,0 +1,81 @@
+// Huff gravity model parameters per tenant category
+// Keys match the business type presets in lib/business-requirements where one exists.
+// Visit frequencies and tickets are planning-level national averages, not tenant-reported figures.
+
+import type { PoiCategoryCode } from '@/types';
+
+export interface SalesForecastCategory {
+  label: string;
+  // POI categories (see data/poiTaxonomy) that compete for the same trips
+  competitorCategories: PoiCategoryCode[];
+  // Distance-decay exponent (lambda): higher means shoppers are less willing to travel
+  distanceDecay: number;
+  // Category trips per household per year, before the income adjustment
+  annualVisitsPerHousehold: number;
+  averageTicket: number;
+  // Default study area: demand beyond this straight-line distance is ignored
+  tradeAreaMiles: number;
+  // Trip frequency scales with (block group median income / reference income) ^ elasticity
+  incomeElasticity: number;
+}
+
+export const REFERENCE_HOUSEHOLD_INCOME = 75000;
+
+export const SALES_FORECAST_CATEGORIES: Record<string, SalesForecastCategory> = {
+  'fast-food': {
+    label: 'Quick-Service Restaurant',
+    competitorCategories: ['fast-food'],
+    distanceDecay: 2.0,
+    annualVisitsPerHousehold: 150,
+    averageTicket: 11,
+    tradeAreaMiles: 3,
+    incomeElasticity: -0.1,
+  },
+  'coffee': {
+    label: 'Coffee / Cafe',
+    competitorCategories: ['coffee'],
+    distanceDecay: 2.2,
+    annualVisitsPerHousehold: 100,
+    averageTicket: 7,
+    tradeAreaMiles: 3,
+    incomeElasticity: 0.5,
+  },
+  'restaurant': {
+    label: 'Casual Dining',
+    competitorCategories: ['restaurant'],
+    distanceDecay: 1.5,
+    annualVisitsPerHousehold: 60,
+    averageTicket: 45,
+    tradeAreaMiles: 5,
+    incomeElasticity: 0.6,
+  },
+  'pharmacy': {
+    label: 'Pharmacy',
+    competitorCategories: ['pharmacy'],
+    distanceDecay: 1.8,
+    annualVisitsPerHousehold: 25,
+    averageTicket: 60,
+    tradeAreaMiles: 4,
+    incomeElasticity: 0.1,
+  },
+  'grocery': {
+    label: 'Grocery',
+    competitorCategories: ['grocery'],
+    distanceDecay: 1.6,
+    annualVisitsPerHousehold: 80,
+    averageTicket: 55,
+    tradeAreaMiles: 5,
+    incomeElasticity: 0.2,
+  },
+  'gas-station': {
+    label: 'Gas Station / Convenience Store',
+    competitorCategories: ['convenience-fuel'],
+    distanceDecay: 2.5,
+    annualVisitsPerHousehold: 90,
+    averageTicket: 30,
+    tradeAreaMiles: 3,
+    incomeElasticity: 0,
+  },
+};
+
+export const DEFAULT_SALES_FORECAST_CATEGORY = 'fast-food';
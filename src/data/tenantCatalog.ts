@@ -0,0 +1,607 @@
+// Canonical tenant catalog
+// Merges RETAILER_REQUIREMENTS, SE_CRE_TENANTS, ALL_BUSINESSES and LOT_SIZE_REFERENCE into one record per brand
+// so every screen applies the same lot, traffic and demographic rules to a given tenant.
+// Field precedence when sources disagree: retailer requirements > SE CRE > business intelligence > lot size reference
+// (business intelligence wins for format rules: drive-through, space types, construction)
+
+import { RETAILER_REQUIREMENTS, RetailerRequirements, US_REGIONS, getRegionFromState } from './retailerRequirements';
+import { SE_CRE_TENANTS, SETenantRequirement, SECRECategory, SE_CRE_CATEGORIES } from './seCRETenants';
+import { ALL_BUSINESSES, BusinessRequirements, ConstructionPreference, SpaceType } from './BusinessIntelligence';
+import { LOT_SIZE_REFERENCE, LotSizeRequirement, LotSizeCategory } from './lotSizeReference';
+
+export { US_REGIONS, getRegionFromState };
+
+export type IncomeLevel = 'low' | 'moderate' | 'middle' | 'upper-middle' | 'high';
+export type DriveThru = BusinessRequirements['driveThrough'];
+export type TenantSource = 'retailer-requirements' | 'se-cre' | 'business-intelligence' | 'lot-size-reference' | 'tenant-profile';
+
+export const INCOME_LEVELS: IncomeLevel[] = ['low', 'moderate', 'middle', 'upper-middle', 'high'];
+export const TENANT_CATEGORIES = SE_CRE_CATEGORIES;
+
+export interface CatalogTenant {
+  id: string;
+  name: string;
+  // Other names the brand appears under in the source datasets
+  aliases: string[];
+  category: SECRECategory;
+  // Title-case form of the category for display, e.g. "Qsr — Burger / Chicken / Sandwich"
+  categoryLabel: string;
+  // Finer classification from the business intelligence data, e.g. "QSR / Chicken"
+  segment: string | null;
+  // Site requirements
+  lotAcres: { min: number; max: number; typical: number | null } | null;
+  buildingSF: { min: number; max: number } | null;
+  minVPD: number | null;
+  idealVPD: number | null;
+  // Demographics (trade area, typically 3-5 miles)
+  minPopulation: number | null;
+  minHHI: number | null;
+  maxHHI: number | null;
+  incomePreference: IncomeLevel[];
+  targetAge: { min: number; max: number } | null;
+  tradeAreaRadius: string | null;
+  // Format
+  driveThru: DriveThru;
+  driveThruNotes: string | null;
+  spaceTypes: SpaceType[];
+  constructionPreference: ConstructionPreference | null;
+  cornerLotPreferred: boolean;
+  endCapAcceptable: boolean;
+  highwayVisibility: boolean;
+  shoppingCenterOk: boolean;
+  parkingRatio: string | null;
+  locationType: string | null;
+  frontage: string | null;
+  // Parsed from `frontage` ("200'+ frontage"); null when it gives no footage
+  minFrontageFeet: number | null;
+  accessRequirements: string | null;
+  // Expansion
+  activelyExpanding: boolean;
+  expansionRegions: string[];
+  franchiseAvailable: boolean;
+  corporateOnly: boolean;
+  franchiseFee?: number;
+  totalInvestmentMin?: number;
+  totalInvestmentMax?: number;
+  notes: string | null;
+  sources: TenantSource[];
+}
+
+export interface TenantQuery {
+  // Canonical category or segment, case-insensitive substring
+  category?: string;
+  // Site lot size in acres: tenant's lot range must accommodate it
+  lotAcres?: number;
+  // Site traffic: tenant's minimum VPD must be met
+  vpd?: number;
+  // Site median household income: must fall inside the tenant's income band
+  hhi?: number;
+  // State code (e.g. "FL") or region name (e.g. "Southeast")
+  region?: string;
+  // true = requires or prefers a drive-through, false = doesn't need one, or an exact value
+  driveThru?: boolean | DriveThru;
+  spaceType?: SpaceType;
+  construction?: ConstructionPreference;
+  shoppingCenterOk?: boolean;
+  activelyExpanding?: boolean;
+  // Name or alias substring
+  search?: string;
+  limit?: number;
+}
+
+export interface TenantConflict {
+  tenantId: string;
+  name: string;
+  field: 'lotAcres' | 'buildingSF' | 'minVPD' | 'minPopulation' | 'minHHI' | 'driveThru';
+  values: { source: TenantSource; value: string }[];
+  message: string;
+}
+
+interface SourceRecords {
+  retailer?: RetailerRequirements;
+  seCre?: SETenantRequirement;
+  business?: BusinessRequirements;
+  lotSize?: LotSizeRequirement;
+}
+
+// Business intelligence categories/subcategories for brands that only exist in that dataset
+const BUSINESS_CATEGORY_MAP: Record<string, SECRECategory> = {
+  'QSR': 'QSR — BURGER / CHICKEN / SANDWICH',
+  'QSR/Mexican': 'QSR — MEXICAN / ASIAN / PIZZA / OTHER',
+  'QSR/Asian': 'QSR — MEXICAN / ASIAN / PIZZA / OTHER',
+  'QSR/Pizza': 'QSR — MEXICAN / ASIAN / PIZZA / OTHER',
+  'Coffee': 'QSR — COFFEE / BAKERY / SMOOTHIE / DESSERT',
+  'Fast Casual': 'QSR — MEXICAN / ASIAN / PIZZA / OTHER',
+  'Casual Dining': 'CASUAL / FULL-SERVICE RESTAURANT',
+  'Gas Station': 'CONVENIENCE STORE / FUEL',
+  'Grocery': 'GROCERY / SUPERMARKET',
+  'Pharmacy': 'PHARMACY / MEDICAL / DENTAL / WELLNESS',
+  'Medical': 'PHARMACY / MEDICAL / DENTAL / WELLNESS',
+  'Bank': 'BANK / FINANCIAL / TAX / INSURANCE',
+  'Fitness': 'FITNESS / WELLNESS / SPA',
+  'Retail': 'SPECIALTY RETAIL / ELECTRONICS / PET / SPORTING',
+  'Retail/Big Box': 'BIG BOX / WAREHOUSE RETAIL',
+  'Retail/Discount': 'DOLLAR / VALUE / THRIFT / RESALE',
+  'Retail/Off-Price': 'DEPARTMENT / APPAREL / SHOES',
+  'Retail/Home Improvement': 'HOME / FURNITURE / HARDWARE / PAINT / GARDEN',
+  'Retail/Home': 'HOME / FURNITURE / HARDWARE / PAINT / GARDEN',
+  'Automotive': 'AUTO PARTS / SERVICE / CAR WASH / DEALERSHIP',
+  'Hotel': 'HOTEL / HOSPITALITY',
+  'Entertainment': 'ENTERTAINMENT / RECREATION',
+  'Storage': 'INDUSTRIAL / WAREHOUSE / DISTRIBUTION / LOGISTICS',
+};
+
+// Lot size reference categories for tenants that only exist in that dataset
+const LOT_SIZE_CATEGORY_MAP: Record<LotSizeCategory, SECRECategory> = {
+  'BIG BOX / WAREHOUSE RETAIL': 'BIG BOX / WAREHOUSE RETAIL',
+  'GROCERY / SUPERMARKET': 'GROCERY / SUPERMARKET',
+  'DEPARTMENT STORE / MALL ANCHOR': 'DEPARTMENT / APPAREL / SHOES',
+  'CLUB / FITNESS / ENTERTAINMENT': 'ENTERTAINMENT / RECREATION',
+  'QUICK-SERVICE RESTAURANT (QSR)': 'QSR — BURGER / CHICKEN / SANDWICH',
+  'CASUAL / FULL-SERVICE RESTAURANT': 'CASUAL / FULL-SERVICE RESTAURANT',
+  'CONVENIENCE STORE / GAS STATION': 'CONVENIENCE STORE / FUEL',
+  'PHARMACY / HEALTH / MEDICAL': 'PHARMACY / MEDICAL / DENTAL / WELLNESS',
+  'BANK / FINANCIAL': 'BANK / FINANCIAL / TAX / INSURANCE',
+  'DOLLAR STORE / DISCOUNT': 'DOLLAR / VALUE / THRIFT / RESALE',
+  'AUTO PARTS / SERVICE / DEALERSHIP': 'AUTO PARTS / SERVICE / CAR WASH / DEALERSHIP',
+  'HOME IMPROVEMENT / SPECIALTY RETAIL': 'SPECIALTY RETAIL / ELECTRONICS / PET / SPORTING',
+  'HOTEL / HOSPITALITY': 'HOTEL / HOSPITALITY',
+  'OFFICE': 'OFFICE / COWORKING',
+  'INDUSTRIAL / WAREHOUSE / DISTRIBUTION': 'INDUSTRIAL / WAREHOUSE / DISTRIBUTION / LOGISTICS',
+  'CHILDCARE / EDUCATION': 'CHILDCARE / EDUCATION / TRADE SCHOOL',
+  'MULTI-FAMILY RESIDENTIAL': 'MULTI-FAMILY / SENIOR LIVING / STUDENT HOUSING',
+  'STRIP CENTER / MULTI-TENANT': 'STRIP CENTER / MULTI-TENANT / MIXED-USE',
+  'MISCELLANEOUS': 'MISCELLANEOUS / NICHE',
+};
+
+// Relative difference between sources before a value is reported as a conflict
+const CONFLICT_TOLERANCE = 0.25;
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/['’]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// "Wells Fargo / Chase / BofA" -> ["wells fargo", "chase", "bofa"]
+function nameParts(name: string): string[] {
+  return name.split(/[/()]/).map(normalizeName).filter(Boolean);
+}
+
+function slugify(name: string): string {
+  return normalizeName(name).replace(/ /g, '-');
+}
+
+function partMatches(x: string, y: string): boolean {
+  return x === y || x.startsWith(`${y} `) || y.startsWith(`${x} `);
+}
+
+// The leading brand of one name has to appear in the other, so qualifiers like
+// "(Express Tunnel)" don't pull unrelated tenants together
+function partsOverlap(a: string[], b: string[]): boolean {
+  return b.some(y => partMatches(a[0], y)) || a.some(x => partMatches(x, b[0]));
+}
+
+function categoryLabel(category: string): string {
+  return category.toLowerCase().replace(/(^|[\s\-/])([a-z])/g, (_, sep: string, letter: string) => sep + letter.toUpperCase());
+}
+
+function spaceTypesFromLocation(locationType: string | null): SpaceType[] {
+  if (!locationType) return [];
+  const text = locationType.toLowerCase();
+  const types: SpaceType[] = [];
+  if (text.includes('freestanding') || text.includes('hard corner')) types.push('freestanding');
+  if (text.includes('pad')) types.push('pad_site');
+  if (text.includes('end-cap')) types.push('end_cap');
+  if (text.includes('inline') || text.includes('strip') || text.includes('grocery-anchored')) types.push('inline');
+  if (text.includes('power center')) types.push('anchor');
+  return types;
+}
+
+function mentionsDriveThru(seCre: SETenantRequirement | undefined): boolean {
+  if (!seCre) return false;
+  return /\bDT\b|drive-thru|drive-through/i.test(`${seCre.locationType || ''} ${seCre.accessRequirements || ''}`);
+}
+
+function parseFrontageFeet(frontage: string | null): number | null {
+  const match = frontage?.match(/(\d+)\s*(?:'|ft|feet)/i);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+function incomeLevelsFromHHI(minHHI: number | null): IncomeLevel[] {
+  if (!minHHI) return [...INCOME_LEVELS];
+  if (minHHI >= 100000) return ['upper-middle', 'high'];
+  if (minHHI >= 75000) return ['middle', 'upper-middle', 'high'];
+  if (minHHI >= 50000) return ['moderate', 'middle', 'upper-middle', 'high'];
+  return [...INCOME_LEVELS];
+}
+
+function businessCategory(business: BusinessRequirements): SECRECategory {
+  return BUSINESS_CATEGORY_MAP[`${business.category}/${business.subcategory}`]
+    || BUSINESS_CATEGORY_MAP[business.category]
+    || 'MISCELLANEOUS / NICHE';
+}
+
+function buildTenant(id: string, records: SourceRecords): CatalogTenant {
+  const { retailer, seCre, business, lotSize } = records;
+  const name = retailer?.name || seCre?.tenant || business?.name || lotSize?.tenant || id;
+
+  const sources: TenantSource[] = [];
+  if (retailer) sources.push('retailer-requirements');
+  if (seCre) sources.push('se-cre');
+  if (business) sources.push('business-intelligence');
+  if (lotSize) sources.push('lot-size-reference');
+
+  const aliases = [retailer?.name, seCre?.tenant, business?.name, lotSize?.tenant]
+    .filter((alias): alias is string => !!alias && alias !== name)
+    .filter((alias, index, all) => all.indexOf(alias) === index);
+
+  let lotAcres: CatalogTenant['lotAcres'] = null;
+  const typicalLot = seCre?.typicalLotAcres ?? lotSize?.typicalLotAcres ?? null;
+  if (retailer && retailer.maxLotSize > 0) {
+    lotAcres = { min: retailer.minLotSize, max: retailer.maxLotSize, typical: typicalLot };
+  } else if (seCre?.lotRangeAcres) {
+    lotAcres = { ...seCre.lotRangeAcres, typical: typicalLot };
+  } else if (business?.minLotAcres !== undefined && business.maxLotAcres !== undefined) {
+    lotAcres = { min: business.minLotAcres, max: business.maxLotAcres, typical: typicalLot };
+  } else if (lotSize) {
+    lotAcres = { ...lotSize.lotRangeAcres, typical: typicalLot };
+  }
+
+  let buildingSF: CatalogTenant['buildingSF'] = seCre?.buildingSF ?? null;
+  if (!buildingSF && retailer?.minSqFt && retailer.maxSqFt) {
+    buildingSF = { min: retailer.minSqFt, max: retailer.maxSqFt };
+  } else if (!buildingSF && business) {
+    buildingSF = { min: business.minSqFt, max: business.maxSqFt };
+  } else if (!buildingSF && lotSize) {
+    buildingSF = lotSize.buildingSF;
+  }
+
+  const minHHI = retailer?.minMedianIncome ?? seCre?.minHHI ?? null;
+  const locationType = seCre?.locationType ?? null;
+
+  let driveThru: DriveThru = 'not_applicable';
+  if (business) {
+    driveThru = business.driveThrough;
+  } else if (retailer?.driveThruRequired) {
+    driveThru = 'required';
+  } else if (mentionsDriveThru(seCre)) {
+    driveThru = 'preferred';
+  }
+
+  const spaceTypes = business?.spaceTypes ?? spaceTypesFromLocation(locationType);
+
+  let category: SECRECategory;
+  if (seCre) {
+    category = seCre.category as SECRECategory;
+  } else if (business) {
+    category = businessCategory(business);
+  } else {
+    category = LOT_SIZE_CATEGORY_MAP[lotSize!.category as LotSizeCategory] || 'MISCELLANEOUS / NICHE';
+  }
+
+  return {
+    id,
+    name,
+    aliases,
+    category,
+    categoryLabel: retailer?.category ?? categoryLabel(category),
+    segment: business ? [business.category, business.subcategory].filter(Boolean).join(' / ') : null,
+    lotAcres,
+    buildingSF,
+    minVPD: retailer?.minVPD ?? seCre?.minVPD ?? null,
+    idealVPD: retailer?.idealVPD ?? seCre?.preferredVPD ?? null,
+    minPopulation: retailer?.minPopulation ?? seCre?.minPopulation ?? null,
+    minHHI,
+    maxHHI: retailer?.maxMedianIncome ?? null,
+    incomePreference: retailer?.incomePreference ?? incomeLevelsFromHHI(minHHI),
+    targetAge: seCre?.targetAge ?? null,
+    tradeAreaRadius: seCre?.tradeAreaRadius ?? null,
+    driveThru,
+    driveThruNotes: business?.driveThroughNotes ?? null,
+    spaceTypes,
+    constructionPreference: business?.constructionPreference ?? null,
+    cornerLotPreferred: business?.cornerLotPreferred ?? retailer?.cornerLotPreferred ?? /corner/i.test(locationType || ''),
+    endCapAcceptable: retailer?.endCapAcceptable ?? spaceTypes.includes('end_cap'),
+    highwayVisibility: business?.highwayVisibility ?? /highway|interstate/i.test(locationType || ''),
+    shoppingCenterOk: business?.shoppingCenterOk ?? spaceTypes.some(t => t === 'inline' || t === 'end_cap'),
+    parkingRatio: seCre?.parkingRatio ?? lotSize?.parkingRatio ?? null,
+    locationType,
+    frontage: seCre?.frontage ?? null,
+    minFrontageFeet: parseFrontageFeet(seCre?.frontage ?? null),
+    accessRequirements: seCre?.accessRequirements ?? null,
+    activelyExpanding: retailer?.activelyExpanding ?? false,
+    expansionRegions: retailer?.expansionRegions ?? [],
+    franchiseAvailable: retailer?.franchiseAvailable ?? false,
+    corporateOnly: retailer?.corporateOnly ?? false,
+    franchiseFee: retailer?.franchiseFee,
+    totalInvestmentMin: retailer?.totalInvestmentMin,
+    totalInvestmentMax: retailer?.totalInvestmentMax,
+    notes: retailer?.notes ?? seCre?.notes ?? business?.notes ?? lotSize?.notes ?? null,
+    sources,
+  };
+}
+
+// ============ CATALOG CONSTRUCTION ============
+
+const sourceRecords = new Map<string, SourceRecords>();
+const nameIndex = new Map<string, string>();
+
+function register(id: string, name: string): void {
+  nameIndex.set(normalizeName(name), id);
+}
+
+// Find the catalog entry a secondary dataset's tenant belongs to: exact name first,
+// then a unique match on the "/"-separated brand names (e.g. "Chase" -> "Wells Fargo / Chase / BofA")
+function resolveId(name: string): string | null {
+  const exact = nameIndex.get(normalizeName(name));
+  if (exact) return exact;
+
+  const parts = nameParts(name);
+  const candidates = new Set<string>();
+  for (const [id, records] of sourceRecords) {
+    const canonical = records.retailer?.name || records.seCre?.tenant;
+    if (canonical && partsOverlap(parts, nameParts(canonical))) {
+      candidates.add(id);
+    }
+  }
+  return candidates.size === 1 ? [...candidates][0] : null;
+}
+
+for (const retailer of RETAILER_REQUIREMENTS) {
+  const id = slugify(retailer.name);
+  sourceRecords.set(id, { retailer });
+  register(id, retailer.name);
+}
+
+for (const seCre of SE_CRE_TENANTS) {
+  const id = nameIndex.get(normalizeName(seCre.tenant)) || slugify(seCre.tenant);
+  sourceRecords.set(id, { ...sourceRecords.get(id), seCre });
+  register(id, seCre.tenant);
+}
+
+function mergeSecondary(name: string, record: SourceRecords): void {
+  const id = resolveId(name) || slugify(name);
+  const existing = sourceRecords.get(id) || {};
+  // First record from a dataset wins when several of its rows collapse onto one brand
+  sourceRecords.set(id, { ...record, ...existing });
+  register(id, name);
+}
+
+for (const business of ALL_BUSINESSES) {
+  mergeSecondary(business.name, { business });
+}
+
+for (const lotSize of LOT_SIZE_REFERENCE) {
+  mergeSecondary(lotSize.tenant, { lotSize });
+}
+
+export const TENANT_CATALOG: CatalogTenant[] = [...sourceRecords.entries()].map(([id, records]) => buildTenant(id, records));
+
+const catalogById = new Map(TENANT_CATALOG.map(tenant => [tenant.id, tenant]));
+
+// ============ QUERY API ============
+
+// Look up a tenant by catalog ID or any of its names
+export function getTenant(idOrName: string): CatalogTenant | null {
+  return catalogById.get(idOrName)
+    || catalogById.get(nameIndex.get(normalizeName(idOrName)) || '')
+    || null;
+}
+
+export function tenantExpandsIn(tenant: CatalogTenant, stateCodeOrRegion: string): boolean {
+  const regions = US_REGIONS[stateCodeOrRegion] ? [stateCodeOrRegion] : getRegionFromState(stateCodeOrRegion.toUpperCase());
+  return tenant.expansionRegions.some(r =>
+    r === 'National' || regions.includes(r) || r === stateCodeOrRegion.toUpperCase()
+  );
+}
+
+function matchesDriveThru(tenant: CatalogTenant, driveThru: boolean | DriveThru): boolean {
+  if (driveThru === true) return tenant.driveThru === 'required' || tenant.driveThru === 'preferred';
+  if (driveThru === false) return tenant.driveThru !== 'required';
+  return tenant.driveThru === driveThru;
+}
+
+export function queryTenants(query: TenantQuery = {}): CatalogTenant[] {
+  const category = query.category?.toLowerCase();
+  const search = query.search ? normalizeName(query.search) : null;
+
+  const results = TENANT_CATALOG.filter(tenant => {
+    if (category && !tenant.category.toLowerCase().includes(category) && !tenant.segment?.toLowerCase().includes(category)) {
+      return false;
+    }
+    if (search && ![tenant.name, ...tenant.aliases].some(name => normalizeName(name).includes(search))) {
+      return false;
+    }
+    if (query.lotAcres !== undefined && tenant.lotAcres) {
+      if (query.lotAcres < tenant.lotAcres.min || query.lotAcres > tenant.lotAcres.max) return false;
+    }
+    if (query.vpd !== undefined && tenant.minVPD && query.vpd < tenant.minVPD) {
+      return false;
+    }
+    if (query.hhi !== undefined) {
+      if (tenant.minHHI && query.hhi < tenant.minHHI) return false;
+      if (tenant.maxHHI && query.hhi > tenant.maxHHI) return false;
+    }
+    if (query.region && !tenantExpandsIn(tenant, query.region)) {
+      return false;
+    }
+    if (query.driveThru !== undefined && !matchesDriveThru(tenant, query.driveThru)) {
+      return false;
+    }
+    if (query.spaceType && !tenant.spaceTypes.includes(query.spaceType)) {
+      return false;
+    }
+    if (query.construction && tenant.constructionPreference !== query.construction) {
+      return false;
+    }
+    if (query.shoppingCenterOk !== undefined && tenant.shoppingCenterOk !== query.shoppingCenterOk) {
+      return false;
+    }
+    if (query.activelyExpanding !== undefined && tenant.activelyExpanding !== query.activelyExpanding) {
+      return false;
+    }
+    return true;
+  });
+
+  return query.limit ? results.slice(0, query.limit) : results;
+}
+
+// Tenants whose requirements fit a site, allowing some slack below each minimum; closest typical lot size first
+export function findTenantsForSite(
+  lotAcres: number,
+  vpd?: number | null,
+  population?: number | null,
+  hhi?: number | null
+): CatalogTenant[] {
+  return TENANT_CATALOG.filter(tenant => {
+    if (!tenant.lotAcres) return false;
+    if (lotAcres < tenant.lotAcres.min || lotAcres > tenant.lotAcres.max * 1.5) return false;
+    if (vpd && tenant.minVPD && vpd < tenant.minVPD * 0.7) return false;
+    if (population && tenant.minPopulation && population < tenant.minPopulation * 0.7) return false;
+    if (hhi && tenant.minHHI && hhi < tenant.minHHI * 0.8) return false;
+    return true;
+  }).sort((a, b) => {
+    const aDiff = Math.abs((a.lotAcres?.typical || 0) - lotAcres);
+    const bDiff = Math.abs((b.lotAcres?.typical || 0) - lotAcres);
+    return aDiff - bDiff;
+  });
+}
+
+// Best-fitting tenants for a site, at most two per category for variety
+export function getTopTenantsForSite(
+  lotAcres: number,
+  vpd?: number | null,
+  population?: number | null,
+  hhi?: number | null,
+  limit: number = 10
+): CatalogTenant[] {
+  const scored = findTenantsForSite(lotAcres, vpd, population, hhi).map(tenant => {
+    let score = 100;
+    const typical = tenant.lotAcres?.typical;
+    if (typical) {
+      score -= (Math.abs(typical - lotAcres) / typical) * 20;
+    }
+    if (vpd && tenant.idealVPD && vpd >= tenant.idealVPD) {
+      score += 10;
+    } else if (vpd && tenant.minVPD && vpd >= tenant.minVPD) {
+      score += 5;
+    }
+    return { tenant, score };
+  });
+
+  scored.sort((a, b) => b.score - a.score);
+
+  const result: CatalogTenant[] = [];
+  const categoryCount: Record<string, number> = {};
+  for (const { tenant } of scored) {
+    const count = categoryCount[tenant.category] || 0;
+    if (count < 2) {
+      result.push(tenant);
+      categoryCount[tenant.category] = count + 1;
+    }
+    if (result.length >= limit) break;
+  }
+  return result;
+}
+
+// ============ CONSISTENCY CHECK ============
+
+function differs(a: number, b: number): boolean {
+  const larger = Math.max(Math.abs(a), Math.abs(b));
+  return larger > 0 && Math.abs(a - b) / larger > CONFLICT_TOLERANCE;
+}
+
+function checkRange(
+  tenant: CatalogTenant,
+  field: TenantConflict['field'],
+  label: string,
+  values: { source: TenantSource; range: { min: number; max: number } | null | undefined }[],
+  conflicts: TenantConflict[]
+): void {
+  const present = values.filter((v): v is { source: TenantSource; range: { min: number; max: number } } => !!v.range);
+  const conflicting = present.some(a => present.some(b => differs(a.range.min, b.range.min) || differs(a.range.max, b.range.max)));
+  if (conflicting) {
+    conflicts.push({
+      tenantId: tenant.id,
+      name: tenant.name,
+      field,
+      values: present.map(v => ({ source: v.source, value: `${v.range.min}-${v.range.max}` })),
+      message: `${tenant.name}: ${label} differs between sources by more than ${CONFLICT_TOLERANCE * 100}%`,
+    });
+  }
+}
+
+function checkValue(
+  tenant: CatalogTenant,
+  field: TenantConflict['field'],
+  label: string,
+  values: { source: TenantSource; value: number | null | undefined }[],
+  conflicts: TenantConflict[]
+): void {
+  const present = values.filter((v): v is { source: TenantSource; value: number } => typeof v.value === 'number' && v.value > 0);
+  if (present.some(a => present.some(b => differs(a.value, b.value)))) {
+    conflicts.push({
+      tenantId: tenant.id,
+      name: tenant.name,
+      field,
+      values: present.map(v => ({ source: v.source, value: v.value.toLocaleString() })),
+      message: `${tenant.name}: ${label} differs between sources by more than ${CONFLICT_TOLERANCE * 100}%`,
+    });
+  }
+}
+
+// Flag tenants whose source datasets disagree on lot size, building size, traffic, demographics or drive-through
+export function findCatalogConflicts(): TenantConflict[] {
+  const conflicts: TenantConflict[] = [];
+
+  for (const tenant of TENANT_CATALOG) {
+    const { retailer, seCre, business, lotSize } = sourceRecords.get(tenant.id) || {};
+
+    checkRange(tenant, 'lotAcres', 'lot size (acres)', [
+      { source: 'retailer-requirements', range: retailer && retailer.maxLotSize > 0 ? { min: retailer.minLotSize, max: retailer.maxLotSize } : null },
+      { source: 'se-cre', range: seCre?.lotRangeAcres },
+      { source: 'business-intelligence', range: business?.minLotAcres !== undefined && business.maxLotAcres !== undefined ? { min: business.minLotAcres, max: business.maxLotAcres } : null },
+      { source: 'lot-size-reference', range: lotSize?.lotRangeAcres },
+    ], conflicts);
+
+    checkRange(tenant, 'buildingSF', 'building size (SF)', [
+      { source: 'retailer-requirements', range: retailer?.minSqFt && retailer.maxSqFt ? { min: retailer.minSqFt, max: retailer.maxSqFt } : null },
+      { source: 'se-cre', range: seCre?.buildingSF },
+      { source: 'business-intelligence', range: business ? { min: business.minSqFt, max: business.maxSqFt } : null },
+      { source: 'lot-size-reference', range: lotSize?.buildingSF },
+    ], conflicts);
+
+    checkValue(tenant, 'minVPD', 'minimum VPD', [
+      { source: 'retailer-requirements', value: retailer?.minVPD },
+      { source: 'se-cre', value: seCre?.minVPD },
+    ], conflicts);
+
+    checkValue(tenant, 'minPopulation', 'minimum population', [
+      { source: 'retailer-requirements', value: retailer?.minPopulation },
+      { source: 'se-cre', value: seCre?.minPopulation },
+    ], conflicts);
+
+    checkValue(tenant, 'minHHI', 'minimum household income', [
+      { source: 'retailer-requirements', value: retailer?.minMedianIncome },
+      { source: 'se-cre', value: seCre?.minHHI },
+    ], conflicts);
+
+    // Retailer requirements only ever set driveThruRequired when it's a hard requirement,
+    // so the check is against business intelligence saying the format has no drive-through
+    const seCreDriveThru = mentionsDriveThru(seCre);
+    if (business?.driveThrough === 'not_applicable' && (retailer?.driveThruRequired || seCreDriveThru)) {
+      conflicts.push({
+        tenantId: tenant.id,
+        name: tenant.name,
+        field: 'driveThru',
+        values: [
+          ...(retailer?.driveThruRequired ? [{ source: 'retailer-requirements' as const, value: 'required' }] : []),
+          ...(seCreDriveThru ? [{ source: 'se-cre' as const, value: seCre!.locationType || 'drive-through' }] : []),
+          { source: 'business-intelligence', value: business.driveThrough },
+        ],
+        message: `${tenant.name}: sources disagree on whether the format has a drive-through`,
+      });
+    }
+  }
+
+  return conflicts;
+}
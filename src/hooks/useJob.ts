@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { JobSnapshot, JobStatus } from '@/types';
+
+const FINISHED: JobStatus[] = ['done', 'failed', 'cancelled'];
+
+export const isJobFinished = (job: { status: JobStatus }) => FINISHED.includes(job.status);
+
+// Follows a background job over /api/jobs/:id/events; `job` updates as items finish and keeps the
+// final snapshot once the job is through. Pass null to stop following
+export function useJob<TView>(jobId: string | null) {
+  const [state, setState] = useState<{ id: string; job: JobSnapshot<TView> | null; error: string | null } | null>(null);
+
+  useEffect(() => {
+    if (!jobId) return;
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+
+    source.addEventListener('progress', (event) => {
+      const job: JobSnapshot<TView> = JSON.parse((event as MessageEvent).data);
+      setState({ id: jobId, job, error: null });
+      if (isJobFinished(job)) source.close();
+    });
+
+    source.addEventListener('error', (event) => {
+      // The server sends an error event when the job disappears; a dropped connection reconnects by
+      // itself unless the server refused it outright (e.g. unknown job)
+      const message = event instanceof MessageEvent && event.data ? JSON.parse(event.data).error : null;
+      if (message || source.readyState === EventSource.CLOSED) {
+        source.close();
+        setState(prev => ({ id: jobId, job: prev?.id === jobId ? prev.job : null, error: message || 'Job not found' }));
+      }
+    });
+
+    return () => source.close();
+  }, [jobId]);
+
+  // Ignore state left over from a previous job until the new stream sends its first snapshot
+  const current = state && state.id === jobId ? state : null;
+  return { job: current?.job ?? null, error: current?.error ?? null };
+}
@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Project } from '@/types';
+import {
+  getCurrentProjectId,
+  setCurrentProjectId,
+  clearCurrentProjectId,
+  workspaceFetch,
+  notifyWorkspaceChange,
+  onWorkspaceChange,
+} from '@/lib/workspace-client';
+
+export function useProjects() {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [currentProjectId, setCurrentId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    try {
+      const projectId = await getCurrentProjectId();
+      const { projects: list } = await workspaceFetch<{ projects: Project[] }>('/api/projects');
+      setProjects(list);
+      setCurrentId(projectId);
+    } catch (err) {
+      console.error('Failed to load projects:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    return onWorkspaceChange(['projects'], load);
+  }, [load]);
+
+  // Switch the whole app (saved properties, history, favorites) to another project
+  const switchProject = useCallback((projectId: string) => {
+    setCurrentProjectId(projectId);
+  }, []);
+
+  const createProject = useCallback(async (name: string, description?: string): Promise<Project> => {
+    const { project } = await workspaceFetch<{ project: Project }>('/api/projects', {
+      method: 'POST',
+      body: JSON.stringify({ name, description }),
+    });
+    setCurrentProjectId(project.id);
+    return project;
+  }, []);
+
+  const renameProject = useCallback(async (projectId: string, name: string) => {
+    await workspaceFetch(`/api/projects/${projectId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ name }),
+    });
+    notifyWorkspaceChange('projects');
+  }, []);
+
+  const deleteProject = useCallback(async (projectId: string) => {
+    await workspaceFetch(`/api/projects/${projectId}`, { method: 'DELETE' });
+    if (projectId === currentProjectId) {
+      clearCurrentProjectId();
+    } else {
+      notifyWorkspaceChange('projects');
+    }
+  }, [currentProjectId]);
+
+  const currentProject = projects.find(p => p.id === currentProjectId) || null;
+
+  return {
+    projects,
+    currentProject,
+    isLoading,
+    switchProject,
+    createProject,
+    renameProject,
+    deleteProject,
+  };
+}
@@ -1,28 +1,32 @@
-import { useState, useEffect, useCallback } from 'react';
-import { PropertyData } from '@/types';
-
-interface SavedProperty {
-  id: string;
-  name: string;
-  address: string;
-  savedAt: string;
-  data: PropertyData;
-  thumbnail?: string;
-}
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { PropertyData, SavedProperty } from '@/types';
+import {
+  getCurrentProjectId,
+  workspaceFetch,
+  notifyWorkspaceChange,
+  onWorkspaceChange,
+} from '@/lib/workspace-client';
 
-const STORAGE_KEY = 'drone-sense-saved-properties';
+export type { SavedProperty } from '@/types';
 
 export function useSavedProperties() {
   const [savedProperties, setSavedProperties] = useState<SavedProperty[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const propertiesRef = useRef<SavedProperty[]>([]);
 
-  // Load saved properties from localStorage on mount
+  // Keep ref in sync with state
   useEffect(() => {
+    propertiesRef.current = savedProperties;
+  }, [savedProperties]);
+
+  // Load saved properties for the current project
+  const load = useCallback(async () => {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        setSavedProperties(JSON.parse(stored));
-      }
+      const projectId = await getCurrentProjectId();
+      const { properties } = await workspaceFetch<{ properties: SavedProperty[] }>(
+        `/api/projects/${projectId}/properties`
+      );
+      setSavedProperties(properties);
     } catch (err) {
       console.error('Failed to load saved properties:', err);
     } finally {
@@ -30,16 +34,22 @@ export function useSavedProperties() {
     }
   }, []);
 
-  // Save to localStorage whenever properties change
-  const saveToStorage = useCallback((properties: SavedProperty[]) => {
+  useEffect(() => {
+    load();
+    return onWorkspaceChange(['properties'], load);
+  }, [load]);
+
+  // Send a change to the server; on failure reload so the optimistic update is rolled back
+  const persist = useCallback(async (request: (projectId: string) => Promise<unknown>) => {
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(properties));
-      setSavedProperties(properties);
+      const projectId = await getCurrentProjectId();
+      await request(projectId);
+      notifyWorkspaceChange('properties');
     } catch (err) {
       console.error('Failed to save properties:', err);
-      throw new Error('Failed to save property');
+      load();
     }
-  }, []);
+  }, [load]);
 
   // Save a new property
   const saveProperty = useCallback((
@@ -51,7 +61,7 @@ export function useSavedProperties() {
     }
 
     const newProperty: SavedProperty = {
-      id: Date.now().toString(),
+      id: crypto.randomUUID(),
       name: name || propertyData.address,
       address: propertyData.address,
       savedAt: new Date().toISOString(),
@@ -59,57 +69,71 @@ export function useSavedProperties() {
       thumbnail: propertyData.images[0],
     };
 
-    saveToStorage([...savedProperties, newProperty]);
+    setSavedProperties(prev => [...prev, newProperty]);
+    persist(projectId => workspaceFetch(`/api/projects/${projectId}/properties`, {
+      method: 'POST',
+      body: JSON.stringify(newProperty),
+    }));
     return newProperty;
-  }, [savedProperties, saveToStorage]);
+  }, [persist]);
 
   // Update an existing property
   const updateProperty = useCallback((
     id: string,
     updates: Partial<Omit<SavedProperty, 'id' | 'savedAt'>>
   ) => {
-    const updatedProperties = savedProperties.map(p =>
-      p.id === id ? { ...p, ...updates } : p
-    );
-    saveToStorage(updatedProperties);
-  }, [savedProperties, saveToStorage]);
+    setSavedProperties(prev => prev.map(p => (p.id === id ? { ...p, ...updates } : p)));
+    persist(projectId => workspaceFetch(`/api/projects/${projectId}/properties/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    }));
+  }, [persist]);
 
   // Delete a property
   const deleteProperty = useCallback((id: string) => {
-    saveToStorage(savedProperties.filter(p => p.id !== id));
-  }, [savedProperties, saveToStorage]);
+    setSavedProperties(prev => prev.filter(p => p.id !== id));
+    persist(projectId => workspaceFetch(`/api/projects/${projectId}/properties/${id}`, {
+      method: 'DELETE',
+    }));
+  }, [persist]);
 
   // Get a property by ID
   const getProperty = useCallback((id: string): SavedProperty | undefined => {
-    return savedProperties.find(p => p.id === id);
-  }, [savedProperties]);
+    return propertiesRef.current.find(p => p.id === id);
+  }, []);
 
   // Clear all saved properties
   const clearAll = useCallback(() => {
-    saveToStorage([]);
-  }, [saveToStorage]);
+    const ids = propertiesRef.current.map(p => p.id);
+    setSavedProperties([]);
+    persist(projectId => Promise.all(ids.map(id =>
+      workspaceFetch(`/api/projects/${projectId}/properties/${id}`, { method: 'DELETE' })
+    )));
+  }, [persist]);
 
   // Export properties as JSON
   const exportProperties = useCallback((): string => {
     return JSON.stringify(savedProperties, null, 2);
   }, [savedProperties]);
 
-  // Import properties from JSON
+  // Import properties from JSON (the server skips duplicates by address)
   const importProperties = useCallback((json: string) => {
+    let imported: SavedProperty[];
     try {
-      const imported = JSON.parse(json) as SavedProperty[];
+      imported = JSON.parse(json) as SavedProperty[];
       if (!Array.isArray(imported)) {
         throw new Error('Invalid format');
       }
-      // Merge with existing, avoiding duplicates by address
-      const existingAddresses = new Set(savedProperties.map(p => p.address));
-      const newProperties = imported.filter(p => !existingAddresses.has(p.address));
-      saveToStorage([...savedProperties, ...newProperties]);
     } catch (err) {
       console.error('Failed to import properties:', err);
       throw new Error('Failed to import properties. Please check the file format.');
     }
-  }, [savedProperties, saveToStorage]);
+
+    persist(projectId => workspaceFetch(`/api/projects/${projectId}/import`, {
+      method: 'POST',
+      body: JSON.stringify({ savedProperties: imported }),
+    }));
+  }, [persist]);
 
   return {
     savedProperties,
@@ -1,42 +1,26 @@
 import { useState, useEffect, useCallback } from 'react';
+import { QuickFeasibility } from '@/types';
+import {
+  getCurrentProjectId,
+  workspaceFetch,
+  notifyWorkspaceChange,
+  onWorkspaceChange,
+} from '@/lib/workspace-client';
 
-// QuickFeasibility type matching the batch-analyze API response
-export interface QuickFeasibility {
-  parcelId: string;
-  address: string;
-  coordinates: { lat: number; lng: number };
-  lotSize?: number;
-  lotSizeAcres?: number;
-  score: number;
-  factors: {
-    trafficScore: number;
-    businessDensity: number;
-    zoningScore: number;
-    accessScore: number;
-    demographicsScore?: number;
-    lotSizeScore?: number;
-    environmentalScore?: number;
-  };
-  zoning?: string;
-  nearbyBusinesses?: number;
-  estimatedVPD?: number;
-  medianIncome?: number;
-  population?: number;
-}
-
-const STORAGE_KEY = 'drone-sense-search-favorites';
+export type { QuickFeasibility } from '@/types';
 
 export function useSearchFavorites() {
   const [favorites, setFavorites] = useState<QuickFeasibility[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
-  // Load favorites from localStorage on mount
-  useEffect(() => {
+  // Load favorites for the current project
+  const load = useCallback(async () => {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        setFavorites(JSON.parse(stored));
-      }
+      const projectId = await getCurrentProjectId();
+      const { favorites: stored } = await workspaceFetch<{ favorites: QuickFeasibility[] }>(
+        `/api/projects/${projectId}/favorites`
+      );
+      setFavorites(stored);
     } catch (err) {
       console.error('Failed to load search favorites:', err);
     } finally {
@@ -44,16 +28,22 @@ export function useSearchFavorites() {
     }
   }, []);
 
-  // Save to localStorage whenever favorites change
-  const saveToStorage = useCallback((items: QuickFeasibility[]) => {
+  useEffect(() => {
+    load();
+    return onWorkspaceChange(['favorites'], load);
+  }, [load]);
+
+  // Send a change to the server; on failure reload so the optimistic update is rolled back
+  const persist = useCallback(async (request: (projectId: string) => Promise<unknown>) => {
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
-      setFavorites(items);
+      const projectId = await getCurrentProjectId();
+      await request(projectId);
+      notifyWorkspaceChange('favorites');
     } catch (err) {
       console.error('Failed to save search favorites:', err);
-      throw new Error('Failed to save favorite');
+      load();
     }
-  }, []);
+  }, [load]);
 
   // Add a property to favorites
   const addFavorite = useCallback((property: QuickFeasibility): void => {
@@ -61,13 +51,21 @@ export function useSearchFavorites() {
     if (favorites.some(f => f.parcelId === property.parcelId)) {
       return; // Already favorited
     }
-    saveToStorage([...favorites, property]);
-  }, [favorites, saveToStorage]);
+    setFavorites(prev => [...prev, property]);
+    persist(projectId => workspaceFetch(`/api/projects/${projectId}/favorites`, {
+      method: 'POST',
+      body: JSON.stringify(property),
+    }));
+  }, [favorites, persist]);
 
   // Remove a property from favorites
   const removeFavorite = useCallback((parcelId: string): void => {
-    saveToStorage(favorites.filter(f => f.parcelId !== parcelId));
-  }, [favorites, saveToStorage]);
+    setFavorites(prev => prev.filter(f => f.parcelId !== parcelId));
+    persist(projectId => workspaceFetch(
+      `/api/projects/${projectId}/favorites/${encodeURIComponent(parcelId)}`,
+      { method: 'DELETE' }
+    ));
+  }, [persist]);
 
   // Toggle favorite status
   const toggleFavorite = useCallback((property: QuickFeasibility): void => {
@@ -85,8 +83,11 @@ export function useSearchFavorites() {
 
   // Clear all favorites
   const clearFavorites = useCallback((): void => {
-    saveToStorage([]);
-  }, [saveToStorage]);
+    setFavorites([]);
+    persist(projectId => workspaceFetch(`/api/projects/${projectId}/favorites`, {
+      method: 'DELETE',
+    }));
+  }, [persist]);
 
   // Get a favorite by parcel ID
   const getFavorite = useCallback((parcelId: string): QuickFeasibility | undefined => {
@@ -137,22 +138,24 @@ export function useSearchFavorites() {
     return [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
   }, [favorites]);
 
-  // Import favorites from JSON
+  // Import favorites from JSON (the server skips duplicates by parcelId)
   const importFavorites = useCallback((json: string): void => {
+    let imported: QuickFeasibility[];
     try {
-      const imported = JSON.parse(json) as QuickFeasibility[];
+      imported = JSON.parse(json) as QuickFeasibility[];
       if (!Array.isArray(imported)) {
         throw new Error('Invalid format');
       }
-      // Merge with existing, avoiding duplicates by parcelId
-      const existingIds = new Set(favorites.map(f => f.parcelId));
-      const newFavorites = imported.filter(f => !existingIds.has(f.parcelId));
-      saveToStorage([...favorites, ...newFavorites]);
     } catch (err) {
       console.error('Failed to import favorites:', err);
       throw new Error('Failed to import favorites. Please check the file format.');
     }
-  }, [favorites, saveToStorage]);
+
+    persist(projectId => workspaceFetch(`/api/projects/${projectId}/import`, {
+      method: 'POST',
+      body: JSON.stringify({ favorites: imported }),
+    }));
+  }, [persist]);
 
   return {
     favorites,
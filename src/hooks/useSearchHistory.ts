@@ -1,58 +1,60 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { SearchHistoryItem } from '@/types';
+import {
+  getCurrentProjectId,
+  workspaceFetch,
+  notifyWorkspaceChange,
+  onWorkspaceChange,
+} from '@/lib/workspace-client';
 
-export interface SearchHistoryItem {
-  id: string;
-  address: string;
-  coordinates: { lat: number; lng: number };
-  timestamp: string;
-  feasibilityScore: number | null;
-  thumbnail?: string;
-}
+export type { SearchHistoryItem } from '@/types';
 
-const STORAGE_KEY = 'drone-sense-search-history';
 const MAX_HISTORY_ITEMS = 50;
 
-// Helper to get history from localStorage directly
-function getStoredHistory(): SearchHistoryItem[] {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    return stored ? JSON.parse(stored) : [];
-  } catch {
-    return [];
-  }
-}
-
-// Helper to save history to localStorage
-function saveStoredHistory(history: SearchHistoryItem[]) {
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
-  } catch (err) {
-    console.error('Failed to save search history:', err);
-  }
-}
-
 export function useSearchHistory() {
   const [searchHistory, setSearchHistory] = useState<SearchHistoryItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const historyRef = useRef<SearchHistoryItem[]>([]);
+  // Pending create requests, so updates to a new item wait until it exists on the server
+  const pendingRef = useRef<Map<string, Promise<unknown>>>(new Map());
 
   // Keep ref in sync with state
-  useEffect(() => {
-    historyRef.current = searchHistory;
-  }, [searchHistory]);
+  const applyHistory = useCallback((history: SearchHistoryItem[]) => {
+    historyRef.current = history;
+    setSearchHistory(history);
+  }, []);
 
-  // Load search history from localStorage on mount
-  useEffect(() => {
+  // Load search history for the current project
+  const load = useCallback(async () => {
     try {
-      const stored = getStoredHistory();
-      setSearchHistory(stored);
-      historyRef.current = stored;
+      const projectId = await getCurrentProjectId();
+      const { history } = await workspaceFetch<{ history: SearchHistoryItem[] }>(
+        `/api/projects/${projectId}/history`
+      );
+      applyHistory(history);
     } catch (err) {
       console.error('Failed to load search history:', err);
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [applyHistory]);
+
+  useEffect(() => {
+    load();
+    return onWorkspaceChange(['history'], load);
+  }, [load]);
+
+  // Send a change to the server; on failure reload so the optimistic update is rolled back
+  const persist = useCallback(async (request: (projectId: string) => Promise<unknown>) => {
+    try {
+      const projectId = await getCurrentProjectId();
+      await request(projectId);
+      notifyWorkspaceChange('history');
+    } catch (err) {
+      console.error('Failed to save search history:', err);
+      load();
+    }
+  }, [load]);
 
   // Add a new search to history
   const addToHistory = useCallback((
@@ -62,7 +64,7 @@ export function useSearchHistory() {
     thumbnail?: string
   ): SearchHistoryItem => {
     const newItem: SearchHistoryItem = {
-      id: Date.now().toString(),
+      id: crypto.randomUUID(),
       address,
       coordinates,
       timestamp: new Date().toISOString(),
@@ -70,63 +72,64 @@ export function useSearchHistory() {
       thumbnail,
     };
 
-    // Read directly from localStorage to avoid stale closure
-    const currentHistory = getStoredHistory();
-
     // Remove any existing entry with the same address to avoid duplicates
-    const filteredHistory = currentHistory.filter(
+    const filteredHistory = historyRef.current.filter(
       item => item.address.toLowerCase() !== address.toLowerCase()
     );
 
     // Add new item at the beginning and limit total items
-    const updatedHistory = [newItem, ...filteredHistory].slice(0, MAX_HISTORY_ITEMS);
-    saveStoredHistory(updatedHistory);
-    setSearchHistory(updatedHistory);
+    applyHistory([newItem, ...filteredHistory].slice(0, MAX_HISTORY_ITEMS));
+
+    const request = persist(projectId => workspaceFetch(`/api/projects/${projectId}/history`, {
+      method: 'POST',
+      body: JSON.stringify(newItem),
+    }));
+    pendingRef.current.set(newItem.id, request);
+    request.finally(() => pendingRef.current.delete(newItem.id));
 
     return newItem;
-  }, []);
+  }, [applyHistory, persist]);
 
   // Update an existing history item (e.g., add score after analysis completes)
   const updateHistoryItem = useCallback((
     id: string,
     updates: Partial<Omit<SearchHistoryItem, 'id'>>
   ) => {
-    // Read directly from localStorage to avoid stale closure
-    const currentHistory = getStoredHistory();
-    const updatedHistory = currentHistory.map(item =>
+    applyHistory(historyRef.current.map(item =>
       item.id === id ? { ...item, ...updates } : item
-    );
-    saveStoredHistory(updatedHistory);
-    setSearchHistory(updatedHistory);
-  }, []);
+    ));
+
+    const pending = pendingRef.current.get(id) || Promise.resolve();
+    pending.then(() => persist(projectId => workspaceFetch(`/api/projects/${projectId}/history/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    })));
+  }, [applyHistory, persist]);
 
   // Delete a history item
   const deleteHistoryItem = useCallback((id: string) => {
-    // Read directly from localStorage to avoid stale closure
-    const currentHistory = getStoredHistory();
-    const updatedHistory = currentHistory.filter(item => item.id !== id);
-    saveStoredHistory(updatedHistory);
-    setSearchHistory(updatedHistory);
-  }, []);
+    applyHistory(historyRef.current.filter(item => item.id !== id));
+    persist(projectId => workspaceFetch(`/api/projects/${projectId}/history/${id}`, {
+      method: 'DELETE',
+    }));
+  }, [applyHistory, persist]);
 
   // Get a history item by ID
   const getHistoryItem = useCallback((id: string): SearchHistoryItem | undefined => {
-    // Read directly from localStorage to get latest data
-    const currentHistory = getStoredHistory();
-    return currentHistory.find(item => item.id === id);
+    return historyRef.current.find(item => item.id === id);
   }, []);
 
   // Clear all history
   const clearHistory = useCallback(() => {
-    saveStoredHistory([]);
-    setSearchHistory([]);
-  }, []);
+    applyHistory([]);
+    persist(projectId => workspaceFetch(`/api/projects/${projectId}/history`, {
+      method: 'DELETE',
+    }));
+  }, [applyHistory, persist]);
 
   // Get recent searches (for dropdown)
   const getRecentSearches = useCallback((limit: number = 5): SearchHistoryItem[] => {
-    // Read directly from localStorage to get latest data
-    const currentHistory = getStoredHistory();
-    return currentHistory.slice(0, limit);
+    return historyRef.current.slice(0, limit);
   }, []);
 
   return {
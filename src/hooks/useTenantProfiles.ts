@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from 'react';
+import { TenantProfile, TenantProfileInput } from '@/types';
+import { workspaceFetch, notifyWorkspaceChange, onWorkspaceChange } from '@/lib/workspace-client';
+
+// Saved tenant profiles are shared across projects, like the built-in business presets
+export function useTenantProfiles() {
+  const [profiles, setProfiles] = useState<TenantProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    try {
+      const { profiles: list } = await workspaceFetch<{ profiles: TenantProfile[] }>('/api/tenant-profiles');
+      setProfiles(list);
+    } catch (err) {
+      console.error('Failed to load tenant profiles:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    return onWorkspaceChange(['tenant-profiles'], load);
+  }, [load]);
+
+  const createProfile = useCallback(async (input: TenantProfileInput): Promise<TenantProfile> => {
+    const { profile } = await workspaceFetch<{ profile: TenantProfile }>('/api/tenant-profiles', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+    notifyWorkspaceChange('tenant-profiles');
+    return profile;
+  }, []);
+
+  const updateProfile = useCallback(async (id: string, updates: Partial<TenantProfileInput>): Promise<TenantProfile> => {
+    const { profile } = await workspaceFetch<{ profile: TenantProfile }>(`/api/tenant-profiles/${id}`, {
+      method: 'PATCH',
+      // Send cleared optional fields as null so the server drops them instead of keeping the old value
+      body: JSON.stringify(updates, (_key, value) => (value === undefined ? null : value)),
+    });
+    notifyWorkspaceChange('tenant-profiles');
+    return profile;
+  }, []);
+
+  const deleteProfile = useCallback(async (id: string) => {
+    await workspaceFetch(`/api/tenant-profiles/${id}`, { method: 'DELETE' });
+    notifyWorkspaceChange('tenant-profiles');
+  }, []);
+
+  return {
+    profiles,
+    isLoading,
+    createProfile,
+    updateProfile,
+    deleteProfile,
+  };
+}
@@ -0,0 +1,7 @@
+// Runs once when the server starts: picks up background jobs the previous server process left unfinished
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startJobWorker } = await import('@/lib/jobs');
+    await startJobWorker();
+  }
+}
@@ -0,0 +1,756 @@
+// Search batch analysis - quick feasibility scores for every parcel a radius search found, run as a
+// background job: area demographics are fetched once, each parcel is scored as its own job item, and
+// frontage and tenant profile fit are applied across the whole result set at the end
+
+import { providerFetch } from '@/lib/providers';
+import { resolveScoringModel, scoreFeasibility, scoreLotSize, scoreZoning } from '@/lib/scoring';
+import type { ScoringOptions } from '@/lib/scoring';
+import { getTenantProfile, scoreProfileFit } from '@/lib/tenant-profiles';
+import { fetchTrafficCounts, resolveStateCode } from '@/lib/traffic-counts';
+import { distanceBetween, measureFrontage, RoadGeometry } from '@/utils/geometry';
+import type { JobHandler, JobOf, JobPayload } from '@/lib/jobs';
+import { BatchAnalyzeView, FactorTrace, ProfileFit, TenantProfile } from '@/types';
+
+export interface ParcelInput {
+  parcelId: string;
+  address: string;
+  coordinates: { lat: number; lng: number };
+  lotSize?: number;
+  zoning?: string;
+  // Outer ring as [lat, lng]; frontage isn't measured without it
+  boundary?: [number, number][];
+}
+
+interface QuickFeasibility {
+  parcelId: string;
+  address: string;
+  coordinates: { lat: number; lng: number };
+  lotSize?: number;
+  lotSizeAcres?: number;
+  score: number;
+  // Scoring model version the score was computed with
+  modelVersion: string;
+  factors: {
+    trafficScore: number;
+    businessDensity: number;
+    zoningScore: number;
+    accessScore: number;
+    demographicsScore: number;
+    lotSizeScore: number;
+    environmentalScore: number;
+    profileFitScore?: number;
+  };
+  // Per-factor inputs and rules behind the score
+  audit?: FactorTrace[];
+  zoning?: string;
+  nearbyBusinesses?: number;
+  estimatedVPD?: number;
+  medianIncome?: number;
+  population?: number;
+  frontageFeet?: number;
+  isCornerLot?: boolean;
+  depthToFrontageRatio?: number | null;
+  profileFit?: ProfileFit;
+}
+
+// Job input: everything from the search request except the parcels, which become the job's items
+export interface BatchAnalyzeInput {
+  minScore: number;
+  fastMode: boolean; // Skip real API calls, use estimates only
+  // Where area demographics are taken: the search center, or the first parcel when there isn't one
+  demographicsCenter?: { lat: number; lng: number };
+  tenantProfileId?: string; // Score parcels against a saved tenant profile
+  scoring: ScoringOptions;
+}
+
+// Shared by every parcel in the search; fetched once when the job starts
+interface BatchAnalyzeContext {
+  areaDemographics: DemographicsData | null;
+  stateCode: string | null;
+  tenantProfile: TenantProfile | null;
+}
+
+interface NamedBusiness {
+  name: string;
+  brand?: string;
+  brandWikidata?: string;
+  lat: number;
+  lng: number;
+}
+
+interface DemographicsData {
+  population: number;
+  medianHouseholdIncome: number;
+  employmentRate: number;
+  isCollegeTown?: boolean;
+  collegeEnrollmentPercent?: number;
+}
+
+interface CacheEntry {
+  data: QuickFeasibility;
+  timestamp: number;
+}
+
+// In-memory cache with TTL
+const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+const analysisCache = new Map<string, CacheEntry>();
+
+// Parcels of one search analyzed at once
+const PARCEL_CONCURRENCY = 15;
+// Business counts, and VPD where no state DOT count is near, come from Overpass
+const PARCEL_PROVIDERS = ['overpass'];
+
+// Co-tenancy rules look at named businesses within half a mile of each parcel
+const CO_TENANCY_RADIUS_METERS = 805;
+const MAX_CO_TENANCY_SEARCH_METERS = 8000;
+
+// Road centerlines are fetched once for the search area; each parcel is measured against the roads near it
+const MAX_FRONTAGE_SEARCH_METERS = 8000;
+const FRONTAGE_ROAD_MARGIN_DEG = 0.0005; // ~50m
+
+// Generate cache key from coordinates
+function getCacheKey(lat: number, lng: number): string {
+  // Round to 5 decimal places (~1 meter precision) for cache key
+  return `${lat.toFixed(5)},${lng.toFixed(5)}`;
+}
+
+// Clean expired cache entries
+function cleanCache(): void {
+  const now = Date.now();
+  for (const [key, entry] of analysisCache.entries()) {
+    if (now - entry.timestamp > CACHE_TTL) {
+      analysisCache.delete(key);
+    }
+  }
+}
+
+// Fetch official AADT counts (state DOT or imported layers) for VPD
+async function fetchOfficialVPD(lat: number, lng: number, stateCode: string | null): Promise<{ vpd: number; roadType: string; vpdSource?: string }> {
+  try {
+    // Use a small radius to get the nearest road, not distant highways
+    const counts = await fetchTrafficCounts(lat, lng, { radiusMeters: 15, stateCode });
+
+    // Find the most recent AADT data (prioritize recency over highest value)
+    // This gets the actual road data, not necessarily the busiest nearby road
+    let bestVPD = 0;
+    let bestYear = 0;
+    let roadType = 'Local Road';
+    let vpdSource = '';
+
+    for (const count of counts) {
+      // Prioritize most recent year, then take first result (closest)
+      if (count.year > bestYear || (count.year === bestYear && bestVPD === 0)) {
+        bestVPD = count.aadt;
+        bestYear = count.year;
+        vpdSource = `${count.sourceLabel} ${count.year}`;
+
+        // Determine road type from AADT
+        if (count.aadt >= 25000) roadType = 'Major Arterial';
+        else if (count.aadt >= 15000) roadType = 'Primary Arterial';
+        else if (count.aadt >= 8000) roadType = 'Secondary Arterial';
+        else if (count.aadt >= 3000) roadType = 'Collector Road';
+        else roadType = 'Local Road';
+      }
+    }
+
+    if (bestVPD > 0) {
+      return { vpd: bestVPD, roadType, vpdSource };
+    }
+
+    return getEstimatedVPD(lat, lng);
+  } catch (error) {
+    console.error('Error fetching traffic counts:', error);
+    return getEstimatedVPD(lat, lng);
+  }
+}
+
+// Fallback: estimate VPD from road type using Overpass
+async function getEstimatedVPD(lat: number, lng: number): Promise<{ vpd: number; roadType: string }> {
+  try {
+    const radius = 100; // meters
+    const query = `
+      [out:json][timeout:10];
+      way(around:${radius},${lat},${lng})["highway"];
+      out tags;
+    `;
+
+    const response = await providerFetch('https://overpass-api.de/api/interpreter', {
+      method: 'POST',
+      body: `data=${encodeURIComponent(query)}`,
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    });
+
+    if (!response.ok) {
+      return { vpd: 10000, roadType: 'Unknown' };
+    }
+
+    const data = await response.json();
+    const roads = data.elements || [];
+
+    // Estimate VPD based on road type
+    const vpdEstimates: Record<string, { vpd: number; type: string }> = {
+      motorway: { vpd: 50000, type: 'Highway/Interstate' },
+      trunk: { vpd: 35000, type: 'Major Highway' },
+      primary: { vpd: 25000, type: 'Primary Arterial' },
+      secondary: { vpd: 15000, type: 'Secondary Arterial' },
+      tertiary: { vpd: 8000, type: 'Collector Road' },
+      residential: { vpd: 3000, type: 'Residential Street' },
+      unclassified: { vpd: 5000, type: 'Local Road' },
+    };
+
+    let maxVpd = 5000;
+    let bestRoadType = 'Local Road';
+
+    for (const road of roads) {
+      const highway = road.tags?.highway;
+      if (highway && vpdEstimates[highway]) {
+        if (vpdEstimates[highway].vpd > maxVpd) {
+          maxVpd = vpdEstimates[highway].vpd;
+          bestRoadType = vpdEstimates[highway].type;
+        }
+      }
+    }
+
+    // Return consistent estimate based on road type (no random variance)
+    return { vpd: maxVpd, roadType: bestRoadType };
+  } catch (error) {
+    console.error('Error getting VPD estimate:', error);
+    return { vpd: 10000, roadType: 'Unknown' };
+  }
+}
+
+// Fetch nearby business count from Overpass API
+async function fetchNearbyBusinessCount(lat: number, lng: number): Promise<number> {
+  try {
+    const radius = 500; // meters
+    const query = `
+      [out:json][timeout:10];
+      (
+        node["shop"](around:${radius},${lat},${lng});
+        node["amenity"~"restaurant|fast_food|cafe|bank|pharmacy|fuel|hospital|clinic"](around:${radius},${lat},${lng});
+        node["office"](around:${radius},${lat},${lng});
+        way["shop"](around:${radius},${lat},${lng});
+        way["amenity"~"restaurant|fast_food|cafe|bank|pharmacy|fuel|hospital|clinic"](around:${radius},${lat},${lng});
+        way["office"](around:${radius},${lat},${lng});
+      );
+      out count;
+    `;
+
+    const response = await providerFetch('https://overpass-api.de/api/interpreter', {
+      method: 'POST',
+      body: `data=${encodeURIComponent(query)}`,
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    });
+
+    if (!response.ok) {
+      // Return consistent estimate on API failure
+      return 10;
+    }
+
+    const data = await response.json();
+    const count = data.elements?.[0]?.tags?.total;
+
+    if (count !== undefined && count !== null) {
+      return parseInt(count, 10);
+    }
+
+    // Fallback: count elements if count query didn't work
+    return data.elements?.length || 10;
+  } catch (error) {
+    console.error('Error getting business count:', error);
+    return 10;
+  }
+}
+
+// Fetch named businesses around the search area once, for tenant profile co-tenancy rules
+async function fetchNamedBusinesses(lat: number, lng: number, radius: number): Promise<NamedBusiness[] | null> {
+  try {
+    const query = `
+      [out:json][timeout:25];
+      (
+        nwr["name"]["shop"](around:${radius},${lat},${lng});
+        nwr["name"]["amenity"~"restaurant|fast_food|cafe|bank|pharmacy|fuel|clinic|cinema|fitness_centre"](around:${radius},${lat},${lng});
+        nwr["name"]["leisure"="fitness_centre"](around:${radius},${lat},${lng});
+      );
+      out center tags;
+    `;
+
+    const response = await providerFetch('https://overpass-api.de/api/interpreter', {
+      method: 'POST',
+      body: `data=${encodeURIComponent(query)}`,
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    });
+
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    const businesses: NamedBusiness[] = [];
+    for (const element of data.elements || []) {
+      const point = element.center || element;
+      if (element.tags?.name && point.lat !== undefined && point.lon !== undefined) {
+        businesses.push({
+          name: element.tags.name,
+          brand: element.tags.brand,
+          brandWikidata: element.tags['brand:wikidata'],
+          lat: point.lat,
+          lng: point.lon,
+        });
+      }
+    }
+    return businesses;
+  } catch (error) {
+    console.error('Error getting named businesses:', error);
+    return null;
+  }
+}
+
+// Fetch public road centerlines around the search area once, for frontage measurement
+async function fetchRoadGeometries(lat: number, lng: number, radius: number): Promise<RoadGeometry[] | null> {
+  try {
+    const query = `
+      [out:json][timeout:25];
+      way["highway"~"^(motorway|trunk|primary|secondary|tertiary|unclassified|residential|living_street)(_link)?$"](around:${radius},${lat},${lng});
+      out body geom;
+    `;
+
+    const response = await providerFetch('https://overpass-api.de/api/interpreter', {
+      method: 'POST',
+      body: `data=${encodeURIComponent(query)}`,
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    });
+
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    const roads: RoadGeometry[] = [];
+    for (const element of data.elements || []) {
+      if (!element.geometry || element.geometry.length < 2) continue;
+      roads.push({
+        name: element.tags?.name || element.tags?.ref || '',
+        type: element.tags?.highway || 'road',
+        coordinates: element.geometry.map((g: { lat: number; lon: number }) => [g.lat, g.lon] as [number, number]),
+        nodes: element.nodes,
+      });
+    }
+    return roads;
+  } catch (error) {
+    console.error('Error getting road geometries:', error);
+    return null;
+  }
+}
+
+// Measure a parcel's frontage against only the roads whose extent comes near it
+function applyFrontage(
+  result: QuickFeasibility,
+  boundary: [number, number][],
+  roads: Array<{ road: RoadGeometry; bounds: [number, number, number, number] }>
+): QuickFeasibility {
+  const lats = boundary.map(([lat]) => lat);
+  const lngs = boundary.map(([, lng]) => lng);
+  const minLat = Math.min(...lats) - FRONTAGE_ROAD_MARGIN_DEG;
+  const maxLat = Math.max(...lats) + FRONTAGE_ROAD_MARGIN_DEG;
+  const minLng = Math.min(...lngs) - FRONTAGE_ROAD_MARGIN_DEG;
+  const maxLng = Math.max(...lngs) + FRONTAGE_ROAD_MARGIN_DEG;
+
+  const nearby = roads
+    .filter(({ bounds: [s, w, n, e] }) => s <= maxLat && n >= minLat && w <= maxLng && e >= minLng)
+    .map(({ road }) => road);
+  const frontage = measureFrontage(boundary, nearby);
+
+  return {
+    ...result,
+    frontageFeet: frontage.primaryFrontageFeet,
+    isCornerLot: frontage.isCornerLot,
+    depthToFrontageRatio: frontage.depthToFrontageRatio,
+  };
+}
+
+// Blend a tenant profile's fit into a parcel's general feasibility score
+function applyProfileFit(
+  result: QuickFeasibility,
+  profile: TenantProfile,
+  namedBusinesses: NamedBusiness[] | null
+): QuickFeasibility {
+  const nearbyBusinesses = namedBusinesses
+    ?.filter(b => distanceBetween(result.coordinates.lat, result.coordinates.lng, b.lat, b.lng, 'meters') <= CO_TENANCY_RADIUS_METERS);
+
+  const profileFit = scoreProfileFit(profile, {
+    lotAcres: result.lotSizeAcres,
+    vpd: result.estimatedVPD,
+    zoning: result.zoning,
+    medianIncome: result.medianIncome,
+    population: result.population,
+    frontageFeet: result.frontageFeet,
+    isCornerLot: result.isCornerLot,
+    nearbyBusinesses,
+  });
+
+  // Half general site strength, half fit to the client's own criteria
+  const score = Math.round((result.score * 0.5 + profileFit.score * 0.5) * 10) / 10;
+
+  return {
+    ...result,
+    score,
+    factors: { ...result.factors, profileFitScore: profileFit.score },
+    profileFit,
+  };
+}
+
+// Fetch demographics for search area (called once per search)
+async function fetchAreaDemographics(lat: number, lng: number): Promise<DemographicsData | null> {
+  try {
+    // Use FCC API to get census tract
+    const fccUrl = `https://geo.fcc.gov/api/census/area?lat=${lat}&lon=${lng}&format=json`;
+    const fccResponse = await providerFetch(fccUrl);
+
+    if (!fccResponse.ok) return null;
+
+    const fccData = await fccResponse.json();
+    const fips = fccData.results?.[0]?.block_fips;
+
+    if (!fips) return null;
+
+    // Extract state and county FIPS
+    const stateFips = fips.substring(0, 2);
+    const countyFips = fips.substring(2, 5);
+    const tractFips = fips.substring(5, 11);
+
+    // Fetch ACS 5-year data
+    const censusUrl = `https://api.census.gov/data/2022/acs/acs5?get=B01003_001E,B19013_001E,B23025_002E,B23025_005E,B14001_002E,B01001_001E&for=tract:${tractFips}&in=state:${stateFips}&in=county:${countyFips}`;
+
+    const censusResponse = await providerFetch(censusUrl);
+    if (!censusResponse.ok) return null;
+
+    const censusData = await censusResponse.json();
+    if (!censusData || censusData.length < 2) return null;
+
+    const values = censusData[1];
+    const population = parseInt(values[0]) || 0;
+    const medianIncome = parseInt(values[1]) || 50000;
+    const laborForce = parseInt(values[2]) || 1;
+    const unemployed = parseInt(values[3]) || 0;
+    const collegeEnrolled = parseInt(values[4]) || 0;
+    const totalPop = parseInt(values[5]) || population;
+
+    const employmentRate = laborForce > 0 ? Math.round(((laborForce - unemployed) / laborForce) * 100) : 90;
+    const collegePercent = totalPop > 0 ? Math.round((collegeEnrolled / totalPop) * 100) : 0;
+    const isCollegeTown = collegePercent >= 15;
+
+    return {
+      population,
+      medianHouseholdIncome: medianIncome,
+      employmentRate,
+      isCollegeTown,
+      collegeEnrollmentPercent: collegePercent,
+    };
+  } catch (error) {
+    console.error('Error fetching demographics:', error);
+    return null;
+  }
+}
+
+// Simple flood zone check based on elevation (rough estimate)
+async function checkFloodRisk(lat: number, lng: number): Promise<{ score: number; inFloodZone: boolean }> {
+  try {
+    // Use Open-Elevation API for quick check
+    const response = await providerFetch(`https://api.open-elevation.com/api/v1/lookup?locations=${lat},${lng}`);
+    if (!response.ok) return { score: 7, inFloodZone: false };
+
+    const data = await response.json();
+    const elevation = data.results?.[0]?.elevation;
+
+    if (elevation === undefined) return { score: 7, inFloodZone: false };
+
+    // Very rough heuristic: low elevation in Florida = higher flood risk
+    if (elevation < 5) {
+      return { score: 4, inFloodZone: true };
+    } else if (elevation < 15) {
+      return { score: 6, inFloodZone: false };
+    } else {
+      return { score: 8, inFloodZone: false };
+    }
+  } catch {
+    return { score: 7, inFloodZone: false };
+  }
+}
+
+// General site score from the shared scoring model, with the zoning and lot size components broken
+// out for the results table
+function scoreParcel(
+  parcel: ParcelInput,
+  traffic: { vpd: number; roadType: string; vpdSource?: string },
+  businessCount: number,
+  areaDemographics: DemographicsData | null,
+  scoring: ScoringOptions
+): Pick<QuickFeasibility, 'score' | 'factors' | 'modelVersion' | 'audit'> {
+  const model = resolveScoringModel(scoring);
+  const feasibility = scoreFeasibility({
+    traffic: { estimatedVPD: traffic.vpd, roadType: traffic.roadType, vpdSource: traffic.vpdSource },
+    demographics: areaDemographics,
+    businessCount,
+    parcel: { sqft: parcel.lotSize, zoning: parcel.zoning },
+  }, scoring);
+
+  return {
+    score: feasibility.overall,
+    modelVersion: feasibility.modelVersion,
+    factors: {
+      trafficScore: feasibility.breakdown.trafficScore,
+      businessDensity: feasibility.breakdown.competitionScore,
+      zoningScore: scoreZoning(model, parcel.zoning)?.score ?? model.neutralScore,
+      accessScore: feasibility.breakdown.accessScore,
+      demographicsScore: feasibility.breakdown.demographicsScore,
+      lotSizeScore: scoreLotSize(model, parcel.lotSize ? parcel.lotSize / 43560 : undefined)?.score ?? model.neutralScore,
+      // Not fetched per parcel (too slow for a batch), so it scores neutral
+      environmentalScore: feasibility.breakdown.environmentalScore,
+    },
+    audit: feasibility.audit,
+  };
+}
+
+async function analyzeParcel(
+  parcel: ParcelInput,
+  areaDemographics: DemographicsData | null,
+  stateCode: string | null,
+  scoring: ScoringOptions
+): Promise<QuickFeasibility> {
+  // Scores depend on the model, so each model/category combination caches separately
+  const cacheKey = `${getCacheKey(parcel.coordinates.lat, parcel.coordinates.lng)}|${scoring.modelVersion}|${scoring.tenantCategory ?? ''}`;
+
+  // Check cache first
+  const cached = analysisCache.get(cacheKey);
+  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+    // Return cached data with updated parcel info
+    return {
+      ...cached.data,
+      parcelId: parcel.parcelId,
+      address: parcel.address,
+      lotSize: parcel.lotSize,
+      lotSizeAcres: parcel.lotSize ? parcel.lotSize / 43560 : undefined,
+      zoning: parcel.zoning || cached.data.zoning,
+    };
+  }
+
+  // Fetch real data in parallel
+  const [traffic, businessCount] = await Promise.all([
+    fetchOfficialVPD(parcel.coordinates.lat, parcel.coordinates.lng, stateCode),
+    fetchNearbyBusinessCount(parcel.coordinates.lat, parcel.coordinates.lng),
+  ]);
+
+  const result: QuickFeasibility = {
+    parcelId: parcel.parcelId,
+    address: parcel.address,
+    coordinates: parcel.coordinates,
+    lotSize: parcel.lotSize,
+    lotSizeAcres: parcel.lotSize ? parcel.lotSize / 43560 : undefined,
+    ...scoreParcel(parcel, traffic, businessCount, areaDemographics, scoring),
+    zoning: parcel.zoning,
+    nearbyBusinesses: businessCount,
+    estimatedVPD: traffic.vpd,
+    medianIncome: areaDemographics?.medianHouseholdIncome,
+    population: areaDemographics?.population,
+  };
+
+  // Cache the result
+  analysisCache.set(cacheKey, {
+    data: result,
+    timestamp: Date.now(),
+  });
+
+  return result;
+}
+
+// Fast analysis using only estimates (no API calls)
+function analyzeParcelFast(parcel: ParcelInput, areaDemographics: DemographicsData | null, scoring: ScoringOptions): QuickFeasibility {
+  const model = resolveScoringModel(scoring);
+  const zoningScore = scoreZoning(model, parcel.zoning)?.score ?? model.neutralScore;
+
+  // Use consistent estimate based on zoning (no random values)
+  // Commercial areas typically have higher traffic
+  const vpdByZoning: Record<string, number> = {
+    'CBD': 25000, 'C-2': 20000, 'CG': 18000, 'CR': 15000, 'C-1': 12000,
+    'commercial': 15000, 'retail': 15000, 'PD': 12000, 'MU': 12000,
+    'mixed': 10000, 'I-1': 8000, 'I-2': 8000, 'industrial': 8000,
+    'VL': 5000, 'AG': 3000, 'residential': 5000,
+  };
+
+  let vpd = 10000; // default
+  if (parcel.zoning) {
+    const upperZoning = parcel.zoning.toUpperCase();
+    for (const [key, vpdValue] of Object.entries(vpdByZoning)) {
+      if (upperZoning.includes(key.toUpperCase())) {
+        vpd = vpdValue;
+        break;
+      }
+    }
+  }
+
+  // Estimate business count based on zoning
+  const businessCount = zoningScore >= 7 ? 15 : zoningScore >= 5 ? 10 : 5;
+
+  return {
+    parcelId: parcel.parcelId,
+    address: parcel.address,
+    coordinates: parcel.coordinates,
+    lotSize: parcel.lotSize,
+    lotSizeAcres: parcel.lotSize ? parcel.lotSize / 43560 : undefined,
+    ...scoreParcel(parcel, { vpd, roadType: 'Unknown' }, businessCount, areaDemographics, scoring),
+    zoning: parcel.zoning,
+    nearbyBusinesses: businessCount,
+    estimatedVPD: vpd,
+    medianIncome: areaDemographics?.medianHouseholdIncome,
+    population: areaDemographics?.population,
+  };
+}
+
+// Frontage is measured after analysis so cached results don't depend on the boundary sent
+async function applySearchFrontage(
+  results: QuickFeasibility[],
+  parcels: ParcelInput[],
+  center: { lat: number; lng: number }
+): Promise<QuickFeasibility[]> {
+  // Keyed by id and location since fallback parcel ids repeat across search cells
+  const parcelKey = (p: { parcelId: string; coordinates: { lat: number; lng: number } }) =>
+    `${p.parcelId}@${getCacheKey(p.coordinates.lat, p.coordinates.lng)}`;
+  const boundaries = new Map(parcels.filter(p => p.boundary && p.boundary.length >= 3).map(p => [parcelKey(p), p.boundary!]));
+  if (boundaries.size === 0) return results;
+
+  const farthest = Math.max(0, ...parcels.map(p =>
+    distanceBetween(center.lat, center.lng, p.coordinates.lat, p.coordinates.lng, 'meters')
+  ));
+  const radius = Math.min(MAX_FRONTAGE_SEARCH_METERS, Math.ceil(farthest + 200));
+  const roads = await fetchRoadGeometries(center.lat, center.lng, radius);
+  console.log(`[BatchAnalyze] Frontage: ${roads?.length ?? 'N/A'} roads within ${radius}m`);
+  if (!roads) return results;
+
+  const indexed = roads.map(road => {
+    const lats = road.coordinates.map(([lat]) => lat);
+    const lngs = road.coordinates.map(([, lng]) => lng);
+    const bounds: [number, number, number, number] = [Math.min(...lats), Math.min(...lngs), Math.max(...lats), Math.max(...lngs)];
+    return { road, bounds };
+  });
+  return results.map(r => {
+    const boundary = boundaries.get(parcelKey(r));
+    return boundary ? applyFrontage(r, boundary, indexed) : r;
+  });
+}
+
+// Profile scoring runs after analysis so cached parcel results stay profile-independent
+async function applySearchProfileFit(
+  results: QuickFeasibility[],
+  parcels: ParcelInput[],
+  profile: TenantProfile,
+  center: { lat: number; lng: number } | undefined,
+  fastMode: boolean
+): Promise<QuickFeasibility[]> {
+  const { preferred, excluded } = profile.coTenancy;
+  let namedBusinesses: NamedBusiness[] | null = null;
+
+  if (!fastMode && center && (preferred.length > 0 || excluded.length > 0)) {
+    const farthest = Math.max(0, ...parcels.map(p =>
+      distanceBetween(center.lat, center.lng, p.coordinates.lat, p.coordinates.lng, 'meters')
+    ));
+    const radius = Math.min(MAX_CO_TENANCY_SEARCH_METERS, Math.ceil(farthest + CO_TENANCY_RADIUS_METERS));
+    namedBusinesses = await fetchNamedBusinesses(center.lat, center.lng, radius);
+    console.log(`[BatchAnalyze] Co-tenancy: ${namedBusinesses?.length ?? 'N/A'} named businesses within ${radius}m`);
+  }
+
+  return results.map(r => applyProfileFit(r, profile, namedBusinesses));
+}
+
+export type BatchAnalyzePayload = JobPayload<BatchAnalyzeInput, BatchAnalyzeContext, ParcelInput, QuickFeasibility, BatchAnalyzeView, BatchAnalyzeView>;
+
+type BatchAnalyzeJob = JobOf<BatchAnalyzePayload>;
+
+function searchView(job: BatchAnalyzeJob, results: QuickFeasibility[], final: boolean): BatchAnalyzeView {
+  const { input, context } = job;
+  const started = Date.parse(job.startedAt ?? job.createdAt);
+  const finished = job.finishedAt ? Date.parse(job.finishedAt) : Date.now();
+  const demographics = context?.areaDemographics;
+
+  // Filter by minimum score, best first
+  const matching = results.filter(r => r.score >= input.minScore).sort((a, b) => b.score - a.score);
+
+  return {
+    results: matching,
+    totalAnalyzed: job.items.length,
+    matchingCount: matching.length,
+    final,
+    searchTime: finished - started,
+    usedFastMode: input.fastMode,
+    tenantProfile: context?.tenantProfile ? { id: context.tenantProfile.id, name: context.tenantProfile.name } : null,
+    scoringModel: { version: input.scoring.modelVersion!, tenantCategory: input.scoring.tenantCategory ?? null },
+    demographics: demographics ? {
+      medianIncome: demographics.medianHouseholdIncome,
+      population: demographics.population,
+      isCollegeTown: demographics.isCollegeTown,
+    } : null,
+  };
+}
+
+export const batchAnalyzeJob: JobHandler<BatchAnalyzePayload> = {
+  concurrency: PARCEL_CONCURRENCY,
+
+  providers(_parcel, _context, input) {
+    return input.fastMode ? [] : PARCEL_PROVIDERS;
+  },
+
+  async prepare(input) {
+    // Clean expired cache entries periodically
+    if (Math.random() < 0.1) {
+      cleanCache();
+    }
+
+    const center = input.demographicsCenter;
+    let areaDemographics: DemographicsData | null = null;
+    if (center) {
+      try {
+        areaDemographics = await fetchAreaDemographics(center.lat, center.lng);
+        console.log(`[BatchAnalyze] Demographics fetched: $${areaDemographics?.medianHouseholdIncome?.toLocaleString() || 'N/A'} income, ${areaDemographics?.population?.toLocaleString() || 'N/A'} pop`);
+      } catch (e) {
+        console.error('Failed to fetch demographics:', e);
+      }
+    }
+
+    // A search area sits in one state, so its count providers are resolved once
+    const stateCode = !input.fastMode && center ? await resolveStateCode(center.lat, center.lng) : null;
+
+    const tenantProfile = input.tenantProfileId ? await getTenantProfile(input.tenantProfileId) : null;
+    if (input.tenantProfileId && !tenantProfile) {
+      throw new Error('Tenant profile not found');
+    }
+
+    return { areaDemographics, stateCode, tenantProfile };
+  },
+
+  async processItem(parcel, context, input) {
+    return input.fastMode
+      ? analyzeParcelFast(parcel, context.areaDemographics, input.scoring)
+      : analyzeParcel(parcel, context.areaDemographics, context.stateCode, input.scoring);
+  },
+
+  async finalize(job) {
+    const { input, context } = job;
+    const center = input.demographicsCenter;
+    const parcels = job.items.map(item => item.input);
+    let results = job.items.flatMap(item => (item.status === 'done' && item.result ? [item.result] : []));
+
+    if (!input.fastMode && center) {
+      results = await applySearchFrontage(results, parcels, center);
+    }
+    if (context?.tenantProfile) {
+      results = await applySearchProfileFit(results, parcels, context.tenantProfile, center, input.fastMode);
+    }
+    return searchView(job, results, true);
+  },
+
+  label(job) {
+    return `${job.items.length} parcel${job.items.length === 1 ? '' : 's'}`;
+  },
+
+  view(job) {
+    if (job.result) return job.result;
+    // Mid-run: scored parcels so far, before frontage and profile fit
+    return searchView(job, job.items.flatMap(item => (item.status === 'done' && item.result ? [item.result] : [])), false);
+  },
+};
@@ -0,0 +1,137 @@
+// Brand normalization: resolve OSM `brand` / `brand:wikidata` tags and storefront names
+// ("Walgreens Pharmacy", "Wawa #812", "The Home Depot") to canonical tenants in the tenant catalog
+
+import { CatalogTenant, getTenant } from '@/data/tenantCatalog';
+
+export interface BrandInput {
+  name: string;
+  brand?: string;
+  brandWikidata?: string;
+  // Already resolved upstream (e.g. by the Places API)
+  tenantId?: string;
+}
+
+export interface BrandMatch {
+  tenant: CatalogTenant;
+  matchedBy: 'tenant-id' | 'wikidata' | 'brand' | 'name';
+}
+
+// Wikidata items for common brands, mapped to their catalog names
+const WIKIDATA_BRANDS: Record<string, string> = {
+  Q38076: "McDonald's",
+  Q37158: 'Starbucks',
+  Q177054: 'Burger King',
+  Q550258: "Wendy's",
+  Q244457: 'Subway',
+  Q524757: 'KFC',
+  Q752941: 'Taco Bell',
+  Q491516: 'Chick-fil-A',
+  Q1330910: 'Popeyes',
+  Q630866: "Arby's",
+  Q1141226: 'Dairy Queen',
+  Q7561808: 'Sonic Drive-In',
+  Q191615: 'Pizza Hut',
+  Q839466: "Domino's",
+  Q847743: "Dunkin'",
+  Q465751: 'Chipotle',
+  Q483551: 'Walmart Supercenter',
+  Q1046951: 'Target',
+  Q259340: '7-Eleven',
+  Q3268010: 'Circle K',
+  Q5974785: 'Wawa',
+  Q1591889: 'Walgreens',
+  Q2078880: 'CVS Pharmacy',
+  Q145168: 'Dollar General',
+  Q153417: 'Kroger',
+  Q672170: 'Publix',
+  Q487907: 'Bank of America',
+};
+
+// Brand spellings seen in OSM that differ from every catalog name and alias
+const BRAND_ALIASES: Record<string, string> = {
+  'walmart': 'Walmart Supercenter',
+  'wal mart': 'Walmart Supercenter',
+  'the home depot': 'Home Depot',
+  'cvs': 'CVS Pharmacy',
+  'dunkin donuts': "Dunkin'",
+};
+
+// Trailing words storefront names add to the brand
+const GENERIC_SUFFIXES = new Set([
+  'pharmacy', 'bank', 'restaurant', 'store', 'stores', 'supermarket', 'super', 'market', 'grocery', 'gas',
+  'fuel', 'station', 'express', 'drive', 'thru', 'through', 'in', 'cafe', 'coffee', 'food', 'foods',
+]);
+
+function normalizeBrandName(name: string): string {
+  return name.toLowerCase().replace(/['’]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// The name itself, then with store numbers, locality qualifiers and generic trailing words removed
+function nameCandidates(name: string): string[] {
+  const base = name
+    .replace(/#\s*\d+/g, '')
+    .split(/\s+[-–@]\s+|\s+at\s+|\(/i)[0];
+  const words = normalizeBrandName(base).split(' ').filter(Boolean);
+  if (words[0] === 'the' && words.length > 1) words.shift();
+
+  const candidates = [normalizeBrandName(name), words.join(' ')];
+  while (words.length > 1 && GENERIC_SUFFIXES.has(words[words.length - 1])) {
+    words.pop();
+    candidates.push(words.join(' '));
+  }
+  return [...new Set(candidates.filter(Boolean))];
+}
+
+function lookup(name: string): CatalogTenant | null {
+  const key = normalizeBrandName(name);
+  return getTenant(BRAND_ALIASES[key] ?? name);
+}
+
+const resolved = new Map<string, BrandMatch | null>();
+
+export function resolveBrand(input: BrandInput): BrandMatch | null {
+  if (input.tenantId) {
+    const tenant = getTenant(input.tenantId);
+    if (tenant) return { tenant, matchedBy: 'tenant-id' };
+  }
+
+  const cacheKey = `${input.brandWikidata ?? ''}|${input.brand ?? ''}|${input.name}`;
+  if (resolved.has(cacheKey)) return resolved.get(cacheKey)!;
+
+  let match: BrandMatch | null = null;
+  const wikidataName = input.brandWikidata ? WIKIDATA_BRANDS[input.brandWikidata] : undefined;
+  const wikidataTenant = wikidataName ? getTenant(wikidataName) : null;
+  if (wikidataTenant) {
+    match = { tenant: wikidataTenant, matchedBy: 'wikidata' };
+  } else {
+    for (const [source, matchedBy] of [[input.brand, 'brand'], [input.name, 'name']] as const) {
+      if (!source) continue;
+      const tenant = nameCandidates(source).map(lookup).find(Boolean);
+      if (tenant) {
+        match = { tenant, matchedBy };
+        break;
+      }
+    }
+  }
+
+  resolved.set(cacheKey, match);
+  return match;
+}
+
+// True when a nearby business is the named brand: catalog identity when both resolve, otherwise
+// whole-word name equality (so "Sonic" doesn't match "Supersonic Car Wash")
+export function isSameBrand(brandName: string, business: BrandInput): boolean {
+  const wanted = resolveBrand({ name: brandName });
+  const found = resolveBrand(business);
+  if (wanted && found) return wanted.tenant.id === found.tenant.id;
+
+  const target = normalizeBrandName(brandName);
+  return [business.brand, business.name]
+    .filter((s): s is string => !!s)
+    .some(s => nameCandidates(s).includes(target));
+}
+
+// The brand names from `brands` that are present among the businesses
+export function findBrandsPresent(brands: string[], businesses: BrandInput[]): string[] {
+  return brands.filter(brand => businesses.some(business => isSameBrand(brand, business)));
+}
@@ -0,0 +1,364 @@
+// Bulk address import - runs a broker's list of addresses through the same pipeline as a single
+// analysis on the home page (parcel, traffic, demographics, environmental, comps, retailer match) and
+// ranks the sites by feasibility score. Imports run as background jobs with one item per site
+
+import { geocodeAddress } from '@/lib/geocoding';
+import { scoreFeasibility } from '@/lib/scoring';
+import { buildRetailerMatchRequest } from '@/utils/siteRequests';
+import type { JobHandler, JobOf, JobPayload } from '@/lib/jobs';
+import { sheetTable } from '@/lib/spreadsheet';
+import type { SheetRows } from '@/lib/spreadsheet';
+import { analyzeSiteAccess } from '@/lib/access-points';
+import { fetchExtendedDemographics } from '@/lib/extended-demographics';
+import { assessEnvironmentalRisk } from '@/lib/environmental';
+import { fetchLocationIntelligence } from '@/lib/location-intelligence';
+import { fetchMarketComps } from '@/lib/market-comps';
+import { lookupParcel } from '@/lib/parcels';
+import type { ParcelResponse } from '@/lib/parcels';
+import { findNearbyBusinesses } from '@/lib/places';
+import { matchRetailers } from '@/lib/retailer-match';
+import { fetchSiteTraffic } from '@/lib/site-traffic';
+import type {
+  BulkImportIssue,
+  BulkImportRow,
+  BulkImportView,
+  RetailerMatchResult,
+  SiteInputs,
+} from '@/types';
+
+export const MAX_IMPORT_ROWS = 500;
+
+// Sites of one import analyzed at once; each one fans out to a dozen upstream providers
+const ROW_CONCURRENCY = 4;
+
+// Parcel GIS, road network, census and flood layers every site calls, plus the geocoders for sites
+// without coordinates (see the provider registry)
+const SITE_PROVIDERS = ['county-gis', 'overpass', 'census-acs', 'fema'];
+const GEOCODER_PROVIDERS = ['nominatim', 'census-geocoder'];
+
+// Same radius the home page uses for nearby businesses (1.5 miles)
+const BUSINESS_RADIUS_METERS = 2414;
+
+// Geocodes below this confidence are analyzed but flagged for review
+const LOW_CONFIDENCE = 0.7;
+
+type ImportField = 'address' | 'street' | 'city' | 'state' | 'zip' | 'apn' | 'lat' | 'lng';
+
+// Accepted spellings for each column, compared after normalizeHeader
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  address: ['address', 'fulladdress', 'siteaddress', 'propertyaddress', 'location'],
+  street: ['street', 'streetaddress', 'address1', 'addressline1'],
+  city: ['city', 'town'],
+  state: ['state', 'st'],
+  zip: ['zip', 'zipcode', 'postalcode', 'postcode'],
+  apn: ['apn', 'parcel', 'parcelid', 'parcelnumber', 'pin', 'folio'],
+  lat: ['lat', 'latitude', 'y'],
+  lng: ['lng', 'lon', 'long', 'longitude', 'x'],
+};
+
+export interface ParsedImport {
+  rows: BulkImportRow[];
+  issues: BulkImportIssue[];
+}
+
+// ============ Parsing ============
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function parseCoordinate(value: string, min: number, max: number): number | null {
+  const n = parseFloat(value);
+  return Number.isFinite(n) && n >= min && n <= max ? n : null;
+}
+
+// Reads sites from a sheet whose header row names an address (or street/city/state/zip) or lat/lng
+// columns, plus an optional APN checked against the parcel found; matching is loose, so
+// "Property Address" and "property_address" both work
+export function parseImportSheet(sheet: SheetRows): ParsedImport {
+  const issues: BulkImportIssue[] = [];
+  const table = sheetTable(sheet);
+  if (!table) {
+    issues.push({ row: 1, column: null, severity: 'error', message: 'Sheet is empty' });
+    return { rows: [], issues };
+  }
+
+  const { header, headerRow, records: body } = table;
+  const columnOf = new Map<ImportField, number>();
+  header.forEach((h, i) => {
+    const key = normalizeHeader(h);
+    const field = (Object.keys(COLUMN_ALIASES) as ImportField[]).find(f => COLUMN_ALIASES[f].includes(key));
+    if (field && !columnOf.has(field)) {
+      columnOf.set(field, i);
+    } else if (h.trim()) {
+      issues.push({ row: headerRow, column: h, severity: 'warning', message: `Unrecognized column "${h}" was ignored` });
+    }
+  });
+
+  const hasAddress = columnOf.has('address') || columnOf.has('street');
+  const hasPoint = columnOf.has('lat') && columnOf.has('lng');
+  if (!hasAddress && !hasPoint) {
+    issues.push({ row: headerRow, column: null, severity: 'error', message: 'Sheet needs an Address (or Street/City/State/Zip) or Lat/Lng column' });
+    return { rows: [], issues };
+  }
+
+  const rows: BulkImportRow[] = [];
+  body.forEach(({ row, cells }) => {
+    const cell = (field: ImportField) => {
+      const i = columnOf.get(field);
+      return i === undefined ? '' : (cells[i] ?? '').trim();
+    };
+    // City/state/zip columns complete a street-only address; a full "street, city, ST zip" is kept as is
+    const street = cell('address') || cell('street');
+    const address = street.includes(',')
+      ? street
+      : [street, cell('city'), [cell('state'), cell('zip')].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+    const apn = cell('apn') || null;
+
+    let coordinates: BulkImportRow['coordinates'] = null;
+    if (cell('lat') || cell('lng')) {
+      const lat = parseCoordinate(cell('lat'), -90, 90);
+      const lng = parseCoordinate(cell('lng'), -180, 180);
+      if (lat !== null && lng !== null) {
+        coordinates = { lat, lng };
+      } else {
+        issues.push({ row, column: 'Lat/Lng', severity: 'warning', message: 'Invalid coordinates were ignored' });
+      }
+    }
+
+    if (!address && !coordinates) {
+      // There is no APN lookup service to place an APN on its own
+      issues.push({
+        row,
+        column: null,
+        severity: 'error',
+        message: apn ? `APN ${apn} has no address or coordinates to locate it` : 'Row has no address or coordinates',
+      });
+      return;
+    }
+
+    if (rows.length === MAX_IMPORT_ROWS) {
+      issues.push({ row, column: null, severity: 'error', message: `Only the first ${MAX_IMPORT_ROWS} sites are imported` });
+      return;
+    }
+
+    rows.push({ row, address, apn, coordinates, status: 'queued', warnings: [] });
+  });
+
+  if (rows.length === 0 && !issues.some(i => i.severity === 'error')) {
+    issues.push({ row: headerRow + 1, column: null, severity: 'error', message: 'Sheet has no sites' });
+  }
+
+  return { rows, issues };
+}
+
+// ============ Job ============
+
+// Job input besides the sites themselves, which are the job's items
+export interface BulkImportInput {
+  fileName: string;
+  issues: BulkImportIssue[];
+}
+
+export type BulkImportPayload = JobPayload<BulkImportInput, Record<string, never>, BulkImportRow, BulkImportRow, null, BulkImportView>;
+
+type BulkImportJob = JobOf<BulkImportPayload>;
+
+// Analyzed sites by score, then everything else in sheet order
+function rankRows(rows: BulkImportRow[]): BulkImportRow[] {
+  return [...rows].sort((a, b) => {
+    const aScore = a.status === 'done' ? a.score ?? -1 : null;
+    const bScore = b.status === 'done' ? b.score ?? -1 : null;
+    if (aScore !== null && bScore !== null) return bScore - aScore || a.row - b.row;
+    if (aScore !== null) return -1;
+    if (bScore !== null) return 1;
+    return a.row - b.row;
+  });
+}
+
+export const bulkImportJob: JobHandler<BulkImportPayload> = {
+  concurrency: ROW_CONCURRENCY,
+
+  providers(row) {
+    return row.coordinates ? SITE_PROVIDERS : [...GEOCODER_PROVIDERS, ...SITE_PROVIDERS];
+  },
+
+  async prepare() {
+    return {};
+  },
+
+  async processItem(row) {
+    return { ...row, ...(await analyzeSite(row)), status: 'done', completedAt: new Date().toISOString() };
+  },
+
+  async finalize() {
+    return null;
+  },
+
+  label(job: BulkImportJob) {
+    return job.input.fileName;
+  },
+
+  view(job: BulkImportJob) {
+    const rows = job.items.map(item => item.result ?? { ...item.input, status: item.status, error: item.error });
+    return { fileName: job.input.fileName, rows: rankRows(rows), issues: job.input.issues };
+  },
+};
+
+// ============ Pipeline ============
+
+// Compares APNs ignoring punctuation, which counties format differently ("12-34-5" vs "12345")
+function sameApn(a: string, b: string): boolean {
+  const digits = (apn: string) => apn.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return digits(a) === digits(b);
+}
+
+async function analyzeSite(row: BulkImportRow): Promise<Partial<BulkImportRow>> {
+  const warnings: string[] = [];
+  let coordinates = row.coordinates;
+  let geocode: BulkImportRow['geocode'];
+
+  if (!coordinates) {
+    const result = await geocodeAddress(row.address);
+    if (!result) throw new Error('Address not found');
+    coordinates = { lat: result.lat, lng: result.lng };
+    geocode = { formattedAddress: result.formattedAddress, quality: result.quality, confidence: result.confidence };
+    if (result.ambiguous || result.confidence < LOW_CONFIDENCE) {
+      warnings.push(`Uncertain geocode (${result.quality}, ${Math.round(result.confidence * 100)}% confidence); check the location`);
+    } else if (result.warning) {
+      warnings.push(result.warning);
+    }
+  }
+  const address = geocode?.formattedAddress || row.address;
+
+  // Analyze from inside the lot, as the home page does once a pin snaps to the parcel
+  let parcel: ParcelResponse | null = null;
+  try {
+    parcel = await lookupParcel(coordinates, address);
+    if (parcel.centroid) coordinates = { lat: parcel.centroid.lat, lng: parcel.centroid.lng };
+  } catch (err) {
+    warnings.push(`Parcel lookup failed: ${err instanceof Error ? err.message : err}`);
+  }
+
+  if (row.apn && parcel?.parcelInfo?.apn && !sameApn(row.apn, parcel.parcelInfo.apn)) {
+    warnings.push(`Parcel found at this address is APN ${parcel.parcelInfo.apn}, not ${row.apn}`);
+  }
+
+  const { lat, lng } = coordinates;
+  const boundary = parcel?.boundaries?.[0];
+  const optional = <T>(label: string, request: Promise<T>): Promise<T | null> =>
+    request.catch(err => {
+      warnings.push(`${label} unavailable: ${err instanceof Error ? err.message : err}`);
+      return null;
+    });
+
+  const [traffic, demographics, places, environmentalRisk, comps, locationIntelligence, access] = await Promise.all([
+    optional('Traffic', fetchSiteTraffic(coordinates, address)),
+    optional('Demographics', fetchExtendedDemographics(lat, lng, [1, 3, 5], [5, 10, 15])),
+    optional('Nearby businesses', findNearbyBusinesses(coordinates, { radius: BUSINESS_RADIUS_METERS })),
+    optional('Environmental risk', assessEnvironmentalRisk(lat, lng)),
+    optional('Market comps', fetchMarketComps(lat, lng)),
+    optional('Location intelligence', fetchLocationIntelligence(lat, lng)),
+    boundary && boundary.length >= 3
+      ? optional('Access points', analyzeSiteAccess(boundary, coordinates))
+      : Promise.resolve(null),
+  ]);
+
+  const marketComps = comps ? [...(comps.comps || []), ...(comps.estimatedComps || [])] : null;
+  const site: SiteInputs = {
+    traffic,
+    accessPoints: access?.accessPoints || [],
+    demographics,
+    businesses: places?.businesses || [],
+    environmentalRisk,
+    marketComps,
+    locationIntelligence,
+    parcel: parcel?.parcelInfo || null,
+  };
+  const score = scoreFeasibility(site);
+
+  let retailerMatches: RetailerMatchResult | null = null;
+  const matchRequest = buildRetailerMatchRequest(site, address);
+  if (matchRequest) {
+    retailerMatches = await optional('Retailer matches', matchRetailers(matchRequest));
+  }
+
+  const priced = (marketComps || []).filter(c => c.pricePerSqft > 0);
+
+  return {
+    coordinates,
+    warnings,
+    geocode,
+    parcel: parcel?.parcelInfo
+      ? { apn: parcel.parcelInfo.apn, acres: parcel.parcelInfo.acres, zoning: parcel.parcelInfo.zoning, source: parcel.source }
+      : undefined,
+    vpd: traffic?.estimatedVPD ?? null,
+    medianIncome: demographics?.medianHouseholdIncome ?? null,
+    population: demographics?.population ?? null,
+    nearbyBusinesses: site.businesses.length,
+    floodRisk: environmentalRisk?.floodZone?.risk ?? null,
+    environmentalRiskScore: environmentalRisk?.overallRiskScore ?? null,
+    avgPricePerSqft: priced.length > 0
+      ? Math.round(priced.reduce((sum, c) => sum + c.pricePerSqft, 0) / priced.length)
+      : null,
+    score: score.overall,
+    rating: score.rating,
+    breakdown: score.breakdown,
+    modelVersion: score.modelVersion,
+    topRetailers: retailerMatches?.matches.slice(0, 5).map(m => ({ name: m.name, matchScore: m.matchScore })),
+    retailerMatchCount: retailerMatches?.totalMatches,
+  };
+}
+
+// ============ Export ============
+
+const EXPORT_HEADER = [
+  'Rank', 'Row', 'Address', 'Matched Address', 'APN', 'Parcel APN', 'Lat', 'Lng', 'Status', 'Score', 'Rating',
+  'Traffic', 'Demographics', 'Competition', 'Access', 'Environmental', 'Market', 'Economic', 'Site',
+  'Acres', 'Zoning', 'VPD', 'Median Income', 'Population', 'Nearby Businesses', 'Flood Risk',
+  'Env Risk Score', 'Avg $/SqFt', 'Retailer Matches', 'Top Retailers', 'Geocode Quality', 'Geocode Confidence',
+  'Warnings', 'Error',
+];
+
+function text(value: string | number | null | undefined): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+// One line per site in ranked order, for the CSV/XLSX download
+export function exportBulkImportSheet(view: BulkImportView): SheetRows {
+  let rank = 0;
+  const body = view.rows.map(r => {
+    const b = r.breakdown;
+    return [
+      r.status === 'done' ? String(++rank) : '',
+      String(r.row),
+      r.address,
+      text(r.geocode?.formattedAddress),
+      text(r.apn),
+      text(r.parcel?.apn),
+      text(r.coordinates?.lat.toFixed(6)),
+      text(r.coordinates?.lng.toFixed(6)),
+      r.status,
+      text(r.score),
+      text(r.rating),
+      text(b?.trafficScore), text(b?.demographicsScore), text(b?.competitionScore), text(b?.accessScore),
+      text(b?.environmentalScore), text(b?.marketScore), text(b?.economicScore), text(b?.siteScore),
+      text(r.parcel?.acres !== undefined ? r.parcel.acres.toFixed(2) : null),
+      text(r.parcel?.zoning),
+      text(r.vpd),
+      text(r.medianIncome),
+      text(r.population),
+      text(r.nearbyBusinesses),
+      text(r.floodRisk),
+      text(r.environmentalRiskScore),
+      text(r.avgPricePerSqft),
+      text(r.retailerMatchCount),
+      (r.topRetailers || []).map(t => `${t.name} (${t.matchScore})`).join('; '),
+      text(r.geocode?.quality),
+      text(r.geocode ? Math.round(r.geocode.confidence * 100) / 100 : null),
+      r.warnings.join('; '),
+      text(r.error),
+    ];
+  });
+  return [EXPORT_HEADER, ...body];
+}
@@ -1,6 +1,8 @@
 // Business type presets for property search filters
 // Each preset defines ideal requirements for commercial site selection
 
+import { TenantProfile } from '@/types';
+
 export interface BusinessRequirement {
   label: string;
   description: string;
@@ -10,8 +12,13 @@ export interface BusinessRequirement {
   zoning: string[];
   minRoadFrontage?: number;
   preferCornerLot?: boolean;
+  // Set for entries that come from a saved tenant profile
+  tenantProfileId?: string;
 }
 
+// Saved tenant profiles appear in the business type filter as "profile:<id>"
+export const PROFILE_KEY_PREFIX = 'profile:';
+
 export const BUSINESS_REQUIREMENTS: Record<string, BusinessRequirement> = {
   'fast-food': {
     label: 'Fast Food Restaurant',
@@ -110,15 +117,41 @@ export const ZONING_TYPES = [
   { code: 'O-2', label: 'O-2 - Office Park' },
 ];
 
-// Helper to get business requirement by key
-export function getBusinessRequirement(key: string): BusinessRequirement | null {
+export function profileToBusinessRequirement(profile: TenantProfile): BusinessRequirement {
+  return {
+    label: profile.name,
+    description: profile.description || 'Custom tenant profile',
+    minAcres: profile.minAcres,
+    maxAcres: profile.maxAcres,
+    minVPD: profile.minVPD,
+    zoning: profile.zoning,
+    minRoadFrontage: profile.minRoadFrontage,
+    preferCornerLot: profile.preferCornerLot,
+    tenantProfileId: profile.id,
+  };
+}
+
+// Helper to get business requirement by key (preset key or "profile:<id>")
+export function getBusinessRequirement(key: string, profiles: TenantProfile[] = []): BusinessRequirement | null {
+  if (key.startsWith(PROFILE_KEY_PREFIX)) {
+    const profile = profiles.find(p => p.id === key.slice(PROFILE_KEY_PREFIX.length));
+    return profile ? profileToBusinessRequirement(profile) : null;
+  }
   return BUSINESS_REQUIREMENTS[key] || null;
 }
 
-// Helper to get all business type options for dropdown
-export function getBusinessTypeOptions(): Array<{ value: string; label: string }> {
-  return Object.entries(BUSINESS_REQUIREMENTS).map(([key, req]) => ({
+// Helper to get all business type options for dropdown, saved profiles after the presets
+export function getBusinessTypeOptions(
+  profiles: TenantProfile[] = []
+): Array<{ value: string; label: string; custom?: boolean }> {
+  const presets = Object.entries(BUSINESS_REQUIREMENTS).map(([key, req]) => ({
     value: key,
     label: req.label,
   }));
+  const custom = profiles.map(profile => ({
+    value: `${PROFILE_KEY_PREFIX}${profile.id}`,
+    label: profile.name,
+    custom: true,
+  }));
+  return [...presets, ...custom];
 }
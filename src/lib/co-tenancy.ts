@@ -0,0 +1,150 @@
+// Co-tenancy engine: for a recommended tenant, classify the businesses around the site as direct
+// competitors, complementary anchors that feed it trips, or existing locations of the same brand
+
+import { CatalogTenant } from '@/data/tenantCatalog';
+import type { SECRECategory } from '@/data/seCRETenants';
+import { POI_CATEGORIES } from '@/data/poiTaxonomy';
+import { resolveBrand } from '@/lib/brands';
+import type { Business, CannibalizationRisk, CoTenancyReport, CoTenant } from '@/types';
+
+// Catalog categories for unbranded businesses saved before the Places API returned POI categories
+const LEGACY_TYPE_CATEGORIES: Record<string, SECRECategory[]> = {
+  'Fast Food': ['QSR — BURGER / CHICKEN / SANDWICH', 'QSR — MEXICAN / ASIAN / PIZZA / OTHER'],
+  'Cafe': ['QSR — COFFEE / BAKERY / SMOOTHIE / DESSERT'],
+  'Restaurant': ['CASUAL / FULL-SERVICE RESTAURANT'],
+  'Bank': ['BANK / FINANCIAL / TAX / INSURANCE'],
+  'Pharmacy': ['PHARMACY / MEDICAL / DENTAL / WELLNESS'],
+  'Gas Station': ['CONVENIENCE STORE / FUEL'],
+  'Convenience': ['CONVENIENCE STORE / FUEL'],
+  'Grocery': ['GROCERY / SUPERMARKET'],
+  'Mall': ['DEPARTMENT / APPAREL / SHOES'],
+  'Department Store': ['DEPARTMENT / APPAREL / SHOES'],
+};
+
+// Anchor categories that generate the trips a tenant category captures, with the reason
+const ANCHOR_ROLES: Partial<Record<SECRECategory, string>> = {
+  'GROCERY / SUPERMARKET': 'Grocery anchor drives daily repeat trips',
+  'BIG BOX / WAREHOUSE RETAIL': 'Big box anchor draws regional traffic',
+  'DEPARTMENT / APPAREL / SHOES': 'Department store / mall draws shopping trips',
+  'ENTERTAINMENT / RECREATION': 'Entertainment venue generates evening and weekend visits',
+  'FITNESS / WELLNESS / SPA': 'Gym brings steady morning and evening visits',
+  'PHARMACY / MEDICAL / DENTAL / WELLNESS': 'Pharmacy / medical creates convenience trips',
+  'HOTEL / HOSPITALITY': 'Hotel guests need nearby dining and fuel',
+  'OFFICE / COWORKING': 'Office workers drive weekday daytime demand',
+};
+
+const QSR_ANCHORS: SECRECategory[] = ['GROCERY / SUPERMARKET', 'BIG BOX / WAREHOUSE RETAIL', 'DEPARTMENT / APPAREL / SHOES', 'ENTERTAINMENT / RECREATION', 'HOTEL / HOSPITALITY'];
+
+const COMPLEMENTARY_CATEGORIES: Partial<Record<SECRECategory, SECRECategory[]>> = {
+  'QSR — BURGER / CHICKEN / SANDWICH': QSR_ANCHORS,
+  'QSR — MEXICAN / ASIAN / PIZZA / OTHER': QSR_ANCHORS,
+  'QSR — COFFEE / BAKERY / SMOOTHIE / DESSERT': ['GROCERY / SUPERMARKET', 'BIG BOX / WAREHOUSE RETAIL', 'FITNESS / WELLNESS / SPA', 'OFFICE / COWORKING'],
+  'CASUAL / FULL-SERVICE RESTAURANT': ['BIG BOX / WAREHOUSE RETAIL', 'DEPARTMENT / APPAREL / SHOES', 'ENTERTAINMENT / RECREATION', 'HOTEL / HOSPITALITY'],
+  'CONVENIENCE STORE / FUEL': ['GROCERY / SUPERMARKET', 'BIG BOX / WAREHOUSE RETAIL', 'HOTEL / HOSPITALITY'],
+  'PHARMACY / MEDICAL / DENTAL / WELLNESS': ['GROCERY / SUPERMARKET', 'BIG BOX / WAREHOUSE RETAIL'],
+  'BANK / FINANCIAL / TAX / INSURANCE': ['GROCERY / SUPERMARKET', 'BIG BOX / WAREHOUSE RETAIL', 'PHARMACY / MEDICAL / DENTAL / WELLNESS'],
+  'DOLLAR / VALUE / THRIFT / RESALE': ['GROCERY / SUPERMARKET', 'PHARMACY / MEDICAL / DENTAL / WELLNESS'],
+  'SPECIALTY RETAIL / ELECTRONICS / PET / SPORTING': ['BIG BOX / WAREHOUSE RETAIL', 'GROCERY / SUPERMARKET', 'DEPARTMENT / APPAREL / SHOES'],
+  'DEPARTMENT / APPAREL / SHOES': ['BIG BOX / WAREHOUSE RETAIL', 'DEPARTMENT / APPAREL / SHOES'],
+  'FITNESS / WELLNESS / SPA': ['GROCERY / SUPERMARKET', 'BIG BOX / WAREHOUSE RETAIL'],
+  'PERSONAL SERVICES / SALON / WIRELESS / SHIPPING': ['GROCERY / SUPERMARKET', 'BIG BOX / WAREHOUSE RETAIL'],
+  'AUTO PARTS / SERVICE / CAR WASH / DEALERSHIP': ['BIG BOX / WAREHOUSE RETAIL', 'CONVENIENCE STORE / FUEL'],
+};
+
+// Same-brand spacing: a second location inside these distances mostly splits existing sales
+const CANNIBALIZATION_MILES = { high: 1, moderate: 3 };
+
+interface ClassifiedBusiness {
+  business: Business;
+  tenant: CatalogTenant | null;
+  categories: SECRECategory[];
+}
+
+function classify(business: Business): ClassifiedBusiness {
+  const match = resolveBrand(business);
+  if (match) {
+    return { business, tenant: match.tenant, categories: [match.tenant.category] };
+  }
+  // A category code the taxonomy no longer knows falls back to the business type
+  const categories = (business.category ? POI_CATEGORIES[business.category]?.tenantCategories : undefined)
+    ?? LEGACY_TYPE_CATEGORIES[business.type]
+    ?? [];
+  return { business, tenant: null, categories };
+}
+
+function toCoTenant({ business, tenant }: ClassifiedBusiness): CoTenant {
+  return {
+    name: business.name,
+    brand: tenant?.name ?? null,
+    distance: business.distance,
+    category: tenant?.categoryLabel ?? (business.type || null),
+  };
+}
+
+function distanceMiles(business: Business): number {
+  const miles = parseFloat(business.distance);
+  return Number.isFinite(miles) ? miles : Infinity;
+}
+
+function cannibalizationRisk(nearestMiles: number): CannibalizationRisk {
+  if (!Number.isFinite(nearestMiles)) return 'none';
+  if (nearestMiles <= CANNIBALIZATION_MILES.high) return 'high';
+  if (nearestMiles <= CANNIBALIZATION_MILES.moderate) return 'moderate';
+  return 'low';
+}
+
+export function analyzeCoTenancy(tenant: CatalogTenant, businesses: Business[]): CoTenancyReport {
+  const classified = businesses.map(classify);
+  const complements = COMPLEMENTARY_CATEGORIES[tenant.category] ?? [];
+
+  const sameBrand = classified
+    .filter(c => c.tenant?.id === tenant.id)
+    .sort((a, b) => distanceMiles(a.business) - distanceMiles(b.business));
+
+  const directCompetitors = classified
+    .filter(c => c.tenant?.id !== tenant.id && c.categories.includes(tenant.category))
+    .map(c => ({
+      ...toCoTenant(c),
+      sameSegment: !!tenant.segment && c.tenant?.segment === tenant.segment,
+    }))
+    .sort((a, b) => Number(b.sameSegment) - Number(a.sameSegment));
+
+  const complementaryAnchors = classified
+    .filter(c => c.tenant?.id !== tenant.id)
+    .flatMap(c => {
+      const category = c.categories.find(cat => complements.includes(cat));
+      const role = category && ANCHOR_ROLES[category];
+      return role ? [{ ...toCoTenant(c), role }] : [];
+    });
+
+  const nearestMiles = sameBrand.length > 0 ? distanceMiles(sameBrand[0].business) : Infinity;
+  const risk = cannibalizationRisk(nearestMiles);
+  const cannibalizationNote = {
+    none: `No existing ${tenant.name} nearby`,
+    low: `Nearest ${tenant.name} is ${nearestMiles.toFixed(1)} mi away`,
+    moderate: `Existing ${tenant.name} ${nearestMiles.toFixed(1)} mi away would share part of this trade area`,
+    high: `Existing ${tenant.name} only ${nearestMiles.toFixed(1)} mi away - a new unit would mostly split its sales`,
+  }[risk];
+
+  const summary = [
+    directCompetitors.length > 0
+      ? `${directCompetitors.length} direct competitor${directCompetitors.length === 1 ? '' : 's'}`
+      : 'No direct competitors',
+    complementaryAnchors.length > 0
+      ? `${complementaryAnchors.length} complementary anchor${complementaryAnchors.length === 1 ? '' : 's'}`
+      : 'no complementary anchors',
+    `${risk} cannibalization risk`,
+  ].join(', ');
+
+  return {
+    tenantId: tenant.id,
+    directCompetitors,
+    complementaryAnchors,
+    cannibalization: {
+      risk,
+      sameBrandLocations: sameBrand.map(toCoTenant),
+      note: cannibalizationNote,
+    },
+    summary,
+  };
+}
@@ -0,0 +1,477 @@
+// Recorded commercial sale comps: spreadsheet import (geocoded and classified by asset class),
+// county sale records from parcel GIS layers, and radius lookups over both
+
+import { createHash } from 'crypto';
+import { getStore } from '@/lib/db';
+import type { StoredDocument } from '@/lib/db';
+import { providerFetch } from '@/lib/providers';
+import { sheetTable } from '@/lib/spreadsheet';
+import type { SheetRows } from '@/lib/spreadsheet';
+import type { ImportIssue } from '@/lib/tenant-spreadsheet';
+import { distanceBetween } from '@/utils/geometry';
+import { CompAssetClass, SaleComp, StoredSaleComp } from '@/types';
+
+export const SALE_COMPS_COLLECTION = 'sale-comps';
+
+// Transfers below this are deeds of convenience, not market sales
+const MIN_SALE_PRICE = 10000;
+// Census geocoder calls per upload; larger files should include coordinates
+const MAX_GEOCODES_PER_IMPORT = 250;
+
+function toStoredComp(doc: StoredDocument<SaleComp>): StoredSaleComp {
+  return { ...doc.data, id: doc.id, importedAt: doc.createdAt };
+}
+
+// The same sale imported twice (or reported by the county again) keeps one record
+function compId(comp: Pick<SaleComp, 'address' | 'saleDate' | 'salePrice'>): string {
+  const key = `${comp.address.toLowerCase().replace(/\s+/g, ' ').trim()}|${comp.saleDate}|${Math.round(comp.salePrice)}`;
+  return createHash('sha1').update(key).digest('hex').slice(0, 16);
+}
+
+// ============ Classification ============
+
+// Florida DOR land use codes (also used by several other states' county rolls)
+const DOR_USE_CLASSES: [number, number, CompAssetClass | 'Residential'][] = [
+  [0, 9, 'Residential'],
+  [10, 10, 'Land'],
+  [11, 16, 'Retail'],
+  [17, 19, 'Office'],
+  [20, 20, 'Other'],
+  [21, 22, 'Retail'],
+  [23, 25, 'Office'],
+  [26, 27, 'Retail'],
+  [28, 38, 'Other'],
+  [39, 39, 'Hospitality'],
+  [40, 40, 'Land'],
+  [41, 49, 'Industrial'],
+];
+
+const KEYWORD_CLASSES: [RegExp, CompAssetClass | 'Residential'][] = [
+  [/mixed|mxd|retail\s*\/\s*office/i, 'Mixed-Use'],
+  [/hotel|motel|hospitality|lodging|inn\b/i, 'Hospitality'],
+  [/apartment|multi-?family|multifamily|duplex|triplex/i, 'Multifamily'],
+  [/single[- ]family|condo|townhome|mobile home|residential/i, 'Residential'],
+  [/vacant|land|acreage|lot\b|pad site/i, 'Land'],
+  [/industrial|warehouse|flex|manufactur|distribution|storage/i, 'Industrial'],
+  [/office|medical|bank|financial|professional/i, 'Office'],
+  [/retail|store|shop|restaurant|strip|center|fast food|service station|gas|auto|convenience|supermarket|drive/i, 'Retail'],
+];
+
+// Asset class from a property type / land use description or numeric use code.
+// Returns 'Residential' for homes so callers can drop them from commercial comps.
+export function classifyAssetClass(...descriptions: (string | number | undefined | null)[]): CompAssetClass | 'Residential' {
+  for (const description of descriptions) {
+    if (description === undefined || description === null || description === '') continue;
+    const text = String(description).trim();
+
+    const code = text.match(/^0*(\d{1,4})\b/);
+    if (code) {
+      // 4-digit county codes extend the 2-digit DOR code ("1100" -> 11)
+      const dor = code[1].length > 2 ? Math.floor(parseInt(code[1], 10) / 100) : parseInt(code[1], 10);
+      const match = DOR_USE_CLASSES.find(([low, high]) => dor >= low && dor <= high);
+      if (match) return match[2];
+    }
+
+    const exact = ['Retail', 'Office', 'Industrial', 'Mixed-Use', 'Hospitality', 'Multifamily', 'Land', 'Other']
+      .find(c => c.toLowerCase() === text.toLowerCase());
+    if (exact) return exact as CompAssetClass;
+
+    const keyword = KEYWORD_CLASSES.find(([pattern]) => pattern.test(text));
+    if (keyword) return keyword[1];
+  }
+  return 'Other';
+}
+
+// ============ Value parsing ============
+
+function parseMoney(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = Number(String(value).replace(/[$,\s]/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// Accepts ISO dates, M/D/YYYY, Excel serial day numbers and epoch milliseconds (ArcGIS date fields)
+export function parseSaleDate(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  const text = String(value).trim();
+
+  let date: Date | null = null;
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+    date = new Date(`${text.slice(0, 10)}T00:00:00Z`);
+  } else if (/^\d{1,2}\/\d{1,2}\/\d{2,4}$/.test(text)) {
+    const [month, day, year] = text.split('/').map(Number);
+    date = new Date(Date.UTC(year < 100 ? 2000 + year : year, month - 1, day));
+  } else if (/^\d{5}(\.\d+)?$/.test(text)) {
+    // Excel serial date (days since 1899-12-30)
+    date = new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(text)) * 86400000);
+  } else if (/^-?\d{11,13}$/.test(text)) {
+    date = new Date(Number(text));
+  } else {
+    const parsed = new Date(text);
+    date = Number.isNaN(parsed.getTime()) ? null : parsed;
+  }
+
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString().slice(0, 10) : null;
+}
+
+// ============ Spreadsheet import ============
+
+// Header aliases, compared after lowercasing and stripping non-alphanumerics
+const COLUMN_ALIASES: Record<string, string[]> = {
+  address: ['address', 'siteaddress', 'propertyaddress', 'streetaddress', 'street'],
+  city: ['city'],
+  state: ['state', 'st'],
+  zip: ['zip', 'zipcode', 'postalcode'],
+  salePrice: ['saleprice', 'price', 'saleamount', 'considerationamount', 'consideration'],
+  saleDate: ['saledate', 'date', 'closedate', 'closingdate', 'recordingdate', 'recordeddate'],
+  sqft: ['sqft', 'buildingsqft', 'buildingsf', 'gba', 'rba', 'buildingsize', 'squarefeet'],
+  lotSize: ['lotsize', 'lotsqft', 'lotsf', 'landsqft', 'landsf'],
+  lotAcres: ['acres', 'lotacres', 'landacres'],
+  propertyType: ['propertytype', 'type', 'landuse', 'usecode', 'usedescription', 'propertyuse'],
+  assetClass: ['assetclass', 'class'],
+  yearBuilt: ['yearbuilt', 'built'],
+  apn: ['apn', 'parcelid', 'parcel', 'pin', 'folio'],
+  lat: ['lat', 'latitude', 'y'],
+  lng: ['lng', 'lon', 'long', 'longitude', 'x'],
+};
+
+interface ParsedCompRow {
+  row: number;
+  comp: Omit<SaleComp, 'coordinates' | 'source' | 'sourceLabel'>;
+  coordinates: { lat: number; lng: number } | null;
+}
+
+export interface CompImportResult {
+  imported: StoredSaleComp[];
+  skipped: number;
+  issues: ImportIssue[];
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function parseCompRows(rows: SheetRows): { parsed: ParsedCompRow[]; issues: ImportIssue[]; total: number } {
+  const issues: ImportIssue[] = [];
+  const parsed: ParsedCompRow[] = [];
+  const { header, headerRow, records } = sheetTable(rows) ?? { header: [], headerRow: 1, records: [] };
+
+  const columns: Record<string, number> = {};
+  header.forEach((name, index) => {
+    const key = normalizeHeader(name);
+    const field = Object.entries(COLUMN_ALIASES).find(([, aliases]) => aliases.includes(key))?.[0];
+    if (field && columns[field] === undefined) columns[field] = index;
+  });
+
+  for (const required of ['address', 'salePrice', 'saleDate']) {
+    if (columns[required] === undefined) {
+      issues.push({ row: headerRow, column: required, severity: 'error', message: `Missing a ${required} column` });
+    }
+  }
+  if (issues.length > 0) return { parsed, issues, total: records.length };
+
+  records.forEach(({ row, cells: record }) => {
+    const cell = (field: string) => (columns[field] === undefined ? '' : (record[columns[field]] ?? '').trim());
+    const error = (column: string, message: string) => issues.push({ row, column, severity: 'error', message });
+
+    const address = cell('address');
+    const salePrice = parseMoney(cell('salePrice'));
+    const saleDate = parseSaleDate(cell('saleDate'));
+    if (!address) return error('address', 'Address is required');
+    if (salePrice === null || salePrice < MIN_SALE_PRICE) {
+      return error('salePrice', `"${cell('salePrice')}" is not a sale price of at least $${MIN_SALE_PRICE.toLocaleString()}`);
+    }
+    if (!saleDate) return error('saleDate', `"${cell('saleDate')}" is not a recognizable date`);
+
+    const propertyType = cell('propertyType');
+    const assetClass = classifyAssetClass(cell('assetClass'), propertyType);
+    if (assetClass === 'Residential') {
+      issues.push({ row, column: 'propertyType', severity: 'warning', message: `Skipped residential sale (${propertyType || 'residential'})` });
+      return;
+    }
+
+    const sqft = parseMoney(cell('sqft'));
+    const lotAcres = parseMoney(cell('lotAcres'));
+    const lotSize = parseMoney(cell('lotSize')) ?? (lotAcres !== null ? Math.round(lotAcres * 43560) : null);
+    const yearBuilt = parseMoney(cell('yearBuilt'));
+    const lat = parseMoney(cell('lat'));
+    const lng = parseMoney(cell('lng'));
+    const hasCoordinates = lat !== null && lng !== null && Math.abs(lat) <= 90 && Math.abs(lng) <= 180 && !(lat === 0 && lng === 0);
+
+    parsed.push({
+      row,
+      comp: {
+        address,
+        city: cell('city') || undefined,
+        state: cell('state') || undefined,
+        zip: cell('zip') || undefined,
+        salePrice,
+        saleDate,
+        sqft: sqft && sqft > 0 ? Math.round(sqft) : undefined,
+        lotSize: lotSize && lotSize > 0 ? Math.round(lotSize) : undefined,
+        propertyType: propertyType || assetClass,
+        assetClass,
+        yearBuilt: yearBuilt && yearBuilt > 1800 ? Math.round(yearBuilt) : undefined,
+        apn: cell('apn') || undefined,
+      },
+      coordinates: hasCoordinates ? { lat: lat!, lng: lng! } : null,
+    });
+  });
+
+  return { parsed, issues, total: records.length };
+}
+
+async function geocodeAddress(address: string): Promise<{ lat: number; lng: number } | null> {
+  const url = `https://geocoding.geo.census.gov/geocoder/locations/onelineaddress?address=${encodeURIComponent(address)}&benchmark=Public_AR_Current&format=json`;
+  const response = await providerFetch(url, { headers: { 'Accept': 'application/json' } });
+  if (!response.ok) return null;
+
+  const data = await response.json();
+  const match = data.result?.addressMatches?.[0];
+  return match ? { lat: match.coordinates.y, lng: match.coordinates.x } : null;
+}
+
+// Validate, geocode and store a comps spreadsheet. Rows with errors are reported and skipped;
+// the rest are saved (re-importing the same sale replaces it rather than duplicating it).
+export async function importCompSheet(rows: SheetRows, sourceLabel: string): Promise<CompImportResult> {
+  const { parsed, issues, total } = parseCompRows(rows);
+  const imported: StoredSaleComp[] = [];
+  let geocodes = 0;
+
+  for (const { row, comp, coordinates: given } of parsed) {
+    let coordinates = given;
+    if (!coordinates) {
+      if (geocodes >= MAX_GEOCODES_PER_IMPORT) {
+        issues.push({ row, column: 'address', severity: 'error', message: `Geocoding limit (${MAX_GEOCODES_PER_IMPORT} rows) reached; add lat/lng columns` });
+        continue;
+      }
+      geocodes++;
+      const fullAddress = [comp.address, comp.city, comp.state, comp.zip].filter(Boolean).join(', ');
+      try {
+        coordinates = await geocodeAddress(fullAddress);
+      } catch (error) {
+        console.error('[Comps] Geocoding failed:', error);
+      }
+      if (!coordinates) {
+        issues.push({ row, column: 'address', severity: 'error', message: `Could not geocode "${fullAddress}"` });
+        continue;
+      }
+    }
+
+    const sale: SaleComp = {
+      ...comp,
+      coordinates,
+      source: 'upload',
+      sourceLabel,
+      geocodedBy: given ? 'input' : 'census',
+    };
+    const doc = await getStore().put<SaleComp>(SALE_COMPS_COLLECTION, sale, { id: compId(sale) });
+    imported.push(toStoredComp(doc));
+  }
+
+  const skipped = Math.max(0, total - imported.length);
+  console.log(`[Comps] Imported ${imported.length} sales from ${sourceLabel} (${skipped} skipped, ${geocodes} geocoded)`);
+  return { imported, skipped, issues };
+}
+
+// ============ Storage ============
+
+export async function listSaleComps(): Promise<StoredSaleComp[]> {
+  const docs = await getStore().list<SaleComp>(SALE_COMPS_COLLECTION, { order: 'desc' });
+  return docs.map(toStoredComp);
+}
+
+export async function deleteSaleComp(id: string): Promise<boolean> {
+  return getStore().delete(SALE_COMPS_COLLECTION, id);
+}
+
+function withinSearch(comp: SaleComp, lat: number, lng: number, radiusMiles: number, sinceDate: string): boolean {
+  return comp.saleDate >= sinceDate &&
+    distanceBetween(lat, lng, comp.coordinates.lat, comp.coordinates.lng) <= radiusMiles;
+}
+
+function monthsAgo(months: number): string {
+  const date = new Date();
+  date.setMonth(date.getMonth() - months);
+  return date.toISOString().slice(0, 10);
+}
+
+// ============ County sale records ============
+
+interface CountySaleSource {
+  name: string;
+  url: string;
+  bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number };
+  webMercator?: boolean;
+}
+
+// County parcel layers that carry last-sale fields (the same services the parcel lookups use)
+const COUNTY_SALE_SOURCES: CountySaleSource[] = [
+  { name: 'Leon County', url: 'https://intervector.leoncountyfl.gov/intervector/rest/services/MapServices/TLC_OverlayParnal_D_WM/MapServer/0/query', bounds: { minLat: 30.26, maxLat: 30.70, minLng: -84.65, maxLng: -83.98 }, webMercator: true },
+  { name: 'Hillsborough County', url: 'https://maps.hillsboroughcounty.org/arcgis/rest/services/InfoLayers/Parcels/MapServer/0/query', bounds: { minLat: 27.57, maxLat: 28.17, minLng: -82.82, maxLng: -82.05 } },
+  { name: 'Orange County', url: 'https://maps.ocfl.net/arcgis/rest/services/Parcels/MapServer/0/query', bounds: { minLat: 28.34, maxLat: 28.79, minLng: -81.66, maxLng: -80.95 } },
+  { name: 'Pinellas County', url: 'https://egis.pinellascounty.org/arcgis/rest/services/Parcels/Parcels/MapServer/0/query', bounds: { minLat: 27.60, maxLat: 28.17, minLng: -82.85, maxLng: -82.53 } },
+  { name: 'Duval County', url: 'https://maps.coj.net/arcgis/rest/services/Parcels/Parcels/MapServer/0/query', bounds: { minLat: 30.10, maxLat: 30.59, minLng: -82.05, maxLng: -81.32 } },
+  { name: 'Polk County', url: 'https://gis.polk-county.net/arcgis/rest/services/Parcels/MapServer/0/query', bounds: { minLat: 27.64, maxLat: 28.30, minLng: -82.11, maxLng: -81.15 } },
+];
+
+type Attributes = Record<string, string | number | null | undefined>;
+
+function firstAttr(attrs: Attributes, names: string[]): string | number | undefined {
+  for (const name of names) {
+    const value = attrs[name];
+    if (value !== undefined && value !== null && value !== '') return value;
+  }
+  return undefined;
+}
+
+function countySaleDate(attrs: Attributes): string | null {
+  const direct = firstAttr(attrs, ['SALE_DATE', 'SALEDATE', 'LAST_SALE_DATE', 'SALE1_DATE', 'SALE_DT', 'DEED_DATE']);
+  if (direct !== undefined) return parseSaleDate(direct);
+
+  const year = Number(firstAttr(attrs, ['SALE_YR1', 'SALE_YEAR', 'SALEYR']));
+  const month = Number(firstAttr(attrs, ['SALE_MO1', 'SALE_MONTH', 'SALEMO']) ?? 1);
+  if (!year) return null;
+  return `${year}-${String(Math.min(Math.max(month, 1), 12)).padStart(2, '0')}-01`;
+}
+
+// Average of the outer ring's vertices (requested in WGS84), good enough to place a parcel for
+// distance filtering
+function ringCenter(rings: number[][][] | undefined): { lat: number; lng: number } | null {
+  const ring = rings?.[0];
+  if (!ring || ring.length === 0) return null;
+  return {
+    lng: ring.reduce((sum, c) => sum + c[0], 0) / ring.length,
+    lat: ring.reduce((sum, c) => sum + c[1], 0) / ring.length,
+  };
+}
+
+function countyFeatureToComp(
+  feature: { attributes?: Attributes; geometry?: { rings?: number[][][] } },
+  source: CountySaleSource,
+  sinceDate: string
+): SaleComp | null {
+  const attrs = feature.attributes || {};
+  const salePrice = parseMoney(firstAttr(attrs, ['SALE_PRC1', 'SALE_PRICE', 'SALEPRICE', 'SALE_AMT', 'SALEAMT', 'LAST_SALE_PRICE', 'SALE1_PRICE', 'S_AMT']));
+  const saleDate = countySaleDate(attrs);
+  if (salePrice === null || salePrice < MIN_SALE_PRICE || !saleDate || saleDate < sinceDate) return null;
+
+  // DOR qualification code "U" marks sales the appraiser judged not arm's length
+  const qualification = String(firstAttr(attrs, ['QUAL_CD1', 'QUAL_CODE', 'SALE_QUAL', 'QUALIFIED']) ?? '').toUpperCase();
+  if (qualification === 'U' || qualification === 'N' || qualification === 'UNQUALIFIED') return null;
+
+  const useCode = firstAttr(attrs, ['DOR_UC', 'DOR_CODE', 'USE_CODE', 'LANDUSE', 'LAND_USE', 'USEDESC', 'PROP_USE']);
+  const assetClass = classifyAssetClass(useCode);
+  if (assetClass === 'Residential') return null;
+
+  const coordinates = ringCenter(feature.geometry?.rings);
+  if (!coordinates) return null;
+
+  const address = firstAttr(attrs, ['SITEADDR', 'SITE_ADDR', 'ADDRESS', 'PROP_ADDR', 'PHYSICAL_ADDRESS', 'LOC_ADDR', 'LOCATION'])
+    ?? (attrs.STREET_NUM && attrs.STREET_NAME ? `${attrs.STREET_NUM} ${attrs.STREET_NAME}` : undefined);
+  if (!address) return null;
+
+  const sqft = parseMoney(firstAttr(attrs, ['TOT_LVG_AR', 'BLDG_SQFT', 'HEATED_AREA', 'HEATEDAREA', 'BLDGAREA', 'GROSS_AREA', 'BLDG_AREA']));
+  const acres = parseMoney(firstAttr(attrs, ['ACRES', 'ACREAGE', 'GIS_ACRES', 'TOTALACRES', 'CALC_ACREA']));
+  const yearBuilt = parseMoney(firstAttr(attrs, ['ACT_YR_BLT', 'YEAR_BUILT', 'YR_BLT', 'YEARBUILT', 'EFF_YR_BLT']));
+
+  return {
+    address: String(address).trim(),
+    state: 'FL',
+    salePrice,
+    saleDate,
+    sqft: sqft && sqft > 0 ? Math.round(sqft) : undefined,
+    lotSize: acres && acres > 0 ? Math.round(acres * 43560) : undefined,
+    propertyType: useCode !== undefined ? `${assetClass} (use ${useCode})` : assetClass,
+    assetClass,
+    yearBuilt: yearBuilt && yearBuilt > 1800 ? Math.round(yearBuilt) : undefined,
+    apn: firstAttr(attrs, ['PARCELID', 'PARCEL_ID', 'PIN', 'FOLIO', 'APN', 'STRAP', 'TAXID'])?.toString(),
+    coordinates,
+    source: 'county-records',
+    sourceLabel: `${source.name} property appraiser`,
+  };
+}
+
+// Recent commercial sales recorded on the county parcel layer around the site
+export async function fetchCountySaleComps(lat: number, lng: number, radiusMiles: number, sinceDate: string): Promise<SaleComp[]> {
+  const source = COUNTY_SALE_SOURCES.find(county =>
+    lat >= county.bounds.minLat && lat <= county.bounds.maxLat &&
+    lng >= county.bounds.minLng && lng <= county.bounds.maxLng
+  );
+  if (!source) return [];
+
+  try {
+    const url = new URL(source.url);
+    if (source.webMercator) {
+      const x = lng * 20037508.34 / 180;
+      const y = (Math.log(Math.tan((90 + lat) * Math.PI / 360)) / (Math.PI / 180)) * 20037508.34 / 180;
+      url.searchParams.set('geometry', JSON.stringify({ x, y, spatialReference: { wkid: 102100 } }));
+      url.searchParams.set('inSR', '102100');
+    } else {
+      url.searchParams.set('geometry', JSON.stringify({ x: lng, y: lat, spatialReference: { wkid: 4326 } }));
+      url.searchParams.set('inSR', '4326');
+    }
+    url.searchParams.set('geometryType', 'esriGeometryPoint');
+    url.searchParams.set('distance', String(Math.round(radiusMiles * 1609.34)));
+    url.searchParams.set('units', 'esriSRUnit_Meter');
+    url.searchParams.set('spatialRel', 'esriSpatialRelIntersects');
+    url.searchParams.set('where', '1=1');
+    url.searchParams.set('outFields', '*');
+    url.searchParams.set('returnGeometry', 'true');
+    url.searchParams.set('outSR', '4326');
+    url.searchParams.set('resultRecordCount', '500');
+    url.searchParams.set('f', 'json');
+
+    const response = await providerFetch(url.toString(), {
+      timeoutMs: 15000,
+      headers: { 'User-Agent': 'DroneSense/1.0' },
+    });
+    if (!response.ok) return [];
+
+    const data = await response.json();
+    if (data.error || !data.features) return [];
+
+    const comps = (data.features as { attributes?: Attributes; geometry?: { rings?: number[][][] } }[])
+      .map(feature => countyFeatureToComp(feature, source, sinceDate))
+      .filter((comp): comp is SaleComp => comp !== null);
+
+    console.log(`[Comps] ${source.name}: ${comps.length} commercial sales of ${data.features.length} parcels`);
+    return comps;
+  } catch (error) {
+    console.error(`[Comps] ${source.name} sale records fetch error:`, error);
+    return [];
+  }
+}
+
+// ============ Lookup ============
+
+export interface VerifiedCompSearch {
+  radiusMiles?: number;
+  months?: number;
+}
+
+// Uploaded and county-recorded sales near the site, nearest first. Uploaded records win when the
+// same sale appears in both.
+export async function findVerifiedComps(
+  lat: number,
+  lng: number,
+  { radiusMiles = 3, months = 36 }: VerifiedCompSearch = {}
+): Promise<SaleComp[]> {
+  const sinceDate = monthsAgo(months);
+  const [stored, county] = await Promise.all([
+    listSaleComps(),
+    fetchCountySaleComps(lat, lng, radiusMiles, sinceDate),
+  ]);
+
+  const byId = new Map<string, SaleComp>();
+  for (const comp of [...county, ...stored]) {
+    if (withinSearch(comp, lat, lng, radiusMiles, sinceDate)) {
+      byId.set(compId(comp), comp);
+    }
+  }
+
+  return [...byId.values()].sort((a, b) =>
+    distanceBetween(lat, lng, a.coordinates.lat, a.coordinates.lng) -
+    distanceBetween(lat, lng, b.coordinates.lat, b.coordinates.lng)
+  );
+}
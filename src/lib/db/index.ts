@@ -0,0 +1,41 @@
+import path from 'path';
+import { DocumentStore } from './types';
+import { SqliteDocumentStore } from './sqlite-store';
+import { JsonFileDocumentStore } from './json-store';
+
+export type { DocumentStore, StoredDocument, ListOptions, InsertOptions } from './types';
+
+// Driver is selected with DRONE_SENSE_STORE (sqlite | json), files live under DRONE_SENSE_DATA_DIR
+const DEFAULT_DATA_DIR = path.join(process.cwd(), '.data');
+
+let store: DocumentStore | null = null;
+
+export function getDataDir(): string {
+  return process.env.DRONE_SENSE_DATA_DIR || DEFAULT_DATA_DIR;
+}
+
+// Get the shared document store (created lazily on first use)
+export function getStore(): DocumentStore {
+  if (store) return store;
+
+  const driver = (process.env.DRONE_SENSE_STORE || 'sqlite').toLowerCase();
+  const dataDir = getDataDir();
+
+  switch (driver) {
+    case 'json':
+      store = new JsonFileDocumentStore(path.join(dataDir, 'drone-sense.json'));
+      break;
+    case 'sqlite':
+      store = new SqliteDocumentStore(path.join(dataDir, 'drone-sense.db'));
+      break;
+    default:
+      throw new Error(`Unknown DRONE_SENSE_STORE driver: ${driver}`);
+  }
+
+  return store;
+}
+
+// Swap the store implementation (e.g. for a hosted database)
+export function setStore(custom: DocumentStore): void {
+  store = custom;
+}
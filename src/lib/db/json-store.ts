@@ -0,0 +1,110 @@
+import fs from 'fs';
+import path from 'path';
+import { DocumentStore, InsertOptions, ListOptions, StoredDocument } from './types';
+
+type Collections = Record<string, Record<string, StoredDocument<unknown>>>;
+
+// JSON file store - no native dependencies, suitable for single-user or read-mostly deployments
+export class JsonFileDocumentStore implements DocumentStore {
+  readonly driver = 'json';
+  private filePath: string;
+  private collections: Collections;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    try {
+      this.collections = fs.existsSync(filePath)
+        ? JSON.parse(fs.readFileSync(filePath, 'utf8'))
+        : {};
+    } catch (err) {
+      console.error('Failed to read JSON store, starting empty:', err);
+      this.collections = {};
+    }
+  }
+
+  private persist(): void {
+    // Write to a temp file first so a crash never leaves a half-written store
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(this.collections));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  private bucket(collection: string): Record<string, StoredDocument<unknown>> {
+    if (!this.collections[collection]) {
+      this.collections[collection] = {};
+    }
+    return this.collections[collection];
+  }
+
+  async list<T>(collection: string, options: ListOptions = {}): Promise<StoredDocument<T>[]> {
+    let docs = Object.values(this.bucket(collection)) as StoredDocument<T>[];
+
+    if (options.projectId) {
+      docs = docs.filter(doc => doc.projectId === options.projectId);
+    }
+    docs.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    if (options.order === 'desc') docs.reverse();
+    if (options.limit) docs = docs.slice(0, options.limit);
+
+    return docs;
+  }
+
+  async get<T>(collection: string, id: string): Promise<StoredDocument<T> | null> {
+    return (this.bucket(collection)[id] as StoredDocument<T>) || null;
+  }
+
+  async put<T>(collection: string, data: T, options: InsertOptions = {}): Promise<StoredDocument<T>> {
+    const now = new Date().toISOString();
+    const id = options.id || crypto.randomUUID();
+    const existing = this.bucket(collection)[id];
+
+    const doc: StoredDocument<T> = {
+      id,
+      collection,
+      projectId: options.projectId ?? null,
+      data,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+
+    this.bucket(collection)[id] = doc;
+    this.persist();
+    return doc;
+  }
+
+  async update<T>(collection: string, id: string, data: T): Promise<StoredDocument<T> | null> {
+    const existing = this.bucket(collection)[id];
+    if (!existing) return null;
+
+    const doc = { ...existing, data, updatedAt: new Date().toISOString() } as StoredDocument<T>;
+    this.bucket(collection)[id] = doc;
+    this.persist();
+    return doc;
+  }
+
+  async delete(collection: string, id: string): Promise<boolean> {
+    const bucket = this.bucket(collection);
+    if (!bucket[id]) return false;
+
+    delete bucket[id];
+    this.persist();
+    return true;
+  }
+
+  async deleteByProject(collection: string, projectId: string): Promise<number> {
+    const bucket = this.bucket(collection);
+    let removed = 0;
+
+    for (const [id, doc] of Object.entries(bucket)) {
+      if (doc.projectId === projectId) {
+        delete bucket[id];
+        removed++;
+      }
+    }
+
+    if (removed > 0) this.persist();
+    return removed;
+  }
+}
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { DocumentStore, InsertOptions, ListOptions, StoredDocument } from './types';
+
+interface DocumentRow {
+  id: string;
+  collection: string;
+  project_id: string | null;
+  data: string;
+  created_at: string;
+  updated_at: string;
+}
+
+function toDocument<T>(row: DocumentRow): StoredDocument<T> {
+  return {
+    id: row.id,
+    collection: row.collection,
+    projectId: row.project_id,
+    data: JSON.parse(row.data) as T,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// SQLite-backed store (default driver) - a single file shared by everyone using this server
+export class SqliteDocumentStore implements DocumentStore {
+  readonly driver = 'sqlite';
+  private db: Database.Database;
+
+  constructor(filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS documents (
+        collection TEXT NOT NULL,
+        id TEXT NOT NULL,
+        project_id TEXT,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (collection, id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_documents_project ON documents (collection, project_id);
+    `);
+  }
+
+  async list<T>(collection: string, options: ListOptions = {}): Promise<StoredDocument<T>[]> {
+    const order = options.order === 'desc' ? 'DESC' : 'ASC';
+    const params: unknown[] = [collection];
+    let sql = 'SELECT * FROM documents WHERE collection = ?';
+
+    if (options.projectId) {
+      sql += ' AND project_id = ?';
+      params.push(options.projectId);
+    }
+    sql += ` ORDER BY created_at ${order}, rowid ${order}`;
+    if (options.limit) {
+      sql += ' LIMIT ?';
+      params.push(options.limit);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as DocumentRow[];
+    return rows.map(row => toDocument<T>(row));
+  }
+
+  async get<T>(collection: string, id: string): Promise<StoredDocument<T> | null> {
+    const row = this.db
+      .prepare('SELECT * FROM documents WHERE collection = ? AND id = ?')
+      .get(collection, id) as DocumentRow | undefined;
+    return row ? toDocument<T>(row) : null;
+  }
+
+  async put<T>(collection: string, data: T, options: InsertOptions = {}): Promise<StoredDocument<T>> {
+    const now = new Date().toISOString();
+    const id = options.id || crypto.randomUUID();
+
+    this.db.prepare(`
+      INSERT INTO documents (collection, id, project_id, data, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (collection, id) DO UPDATE SET
+        project_id = excluded.project_id,
+        data = excluded.data,
+        updated_at = excluded.updated_at
+    `).run(collection, id, options.projectId ?? null, JSON.stringify(data), now, now);
+
+    return (await this.get<T>(collection, id))!;
+  }
+
+  async update<T>(collection: string, id: string, data: T): Promise<StoredDocument<T> | null> {
+    const result = this.db
+      .prepare('UPDATE documents SET data = ?, updated_at = ? WHERE collection = ? AND id = ?')
+      .run(JSON.stringify(data), new Date().toISOString(), collection, id);
+    if (result.changes === 0) return null;
+    return this.get<T>(collection, id);
+  }
+
+  async delete(collection: string, id: string): Promise<boolean> {
+    const result = this.db
+      .prepare('DELETE FROM documents WHERE collection = ? AND id = ?')
+      .run(collection, id);
+    return result.changes > 0;
+  }
+
+  async deleteByProject(collection: string, projectId: string): Promise<number> {
+    const result = this.db
+      .prepare('DELETE FROM documents WHERE collection = ? AND project_id = ?')
+      .run(collection, projectId);
+    return result.changes;
+  }
+}
@@ -0,0 +1,35 @@
+// Storage abstraction for server-side persistence
+// Records are JSON documents grouped into named collections and optionally scoped to a project
+
+export interface StoredDocument<T> {
+  id: string;
+  collection: string;
+  projectId: string | null;
+  data: T;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ListOptions {
+  projectId?: string;
+  limit?: number;
+  // Sort by creation time; defaults to oldest first
+  order?: 'asc' | 'desc';
+}
+
+export interface InsertOptions {
+  id?: string;
+  projectId?: string | null;
+}
+
+export interface DocumentStore {
+  readonly driver: string;
+  list<T>(collection: string, options?: ListOptions): Promise<StoredDocument<T>[]>;
+  get<T>(collection: string, id: string): Promise<StoredDocument<T> | null>;
+  // Inserts a new document, replacing any existing document with the same id
+  put<T>(collection: string, data: T, options?: InsertOptions): Promise<StoredDocument<T>>;
+  update<T>(collection: string, id: string, data: T): Promise<StoredDocument<T> | null>;
+  delete(collection: string, id: string): Promise<boolean>;
+  // Removes every document in the collection belonging to the project
+  deleteByProject(collection: string, projectId: string): Promise<number>;
+}
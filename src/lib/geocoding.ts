@@ -0,0 +1,238 @@
+// Address geocoding: asks Google (when keyed), the Census geocoder and Nominatim in parallel, merges
+// answers that land on the same spot, and ranks what's left by match quality so callers can tell a
+// confident match from one that needs a human to pick
+
+import * as turf from '@turf/turf';
+import { providerFetch } from '@/lib/providers';
+import type { GeocodeCandidate, GeocodeMatchQuality, GeocodeResult, GeocodeSource } from '@/types';
+
+// Starting confidence for each match quality
+const QUALITY_CONFIDENCE: Record<GeocodeMatchQuality, number> = {
+  rooftop: 0.95,
+  interpolated: 0.85,
+  street: 0.5,
+  locality: 0.25,
+};
+
+// OSM house numbers are sparser and less maintained than the address-range geocoders
+const SOURCE_WEIGHT: Record<GeocodeSource, number> = { google: 1, census: 1, nominatim: 0.9 };
+
+// Each lower-ranked answer from the same geocoder keeps this share of the one above it
+const RANK_DECAY = 0.9;
+// Google matched only part of the address (e.g. ignored the house number)
+const PARTIAL_MATCH_FACTOR = 0.75;
+
+// Answers closer than this are the same location
+const MERGE_DISTANCE_M = 40;
+// Each extra geocoder agreeing on a location adds this much confidence
+const AGREEMENT_BONUS = 0.05;
+
+// The top match is ambiguous below this confidence...
+const CONFIDENT_THRESHOLD = 0.7;
+// ...or when a candidate farther away than AMBIGUOUS_DISTANCE_M is within this much of it
+const AMBIGUITY_MARGIN = 0.08;
+const AMBIGUOUS_DISTANCE_M = 75;
+
+const MAX_CANDIDATES = 5;
+
+const NOMINATIM_HEADERS = {
+  'User-Agent': 'DroneSense/1.0 (https://drone-sense.vercel.app; Commercial Site Analysis)',
+};
+
+interface RawCandidate {
+  lat: number;
+  lng: number;
+  formattedAddress: string;
+  quality: GeocodeMatchQuality;
+  source: GeocodeSource;
+  confidence: number;
+}
+
+// Parse address components for structured geocoding
+function parseAddress(address: string): { street?: string; city?: string; state?: string; zip?: string } {
+  // Common patterns: "123 Main St, City, ST 12345" or "123 Main St, City, State 12345"
+  const parts = address.split(',').map(p => p.trim());
+
+  if (parts.length >= 2) {
+    const street = parts[0];
+    const lastPart = parts[parts.length - 1];
+
+    // Extract state and zip from last part (e.g., "FL 32312" or "Florida 32312")
+    const stateZipMatch = lastPart.match(/([A-Za-z]{2,})\s*(\d{5}(?:-\d{4})?)?$/);
+    const state = stateZipMatch?.[1];
+    const zip = stateZipMatch?.[2];
+
+    // City is typically second-to-last part, or extract from last part before state
+    let city = parts.length >= 3 ? parts[parts.length - 2] : undefined;
+    if (!city && lastPart && stateZipMatch) {
+      city = lastPart.replace(stateZipMatch[0], '').trim();
+    }
+
+    return { street, city, state, zip };
+  }
+
+  return {};
+}
+
+function rankConfidence(quality: GeocodeMatchQuality, source: GeocodeSource, rank: number): number {
+  return QUALITY_CONFIDENCE[quality] * SOURCE_WEIGHT[source] * Math.pow(RANK_DECAY, rank);
+}
+
+async function geocodeGoogle(address: string, apiKey: string): Promise<RawCandidate[]> {
+  const response = await providerFetch(
+    `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(address)}&key=${apiKey}`
+  );
+  const data = await response.json();
+  if (data.status !== 'OK') return [];
+
+  return (data.results || []).map((result: {
+    geometry: { location: { lat: number; lng: number }; location_type: string };
+    formatted_address: string;
+    partial_match?: boolean;
+    types?: string[];
+  }, rank: number) => {
+    const types = result.types || [];
+    let quality: GeocodeMatchQuality;
+    switch (result.geometry.location_type) {
+      case 'ROOFTOP': quality = 'rooftop'; break;
+      case 'RANGE_INTERPOLATED': quality = 'interpolated'; break;
+      case 'GEOMETRIC_CENTER':
+        quality = types.includes('route') ? 'street' : types.some(t => t === 'premise' || t === 'street_address') ? 'interpolated' : 'locality';
+        break;
+      default: quality = 'locality';
+    }
+    return {
+      lat: result.geometry.location.lat,
+      lng: result.geometry.location.lng,
+      formattedAddress: result.formatted_address,
+      quality,
+      source: 'google' as const,
+      confidence: rankConfidence(quality, 'google', rank) * (result.partial_match ? PARTIAL_MATCH_FACTOR : 1),
+    };
+  });
+}
+
+// Census matches are interpolated along the TIGER address range of the matched street side
+async function geocodeCensus(address: string): Promise<RawCandidate[]> {
+  const url = `https://geocoding.geo.census.gov/geocoder/locations/onelineaddress?address=${encodeURIComponent(address)}&benchmark=Public_AR_Current&format=json`;
+  const response = await providerFetch(url, { headers: { 'Accept': 'application/json' } });
+  if (!response.ok) throw new Error(`Census geocoder error: ${response.status}`);
+  const data = await response.json();
+
+  return (data.result?.addressMatches || []).map((match: { coordinates: { x: number; y: number }; matchedAddress: string }, rank: number) => ({
+    lat: match.coordinates.y,
+    lng: match.coordinates.x,
+    formattedAddress: match.matchedAddress,
+    quality: 'interpolated' as const,
+    source: 'census' as const,
+    confidence: rankConfidence('interpolated', 'census', rank),
+  }));
+}
+
+async function geocodeNominatim(address: string): Promise<RawCandidate[]> {
+  // Structured search is more precise when the address parses
+  const parsed = parseAddress(address);
+  const url = parsed.street && parsed.city && parsed.state
+    ? `https://nominatim.openstreetmap.org/search?format=json&street=${encodeURIComponent(parsed.street)}&city=${encodeURIComponent(parsed.city)}&state=${encodeURIComponent(parsed.state)}${parsed.zip ? `&postalcode=${parsed.zip}` : ''}&countrycodes=us&limit=${MAX_CANDIDATES}&addressdetails=1`
+    : `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(address)}&countrycodes=us&limit=${MAX_CANDIDATES}&addressdetails=1`;
+
+  const response = await providerFetch(url, { headers: NOMINATIM_HEADERS });
+  if (!response.ok) throw new Error(`Nominatim error: ${response.status}`);
+  const data = await response.json();
+
+  return (Array.isArray(data) ? data : []).map((result: { lat: string; lon: string; display_name: string; addresstype?: string; class?: string; type?: string }, rank: number) => {
+    const quality: GeocodeMatchQuality =
+      result.addresstype === 'road' || result.class === 'highway' ? 'street'
+        : result.class === 'building' || (result.class === 'place' && result.type === 'house') || ['house', 'building', 'amenity', 'shop'].includes(result.addresstype || '') ? 'rooftop'
+          : 'locality';
+    return {
+      lat: parseFloat(result.lat),
+      lng: parseFloat(result.lon),
+      formattedAddress: result.display_name,
+      quality,
+      source: 'nominatim' as const,
+      confidence: rankConfidence(quality, 'nominatim', rank),
+    };
+  });
+}
+
+const QUALITY_ORDER: GeocodeMatchQuality[] = ['rooftop', 'interpolated', 'street', 'locality'];
+
+function metersBetween(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  return turf.distance([a.lng, a.lat], [b.lng, b.lat], { units: 'meters' });
+}
+
+// Folds answers within MERGE_DISTANCE_M of a better one into it
+function mergeCandidates(raw: RawCandidate[]): GeocodeCandidate[] {
+  const sorted = [...raw].sort((a, b) => b.confidence - a.confidence);
+  const merged: GeocodeCandidate[] = [];
+
+  for (const candidate of sorted) {
+    const same = merged.find(m => metersBetween(m, candidate) < MERGE_DISTANCE_M);
+    if (!same) {
+      merged.push({
+        lat: candidate.lat,
+        lng: candidate.lng,
+        formattedAddress: candidate.formattedAddress,
+        quality: candidate.quality,
+        confidence: candidate.confidence,
+        sources: [candidate.source],
+      });
+    } else if (!same.sources.includes(candidate.source)) {
+      same.sources.push(candidate.source);
+      same.confidence = Math.min(1, same.confidence + AGREEMENT_BONUS);
+      if (QUALITY_ORDER.indexOf(candidate.quality) < QUALITY_ORDER.indexOf(same.quality)) same.quality = candidate.quality;
+    }
+  }
+
+  return merged
+    .map(c => ({ ...c, confidence: Math.round(c.confidence * 100) / 100 }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_CANDIDATES);
+}
+
+function isAmbiguous(candidates: GeocodeCandidate[]): boolean {
+  const [top, ...rest] = candidates;
+  if (top.confidence < CONFIDENT_THRESHOLD) return true;
+  return rest.some(c => c.confidence >= top.confidence - AMBIGUITY_MARGIN && metersBetween(c, top) > AMBIGUOUS_DISTANCE_M);
+}
+
+/**
+ * Ranked candidates for an address, or null when no geocoder matched it. Throws only when every
+ * geocoder failed outright.
+ */
+export async function geocodeAddress(address: string): Promise<GeocodeResult | null> {
+  const googleApiKey = process.env.GOOGLE_MAPS_API_KEY;
+  const lookups: Array<{ source: GeocodeSource; request: Promise<RawCandidate[]> }> = [];
+  if (googleApiKey) lookups.push({ source: 'google', request: geocodeGoogle(address, googleApiKey) });
+  lookups.push({ source: 'census', request: geocodeCensus(address) });
+  lookups.push({ source: 'nominatim', request: geocodeNominatim(address) });
+  const settled = await Promise.allSettled(lookups.map(l => l.request));
+
+  const raw: RawCandidate[] = [];
+  settled.forEach((result, i) => {
+    if (result.status === 'fulfilled') raw.push(...result.value.filter(c => Number.isFinite(c.lat) && Number.isFinite(c.lng)));
+    else console.error(`${lookups[i].source} geocoder error:`, result.reason);
+  });
+
+  if (raw.length === 0) {
+    if (settled.every(r => r.status === 'rejected')) throw new Error('Every geocoder failed');
+    return null;
+  }
+
+  const candidates = mergeCandidates(raw);
+  const top = candidates[0];
+  return {
+    lat: top.lat,
+    lng: top.lng,
+    formattedAddress: top.formattedAddress,
+    source: top.sources[0],
+    quality: top.quality,
+    confidence: top.confidence,
+    candidates,
+    ambiguous: isAmbiguous(candidates),
+    warning: top.quality === 'street' || top.quality === 'locality'
+      ? 'Could not find exact address, showing approximate street location'
+      : undefined,
+  };
+}
@@ -0,0 +1,328 @@
+// Drive-time trade areas: shortest travel times over the OSM road graph from the site, using
+// per-highway-class speed assumptions, outlined as one polygon per requested drive time
+
+import * as turf from '@turf/turf';
+import type { Feature, MultiPolygon, Point, Polygon } from 'geojson';
+import { providerFetch } from '@/lib/providers';
+import type { DriveTimeArea, IsochroneResult } from '@/types';
+
+export const MAX_DRIVE_MINUTES = 20;
+export const DEFAULT_DRIVE_MINUTES = [5, 10, 15];
+
+// Typical free-flow speeds (mph) by highway class, used when a way has no usable maxspeed tag.
+// Arterial speeds sit below posted limits to absorb signal and turning delay.
+export const HIGHWAY_SPEEDS_MPH: Record<string, number> = {
+  motorway: 65,
+  motorway_link: 35,
+  trunk: 55,
+  trunk_link: 30,
+  primary: 40,
+  primary_link: 25,
+  secondary: 35,
+  secondary_link: 25,
+  tertiary: 30,
+  tertiary_link: 20,
+  unclassified: 30,
+  residential: 22,
+  living_street: 10,
+};
+
+// Local streets only matter near the site; farther out the trade area edge is set by arterials
+const LOCAL_CLASSES = ['residential', 'living_street'];
+const LOCAL_STREET_RADIUS_M = 5000;
+const MAX_QUERY_RADIUS_M = 30000;
+// Posted limits overstate average travel speed on surface streets
+const POSTED_SPEED_FACTOR = 0.85;
+// Parking lot / driveway speed from the site to the nearest road node
+const ACCESS_SPEED_MPH = 10;
+// Roadside frontage reached from the last node, so the outline covers the blocks along each road
+const OUTLINE_BUFFER_MILES = 0.15;
+
+const MPH_TO_MPS = 0.44704;
+const SQ_METERS_PER_SQ_MILE = 2589988.11;
+
+interface OverpassWay {
+  type: 'way';
+  id: number;
+  nodes: number[];
+  geometry?: { lat: number; lon: number }[];
+  tags?: Record<string, string>;
+}
+
+interface GraphEdge {
+  to: number;
+  seconds: number;
+}
+
+interface RoadGraph {
+  coords: Map<number, [number, number]>; // node id -> [lng, lat]
+  edges: Map<number, GraphEdge[]>;
+  segments: number;
+}
+
+export class IsochroneError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IsochroneError';
+  }
+}
+
+// maxspeed is km/h unless suffixed ("45 mph"); "none", "signals" etc. fall back to the class default
+function parseMaxSpeed(value: string | undefined): number | null {
+  const match = value?.match(/^(\d+(?:\.\d+)?)\s*(mph)?/i);
+  if (!match) return null;
+  const speed = parseFloat(match[1]);
+  return match[2] ? speed : speed * 0.621371;
+}
+
+function waySpeedMph(tags: Record<string, string>): number {
+  const highway = tags.highway;
+  const fallback = HIGHWAY_SPEEDS_MPH[highway] ?? HIGHWAY_SPEEDS_MPH.unclassified;
+  const posted = parseMaxSpeed(tags.maxspeed);
+  if (!posted) return fallback;
+  return highway === 'motorway' ? posted : posted * POSTED_SPEED_FACTOR;
+}
+
+// 1 = forward only, -1 = reverse only, 0 = both directions
+function wayDirection(tags: Record<string, string>): 1 | -1 | 0 {
+  const oneway = tags.oneway;
+  if (oneway === '-1' || oneway === 'reverse') return -1;
+  if (oneway === 'yes' || oneway === 'true' || oneway === '1') return 1;
+  if (oneway === 'no') return 0;
+  if (tags.highway === 'motorway' || tags.junction === 'roundabout') return 1;
+  return 0;
+}
+
+function queryRadiusMeters(maxMinutes: number): number {
+  return Math.min(MAX_QUERY_RADIUS_M, Math.round(maxMinutes * 60 * HIGHWAY_SPEEDS_MPH.motorway * MPH_TO_MPS));
+}
+
+async function fetchRoadGraph(lat: number, lng: number, radiusMeters: number): Promise<RoadGraph> {
+  const through = Object.keys(HIGHWAY_SPEEDS_MPH).filter(c => !LOCAL_CLASSES.includes(c)).join('|');
+  const local = LOCAL_CLASSES.join('|');
+  const query = `
+    [out:json][timeout:25];
+    (
+      way["highway"~"^(${through})$"](around:${radiusMeters},${lat},${lng});
+      way["highway"~"^(${local})$"](around:${Math.min(radiusMeters, LOCAL_STREET_RADIUS_M)},${lat},${lng});
+    );
+    out body geom;
+  `;
+
+  // The provider client fails over to the other Overpass mirrors
+  const response = await providerFetch('https://overpass-api.de/api/interpreter', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: `data=${encodeURIComponent(query)}`,
+    timeoutMs: 28000,
+  });
+  if (!response.ok) {
+    throw new Error(`Overpass road network query failed: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const graph: RoadGraph = { coords: new Map(), edges: new Map(), segments: 0 };
+
+  const addEdge = (from: number, to: number, seconds: number) => {
+    const list = graph.edges.get(from);
+    if (list) list.push({ to, seconds });
+    else graph.edges.set(from, [{ to, seconds }]);
+  };
+
+  for (const way of (data.elements || []) as OverpassWay[]) {
+    if (way.type !== 'way' || !way.geometry || way.geometry.length !== way.nodes.length) continue;
+    const tags = way.tags || {};
+    const metersPerSecond = waySpeedMph(tags) * MPH_TO_MPS;
+    const direction = wayDirection(tags);
+
+    way.nodes.forEach((id, i) => graph.coords.set(id, [way.geometry![i].lon, way.geometry![i].lat]));
+
+    for (let i = 1; i < way.nodes.length; i++) {
+      const a = way.geometry[i - 1];
+      const b = way.geometry[i];
+      const seconds = turf.distance([a.lon, a.lat], [b.lon, b.lat], { units: 'meters' }) / metersPerSecond;
+      if (direction >= 0) addEdge(way.nodes[i - 1], way.nodes[i], seconds);
+      if (direction <= 0) addEdge(way.nodes[i], way.nodes[i - 1], seconds);
+      graph.segments++;
+    }
+  }
+
+  return graph;
+}
+
+// Binary min-heap of [seconds, node] for Dijkstra
+class TravelQueue {
+  private heap: [number, number][] = [];
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  push(item: [number, number]): void {
+    const heap = this.heap;
+    heap.push(item);
+    for (let i = heap.length - 1; i > 0;) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent][0] <= heap[i][0]) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): [number, number] | undefined {
+    const heap = this.heap;
+    const top = heap[0];
+    const last = heap.pop();
+    if (heap.length > 0 && last) {
+      heap[0] = last;
+      for (let i = 0; ;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left;
+        if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right;
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+function nearestNode(graph: RoadGraph, lng: number, lat: number): { id: number; meters: number } | null {
+  let best: { id: number; meters: number } | null = null;
+  for (const [id, coord] of graph.coords) {
+    if (!graph.edges.has(id)) continue;
+    const meters = turf.distance([lng, lat], coord, { units: 'meters' });
+    if (!best || meters < best.meters) best = { id, meters };
+  }
+  return best;
+}
+
+function travelTimes(graph: RoadGraph, origin: number, startSeconds: number, limitSeconds: number): Map<number, number> {
+  const times = new Map<number, number>([[origin, startSeconds]]);
+  const queue = new TravelQueue();
+  queue.push([startSeconds, origin]);
+
+  while (queue.size > 0) {
+    const [seconds, node] = queue.pop()!;
+    if (seconds > (times.get(node) ?? Infinity) || seconds > limitSeconds) continue;
+    for (const edge of graph.edges.get(node) || []) {
+      const arrival = seconds + edge.seconds;
+      if (arrival < (times.get(edge.to) ?? Infinity)) {
+        times.set(edge.to, arrival);
+        queue.push([arrival, edge.to]);
+      }
+    }
+  }
+  return times;
+}
+
+// Reachable nodes plus the point part-way along each edge where the time budget runs out
+function frontierPoints(graph: RoadGraph, times: Map<number, number>, budgetSeconds: number): [number, number][] {
+  const points: [number, number][] = [];
+  for (const [node, seconds] of times) {
+    if (seconds > budgetSeconds) continue;
+    const from = graph.coords.get(node)!;
+    points.push(from);
+    for (const edge of graph.edges.get(node) || []) {
+      if ((times.get(edge.to) ?? Infinity) <= budgetSeconds) continue;
+      const to = graph.coords.get(edge.to)!;
+      const share = (budgetSeconds - seconds) / edge.seconds;
+      points.push([from[0] + (to[0] - from[0]) * share, from[1] + (to[1] - from[1]) * share]);
+    }
+  }
+  return points;
+}
+
+// Snap to a grid sized to the area so hull construction stays fast on dense street networks
+function thinPoints(points: [number, number][], cellDegrees: number): [number, number][] {
+  const cells = new Map<string, [number, number]>();
+  for (const point of points) {
+    const key = `${Math.round(point[0] / cellDegrees)},${Math.round(point[1] / cellDegrees)}`;
+    if (!cells.has(key)) cells.set(key, point);
+  }
+  return [...cells.values()];
+}
+
+function outline(origin: [number, number], points: [number, number][], reachMiles: number): Feature<Polygon | MultiPolygon> {
+  const collection = turf.featureCollection(points.map(p => turf.point(p)));
+  let hull: Feature<Polygon | MultiPolygon> | null = null;
+
+  if (points.length >= 3) {
+    // Allow concavity between road corridors but not across single missing blocks
+    const maxEdge = Math.max(0.5, reachMiles / 3);
+    try {
+      hull = turf.concave(collection, { maxEdge, units: 'miles' });
+    } catch {
+      hull = null;
+    }
+    hull = hull ?? turf.convex(collection);
+  }
+
+  const base = hull ?? turf.point(origin);
+  return (turf.buffer(base, OUTLINE_BUFFER_MILES, { units: 'miles' }) as Feature<Polygon | MultiPolygon> | undefined)
+    ?? turf.circle(origin, OUTLINE_BUFFER_MILES, { units: 'miles' });
+}
+
+export function normalizeDriveMinutes(minutes: unknown): number[] {
+  const values = Array.isArray(minutes) ? minutes : [minutes];
+  return [...new Set(values.map(Number).filter(m => Number.isFinite(m) && m > 0 && m <= MAX_DRIVE_MINUTES))]
+    .sort((a, b) => a - b);
+}
+
+// Drive-time polygons for each requested number of minutes, smallest first
+export async function fetchIsochrones(lat: number, lng: number, minutes: number[] = DEFAULT_DRIVE_MINUTES): Promise<IsochroneResult> {
+  const contours = normalizeDriveMinutes(minutes);
+  if (contours.length === 0) {
+    throw new IsochroneError(`Drive times must be between 1 and ${MAX_DRIVE_MINUTES} minutes`);
+  }
+
+  const maxSeconds = contours[contours.length - 1] * 60;
+  const graph = await fetchRoadGraph(lat, lng, queryRadiusMeters(contours[contours.length - 1]));
+  const start = nearestNode(graph, lng, lat);
+  if (!start) {
+    throw new IsochroneError('No drivable roads found near this location');
+  }
+
+  const accessSeconds = start.meters / (ACCESS_SPEED_MPH * MPH_TO_MPS);
+  const times = travelTimes(graph, start.id, accessSeconds, maxSeconds);
+  const origin: [number, number] = [lng, lat];
+  console.log(`[Isochrone] ${graph.segments} road segments, ${times.size} nodes reachable in ${contours[contours.length - 1]} min`);
+
+  const areas: DriveTimeArea[] = contours.map(contour => {
+    const budget = contour * 60;
+    const raw = frontierPoints(graph, times, budget);
+    const reachMiles = raw.reduce((max, p) => Math.max(max, turf.distance(origin, p, { units: 'miles' })), 0);
+    const points = thinPoints(raw, Math.max(reachMiles, 0.5) / 60 / 69);
+    const polygon = outline(origin, points, reachMiles);
+
+    return {
+      minutes: contour,
+      polygon: polygon.geometry,
+      areaSqMiles: Math.round((turf.area(polygon) / SQ_METERS_PER_SQ_MILE) * 100) / 100,
+      maxReachMiles: Math.round(reachMiles * 100) / 100,
+      reachableNodes: [...times.values()].filter(t => t <= budget).length,
+    };
+  });
+
+  return {
+    origin: { lat, lng },
+    areas,
+    roadSegments: graph.segments,
+    method: 'osm-road-graph',
+    speedAssumptions: HIGHWAY_SPEEDS_MPH,
+  };
+}
+
+export function isInTradeArea(area: Pick<DriveTimeArea, 'polygon'>, lat: number, lng: number): boolean {
+  const point: Feature<Point> = turf.point([lng, lat]);
+  return turf.booleanPointInPolygon(point, area.polygon);
+}
+
+// [south, west, north, east] for Overpass bbox filters
+export function tradeAreaBounds(area: Pick<DriveTimeArea, 'polygon'>): [number, number, number, number] {
+  const [west, south, east, north] = turf.bbox(area.polygon);
+  return [south, west, north, east];
+}
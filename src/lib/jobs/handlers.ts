@@ -0,0 +1,26 @@
+import type { JobKind } from '@/types';
+import { batchAnalyzeJob } from '@/lib/batch-analyze';
+import type { BatchAnalyzePayload } from '@/lib/batch-analyze';
+import { bulkImportJob } from '@/lib/bulk-import';
+import type { BulkImportPayload } from '@/lib/bulk-import';
+import type { JobHandler, JobOf } from './types';
+
+// What each kind of job passes between its handler's methods
+export interface JobPayloads {
+  'batch-analyze': BatchAnalyzePayload;
+  'bulk-import': BulkImportPayload;
+}
+
+// A stored job of any kind; its handler comes from getJobHandler(job.kind)
+export type AnyJob = JobOf<JobPayloads[JobKind]>;
+
+const HANDLERS: { [K in JobKind]: JobHandler<JobPayloads[K]> } = {
+  'batch-analyze': batchAnalyzeJob,
+  'bulk-import': bulkImportJob,
+};
+
+export function getJobHandler<K extends JobKind>(kind: K): JobHandler<JobPayloads[K]> {
+  const handler = HANDLERS[kind];
+  if (!handler) throw new Error(`Unknown job kind: ${kind}`);
+  return handler;
+}
@@ -0,0 +1,5 @@
+// Background jobs - long-running analyses (search batch analysis, bulk imports) submitted as jobs and run
+// by a worker in the server process; progress is stored, so it can be polled or streamed from any request
+
+export { startJobWorker, enqueueJob, getJob, getJobSnapshot, listJobs, cancelJob, deleteJob } from './worker';
+export type { JobHandler, JobOf, JobPayload } from './types';
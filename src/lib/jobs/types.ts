@@ -0,0 +1,33 @@
+import type { Job } from '@/types';
+
+// The values one kind of job passes between its handler's methods: the job input, the context set up
+// before the first item, each item and its result, the summary after the last item and the status view
+export interface JobPayload<TInput = unknown, TContext = unknown, TItem = unknown, TItemResult = unknown, TResult = unknown, TView = unknown> {
+  input: TInput;
+  context: TContext;
+  item: TItem;
+  itemResult: TItemResult;
+  result: TResult;
+  view: TView;
+}
+
+// A stored job of the kind with this payload
+export type JobOf<P extends JobPayload> = Job<P['input'], P['context'], P['item'], P['itemResult'], P['result']>;
+
+// How the worker runs one kind of job. A job is a list of items (one per parcel or site) worked
+// through independently, with shared setup before the first and a summary after the last
+export interface JobHandler<P extends JobPayload = JobPayload> {
+  // Items of one job in flight at once
+  concurrency: number;
+  // Registry providers an item calls; it waits while any of them has jobConcurrency items in flight
+  providers(item: P['item'], context: P['context'], input: P['input']): string[];
+  // Runs once before the first item; stored with the job, so it isn't repeated when a job resumes
+  prepare(input: P['input']): Promise<P['context']>;
+  processItem(item: P['item'], context: P['context'], input: P['input']): Promise<P['itemResult']>;
+  // Runs once every item has finished or failed
+  finalize(job: JobOf<P>): Promise<P['result']>;
+  // Short description for job lists, e.g. the uploaded file name
+  label(job: JobOf<P>): string;
+  // The job's results for status responses; called mid-run too, so it covers the items done so far
+  view(job: JobOf<P>): P['view'];
+}
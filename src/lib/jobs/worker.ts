@@ -0,0 +1,349 @@
+// Background job worker: runs queued jobs item by item within each provider's job concurrency limit,
+// saves progress to the document store as items finish and picks unfinished jobs back up after a restart
+
+import { getStore } from '@/lib/db';
+import { getProvider } from '@/lib/providers';
+import type { JobKind, JobSnapshot, JobSummary } from '@/types';
+import { getJobHandler } from './handlers';
+import type { AnyJob, JobPayloads } from './handlers';
+import type { JobHandler } from './types';
+
+const COLLECTION = 'jobs';
+
+// Jobs running at once; later ones wait their turn
+const MAX_ACTIVE_JOBS = 2;
+// Progress is saved at most this often while items are finishing
+const SAVE_INTERVAL_MS = 1000;
+// Providers the registry doesn't know
+const DEFAULT_JOB_CONCURRENCY = 8;
+
+interface ActiveJob {
+  job: AnyJob;
+  handler: JobHandler<JobPayloads[JobKind]>;
+  inFlight: number;
+  finishing: boolean;
+  saveTimer: ReturnType<typeof setTimeout> | null;
+  saving: Promise<void>;
+}
+
+interface WorkerState {
+  started: Promise<void> | null;
+  // Queued job ids, oldest first
+  pending: string[];
+  // Jobs being loaded from the store, counted against MAX_ACTIVE_JOBS
+  starting: Set<string>;
+  active: Map<string, ActiveJob>;
+  // Items in flight per provider, across all jobs
+  providerLoad: Map<string, number>;
+}
+
+// One worker per server process, even when separately bundled routes each load this module
+const WORKER_KEY = '__droneSenseJobWorker';
+const processGlobal = globalThis as typeof globalThis & { [WORKER_KEY]?: WorkerState };
+const worker: WorkerState = processGlobal[WORKER_KEY] ??= {
+  started: null,
+  pending: [],
+  starting: new Set(),
+  active: new Map(),
+  providerLoad: new Map(),
+};
+
+const now = () => new Date().toISOString();
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+const isOpen = (job: AnyJob) => job.status === 'queued' || job.status === 'running';
+
+function providerLimit(name: string): number {
+  return getProvider(name)?.jobConcurrency ?? DEFAULT_JOB_CONCURRENCY;
+}
+
+function toSummary(job: AnyJob): JobSummary {
+  return {
+    id: job.id,
+    kind: job.kind,
+    status: job.status,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    label: getJobHandler(job.kind).label(job),
+    progress: {
+      total: job.items.length,
+      completed: job.items.filter(i => i.status === 'done').length,
+      failed: job.items.filter(i => i.status === 'failed').length,
+    },
+    error: job.error,
+  };
+}
+
+function toSnapshot(job: AnyJob): JobSnapshot {
+  return { ...toSummary(job), data: getJobHandler(job.kind).view(job) };
+}
+
+// ============ Persistence ============
+
+// Saves run one after another so an older write never lands last. A job cancelled or deleted through
+// another process is only visible in the store, so that's checked first
+function flush(entry: ActiveJob): Promise<void> {
+  if (entry.saveTimer) clearTimeout(entry.saveTimer);
+  entry.saveTimer = null;
+
+  const { job } = entry;
+  entry.saving = entry.saving.then(async () => {
+    const stored = await getStore().get<AnyJob>(COLLECTION, job.id);
+    if (!stored) {
+      job.status = 'cancelled';
+      return;
+    }
+    if (stored.data.status === 'cancelled' && job.status !== 'cancelled') {
+      job.status = 'cancelled';
+      job.finishedAt = stored.data.finishedAt;
+    }
+    job.updatedAt = now();
+    await getStore().update<AnyJob>(COLLECTION, job.id, job);
+  }).catch(err => console.error(`[Jobs] Failed to save job ${job.id}:`, err));
+  return entry.saving;
+}
+
+function scheduleSave(entry: ActiveJob): void {
+  if (entry.saveTimer) return;
+  entry.saveTimer = setTimeout(() => {
+    flush(entry).then(pump);
+  }, SAVE_INTERVAL_MS);
+}
+
+// ============ Scheduling ============
+
+function admit(): void {
+  while (worker.active.size + worker.starting.size < MAX_ACTIVE_JOBS && worker.pending.length > 0) {
+    const id = worker.pending.shift()!;
+    worker.starting.add(id);
+    activate(id).catch(err => console.error(`[Jobs] Failed to start job ${id}:`, err));
+  }
+}
+
+async function activate(id: string): Promise<void> {
+  const doc = await getStore().get<AnyJob>(COLLECTION, id);
+  worker.starting.delete(id);
+  const job = doc?.data;
+  if (!job || !isOpen(job) || worker.active.has(id)) {
+    admit();
+    return;
+  }
+
+  // Items a previous process was working on when it stopped run again
+  for (const item of job.items) {
+    if (item.status === 'running') item.status = 'queued';
+  }
+
+  const entry: ActiveJob = {
+    job,
+    handler: getJobHandler(job.kind),
+    inFlight: 0,
+    finishing: false,
+    saveTimer: null,
+    saving: Promise.resolve(),
+  };
+  worker.active.set(id, entry);
+
+  job.status = 'running';
+  job.startedAt ??= now();
+  try {
+    if (job.context === null) {
+      job.context = await entry.handler.prepare(job.input);
+    }
+  } catch (err) {
+    job.status = 'failed';
+    job.error = errorMessage(err);
+    job.finishedAt = now();
+  }
+  await flush(entry);
+  console.log(`[Jobs] Started ${job.kind} job ${id}: ${job.items.filter(i => i.status === 'queued').length} items to go`);
+  pump();
+}
+
+// Starts every item that has room: each job stays within its handler's concurrency and an item waits
+// while any provider it calls is at its limit. Older jobs get first pick of provider capacity
+function pump(): void {
+  for (const entry of worker.active.values()) {
+    const { job, handler } = entry;
+    const { context } = job;
+
+    if (job.status === 'running') {
+      // Still preparing
+      if (context === null) continue;
+
+      for (const item of job.items) {
+        if (entry.inFlight >= handler.concurrency) break;
+        if (item.status !== 'queued') continue;
+
+        const providers = handler.providers(item.input, context, job.input);
+        if (providers.every(p => (worker.providerLoad.get(p) ?? 0) < providerLimit(p))) {
+          runItem(entry, item, context, providers);
+        }
+      }
+    }
+
+    if (entry.inFlight === 0 && !entry.finishing && (job.status !== 'running' || !job.items.some(i => i.status === 'queued'))) {
+      entry.finishing = true;
+      finish(entry).catch(err => console.error(`[Jobs] Failed to finish job ${job.id}:`, err));
+    }
+  }
+}
+
+function runItem(entry: ActiveJob, item: AnyJob['items'][number], context: NonNullable<AnyJob['context']>, providers: string[]): void {
+  const { job, handler } = entry;
+  item.status = 'running';
+  entry.inFlight++;
+  for (const p of providers) worker.providerLoad.set(p, (worker.providerLoad.get(p) ?? 0) + 1);
+
+  handler.processItem(item.input, context, job.input)
+    .then(result => {
+      item.status = 'done';
+      item.result = result;
+    })
+    .catch(err => {
+      item.status = 'failed';
+      item.error = errorMessage(err);
+    })
+    .finally(() => {
+      entry.inFlight--;
+      for (const p of providers) worker.providerLoad.set(p, (worker.providerLoad.get(p) ?? 1) - 1);
+      scheduleSave(entry);
+      pump();
+    });
+}
+
+// Summarizes a job whose items are all through, or wraps up one that was cancelled or failed to prepare
+async function finish(entry: ActiveJob): Promise<void> {
+  const { job, handler } = entry;
+
+  if (job.status === 'running') {
+    try {
+      job.result = await handler.finalize(job);
+      const failed = job.items.filter(i => i.status === 'failed').length;
+      if (job.items.length > 0 && failed === job.items.length) {
+        job.status = 'failed';
+        job.error = `All ${failed} items failed`;
+      } else {
+        job.status = 'done';
+      }
+    } catch (err) {
+      job.status = 'failed';
+      job.error = errorMessage(err);
+    }
+    job.finishedAt = now();
+  }
+
+  await flush(entry);
+  worker.active.delete(job.id);
+  const { progress } = toSummary(job);
+  console.log(`[Jobs] ${job.kind} job ${job.id} ${job.status}: ${progress.completed} done, ${progress.failed} failed of ${progress.total}`);
+  admit();
+  pump();
+}
+
+// ============ Public API ============
+
+// Loads jobs a previous server process left unfinished and starts working the queue; safe to call
+// repeatedly
+export function startJobWorker(): Promise<void> {
+  worker.started ??= (async () => {
+    const docs = await getStore().list<AnyJob>(COLLECTION);
+    const unfinished = docs
+      .map(doc => doc.data)
+      .filter(job => isOpen(job) && !worker.active.has(job.id) && !worker.starting.has(job.id) && !worker.pending.includes(job.id));
+    if (unfinished.length > 0) {
+      console.log(`[Jobs] Resuming ${unfinished.length} unfinished ${unfinished.length === 1 ? 'job' : 'jobs'}`);
+    }
+    worker.pending.unshift(...unfinished.map(job => job.id));
+    admit();
+  })().catch(err => {
+    console.error('[Jobs] Failed to resume jobs:', err);
+    worker.started = null;
+  });
+  return worker.started;
+}
+
+export async function enqueueJob<K extends JobKind>(
+  kind: K,
+  input: JobPayloads[K]['input'],
+  items: JobPayloads[K]['item'][]
+): Promise<JobSnapshot> {
+  await startJobWorker();
+
+  const createdAt = now();
+  const job: AnyJob = {
+    id: crypto.randomUUID(),
+    kind,
+    status: 'queued',
+    createdAt,
+    updatedAt: createdAt,
+    startedAt: null,
+    finishedAt: null,
+    input,
+    context: null,
+    items: items.map(item => ({ input: item, status: 'queued' })),
+    result: null,
+    error: null,
+  };
+  await getStore().put<AnyJob>(COLLECTION, job, { id: job.id });
+
+  worker.pending.push(job.id);
+  admit();
+  return toSnapshot(job);
+}
+
+// Jobs this process is running are read from memory, so items finished since the last save show up
+export async function getJob(id: string): Promise<AnyJob | null> {
+  const entry = worker.active.get(id);
+  if (entry) return entry.job;
+  const doc = await getStore().get<AnyJob>(COLLECTION, id);
+  return doc ? doc.data : null;
+}
+
+export async function getJobSnapshot(id: string): Promise<JobSnapshot | null> {
+  const job = await getJob(id);
+  return job ? toSnapshot(job) : null;
+}
+
+export async function listJobs(kind?: JobKind, limit = 20): Promise<JobSummary[]> {
+  const docs = await getStore().list<AnyJob>(COLLECTION, { order: 'desc' });
+  return docs
+    .map(doc => doc.data)
+    .filter(job => !kind || job.kind === kind)
+    .slice(0, limit)
+    .map(toSummary);
+}
+
+// Stops a job; items already in flight finish and everything done so far is kept
+export async function cancelJob(id: string): Promise<JobSnapshot | null> {
+  const entry = worker.active.get(id);
+  if (entry) {
+    if (entry.job.status === 'running') {
+      entry.job.status = 'cancelled';
+      entry.job.finishedAt = now();
+      await flush(entry);
+      pump();
+    }
+    return toSnapshot(entry.job);
+  }
+
+  const doc = await getStore().get<AnyJob>(COLLECTION, id);
+  if (!doc) return null;
+  const job = doc.data;
+  if (isOpen(job)) {
+    job.status = 'cancelled';
+    job.finishedAt = now();
+    job.updatedAt = job.finishedAt;
+    worker.pending = worker.pending.filter(p => p !== id);
+    await getStore().update<AnyJob>(COLLECTION, id, job);
+  }
+  return toSnapshot(job);
+}
+
+export async function deleteJob(id: string): Promise<boolean> {
+  if (!(await cancelJob(id))) return false;
+  return getStore().delete(COLLECTION, id);
+}
@@ -0,0 +1,227 @@
+// Commercial points of interest from OpenStreetMap via the Overpass API (free, no key needed)
+// Shared by the Places API, bulk imports and the sales forecast so all see the same competitor set
+
+import { providerFetch } from '@/lib/providers';
+import { classifyOsmTags, DEFAULT_POI_CATEGORIES, POI_CATEGORIES } from '@/data/poiTaxonomy';
+import { resolveBrand } from '@/lib/brands';
+import { fetchIsochrones, isInTradeArea, tradeAreaBounds } from '@/lib/isochrone';
+import { distanceBetween } from '@/utils/geometry';
+import type { DriveTimeArea, PoiCategoryCode } from '@/types';
+
+export interface Place {
+  name: string;
+  // Display type from the matching OSM tag, e.g. 'Fast Food' or 'Gas Station'
+  type: string;
+  category: PoiCategoryCode;
+  lat: number;
+  lng: number;
+  address: string;
+  // OSM brand tags, used to resolve the place to a catalog tenant (see lib/brands)
+  brand?: string;
+  brandWikidata?: string;
+}
+
+// A place around the site, with its distance and the catalog tenant its brand resolves to
+export interface NearbyBusiness {
+  name: string;
+  type: string;
+  category: PoiCategoryCode;
+  distance: string;
+  address: string;
+  lat: number;
+  lng: number;
+  brand?: string;
+  tenantId?: string;
+}
+
+export interface NearbyBusinessOptions {
+  // Straight-line trade area in meters; 1 mile when omitted
+  radius?: number;
+  // When set, the trade area is this drive-time polygon instead of the straight-line radius
+  driveMinutes?: number;
+  categories?: PoiCategoryCode[];
+  // Maximum businesses returned, nearest first
+  limit?: number;
+}
+
+export interface NearbyBusinesses {
+  businesses: NearbyBusiness[];
+  categories: PoiCategoryCode[];
+  // Counts cover the whole trade area, not just the businesses returned
+  categoryCounts: Partial<Record<PoiCategoryCode, number>>;
+  tradeArea:
+    | { mode: 'drive-time'; minutes: number; areaSqMiles: number }
+    | { mode: 'radius'; radiusMeters: number };
+}
+
+const DEFAULT_RADIUS_METERS = 1609;
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 200;
+
+export class PlacesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlacesError';
+  }
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  restaurant: 'Restaurant', cafe: 'Cafe', fast_food: 'Fast Food',
+  bank: 'Bank', pharmacy: 'Pharmacy', fuel: 'Gas Station',
+  supermarket: 'Grocery', convenience: 'Convenience', mall: 'Mall',
+  department_store: 'Department Store', wholesale: 'Warehouse Club', variety_store: 'Dollar / Variety',
+  doityourself: 'Home Improvement', fitness_centre: 'Fitness', doctors: 'Doctor', car: 'Car Dealer',
+  car_repair: 'Auto Repair', car_parts: 'Auto Parts', clothes: 'Apparel', kindergarten: 'Preschool',
+  charging_station: 'EV Charging', place_of_worship: 'Place of Worship',
+};
+
+export function formatPlaceType(type: string): string {
+  return TYPE_LABELS[type] || type.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+}
+
+// Overpass union of every tag filter in the requested categories, one clause per OSM key
+function buildPlacesQuery(bbox: string, categories: PoiCategoryCode[]): string {
+  const valuesByKey = new Map<string, Set<string> | null>();
+  for (const code of categories) {
+    for (const filter of POI_CATEGORIES[code].tags) {
+      if (!filter.values || valuesByKey.get(filter.key) === null) {
+        valuesByKey.set(filter.key, null);
+        continue;
+      }
+      const values = valuesByKey.get(filter.key) ?? new Set<string>();
+      filter.values.forEach(v => values.add(v));
+      valuesByKey.set(filter.key, values);
+    }
+  }
+
+  const clauses = [...valuesByKey].map(([key, values]) =>
+    values ? `nwr["${key}"~"^(${[...values].join('|')})$"](${bbox});` : `nwr["${key}"](${bbox});`
+  );
+  return `
+    [out:json][timeout:25];
+    (
+      ${clauses.join('\n      ')}
+    );
+    out center;
+  `;
+}
+
+// Named businesses inside a [south, west, north, east] box, limited to the given POI categories
+export async function fetchPlaces(
+  bounds: [number, number, number, number],
+  categories: PoiCategoryCode[] = DEFAULT_POI_CATEGORIES
+): Promise<Place[]> {
+  const query = buildPlacesQuery(bounds.join(','), categories);
+
+  // The provider client fails over to the other Overpass mirrors
+  let response: Response;
+  try {
+    response = await providerFetch('https://overpass.kumi.systems/api/interpreter', {
+      method: 'POST',
+      body: `data=${encodeURIComponent(query)}`,
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'User-Agent': 'DroneSense/1.0 (https://drone-sense.vercel.app)',
+      },
+    });
+  } catch (e) {
+    console.error('All Overpass mirrors failed:', e);
+    throw new PlacesError(`Overpass request failed: ${e}`);
+  }
+
+  if (!response.ok) {
+    console.error('All Overpass mirrors failed:', response.status);
+    throw new PlacesError(`Overpass returned ${response.status}`);
+  }
+
+  const data = await response.json();
+  console.log('Overpass returned', data.elements?.length || 0, 'elements');
+  const places: Place[] = [];
+
+  for (const el of data.elements || []) {
+    const tags = el.tags || {};
+    if (!tags.name) continue;
+
+    const lat = el.lat || el.center?.lat;
+    const lon = el.lon || el.center?.lon;
+    if (!lat || !lon) continue;
+
+    // Elements can carry tags from several categories; keep the first requested one that matches
+    const match = classifyOsmTags(tags, categories);
+    if (!match) continue;
+
+    const address = [tags['addr:housenumber'], tags['addr:street'], tags['addr:city']]
+      .filter(Boolean).join(' ') || 'Address not available';
+
+    places.push({
+      name: tags.name,
+      type: formatPlaceType(match.value),
+      category: match.category.code,
+      lat,
+      lng: lon,
+      address,
+      brand: tags.brand,
+      brandWikidata: tags['brand:wikidata'],
+    });
+  }
+
+  return places;
+}
+
+// Businesses in the site's trade area, nearest first. Throws PlacesError when Overpass fails and
+// IsochroneError when the drive-time area can't be built
+export async function findNearbyBusinesses(
+  coordinates: { lat: number; lng: number },
+  options: NearbyBusinessOptions = {}
+): Promise<NearbyBusinesses> {
+  const {
+    radius = DEFAULT_RADIUS_METERS,
+    driveMinutes,
+    categories = DEFAULT_POI_CATEGORIES,
+    limit = DEFAULT_LIMIT,
+  } = options;
+
+  let driveTimeArea: DriveTimeArea | null = null;
+  if (driveMinutes) {
+    driveTimeArea = (await fetchIsochrones(coordinates.lat, coordinates.lng, [driveMinutes])).areas[0];
+  }
+
+  // Convert radius from meters to degrees (approximately), or use the drive-time polygon's bounds
+  const radiusDeg = (radius / 1000) / 111;
+  const bounds = driveTimeArea
+    ? tradeAreaBounds(driveTimeArea)
+    : [coordinates.lat - radiusDeg, coordinates.lng - radiusDeg, coordinates.lat + radiusDeg, coordinates.lng + radiusDeg] as [number, number, number, number];
+
+  const businesses: NearbyBusiness[] = [];
+  for (const place of await fetchPlaces(bounds, categories)) {
+    const dist = distanceBetween(coordinates.lat, coordinates.lng, place.lat, place.lng, 'kilometers');
+    if (driveTimeArea ? !isInTradeArea(driveTimeArea, place.lat, place.lng) : dist > radius / 1000) continue;
+
+    const brand = resolveBrand(place);
+    businesses.push({
+      name: place.name,
+      type: place.type,
+      category: place.category,
+      distance: `${(dist * 0.621371).toFixed(2)} mi`,
+      address: place.address,
+      lat: place.lat,
+      lng: place.lng,
+      ...(brand ? { brand: brand.tenant.name, tenantId: brand.tenant.id } : {}),
+    });
+  }
+
+  const categoryCounts: Partial<Record<PoiCategoryCode, number>> = {};
+  for (const business of businesses) {
+    categoryCounts[business.category] = (categoryCounts[business.category] || 0) + 1;
+  }
+
+  businesses.sort((a, b) => parseFloat(a.distance) - parseFloat(b.distance));
+  return {
+    businesses: businesses.slice(0, Math.min(Math.max(1, limit), MAX_LIMIT)),
+    categories,
+    categoryCounts,
+    tradeArea: driveTimeArea
+      ? { mode: 'drive-time', minutes: driveTimeArea.minutes, areaSqMiles: driveTimeArea.areaSqMiles }
+      : { mode: 'radius', radiusMeters: radius },
+  };
+}
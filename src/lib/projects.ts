@@ -0,0 +1,283 @@
+// Project workspace persistence - projects group saved properties, search history and favorites
+// so a whole team can work from the same server-side data instead of per-browser localStorage
+
+import { getStore } from '@/lib/db';
+import type { StoredDocument } from '@/lib/db';
+import {
+  Project,
+  SavedProperty,
+  SearchHistoryItem,
+  QuickFeasibility,
+  WorkspaceImport,
+  WorkspaceImportResult,
+} from '@/types';
+
+export const COLLECTIONS = {
+  projects: 'projects',
+  savedProperties: 'saved-properties',
+  searchHistory: 'search-history',
+  favorites: 'favorites',
+} as const;
+
+export const MAX_HISTORY_ITEMS = 50;
+
+type ProjectFields = Pick<Project, 'name' | 'description'>;
+
+function toProject(doc: StoredDocument<ProjectFields>): Project {
+  return {
+    id: doc.id,
+    name: doc.data.name,
+    description: doc.data.description,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+  };
+}
+
+// Favorites are keyed by parcel, so namespace the document id by project
+function favoriteId(projectId: string, parcelId: string): string {
+  return `${projectId}:${parcelId}`;
+}
+
+// Drop undefined keys so partial updates never blank out stored fields
+function definedOnly<T extends object>(updates: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(updates).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+// A client-supplied id already used by a document of another project
+export class DocumentConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentConflictError';
+  }
+}
+
+// Ids sent by the client are only reused within their own project, so a save can't move another
+// project's document into this one
+async function assertNotOwnedElsewhere(collection: string, projectId: string, id: string): Promise<void> {
+  const doc = await getStore().get(collection, id);
+  if (doc && doc.projectId !== projectId) {
+    throw new DocumentConflictError(`${id} already belongs to another project`);
+  }
+}
+
+// Fetch a document only if it belongs to the given project
+async function getOwned<T>(collection: string, projectId: string, id: string): Promise<StoredDocument<T> | null> {
+  const doc = await getStore().get<T>(collection, id);
+  return doc && doc.projectId === projectId ? doc : null;
+}
+
+// ============ Projects ============
+
+export async function listProjects(): Promise<Project[]> {
+  const docs = await getStore().list<ProjectFields>(COLLECTIONS.projects);
+  return docs.map(toProject);
+}
+
+export async function getProject(id: string): Promise<Project | null> {
+  const doc = await getStore().get<ProjectFields>(COLLECTIONS.projects, id);
+  return doc ? toProject(doc) : null;
+}
+
+export async function createProject(fields: ProjectFields): Promise<Project> {
+  const doc = await getStore().put<ProjectFields>(COLLECTIONS.projects, {
+    name: fields.name.trim(),
+    description: fields.description,
+  });
+  return toProject(doc);
+}
+
+export async function updateProject(id: string, updates: Partial<ProjectFields>): Promise<Project | null> {
+  const existing = await getStore().get<ProjectFields>(COLLECTIONS.projects, id);
+  if (!existing) return null;
+
+  const doc = await getStore().update<ProjectFields>(COLLECTIONS.projects, id, {
+    name: updates.name?.trim() || existing.data.name,
+    description: updates.description ?? existing.data.description,
+  });
+  return doc ? toProject(doc) : null;
+}
+
+// Delete a project and everything stored under it
+export async function deleteProject(id: string): Promise<boolean> {
+  const store = getStore();
+  const deleted = await store.delete(COLLECTIONS.projects, id);
+  if (!deleted) return false;
+
+  await Promise.all([
+    store.deleteByProject(COLLECTIONS.savedProperties, id),
+    store.deleteByProject(COLLECTIONS.searchHistory, id),
+    store.deleteByProject(COLLECTIONS.favorites, id),
+  ]);
+  return true;
+}
+
+// ============ Saved Properties ============
+
+export async function listSavedProperties(projectId: string): Promise<SavedProperty[]> {
+  const docs = await getStore().list<SavedProperty>(COLLECTIONS.savedProperties, { projectId });
+  return docs.map(doc => doc.data);
+}
+
+export async function saveProperty(
+  projectId: string,
+  property: Omit<SavedProperty, 'id' | 'savedAt'> & Partial<Pick<SavedProperty, 'id' | 'savedAt'>>
+): Promise<SavedProperty> {
+  const saved: SavedProperty = {
+    ...property,
+    id: property.id || crypto.randomUUID(),
+    savedAt: property.savedAt || new Date().toISOString(),
+  };
+  if (property.id) await assertNotOwnedElsewhere(COLLECTIONS.savedProperties, projectId, property.id);
+  await getStore().put(COLLECTIONS.savedProperties, saved, { id: saved.id, projectId });
+  return saved;
+}
+
+export async function updateSavedProperty(
+  projectId: string,
+  id: string,
+  updates: Partial<Omit<SavedProperty, 'id' | 'savedAt'>>
+): Promise<SavedProperty | null> {
+  const existing = await getOwned<SavedProperty>(COLLECTIONS.savedProperties, projectId, id);
+  if (!existing) return null;
+
+  const updated: SavedProperty = { ...existing.data, ...definedOnly(updates), id, savedAt: existing.data.savedAt };
+  await getStore().update(COLLECTIONS.savedProperties, id, updated);
+  return updated;
+}
+
+export async function deleteSavedProperty(projectId: string, id: string): Promise<boolean> {
+  const existing = await getOwned<SavedProperty>(COLLECTIONS.savedProperties, projectId, id);
+  if (!existing) return false;
+  return getStore().delete(COLLECTIONS.savedProperties, id);
+}
+
+// ============ Search History ============
+
+export async function listSearchHistory(projectId: string, limit?: number): Promise<SearchHistoryItem[]> {
+  const docs = await getStore().list<SearchHistoryItem>(COLLECTIONS.searchHistory, { projectId });
+  // Most recent search first
+  const items = docs.map(doc => doc.data).sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  return limit ? items.slice(0, limit) : items;
+}
+
+export async function addSearchHistory(
+  projectId: string,
+  item: Omit<SearchHistoryItem, 'id' | 'timestamp'> & Partial<Pick<SearchHistoryItem, 'id' | 'timestamp'>>
+): Promise<SearchHistoryItem> {
+  const store = getStore();
+  const newItem: SearchHistoryItem = {
+    ...item,
+    id: item.id || crypto.randomUUID(),
+    timestamp: item.timestamp || new Date().toISOString(),
+  };
+  if (item.id) await assertNotOwnedElsewhere(COLLECTIONS.searchHistory, projectId, item.id);
+
+  // Remove any existing entry with the same address to avoid duplicates
+  const existing = await listSearchHistory(projectId);
+  for (const entry of existing) {
+    if (entry.address.toLowerCase() === newItem.address.toLowerCase()) {
+      await store.delete(COLLECTIONS.searchHistory, entry.id);
+    }
+  }
+
+  await store.put(COLLECTIONS.searchHistory, newItem, { id: newItem.id, projectId });
+
+  // Trim to the most recent entries
+  const remaining = existing.filter(entry => entry.address.toLowerCase() !== newItem.address.toLowerCase());
+  for (const stale of remaining.slice(MAX_HISTORY_ITEMS - 1)) {
+    await store.delete(COLLECTIONS.searchHistory, stale.id);
+  }
+
+  return newItem;
+}
+
+export async function updateSearchHistory(
+  projectId: string,
+  id: string,
+  updates: Partial<Omit<SearchHistoryItem, 'id'>>
+): Promise<SearchHistoryItem | null> {
+  const existing = await getOwned<SearchHistoryItem>(COLLECTIONS.searchHistory, projectId, id);
+  if (!existing) return null;
+
+  const updated: SearchHistoryItem = { ...existing.data, ...definedOnly(updates), id };
+  await getStore().update(COLLECTIONS.searchHistory, id, updated);
+  return updated;
+}
+
+export async function deleteSearchHistory(projectId: string, id: string): Promise<boolean> {
+  const existing = await getOwned<SearchHistoryItem>(COLLECTIONS.searchHistory, projectId, id);
+  if (!existing) return false;
+  return getStore().delete(COLLECTIONS.searchHistory, id);
+}
+
+export async function clearSearchHistory(projectId: string): Promise<number> {
+  return getStore().deleteByProject(COLLECTIONS.searchHistory, projectId);
+}
+
+// ============ Favorites ============
+
+export async function listFavorites(projectId: string): Promise<QuickFeasibility[]> {
+  const docs = await getStore().list<QuickFeasibility>(COLLECTIONS.favorites, { projectId });
+  return docs.map(doc => doc.data);
+}
+
+export async function addFavorite(projectId: string, property: QuickFeasibility): Promise<QuickFeasibility> {
+  await getStore().put(COLLECTIONS.favorites, property, {
+    id: favoriteId(projectId, property.parcelId),
+    projectId,
+  });
+  return property;
+}
+
+export async function removeFavorite(projectId: string, parcelId: string): Promise<boolean> {
+  return getStore().delete(COLLECTIONS.favorites, favoriteId(projectId, parcelId));
+}
+
+export async function clearFavorites(projectId: string): Promise<number> {
+  return getStore().deleteByProject(COLLECTIONS.favorites, projectId);
+}
+
+// ============ localStorage Import ============
+
+// Merge data exported from browser localStorage into a project, skipping duplicates
+export async function importWorkspace(projectId: string, payload: WorkspaceImport): Promise<WorkspaceImportResult> {
+  const result: WorkspaceImportResult = { savedProperties: 0, searchHistory: 0, favorites: 0 };
+
+  if (Array.isArray(payload.savedProperties)) {
+    // Avoid duplicates by address, matching the old client-side import behaviour
+    const existing = new Set((await listSavedProperties(projectId)).map(p => p.address));
+    for (const property of payload.savedProperties) {
+      if (!property?.address || !property.data || existing.has(property.address)) continue;
+      await saveProperty(projectId, { ...property, id: crypto.randomUUID() });
+      existing.add(property.address);
+      result.savedProperties++;
+    }
+  }
+
+  if (Array.isArray(payload.searchHistory)) {
+    const existing = new Set((await listSearchHistory(projectId)).map(h => h.address.toLowerCase()));
+    // Insert oldest first so the newest entries survive the history limit; older localStorage entries
+    // may have no timestamp and sort first (addSearchHistory stamps them with the import time)
+    const items = payload.searchHistory
+      .filter(item => item?.address && item.coordinates && !existing.has(item.address.toLowerCase()))
+      .sort((a, b) => (a.timestamp || '').localeCompare(b.timestamp || ''));
+    for (const item of items) {
+      await addSearchHistory(projectId, { ...item, id: crypto.randomUUID() });
+      result.searchHistory++;
+    }
+  }
+
+  if (Array.isArray(payload.favorites)) {
+    const existing = new Set((await listFavorites(projectId)).map(f => f.parcelId));
+    for (const favorite of payload.favorites) {
+      if (!favorite?.parcelId || existing.has(favorite.parcelId)) continue;
+      await addFavorite(projectId, favorite);
+      existing.add(favorite.parcelId);
+      result.favorites++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,125 @@
+// Persistent TTL cache for provider responses, keyed by a normalized form of the request
+// Backed by the document store, with a small in-memory layer in front for hot entries
+
+import { createHash } from 'crypto';
+import { getStore } from '@/lib/db';
+
+const COLLECTION = 'provider-cache';
+const MEMORY_LIMIT = 200;
+// Large payloads (e.g. statewide parcel layers) aren't worth persisting
+export const MAX_CACHED_BODY_BYTES = 2 * 1024 * 1024;
+
+// Query parameters that carry credentials: excluded from cache keys and redacted in provenance
+const SECRET_PARAMS = ['key', 'api_key', 'apikey', 'token', 'access_token'];
+
+export interface CachedResponse {
+  provider: string;
+  url: string;
+  status: number;
+  statusText: string;
+  contentType: string | null;
+  body: string;
+  fetchedAt: string;
+  expiresAt: string;
+}
+
+const memory = new Map<string, CachedResponse>();
+
+export function isCacheEnabled(): boolean {
+  return (process.env.DRONE_SENSE_PROVIDER_CACHE || 'on').toLowerCase() !== 'off';
+}
+
+export function redactUrl(url: URL): string {
+  const redacted = new URL(url.toString());
+  for (const name of SECRET_PARAMS) {
+    if (redacted.searchParams.has(name)) {
+      redacted.searchParams.set(name, 'REDACTED');
+    }
+  }
+  return redacted.toString();
+}
+
+// Collapse whitespace so the same Overpass query built with different indentation shares an entry
+function normalizeBody(body: string): string {
+  let decoded = body;
+  try {
+    decoded = decodeURIComponent(body.replace(/\+/g, ' '));
+  } catch {
+    // Not URL-encoded, use as-is
+  }
+  return decoded.replace(/\s+/g, ' ').trim();
+}
+
+export function cacheKey(method: string, url: URL, body?: string | null): string {
+  const normalized = new URL(url.toString());
+  normalized.hash = '';
+  for (const name of SECRET_PARAMS) {
+    normalized.searchParams.delete(name);
+  }
+  normalized.searchParams.sort();
+
+  const parts = [method.toUpperCase(), normalized.toString()];
+  if (body) parts.push(normalizeBody(body));
+
+  return createHash('sha256').update(parts.join('\n')).digest('hex');
+}
+
+function remember(key: string, entry: CachedResponse): void {
+  memory.delete(key);
+  memory.set(key, entry);
+  if (memory.size > MEMORY_LIMIT) {
+    const oldest = memory.keys().next().value;
+    if (oldest !== undefined) memory.delete(oldest);
+  }
+}
+
+export async function readCache(key: string): Promise<CachedResponse | null> {
+  let entry = memory.get(key) || null;
+
+  if (!entry) {
+    try {
+      const doc = await getStore().get<CachedResponse>(COLLECTION, key);
+      entry = doc?.data || null;
+    } catch (err) {
+      console.error('Failed to read provider cache:', err);
+      return null;
+    }
+  }
+
+  if (!entry) return null;
+
+  if (new Date(entry.expiresAt).getTime() <= Date.now()) {
+    memory.delete(key);
+    getStore().delete(COLLECTION, key).catch(() => {});
+    return null;
+  }
+
+  remember(key, entry);
+  return entry;
+}
+
+export async function writeCache(key: string, entry: CachedResponse): Promise<void> {
+  if (entry.body.length > MAX_CACHED_BODY_BYTES) return;
+
+  remember(key, entry);
+  try {
+    await getStore().put(COLLECTION, entry, { id: key });
+  } catch (err) {
+    console.error('Failed to write provider cache:', err);
+  }
+}
+
+// Drop every cached response, optionally only for one provider
+export async function clearCache(provider?: string): Promise<number> {
+  const store = getStore();
+  const docs = await store.list<CachedResponse>(COLLECTION);
+  let removed = 0;
+
+  for (const doc of docs) {
+    if (provider && doc.data.provider !== provider) continue;
+    memory.delete(doc.id);
+    if (await store.delete(COLLECTION, doc.id)) removed++;
+  }
+
+  return removed;
+}
@@ -0,0 +1,94 @@
+// Offline record/replay of upstream responses
+// DRONE_SENSE_FIXTURES=record captures every provider request to disk, =replay serves them back
+// without touching the network. Fixtures live under DRONE_SENSE_FIXTURE_DIR (default ./fixtures/providers)
+
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash } from 'crypto';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export interface HttpFixture {
+  provider: string;
+  request: { method: string; url: string; body: string | null };
+  response: { status: number; statusText: string; contentType: string | null; body: string };
+  recordedAt: string;
+}
+
+// Recorded result of a non-HTTP call (e.g. an SDK call such as Gemini)
+interface ValueFixture<T> {
+  provider: string;
+  value: T;
+  recordedAt: string;
+}
+
+export class MissingFixtureError extends Error {
+  constructor(provider: string, description: string) {
+    super(`No ${provider} fixture recorded for ${description} (DRONE_SENSE_FIXTURES=replay)`);
+    this.name = 'MissingFixtureError';
+  }
+}
+
+export function getFixtureMode(): FixtureMode {
+  const mode = (process.env.DRONE_SENSE_FIXTURES || 'off').toLowerCase();
+  if (mode === 'record' || mode === 'replay') return mode;
+  return 'off';
+}
+
+export function getFixtureDir(): string {
+  return process.env.DRONE_SENSE_FIXTURE_DIR || path.join(process.cwd(), 'fixtures', 'providers');
+}
+
+function fixturePath(provider: string, key: string): string {
+  return path.join(getFixtureDir(), provider, `${key}.json`);
+}
+
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf-8')) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+async function writeJson(file: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // Pretty-printed so recorded fixtures diff cleanly in review
+  await fs.writeFile(file, JSON.stringify(data, null, 2) + '\n');
+}
+
+export function readFixture(provider: string, key: string): Promise<HttpFixture | null> {
+  return readJson<HttpFixture>(fixturePath(provider, key));
+}
+
+export async function writeFixture(provider: string, key: string, fixture: HttpFixture): Promise<void> {
+  try {
+    await writeJson(fixturePath(provider, key), fixture);
+  } catch (err) {
+    console.error('Failed to record fixture:', err);
+  }
+}
+
+// Record or replay an arbitrary async call, keyed by a hash of its JSON-serializable input
+export async function replayable<T>(provider: string, input: unknown, fn: () => Promise<T>): Promise<T> {
+  const mode = getFixtureMode();
+  if (mode === 'off') return fn();
+
+  const key = createHash('sha256').update(JSON.stringify(input)).digest('hex');
+  const file = fixturePath(provider, key);
+
+  if (mode === 'replay') {
+    const fixture = await readJson<ValueFixture<T>>(file);
+    if (!fixture) throw new MissingFixtureError(provider, `input ${key.slice(0, 12)}`);
+    return fixture.value;
+  }
+
+  const value = await fn();
+  try {
+    await writeJson(file, { provider, value, recordedAt: new Date().toISOString() });
+  } catch (err) {
+    console.error('Failed to record fixture:', err);
+  }
+  return value;
+}
@@ -0,0 +1,216 @@
+// Shared HTTP client for external data providers
+// Adds per-host rate limiting, retries with backoff, mirror failover, a persistent TTL cache,
+// offline fixture record/replay and provenance recording on top of fetch, and returns a standard Response
+
+import { DataProvenance } from '@/types';
+import { ProviderDefinition, getProvider, resolveProvider } from './registry';
+import { withRateLimit } from './rate-limiter';
+import { CachedResponse, cacheKey, isCacheEnabled, readCache, redactUrl, writeCache } from './cache';
+import { recordProvenance } from './provenance';
+import { HttpFixture, MissingFixtureError, getFixtureMode, readFixture, writeFixture } from './fixtures';
+
+export interface ProviderFetchOptions extends RequestInit {
+  // Registry name, when the provider can't be inferred from the URL
+  provider?: string;
+  // Per-attempt timeout; overrides the provider default
+  timeoutMs?: number;
+  // Cache lifetime for this request; 0 bypasses the cache
+  ttlMs?: number;
+  retries?: number;
+}
+
+const BACKOFF_BASE_MS = 500;
+const MAX_RETRY_AFTER_MS = 10000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function backoffDelay(attempt: number, response: Response | null): number {
+  const retryAfter = Number(response?.headers.get('retry-after'));
+  if (retryAfter > 0) {
+    return Math.min(retryAfter * 1000, MAX_RETRY_AFTER_MS);
+  }
+  return BACKOFF_BASE_MS * 2 ** (attempt - 1) + Math.random() * 250;
+}
+
+// The requested URL first, then the same path on each of the provider's other mirrors
+function endpointsFor(url: URL, provider: ProviderDefinition): URL[] {
+  const href = url.toString();
+  const base = provider.mirrors?.find(mirror => href.startsWith(mirror));
+  if (!base) return [url];
+
+  const rest = href.slice(base.length);
+  return [url, ...provider.mirrors!.filter(mirror => mirror !== base).map(mirror => new URL(mirror + rest))];
+}
+
+function toResponse(entry: CachedResponse, cached: boolean): Response {
+  const headers = new Headers();
+  if (entry.contentType) headers.set('content-type', entry.contentType);
+  headers.set('x-provider-cache', cached ? 'hit' : 'miss');
+  return new Response(entry.body, { status: entry.status, statusText: entry.statusText, headers });
+}
+
+async function readEntry(provider: ProviderDefinition, url: string, response: Response, ttl: number): Promise<CachedResponse> {
+  const fetchedAt = new Date();
+  return {
+    provider: provider.name,
+    url,
+    status: response.status,
+    statusText: response.statusText,
+    contentType: response.headers.get('content-type'),
+    body: await response.text(),
+    fetchedAt: fetchedAt.toISOString(),
+    expiresAt: new Date(fetchedAt.getTime() + ttl).toISOString(),
+  };
+}
+
+function toFixture(provider: string, method: string, body: string | null, entry: CachedResponse): HttpFixture {
+  return {
+    provider,
+    request: { method, url: entry.url, body },
+    response: {
+      status: entry.status,
+      statusText: entry.statusText,
+      contentType: entry.contentType,
+      body: entry.body,
+    },
+    recordedAt: entry.fetchedAt,
+  };
+}
+
+export async function providerFetch(input: string | URL, options: ProviderFetchOptions = {}): Promise<Response> {
+  const { provider: providerName, timeoutMs, ttlMs, retries, ...init } = options;
+  const url = new URL(input.toString());
+  const provider = (providerName && getProvider(providerName)) || resolveProvider(url);
+
+  const method = (init.method || 'GET').toUpperCase();
+  const body = typeof init.body === 'string' ? init.body : null;
+  const ttl = ttlMs ?? provider.ttlMs;
+  const fixtureMode = getFixtureMode();
+  // Only string bodies can be part of a cache key; recording always goes to the network
+  const cacheable = isCacheEnabled() && fixtureMode === 'off' && ttl > 0 && (init.body == null || body !== null);
+  const key = cacheable ? cacheKey(method, url, body) : null;
+  const fixtureKey = fixtureMode !== 'off' ? cacheKey(method, url, body) : null;
+
+  const provenance: DataProvenance = {
+    provider: provider.name,
+    label: provider.label,
+    url: redactUrl(url),
+    fetchedAt: new Date().toISOString(),
+    cached: false,
+    expiresAt: null,
+    status: 0,
+    attempts: 0,
+  };
+
+  if (fixtureMode === 'replay' && fixtureKey) {
+    const fixture = await readFixture(provider.name, fixtureKey);
+    if (!fixture) {
+      recordProvenance(provenance);
+      throw new MissingFixtureError(provider.name, `${method} ${provenance.url}`);
+    }
+
+    recordProvenance({
+      ...provenance,
+      url: fixture.request.url,
+      fetchedAt: fixture.recordedAt,
+      cached: true,
+      fixture: true,
+      status: fixture.response.status,
+    });
+    return new Response(fixture.response.body, {
+      status: fixture.response.status,
+      statusText: fixture.response.statusText,
+      headers: fixture.response.contentType ? { 'content-type': fixture.response.contentType } : undefined,
+    });
+  }
+
+  if (key) {
+    const hit = await readCache(key);
+    if (hit) {
+      recordProvenance({
+        ...provenance,
+        url: hit.url,
+        fetchedAt: hit.fetchedAt,
+        cached: true,
+        expiresAt: hit.expiresAt,
+        status: hit.status,
+      });
+      return toResponse(hit, true);
+    }
+  }
+
+  const maxRetries = retries ?? provider.retries;
+  const timeout = timeoutMs ?? provider.timeoutMs;
+  let lastResponse: Response | null = null;
+  let lastError: unknown = null;
+
+  try {
+    for (const endpoint of endpointsFor(url, provider)) {
+      for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        if (attempt > 0) {
+          await sleep(backoffDelay(attempt, lastResponse));
+        }
+
+        provenance.attempts++;
+        provenance.url = redactUrl(endpoint);
+
+        try {
+          const signal = init.signal
+            ? AbortSignal.any([init.signal, AbortSignal.timeout(timeout)])
+            : AbortSignal.timeout(timeout);
+          const response = await withRateLimit(endpoint.host, provider, () =>
+            fetch(endpoint, { ...init, signal })
+          );
+          provenance.status = response.status;
+
+          if (response.ok) {
+            const entry = await readEntry(provider, provenance.url, response, ttl);
+            provenance.fetchedAt = entry.fetchedAt;
+
+            if (fixtureKey) {
+              await writeFixture(provider.name, fixtureKey, toFixture(provider.name, method, body, entry));
+            }
+            if (key) {
+              await writeCache(key, entry);
+              provenance.expiresAt = entry.expiresAt;
+            }
+            return toResponse(entry, false);
+          }
+
+          // Client errors won't succeed on a retry or another mirror
+          if (!isRetryable(response.status)) {
+            // Record error responses too, so replay follows the same fallback paths
+            if (fixtureKey) {
+              const entry = await readEntry(provider, provenance.url, response, 0);
+              await writeFixture(provider.name, fixtureKey, toFixture(provider.name, method, body, entry));
+              return toResponse(entry, false);
+            }
+            return response;
+          }
+
+          await response.body?.cancel();
+          lastResponse = response;
+          lastError = null;
+        } catch (err) {
+          lastResponse = null;
+          lastError = err;
+          // Caller gave up, or this endpoint is too slow: go straight to the next mirror
+          if (init.signal?.aborted) throw err;
+          if (err instanceof Error && err.name === 'TimeoutError') break;
+        }
+      }
+    }
+  } finally {
+    recordProvenance(provenance);
+  }
+
+  if (lastResponse) {
+    // Body was drained before retrying, hand back an empty response with the final status
+    return new Response(null, { status: lastResponse.status, statusText: lastResponse.statusText });
+  }
+  throw lastError ?? new Error(`${provider.label} request failed`);
+}
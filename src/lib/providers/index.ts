@@ -0,0 +1,11 @@
+// External data provider layer: route handlers call providerFetch instead of fetch
+// and wrap themselves in withProvenance so responses report where their data came from
+
+export { providerFetch } from './http-client';
+export type { ProviderFetchOptions } from './http-client';
+export { registerProvider, getProvider, listProviders, resolveProvider } from './registry';
+export type { ProviderDefinition } from './registry';
+export { clearCache, isCacheEnabled } from './cache';
+export { withProvenance, currentProvenance, recordProvenance } from './provenance';
+export { getFixtureMode, getFixtureDir, replayable, MissingFixtureError } from './fixtures';
+export type { FixtureMode, HttpFixture } from './fixtures';
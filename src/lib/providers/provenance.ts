@@ -0,0 +1,40 @@
+// Collects provenance for every provider request made while handling an API request,
+// and attaches it to the route's JSON response
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { NextResponse } from 'next/server';
+import { DataProvenance } from '@/types';
+
+const collector = new AsyncLocalStorage<DataProvenance[]>();
+
+export function recordProvenance(entry: DataProvenance): void {
+  collector.getStore()?.push(entry);
+}
+
+// Provenance recorded so far in the current request
+export function currentProvenance(): DataProvenance[] {
+  return [...(collector.getStore() || [])];
+}
+
+// Wrap a route handler so object JSON responses gain a `provenance` array
+export function withProvenance<Args extends unknown[]>(
+  handler: (...args: Args) => Promise<Response>
+): (...args: Args) => Promise<Response> {
+  return async (...args: Args) => {
+    const entries: DataProvenance[] = [];
+    const response = await collector.run(entries, () => handler(...args));
+
+    if (!response.headers.get('content-type')?.includes('application/json')) {
+      return response;
+    }
+
+    const body = await response.clone().json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body) || 'provenance' in body) {
+      return response;
+    }
+
+    const headers = new Headers(response.headers);
+    headers.delete('content-length');
+    return NextResponse.json({ ...body, provenance: entries }, { status: response.status, headers });
+  };
+}
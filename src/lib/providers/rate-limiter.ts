@@ -0,0 +1,63 @@
+// Per-host request throttling: caps concurrent requests and spaces out request starts
+
+interface HostLimits {
+  maxConcurrent: number;
+  minIntervalMs: number;
+}
+
+interface HostState {
+  active: number;
+  nextStart: number;
+  waiting: Array<() => void>;
+}
+
+const hosts = new Map<string, HostState>();
+
+function getState(host: string): HostState {
+  let state = hosts.get(host);
+  if (!state) {
+    state = { active: 0, nextStart: 0, waiting: [] };
+    hosts.set(host, state);
+  }
+  return state;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function acquire(state: HostState, limits: HostLimits): Promise<void> {
+  if (state.active >= limits.maxConcurrent) {
+    // The releasing request hands its slot over, so active stays counted
+    await new Promise<void>(resolve => state.waiting.push(resolve));
+  } else {
+    state.active++;
+  }
+
+  // Reserve the next start slot before sleeping so concurrent callers queue behind it
+  const now = Date.now();
+  const start = Math.max(now, state.nextStart);
+  state.nextStart = start + limits.minIntervalMs;
+  if (start > now) {
+    await sleep(start - now);
+  }
+}
+
+function release(state: HostState): void {
+  const next = state.waiting.shift();
+  // Hand the slot straight to the next waiter, otherwise free it
+  if (next) {
+    next();
+  } else {
+    state.active--;
+  }
+}
+
+// Run fn once the host has capacity
+export async function withRateLimit<T>(host: string, limits: HostLimits, fn: () => Promise<T>): Promise<T> {
+  const state = getState(host);
+  await acquire(state, limits);
+  try {
+    return await fn();
+  } finally {
+    release(state);
+  }
+}
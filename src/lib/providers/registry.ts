@@ -0,0 +1,242 @@
+// Registry of external data providers and the limits the shared HTTP client applies to each
+
+export interface ProviderDefinition {
+  name: string;
+  label: string;
+  // Hostnames served by this provider
+  hosts: string[];
+  // Extra matcher for providers that can't be identified by hostname alone
+  match?: (url: URL) => boolean;
+  // Interchangeable endpoints, tried in order when the requested one fails
+  mirrors?: string[];
+  // How long a successful response stays in the cache (0 disables caching)
+  ttlMs: number;
+  timeoutMs: number;
+  // Additional attempts per endpoint after the first one fails
+  retries: number;
+  // Per-host throttling
+  maxConcurrent: number;
+  minIntervalMs: number;
+  // Background job items calling this provider that may run at once, across all jobs (see lib/jobs)
+  jobConcurrency: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const DEFAULTS = {
+  ttlMs: DAY,
+  timeoutMs: 15000,
+  retries: 2,
+  maxConcurrent: 4,
+  minIntervalMs: 0,
+  jobConcurrency: 8,
+};
+
+const providers: ProviderDefinition[] = [
+  {
+    ...DEFAULTS,
+    name: 'overpass',
+    label: 'OpenStreetMap (Overpass)',
+    hosts: ['overpass-api.de', 'overpass.kumi.systems', 'maps.mail.ru'],
+    mirrors: [
+      'https://overpass-api.de/api/interpreter',
+      'https://overpass.kumi.systems/api/interpreter',
+      'https://maps.mail.ru/osm/tools/overpass/api/interpreter',
+    ],
+    ttlMs: 7 * DAY,
+    timeoutMs: 30000,
+    retries: 1,
+    maxConcurrent: 2,
+    jobConcurrency: 6,
+  },
+  {
+    ...DEFAULTS,
+    name: 'nominatim',
+    label: 'OpenStreetMap (Nominatim)',
+    hosts: ['nominatim.openstreetmap.org'],
+    ttlMs: 30 * DAY,
+    timeoutMs: 10000,
+    // Nominatim usage policy: at most one request per second
+    maxConcurrent: 1,
+    minIntervalMs: 1000,
+    jobConcurrency: 2,
+  },
+  {
+    ...DEFAULTS,
+    name: 'census-acs',
+    label: 'U.S. Census Bureau ACS',
+    hosts: ['api.census.gov'],
+    ttlMs: 30 * DAY,
+  },
+  {
+    ...DEFAULTS,
+    name: 'census-geocoder',
+    label: 'U.S. Census Geocoder',
+    hosts: ['geocoding.geo.census.gov'],
+    ttlMs: 30 * DAY,
+  },
+  {
+    ...DEFAULTS,
+    name: 'census-tigerweb',
+    label: 'U.S. Census TIGERweb',
+    hosts: ['tigerweb.geo.census.gov'],
+    ttlMs: 30 * DAY,
+    timeoutMs: 20000,
+  },
+  {
+    ...DEFAULTS,
+    name: 'fcc',
+    label: 'FCC Area API',
+    hosts: ['geo.fcc.gov'],
+    ttlMs: 30 * DAY,
+    timeoutMs: 8000,
+  },
+  {
+    ...DEFAULTS,
+    name: 'fema',
+    label: 'FEMA National Flood Hazard Layer',
+    hosts: ['hazards.fema.gov'],
+    ttlMs: 30 * DAY,
+  },
+  {
+    ...DEFAULTS,
+    name: 'fws',
+    label: 'USFWS National Wetlands Inventory',
+    hosts: ['www.fws.gov'],
+    ttlMs: 30 * DAY,
+  },
+  {
+    ...DEFAULTS,
+    name: 'epa',
+    label: 'EPA Envirofacts',
+    hosts: ['gispub.epa.gov'],
+    ttlMs: 7 * DAY,
+  },
+  {
+    ...DEFAULTS,
+    name: 'cdfi',
+    label: 'CDFI Fund Opportunity Zones',
+    hosts: ['www.cdfifund.gov'],
+    ttlMs: 30 * DAY,
+    timeoutMs: 8000,
+  },
+  {
+    ...DEFAULTS,
+    name: 'fdot',
+    label: 'FDOT Traffic Counts',
+    hosts: ['gis.fdot.gov'],
+    ttlMs: 7 * DAY,
+  },
+  {
+    ...DEFAULTS,
+    name: 'aldot',
+    label: 'ALDOT Traffic Counts',
+    hosts: ['aldotgis.dot.state.al.us'],
+    ttlMs: 7 * DAY,
+  },
+  {
+    ...DEFAULTS,
+    name: 'gdot',
+    label: 'GDOT Traffic Counts',
+    hosts: ['rnhp.dot.ga.gov'],
+    ttlMs: 7 * DAY,
+  },
+  {
+    ...DEFAULTS,
+    name: 'arcgis-online',
+    label: 'ArcGIS Online',
+    hosts: ['services.arcgis.com', 'services1.arcgis.com', 'services2.arcgis.com', 'services3.arcgis.com'],
+    ttlMs: 7 * DAY,
+  },
+  {
+    ...DEFAULTS,
+    name: 'tomtom',
+    label: 'TomTom Traffic Flow',
+    hosts: ['api.tomtom.com'],
+    // Live conditions, only worth reusing for a few minutes
+    ttlMs: 5 * MINUTE,
+    timeoutMs: 8000,
+    retries: 1,
+  },
+  {
+    ...DEFAULTS,
+    name: 'google-geocode',
+    label: 'Google Geocoding',
+    hosts: ['maps.googleapis.com'],
+    ttlMs: 30 * DAY,
+    timeoutMs: 8000,
+  },
+  {
+    ...DEFAULTS,
+    name: 'open-elevation',
+    label: 'Open-Elevation',
+    hosts: ['api.open-elevation.com'],
+    ttlMs: 30 * DAY,
+    timeoutMs: 8000,
+  },
+  {
+    ...DEFAULTS,
+    name: 'college-scorecard',
+    label: 'College Scorecard',
+    hosts: ['api.data.gov'],
+    ttlMs: 30 * DAY,
+  },
+  {
+    ...DEFAULTS,
+    name: 'realty-mole',
+    label: 'Realty Mole Property API',
+    hosts: ['realty-mole-property-api.p.rapidapi.com'],
+    ttlMs: 7 * DAY,
+    retries: 0,
+  },
+  {
+    ...DEFAULTS,
+    name: 'county-gis',
+    label: 'County GIS (ArcGIS REST)',
+    hosts: [],
+    // County parcel servers all live on their own hosts but share the ArcGIS REST layout
+    match: (url) => /\/arcgis\/rest\/|\/rest\/services\//i.test(url.pathname),
+    ttlMs: 7 * DAY,
+    timeoutMs: 10000,
+    retries: 1,
+    maxConcurrent: 2,
+    jobConcurrency: 4,
+  },
+];
+
+// Used for hosts no registered provider claims
+const FALLBACK_PROVIDER: ProviderDefinition = {
+  ...DEFAULTS,
+  name: 'http',
+  label: 'External service',
+  hosts: [],
+  retries: 1,
+};
+
+// Register an additional provider, or replace an existing one with the same name
+export function registerProvider(definition: ProviderDefinition): void {
+  const index = providers.findIndex(p => p.name === definition.name);
+  if (index >= 0) {
+    providers[index] = definition;
+  } else {
+    providers.push(definition);
+  }
+}
+
+export function getProvider(name: string): ProviderDefinition | null {
+  return providers.find(p => p.name === name) || null;
+}
+
+export function listProviders(): ProviderDefinition[] {
+  return [...providers];
+}
+
+// Find the provider for a request URL (host match first, then custom matchers)
+export function resolveProvider(url: URL): ProviderDefinition {
+  const host = url.hostname.toLowerCase();
+  return providers.find(p => p.hosts.includes(host))
+    || providers.find(p => p.match?.(url))
+    || FALLBACK_PROVIDER;
+}
@@ -0,0 +1,415 @@
+// Trade-area demographics for true 1/3/5-mile rings or drive-time polygons: collect the Census block
+// groups (or tracts, as a fallback) whose internal points fall inside each area and pool their ACS
+// 5-year counts
+
+import { providerFetch } from '@/lib/providers';
+import { isInTradeArea } from '@/lib/isochrone';
+import { distanceBetween } from '@/utils/geometry';
+import type { DriveTimeArea } from '@/types';
+
+export type RadiusMethod = 'block-group-centroid' | 'tract-centroid';
+export type RadiusGeography = 'block group' | 'tract';
+
+export interface IncomeBracketCounts {
+  under25k: number;
+  range25to50k: number;
+  range50to75k: number;
+  range75to100k: number;
+  range100to150k: number;
+  range150kPlus: number;
+}
+
+interface PooledDemographics {
+  population: number;
+  households: number;
+  // Interpolated from the pooled household income distribution (B19001)
+  medianIncome: number;
+  incomeBrackets: IncomeBracketCounts;
+  // Share of the 25+ population with a bachelor's degree or higher
+  bachelorsOrHigherPercent: number | null;
+  geographyCount: number;
+}
+
+export interface RadiusDemographics extends PooledDemographics {
+  radiusMiles: number;
+}
+
+export interface DriveTimeDemographics extends PooledDemographics {
+  driveMinutes: number;
+  areaSqMiles: number;
+}
+
+export interface RadiusDemographicsResult {
+  rings: RadiusDemographics[];
+  method: RadiusMethod;
+  geography: RadiusGeography;
+  vintage: string;
+}
+
+// One block group (or tract) as a point of consumer demand, for gravity models
+export interface DemandPoint {
+  geoid: string;
+  lat: number;
+  lng: number;
+  distanceMiles: number;
+  population: number;
+  households: number;
+  medianIncome: number;
+}
+
+export interface DemandPointsResult {
+  points: DemandPoint[];
+  method: RadiusMethod;
+  geography: RadiusGeography;
+  vintage: string;
+}
+
+export interface DriveTimeDemographicsResult {
+  areas: DriveTimeDemographics[];
+  method: RadiusMethod;
+  geography: RadiusGeography;
+  vintage: string;
+}
+
+const ACS_YEAR = 2022;
+const ACS_VINTAGE = `ACS ${ACS_YEAR - 4}-${ACS_YEAR} 5-year`;
+const TIGERWEB_URL = `https://tigerweb.geo.census.gov/arcgis/rest/services/TIGERweb/tigerWMS_ACS${ACS_YEAR}/MapServer`;
+const TIGERWEB_LAYERS: Record<RadiusGeography, number> = { 'tract': 8, 'block group': 10 };
+const TIGERWEB_PAGE_SIZE = 1000;
+export const MAX_RING_MILES = 10;
+// Drive-time areas reach farther than rings along freeways
+const MAX_DRIVE_TIME_REACH_MILES = 20;
+
+// B19001 bracket lower bounds, $0 through $200,000+
+const INCOME_BRACKET_FLOORS = [0, 10000, 15000, 20000, 25000, 30000, 35000, 40000, 45000, 50000, 60000, 75000, 100000, 125000, 150000, 200000];
+
+const ACS_VARIABLES = [
+  'B01003_001E', // Total population
+  'B11001_001E', // Total households
+  ...INCOME_BRACKET_FLOORS.map((_, i) => `B19001_${String(i + 2).padStart(3, '0')}E`), // Household income brackets
+  'B15003_001E', // Population 25+
+  'B15003_022E', // Bachelor's degree
+  'B15003_023E', // Master's degree
+  'B15003_024E', // Professional degree
+  'B15003_025E', // Doctorate
+];
+
+interface GeographyUnit {
+  geoid: string;
+  state: string;
+  county: string;
+  lat: number;
+  lng: number;
+  distanceMiles: number;
+}
+
+interface UnitCounts {
+  population: number;
+  households: number;
+  incomeBrackets: number[];
+  pop25Plus: number;
+  bachelorsOrHigher: number;
+}
+
+// ACS uses large negative sentinels (e.g. -666666666) for suppressed values
+function count(value: string | null | undefined): number {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+}
+
+// All block groups/tracts whose polygons touch the outer ring, with their internal-point distance
+async function fetchGeographyUnits(
+  lat: number,
+  lng: number,
+  radiusMiles: number,
+  geography: RadiusGeography
+): Promise<GeographyUnit[]> {
+  const units: GeographyUnit[] = [];
+
+  for (let offset = 0; ; offset += TIGERWEB_PAGE_SIZE) {
+    const params = new URLSearchParams({
+      geometry: `${lng},${lat}`,
+      geometryType: 'esriGeometryPoint',
+      inSR: '4326',
+      spatialRel: 'esriSpatialRelIntersects',
+      distance: String(radiusMiles),
+      units: 'esriSRUnit_StatuteMile',
+      outFields: 'GEOID,STATE,COUNTY,INTPTLAT,INTPTLON,CENTLAT,CENTLON',
+      returnGeometry: 'false',
+      resultOffset: String(offset),
+      resultRecordCount: String(TIGERWEB_PAGE_SIZE),
+      f: 'json',
+    });
+
+    const response = await providerFetch(`${TIGERWEB_URL}/${TIGERWEB_LAYERS[geography]}/query?${params}`);
+    if (!response.ok) {
+      throw new Error(`TIGERweb ${geography} query failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (data.error) {
+      throw new Error(`TIGERweb ${geography} query failed: ${data.error.message || 'unknown error'}`);
+    }
+
+    for (const feature of data.features || []) {
+      const attrs = feature.attributes || {};
+      const pointLat = parseFloat(attrs.INTPTLAT ?? attrs.CENTLAT);
+      const pointLng = parseFloat(attrs.INTPTLON ?? attrs.CENTLON);
+      if (!attrs.GEOID || !Number.isFinite(pointLat) || !Number.isFinite(pointLng)) continue;
+
+      units.push({
+        geoid: String(attrs.GEOID),
+        state: String(attrs.STATE),
+        county: String(attrs.COUNTY),
+        lat: pointLat,
+        lng: pointLng,
+        distanceMiles: distanceBetween(lat, lng, pointLat, pointLng),
+      });
+    }
+
+    if (!data.exceededTransferLimit || (data.features || []).length === 0) break;
+  }
+
+  return units;
+}
+
+// ACS counts for every block group/tract in the given counties, keyed by GEOID
+async function fetchAcsCounts(counties: { state: string; county: string }[], geography: RadiusGeography): Promise<Map<string, UnitCounts>> {
+  const censusApiKey = process.env.CENSUS_API_KEY || '';
+  const result = new Map<string, UnitCounts>();
+
+  await Promise.all(counties.map(async ({ state, county }) => {
+    const scope = geography === 'block group'
+      ? `for=block%20group:*&in=state:${state}%20county:${county}%20tract:*`
+      : `for=tract:*&in=state:${state}%20county:${county}`;
+    const url = `https://api.census.gov/data/${ACS_YEAR}/acs/acs5?get=${ACS_VARIABLES.join(',')}&${scope}${censusApiKey ? `&key=${censusApiKey}` : ''}`;
+
+    const response = await providerFetch(url);
+    if (!response.ok) {
+      throw new Error(`ACS ${geography} request failed for ${state}${county}: ${response.status}`);
+    }
+
+    const rows: string[][] = await response.json();
+    const [header, ...records] = rows;
+    const column = (name: string) => header.indexOf(name);
+    const bracketStart = column('B19001_002E');
+
+    for (const row of records) {
+      // GEOID is the concatenation of the trailing geography columns (state, county, tract[, block group])
+      const geoid = row.slice(ACS_VARIABLES.length).join('');
+      result.set(geoid, {
+        population: count(row[column('B01003_001E')]),
+        households: count(row[column('B11001_001E')]),
+        incomeBrackets: INCOME_BRACKET_FLOORS.map((_, i) => count(row[bracketStart + i])),
+        pop25Plus: count(row[column('B15003_001E')]),
+        bachelorsOrHigher: ['B15003_022E', 'B15003_023E', 'B15003_024E', 'B15003_025E']
+          .reduce((sum, name) => sum + count(row[column(name)]), 0),
+      });
+    }
+  }));
+
+  return result;
+}
+
+// Median of a pooled bracket distribution, interpolating linearly inside the median bracket
+export function medianFromBrackets(brackets: number[]): number {
+  const total = brackets.reduce((sum, n) => sum + n, 0);
+  if (total === 0) return 0;
+
+  const half = total / 2;
+  let cumulative = 0;
+  for (let i = 0; i < brackets.length; i++) {
+    if (cumulative + brackets[i] >= half) {
+      const floor = INCOME_BRACKET_FLOORS[i];
+      const ceiling = INCOME_BRACKET_FLOORS[i + 1];
+      // Open-ended top bracket: report its floor rather than guess a ceiling
+      if (ceiling === undefined) return floor;
+      const share = brackets[i] > 0 ? (half - cumulative) / brackets[i] : 0;
+      return Math.round(floor + share * (ceiling - floor));
+    }
+    cumulative += brackets[i];
+  }
+  return INCOME_BRACKET_FLOORS[INCOME_BRACKET_FLOORS.length - 1];
+}
+
+function groupBrackets(brackets: number[]): IncomeBracketCounts {
+  const sum = (from: number, to: number) => brackets.slice(from, to).reduce((total, n) => total + n, 0);
+  return {
+    under25k: sum(0, 4),
+    range25to50k: sum(4, 9),
+    range50to75k: sum(9, 11),
+    range75to100k: sum(11, 12),
+    range100to150k: sum(12, 14),
+    range150kPlus: sum(14, 16),
+  };
+}
+
+// Pool the units selected by `contains`; an area too small to hold any internal point (rural sites)
+// falls back to the nearest geography
+function poolUnits(
+  units: GeographyUnit[],
+  counts: Map<string, UnitCounts>,
+  contains: (unit: GeographyUnit) => boolean
+): PooledDemographics {
+  const withData = units.filter(unit => counts.has(unit.geoid)).sort((a, b) => a.distanceMiles - b.distanceMiles);
+  let inside = withData.filter(contains);
+  if (inside.length === 0 && withData.length > 0) {
+    inside = [withData[0]];
+  }
+  const pooled = inside.reduce((totals, unit) => {
+    const c = counts.get(unit.geoid)!;
+    totals.population += c.population;
+    totals.households += c.households;
+    totals.pop25Plus += c.pop25Plus;
+    totals.bachelorsOrHigher += c.bachelorsOrHigher;
+    c.incomeBrackets.forEach((n, i) => { totals.incomeBrackets[i] += n; });
+    return totals;
+  }, { population: 0, households: 0, pop25Plus: 0, bachelorsOrHigher: 0, incomeBrackets: INCOME_BRACKET_FLOORS.map(() => 0) });
+
+  return {
+    population: pooled.population,
+    households: pooled.households,
+    medianIncome: medianFromBrackets(pooled.incomeBrackets),
+    incomeBrackets: groupBrackets(pooled.incomeBrackets),
+    bachelorsOrHigherPercent: pooled.pop25Plus > 0
+      ? Math.round((pooled.bachelorsOrHigher / pooled.pop25Plus) * 1000) / 10
+      : null,
+    geographyCount: inside.length,
+  };
+}
+
+// Geography units touching a circle of `radiusMiles` around the site, with ACS counts for their counties
+async function loadGeography(
+  lat: number,
+  lng: number,
+  radiusMiles: number,
+  geography: RadiusGeography
+): Promise<{ units: GeographyUnit[]; counts: Map<string, UnitCounts> }> {
+  const units = await fetchGeographyUnits(lat, lng, radiusMiles, geography);
+  if (units.length === 0) {
+    throw new Error(`No ${geography} geographies found within ${radiusMiles} miles`);
+  }
+
+  const counties = [...new Map(units.map(u => [`${u.state}${u.county}`, { state: u.state, county: u.county }])).values()];
+  const counts = await fetchAcsCounts(counties, geography);
+  return { units, counts };
+}
+
+async function aggregateRings(
+  lat: number,
+  lng: number,
+  radii: number[],
+  geography: RadiusGeography
+): Promise<RadiusDemographics[]> {
+  const { units, counts } = await loadGeography(lat, lng, Math.max(...radii), geography);
+  return radii.map(radius => ({
+    radiusMiles: radius,
+    ...poolUnits(units, counts, unit => unit.distanceMiles <= radius),
+  }));
+}
+
+async function aggregateDriveTimeAreas(
+  lat: number,
+  lng: number,
+  areas: DriveTimeArea[],
+  geography: RadiusGeography
+): Promise<DriveTimeDemographics[]> {
+  const reach = Math.min(MAX_DRIVE_TIME_REACH_MILES, Math.max(...areas.map(a => a.maxReachMiles), 0.5));
+  const { units, counts } = await loadGeography(lat, lng, reach, geography);
+  return areas.map(area => ({
+    driveMinutes: area.minutes,
+    areaSqMiles: area.areaSqMiles,
+    ...poolUnits(units, counts, unit => isInTradeArea(area, unit.lat, unit.lng)),
+  }));
+}
+
+const GEOGRAPHY_ATTEMPTS: { geography: RadiusGeography; method: RadiusMethod }[] = [
+  { geography: 'block group', method: 'block-group-centroid' },
+  { geography: 'tract', method: 'tract-centroid' },
+];
+
+// Pool ACS data for each ring, preferring block groups and falling back to tracts when the
+// block group lookup fails. Returns null when neither geography is available.
+export async function fetchRadiusDemographics(
+  lat: number,
+  lng: number,
+  radii: number[] = [1, 3, 5]
+): Promise<RadiusDemographicsResult | null> {
+  const rings = [...new Set(radii.filter(r => r > 0 && r <= MAX_RING_MILES))].sort((a, b) => a - b);
+  if (rings.length === 0) return null;
+
+  for (const { geography, method } of GEOGRAPHY_ATTEMPTS) {
+    try {
+      const results = await aggregateRings(lat, lng, rings, geography);
+      if (results.some(ring => ring.population > 0)) {
+        return { rings: results, method, geography, vintage: ACS_VINTAGE };
+      }
+    } catch (error) {
+      console.error(`[RadiusDemographics] ${geography} aggregation failed:`, error);
+    }
+  }
+
+  return null;
+}
+
+// Same pooling as the rings, selecting geographies whose internal point lies inside each
+// drive-time polygon
+export async function fetchDriveTimeDemographics(
+  lat: number,
+  lng: number,
+  areas: DriveTimeArea[]
+): Promise<DriveTimeDemographicsResult | null> {
+  if (areas.length === 0) return null;
+
+  for (const { geography, method } of GEOGRAPHY_ATTEMPTS) {
+    try {
+      const results = await aggregateDriveTimeAreas(lat, lng, areas, geography);
+      if (results.some(area => area.population > 0)) {
+        return { areas: results, method, geography, vintage: ACS_VINTAGE };
+      }
+    } catch (error) {
+      console.error(`[RadiusDemographics] ${geography} drive-time aggregation failed:`, error);
+    }
+  }
+
+  return null;
+}
+
+// Individual geographies (not pooled) whose internal point lies within `radiusMiles`, for models that
+// need demand by location rather than trade-area totals
+export async function fetchDemandPoints(
+  lat: number,
+  lng: number,
+  radiusMiles: number
+): Promise<DemandPointsResult | null> {
+  const reach = Math.min(MAX_DRIVE_TIME_REACH_MILES, radiusMiles);
+  if (!(reach > 0)) return null;
+
+  for (const { geography, method } of GEOGRAPHY_ATTEMPTS) {
+    try {
+      const { units, counts } = await loadGeography(lat, lng, reach, geography);
+      const points: DemandPoint[] = units
+        .filter(unit => unit.distanceMiles <= reach && counts.has(unit.geoid))
+        .map(unit => {
+          const c = counts.get(unit.geoid)!;
+          return {
+            geoid: unit.geoid,
+            lat: unit.lat,
+            lng: unit.lng,
+            distanceMiles: unit.distanceMiles,
+            population: c.population,
+            households: c.households,
+            medianIncome: medianFromBrackets(c.incomeBrackets),
+          };
+        })
+        .filter(point => point.households > 0);
+      if (points.length > 0) {
+        return { points, method, geography, vintage: ACS_VINTAGE };
+      }
+    } catch (error) {
+      console.error(`[RadiusDemographics] ${geography} demand points failed:`, error);
+    }
+  }
+
+  return null;
+}
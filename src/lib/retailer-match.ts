@@ -0,0 +1,291 @@
+// Retailer matching: scores every actively expanding catalog tenant and saved tenant profile against
+// a site's lot size, traffic, demographics and region. Shared by the Retailer Match API and bulk imports
+
+import { CatalogTenant, TENANT_CATALOG, queryTenants, tenantExpandsIn } from '@/data/tenantCatalog';
+import { listTenantProfiles, profileToCatalogTenant } from '@/lib/tenant-profiles';
+import { findBrandsPresent } from '@/lib/brands';
+import { analyzeCoTenancy } from '@/lib/co-tenancy';
+import { Business, CoTenancyReport, TenantProfile } from '@/types';
+
+export interface RetailerMatchRequest {
+  lotSizeAcres: number | null;
+  vpd: number | null;
+  medianIncome: number | null;
+  incomeLevel: 'low' | 'moderate' | 'middle' | 'upper-middle' | 'high' | null;
+  population: number | null;
+  stateCode: string | null;
+  // Businesses near the site, for co-tenancy analysis and tenant profile co-tenancy rules
+  nearbyBusinesses?: Business[];
+}
+
+export interface RetailerMatch {
+  name: string;
+  category: string;
+  matchScore: number;  // 0-100
+  matchDetails: {
+    lotSize: { matches: boolean; note: string };
+    traffic: { matches: boolean; note: string };
+    demographics: { matches: boolean; note: string };
+    region: { matches: boolean; note: string };
+    coTenancy?: { matches: boolean; note: string };
+  };
+  // Match comes from a user-defined tenant profile rather than the tenant catalog
+  custom?: boolean;
+  coTenancyReport?: CoTenancyReport;
+  activelyExpanding: boolean;
+  franchiseAvailable: boolean;
+  corporateOnly: boolean;
+  franchiseFee?: number;
+  totalInvestment?: string;
+  expansionRegions: string[];
+  notes?: string;
+}
+
+function calculateMatch(
+  retailer: CatalogTenant,
+  site: RetailerMatchRequest
+): RetailerMatch | null {
+  const matchDetails = {
+    lotSize: { matches: false, note: '' },
+    traffic: { matches: false, note: '' },
+    demographics: { matches: false, note: '' },
+    region: { matches: false, note: '' },
+  };
+
+  let totalScore = 0;
+  let weightedFactors = 0;
+
+  // === LOT SIZE MATCHING (30% weight) ===
+  if (site.lotSizeAcres !== null && retailer.lotAcres) {
+    const lotWeight = 30;
+    weightedFactors += lotWeight;
+    const { min: minLotSize, max: maxLotSize } = retailer.lotAcres;
+
+    if (site.lotSizeAcres >= minLotSize && site.lotSizeAcres <= maxLotSize * 1.5) {
+      // Perfect fit
+      matchDetails.lotSize.matches = true;
+      matchDetails.lotSize.note = `${minLotSize}-${maxLotSize} acres needed, site has ${site.lotSizeAcres.toFixed(1)} acres`;
+      totalScore += lotWeight;
+    } else if (site.lotSizeAcres >= minLotSize * 0.8) {
+      // Close fit
+      matchDetails.lotSize.matches = true;
+      matchDetails.lotSize.note = `Site is slightly small (${site.lotSizeAcres.toFixed(1)} vs ${minLotSize} min)`;
+      totalScore += lotWeight * 0.6;
+    } else {
+      // Too small
+      matchDetails.lotSize.matches = false;
+      matchDetails.lotSize.note = `Site too small: needs ${minLotSize}+ acres, has ${site.lotSizeAcres.toFixed(1)}`;
+      // If lot is way too small, eliminate entirely
+      if (site.lotSizeAcres < minLotSize * 0.5) {
+        return null; // Disqualify
+      }
+      totalScore += lotWeight * 0.2;
+    }
+  } else {
+    matchDetails.lotSize.note = 'Lot size not available';
+  }
+
+  // === TRAFFIC/VPD MATCHING (25% weight) ===
+  if (site.vpd !== null && retailer.minVPD !== null) {
+    const vpdWeight = 25;
+    weightedFactors += vpdWeight;
+    const minVPD = retailer.minVPD;
+    const idealVPD = retailer.idealVPD ?? minVPD;
+
+    if (site.vpd >= idealVPD) {
+      matchDetails.traffic.matches = true;
+      matchDetails.traffic.note = `Excellent: ${site.vpd.toLocaleString()} VPD (ideal is ${idealVPD.toLocaleString()}+)`;
+      totalScore += vpdWeight;
+    } else if (site.vpd >= minVPD) {
+      matchDetails.traffic.matches = true;
+      matchDetails.traffic.note = `Good: ${site.vpd.toLocaleString()} VPD meets minimum of ${minVPD.toLocaleString()}`;
+      totalScore += vpdWeight * 0.7;
+    } else if (site.vpd >= minVPD * 0.7) {
+      matchDetails.traffic.matches = false;
+      matchDetails.traffic.note = `Below ideal: ${site.vpd.toLocaleString()} VPD (needs ${minVPD.toLocaleString()}+)`;
+      totalScore += vpdWeight * 0.3;
+    } else {
+      matchDetails.traffic.matches = false;
+      matchDetails.traffic.note = `Insufficient: ${site.vpd.toLocaleString()} VPD (needs ${minVPD.toLocaleString()}+)`;
+    }
+  } else {
+    matchDetails.traffic.note = 'Traffic data not available';
+  }
+
+  // === DEMOGRAPHICS MATCHING (25% weight) ===
+  const demoWeight = 25;
+  weightedFactors += demoWeight;
+  let demoScore = 0;
+  const demoNotes: string[] = [];
+
+  // Income level match
+  if (site.incomeLevel && retailer.incomePreference.includes(site.incomeLevel)) {
+    demoScore += 0.4;
+    demoNotes.push(`Income level (${site.incomeLevel}) matches target`);
+  } else if (site.incomeLevel) {
+    demoNotes.push(`Income level (${site.incomeLevel}) may not be ideal`);
+  }
+
+  // Median income check
+  if (site.medianIncome !== null) {
+    if (retailer.minHHI && site.medianIncome < retailer.minHHI) {
+      demoNotes.push(`Income below minimum ($${site.medianIncome.toLocaleString()} vs $${retailer.minHHI.toLocaleString()})`);
+    } else if (retailer.maxHHI && site.medianIncome > retailer.maxHHI) {
+      demoNotes.push(`Income above target ($${site.medianIncome.toLocaleString()} vs $${retailer.maxHHI.toLocaleString()} max)`);
+    } else if (retailer.minHHI && site.medianIncome >= retailer.minHHI) {
+      demoScore += 0.3;
+    } else {
+      demoScore += 0.2; // No specific requirement, partial credit
+    }
+  }
+
+  // Population check
+  if (site.population !== null && retailer.minPopulation !== null) {
+    const minPopulation = retailer.minPopulation;
+    if (site.population >= minPopulation) {
+      demoScore += 0.3;
+      demoNotes.push(`Population (${site.population.toLocaleString()}) meets minimum`);
+    } else if (site.population >= minPopulation * 0.7) {
+      demoScore += 0.15;
+      demoNotes.push(`Population slightly below target (${site.population.toLocaleString()} vs ${minPopulation.toLocaleString()})`);
+    } else {
+      demoNotes.push(`Population too low (${site.population.toLocaleString()} vs ${minPopulation.toLocaleString()} needed)`);
+    }
+  }
+
+  matchDetails.demographics.matches = demoScore >= 0.5;
+  matchDetails.demographics.note = demoNotes.join('; ') || 'Demographics data not available';
+  totalScore += demoWeight * demoScore;
+
+  // === REGION MATCHING (20% weight) ===
+  const regionWeight = 20;
+  weightedFactors += regionWeight;
+
+  if (site.stateCode) {
+    if (tenantExpandsIn(retailer, site.stateCode)) {
+      matchDetails.region.matches = true;
+      if (retailer.expansionRegions.includes('National')) {
+        matchDetails.region.note = 'Expanding nationally';
+      } else {
+        matchDetails.region.note = `Actively targeting: ${retailer.expansionRegions.join(', ')}`;
+      }
+      totalScore += regionWeight;
+    } else {
+      matchDetails.region.matches = false;
+      matchDetails.region.note = `Not currently expanding in this region (targeting: ${retailer.expansionRegions.join(', ')})`;
+      totalScore += regionWeight * 0.2; // Still possible, just not priority
+    }
+  } else {
+    matchDetails.region.note = 'Location data not available';
+    totalScore += regionWeight * 0.5; // Neutral
+  }
+
+  // Calculate final score
+  const finalScore = weightedFactors > 0
+    ? Math.round((totalScore / weightedFactors) * 100)
+    : 50;
+
+  // Only return if score is reasonable
+  if (finalScore < 30) {
+    return null;
+  }
+
+  return {
+    name: retailer.name,
+    category: retailer.categoryLabel,
+    matchScore: finalScore,
+    matchDetails,
+    activelyExpanding: retailer.activelyExpanding,
+    franchiseAvailable: retailer.franchiseAvailable,
+    corporateOnly: retailer.corporateOnly,
+    franchiseFee: retailer.franchiseFee,
+    totalInvestment: retailer.totalInvestmentMin && retailer.totalInvestmentMax
+      ? `$${(retailer.totalInvestmentMin / 1000000).toFixed(1)}M - $${(retailer.totalInvestmentMax / 1000000).toFixed(1)}M`
+      : undefined,
+    expansionRegions: retailer.expansionRegions,
+    notes: retailer.notes ?? undefined,
+  };
+}
+
+// Apply a tenant profile's preferred/excluded co-tenant rules to its catalog-style match
+function applyCoTenancy(match: RetailerMatch, profile: TenantProfile, nearbyBusinesses?: Business[]): RetailerMatch {
+  const { preferred, excluded } = profile.coTenancy;
+  if (!nearbyBusinesses || (preferred.length === 0 && excluded.length === 0)) {
+    return { ...match, custom: true };
+  }
+
+  const preferredFound = findBrandsPresent(preferred, nearbyBusinesses);
+  const excludedFound = findBrandsPresent(excluded, nearbyBusinesses);
+  let matchScore = match.matchScore;
+  const notes: string[] = [];
+
+  if (preferredFound.length > 0) {
+    matchScore = Math.min(100, matchScore + Math.min(15, preferredFound.length * 5));
+    notes.push(`Preferred co-tenants nearby: ${preferredFound.join(', ')}`);
+  } else if (preferred.length > 0) {
+    notes.push('No preferred co-tenants nearby');
+  }
+
+  if (excludedFound.length > 0) {
+    // An excluded neighbour rules the site out for this tenant
+    matchScore = Math.min(matchScore, 30);
+    notes.push(`Excluded businesses nearby: ${excludedFound.join(', ')}`);
+  }
+
+  return {
+    ...match,
+    custom: true,
+    matchScore,
+    matchDetails: {
+      ...match.matchDetails,
+      coTenancy: {
+        matches: excludedFound.length === 0 && (preferred.length === 0 || preferredFound.length > 0),
+        note: notes.join('; '),
+      },
+    },
+  };
+}
+
+// The top 20 matches, each with its competitors, anchors and cannibalization risk when nearby
+// businesses are given
+export async function matchRetailers(body: RetailerMatchRequest) {
+  const nearbyBusinesses = body.nearbyBusinesses ?? [];
+
+  // Calculate matches for all retailers
+  const matches: { match: RetailerMatch; tenant: CatalogTenant }[] = [];
+
+  // Only include actively expanding retailers by default
+  for (const retailer of queryTenants({ activelyExpanding: true })) {
+    const match = calculateMatch(retailer, body);
+    if (match) {
+      matches.push({ match, tenant: retailer });
+    }
+  }
+
+  // Saved tenant profiles are scored the same way as catalog tenants
+  const profiles = await listTenantProfiles();
+  for (const profile of profiles) {
+    const tenant = profileToCatalogTenant(profile);
+    const match = calculateMatch(tenant, body);
+    if (match) {
+      matches.push({ match: applyCoTenancy(match, profile, body.nearbyBusinesses), tenant });
+    }
+  }
+
+  // Sort by match score descending
+  matches.sort((a, b) => b.match.matchScore - a.match.matchScore);
+
+  // Return top 20 matches, each with its competitors, anchors and cannibalization risk
+  const topMatches = matches.slice(0, 20).map(({ match, tenant }) => (
+    nearbyBusinesses.length > 0
+      ? { ...match, coTenancyReport: analyzeCoTenancy(tenant, nearbyBusinesses) }
+      : match
+  ));
+
+  return {
+    matches: topMatches,
+    totalMatches: matches.length,
+    totalRetailersInDatabase: TENANT_CATALOG.length,
+    customProfiles: profiles.length,
+  };
+}
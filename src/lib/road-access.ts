@@ -0,0 +1,218 @@
+// Turning-movement analysis for site access points, from the OSM road network around the parcel:
+// divided carriageways, median openings, traffic signals and intersections along each frontage road
+
+import * as turf from '@turf/turf';
+import { providerFetch } from '@/lib/providers';
+import type { AccessPoint, AccessType } from '@/types';
+
+interface OsmWay {
+  type: 'way';
+  id: number;
+  nodes: number[];
+  geometry: Array<{ lat: number; lon: number }>;
+  tags?: Record<string, string>;
+}
+
+interface OsmNode {
+  type: 'node';
+  id: number;
+  lat: number;
+  lon: number;
+  tags?: Record<string, string>;
+}
+
+interface Intersection {
+  coordinates: [number, number]; // [lng, lat]
+  roads: Set<string>;
+}
+
+export interface RoadContext {
+  ways: OsmWay[];
+  signals: Array<[number, number]>; // [lng, lat]
+  intersections: Intersection[];
+}
+
+export type AccessAnalysis = Pick<AccessPoint,
+  'accessType' | 'accessReason' | 'dividedRoad' | 'medianOpeningDistance' | 'nearestSignalDistance' | 'nearestIntersection'>;
+
+// Freeways and ramps never get driveways
+const CONTROLLED_ACCESS_TYPES = new Set(['motorway', 'motorway_link', 'trunk_link', 'primary_link', 'secondary_link', 'tertiary_link']);
+const ARTERIAL_TYPES = new Set(['trunk', 'primary', 'secondary']);
+
+// A median opening this close to the driveway serves left turns in and out
+const MEDIAN_OPENING_REACH_METERS = 75;
+// Driveways inside a signalized intersection's functional area are normally restricted to right turns
+const SIGNAL_FUNCTIONAL_AREA_METERS = 45;
+// Signals within this distance create gaps in through traffic for left turns
+const SIGNAL_GAP_METERS = 300;
+// Context extends past the parcel search radius so signals and median breaks down the road are seen
+const CONTEXT_MARGIN_METERS = 300;
+// A signal counts as on a road when it lies this close to one of the road's ways
+const ON_ROAD_TOLERANCE_METERS = 20;
+
+function roadName(way: OsmWay): string {
+  return way.tags?.name || way.tags?.ref || 'Unnamed Road';
+}
+
+function isOneway(way: OsmWay): boolean {
+  const oneway = way.tags?.oneway;
+  return oneway === 'yes' || oneway === '1' || oneway === '-1';
+}
+
+// Bearing of travel from the way's first node to its last, flipped for oneway=-1
+function travelBearing(way: OsmWay): number {
+  const first = way.geometry[0];
+  const last = way.geometry[way.geometry.length - 1];
+  const bearing = turf.bearing(turf.point([first.lon, first.lat]), turf.point([last.lon, last.lat]));
+  return way.tags?.oneway === '-1' ? bearing + 180 : bearing;
+}
+
+function wayLine(way: OsmWay) {
+  return turf.lineString(way.geometry.map(g => [g.lon, g.lat]));
+}
+
+/**
+ * Roads and traffic signals within the search radius plus a margin
+ */
+export async function fetchRoadContext(lat: number, lng: number, radiusMeters: number): Promise<RoadContext | null> {
+  const around = `around:${Math.round(radiusMeters + CONTEXT_MARGIN_METERS)},${lat},${lng}`;
+  const query = `
+    [out:json][timeout:15];
+    (
+      way["highway"~"^(motorway|motorway_link|trunk|trunk_link|primary|primary_link|secondary|secondary_link|tertiary|tertiary_link|residential|unclassified|living_street|service)$"](${around});
+      node["highway"="traffic_signals"](${around});
+    );
+    out body geom;
+  `;
+
+  // The provider client fails over to the other Overpass mirrors
+  try {
+    const response = await providerFetch('https://overpass-api.de/api/interpreter', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: `data=${encodeURIComponent(query)}`,
+      timeoutMs: 12000,
+    });
+    if (!response.ok) {
+      console.log(`[AccessPoints] Road context: Overpass returned ${response.status}`);
+      return null;
+    }
+    const data = await response.json();
+    return buildRoadContext(data.elements || []);
+  } catch (err) {
+    console.log(`[AccessPoints] Road context: Overpass failed: ${err}`);
+    return null;
+  }
+}
+
+export function buildRoadContext(elements: Array<OsmWay | OsmNode>): RoadContext {
+  const ways = elements.filter((el): el is OsmWay => el.type === 'way' && el.geometry?.length >= 2);
+  const signals = elements
+    .filter((el): el is OsmNode => el.type === 'node')
+    .map(node => [node.lon, node.lat] as [number, number]);
+
+  // Nodes shared by two or more named public roads
+  const nodeRoads = new Map<number, Intersection>();
+  for (const way of ways) {
+    const name = roadName(way);
+    if (way.tags?.highway === 'service' || name === 'Unnamed Road') continue;
+    way.nodes.forEach((nodeId, i) => {
+      const geom = way.geometry[i];
+      if (!geom) return;
+      const entry = nodeRoads.get(nodeId) ?? { coordinates: [geom.lon, geom.lat], roads: new Set<string>() };
+      entry.roads.add(name);
+      nodeRoads.set(nodeId, entry);
+    });
+  }
+
+  return {
+    ways,
+    signals,
+    intersections: [...nodeRoads.values()].filter(i => i.roads.size >= 2),
+  };
+}
+
+// A named road's ways split by direction of travel; a divided road has one-way ways running both ways
+function carriageways(context: RoadContext, name: string) {
+  const ways = context.ways.filter(w => roadName(w) === name && w.tags?.highway !== 'service');
+  const oneway = ways.filter(isOneway);
+  const reference = oneway.length > 0 ? travelBearing(oneway[0]) : 0;
+
+  const forward: OsmWay[] = [];
+  const reverse: OsmWay[] = [];
+  for (const way of oneway) {
+    const sameDirection = Math.cos((travelBearing(way) - reference) * Math.PI / 180) >= 0;
+    (sameDirection ? forward : reverse).push(way);
+  }
+  return { ways, forward, reverse };
+}
+
+// Crossovers, cross streets and U-turn connectors: any other way joining both carriageways
+function medianOpenings(context: RoadContext, forward: OsmWay[], reverse: OsmWay[]): Array<[number, number]> {
+  const forwardNodes = new Set(forward.flatMap(w => w.nodes));
+  const reverseNodes = new Set(reverse.flatMap(w => w.nodes));
+  const carriagewayIds = new Set([...forward, ...reverse].map(w => w.id));
+
+  const openings: Array<[number, number]> = [];
+  for (const way of context.ways) {
+    if (carriagewayIds.has(way.id)) continue;
+    const a = way.geometry[way.nodes.findIndex(n => forwardNodes.has(n))];
+    const b = way.geometry[way.nodes.findIndex(n => reverseNodes.has(n))];
+    if (!a || !b) continue;
+    openings.push([(a.lon + b.lon) / 2, (a.lat + b.lat) / 2]);
+  }
+  return openings;
+}
+
+/**
+ * Classify the turning movements an access point allows from the surrounding road network
+ */
+export function classifyAccessPoint(accessPoint: AccessPoint, context: RoadContext): AccessAnalysis {
+  const [lat, lng] = accessPoint.coordinates;
+  const origin = turf.point([lng, lat]);
+  const metersTo = (coords: [number, number]) => Math.round(turf.distance(origin, turf.point(coords), { units: 'meters' }));
+  const nearest = (coords: Array<[number, number]>) => coords.length > 0 ? Math.min(...coords.map(metersTo)) : undefined;
+
+  const name = accessPoint.roadName;
+  const roadType = accessPoint.roadType || '';
+  const { ways, forward, reverse } = carriageways(context, name);
+  const lines = ways.map(wayLine);
+
+  const dividedRoad = (forward.length > 0 && reverse.length > 0) || ways.some(w => w.tags?.dual_carriageway === 'yes');
+  const medianOpeningDistance = dividedRoad ? nearest(medianOpenings(context, forward, reverse)) : undefined;
+  const nearestSignalDistance = nearest(context.signals.filter(signal =>
+    lines.some(line => turf.pointToLineDistance(turf.point(signal), line, { units: 'meters' }) <= ON_ROAD_TOLERANCE_METERS)
+  ));
+  const nearestIntersection = context.intersections
+    .filter(i => i.roads.has(name))
+    .map(i => ({ crossStreet: [...i.roads].filter(r => r !== name).join(' / '), distance: metersTo(i.coordinates) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+
+  let accessType: AccessType;
+  let accessReason: string;
+  if (CONTROLLED_ACCESS_TYPES.has(roadType) || ways.some(w => w.tags?.motorroad === 'yes')) {
+    accessType = 'limited';
+    accessReason = `${roadType.replace('_', ' ') || 'Road'} is controlled access - no direct driveway`;
+  } else if (dividedRoad) {
+    if (medianOpeningDistance !== undefined && medianOpeningDistance <= MEDIAN_OPENING_REACH_METERS) {
+      accessType = 'full';
+      accessReason = `Divided road with a median opening ${medianOpeningDistance} m away - left turns in and out`;
+    } else {
+      accessType = 'right-in-right-out';
+      accessReason = `Divided road with no median opening within ${MEDIAN_OPENING_REACH_METERS} m - left turns require a U-turn`;
+    }
+  } else if (ways.length > 0 && ways.every(isOneway)) {
+    accessType = 'limited';
+    accessReason = 'One-way road - access from one direction only';
+  } else if (ARTERIAL_TYPES.has(roadType) && nearestSignalDistance !== undefined && nearestSignalDistance < SIGNAL_FUNCTIONAL_AREA_METERS) {
+    accessType = 'right-in-right-out';
+    accessReason = `Signal ${nearestSignalDistance} m away - left turns are usually prohibited this close to the intersection`;
+  } else {
+    accessType = 'full';
+    accessReason = nearestSignalDistance !== undefined && nearestSignalDistance <= SIGNAL_GAP_METERS
+      ? `Undivided road - all turns allowed, signal ${nearestSignalDistance} m away creates gaps for left turns`
+      : 'Undivided road - all turning movements allowed';
+  }
+
+  return { accessType, accessReason, dividedRoad, medianOpeningDistance, nearestSignalDistance, nearestIntersection };
+}
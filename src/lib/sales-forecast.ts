@@ -0,0 +1,166 @@
+// Sales forecasting with a Huff gravity model: each block group's category trips are split across the
+// subject and every competing store in proportion to attractiveness / distance^lambda, and the
+// subject's captured trips are priced at the category's average ticket
+
+import { fetchIsochrones, isInTradeArea } from '@/lib/isochrone';
+import { fetchDemandPoints, MAX_RING_MILES } from '@/lib/radius-demographics';
+import { fetchPlaces } from '@/lib/places';
+import { distanceBetween } from '@/utils/geometry';
+import { REFERENCE_HOUSEHOLD_INCOME, SALES_FORECAST_CATEGORIES } from '@/data/salesForecastCategories';
+import type { DriveTimeArea, ForecastCompetitor, SalesForecast } from '@/types';
+
+export interface SalesForecastOptions {
+  category: string;
+  // Straight-line study area; defaults to the category's typical trade area
+  radiusMiles?: number;
+  // Drive-time study area; takes precedence over radiusMiles
+  driveMinutes?: number;
+  // Subject attractiveness relative to a typical competitor (1 = same draw)
+  subjectAttractiveness?: number;
+}
+
+export class SalesForecastError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SalesForecastError';
+  }
+}
+
+interface Store {
+  lat: number;
+  lng: number;
+  attractiveness: number;
+}
+
+// Floor on trip distance so a block group whose internal point sits next to a store doesn't
+// assign it every trip
+const MIN_TRIP_MILES = 0.25;
+// Stores just outside the study area still draw trips from households inside it
+const COMPETITOR_BUFFER_MILES = 1;
+const MAX_SUBJECT_ATTRACTIVENESS = 10;
+const INCOME_FACTOR_RANGE = [0.5, 2] as const;
+const MAX_LISTED_COMPETITORS = 10;
+
+// Probability that a household at `origin` patronizes each store
+export function huffProbabilities(origin: { lat: number; lng: number }, stores: Store[], distanceDecay: number): number[] {
+  const utilities = stores.map(store => {
+    const miles = Math.max(MIN_TRIP_MILES, distanceBetween(origin.lat, origin.lng, store.lat, store.lng));
+    return store.attractiveness / Math.pow(miles, distanceDecay);
+  });
+  const total = utilities.reduce((sum, u) => sum + u, 0);
+  return utilities.map(u => (total > 0 ? u / total : 0));
+}
+
+function incomeFactor(medianIncome: number, elasticity: number): number {
+  if (medianIncome <= 0 || elasticity === 0) return 1;
+  const [min, max] = INCOME_FACTOR_RANGE;
+  return Math.min(max, Math.max(min, Math.pow(medianIncome / REFERENCE_HOUSEHOLD_INCOME, elasticity)));
+}
+
+const roundShare = (share: number) => Math.round(share * 1000) / 10;
+
+export async function forecastSales(lat: number, lng: number, options: SalesForecastOptions): Promise<SalesForecast> {
+  const category = SALES_FORECAST_CATEGORIES[options.category];
+  if (!category) {
+    throw new SalesForecastError(`Unknown forecast category: ${options.category}`);
+  }
+
+  const subjectAttractiveness = options.subjectAttractiveness ?? 1;
+  if (!(subjectAttractiveness > 0 && subjectAttractiveness <= MAX_SUBJECT_ATTRACTIVENESS)) {
+    throw new SalesForecastError(`Subject attractiveness must be between 0 and ${MAX_SUBJECT_ATTRACTIVENESS}`);
+  }
+
+  // Study area: a drive-time polygon or a straight-line ring
+  let driveTimeArea: DriveTimeArea | null = null;
+  let radiusMiles: number | undefined;
+  if (options.driveMinutes) {
+    driveTimeArea = (await fetchIsochrones(lat, lng, [options.driveMinutes])).areas[0];
+  } else {
+    radiusMiles = options.radiusMiles ?? category.tradeAreaMiles;
+    if (!(radiusMiles > 0 && radiusMiles <= MAX_RING_MILES)) {
+      throw new SalesForecastError(`Radius must be between 0 and ${MAX_RING_MILES} miles`);
+    }
+  }
+  const reachMiles = driveTimeArea ? driveTimeArea.maxReachMiles : radiusMiles!;
+  const inStudyArea = (point: { lat: number; lng: number; distanceMiles: number }) =>
+    driveTimeArea ? isInTradeArea(driveTimeArea, point.lat, point.lng) : point.distanceMiles <= reachMiles;
+
+  const searchDeg = (reachMiles + COMPETITOR_BUFFER_MILES) / 69;
+  const lngDeg = searchDeg / Math.cos(lat * Math.PI / 180);
+  const [demand, places] = await Promise.all([
+    fetchDemandPoints(lat, lng, reachMiles),
+    fetchPlaces([lat - searchDeg, lng - lngDeg, lat + searchDeg, lng + lngDeg], category.competitorCategories),
+  ]);
+  if (!demand) {
+    throw new Error('No Census demand data available for the study area');
+  }
+
+  const origins = demand.points.filter(inStudyArea);
+  if (origins.length === 0) {
+    throw new SalesForecastError('No populated block groups fall inside the study area');
+  }
+
+  // OSM has no store size or sales volume, so every competitor gets the same baseline draw
+  const competitors = places
+    .filter(place => category.competitorCategories.includes(place.category))
+    .map(place => ({ ...place, attractiveness: 1, distanceMiles: distanceBetween(lat, lng, place.lat, place.lng), annualVisits: 0 }));
+  const stores: Store[] = [{ lat, lng, attractiveness: subjectAttractiveness }, ...competitors];
+
+  let totalVisits = 0;
+  let subjectVisits = 0;
+  for (const origin of origins) {
+    const trips = origin.households * category.annualVisitsPerHousehold *
+      incomeFactor(origin.medianIncome, category.incomeElasticity);
+    const probabilities = huffProbabilities(origin, stores, category.distanceDecay);
+    totalVisits += trips;
+    subjectVisits += trips * probabilities[0];
+    competitors.forEach((competitor, i) => { competitor.annualVisits += trips * probabilities[i + 1]; });
+  }
+
+  const shareOf = (visits: number) => (totalVisits > 0 ? roundShare(visits / totalVisits) : 0);
+  const listed: ForecastCompetitor[] = [...competitors]
+    .sort((a, b) => b.annualVisits - a.annualVisits)
+    .slice(0, MAX_LISTED_COMPETITORS)
+    .map(c => ({
+      name: c.name,
+      type: c.type,
+      distanceMiles: Math.round(c.distanceMiles * 100) / 100,
+      annualVisits: Math.round(c.annualVisits),
+      marketShare: shareOf(c.annualVisits),
+    }));
+
+  console.log(`[SalesForecast] ${options.category}: ${origins.length} ${demand.geography}s, ${competitors.length} competitors`);
+
+  return {
+    category: options.category,
+    categoryLabel: category.label,
+    annualVisits: Math.round(subjectVisits),
+    annualRevenue: Math.round(subjectVisits * category.averageTicket),
+    marketShare: shareOf(subjectVisits),
+    tradeArea: {
+      mode: driveTimeArea ? 'drive-time' : 'radius',
+      ...(driveTimeArea ? { driveMinutes: driveTimeArea.minutes } : { radiusMiles }),
+      population: origins.reduce((sum, o) => sum + o.population, 0),
+      households: origins.reduce((sum, o) => sum + o.households, 0),
+      geographyCount: origins.length,
+      totalAnnualVisits: Math.round(totalVisits),
+      totalAnnualSpend: Math.round(totalVisits * category.averageTicket),
+    },
+    competitors: listed,
+    competitorCount: competitors.length,
+    parameters: {
+      distanceDecay: category.distanceDecay,
+      subjectAttractiveness,
+      annualVisitsPerHousehold: category.annualVisitsPerHousehold,
+      averageTicket: category.averageTicket,
+      incomeElasticity: category.incomeElasticity,
+    },
+    demandGeography: demand.geography,
+    vintage: demand.vintage,
+    notes: [
+      'Distances are straight-line from each block group internal point.',
+      'Competitors are weighted equally; OpenStreetMap has no store size or sales volume.',
+      'Only resident household demand is modeled; pass-by traffic and workers are excluded.',
+    ],
+  };
+}
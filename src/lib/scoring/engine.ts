@@ -0,0 +1,642 @@
+// Feasibility scoring engine: evaluates each factor against a scoring model's tables and combines
+// them with the model's weights. Shared by the client's live score, /api/analyze and batch screening,
+// so it takes whatever subset of site data the caller has and scores missing factors as neutral
+
+import type {
+  AccessPoint,
+  FactorTrace,
+  FeasibilityRating,
+  FeasibilityScore,
+  LocationIntelligence,
+  ScoreBreakpoint,
+  ScoreFactor,
+  ScorePattern,
+  ScoreTraceInputs,
+  ScoreTraceStep,
+  ScoringModel,
+  TrafficGrowth,
+} from '@/types';
+
+export interface ScoringInputs {
+  traffic?: { estimatedVPD: number; roadType: string; vpdSource?: string; growth?: TrafficGrowth | null } | null;
+  accessPoints?: AccessPoint[];
+  demographics?: {
+    medianHouseholdIncome?: number;
+    employmentRate?: number;
+    population?: number;
+    isCollegeTown?: boolean;
+    collegeEnrollmentPercent?: number;
+    growthTrend?: number;
+    educationLevels?: Array<{ level: string; percent: number }>;
+    ageDistribution?: Array<{ age: string; percent: number }>;
+    consumerSpending?: number;
+    incomeDistribution?: Array<{ range: string; percent: number }>;
+    provenance?: Array<{ label: string }>;
+  } | null;
+  businesses?: Array<{ name: string; type?: string; category?: string }> | null;
+  // When only a count of nearby businesses is known (batch screening)
+  businessCount?: number;
+  environmentalRisk?: {
+    floodZone: { risk: string };
+    wetlands: { present: boolean };
+    brownfields: { present: boolean; count?: number };
+    superfund: { present: boolean; count?: number };
+    overallRiskScore: number;
+    provenance?: Array<{ label: string }>;
+  } | null;
+  marketComps?: Array<{ pricePerSqft: number; verification?: 'verified' | 'estimated' }> | null;
+  locationIntelligence?: Partial<Pick<LocationIntelligence, 'highwayAccess' | 'daytimePopulation' | 'opportunityZone'>> | null;
+  parcel?: { acres?: number; sqft?: number; zoning?: string } | null;
+}
+
+interface FactorResult {
+  score: number;
+  detail: string;
+  source: string | null;
+  inputs: ScoreTraceInputs;
+  steps: ScoreTraceStep[];
+}
+
+// A factor's running score plus the rules that moved it
+interface Trace {
+  score: number;
+  steps: ScoreTraceStep[];
+}
+
+const FACTORS: ScoreFactor[] = ['traffic', 'demographics', 'competition', 'access', 'environmental', 'market', 'economic', 'site'];
+
+// First breakpoint the value reaches; tables are highest first
+export function lookupBreakpoint(table: ScoreBreakpoint[], value: number): ScoreBreakpoint | null {
+  return table.find(b => value >= b.min) ?? null;
+}
+
+function matchPattern(table: ScorePattern[], value: string): ScorePattern | null {
+  const upper = value.toUpperCase();
+  return table.find(p => p.patterns.some(pattern => upper.includes(pattern.toUpperCase()))) ?? null;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const dollars = (value: number) => `$${value.toLocaleString()}`;
+const percent = (value: number) => `${value}%`;
+
+// e.g. 'VPD 20,000+ (Very high traffic)'
+function bandRule(measure: string, band: ScoreBreakpoint, format: (value: number) => string = v => v.toLocaleString()): string {
+  return `${measure} ${format(band.min)}+${band.label ? ` (${band.label})` : ''}`;
+}
+
+// Data source named by the fetched data's provenance, else a generic description
+function sourceFrom(provenance: Array<{ label: string }> | undefined, fallback: string): string {
+  return provenance?.length ? [...new Set(provenance.map(p => p.label))].join(', ') : fallback;
+}
+
+function startTrace(score: number, rule: string): Trace {
+  return { score, steps: [{ rule, kind: 'base', points: score }] };
+}
+
+// Adds points within [floor, 10]; the step records the points that actually applied
+function adjust(trace: Trace, points: number, rule: string, floor = 0): void {
+  const next = Math.min(10, Math.max(floor, trace.score + points));
+  const applied = round1(next - trace.score);
+  trace.steps.push({ rule: applied === round1(points) ? rule : `${rule} (capped)`, kind: 'adjust', points: applied });
+  trace.score = next;
+}
+
+function adjustBonus(trace: Trace, table: ScoreBreakpoint[], value: number, measure: string, format?: (value: number) => string): void {
+  const band = lookupBreakpoint(table, value);
+  if (band && band.score !== 0) adjust(trace, band.score, bandRule(measure, band, format));
+}
+
+// Primary road VPD from access points (best count per road), else the traffic lookup
+function primaryTraffic(inputs: ScoringInputs) {
+  let primaryVpd = 0;
+  let totalVpd = 0;
+  let source = 'estimated';
+  let agency: string | undefined;
+  let roadName = '';
+
+  const roads = new Map<string, { vpd: number; source: string; agency?: string }>();
+  for (const ap of inputs.accessPoints || []) {
+    const existing = roads.get(ap.roadName);
+    const vpd = ap.vpd || ap.estimatedVpd || 0;
+    if (!existing || vpd > existing.vpd) {
+      roads.set(ap.roadName, { vpd, source: ap.vpdSource || 'estimated', agency: ap.vpdAgency });
+    }
+  }
+  for (const [name, road] of roads) {
+    totalVpd += road.vpd;
+    if (road.vpd > primaryVpd) {
+      primaryVpd = road.vpd;
+      roadName = name;
+      source = road.source;
+      agency = road.agency;
+    }
+  }
+
+  const fromAccessPoints = primaryVpd > 0;
+  if (!fromAccessPoints && inputs.traffic && inputs.traffic.estimatedVPD != null) {
+    primaryVpd = inputs.traffic.estimatedVPD;
+    totalVpd = inputs.traffic.estimatedVPD;
+    roadName = inputs.traffic.roadType || 'Unknown';
+  }
+  return { primaryVpd, totalVpd, source, agency, roadName, fromAccessPoints };
+}
+
+function scoreTraffic(model: ScoringModel, inputs: ScoringInputs, traffic: ReturnType<typeof primaryTraffic>): FactorResult | null {
+  const { primaryVpd, source, agency, roadName } = traffic;
+  if (primaryVpd <= 0) return null;
+  const params = model.factors.traffic;
+
+  const band = lookupBreakpoint(params.vpd, primaryVpd);
+  const trace = band
+    ? startTrace(band.score, bandRule('VPD', band))
+    : startTrace(model.neutralScore, 'VPD below every band (neutral)');
+  const sourceLabel = source === 'official' ? ` (${agency || 'DOT'} official)` : ' (estimated)';
+  let detail = `${band?.label ?? 'Traffic'}: ${primaryVpd.toLocaleString()} VPD${sourceLabel}${band?.note ? ` - ${band.note}` : ''}`;
+  if (roadName) detail += ` (${roadName})`;
+
+  // Growth corridors earn points (and shrinking ones lose them): today's VPD understates a road
+  // that's been adding 2%+ a year
+  const growth = inputs.traffic?.growth;
+  const growthRate = `${(params.growthCagr * 100).toFixed(0)}%+/yr`;
+  if (growth && growth.cagr >= params.growthCagr) {
+    adjust(trace, params.growthPoints, `Growing ${growthRate}`);
+    detail += `; growing ${(growth.cagr * 100).toFixed(1)}%/yr, ~${growth.projectedVpd.toLocaleString()} VPD by ${growth.projectionYear}`;
+  } else if (growth && growth.cagr <= -params.growthCagr) {
+    adjust(trace, -params.growthPoints, `Declining ${growthRate}`, 1);
+    detail += `; declining ${(Math.abs(growth.cagr) * 100).toFixed(1)}%/yr`;
+  }
+
+  return {
+    score: trace.score,
+    detail,
+    source: source === 'official'
+      ? `${agency || 'DOT'} official count`
+      : traffic.fromAccessPoints ? 'Estimated from road classification' : inputs.traffic?.vpdSource || 'Traffic estimate',
+    inputs: {
+      primaryVpd,
+      road: roadName || null,
+      totalVpd: traffic.totalVpd,
+      growthPercentPerYear: growth ? Math.round(growth.cagr * 1000) / 10 : null,
+    },
+    steps: trace.steps,
+  };
+}
+
+function scoreAccess(model: ScoringModel, inputs: ScoringInputs, traffic: ReturnType<typeof primaryTraffic>): FactorResult | null {
+  const params = model.factors.access;
+  const accessPoints = inputs.accessPoints || [];
+  const highway = inputs.locationIntelligence?.highwayAccess;
+  if (accessPoints.length === 0 && !inputs.traffic && !highway) return null;
+
+  const traceInputs: ScoreTraceInputs = {};
+  const sources: string[] = [];
+  let trace: Trace;
+  let detail: string;
+
+  if (accessPoints.length > 0) {
+    const uniqueRoads = new Set(accessPoints.map(ap => ap.roadName)).size;
+    const band = lookupBreakpoint(params.roadCount, uniqueRoads);
+    trace = band
+      ? startTrace(band.score, bandRule('Roads with access', band))
+      : startTrace(model.neutralScore, 'Road count below every band (neutral)');
+    sources.push('Parcel access points');
+    traceInputs.accessPoints = accessPoints.length;
+    traceInputs.roads = uniqueRoads;
+    detail = uniqueRoads >= 3
+      ? `${band?.label}: ${uniqueRoads} roads provide multiple entry points`
+      : uniqueRoads === 2
+        ? `${band?.label}: ${uniqueRoads} roads - corner lot or dual access`
+        : `Single road access from ${traffic.roadName || 'nearby road'}`;
+
+    const majorRoad = accessPoints.find(ap => ap.roadType && params.majorRoadTypes.includes(ap.roadType));
+    if (majorRoad) {
+      adjust(trace, params.majorRoadBonus, `Major road frontage (${majorRoad.roadType})`);
+      detail += ' + major road frontage';
+    }
+
+    // Turning movements - without a full-access driveway, traffic from one direction can't turn in
+    const classified = accessPoints.filter(ap => ap.accessType);
+    if (classified.length > 0) {
+      const fullAccess = classified.filter(ap => ap.accessType === 'full');
+      traceInputs.fullAccessPoints = fullAccess.length;
+      if (fullAccess.length === 0) {
+        const hasRightInRightOut = classified.some(ap => ap.accessType === 'right-in-right-out');
+        if (hasRightInRightOut) {
+          adjust(trace, -params.rightInRightOutPenalty, 'Right-in/right-out only');
+        } else {
+          adjust(trace, -params.noFullAccessPenalty, 'No full-access driveway');
+        }
+        detail += hasRightInRightOut ? ' - right-in/right-out only (no left turns)' : ' - limited access only';
+      } else if (fullAccess.some(ap => ap.nearestSignalDistance !== undefined && ap.nearestSignalDistance <= params.signalDistanceMeters)) {
+        adjust(trace, params.signalBonus, `Signal within ${params.signalDistanceMeters}m of full access`);
+        detail += ' + signalized full access';
+      } else if (fullAccess.some(ap => ap.dividedRoad)) {
+        detail += ' + median opening for left turns';
+      }
+    }
+
+    if (traffic.totalVpd > traffic.primaryVpd) {
+      detail += ` (${traffic.totalVpd.toLocaleString()} total VPD exposure)`;
+    }
+  } else if (inputs.traffic) {
+    const roadType = inputs.traffic.roadType || 'Unknown';
+    const match = matchPattern(params.roadClass, roadType);
+    trace = match
+      ? startTrace(match.score, `Road class ${roadType}${match.label ? ` (${match.label})` : ''}`)
+      : startTrace(model.neutralScore, `Unrecognized road class ${roadType} (neutral)`);
+    sources.push('Road classification');
+    traceInputs.roadType = roadType;
+    detail = match?.label ? `${roadType} - ${match.label}` : roadType;
+  } else {
+    trace = startTrace(model.neutralScore, 'No access points or road class (neutral)');
+    detail = 'Unable to assess access';
+  }
+
+  if (highway) {
+    sources.push('Highway proximity');
+    traceInputs.highway = highway.nearestHighway;
+    traceInputs.highwayMiles = round1(highway.distanceMiles);
+    if (highway.hasDirectAccess || highway.distanceMiles <= params.highwayDirectMiles) {
+      adjust(trace, params.highwayDirectBonus, `Direct highway access (within ${params.highwayDirectMiles} mi)`);
+      detail += ` + Direct ${highway.nearestHighway} access`;
+    } else if (highway.distanceMiles <= params.highwayNearMiles) {
+      adjust(trace, params.highwayNearBonus, `Highway within ${params.highwayNearMiles} mi`);
+      detail += ` + ${highway.nearestHighway} ${highway.distanceMiles.toFixed(1)} mi`;
+    }
+  }
+
+  return { score: trace.score, detail, source: sources.join(', '), inputs: traceInputs, steps: trace.steps };
+}
+
+function scoreDemographics(model: ScoringModel, inputs: ScoringInputs): FactorResult | null {
+  const data = inputs.demographics;
+  if (!data) return null;
+  const params = model.factors.demographics;
+
+  const income = data.medianHouseholdIncome ?? 0;
+  const employment = data.employmentRate || 0;
+  const population = data.population ?? 0;
+  const isCollegeTown = data.isCollegeTown || false;
+  const collegePercent = data.collegeEnrollmentPercent || 0;
+  const growthTrend = data.growthTrend || 0;
+
+  const bachelorsPlus = (data.educationLevels || [])
+    .filter(e => e.level.includes('Bachelor') || e.level.includes('Graduate'))
+    .reduce((sum, e) => sum + e.percent, 0);
+  const workingAge = (data.ageDistribution || [])
+    .filter(a => {
+      const age = a.age.toLowerCase();
+      return age.includes('25-') || age.includes('35-') || age.includes('45-') || age.includes('55-');
+    })
+    .reduce((sum, a) => sum + a.percent, 0);
+
+  // College towns: student spending power exceeds census income data
+  const incomeBand = isCollegeTown
+    ? lookupBreakpoint(params.collegeTown, collegePercent)
+    : lookupBreakpoint(params.income, income);
+  const trace = incomeBand
+    ? startTrace(incomeBand.score, isCollegeTown ? bandRule('College enrollment', incomeBand, percent) : bandRule('Median income', incomeBand, dollars))
+    : startTrace(0, isCollegeTown ? 'College enrollment below every band' : 'Median income below every band');
+
+  if (isCollegeTown) {
+    adjust(trace, params.collegeTownEmploymentBonus, 'College town employment');
+  } else {
+    adjustBonus(trace, params.employmentBonus, employment, 'Employment', percent);
+  }
+  adjustBonus(trace, params.populationBonus, population, 'Population');
+  adjustBonus(trace, params.educationBonus, bachelorsPlus, "Bachelor's or higher", percent);
+  adjustBonus(trace, params.growthBonus, growthTrend, 'Population growth', percent);
+  adjustBonus(trace, params.workingAgeBonus, workingAge, 'Aged 25-64', percent);
+
+  let detail: string;
+  if (isCollegeTown) {
+    detail = `College Town (${collegePercent}% students) - Strong spending power, $${income.toLocaleString()} median, ${population.toLocaleString()} pop`;
+  } else {
+    detail = `$${income.toLocaleString()} median income, ${population.toLocaleString()} pop, ${employment}% employed`;
+    if (bachelorsPlus > 0) detail += `, ${bachelorsPlus}% college educated`;
+    if (growthTrend > 0) detail += `, ${growthTrend}% growth`;
+  }
+
+  return {
+    score: round1(trace.score),
+    detail,
+    source: sourceFrom(data.provenance, 'Census demographics'),
+    inputs: {
+      medianIncome: income,
+      population,
+      employmentPercent: employment,
+      collegeTown: isCollegeTown,
+      collegeEnrollmentPercent: isCollegeTown ? collegePercent : null,
+      bachelorsPlusPercent: round1(bachelorsPlus),
+      growthTrendPercent: growthTrend,
+      workingAgePercent: round1(workingAge),
+    },
+    steps: trace.steps,
+  };
+}
+
+function scoreEconomic(model: ScoringModel, inputs: ScoringInputs): FactorResult | null {
+  const data = inputs.demographics;
+  if (!data || data.consumerSpending === undefined) return null;
+  const params = model.factors.economic;
+
+  const consumerSpending = data.consumerSpending || 0;
+  const spendingBand = lookupBreakpoint(params.consumerSpending, consumerSpending);
+  const trace = spendingBand
+    ? startTrace(spendingBand.score, bandRule('Consumer spending', spendingBand, dollars))
+    : startTrace(model.neutralScore, 'Consumer spending below every band (neutral)');
+  const highIncomePercent = (data.incomeDistribution || [])
+    .filter(i => i.range.includes('$100K') || i.range.includes('$150K') || i.range.includes('$200K'))
+    .reduce((sum, i) => sum + i.percent, 0);
+  adjustBonus(trace, params.highIncomeBonus, highIncomePercent, 'Households earning $100K+', percent);
+
+  const spendingFormatted = consumerSpending >= 1_000_000_000
+    ? `$${(consumerSpending / 1_000_000_000).toFixed(1)}B`
+    : consumerSpending >= 1_000_000
+      ? `$${(consumerSpending / 1_000_000).toFixed(1)}M`
+      : `$${consumerSpending.toLocaleString()}`;
+  let detail = `${spendingFormatted} consumer spending (3-mi)`;
+  if (highIncomePercent > 0) detail += `, ${highIncomePercent}% high-income households`;
+
+  return {
+    score: round1(trace.score),
+    detail,
+    source: sourceFrom(data.provenance, 'Census demographics'),
+    inputs: { consumerSpending, highIncomePercent: round1(highIncomePercent) },
+    steps: trace.steps,
+  };
+}
+
+// Lot size alone on the model's 0-10 scale; null when the size is unknown
+export function scoreLotSize(model: ScoringModel, acres: number | undefined): { score: number; label: string } | null {
+  if (!acres) return null;
+  const range = model.factors.site.lotAcres.find(r => acres >= r.min && acres < r.max);
+  return range ? { score: range.score, label: range.label } : null;
+}
+
+// Zoning alone on the model's 0-10 scale; unrecognized codes score neutral
+export function scoreZoning(model: ScoringModel, zoning: string | undefined): { score: number; label: string | null } | null {
+  if (!zoning) return null;
+  const match = matchPattern(model.factors.site.zoning, zoning);
+  return match ? { score: match.score, label: match.label ?? null } : { score: model.neutralScore, label: null };
+}
+
+function scoreSite(model: ScoringModel, inputs: ScoringInputs): FactorResult | null {
+  const { parcel, locationIntelligence } = inputs;
+  if (!parcel && !locationIntelligence) return null;
+  const params = model.factors.site;
+  const details: string[] = [];
+
+  const acres = parcel?.acres || (parcel?.sqft ? parcel.sqft / 43560 : undefined);
+  const lot = scoreLotSize(model, acres);
+  if (lot && acres) {
+    details.push(parcel?.acres ? `${acres.toFixed(2)} acres (${lot.label})` : `${parcel!.sqft!.toLocaleString()} sqft (${lot.label})`);
+  }
+
+  const zoning = scoreZoning(model, parcel?.zoning);
+  if (zoning) details.push(zoning.label ? `${parcel!.zoning} (${zoning.label})` : parcel!.zoning!);
+
+  const dayPop = locationIntelligence?.daytimePopulation;
+  const daytime = dayPop ? params.daytime[dayPop.populationType] : null;
+  if (dayPop) {
+    details.push(dayPop.populationType === 'commercial'
+      ? `Commercial area (${dayPop.workerToResidentRatio.toFixed(1)}x workers)`
+      : dayPop.populationType === 'mixed' ? 'Mixed use area' : 'Residential area');
+  }
+
+  // Weighted blend of the components that are known
+  const components = [
+    { name: `Lot (${lot?.label})`, score: lot?.score, weight: params.componentWeights.lot },
+    { name: `Zoning (${zoning?.label ?? 'unrecognized'})`, score: zoning?.score, weight: params.componentWeights.zoning },
+    { name: `Daytime population (${dayPop?.populationType})`, score: daytime ?? undefined, weight: params.componentWeights.daytime },
+  ].filter((c): c is { name: string; score: number; weight: number } => c.score !== undefined);
+  const totalWeight = components.reduce((sum, c) => sum + c.weight, 0);
+  const trace = totalWeight > 0
+    ? startTrace(
+      round1(components.reduce((sum, c) => sum + c.score * c.weight, 0) / totalWeight),
+      components.map(c => `${c.name} ${c.score} x ${Math.round((c.weight / totalWeight) * 100)}%`).join(' + ')
+    )
+    : startTrace(model.neutralScore, 'No lot size, zoning or daytime population (neutral)');
+
+  if (locationIntelligence?.opportunityZone?.isInZone) {
+    details.push('Opportunity Zone');
+    adjust(trace, params.opportunityZoneBonus, 'Opportunity Zone');
+  }
+
+  return {
+    score: trace.score,
+    detail: details.length > 0 ? details.join(', ') : 'Limited site data',
+    source: [parcel && 'Parcel record', locationIntelligence && 'Location intelligence'].filter(Boolean).join(', '),
+    inputs: {
+      acres: acres ? Math.round(acres * 100) / 100 : null,
+      zoning: parcel?.zoning ?? null,
+      daytimePopulation: dayPop?.populationType ?? null,
+      opportunityZone: locationIntelligence?.opportunityZone?.isInZone ?? false,
+    },
+    steps: trace.steps,
+  };
+}
+
+function scoreCompetition(model: ScoringModel, inputs: ScoringInputs): FactorResult | null {
+  const businesses = inputs.businesses || [];
+  const count = businesses.length > 0 ? businesses.length : (inputs.businessCount ?? 0);
+  if (count === 0) return null;
+  const params = model.factors.competition;
+
+  // Type mix is only known with the business list
+  const uniqueTypes = businesses.length > 0
+    ? new Set(businesses.map(b => b.category || b.type || 'Other')).size
+    : null;
+  const band = params.bands.find(b =>
+    count >= b.minCount && count <= b.maxCount && (b.minTypes === undefined || (uniqueTypes !== null && uniqueTypes >= b.minTypes))
+  );
+
+  const trace = band
+    ? startTrace(band.score, `${band.label}: ${band.minCount}${Number.isFinite(band.maxCount) ? `-${band.maxCount}` : '+'} businesses${band.minTypes !== undefined ? `, ${band.minTypes}+ categories` : ''}`)
+    : startTrace(model.neutralScore, 'No business count band fits (neutral)');
+  let detail = `${band?.label ?? 'Business activity'}: ${count} businesses nearby`;
+  if (uniqueTypes !== null && band?.minTypes !== undefined) detail = `${band.label}: ${count} businesses, ${uniqueTypes} categories`;
+
+  const anchor = businesses.find(b =>
+    (b.category && params.anchorCategories.includes(b.category)) ||
+    params.anchorNames.some(name => b.name.toLowerCase().includes(name))
+  );
+  if (anchor) {
+    adjust(trace, params.anchorBonus, `Anchor tenant (${anchor.name})`);
+    detail += ' + anchor tenant present';
+  }
+
+  return {
+    score: trace.score,
+    detail,
+    source: businesses.length > 0 ? 'Nearby business search' : 'Nearby business count',
+    inputs: { businesses: count, categories: uniqueTypes, anchor: anchor?.name ?? null },
+    steps: trace.steps,
+  };
+}
+
+function scoreEnvironmental(model: ScoringModel, inputs: ScoringInputs): FactorResult | null {
+  const risk = inputs.environmentalRisk;
+  if (!risk) return null;
+  const params = model.factors.environmental;
+
+  // overallRiskScore is 0-100, higher is better (less risk)
+  const trace = startTrace(Math.round(risk.overallRiskScore / 10), `Risk score ${risk.overallRiskScore}/100`);
+  const factors: string[] = [];
+
+  if (risk.floodZone.risk === 'high') {
+    factors.push('High flood risk');
+    adjust(trace, -params.highFloodPenalty, 'High flood risk');
+  } else if (risk.floodZone.risk === 'medium' || risk.floodZone.risk === 'moderate') {
+    factors.push('Moderate flood risk');
+    adjust(trace, -params.moderateFloodPenalty, 'Moderate flood risk');
+  }
+  if (risk.wetlands.present) {
+    factors.push('Wetlands present');
+    adjust(trace, -params.wetlandsPenalty, 'Wetlands present');
+  }
+  if (risk.brownfields.present) {
+    factors.push(`${risk.brownfields.count || 1} brownfield site(s) nearby`);
+    adjust(trace, -params.brownfieldsPenalty, 'Brownfield site nearby');
+  }
+  if (risk.superfund.present) {
+    factors.push(`${risk.superfund.count || 1} Superfund site(s) nearby`);
+    adjust(trace, -params.superfundPenalty, 'Superfund site nearby');
+  }
+
+  return {
+    score: trace.score,
+    detail: factors.length === 0
+      ? `Low environmental risk (${risk.overallRiskScore}/100) - Clear for development`
+      : `Environmental concerns: ${factors.join(', ')} (Risk: ${risk.overallRiskScore}/100)`,
+    source: sourceFrom(risk.provenance, 'Environmental screening'),
+    inputs: {
+      riskScore: risk.overallRiskScore,
+      floodRisk: risk.floodZone.risk,
+      wetlands: risk.wetlands.present,
+      brownfields: risk.brownfields.present ? risk.brownfields.count || 1 : 0,
+      superfundSites: risk.superfund.present ? risk.superfund.count || 1 : 0,
+    },
+    steps: trace.steps,
+  };
+}
+
+function scoreMarket(model: ScoringModel, inputs: ScoringInputs): FactorResult | null {
+  const comps = inputs.marketComps;
+  if (!comps || comps.length === 0) return null;
+  const params = model.factors.market;
+
+  // Only recorded sales count as market activity; regional estimates just indicate price level
+  const verified = comps.filter(c => c.verification === 'verified');
+  const priced = verified.length > 0 ? verified : comps;
+  const avgPricePerSqft = priced.reduce((sum, c) => sum + c.pricePerSqft, 0) / priced.length;
+
+  const band = lookupBreakpoint(params.verifiedSales, verified.length);
+  const trace = band
+    ? startTrace(band.score, bandRule('Recorded sales', band))
+    : startTrace(model.neutralScore, 'Recorded sales below every band (neutral)');
+  let detail = verified.length > 0
+    ? `${band?.label ?? 'Market'}: ${verified.length} recent sales, avg $${Math.round(avgPricePerSqft)}/sqft`
+    : `No recorded sales: regional pricing estimate avg $${Math.round(avgPricePerSqft)}/sqft`;
+
+  const premium = lookupBreakpoint(params.pricePerSqftBonus, avgPricePerSqft);
+  if (premium) {
+    adjust(trace, premium.score, bandRule('Price per sqft', premium, dollars));
+    if (premium.label) detail += ` - ${premium.label}`;
+  }
+
+  return {
+    score: trace.score,
+    detail,
+    source: verified.length > 0 ? 'Recorded sales' : 'Regional pricing estimates',
+    inputs: { comps: comps.length, recordedSales: verified.length, avgPricePerSqft: Math.round(avgPricePerSqft) },
+    steps: trace.steps,
+  };
+}
+
+const NO_DATA_DETAILS: Record<ScoreFactor, string> = {
+  traffic: 'No traffic data available',
+  demographics: 'No demographics data available',
+  competition: 'No nearby business data',
+  access: 'Unable to assess access',
+  environmental: 'No environmental data available',
+  market: 'No market comp data available',
+  economic: 'No economic data available',
+  site: 'No site data available',
+};
+
+function ratingFor(model: ScoringModel, overall: number): FeasibilityRating {
+  return model.ratings.find(r => overall >= r.min)?.rating ?? 'Poor';
+}
+
+/**
+ * Score a site with a resolved model (see resolveScoringModel). Factors without data score the
+ * model's neutral score, so partial inputs still give a comparable overall. The audit trail
+ * records each factor's inputs, data source and the rules that fired.
+ */
+export function evaluateFeasibility(model: ScoringModel, inputs: ScoringInputs, tenantCategory?: string): FeasibilityScore {
+  const traffic = primaryTraffic(inputs);
+  const results: Record<ScoreFactor, FactorResult | null> = {
+    traffic: scoreTraffic(model, inputs, traffic),
+    demographics: scoreDemographics(model, inputs),
+    competition: scoreCompetition(model, inputs),
+    access: scoreAccess(model, inputs, traffic),
+    environmental: scoreEnvironmental(model, inputs),
+    market: scoreMarket(model, inputs),
+    economic: scoreEconomic(model, inputs),
+    site: scoreSite(model, inputs),
+  };
+
+  const scores = {} as Record<ScoreFactor, number>;
+  const details = {} as Record<ScoreFactor, string>;
+  for (const factor of FACTORS) {
+    scores[factor] = round1(results[factor]?.score ?? model.neutralScore);
+    details[factor] = results[factor]?.detail ?? NO_DATA_DETAILS[factor];
+  }
+
+  const totalWeight = FACTORS.reduce((sum, f) => sum + (model.weights[f] ?? 0), 0);
+  const overall = round1(FACTORS.reduce((sum, f) => sum + scores[f] * (model.weights[f] ?? 0), 0) / totalWeight);
+
+  const audit: FactorTrace[] = FACTORS.map(factor => {
+    const result = results[factor];
+    const weight = (model.weights[factor] ?? 0) / totalWeight;
+    return {
+      factor,
+      score: scores[factor],
+      weight: Math.round(weight * 1000) / 1000,
+      contribution: Math.round(scores[factor] * weight * 100) / 100,
+      neutral: !result,
+      source: result?.source || null,
+      inputs: result?.inputs ?? {},
+      steps: result?.steps ?? [{ rule: `${NO_DATA_DETAILS[factor]}: neutral score`, kind: 'base', points: model.neutralScore }],
+    };
+  });
+
+  return {
+    overall,
+    breakdown: {
+      trafficScore: scores.traffic,
+      demographicsScore: scores.demographics,
+      competitionScore: scores.competition,
+      accessScore: scores.access,
+      environmentalScore: scores.environmental,
+      marketScore: scores.market,
+      economicScore: scores.economic,
+      siteScore: scores.site,
+    },
+    details: {
+      traffic: details.traffic,
+      demographics: details.demographics,
+      competition: details.competition,
+      access: details.access,
+      environmental: details.environmental,
+      market: details.market,
+      economic: details.economic,
+      site: details.site,
+    },
+    rating: ratingFor(model, overall),
+    modelVersion: model.version,
+    ...(tenantCategory ? { tenantCategory } : {}),
+    audit,
+  };
+}
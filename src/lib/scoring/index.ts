@@ -0,0 +1,77 @@
+// Versioned feasibility scoring: published models plus the engine that applies them. Safe to import
+// from client components (no server-only dependencies)
+
+import type { FeasibilityScore, ScoreSensitivity, ScoringFactorParams, ScoringModel, ScoringModelInfo, SiteInputs } from '@/types';
+import { evaluateFeasibility } from './engine';
+import type { ScoringInputs } from './engine';
+import { CURRENT_SCORING_MODEL_VERSION, SCORING_MODELS } from './models';
+import { evaluateSensitivity } from './scenario';
+
+export { evaluateFeasibility, lookupBreakpoint, scoreLotSize, scoreZoning } from './engine';
+export type { ScoringInputs } from './engine';
+export { CURRENT_SCORING_MODEL_VERSION, SCORING_MODELS } from './models';
+export { applyScenario, businessKey, evaluateSensitivity, sitePrimaryVpd } from './scenario';
+
+export interface ScoringOptions {
+  // Published model to score with; the current model when omitted
+  modelVersion?: string;
+  // SE_CRE_CATEGORIES entry whose overrides apply
+  tenantCategory?: string;
+}
+
+export class ScoringModelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScoringModelError';
+  }
+}
+
+export function getScoringModel(version: string = CURRENT_SCORING_MODEL_VERSION): ScoringModel {
+  const model = SCORING_MODELS.find(m => m.version === version);
+  if (!model) {
+    throw new ScoringModelError(`Unknown scoring model version "${version}" (available: ${SCORING_MODELS.map(m => m.version).join(', ')})`);
+  }
+  return model;
+}
+
+/**
+ * The model to score with: the requested version with the tenant category's weight and factor
+ * overrides merged in. Categories without overrides score with the base model.
+ */
+export function resolveScoringModel(options: ScoringOptions = {}): ScoringModel {
+  const base = getScoringModel(options.modelVersion);
+  const override = options.tenantCategory ? base.categoryOverrides[options.tenantCategory] : undefined;
+  if (!override) return base;
+
+  const factors = { ...base.factors } as ScoringFactorParams;
+  for (const key of Object.keys(override.factors ?? {}) as Array<keyof ScoringFactorParams>) {
+    Object.assign(factors, { [key]: { ...base.factors[key], ...override.factors![key] } });
+  }
+  return { ...base, weights: { ...base.weights, ...override.weights }, factors };
+}
+
+// The requested category when the model adjusts for it
+function appliedCategory(options: ScoringOptions): string | undefined {
+  return options.tenantCategory && getScoringModel(options.modelVersion).categoryOverrides[options.tenantCategory]
+    ? options.tenantCategory
+    : undefined;
+}
+
+export function scoreFeasibility(inputs: ScoringInputs, options: ScoringOptions = {}): FeasibilityScore {
+  return evaluateFeasibility(resolveScoringModel(options), inputs, appliedCategory(options));
+}
+
+// Tornado-chart sensitivity of the overall score to each what-if input, widest swing first
+export function scoreSensitivity(site: SiteInputs, options: ScoringOptions = {}): ScoreSensitivity[] {
+  return evaluateSensitivity(resolveScoringModel(options), site, appliedCategory(options));
+}
+
+export function listScoringModels(): ScoringModelInfo[] {
+  return SCORING_MODELS.map(model => ({
+    version: model.version,
+    name: model.name,
+    description: model.description,
+    current: model.version === CURRENT_SCORING_MODEL_VERSION,
+    categories: Object.keys(model.categoryOverrides),
+  }));
+}
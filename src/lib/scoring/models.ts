@@ -0,0 +1,247 @@
+// Published scoring models. A published model is never edited: changing a weight or breakpoint
+// means adding a new version here and pointing CURRENT_SCORING_MODEL_VERSION at it, so reports
+// saved under the old version still re-score to the same numbers
+
+import type { ScoringModel } from '@/types';
+
+export const SCORING_MODEL_1_0: ScoringModel = {
+  version: '1.0.0',
+  name: 'Standard commercial feasibility',
+  description: 'Eight weighted factors for general commercial development, with adjustments for site-driven tenant categories.',
+  neutralScore: 5,
+  weights: {
+    traffic: 0.2,
+    demographics: 0.15,
+    economic: 0.15,
+    competition: 0.1,
+    access: 0.1,
+    site: 0.1,
+    environmental: 0.1,
+    market: 0.1,
+  },
+  ratings: [
+    { min: 8, rating: 'Excellent' },
+    { min: 6, rating: 'Good' },
+    { min: 4, rating: 'Fair' },
+    { min: -Infinity, rating: 'Poor' },
+  ],
+  factors: {
+    traffic: {
+      vpd: [
+        { min: 30000, score: 10, label: 'Excellent traffic', note: 'supports all business types' },
+        { min: 20000, score: 9, label: 'Very high traffic', note: 'ideal for most retail' },
+        { min: 15000, score: 8, label: 'High traffic', note: 'supports drive-thru concepts' },
+        { min: 10000, score: 6, label: 'Moderate traffic', note: 'suitable for quick service' },
+        { min: 5000, score: 4, label: 'Low-moderate traffic', note: 'limits options' },
+        { min: 0, score: 2, label: 'Low traffic', note: 'local service only' },
+      ],
+      growthCagr: 0.02,
+      growthPoints: 1,
+    },
+    access: {
+      roadCount: [
+        { min: 3, score: 9, label: 'Excellent access' },
+        { min: 2, score: 8, label: 'Good access' },
+        { min: 0, score: 6, label: 'Single road access' },
+      ],
+      majorRoadTypes: ['primary', 'secondary', 'trunk'],
+      majorRoadBonus: 1,
+      noFullAccessPenalty: 3,
+      rightInRightOutPenalty: 2,
+      signalDistanceMeters: 150,
+      signalBonus: 0.5,
+      roadClass: [
+        { patterns: ['primary', 'major', 'highway', 'interstate'], score: 8, label: 'high visibility' },
+        { patterns: ['secondary'], score: 6, label: 'good local access' },
+        { patterns: [''], score: 4, label: 'limited visibility' },
+      ],
+      highwayDirectMiles: 0.5,
+      highwayDirectBonus: 1,
+      highwayNearMiles: 2,
+      highwayNearBonus: 0.5,
+    },
+    demographics: {
+      income: [
+        { min: 85000, score: 9 },
+        { min: 65000, score: 8 },
+        { min: 50000, score: 7 },
+        { min: 35000, score: 5 },
+        { min: 0, score: 4 },
+      ],
+      collegeTown: [
+        { min: 25, score: 8 },
+        { min: 15, score: 7.5 },
+        { min: 0, score: 7 },
+      ],
+      employmentBonus: [
+        { min: 95, score: 1 },
+        { min: 90, score: 0.5 },
+      ],
+      collegeTownEmploymentBonus: 0.5,
+      populationBonus: [
+        { min: 5000, score: 1 },
+        { min: 2000, score: 0.5 },
+      ],
+      educationBonus: [
+        { min: 40, score: 1 },
+        { min: 25, score: 0.5 },
+      ],
+      growthBonus: [
+        { min: 2, score: 0.5 },
+        { min: 1, score: 0.25 },
+      ],
+      workingAgeBonus: [
+        { min: 50, score: 0.5 },
+        { min: 40, score: 0.25 },
+      ],
+    },
+    economic: {
+      consumerSpending: [
+        { min: 800_000_000, score: 10 },
+        { min: 500_000_000, score: 9 },
+        { min: 300_000_000, score: 8 },
+        { min: 200_000_000, score: 7 },
+        { min: 100_000_000, score: 6 },
+        { min: 50_000_000, score: 5 },
+        { min: 1, score: 4 },
+      ],
+      highIncomeBonus: [
+        { min: 30, score: 1 },
+        { min: 20, score: 0.5 },
+      ],
+    },
+    competition: {
+      bands: [
+        { minCount: 5, maxCount: 20, minTypes: 3, score: 9, label: 'Healthy mix' },
+        { minCount: 3, maxCount: 30, score: 7, label: 'Good activity' },
+        { minCount: 31, maxCount: Infinity, score: 5, label: 'High density' },
+        { minCount: 0, maxCount: 2, score: 4, label: 'Limited activity' },
+      ],
+      anchorNames: ['walmart', 'target', 'costco', 'home depot', 'lowes', 'publix', 'kroger'],
+      anchorCategories: ['grocery', 'big-box'],
+      anchorBonus: 1,
+    },
+    environmental: {
+      highFloodPenalty: 2,
+      moderateFloodPenalty: 1,
+      wetlandsPenalty: 1,
+      brownfieldsPenalty: 1,
+      superfundPenalty: 2,
+    },
+    market: {
+      verifiedSales: [
+        { min: 5, score: 8, label: 'Strong market' },
+        { min: 3, score: 7, label: 'Good market' },
+        { min: 1, score: 5, label: 'Limited data' },
+        { min: 0, score: 5, label: 'No recorded sales' },
+      ],
+      pricePerSqftBonus: [
+        { min: 200, score: 2, label: 'Premium market' },
+        { min: 150, score: 1, label: 'Strong market' },
+      ],
+    },
+    site: {
+      lotAcres: [
+        { min: 2, max: 10, score: 9, label: 'ideal' },
+        { min: 10, max: Infinity, score: 8, label: 'large site' },
+        { min: 1, max: 2, score: 8, label: 'good' },
+        { min: 0.5, max: 1, score: 6, label: 'limited' },
+        { min: 0, max: 0.5, score: 4, label: 'small' },
+      ],
+      zoning: [
+        { patterns: ['C-', 'COM', 'COMMERCIAL', 'B-'], score: 10, label: 'commercial' },
+        { patterns: ['MU', 'MIXED', 'PUD'], score: 9, label: 'mixed-use' },
+        { patterns: ['O-', 'OFFICE'], score: 7, label: 'office' },
+        { patterns: ['I-', 'IND'], score: 6, label: 'industrial' },
+        { patterns: ['R-', 'RES'], score: 3, label: 'residential - rezoning needed' },
+      ],
+      daytime: { commercial: 9, mixed: 7, residential: 5 },
+      componentWeights: { lot: 0.4, zoning: 0.4, daytime: 0.2 },
+      opportunityZoneBonus: 0.5,
+    },
+  },
+  categoryOverrides: {
+    'QSR — BURGER / CHICKEN / SANDWICH': {
+      weights: { traffic: 0.3, access: 0.15, demographics: 0.1, economic: 0.1, market: 0.05 },
+      factors: {
+        site: {
+          lotAcres: [
+            { min: 0.75, max: 2, score: 9, label: 'ideal pad' },
+            { min: 2, max: 4, score: 7, label: 'larger than a pad' },
+            { min: 0.5, max: 0.75, score: 7, label: 'tight pad' },
+            { min: 4, max: Infinity, score: 6, label: 'needs outparceling' },
+            { min: 0, max: 0.5, score: 3, label: 'too small for a drive-thru' },
+          ],
+        },
+      },
+    },
+    'QSR — COFFEE / BAKERY / SMOOTHIE / DESSERT': {
+      weights: { traffic: 0.3, access: 0.15, demographics: 0.15, economic: 0.1, market: 0.05, competition: 0.05 },
+      factors: {
+        site: {
+          lotAcres: [
+            { min: 0.5, max: 1.5, score: 9, label: 'ideal pad' },
+            { min: 1.5, max: 3, score: 7, label: 'larger than a pad' },
+            { min: 0.3, max: 0.5, score: 6, label: 'tight pad' },
+            { min: 3, max: Infinity, score: 6, label: 'needs outparceling' },
+            { min: 0, max: 0.3, score: 3, label: 'too small for a drive-thru' },
+          ],
+        },
+      },
+    },
+    'CONVENIENCE STORE / FUEL': {
+      weights: { traffic: 0.3, access: 0.2, demographics: 0.1, economic: 0.05, competition: 0.05 },
+    },
+    'GROCERY / SUPERMARKET': {
+      weights: { traffic: 0.15, demographics: 0.2, economic: 0.2, site: 0.15, market: 0.05 },
+      factors: {
+        site: {
+          lotAcres: [
+            { min: 4, max: 12, score: 9, label: 'ideal' },
+            { min: 12, max: Infinity, score: 8, label: 'large site' },
+            { min: 2.5, max: 4, score: 6, label: 'small-format only' },
+            { min: 0, max: 2.5, score: 3, label: 'too small' },
+          ],
+        },
+      },
+    },
+    'BIG BOX / WAREHOUSE RETAIL': {
+      weights: { traffic: 0.2, demographics: 0.15, economic: 0.15, site: 0.15, access: 0.15, market: 0.05, competition: 0.05 },
+      factors: {
+        site: {
+          lotAcres: [
+            { min: 10, max: 30, score: 9, label: 'ideal' },
+            { min: 30, max: Infinity, score: 8, label: 'large site' },
+            { min: 5, max: 10, score: 6, label: 'small-format only' },
+            { min: 0, max: 5, score: 2, label: 'too small' },
+          ],
+        },
+      },
+    },
+    'HOTEL / HOSPITALITY': {
+      weights: { access: 0.2, demographics: 0.1, economic: 0.1 },
+      factors: {
+        access: { highwayDirectBonus: 2, highwayNearBonus: 1 },
+      },
+    },
+    'INDUSTRIAL / WAREHOUSE / DISTRIBUTION / LOGISTICS': {
+      weights: { traffic: 0.1, demographics: 0.05, economic: 0.05, competition: 0.05, access: 0.25, site: 0.25, environmental: 0.15, market: 0.1 },
+      factors: {
+        access: { highwayDirectBonus: 2, highwayNearBonus: 1.5 },
+        site: {
+          zoning: [
+            { patterns: ['I-', 'IND', 'M-', 'MANUFACTUR'], score: 10, label: 'industrial' },
+            { patterns: ['PUD', 'PD', 'MU', 'MIXED'], score: 7, label: 'planned/mixed' },
+            { patterns: ['C-', 'COM', 'COMMERCIAL', 'B-'], score: 6, label: 'commercial' },
+            { patterns: ['R-', 'RES'], score: 1, label: 'residential - rezoning needed' },
+          ],
+          daytime: { commercial: 7, mixed: 7, residential: 4 },
+        },
+      },
+    },
+  },
+};
+
+export const SCORING_MODELS: ScoringModel[] = [SCORING_MODEL_1_0];
+
+export const CURRENT_SCORING_MODEL_VERSION = SCORING_MODEL_1_0.version;
@@ -0,0 +1,216 @@
+// What-if scenarios: user overrides applied to a site's fetched inputs, and the tornado-style
+// sensitivity of the overall score to each overridable input
+
+import type {
+  Business,
+  EnvironmentalRisk,
+  FloodRisk,
+  ScenarioOverrides,
+  ScoreSensitivity,
+  ScoringModel,
+  SiteInputs,
+  TrafficInfo,
+} from '@/types';
+import { POI_CATEGORIES } from '@/data/poiTaxonomy';
+import { evaluateFeasibility } from './engine';
+
+// Points /api/environmental deducts from its 0-100 risk score at each flood risk level
+const FLOOD_RISK_DEDUCTION: Record<FloodRisk, number> = { low: 0, medium: 15, high: 35 };
+
+// Stand-ins when a scenario sets a value the site has no fetched data for
+const SCENARIO_TRAFFIC: TrafficInfo = {
+  estimatedVPD: 0,
+  vpdRange: '',
+  vpdSource: 'Scenario',
+  roadType: 'Unknown',
+  trafficLevel: 'unknown',
+  congestionPercent: 0,
+};
+const CLEAR_ENVIRONMENT: EnvironmentalRisk = {
+  floodZone: { zone: 'X', risk: 'low', description: 'Minimal flood risk' },
+  wetlands: { present: false },
+  brownfields: { present: false, count: 0 },
+  superfund: { present: false, count: 0 },
+  overallRiskScore: 100,
+};
+
+// Each input's test range for the sensitivity chart
+const VPD_SWING = 0.3;
+const LOT_SWING = 0.5;
+const INCOME_SWING = 0.2;
+const BUSINESS_SWING = 5;
+
+// Identifies a nearby business across re-fetches (names alone repeat, e.g. chain locations)
+export function businessKey(business: Pick<Business, 'name' | 'address'>): string {
+  return `${business.name}|${business.address}`;
+}
+
+// Busiest counted road at an access point, else the traffic lookup
+export function sitePrimaryVpd(site: Pick<SiteInputs, 'traffic' | 'accessPoints'>): number | null {
+  const counted = site.accessPoints.map(ap => ap.vpd || ap.estimatedVpd || 0).filter(vpd => vpd > 0);
+  if (counted.length > 0) return Math.max(...counted);
+  return site.traffic?.estimatedVPD || null;
+}
+
+function withVpd(site: SiteInputs, vpd: number): SiteInputs {
+  const current = sitePrimaryVpd(site);
+  if (!current) {
+    return { ...site, traffic: { ...(site.traffic ?? SCENARIO_TRAFFIC), estimatedVPD: vpd } };
+  }
+
+  // Scale every road so the primary road lands on the requested VPD and the others keep their share
+  const ratio = vpd / current;
+  const scale = (value: number | undefined) => (value ? Math.round(value * ratio) : value);
+  return {
+    ...site,
+    accessPoints: site.accessPoints.map(ap => ({ ...ap, vpd: scale(ap.vpd), estimatedVpd: scale(ap.estimatedVpd) })),
+    traffic: site.traffic ? { ...site.traffic, estimatedVPD: scale(site.traffic.estimatedVPD) ?? 0 } : null,
+  };
+}
+
+function withLotAcres(site: SiteInputs, acres: number): SiteInputs {
+  return { ...site, parcel: { ...site.parcel, acres, sqft: Math.round(acres * 43560) } };
+}
+
+function withZoning(site: SiteInputs, zoning: string): SiteInputs {
+  return { ...site, parcel: { ...site.parcel, zoning } };
+}
+
+function withMedianIncome(site: SiteInputs, medianHouseholdIncome: number): SiteInputs {
+  return { ...site, demographics: { ...site.demographics, medianHouseholdIncome } };
+}
+
+function withBusinesses(site: SiteInputs, added: ScenarioOverrides['addedBusinesses'] = [], removed: string[] = []): SiteInputs {
+  const closed = new Set(removed);
+  const opened: Business[] = added.map(b => ({
+    name: b.name,
+    type: POI_CATEGORIES[b.category]?.label ?? b.category,
+    category: b.category,
+    distance: 'Scenario',
+    address: '',
+  }));
+  return { ...site, businesses: [...site.businesses.filter(b => !closed.has(businessKey(b))), ...opened] };
+}
+
+// Without fetched environmental data the scenario assumes no other constraints
+function withFloodRisk(site: SiteInputs, risk: FloodRisk): SiteInputs {
+  const env = site.environmentalRisk ?? CLEAR_ENVIRONMENT;
+  const previous = FLOOD_RISK_DEDUCTION[env.floodZone.risk] ?? 0;
+  const overallRiskScore = Math.min(100, Math.max(0, env.overallRiskScore + previous - FLOOD_RISK_DEDUCTION[risk]));
+  return {
+    ...site,
+    environmentalRisk: {
+      ...env,
+      floodZone: { ...env.floodZone, risk, description: `Scenario: ${risk} flood risk` },
+      overallRiskScore,
+    },
+  };
+}
+
+export function applyScenario(site: SiteInputs, overrides: ScenarioOverrides): SiteInputs {
+  let result = site;
+  if (overrides.vpd !== undefined) result = withVpd(result, overrides.vpd);
+  if (overrides.lotAcres !== undefined) result = withLotAcres(result, overrides.lotAcres);
+  if (overrides.zoning !== undefined) result = withZoning(result, overrides.zoning);
+  if (overrides.medianIncome !== undefined) result = withMedianIncome(result, overrides.medianIncome);
+  if (overrides.addedBusinesses?.length || overrides.removedBusinesses?.length) {
+    result = withBusinesses(result, overrides.addedBusinesses, overrides.removedBusinesses);
+  }
+  if (overrides.floodRisk !== undefined) result = withFloodRisk(result, overrides.floodRisk);
+  return result;
+}
+
+/**
+ * Overall score with each input moved to the low and high end of its test range, the others held
+ * as given. Inputs the site has no value for are skipped, except zoning and flood risk, which are
+ * tested at the model's worst and best zoning class and at low/high flood risk.
+ */
+export function evaluateSensitivity(model: ScoringModel, site: SiteInputs, tenantCategory?: string): ScoreSensitivity[] {
+  const score = (variant: SiteInputs) => evaluateFeasibility(model, variant, tenantCategory).overall;
+  const baseScore = score(site);
+  const bars: ScoreSensitivity[] = [];
+  const push = (bar: Omit<ScoreSensitivity, 'baseScore' | 'swing'>) => {
+    bars.push({ ...bar, baseScore, swing: Math.round(Math.abs(bar.highScore - bar.lowScore) * 10) / 10 });
+  };
+
+  const vpd = sitePrimaryVpd(site);
+  if (vpd) {
+    const low = Math.round(vpd * (1 - VPD_SWING));
+    const high = Math.round(vpd * (1 + VPD_SWING));
+    push({
+      input: 'vpd',
+      label: 'Traffic (VPD)',
+      lowLabel: `-${VPD_SWING * 100}% (${low.toLocaleString()})`,
+      highLabel: `+${VPD_SWING * 100}% (${high.toLocaleString()})`,
+      lowScore: score(withVpd(site, low)),
+      highScore: score(withVpd(site, high)),
+    });
+  }
+
+  const acres = site.parcel?.acres || (site.parcel?.sqft ? site.parcel.sqft / 43560 : null);
+  if (acres) {
+    const low = acres * (1 - LOT_SWING);
+    const high = acres * (1 + LOT_SWING);
+    push({
+      input: 'lotAcres',
+      label: 'Lot size',
+      lowLabel: `${low.toFixed(2)} ac`,
+      highLabel: `${high.toFixed(2)} ac`,
+      lowScore: score(withLotAcres(site, low)),
+      highScore: score(withLotAcres(site, high)),
+    });
+  }
+
+  const zoningClasses = [...model.factors.site.zoning].sort((a, b) => a.score - b.score);
+  if (zoningClasses.length >= 2) {
+    const worst = zoningClasses[0];
+    const best = zoningClasses[zoningClasses.length - 1];
+    push({
+      input: 'zoning',
+      label: 'Zoning',
+      lowLabel: worst.label ?? worst.patterns[0],
+      highLabel: best.label ?? best.patterns[0],
+      lowScore: score(withZoning(site, worst.patterns[0])),
+      highScore: score(withZoning(site, best.patterns[0])),
+    });
+  }
+
+  const income = site.demographics?.medianHouseholdIncome;
+  if (income) {
+    const low = Math.round(income * (1 - INCOME_SWING));
+    const high = Math.round(income * (1 + INCOME_SWING));
+    push({
+      input: 'medianIncome',
+      label: 'Median income',
+      lowLabel: `$${low.toLocaleString()}`,
+      highLabel: `$${high.toLocaleString()}`,
+      lowScore: score(withMedianIncome(site, low)),
+      highScore: score(withMedianIncome(site, high)),
+    });
+  }
+
+  if (site.businesses.length > 0) {
+    // Farthest first out; the list is nearest first
+    const closing = site.businesses.slice(-BUSINESS_SWING).map(businessKey);
+    const opening = Array.from({ length: BUSINESS_SWING }, (_, i) => ({ name: `New business ${i + 1}`, category: 'specialty-retail' as const }));
+    push({
+      input: 'businesses',
+      label: 'Nearby businesses',
+      lowLabel: `${closing.length} close`,
+      highLabel: `${BUSINESS_SWING} open`,
+      lowScore: score(withBusinesses(site, [], closing)),
+      highScore: score(withBusinesses(site, opening, [])),
+    });
+  }
+
+  push({
+    input: 'floodRisk',
+    label: 'Flood risk',
+    lowLabel: 'High risk',
+    highLabel: 'Low risk',
+    lowScore: score(withFloodRisk(site, 'high')),
+    highScore: score(withFloodRisk(site, 'low')),
+  });
+
+  return bars.sort((a, b) => b.swing - a.swing);
+}
@@ -0,0 +1,122 @@
+// Minimal ESRI shapefile reading for imported GIS layers: a zip holding the .shp geometry, the .dbf
+// attribute table and optionally the .prj projection. Point, multipoint, polyline and polygon shapes
+// (including their Z and M variants) are read; Z and M values are ignored.
+
+import { strFromU8, unzipSync } from 'fflate';
+
+export interface ShapeRecord {
+  // [lng, lat] (or projected x, y) parts; a point is one part with one coordinate
+  parts: Array<[number, number][]>;
+  attributes: Record<string, string | number | null>;
+}
+
+export interface Shapefile {
+  records: ShapeRecord[];
+  // WKT from the .prj file, when the zip has one
+  projection: string | null;
+}
+
+const POINT_TYPES = new Set([1, 11, 21]);
+const MULTIPOINT_TYPES = new Set([8, 18, 28]);
+const POLY_TYPES = new Set([3, 5, 13, 15, 23, 25]);
+
+function readShapes(shp: Uint8Array): Array<[number, number][]>[] {
+  const view = new DataView(shp.buffer, shp.byteOffset, shp.byteLength);
+  if (view.getInt32(0, false) !== 9994) {
+    throw new Error('Not a shapefile (.shp header is missing)');
+  }
+
+  const shapes: Array<[number, number][]>[] = [];
+  const point = (offset: number): [number, number] => [view.getFloat64(offset, true), view.getFloat64(offset + 8, true)];
+
+  // Records follow the 100-byte header; lengths are in 16-bit words, big-endian
+  for (let offset = 100; offset + 8 <= shp.byteLength;) {
+    const contentLength = view.getInt32(offset + 4, false) * 2;
+    const start = offset + 8;
+    offset = start + contentLength;
+
+    const type = view.getInt32(start, true);
+    if (POINT_TYPES.has(type)) {
+      shapes.push([[point(start + 4)]]);
+    } else if (MULTIPOINT_TYPES.has(type)) {
+      const numPoints = view.getInt32(start + 36, true);
+      shapes.push([Array.from({ length: numPoints }, (_, i) => point(start + 40 + i * 16))]);
+    } else if (POLY_TYPES.has(type)) {
+      const numParts = view.getInt32(start + 36, true);
+      const numPoints = view.getInt32(start + 40, true);
+      const partStarts = Array.from({ length: numParts }, (_, i) => view.getInt32(start + 44 + i * 4, true));
+      const pointsStart = start + 44 + numParts * 4;
+      shapes.push(partStarts.map((first, i) => {
+        const last = i + 1 < numParts ? partStarts[i + 1] : numPoints;
+        return Array.from({ length: last - first }, (_, j) => point(pointsStart + (first + j) * 16));
+      }));
+    } else {
+      // Null shape or an unsupported type (multipatch); keep the slot so attributes stay aligned
+      shapes.push([]);
+    }
+  }
+  return shapes;
+}
+
+function readTable(dbf: Uint8Array): Array<Record<string, string | number | null>> {
+  const view = new DataView(dbf.buffer, dbf.byteOffset, dbf.byteLength);
+  const recordCount = view.getUint32(4, true);
+  const headerLength = view.getUint16(8, true);
+  const recordLength = view.getUint16(10, true);
+
+  const fields: Array<{ name: string; type: string; length: number }> = [];
+  for (let offset = 32; offset + 32 <= headerLength && dbf[offset] !== 0x0d; offset += 32) {
+    const nameBytes = dbf.subarray(offset, offset + 11);
+    const end = nameBytes.indexOf(0);
+    fields.push({
+      name: strFromU8(end >= 0 ? nameBytes.subarray(0, end) : nameBytes, true).trim(),
+      type: String.fromCharCode(dbf[offset + 11]),
+      length: dbf[offset + 16],
+    });
+  }
+
+  const rows: Array<Record<string, string | number | null>> = [];
+  for (let i = 0; i < recordCount; i++) {
+    const start = headerLength + i * recordLength;
+    if (start + recordLength > dbf.byteLength) break;
+    // Deleted records still occupy a slot in the .shp file, so they are kept (and later skipped as empty)
+    const row: Record<string, string | number | null> = {};
+    let offset = start + 1;
+    for (const field of fields) {
+      const raw = strFromU8(dbf.subarray(offset, offset + field.length), true).trim();
+      offset += field.length;
+      if (field.type === 'N' || field.type === 'F') {
+        const value = parseFloat(raw);
+        row[field.name] = Number.isFinite(value) ? value : null;
+      } else {
+        row[field.name] = raw || null;
+      }
+    }
+    rows.push(dbf[start] === 0x2a ? {} : row);
+  }
+  return rows;
+}
+
+export function readShapefileZip(data: Uint8Array): Shapefile {
+  const files = unzipSync(data);
+  const names = Object.keys(files).filter(name => !name.startsWith('__MACOSX/'));
+  const shpName = names.find(name => name.toLowerCase().endsWith('.shp'));
+  if (!shpName) {
+    throw new Error('Zip has no .shp file');
+  }
+
+  const base = shpName.slice(0, -4).toLowerCase();
+  const sibling = (ext: string) => names.find(name => name.toLowerCase() === `${base}.${ext}`);
+  const dbfName = sibling('dbf');
+  if (!dbfName) {
+    throw new Error(`Zip has no attribute table for ${shpName}`);
+  }
+  const prjName = sibling('prj');
+
+  const shapes = readShapes(files[shpName]);
+  const table = readTable(files[dbfName]);
+  return {
+    records: shapes.map((parts, i) => ({ parts, attributes: table[i] ?? {} })),
+    projection: prjName ? strFromU8(files[prjName]).trim() : null,
+  };
+}
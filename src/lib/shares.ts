@@ -0,0 +1,104 @@
+// Share links - immutable server-side snapshots of an analysis, addressed by a short ID
+
+import { createHash, randomBytes } from 'crypto';
+import { getStore } from '@/lib/db';
+import { PropertyData, AccessPoint, RetailerMatchResult, SharedSnapshot } from '@/types';
+
+const COLLECTION = 'shares';
+const ID_LENGTH = 10;
+const ID_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789';
+const MAX_EXPIRY_DAYS = 365;
+
+interface StoredShare {
+  snapshot: SharedSnapshot;
+  revokeTokenHash: string;
+  revokedAt: string | null;
+}
+
+export interface CreateShareInput {
+  propertyData: PropertyData;
+  accessPoints?: AccessPoint[];
+  retailerMatches?: RetailerMatchResult | null;
+  expiresInDays?: number | null;
+}
+
+export type ShareLookup =
+  | { status: 'ok'; snapshot: SharedSnapshot }
+  | { status: 'not_found' | 'expired' | 'revoked' };
+
+// Short, unambiguous ID (no 0/O/1/l/I) that is still hard to guess
+function generateShareId(): string {
+  const bytes = randomBytes(ID_LENGTH);
+  let id = '';
+  for (let i = 0; i < ID_LENGTH; i++) {
+    id += ID_ALPHABET[bytes[i] % ID_ALPHABET.length];
+  }
+  return id;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export async function createShare(input: CreateShareInput): Promise<{ snapshot: SharedSnapshot; revokeToken: string }> {
+  const { propertyData } = input;
+  const store = getStore();
+
+  let id = generateShareId();
+  while (await store.get(COLLECTION, id)) {
+    id = generateShareId();
+  }
+
+  const createdAt = new Date();
+  const days = input.expiresInDays ? Math.min(Math.max(input.expiresInDays, 1), MAX_EXPIRY_DAYS) : null;
+  const expiresAt = days ? new Date(createdAt.getTime() + days * 24 * 60 * 60 * 1000).toISOString() : null;
+
+  const snapshot: SharedSnapshot = {
+    id,
+    address: propertyData.address,
+    coordinates: propertyData.coordinates,
+    score: propertyData.analysis?.feasibilityScore?.overall ?? propertyData.analysis?.viabilityScore ?? null,
+    createdAt: createdAt.toISOString(),
+    expiresAt,
+    propertyData,
+    accessPoints: input.accessPoints,
+    retailerMatches: input.retailerMatches ?? propertyData.analysis?.retailerMatches ?? null,
+  };
+
+  const revokeToken = randomBytes(24).toString('hex');
+  await store.put<StoredShare>(COLLECTION, {
+    snapshot,
+    revokeTokenHash: hashToken(revokeToken),
+    revokedAt: null,
+  }, { id });
+
+  return { snapshot, revokeToken };
+}
+
+export async function getShare(id: string): Promise<ShareLookup> {
+  const doc = await getStore().get<StoredShare>(COLLECTION, id);
+  if (!doc) return { status: 'not_found' };
+
+  const { snapshot, revokedAt } = doc.data;
+  if (revokedAt) return { status: 'revoked' };
+  if (snapshot.expiresAt && new Date(snapshot.expiresAt).getTime() < Date.now()) {
+    return { status: 'expired' };
+  }
+
+  return { status: 'ok', snapshot };
+}
+
+// Revoke a share link; only the holder of the revoke token may do this
+export async function revokeShare(id: string, revokeToken: string): Promise<'revoked' | 'not_found' | 'forbidden'> {
+  const store = getStore();
+  const doc = await store.get<StoredShare>(COLLECTION, id);
+  if (!doc) return 'not_found';
+  if (doc.data.revokeTokenHash !== hashToken(revokeToken)) return 'forbidden';
+
+  // Keep the record (rather than deleting) so the ID is never reissued
+  await store.update<StoredShare>(COLLECTION, id, {
+    ...doc.data,
+    revokedAt: new Date().toISOString(),
+  });
+  return 'revoked';
+}
@@ -0,0 +1,290 @@
+// Site capacity: shrink the parcel by its setbacks, remove mapped wetlands and flood hazard areas, and
+// check what fits in the remaining envelope - maximum building footprint with its parking, and each
+// candidate tenant's prototype building, parking at its ratio and drive-thru stacking
+
+import * as turf from '@turf/turf';
+import type { Feature, MultiPolygon, Polygon } from 'geojson';
+import { providerFetch } from '@/lib/providers';
+import { bufferBoundary, calculateArea } from '@/utils/geometry';
+import { CatalogTenant, getTenant, queryTenants } from '@/data/tenantCatalog';
+import type {
+  SiteCapacity,
+  SiteCapacitySettings,
+  SiteConstraintArea,
+  SiteConstraintSource,
+  TenantCapacityFit,
+} from '@/types';
+
+export interface SiteCapacityOptions extends Partial<SiteCapacitySettings> {
+  // Catalog ids or names to check; defaults to tenants whose lot range fits the parcel
+  tenantIds?: string[];
+}
+
+export class SiteCapacityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SiteCapacityError';
+  }
+}
+
+export const DEFAULT_SITE_CAPACITY_SETTINGS: SiteCapacitySettings = {
+  setbackFeet: 25,
+  landscapePercent: 15,
+  parkingStallSqFt: 325,
+  parkingRatio: 4,
+};
+
+const SETTING_LIMITS: Record<keyof SiteCapacitySettings, [number, number]> = {
+  setbackFeet: [0, 200],
+  landscapePercent: [0, 80],
+  parkingStallSqFt: [150, 600],
+  parkingRatio: [0, 20],
+};
+
+const FEET_PER_METER = 3.28084;
+const SQFT_PER_SQM = 10.7639;
+const SQFT_PER_ACRE = 43560;
+
+// Drive-thru queue: one car length per stacked car in a single lane
+const STACKING_CAR_LENGTH_FEET = 20;
+const STACKING_LANE_WIDTH_FEET = 12;
+const DEFAULT_STACKING_CARS = 8;
+
+const MAX_CANDIDATE_TENANTS = 25;
+
+const WETLANDS_URL = 'https://www.fws.gov/wetlandsmapservice/rest/services/Wetlands/MapServer/0/query';
+const FLOOD_ZONES_URL = 'https://hazards.fema.gov/arcgis/rest/services/public/NFHL/MapServer/28/query';
+
+type Area = Feature<Polygon | MultiPolygon>;
+
+function toLngLat(ring: [number, number][]): number[][] {
+  const coords = ring.map(([lat, lng]) => [lng, lat]);
+  const [first, last] = [coords[0], coords[coords.length - 1]];
+  if (first[0] !== last[0] || first[1] !== last[1]) coords.push(first);
+  return coords;
+}
+
+function toLatLng(ring: number[][]): [number, number][] {
+  return ring.map(([lng, lat]) => [lat, lng] as [number, number]);
+}
+
+function areaPolygons(area: Area): number[][][][] {
+  return area.geometry.type === 'Polygon' ? [area.geometry.coordinates] : area.geometry.coordinates;
+}
+
+const areaSqFt = (area: Area | null) => (area ? Math.round(turf.area(area) * SQFT_PER_SQM) : 0);
+
+// Esri rings are clockwise outers followed by counterclockwise holes
+function esriRingsToPolygons(rings: number[][][]): Array<[number, number][][]> {
+  const polygons: number[][][][] = [];
+  for (const ring of rings) {
+    if (ring.length < 4) continue;
+    if (turf.booleanClockwise(ring) || polygons.length === 0) {
+      polygons.push([ring]);
+    } else {
+      const owner = polygons.find(p => turf.booleanPointInPolygon(ring[0], turf.polygon([p[0]])));
+      (owner ?? polygons[polygons.length - 1]).push(ring);
+    }
+  }
+  return polygons.map(polygon => polygon.map(toLatLng));
+}
+
+async function queryConstraintLayer(
+  source: SiteConstraintSource,
+  url: string,
+  params: Record<string, string>,
+  labelOf: (attributes: Record<string, string>) => string
+): Promise<SiteConstraintArea[]> {
+  const query = new URLSearchParams({
+    ...params,
+    geometryType: 'esriGeometryEnvelope',
+    inSR: '4326',
+    outSR: '4326',
+    spatialRel: 'esriSpatialRelIntersects',
+    returnGeometry: 'true',
+    f: 'json',
+  });
+  const response = await providerFetch(`${url}?${query}`);
+  if (!response.ok) throw new Error(`${source} layer returned ${response.status}`);
+
+  const data = await response.json();
+  return (data.features || [])
+    .filter((f: { geometry?: { rings?: number[][][] } }) => f.geometry?.rings?.length)
+    .map((f: { attributes: Record<string, string>; geometry: { rings: number[][][] } }) => ({
+      source,
+      label: labelOf(f.attributes),
+      polygons: esriRingsToPolygons(f.geometry.rings),
+    }));
+}
+
+/**
+ * Wetland (NWI) and special flood hazard (FEMA NFHL) polygons over the parcel.
+ * Sources that fail are listed in `unavailable` rather than failing the whole lookup.
+ */
+export async function fetchConstraintAreas(
+  boundary: [number, number][]
+): Promise<{ areas: SiteConstraintArea[]; unavailable: SiteConstraintSource[] }> {
+  const lats = boundary.map(([lat]) => lat);
+  const lngs = boundary.map(([, lng]) => lng);
+  const geometry = [Math.min(...lngs), Math.min(...lats), Math.max(...lngs), Math.max(...lats)].join(',');
+
+  const sources: Array<[SiteConstraintSource, Promise<SiteConstraintArea[]>]> = [
+    ['wetland', queryConstraintLayer('wetland', WETLANDS_URL, { geometry, outFields: 'WETLAND_TYPE' },
+      attributes => attributes.WETLAND_TYPE || 'Wetland')],
+    ['flood', queryConstraintLayer('flood', FLOOD_ZONES_URL, { geometry, where: "SFHA_TF='T'", outFields: 'FLD_ZONE' },
+      attributes => attributes.FLD_ZONE || 'SFHA')],
+  ];
+
+  const areas: SiteConstraintArea[] = [];
+  const unavailable: SiteConstraintSource[] = [];
+  for (const [source, request] of sources) {
+    try {
+      areas.push(...await request);
+    } catch (error) {
+      console.error(`[SiteCapacity] ${source} constraints failed:`, error);
+      unavailable.push(source);
+    }
+  }
+  return { areas, unavailable };
+}
+
+function resolveSettings(options: SiteCapacityOptions): SiteCapacitySettings {
+  const settings = { ...DEFAULT_SITE_CAPACITY_SETTINGS };
+  for (const key of Object.keys(SETTING_LIMITS) as Array<keyof SiteCapacitySettings>) {
+    const value = options[key];
+    if (value === undefined) continue;
+    const [min, max] = SETTING_LIMITS[key];
+    if (typeof value !== 'number' || !(value >= min && value <= max)) {
+      throw new SiteCapacityError(`${key} must be between ${min} and ${max}`);
+    }
+    settings[key] = value;
+  }
+  return settings;
+}
+
+// Stalls per 1,000 SF from catalog ratios like '4.0/1K SF'; null for per-seat, per-key and other bases
+function parseParkingRatio(ratio: string | null): number | null {
+  const match = ratio?.match(/^([\d.]+)\s*\/\s*1K\s*SF/i);
+  return match ? parseFloat(match[1]) : null;
+}
+
+// Minimum stacked cars from notes like '20+ car stacking', '8-12 car stacking' or 'DT stacking 10+ cars'
+function parseStackingCars(tenant: CatalogTenant): number {
+  for (const text of [tenant.driveThruNotes, tenant.accessRequirements]) {
+    const match = text?.match(/(\d+)(?:\s*-\s*\d+)?\+?\s*cars?\b/i);
+    if (match) return parseInt(match[1], 10);
+  }
+  return DEFAULT_STACKING_CARS;
+}
+
+function checkTenant(
+  tenant: CatalogTenant,
+  buildableSqFt: number,
+  usableSqFt: number,
+  settings: SiteCapacitySettings
+): TenantCapacityFit {
+  const reasons: string[] = [];
+  const buildingSF = tenant.buildingSF?.min ?? null;
+  const base = { tenantId: tenant.id, name: tenant.name, category: tenant.category, buildingSF, parkingRatio: tenant.parkingRatio };
+
+  // No prototype size: fall back to the tenant's minimum lot against the buildable area
+  if (buildingSF === null) {
+    const minLotSqFt = tenant.lotAcres ? Math.round(tenant.lotAcres.min * SQFT_PER_ACRE) : null;
+    const fits = minLotSqFt === null || buildableSqFt >= minLotSqFt;
+    reasons.push(minLotSqFt === null
+      ? 'No building size or lot requirement on file'
+      : `No building size on file; needs a ${tenant.lotAcres!.min}-acre lot, buildable area is ${(buildableSqFt / SQFT_PER_ACRE).toFixed(2)} acres`);
+    return { ...base, fits, parkingStalls: 0, stackingCars: 0, requiredSqFt: minLotSqFt ?? 0, reasons };
+  }
+
+  let ratio = parseParkingRatio(tenant.parkingRatio);
+  if (ratio === null) {
+    ratio = settings.parkingRatio;
+    if (tenant.parkingRatio) reasons.push(`Parking ratio ${tenant.parkingRatio} isn't per SF; assumed ${ratio}/1K SF`);
+  }
+  const parkingStalls = Math.ceil(buildingSF / 1000 * ratio);
+  const stackingCars = tenant.driveThru === 'required' ? parseStackingCars(tenant) : 0;
+  const stackingSqFt = stackingCars * STACKING_CAR_LENGTH_FEET * STACKING_LANE_WIDTH_FEET;
+  const requiredSqFt = Math.round(buildingSF + parkingStalls * settings.parkingStallSqFt + stackingSqFt);
+
+  const fits = requiredSqFt <= usableSqFt;
+  const parts = [`${buildingSF.toLocaleString()} SF building`, `${parkingStalls} stalls`];
+  if (stackingCars > 0) parts.push(`${stackingCars}-car drive-thru stack`);
+  reasons.push(fits
+    ? `${parts.join(' + ')} uses ${Math.round(requiredSqFt / usableSqFt * 100)}% of the usable area`
+    : `${parts.join(' + ')} needs ${requiredSqFt.toLocaleString()} sq ft; only ${usableSqFt.toLocaleString()} sq ft usable`);
+
+  return { ...base, fits, parkingStalls, stackingCars, requiredSqFt, reasons };
+}
+
+/**
+ * Buildable envelope, maximum footprint and per-tenant fit for a parcel boundary ([lat, lng]).
+ * Setbacks are applied uniformly with `bufferBoundary`; constraint areas are subtracted from what's left.
+ */
+export function calculateSiteCapacity(
+  boundary: [number, number][],
+  constraints: SiteConstraintArea[],
+  options: SiteCapacityOptions = {}
+): SiteCapacity {
+  if (!boundary || boundary.length < 3) {
+    throw new SiteCapacityError('Parcel boundary needs at least 3 points');
+  }
+  const settings = resolveSettings(options);
+  const notes: string[] = [];
+
+  const parcelSqFt = calculateArea(boundary);
+  const parcel = turf.polygon([toLngLat(boundary)]);
+
+  const inset = settings.setbackFeet > 0 ? bufferBoundary(boundary, -settings.setbackFeet / FEET_PER_METER) : boundary;
+  let envelope: Area | null = inset.length >= 3 ? turf.polygon([toLngLat(inset)]) : null;
+  const setbackEnvelopeSqFt = areaSqFt(envelope);
+  if (!envelope) notes.push(`Setbacks of ${settings.setbackFeet} ft leave no buildable area`);
+
+  // Only constraints that actually reach the parcel matter (the layer query is by bounding box)
+  const onSite = constraints.filter(c => c.polygons.some(p => turf.booleanIntersects(parcel, turf.polygon(p.map(toLngLat)))));
+  for (const constraint of onSite) {
+    if (!envelope) break;
+    const polygons = constraint.polygons.map(p => turf.polygon(p.map(toLngLat)));
+    envelope = turf.difference(turf.featureCollection([envelope, ...polygons]));
+  }
+
+  const buildableSqFt = areaSqFt(envelope);
+  const constrainedSqFt = Math.max(0, setbackEnvelopeSqFt - buildableSqFt);
+  const usableSqFt = Math.round(buildableSqFt * (1 - settings.landscapePercent / 100));
+  if (constrainedSqFt > 0) {
+    const labels = [...new Set(onSite.map(c => (c.source === 'flood' ? `flood zone ${c.label}` : c.label.toLowerCase())))];
+    notes.push(`${constrainedSqFt.toLocaleString()} sq ft removed for ${labels.join(', ')}`);
+  }
+
+  // Footprint F and its parking share the usable area: F + F / 1000 * ratio * stall = usable
+  const maxBuildingFootprintSqFt = Math.floor(usableSqFt / (1 + settings.parkingRatio * settings.parkingStallSqFt / 1000));
+  const maxParkingStalls = Math.floor(maxBuildingFootprintSqFt / 1000 * settings.parkingRatio);
+
+  let candidates: CatalogTenant[];
+  if (options.tenantIds?.length) {
+    candidates = options.tenantIds.map(id => {
+      const tenant = getTenant(id);
+      if (!tenant) throw new SiteCapacityError(`Unknown tenant: ${id}`);
+      return tenant;
+    });
+  } else {
+    candidates = queryTenants({ lotAcres: parcelSqFt / SQFT_PER_ACRE })
+      .filter(t => t.buildingSF)
+      .slice(0, MAX_CANDIDATE_TENANTS);
+  }
+
+  return {
+    parcelSqFt,
+    setbackEnvelopeSqFt,
+    constrainedSqFt,
+    buildableSqFt,
+    usableSqFt,
+    envelope: envelope ? areaPolygons(envelope).map(polygon => polygon.map(toLatLng)) : [],
+    maxBuildingFootprintSqFt,
+    maxParkingStalls,
+    constraints: onSite,
+    settings,
+    tenants: candidates.map(tenant => checkTenant(tenant, buildableSqFt, usableSqFt, settings)),
+    notes,
+  };
+}
@@ -0,0 +1,810 @@
+// Traffic for a site: official counts (state DOT and imported layers) matched to the roads next to
+// it, multi-year trends, hourly/directional profiles and TomTom real-time flow. Shared by the Traffic
+// API and bulk imports
+
+import { providerFetch } from '@/lib/providers';
+import {
+  analyzeTrend,
+  collectHistory,
+  fetchCountHistory,
+  fetchTrafficCounts,
+  mergeHistory,
+  resolveStateCode,
+  summarizeGrowth,
+} from '@/lib/traffic-counts';
+import { buildTrafficProfile, findActivityCenter, siteSideDirection } from '@/lib/traffic-profile';
+import type { RoadLine } from '@/lib/traffic-profile';
+import type { TrafficCount, TrafficGrowth, TrafficProfile, TrafficTrend } from '@/types';
+
+export class TrafficError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrafficError';
+  }
+}
+
+interface RoadVPD {
+  roadName: string;
+  vpd: number;
+  year: number;
+  source: string;
+  agency?: string;
+  roadwayId?: string;
+  // Multi-year history of the segment with growth and projection
+  trend?: TrafficTrend;
+  // Design factors published with the count, when the agency has them
+  kFactor?: number;
+  dFactor?: number;
+}
+
+export interface TrafficData {
+  // Individual road VPD data
+  roads: RoadVPD[];
+  // Primary/average VPD (for backwards compatibility)
+  estimatedVPD: number;
+  vpdRange: string;
+  vpdSource: string;
+  // Road info
+  roadType: string;
+  // Real-time traffic
+  currentSpeed: number;
+  freeFlowSpeed: number;
+  currentTravelTime: number;
+  freeFlowTravelTime: number;
+  confidence: number;
+  trafficLevel: string;
+  congestionPercent: number;
+  // Multiple roads indicator
+  hasMultipleRoads: boolean;
+  averageVPD?: number;
+  // Volume-weighted growth across the matched roads; null when none has two years of counts
+  growth: TrafficGrowth | null;
+  // Hourly, directional and day-of-week breakdown of each matched road's AADT
+  profiles: TrafficProfile[];
+}
+
+// Segments with fewer years than this get their full history from the publishing agency
+const MIN_TREND_YEARS = 3;
+
+// Road classification labels
+const HIGHWAY_TYPE_LABELS: Record<string, string> = {
+  motorway: 'Highway/Interstate',
+  motorway_link: 'Highway Ramp',
+  trunk: 'Major Highway',
+  trunk_link: 'Highway Ramp',
+  primary: 'Primary Arterial',
+  primary_link: 'Primary Ramp',
+  secondary: 'Secondary Arterial',
+  secondary_link: 'Secondary Ramp',
+  tertiary: 'Collector Road',
+  tertiary_link: 'Collector Ramp',
+  residential: 'Residential Street',
+  unclassified: 'Local Road',
+  living_street: 'Living Street',
+  service: 'Service Road',
+};
+
+// VPD ranges by road type
+const VPD_RANGES: Record<string, { min: number; max: number }> = {
+  motorway: { min: 40000, max: 150000 },
+  trunk: { min: 20000, max: 60000 },
+  primary: { min: 10000, max: 35000 },
+  secondary: { min: 5000, max: 20000 },
+  tertiary: { min: 2000, max: 10000 },
+  residential: { min: 500, max: 3000 },
+  unclassified: { min: 200, max: 2000 },
+};
+
+interface RoadWithType {
+  name: string;
+  highwayType: string;
+  // Geometry of the road's ways near the site, for telling which direction passes the site
+  lines: RoadLine[];
+}
+
+// Find adjacent roads using OpenStreetMap Overpass API
+async function findAdjacentRoads(lat: number, lng: number, boundaryCoords?: Array<[number, number]>): Promise<RoadWithType[]> {
+  try {
+    const overpassUrl = 'https://overpass-api.de/api/interpreter';
+
+    // Search for roads within 500m to capture main roads even if property is set back
+    // Prioritize major roads (primary, secondary, trunk) over residential
+    const query = `
+      [out:json][timeout:15];
+      (
+        way["highway"~"primary|secondary|trunk|motorway"](around:500,${lat},${lng});
+        way["highway"~"tertiary"](around:300,${lat},${lng});
+        way["highway"~"residential"](around:150,${lat},${lng});
+      );
+      out body;
+      >;
+      out skel qt;
+    `;
+
+    const response = await providerFetch(overpassUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: `data=${encodeURIComponent(query)}`,
+    });
+
+    if (!response.ok) {
+      console.log('[Traffic] Overpass API error:', response.status);
+      return [];
+    }
+
+    const data = await response.json();
+    const roads: RoadWithType[] = [];
+    const roadsByName = new Map<string, RoadWithType>();
+    const nodes = new Map<number, [number, number]>();
+
+    for (const el of data.elements || []) {
+      if (el.type === 'node') nodes.set(el.id, [el.lat, el.lon]);
+    }
+
+    for (const el of data.elements || []) {
+      if (el.type === 'way' && el.tags?.name && el.tags?.highway) {
+        const name = el.tags.name;
+        let road = roadsByName.get(name);
+        if (!road) {
+          road = { name, highwayType: el.tags.highway, lines: [] };
+          roadsByName.set(name, road);
+          roads.push(road);
+        }
+        const coordinates = (el.nodes || []).map((id: number) => nodes.get(id)).filter(Boolean) as Array<[number, number]>;
+        if (coordinates.length >= 2) {
+          road.lines.push({ coordinates, oneway: el.tags.oneway === 'yes' });
+        }
+      }
+    }
+
+    console.log('[Traffic] Found adjacent roads from OSM:', roads.map(r => `${r.name} (${r.highwayType})`).join(', '));
+    return roads;
+  } catch (error) {
+    console.error('[Traffic] Overpass error:', error);
+    return [];
+  }
+}
+
+// Common road name aliases (local name -> FDOT name patterns)
+// This maps common/local names to their official route designations in FDOT data
+const ROAD_ALIASES: Record<string, string[]> = {
+  // Tallahassee area
+  'capital circle': ['sr-263', 'sr263', 'capital', 'state road 263', '263'],
+  'apalachee': ['sr-27', 'us-27', 'apalachee', 'state road 27', '27'],
+  'tennessee': ['us-90', 'sr-10', 'tennessee', 'state road 10', '90', '10'],
+  'mahan': ['us-90', 'sr-10', 'mahan', 'state road 10', '90', '10'],
+  'tharpe': ['cr-158', 'tharpe', 'county road 158', '158'],
+  'lake bradford': ['sr-371', 'lake bradford', 'state road 371', '371'],
+  'monroe': ['sr-63', 'us-27', 'monroe', 'state road 63', '63'],
+  'magnolia': ['magnolia', 'sr-61', 'state road 61', '61'],
+  'meridian': ['sr-155', 'cr-155', 'meridian', 'state road 155', '155'],
+  'thomasville': ['sr-61', 'thomasville', 'state road 61', '61'],
+  'pensacola': ['sr-363', 'pensacola', 'state road 363', '363'],
+  'ocala': ['sr-20', 'ocala', 'state road 20', '20'],
+  'blountstown': ['sr-20', 'blountstown', 'us-90', 'state road 20', '20'],
+  'centerville': ['cr-259', 'centerville', 'county road 259', '259'],
+  'miccosukee': ['cr-59', 'miccosukee', 'county road 59', '59'],
+  // Orlando area
+  'colonial': ['sr-50', 'colonial', 'state road 50', '50'],
+  'orange blossom': ['sr-451', 'orange blossom', 'state road 451', '451'],
+  'sand lake': ['sr-482', 'sand lake', 'state road 482', '482'],
+  'international': ['sr-535', 'international', 'state road 535', '535'],
+  // Tampa area
+  'dale mabry': ['sr-574', 'dale mabry', 'state road 574', '574'],
+  'hillsborough': ['sr-580', 'hillsborough', 'state road 580', '580'],
+  'fowler': ['sr-582', 'fowler', 'state road 582', '582'],
+  'busch': ['sr-580', 'busch', 'state road 580', '580'],
+  'kennedy': ['sr-60', 'kennedy', 'state road 60', '60'],
+  // Miami area
+  'biscayne': ['us-1', 'biscayne', 'us 1', '1'],
+  'flagler': ['sr-968', 'flagler', 'state road 968', '968'],
+  'calle ocho': ['sr-90', 'calle ocho', 'state road 90', '90'],
+  // Jacksonville area
+  'atlantic': ['sr-10', 'atlantic', 'state road 10', '10'],
+  'beach': ['sr-212', 'beach', 'state road 212', '212'],
+  'university': ['sr-109', 'university', 'state road 109', '109'],
+};
+
+
+// Normalize street name for comparison
+function normalizeStreetName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\s+(road|rd|street|st|avenue|ave|boulevard|blvd|drive|dr|lane|ln|way|court|ct|circle|cir|parkway|pkwy|highway|hwy|place|pl|trail|trl|terrace|ter)\.?$/i, '')
+    .replace(/^(north|south|east|west|n|s|e|w|ne|nw|se|sw)\s+/i, '')
+    .replace(/^(sr-\d+\/|cr-\d+\/|us-\d+\/)/i, '')
+    .replace(/[^a-z0-9]/g, '')
+    .trim();
+}
+
+// Get aliases for a road name
+function getRoadAliases(roadName: string): string[] {
+  const normalized = normalizeStreetName(roadName);
+  const aliases: string[] = [normalized];
+
+  for (const [key, values] of Object.entries(ROAD_ALIASES)) {
+    if (normalized.includes(normalizeStreetName(key)) || normalizeStreetName(key).includes(normalized)) {
+      aliases.push(...values.map(v => normalizeStreetName(v)));
+    }
+  }
+
+  return [...new Set(aliases)];
+}
+
+// Check if two road names match (including aliases)
+function roadNamesMatch(name1: string, name2: string): boolean {
+  if (!name1 || !name2) return false;
+  if (name1.toUpperCase() === 'N/A' || name2.toUpperCase() === 'N/A') return false;
+
+  // Get all possible aliases for both names
+  const aliases1 = getRoadAliases(name1);
+  const aliases2 = getRoadAliases(name2);
+
+  // Also add the parts from compound names (e.g., "SR-61/THOMASVILLE RD")
+  name1.split('/').forEach(part => aliases1.push(...getRoadAliases(part)));
+  name2.split('/').forEach(part => aliases2.push(...getRoadAliases(part)));
+
+  // Check all combinations
+  for (const a1 of aliases1) {
+    if (!a1 || a1.length < 3) continue;
+    for (const a2 of aliases2) {
+      if (!a2 || a2.length < 3) continue;
+
+      // Exact match
+      if (a1 === a2) return true;
+
+      // One contains the other
+      const minLen = Math.min(a1.length, a2.length);
+      const threshold = Math.max(3, Math.floor(minLen * 0.6));
+
+      if (a1.includes(a2) && a2.length >= threshold) return true;
+      if (a2.includes(a1) && a1.length >= threshold) return true;
+    }
+  }
+
+  return false;
+}
+
+// Most recent count, then highest AADT
+function bestCount(counts: TrafficCount[]): TrafficCount | null {
+  let best: TrafficCount | null = null;
+  for (const count of counts) {
+    if (!best || count.year > best.year || (count.year === best.year && count.aadt > best.aadt)) {
+      best = count;
+    }
+  }
+  return best;
+}
+
+// Fetch AADT counts for a specific road (with optional extended radius)
+async function fetchCountsForRoad(
+  lat: number,
+  lng: number,
+  roadName: string,
+  stateCode: string | null,
+  extendedRadius: boolean = false
+): Promise<RoadVPD | null> {
+  try {
+    // Use a moderate search area - not too large to avoid picking up distant segments
+    const radiusMeters = extendedRadius ? 445 : 210;
+    const counts = await fetchTrafficCounts(lat, lng, { radiusMeters, stateCode });
+    if (counts.length === 0) return null;
+
+    // Get all aliases for the road name we're searching for
+    const searchAliases = getRoadAliases(roadName);
+    console.log(`[TrafficCounts] Searching for "${roadName}" with aliases: ${searchAliases.join(', ')}`);
+
+    // Find segment IDs that match this road name using multiple strategies
+    const matchingSegmentIds = new Set<string>();
+
+    for (const count of counts) {
+      // Strategy 1: Check if the road name matches (primary - this IS the road)
+      if (count.roadName && roadNamesMatch(count.roadName, roadName)) {
+        matchingSegmentIds.add(count.segmentId);
+        continue;
+      }
+
+      // Strategy 2: Check if the route ID contains the road name pattern
+      // FDOT ROUTE_ID often has format like "61000000" for SR-61 (Thomasville)
+      if (count.routeId) {
+        for (const alias of searchAliases) {
+          // Match route numbers (e.g., "61" in routeId for Thomasville/SR-61)
+          const routeMatch = alias.match(/\d+/);
+          if (routeMatch && count.routeId.startsWith(routeMatch[0])) {
+            matchingSegmentIds.add(count.segmentId);
+            break;
+          }
+        }
+      }
+    }
+
+    // Strategy 3 (fallback): Only use the segment limits if no road name matches found
+    // BUT only if both limits mention the road, suggesting it's the segment and not just a cross street
+    if (matchingSegmentIds.size === 0) {
+      for (const count of counts) {
+        if (roadNamesMatch(count.descTo || '', roadName) && roadNamesMatch(count.descFrom || '', roadName)) {
+          matchingSegmentIds.add(count.segmentId);
+        }
+      }
+    }
+
+    if (matchingSegmentIds.size === 0) {
+      console.log(`[TrafficCounts] No segment match for "${roadName}"`);
+      return null;
+    }
+
+    const matchingCounts = counts.filter(c => matchingSegmentIds.has(c.segmentId));
+    const best = bestCount(matchingCounts);
+    if (!best) return null;
+
+    console.log(`[TrafficCounts] Found VPD for "${roadName}": ${best.aadt} (${best.agency} ${best.year}) segment=${best.segmentId}`);
+
+    return {
+      roadName,
+      vpd: best.aadt,
+      year: best.year,
+      source: best.sourceLabel,
+      agency: best.agency,
+      roadwayId: best.segmentId,
+      trend: analyzeTrend(collectHistory(matchingCounts.filter(c => c.agency === best.agency))),
+      kFactor: best.kFactor,
+      dFactor: best.dFactor,
+    };
+  } catch (error) {
+    console.error(`[TrafficCounts] Error fetching for "${roadName}":`, error);
+    return null;
+  }
+}
+
+// Fetch all AADT counts near location and group by road segment
+async function fetchAllCountedRoads(lat: number, lng: number, stateCode: string | null): Promise<RoadVPD[]> {
+  try {
+    // Use a small search area to get only segments adjacent to the property
+    const counts = await fetchTrafficCounts(lat, lng, { radiusMeters: 85, stateCode });
+    if (counts.length === 0) return [];
+
+    // Group counts by segment ID
+    const segmentMap = new Map<string, { counts: TrafficCount[], names: Set<string>, primaryName: string }>();
+
+    for (const count of counts) {
+      if (!segmentMap.has(count.segmentId)) {
+        segmentMap.set(count.segmentId, { counts: [], names: new Set(), primaryName: '' });
+      }
+
+      const entry = segmentMap.get(count.segmentId)!;
+      entry.counts.push(count);
+
+      // PRIORITY 1: Use the road name field (this IS the road's name)
+      if (count.roadName && count.roadName !== 'N/A' && !entry.primaryName) {
+        entry.primaryName = count.roadName;
+      }
+
+      // PRIORITY 2: Collect the segment limits as fallback (these are cross-streets)
+      // Only use these if no road name is available
+      if (count.descTo && count.descTo !== 'N/A') {
+        entry.names.add(count.descTo);
+      }
+      if (count.descFrom && count.descFrom !== 'N/A') {
+        entry.names.add(count.descFrom);
+      }
+    }
+
+    // Convert to RoadVPD array - get best count for each segment
+    const roads: RoadVPD[] = [];
+
+    for (const [segmentId, { counts: segmentCounts, names, primaryName }] of segmentMap.entries()) {
+      const best = bestCount(segmentCounts);
+
+      if (best) {
+        let roadName = '';
+
+        // PRIORITY 1: Use the road name published with the count (this is the actual road name)
+        if (primaryName) {
+          roadName = primaryName;
+          // Clean up - extract just the road name part if it's compound (e.g., "SR-61/THOMASVILLE RD")
+          if (primaryName.includes('/')) {
+            const roadNamePattern = /([\w\s]+(?:RD|ST|AVE|BLVD|DR|LN|WAY|PKWY|HWY|TRL|CT|CIR))/i;
+            const match = primaryName.match(roadNamePattern);
+            if (match && match[1]) {
+              roadName = match[1].trim();
+            }
+          }
+        }
+
+        // PRIORITY 2: Try to derive from route ID patterns (less reliable)
+        if (!roadName && segmentId) {
+          // Try to match known roads by their segment ID patterns
+          // FDOT format is typically like "61000000" for SR-61
+          const routeNum = segmentId.match(/^(\d+)/)?.[1];
+          if (routeNum) {
+            for (const [localName, aliases] of Object.entries(ROAD_ALIASES)) {
+              if (aliases.some(a => a.includes(routeNum))) {
+                roadName = localName.charAt(0).toUpperCase() + localName.slice(1) + ' Road';
+                break;
+              }
+            }
+          }
+        }
+
+        // PRIORITY 3: Fall back to the segment limits (these are cross-streets, least reliable)
+        // Only use if we couldn't determine the road name otherwise
+        if (!roadName) {
+          const roadNamePattern = /(?:^|\/)([\w\s]+(?:RD|ST|AVE|BLVD|DR|LN|WAY|PKWY|HWY|TRL|CT|CIR))(?:$|\/)/i;
+          for (const name of names) {
+            const match = name.match(roadNamePattern);
+            if (match && match[1]) {
+              roadName = match[1].trim();
+              break;
+            }
+          }
+        }
+
+        // Last resort fallback
+        if (!roadName) {
+          roadName = Array.from(names).find(n => !n.includes('Bridge') && n.length > 3) ||
+                     Array.from(names)[0] ||
+                     `Road ${segmentId}`;
+          roadName = roadName.replace(/^(CR-\d+\/|SR-\d+\/|US-\d+\/)/, '').trim();
+        }
+
+        roads.push({
+          roadName,
+          vpd: best.aadt,
+          year: best.year,
+          source: best.sourceLabel,
+          agency: best.agency,
+          roadwayId: segmentId,
+          trend: analyzeTrend(collectHistory(segmentCounts.filter(c => c.agency === best.agency))),
+          kFactor: best.kFactor,
+          dFactor: best.dFactor,
+        });
+      }
+    }
+
+    // Sort by VPD descending
+    roads.sort((a, b) => b.vpd - a.vpd);
+
+    console.log(`[TrafficCounts] Found ${roads.length} unique roads:`, roads.map(r => `${r.roadName}: ${r.vpd}`).join(', '));
+
+    return roads;
+  } catch (error) {
+    console.error('[TrafficCounts] Error fetching all roads:', error);
+    return [];
+  }
+}
+
+// Fill in short histories from the agency that published the count and re-run the trend
+async function completeTrend(road: RoadVPD, stateCode: string | null): Promise<RoadVPD> {
+  const history = road.trend?.history ?? [];
+  if (history.length >= MIN_TREND_YEARS || !road.agency || !road.roadwayId) return road;
+
+  const published = await fetchCountHistory({ agency: road.agency, segmentId: road.roadwayId }, stateCode);
+  if (published.length === 0) return road;
+  return { ...road, trend: analyzeTrend(mergeHistory(history, published)) };
+}
+
+// Extract street name from address
+function extractStreetName(address: string): string | null {
+  if (!address) return null;
+  const withoutNumber = address.replace(/^\d+\s*/, '');
+  const streetPart = withoutNumber.split(',')[0].trim();
+  const withoutDirection = streetPart.replace(/^(North|South|East|West|N|S|E|W|NE|NW|SE|SW)\s+/i, '');
+  const withoutSuffix = withoutDirection.replace(/\s+(Road|Rd|Street|St|Avenue|Ave|Boulevard|Blvd|Drive|Dr|Lane|Ln|Way|Court|Ct|Circle|Cir|Parkway|Pkwy|Highway|Hwy|Place|Pl|Trail|Trl|Terrace|Ter)\.?$/i, '');
+  const streetName = withoutSuffix.trim();
+  return streetName.length >= 3 ? streetName : null;
+}
+
+interface ReverseGeocodedPlace {
+  road: string | null;
+  city: string | null;
+  state: string | null;
+}
+
+// Get road name (and the city it's in) at coordinates using reverse geocoding
+async function getRoadNameAtLocation(lat: number, lng: number): Promise<ReverseGeocodedPlace> {
+  const empty: ReverseGeocodedPlace = { road: null, city: null, state: null };
+  try {
+    const response = await providerFetch(
+      `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}&zoom=17`,
+      { headers: { 'User-Agent': 'DroneSense/1.0' } }
+    );
+    if (!response.ok) return empty;
+    const data = await response.json();
+    return {
+      road: data.address?.road || data.address?.street || null,
+      city: data.address?.city || data.address?.town || data.address?.village || null,
+      state: data.address?.state || null,
+    };
+  } catch {
+    return empty;
+  }
+}
+
+// Hourly profiles for the matched roads, oriented against the city center when it can be found
+async function buildRoadProfiles(
+  lat: number,
+  lng: number,
+  roads: RoadVPD[],
+  osmRoads: RoadWithType[],
+  place: ReverseGeocodedPlace
+): Promise<TrafficProfile[]> {
+  if (roads.length === 0) return [];
+  const activityCenter = place.city && place.state ? await findActivityCenter(place.city, place.state) : null;
+
+  return roads.map(road => {
+    const osmRoad = osmRoads.find(r => roadNamesMatch(r.name, road.roadName));
+    const direction = activityCenter && osmRoad && osmRoad.lines.length > 0
+      ? siteSideDirection({ lat, lng }, osmRoad.lines, activityCenter)
+      : null;
+    return buildTrafficProfile({
+      roadName: road.roadName,
+      aadt: road.vpd,
+      highwayType: osmRoad?.highwayType,
+      kFactor: road.kFactor,
+      dFactor: road.dFactor,
+      siteSideDirection: direction,
+      activityCenter,
+    });
+  });
+}
+
+// Fetch TomTom traffic data
+async function fetchTomTomTraffic(lat: number, lng: number, apiKey: string) {
+  try {
+    const response = await providerFetch(
+      `https://api.tomtom.com/traffic/services/4/flowSegmentData/relative0/10/json?point=${lat},${lng}&unit=MPH&thickness=1&key=${apiKey}`
+    );
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.flowSegmentData || null;
+  } catch {
+    return null;
+  }
+}
+
+// Throws TrafficError when TomTom isn't configured
+export async function fetchSiteTraffic(
+  coordinates: { lat: number; lng: number },
+  address?: string,
+  parcelBoundary?: Array<[number, number]>
+): Promise<TrafficData> {
+  const apiKey = process.env.TOMTOM_API_KEY;
+  if (!apiKey) {
+    throw new TrafficError('Traffic API not configured');
+  }
+
+  const { lat, lng } = coordinates;
+  console.log(`[Traffic] Processing: ${address || `${lat},${lng}`}`);
+
+  // STEP 1: Extract property street from address
+  let propertyStreet = address ? extractStreetName(address) : null;
+  console.log(`[Traffic] Property street from address: ${propertyStreet}`);
+
+  // STEP 2: Use reverse geocoding to get the official road name at this location
+  const place = await getRoadNameAtLocation(lat, lng);
+  const reverseGeocodedRoad = place.road;
+  console.log(`[Traffic] Reverse geocoded road: ${reverseGeocodedRoad}`);
+
+  // STEP 3: Find adjacent roads from OpenStreetMap (with highway types)
+  const osmRoads = await findAdjacentRoads(lat, lng, parcelBoundary);
+  console.log(`[Traffic] OSM adjacent roads: ${osmRoads.map(r => `${r.name} (${r.highwayType})`).join(', ') || 'none'}`);
+
+  // Add reverse geocoded road to OSM roads if not already present
+  if (reverseGeocodedRoad) {
+    const reverseNormalized = normalizeStreetName(reverseGeocodedRoad);
+    const alreadyHas = osmRoads.some(r => normalizeStreetName(r.name) === reverseNormalized);
+    if (!alreadyHas) {
+      // Default to primary if we don't know the type
+      osmRoads.unshift({ name: reverseGeocodedRoad, highwayType: 'primary', lines: [] });
+    }
+  }
+
+  // STEP 4: Get all counted roads in the area from the state's DOT and imported count layers
+  const stateCode = await resolveStateCode(lat, lng);
+  const allCountedRoads = await fetchAllCountedRoads(lat, lng, stateCode);
+
+  // STEP 5: Match roads with official counts
+  const matchedRoads: RoadVPD[] = [];
+  const matchedRoadwayIds = new Set<string>();
+
+  // Strategy 1: Match property street with OSM roads first
+  // If the address street matches an OSM road, use that as the property's main road
+  let propertyOSMRoad: RoadWithType | null = null;
+  if (propertyStreet) {
+    for (const osmRoad of osmRoads) {
+      if (roadNamesMatch(osmRoad.name, propertyStreet)) {
+        propertyOSMRoad = osmRoad;
+        console.log(`[Traffic] Property street "${propertyStreet}" matches OSM road "${osmRoad.name}" (${osmRoad.highwayType})`);
+        break;
+      }
+    }
+  }
+
+  // Strategy 2: Match property street with official counts by name
+  if (propertyStreet && allCountedRoads.length > 0) {
+    // First, try to find a counted segment that actually matches the property street name
+    let matchedPropertyRoad: RoadVPD | null = null;
+
+    for (const countedRoad of allCountedRoads) {
+      // Check if this counted road matches the property street
+      if (roadNamesMatch(countedRoad.roadName, propertyStreet)) {
+        matchedPropertyRoad = countedRoad;
+        console.log(`[Traffic] Found count match for "${propertyStreet}": ${countedRoad.roadName} = ${countedRoad.vpd} VPD`);
+        break;
+      }
+    }
+
+    // If no direct match, try fetching specifically for the property street with extended radius
+    if (!matchedPropertyRoad) {
+      const specificFetch = await fetchCountsForRoad(lat, lng, propertyStreet, stateCode, true);
+      if (specificFetch) {
+        matchedPropertyRoad = specificFetch;
+        console.log(`[Traffic] Found count via specific fetch for "${propertyStreet}": ${specificFetch.vpd} VPD`);
+      }
+    }
+
+    // Only add to matched roads if we found a verified match
+    // DO NOT use fallback that assigns wrong VPD to wrong road name
+    if (matchedPropertyRoad) {
+      matchedRoads.push({
+        ...matchedPropertyRoad,
+        roadName: propertyOSMRoad?.name || propertyStreet,
+      });
+      matchedRoadwayIds.add(matchedPropertyRoad.roadwayId!);
+    } else {
+      // No match found - log warning but don't add incorrect data
+      console.log(`[Traffic] No count match found for property street "${propertyStreet}" - will not assign unverified VPD`);
+    }
+  }
+
+  // Strategy 3: Match other OSM roads with remaining counted roads
+  for (const osmRoad of osmRoads) {
+    // Skip if this is the property street (already handled)
+    if (propertyStreet && roadNamesMatch(osmRoad.name, propertyStreet)) continue;
+
+    // Try matching with counted roads that haven't been claimed
+    for (const countedRoad of allCountedRoads) {
+      if (countedRoad.roadwayId && !matchedRoadwayIds.has(countedRoad.roadwayId)) {
+        // Match if names are similar OR if it's a minor road
+        if (roadNamesMatch(countedRoad.roadName, osmRoad.name)) {
+          matchedRoads.push({
+            ...countedRoad,
+            roadName: osmRoad.name,
+          });
+          matchedRoadwayIds.add(countedRoad.roadwayId);
+          break;
+        }
+      }
+    }
+  }
+
+  // Strategy 4: If still no roads matched, include nearby counted roads with their ORIGINAL names
+  // DO NOT relabel them with the property street name - keep accurate road identification
+  if (matchedRoads.length === 0 && allCountedRoads.length > 0) {
+    // Add nearby counted roads with their correct names (not the property street)
+    for (const countedRoad of allCountedRoads.slice(0, 3)) { // Include up to 3 nearby roads
+      if (!matchedRoadwayIds.has(countedRoad.roadwayId!)) {
+        matchedRoads.push({
+          ...countedRoad,
+          // Keep the counted road's actual name - don't mislabel it
+          roadName: countedRoad.roadName,
+        });
+        matchedRoadwayIds.add(countedRoad.roadwayId!);
+      }
+    }
+    console.log(`[Traffic] Added ${matchedRoads.length} nearby counted roads (no direct property match found)`);
+  }
+
+  console.log(`[Traffic] Final matched roads: ${matchedRoads.map(r => `${r.roadName}:${r.vpd}`).join(', ')}`);
+
+  // STEP 5b: Multi-year history and growth for the matched roads
+  const trendedRoads = await Promise.all(matchedRoads.map(road => completeTrend(road, stateCode)));
+  matchedRoads.splice(0, matchedRoads.length, ...trendedRoads);
+  const growth = summarizeGrowth(matchedRoads);
+  for (const road of matchedRoads) {
+    if (road.trend?.cagr != null) {
+      console.log(`[Traffic] Trend for ${road.roadName}: ${road.trend.history.length} years, CAGR ${(road.trend.cagr * 100).toFixed(1)}%, ${road.trend.anomalies.length} anomalies`);
+    }
+  }
+
+  // STEP 5c: Hourly/directional profiles for the matched roads
+  const profiles = await buildRoadProfiles(lat, lng, matchedRoads, osmRoads, place);
+  for (const profile of profiles) {
+    console.log(`[Traffic] Profile for ${profile.roadName}: ${profile.profileType} (${profile.factorSource} K=${profile.kFactor}, D=${profile.dFactor}), site side ${profile.siteSideDirection ?? 'unknown'}`);
+  }
+
+  // STEP 5: Get TomTom real-time traffic
+  const flowData = await fetchTomTomTraffic(lat, lng, apiKey);
+
+  const currentSpeed = flowData?.currentSpeed || 35;
+  const freeFlowSpeed = flowData?.freeFlowSpeed || 45;
+  const congestionPercent = freeFlowSpeed > 0
+    ? Math.max(0, Math.round((1 - currentSpeed / freeFlowSpeed) * 100))
+    : 0;
+
+  let trafficLevel = 'Free Flow';
+  if (congestionPercent > 50) trafficLevel = 'Heavy';
+  else if (congestionPercent > 25) trafficLevel = 'Moderate';
+  else if (congestionPercent > 10) trafficLevel = 'Light';
+
+  // STEP 6: Calculate averages and prepare response
+  const hasMultipleRoads = matchedRoads.length > 1;
+  const totalVPD = matchedRoads.reduce((sum, r) => sum + r.vpd, 0);
+  const averageVPD = hasMultipleRoads ? Math.round(totalVPD / matchedRoads.length) : undefined;
+
+  // Primary VPD is the highest among matched roads (or average if multiple)
+  const primaryVPD = matchedRoads.length > 0
+    ? (hasMultipleRoads ? averageVPD! : matchedRoads[0].vpd)
+    : 0;
+
+  // Primary road name
+  const primaryRoad = matchedRoads.length > 0
+    ? matchedRoads[0].roadName
+    : (propertyStreet || 'Unknown');
+
+  // Get road classification from OSM data
+  let roadClassification = 'Unknown';
+  if (propertyOSMRoad) {
+    roadClassification = HIGHWAY_TYPE_LABELS[propertyOSMRoad.highwayType] || 'Road';
+  } else if (osmRoads.length > 0) {
+    // Use the first (highest priority) road's type
+    roadClassification = HIGHWAY_TYPE_LABELS[osmRoads[0].highwayType] || 'Road';
+  } else if (primaryVPD >= 25000) {
+    roadClassification = 'Major Arterial';
+  } else if (primaryVPD >= 15000) {
+    roadClassification = 'Primary Arterial';
+  } else if (primaryVPD >= 8000) {
+    roadClassification = 'Secondary Arterial';
+  } else if (primaryVPD >= 3000) {
+    roadClassification = 'Collector Road';
+  } else {
+    roadClassification = 'Local Road';
+  }
+
+  // Build VPD source string
+  let vpdSource = '';
+  if (matchedRoads.length > 1) {
+    vpdSource = `Average of ${matchedRoads.length} roads: ${matchedRoads.map(r => r.roadName).join(', ')}`;
+  } else if (matchedRoads.length === 1) {
+    vpdSource = `${matchedRoads[0].source} - ${matchedRoads[0].roadName} (${matchedRoads[0].year})`;
+  } else {
+    vpdSource = 'No official data available';
+  }
+
+  // Build VPD range string - show ±15% range for single road official counts
+  let vpdRange = '';
+  if (matchedRoads.length > 1) {
+    const minVPD = Math.min(...matchedRoads.map(r => r.vpd));
+    const maxVPD = Math.max(...matchedRoads.map(r => r.vpd));
+    vpdRange = `${minVPD.toLocaleString()} - ${maxVPD.toLocaleString()}`;
+  } else if (matchedRoads.length === 1) {
+    // Show ±15% variance range even for official counts (accounts for seasonal variation)
+    const vpd = matchedRoads[0].vpd;
+    const lowRange = Math.round(vpd * 0.85);
+    const highRange = Math.round(vpd * 1.15);
+    vpdRange = `${lowRange.toLocaleString()} - ${highRange.toLocaleString()}`;
+  } else {
+    vpdRange = 'N/A';
+  }
+
+  console.log(`[Traffic] Response: VPD=${primaryVPD}, Roads=${matchedRoads.length}, HasMultiple=${hasMultipleRoads}`);
+
+  return {
+    roads: matchedRoads,
+    estimatedVPD: primaryVPD,
+    vpdRange,
+    vpdSource,
+    roadType: roadClassification,
+    currentSpeed: Math.round(currentSpeed),
+    freeFlowSpeed: Math.round(freeFlowSpeed),
+    currentTravelTime: flowData?.currentTravelTime || 0,
+    freeFlowTravelTime: flowData?.freeFlowTravelTime || 0,
+    confidence: flowData?.confidence || 0,
+    trafficLevel,
+    congestionPercent,
+    hasMultipleRoads,
+    averageVPD,
+    growth,
+    profiles,
+  };
+}
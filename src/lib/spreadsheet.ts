@@ -0,0 +1,287 @@
+// Minimal CSV and XLSX reading/writing for tabular data exchange
+// Only the first worksheet of a workbook is read; cells come back as strings (numbers in their
+// stored form), which keeps parsing and validation in the callers that know the column types.
+// Blank rows are kept so a row's index still matches the line the user sees (see sheetTable)
+
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+export type SheetRows = string[][];
+
+export interface SheetRecord {
+  // 1-based row number in the sheet
+  row: number;
+  cells: string[];
+}
+
+export interface SheetTable {
+  header: string[];
+  headerRow: number;
+  records: SheetRecord[];
+}
+
+export const SPREADSHEET_CONTENT_TYPES: Record<SpreadsheetFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// ============ CSV ============
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(text: string): SheetRows {
+  const rows: SheetRows = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(rows: SheetRows): string {
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// ============ XLSX ============
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function encodeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab/newline aren't allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+// Text of all <t> runs inside a shared string or inline string (rich text has several)
+function runText(xml: string): string {
+  const runs = [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map(m => decodeXml(m[1]));
+  return runs.join('');
+}
+
+// "AB12" -> 27 (zero-based column index)
+function columnIndex(ref: string): number {
+  const letters = ref.replace(/\d+$/, '');
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function firstSheetPath(files: Record<string, Uint8Array>): string {
+  const workbook = files['xl/workbook.xml'] ? strFromU8(files['xl/workbook.xml']) : '';
+  const rels = files['xl/_rels/workbook.xml.rels'] ? strFromU8(files['xl/_rels/workbook.xml.rels']) : '';
+  const relId = workbook.match(/<sheet\s[^>]*r:id="([^"]+)"/)?.[1];
+  const target = relId && rels.match(new RegExp(`<Relationship\\s[^>]*Id="${relId}"[^>]*Target="([^"]+)"`))?.[1]
+    || rels.match(new RegExp(`<Relationship\\s[^>]*Target="([^"]+)"[^>]*Id="${relId}"`))?.[1];
+
+  if (target) {
+    return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+  return 'xl/worksheets/sheet1.xml';
+}
+
+export function readXlsx(data: Uint8Array): SheetRows {
+  const files = unzipSync(data);
+  const sheetPath = firstSheetPath(files);
+  if (!files[sheetPath]) {
+    throw new Error('Workbook has no worksheets');
+  }
+
+  const sharedStrings = files['xl/sharedStrings.xml']
+    ? [...strFromU8(files['xl/sharedStrings.xml']).matchAll(/<si>([\s\S]*?)<\/si>/g)].map(m => runText(m[1]))
+    : [];
+
+  const rows: SheetRows = [];
+  const sheet = strFromU8(files[sheetPath]);
+
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row: string[] = [];
+    for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cellMatch[1];
+      const body = cellMatch[2] || '';
+      const ref = attrs.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attrs.match(/\bt="([^"]+)"/)?.[1];
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = '';
+      if (type === 's' && raw !== undefined) {
+        value = sharedStrings[Number(raw)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = runText(body);
+      } else if (type === 'b') {
+        value = raw === '1' ? 'TRUE' : 'FALSE';
+      } else if (raw !== undefined) {
+        value = decodeXml(raw);
+      }
+
+      const index = ref ? columnIndex(ref) : row.length;
+      while (row.length < index) row.push('');
+      row[index] = value;
+    }
+
+    // Rows Excel left out (never edited) still take up their line
+    const rowNumber = Number(rowMatch[1].match(/\br="(\d+)"/)?.[1]);
+    while (rowNumber && rows.length < rowNumber - 1) rows.push([]);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Written as a number, the cell reads back exactly as given: no leading zeros ("01234" APNs and
+// ZIPs) or trailing decimal zeros ("1.50") to lose
+const isCanonicalNumber = (value: string) => value.trim() === value && value !== '' && String(Number(value)) === value;
+
+// Columns whose every value below the header is a number are written as numbers, so spreadsheet
+// formulas and sorting work on them; anything else stays text
+export function writeXlsx(rows: SheetRows, sheetName: string = 'Sheet1'): Uint8Array {
+  const width = Math.max(0, ...rows.map(row => row.length));
+  const numericColumns = Array.from({ length: width }, (_, c) => {
+    const values = rows.slice(1).map(row => row[c] ?? '').filter(value => value !== '');
+    return values.length > 0 && values.every(isCanonicalNumber);
+  });
+
+  const sheetRows = rows.map((row, r) => {
+    const cells = row.map((value, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      if (value === '') return '';
+      if (numericColumns[c] && r > 0) {
+        return `<c r="${ref}"><v>${value}</v></c>`;
+      }
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${encodeXml(value)}</t></is></c>`;
+    });
+    return `<row r="${r + 1}">${cells.join('')}</row>`;
+  });
+
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>'
+    ),
+    '_rels/.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'
+    ),
+    'xl/workbook.xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${encodeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>'
+    ),
+    'xl/_rels/workbook.xml.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '</Relationships>'
+    ),
+    'xl/worksheets/sheet1.xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      `<sheetData>${sheetRows.join('')}</sheetData>` +
+      '</worksheet>'
+    ),
+  };
+
+  return zipSync(files);
+}
+
+// ============ TABLES ============
+
+export function isBlankRow(cells: string[]): boolean {
+  return cells.every(cell => cell.trim() === '');
+}
+
+// The first non-blank row is the header; blank rows under it are skipped and every record keeps its
+// sheet row number for issue reports. Null when the sheet has nothing in it
+export function sheetTable(rows: SheetRows): SheetTable | null {
+  const headerIndex = rows.findIndex(row => !isBlankRow(row));
+  if (headerIndex < 0) return null;
+
+  const records: SheetRecord[] = [];
+  rows.forEach((cells, index) => {
+    if (index > headerIndex && !isBlankRow(cells)) records.push({ row: index + 1, cells });
+  });
+  return { header: rows[headerIndex], headerRow: headerIndex + 1, records };
+}
+
+// ============ FORMAT DETECTION ============
+
+export function spreadsheetFormat(fileName: string, data: Uint8Array): SpreadsheetFormat {
+  // XLSX files are zip archives ("PK\x03\x04")
+  if (data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04) return 'xlsx';
+  return fileName.toLowerCase().endsWith('.xlsx') ? 'xlsx' : 'csv';
+}
+
+export function readSpreadsheet(fileName: string, data: Uint8Array): SheetRows {
+  return spreadsheetFormat(fileName, data) === 'xlsx'
+    ? readXlsx(data)
+    : parseCsv(new TextDecoder().decode(data));
+}
+
+export function writeSpreadsheet(rows: SheetRows, format: SpreadsheetFormat, sheetName?: string): Uint8Array {
+  return format === 'xlsx' ? writeXlsx(rows, sheetName) : strToU8(toCsv(rows));
+}
@@ -0,0 +1,355 @@
+// User-defined tenant profiles - a client's own lot, traffic, income, frontage and co-tenancy
+// criteria, stored server-side and scored alongside the built-in presets and catalog tenants
+
+import { getStore } from '@/lib/db';
+import type { StoredDocument } from '@/lib/db';
+import { CatalogTenant, IncomeLevel, US_REGIONS, tenantExpandsIn } from '@/data/tenantCatalog';
+import { PROFILE_KEY_PREFIX } from '@/lib/business-requirements';
+import { findBrandsPresent } from '@/lib/brands';
+import type { BrandInput } from '@/lib/brands';
+import { ProfileFit, TenantProfile, TenantProfileInput } from '@/types';
+
+export const TENANT_PROFILES_COLLECTION = 'tenant-profiles';
+
+function toTenantProfile(doc: StoredDocument<TenantProfileInput>): TenantProfile {
+  return {
+    ...doc.data,
+    id: doc.id,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+  };
+}
+
+// ============ Validation ============
+
+export class InvalidTenantProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidTenantProfileError';
+  }
+}
+
+function optionalNumber(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new InvalidTenantProfileError(`${field} must be a non-negative number`);
+  }
+  return parsed;
+}
+
+function optionalBoolean(value: unknown, field: string): boolean | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'boolean') {
+    throw new InvalidTenantProfileError(`${field} must be true or false`);
+  }
+  return value;
+}
+
+function stringList(value: unknown, field: string): string[] {
+  if (value === undefined || value === null) return [];
+  const items = typeof value === 'string' ? value.split(',') : value;
+  if (!Array.isArray(items) || items.some(item => typeof item !== 'string')) {
+    throw new InvalidTenantProfileError(`${field} must be a list of strings`);
+  }
+  return [...new Set(items.map(item => item.trim()).filter(Boolean))];
+}
+
+// Normalize and check a profile payload; throws InvalidTenantProfileError with a user-facing message
+export function parseTenantProfileInput(body: Record<string, unknown>): TenantProfileInput {
+  if (typeof body.name !== 'string' || !body.name.trim()) {
+    throw new InvalidTenantProfileError('Profile name is required');
+  }
+
+  const minAcres = optionalNumber(body.minAcres, 'minAcres');
+  const maxAcres = optionalNumber(body.maxAcres, 'maxAcres');
+  const minVPD = optionalNumber(body.minVPD, 'minVPD');
+  if (minAcres === undefined || maxAcres === undefined || minVPD === undefined) {
+    throw new InvalidTenantProfileError('minAcres, maxAcres and minVPD are required');
+  }
+  if (minAcres > maxAcres) {
+    throw new InvalidTenantProfileError('minAcres cannot be greater than maxAcres');
+  }
+
+  const idealVPD = optionalNumber(body.idealVPD, 'idealVPD');
+  if (idealVPD !== undefined && idealVPD < minVPD) {
+    throw new InvalidTenantProfileError('idealVPD cannot be lower than minVPD');
+  }
+
+  const minHHI = optionalNumber(body.minHHI, 'minHHI');
+  const maxHHI = optionalNumber(body.maxHHI, 'maxHHI');
+  if (minHHI !== undefined && maxHHI !== undefined && minHHI > maxHHI) {
+    throw new InvalidTenantProfileError('minHHI cannot be greater than maxHHI');
+  }
+
+  const coTenancy = (body.coTenancy ?? {}) as Record<string, unknown>;
+  const expansionRegions = stringList(body.expansionRegions, 'expansionRegions');
+  const unknownRegion = expansionRegions.find(r => !US_REGIONS[r] && !/^[A-Z]{2}$/.test(r));
+  if (unknownRegion) {
+    throw new InvalidTenantProfileError(`Unknown expansion region: ${unknownRegion}`);
+  }
+
+  return {
+    name: body.name.trim(),
+    description: typeof body.description === 'string' && body.description.trim() ? body.description.trim() : undefined,
+    minAcres,
+    maxAcres,
+    minVPD,
+    idealVPD,
+    zoning: stringList(body.zoning, 'zoning'),
+    minRoadFrontage: optionalNumber(body.minRoadFrontage, 'minRoadFrontage'),
+    preferCornerLot: optionalBoolean(body.preferCornerLot, 'preferCornerLot'),
+    driveThruRequired: optionalBoolean(body.driveThruRequired, 'driveThruRequired'),
+    minHHI,
+    maxHHI,
+    minPopulation: optionalNumber(body.minPopulation, 'minPopulation'),
+    coTenancy: {
+      preferred: stringList(coTenancy.preferred, 'coTenancy.preferred'),
+      excluded: stringList(coTenancy.excluded, 'coTenancy.excluded'),
+    },
+    expansionRegions,
+  };
+}
+
+// ============ Persistence ============
+
+export async function listTenantProfiles(): Promise<TenantProfile[]> {
+  const docs = await getStore().list<TenantProfileInput>(TENANT_PROFILES_COLLECTION);
+  return docs.map(toTenantProfile).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getTenantProfile(id: string): Promise<TenantProfile | null> {
+  const doc = await getStore().get<TenantProfileInput>(TENANT_PROFILES_COLLECTION, id);
+  return doc ? toTenantProfile(doc) : null;
+}
+
+export async function createTenantProfile(input: TenantProfileInput): Promise<TenantProfile> {
+  const doc = await getStore().put<TenantProfileInput>(TENANT_PROFILES_COLLECTION, input);
+  return toTenantProfile(doc);
+}
+
+// Merge a partial payload over the stored profile and re-validate the result
+export async function updateTenantProfile(id: string, updates: Record<string, unknown>): Promise<TenantProfile | null> {
+  const existing = await getStore().get<TenantProfileInput>(TENANT_PROFILES_COLLECTION, id);
+  if (!existing) return null;
+
+  const merged = parseTenantProfileInput({
+    ...existing.data,
+    ...updates,
+    coTenancy: { ...existing.data.coTenancy, ...(updates.coTenancy as object | undefined) },
+  });
+  const doc = await getStore().update<TenantProfileInput>(TENANT_PROFILES_COLLECTION, id, merged);
+  return doc ? toTenantProfile(doc) : null;
+}
+
+export async function deleteTenantProfile(id: string): Promise<boolean> {
+  return getStore().delete(TENANT_PROFILES_COLLECTION, id);
+}
+
+// ============ Scoring ============
+
+// Median household income bands behind the income levels used in retailer matching
+const INCOME_BANDS: { level: IncomeLevel; min: number; max: number }[] = [
+  { level: 'low', min: 0, max: 35000 },
+  { level: 'moderate', min: 35000, max: 50000 },
+  { level: 'middle', min: 50000, max: 75000 },
+  { level: 'upper-middle', min: 75000, max: 100000 },
+  { level: 'high', min: 100000, max: Infinity },
+];
+
+function incomeLevelsForProfile(profile: TenantProfile): IncomeLevel[] {
+  const min = profile.minHHI ?? 0;
+  const max = profile.maxHHI ?? Infinity;
+  return INCOME_BANDS.filter(band => band.max > min && band.min <= max).map(band => band.level);
+}
+
+// Present a profile in catalog form so retailer matching can score it next to the known brands
+export function profileToCatalogTenant(profile: TenantProfile): CatalogTenant {
+  return {
+    id: `${PROFILE_KEY_PREFIX}${profile.id}`,
+    name: profile.name,
+    aliases: [],
+    category: 'MISCELLANEOUS / NICHE',
+    categoryLabel: 'Custom Profile',
+    segment: null,
+    lotAcres: { min: profile.minAcres, max: profile.maxAcres, typical: null },
+    buildingSF: null,
+    minVPD: profile.minVPD,
+    idealVPD: profile.idealVPD ?? null,
+    minPopulation: profile.minPopulation ?? null,
+    minHHI: profile.minHHI ?? null,
+    maxHHI: profile.maxHHI ?? null,
+    incomePreference: incomeLevelsForProfile(profile),
+    targetAge: null,
+    tradeAreaRadius: null,
+    driveThru: profile.driveThruRequired ? 'required' : 'optional',
+    driveThruNotes: null,
+    spaceTypes: [],
+    constructionPreference: null,
+    cornerLotPreferred: profile.preferCornerLot ?? false,
+    endCapAcceptable: false,
+    highwayVisibility: false,
+    shoppingCenterOk: false,
+    parkingRatio: null,
+    locationType: null,
+    frontage: profile.minRoadFrontage ? `${profile.minRoadFrontage}+ ft` : null,
+    minFrontageFeet: profile.minRoadFrontage ?? null,
+    accessRequirements: null,
+    activelyExpanding: true,
+    expansionRegions: profile.expansionRegions.length > 0 ? profile.expansionRegions : ['National'],
+    franchiseAvailable: false,
+    corporateOnly: false,
+    notes: profile.description ?? null,
+    sources: ['tenant-profile'],
+  };
+}
+
+export interface ProfileSite {
+  lotAcres?: number;
+  vpd?: number;
+  zoning?: string;
+  medianIncome?: number;
+  population?: number;
+  stateCode?: string;
+  // Measured from the parcel boundary (see utils/geometry); not scored when absent
+  frontageFeet?: number;
+  isCornerLot?: boolean;
+  // Businesses near the site; co-tenancy isn't scored when absent
+  nearbyBusinesses?: BrandInput[];
+}
+
+// Score a site 0-10 against a profile; a site that misses a hard requirement
+// (lot too small, traffic or frontage well short, excluded co-tenant) is capped at 3
+export function scoreProfileFit(profile: TenantProfile, site: ProfileSite): ProfileFit {
+  const notes: string[] = [];
+  let total = 0;
+  let weights = 0;
+  let meetsRequirements = true;
+
+  if (site.lotAcres !== undefined) {
+    weights += 30;
+    if (site.lotAcres >= profile.minAcres && site.lotAcres <= profile.maxAcres) {
+      total += 30;
+      notes.push(`Lot ${site.lotAcres.toFixed(2)} ac within ${profile.minAcres}-${profile.maxAcres} ac`);
+    } else if (site.lotAcres > profile.maxAcres) {
+      // Oversized lots can be split or partially developed
+      total += 30 * 0.6;
+      notes.push(`Lot ${site.lotAcres.toFixed(2)} ac exceeds ${profile.maxAcres} ac max`);
+    } else {
+      meetsRequirements = site.lotAcres >= profile.minAcres * 0.8;
+      total += site.lotAcres >= profile.minAcres * 0.8 ? 30 * 0.4 : 0;
+      notes.push(`Lot ${site.lotAcres.toFixed(2)} ac below ${profile.minAcres} ac min`);
+    }
+  }
+
+  if (site.vpd !== undefined) {
+    weights += 30;
+    const idealVPD = profile.idealVPD ?? profile.minVPD;
+    if (site.vpd >= idealVPD) {
+      total += 30;
+      notes.push(`${site.vpd.toLocaleString()} VPD meets ${idealVPD.toLocaleString()} target`);
+    } else if (site.vpd >= profile.minVPD) {
+      total += 30 * 0.75;
+      notes.push(`${site.vpd.toLocaleString()} VPD meets ${profile.minVPD.toLocaleString()} minimum`);
+    } else {
+      if (site.vpd < profile.minVPD * 0.7) meetsRequirements = false;
+      total += site.vpd >= profile.minVPD * 0.7 ? 30 * 0.3 : 0;
+      notes.push(`${site.vpd.toLocaleString()} VPD below ${profile.minVPD.toLocaleString()} minimum`);
+    }
+  }
+
+  if (profile.zoning.length > 0 && site.zoning) {
+    weights += 15;
+    const zoning = site.zoning.toUpperCase();
+    if (profile.zoning.some(code => zoning.includes(code.toUpperCase()))) {
+      total += 15;
+      notes.push(`Zoning ${site.zoning} allowed`);
+    } else {
+      notes.push(`Zoning ${site.zoning} not in ${profile.zoning.join(', ')}`);
+    }
+  }
+
+  if (site.medianIncome !== undefined && (profile.minHHI || profile.maxHHI)) {
+    weights += 15;
+    const income = `$${site.medianIncome.toLocaleString()}`;
+    if (profile.minHHI && site.medianIncome < profile.minHHI) {
+      total += site.medianIncome >= profile.minHHI * 0.85 ? 15 * 0.4 : 0;
+      notes.push(`${income} income below $${profile.minHHI.toLocaleString()} min`);
+    } else if (profile.maxHHI && site.medianIncome > profile.maxHHI) {
+      total += 15 * 0.4;
+      notes.push(`${income} income above $${profile.maxHHI.toLocaleString()} max`);
+    } else {
+      total += 15;
+      notes.push(`${income} income in target band`);
+    }
+  }
+
+  if (site.population !== undefined && profile.minPopulation) {
+    weights += 10;
+    if (site.population >= profile.minPopulation) {
+      total += 10;
+    } else {
+      total += site.population >= profile.minPopulation * 0.7 ? 10 * 0.5 : 0;
+      notes.push(`Population ${site.population.toLocaleString()} below ${profile.minPopulation.toLocaleString()}`);
+    }
+  }
+
+  if (site.frontageFeet !== undefined && profile.minRoadFrontage) {
+    weights += 10;
+    if (site.frontageFeet >= profile.minRoadFrontage) {
+      total += 10;
+      notes.push(`${site.frontageFeet} ft frontage meets ${profile.minRoadFrontage} ft minimum`);
+    } else {
+      if (site.frontageFeet < profile.minRoadFrontage * 0.75) meetsRequirements = false;
+      total += site.frontageFeet >= profile.minRoadFrontage * 0.75 ? 10 * 0.5 : 0;
+      notes.push(`${site.frontageFeet} ft frontage below ${profile.minRoadFrontage} ft minimum`);
+    }
+  }
+
+  if (site.isCornerLot !== undefined && profile.preferCornerLot) {
+    weights += 5;
+    if (site.isCornerLot) {
+      total += 5;
+      notes.push('Corner lot');
+    } else {
+      notes.push('Not a corner lot');
+    }
+  }
+
+  if (site.stateCode && profile.expansionRegions.length > 0
+    && !tenantExpandsIn(profileToCatalogTenant(profile), site.stateCode)) {
+    notes.push(`Outside expansion regions (${profile.expansionRegions.join(', ')})`);
+    meetsRequirements = false;
+  }
+
+  let coTenants: ProfileFit['coTenants'];
+  let coTenancyAdjustment = 0;
+  if (site.nearbyBusinesses) {
+    coTenants = {
+      preferred: findBrandsPresent(profile.coTenancy.preferred, site.nearbyBusinesses),
+      excluded: findBrandsPresent(profile.coTenancy.excluded, site.nearbyBusinesses),
+    };
+    if (coTenants.preferred.length > 0) {
+      // Up to a full point for anchors and complementary brands nearby
+      coTenancyAdjustment += Math.min(1, coTenants.preferred.length * 0.35);
+      notes.push(`Preferred co-tenants nearby: ${coTenants.preferred.join(', ')}`);
+    }
+    if (coTenants.excluded.length > 0) {
+      meetsRequirements = false;
+      notes.push(`Excluded businesses nearby: ${coTenants.excluded.join(', ')}`);
+    }
+  }
+
+  let score = weights > 0 ? (total / weights) * 10 : 5;
+  score = Math.min(10, score + coTenancyAdjustment);
+  if (!meetsRequirements) score = Math.min(score, 3);
+
+  return {
+    profileId: profile.id,
+    profileName: profile.name,
+    score: Math.round(score * 10) / 10,
+    meetsRequirements,
+    notes,
+    coTenants,
+  };
+}
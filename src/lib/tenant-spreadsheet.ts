@@ -0,0 +1,397 @@
+// Spreadsheet round-trip for the tenant datasets
+// Exports SE_CRE_TENANTS / RETAILER_REQUIREMENTS to CSV or XLSX, validates an edited sheet against the
+// SETenantRequirement / RetailerRequirements shapes, diffs it against the current data and renders
+// the TypeScript array literal so data updates don't require hand-editing the data modules
+
+import { SE_CRE_TENANTS, SE_CRE_CATEGORIES, SETenantRequirement } from '@/data/seCRETenants';
+import { RETAILER_REQUIREMENTS, RetailerRequirements } from '@/data/retailerRequirements';
+import { INCOME_LEVELS } from '@/data/tenantCatalog';
+import { SheetRows, sheetTable } from './spreadsheet';
+
+export type TenantSheetSchema = 'se-cre' | 'retailer';
+export const TENANT_SHEET_SCHEMAS: TenantSheetSchema[] = ['se-cre', 'retailer'];
+
+type ColumnKind = 'text' | 'number' | 'boolean' | 'list';
+
+interface ColumnSpec {
+  header: string;
+  // Property path; "buildingSF.min" addresses a nested range
+  path: string;
+  kind: ColumnKind;
+  required?: boolean;
+  allowed?: readonly string[];
+}
+
+export interface ImportIssue {
+  // 1-based spreadsheet row, header row included
+  row: number;
+  column: string | null;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface FieldChange {
+  field: string;
+  current: unknown;
+  incoming: unknown;
+}
+
+export interface TenantDiff {
+  added: string[];
+  removed: string[];
+  changed: { name: string; changes: FieldChange[] }[];
+  unchanged: number;
+}
+
+export interface TenantSheetImport<T> {
+  schema: TenantSheetSchema;
+  records: T[];
+  issues: ImportIssue[];
+  diff: TenantDiff;
+}
+
+const SE_CRE_COLUMNS: ColumnSpec[] = [
+  { header: 'ID', path: 'id', kind: 'number' },
+  { header: 'Tenant', path: 'tenant', kind: 'text', required: true },
+  { header: 'Category', path: 'category', kind: 'text', required: true, allowed: SE_CRE_CATEGORIES },
+  { header: 'Building SF Min', path: 'buildingSF.min', kind: 'number' },
+  { header: 'Building SF Max', path: 'buildingSF.max', kind: 'number' },
+  { header: 'Typical Lot (Acres)', path: 'typicalLotAcres', kind: 'number' },
+  { header: 'Lot Min (Acres)', path: 'lotRangeAcres.min', kind: 'number' },
+  { header: 'Lot Max (Acres)', path: 'lotRangeAcres.max', kind: 'number' },
+  { header: 'Min VPD', path: 'minVPD', kind: 'number' },
+  { header: 'Preferred VPD', path: 'preferredVPD', kind: 'number' },
+  { header: 'Min Population', path: 'minPopulation', kind: 'number' },
+  { header: 'Trade Area Radius (mi)', path: 'tradeAreaRadius', kind: 'text' },
+  { header: 'Min HHI', path: 'minHHI', kind: 'number' },
+  { header: 'Target Age Min', path: 'targetAge.min', kind: 'number' },
+  { header: 'Target Age Max', path: 'targetAge.max', kind: 'number' },
+  { header: 'Parking Ratio', path: 'parkingRatio', kind: 'text' },
+  { header: 'Location Type', path: 'locationType', kind: 'text' },
+  { header: 'Frontage', path: 'frontage', kind: 'text' },
+  { header: 'Access Requirements', path: 'accessRequirements', kind: 'text' },
+  { header: 'Notes', path: 'notes', kind: 'text' },
+];
+
+const RETAILER_COLUMNS: ColumnSpec[] = [
+  { header: 'Name', path: 'name', kind: 'text', required: true },
+  { header: 'Category', path: 'category', kind: 'text', required: true },
+  { header: 'Min Lot (Acres)', path: 'minLotSize', kind: 'number', required: true },
+  { header: 'Max Lot (Acres)', path: 'maxLotSize', kind: 'number', required: true },
+  { header: 'Min SF', path: 'minSqFt', kind: 'number' },
+  { header: 'Max SF', path: 'maxSqFt', kind: 'number' },
+  { header: 'Min VPD', path: 'minVPD', kind: 'number', required: true },
+  { header: 'Ideal VPD', path: 'idealVPD', kind: 'number', required: true },
+  { header: 'Income Preference', path: 'incomePreference', kind: 'list', required: true, allowed: INCOME_LEVELS },
+  { header: 'Min Population', path: 'minPopulation', kind: 'number', required: true },
+  { header: 'Min Median Income', path: 'minMedianIncome', kind: 'number' },
+  { header: 'Max Median Income', path: 'maxMedianIncome', kind: 'number' },
+  { header: 'Actively Expanding', path: 'activelyExpanding', kind: 'boolean', required: true },
+  { header: 'Expansion Regions', path: 'expansionRegions', kind: 'list', required: true },
+  { header: 'Franchise Available', path: 'franchiseAvailable', kind: 'boolean', required: true },
+  { header: 'Corporate Only', path: 'corporateOnly', kind: 'boolean', required: true },
+  { header: 'Franchise Fee', path: 'franchiseFee', kind: 'number' },
+  { header: 'Total Investment Min', path: 'totalInvestmentMin', kind: 'number' },
+  { header: 'Total Investment Max', path: 'totalInvestmentMax', kind: 'number' },
+  { header: 'Corner Lot Preferred', path: 'cornerLotPreferred', kind: 'boolean' },
+  { header: 'End Cap Acceptable', path: 'endCapAcceptable', kind: 'boolean' },
+  { header: 'Drive-Thru Required', path: 'driveThruRequired', kind: 'boolean' },
+  { header: 'Last Updated', path: 'lastUpdated', kind: 'text', required: true },
+  { header: 'Source', path: 'source', kind: 'text', required: true },
+  { header: 'Notes', path: 'notes', kind: 'text' },
+];
+
+const SCHEMAS = {
+  'se-cre': { columns: SE_CRE_COLUMNS, nameField: 'tenant', current: SE_CRE_TENANTS as object[] },
+  'retailer': { columns: RETAILER_COLUMNS, nameField: 'name', current: RETAILER_REQUIREMENTS as object[] },
+};
+
+// Ranges that have to be entered as min/max pairs
+const RANGE_FIELDS = ['buildingSF', 'lotRangeAcres', 'targetAge'];
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/['’]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function getPath(record: object, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) =>
+    value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined, record);
+}
+
+function setPath(record: Record<string, unknown>, path: string, value: unknown): void {
+  const [head, tail] = path.split('.');
+  if (!tail) {
+    record[head] = value;
+    return;
+  }
+  const nested = (record[head] as Record<string, unknown> | undefined) || {};
+  nested[tail] = value;
+  record[head] = nested;
+}
+
+function formatCell(value: unknown, kind: ColumnKind): string {
+  if (value === null || value === undefined) return '';
+  if (kind === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (kind === 'list') return (value as string[]).join('; ');
+  return String(value);
+}
+
+// ============ EXPORT ============
+
+export function exportTenantSheet(schema: TenantSheetSchema): SheetRows {
+  const { columns, current } = SCHEMAS[schema];
+  return [
+    columns.map(c => c.header),
+    ...current.map(record => columns.map(c => formatCell(getPath(record, c.path), c.kind))),
+  ];
+}
+
+// ============ VALIDATION ============
+
+function parseCell(
+  raw: string,
+  column: ColumnSpec,
+  row: number,
+  issues: ImportIssue[]
+): unknown {
+  const value = raw.trim();
+  if (value === '') {
+    if (column.required) {
+      issues.push({ row, column: column.header, severity: 'error', message: `${column.header} is required` });
+    }
+    return null;
+  }
+
+  switch (column.kind) {
+    case 'number': {
+      const parsed = Number(value.replace(/[$,]/g, ''));
+      if (!Number.isFinite(parsed) || parsed < 0) {
+        issues.push({ row, column: column.header, severity: 'error', message: `"${value}" is not a valid non-negative number` });
+        return null;
+      }
+      return parsed;
+    }
+    case 'boolean': {
+      const lower = value.toLowerCase();
+      if (['true', 'yes', 'y', '1', 'x'].includes(lower)) return true;
+      if (['false', 'no', 'n', '0'].includes(lower)) return false;
+      issues.push({ row, column: column.header, severity: 'error', message: `"${value}" is not TRUE or FALSE` });
+      return null;
+    }
+    case 'list': {
+      const items = value.split(/[;,]/).map(item => item.trim()).filter(Boolean);
+      const invalid = column.allowed ? items.filter(item => !column.allowed!.includes(item)) : [];
+      if (invalid.length > 0) {
+        issues.push({ row, column: column.header, severity: 'error', message: `Unknown value(s): ${invalid.join(', ')}` });
+      }
+      return items;
+    }
+    default:
+      if (column.allowed && !column.allowed.includes(value)) {
+        issues.push({ row, column: column.header, severity: 'error', message: `"${value}" is not a known category` });
+      }
+      return value;
+  }
+}
+
+function validateRecord(schema: TenantSheetSchema, record: Record<string, unknown>, row: number, issues: ImportIssue[]): void {
+  for (const field of RANGE_FIELDS) {
+    const range = record[field] as { min: number | null; max: number | null } | undefined;
+    if (!range) continue;
+    if ((range.min === null) !== (range.max === null)) {
+      issues.push({ row, column: field, severity: 'error', message: `${field} needs both a min and a max` });
+    } else if (range.min === null) {
+      record[field] = null;
+    } else if (range.min! > range.max!) {
+      issues.push({ row, column: field, severity: 'error', message: `${field} min is greater than max` });
+    }
+  }
+
+  const pairs: [string, string][] = schema === 'se-cre'
+    ? [['minVPD', 'preferredVPD']]
+    : [['minLotSize', 'maxLotSize'], ['minSqFt', 'maxSqFt'], ['minVPD', 'idealVPD'], ['minMedianIncome', 'maxMedianIncome'], ['totalInvestmentMin', 'totalInvestmentMax']];
+  for (const [low, high] of pairs) {
+    const min = record[low];
+    const max = record[high];
+    if (typeof min === 'number' && typeof max === 'number' && min > max) {
+      issues.push({ row, column: high, severity: 'error', message: `${low} (${min}) is greater than ${high} (${max})` });
+    }
+  }
+
+  if (schema === 'se-cre') {
+    const typical = record.typicalLotAcres;
+    const lot = record.lotRangeAcres as { min: number; max: number } | null;
+    if (typeof typical === 'number' && lot && (typical < lot.min || typical > lot.max)) {
+      issues.push({ row, column: 'typicalLotAcres', severity: 'warning', message: `Typical lot ${typical} ac is outside the ${lot.min}-${lot.max} ac range` });
+    }
+  }
+}
+
+// Optional fields on RetailerRequirements are left off rather than set to null
+function compact(schema: TenantSheetSchema, record: Record<string, unknown>): Record<string, unknown> {
+  if (schema !== 'retailer') return record;
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== null));
+}
+
+function parseRows(schema: TenantSheetSchema, rows: SheetRows, issues: ImportIssue[]): Record<string, unknown>[] {
+  const { columns, nameField } = SCHEMAS[schema];
+  const table = sheetTable(rows);
+  if (!table) {
+    issues.push({ row: 1, column: null, severity: 'error', message: 'Sheet is empty' });
+    return [];
+  }
+
+  // Match headers loosely ("Min VPD", "min_vpd" and "minVPD" are the same column)
+  const { header, headerRow, records: body } = table;
+  const columnAt = header.map(h => columns.find(c =>
+    normalizeHeader(c.header) === normalizeHeader(h) || normalizeHeader(c.path) === normalizeHeader(h)
+  ) || null);
+
+  header.forEach((h, i) => {
+    if (!columnAt[i] && h.trim()) {
+      issues.push({ row: headerRow, column: h, severity: 'warning', message: `Unrecognized column "${h}" was ignored` });
+    }
+  });
+  for (const column of columns.filter(c => c.required)) {
+    if (!columnAt.includes(column)) {
+      issues.push({ row: headerRow, column: column.header, severity: 'error', message: `Missing required column "${column.header}"` });
+    }
+  }
+
+  const records: Record<string, unknown>[] = [];
+  const seen = new Map<string, number>();
+
+  body.forEach(({ row, cells }) => {
+    const record: Record<string, unknown> = {};
+    for (const column of columns) {
+      const i = columnAt.indexOf(column);
+      setPath(record, column.path, i >= 0 ? parseCell(cells[i] ?? '', column, row, issues) : null);
+    }
+    validateRecord(schema, record, row, issues);
+
+    const name = record[nameField];
+    if (typeof name === 'string') {
+      const key = normalizeName(name);
+      if (seen.has(key)) {
+        issues.push({ row, column: null, severity: 'error', message: `Duplicate tenant "${name}" (also on row ${seen.get(key)})` });
+      }
+      seen.set(key, row);
+    }
+
+    records.push(compact(schema, record));
+  });
+
+  // SE CRE IDs are sequential; number new rows after the highest existing one
+  if (schema === 'se-cre') {
+    let nextId = Math.max(0, ...records.map(r => (typeof r.id === 'number' ? r.id : 0))) + 1;
+    for (const record of records) {
+      if (record.id === null) record.id = nextId++;
+    }
+  }
+
+  return records;
+}
+
+// ============ DIFF ============
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+export function diffTenantRecords(schema: TenantSheetSchema, incoming: object[]): TenantDiff {
+  const { columns, nameField, current } = SCHEMAS[schema];
+  const nameOf = (record: object) => String((record as Record<string, unknown>)[nameField] ?? '');
+  const currentByName = new Map(current.map(record => [normalizeName(nameOf(record)), record]));
+  const incomingNames = new Set(incoming.map(record => normalizeName(nameOf(record))));
+
+  // Compare whole range objects rather than their min/max columns separately
+  const fields = [...new Set(columns.map(c => c.path.split('.')[0]))].filter(f => f !== 'id');
+
+  const diff: TenantDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+  for (const record of incoming) {
+    const existing = currentByName.get(normalizeName(nameOf(record)));
+    if (!existing) {
+      diff.added.push(nameOf(record));
+      continue;
+    }
+    const changes = fields
+      .filter(field => !sameValue(getPath(existing, field), getPath(record, field)))
+      .map(field => ({ field, current: getPath(existing, field) ?? null, incoming: getPath(record, field) ?? null }));
+    if (changes.length > 0) {
+      diff.changed.push({ name: nameOf(record), changes });
+    } else {
+      diff.unchanged++;
+    }
+  }
+  diff.removed = current.map(nameOf).filter(name => !incomingNames.has(normalizeName(name)));
+  return diff;
+}
+
+// ============ IMPORT ============
+
+export function importTenantSheet(schema: 'se-cre', rows: SheetRows): TenantSheetImport<SETenantRequirement>;
+export function importTenantSheet(schema: 'retailer', rows: SheetRows): TenantSheetImport<RetailerRequirements>;
+export function importTenantSheet(schema: TenantSheetSchema, rows: SheetRows): TenantSheetImport<SETenantRequirement | RetailerRequirements>;
+export function importTenantSheet(schema: TenantSheetSchema, rows: SheetRows): TenantSheetImport<SETenantRequirement | RetailerRequirements> {
+  const issues: ImportIssue[] = [];
+  const records = parseRows(schema, rows, issues) as unknown as (SETenantRequirement | RetailerRequirements)[];
+  return {
+    schema,
+    records,
+    issues: issues.sort((a, b) => a.row - b.row),
+    diff: diffTenantRecords(schema, records),
+  };
+}
+
+// ============ CODE GENERATION ============
+
+// Acreage is written with a decimal place in the data modules ("15.0"), everything else as-is
+const DECIMAL_FIELDS = ['lotRangeAcres', 'minLotSize', 'maxLotSize'];
+
+function literal(value: unknown, quote: "'" | '"', decimal: boolean = false): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return `[${value.map(v => literal(v, quote)).join(', ')}]`;
+  if (typeof value === 'object') {
+    return `{ ${Object.entries(value as Record<string, unknown>).map(([k, v]) => `${k}: ${literal(v, quote, decimal)}`).join(', ')} }`;
+  }
+  if (typeof value === 'number' && decimal && Number.isInteger(value)) {
+    return value.toFixed(1);
+  }
+  if (typeof value === 'string') {
+    const escaped = value.replace(/\\/g, '\\\\').replace(new RegExp(quote, 'g'), `\\${quote}`).replace(/\n/g, '\\n');
+    return `${quote}${escaped}${quote}`;
+  }
+  return String(value);
+}
+
+// Array literal in the same layout as the hand-maintained data modules, ready to replace the existing one
+export function renderTenantSource(schema: 'se-cre', records: SETenantRequirement[]): string;
+export function renderTenantSource(schema: 'retailer', records: RetailerRequirements[]): string;
+export function renderTenantSource(schema: TenantSheetSchema, records: object[]): string;
+export function renderTenantSource(schema: TenantSheetSchema, records: object[]): string {
+  if (schema === 'se-cre') {
+    // Every SETenantRequirement field is written out, null included
+    const body = (records as SETenantRequirement[]).map(({ id, tenant, category, ...rest }) => {
+      const fields = Object.entries(rest)
+        .map(([key, value]) => `    ${key}: ${literal(value, "'", DECIMAL_FIELDS.includes(key))},`);
+      return [`  { id: ${id}, tenant: ${literal(tenant, "'")}, category: ${literal(category, "'")},`, ...fields, '  },'].join('\n');
+    });
+    return `export const SE_CRE_TENANTS: SETenantRequirement[] = [\n${body.join('\n')}\n];\n`;
+  }
+
+  // Retailer records are grouped under a banner comment per category
+  let category = '';
+  const body = (records as RetailerRequirements[]).map(record => {
+    const fields = Object.entries(record)
+      .filter(([, value]) => value !== null && value !== undefined)
+      .map(([key, value]) => `    ${key}: ${literal(value, '"', DECIMAL_FIELDS.includes(key))},`);
+    const banner = record.category !== category ? [`  // ============ ${record.category.toUpperCase()} ============`] : [];
+    category = record.category;
+    return [...banner, '  {', ...fields, '  },'].join('\n');
+  });
+  return `export const RETAILER_REQUIREMENTS: RetailerRequirements[] = [\n${body.join('\n')}\n];\n`;
+}
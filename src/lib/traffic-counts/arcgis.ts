@@ -0,0 +1,243 @@
+// State DOT AADT layers published as ArcGIS REST feature layers (segments or count stations).
+// Agencies name their fields differently, so each layer lists candidate field names and the first one
+// present on a feature is read. A layer's service URL can be overridden with DRONE_SENSE_AADT_URL_<STATE>
+// (e.g. DRONE_SENSE_AADT_URL_GA) when an agency republishes it.
+
+import * as turf from '@turf/turf';
+import { providerFetch } from '@/lib/providers';
+import type { AadtObservation, TrafficCount } from '@/types';
+import type { TrafficCountProvider } from './index';
+
+export interface CountFieldNames {
+  aadt: string[];
+  year: string[];
+  road: string[];
+  segment: string[];
+  route?: string[];
+  from?: string[];
+  to?: string[];
+  // Design factors; defaults to DESIGN_FACTOR_FIELDS
+  kFactor?: string[];
+  dFactor?: string[];
+}
+
+// Common names for the K (peak-hour share) and D (peak-direction share) design factors
+export const DESIGN_FACTOR_FIELDS = {
+  kFactor: ['K_FACTOR', 'KFACTOR', 'KFCTR', 'K_FCTR', 'DESIGN_K'],
+  dFactor: ['D_FACTOR', 'DFACTOR', 'DFCTR', 'D_FCTR', 'DESIGN_D', 'DIR_FACTOR'],
+};
+
+interface ArcGisCountLayer {
+  id: string;
+  agency: string;
+  label: string;
+  state: string;
+  url: string;
+  fields: CountFieldNames;
+  // Station layers are points along the road; search at least this far so a station down the block is found
+  minRadiusMeters?: number;
+  // Layers publishing one feature per station per year: the station id field to query a station's years by
+  annualRowsBy?: string;
+}
+
+type Attributes = Record<string, string | number | null | undefined>;
+
+const LAYERS: ArcGisCountLayer[] = [
+  {
+    id: 'aldot',
+    agency: 'ALDOT',
+    label: 'Alabama DOT AADT',
+    state: 'AL',
+    url: 'https://aldotgis.dot.state.al.us/server/rest/services/TrafficCounts/MapServer/0',
+    fields: {
+      aadt: ['AADT', 'CURRENT_AADT', 'AADT_CUR'],
+      year: ['AADT_YEAR', 'YEAR', 'COUNT_YEAR'],
+      road: ['ROAD_NAME', 'ROUTE_NAME', 'STREET'],
+      segment: ['STATION_ID', 'STATION', 'OBJECTID'],
+      route: ['ROUTE_ID', 'ROUTE'],
+    },
+    minRadiusMeters: 250,
+  },
+  {
+    id: 'gdot',
+    agency: 'GDOT',
+    label: 'Georgia DOT AADT',
+    state: 'GA',
+    url: 'https://rnhp.dot.ga.gov/hosting/rest/services/Traffic_Counts/FeatureServer/0',
+    fields: {
+      aadt: ['AADT', 'AADT_VN', 'Statistics_AADT'],
+      year: ['Year', 'YEAR', 'AADT_YEAR'],
+      road: ['RoadName', 'ROAD_NAME', 'Road_Name', 'Street_Name'],
+      segment: ['TC_NUMBER', 'Station_ID', 'STATION_ID', 'OBJECTID'],
+      route: ['RCLINK', 'ROUTE_ID'],
+    },
+    minRadiusMeters: 250,
+  },
+  {
+    id: 'txdot',
+    agency: 'TxDOT',
+    label: 'Texas DOT AADT',
+    state: 'TX',
+    url: 'https://services.arcgis.com/KTcxiTD9dsQw4r7Z/arcgis/rest/services/TxDOT_AADT_Annuals/FeatureServer/0',
+    fields: {
+      aadt: ['AADT_RPT_QTY', 'AADT', 'F_AADT'],
+      year: ['AADT_RPT_YEAR', 'AADT_YEAR', 'YEAR'],
+      road: ['ON_ROAD', 'RTE_NM', 'ROAD_NAME', 'STREET'],
+      segment: ['TRFC_STATN_ID', 'T_SITE_ID', 'STATION_ID', 'OBJECTID'],
+      route: ['RTE_ID', 'ROUTE_ID'],
+    },
+    minRadiusMeters: 250,
+    annualRowsBy: 'TRFC_STATN_ID',
+  },
+];
+
+// Year-suffixed count columns carrying a feature's earlier counts, e.g. AADT_2019 or ADT2021
+const YEAR_COLUMN_PATTERN = /^(?:AADT|ADT)_?((?:19|20)\d{2})$/i;
+
+// First present, non-empty attribute among the candidates (matched case-insensitively)
+export function pickField(attributes: Attributes, candidates: string[] = []): string | number | null {
+  const keys = Object.keys(attributes);
+  for (const candidate of candidates) {
+    const key = keys.find(k => k.toLowerCase() === candidate.toLowerCase());
+    const value = key ? attributes[key] : undefined;
+    if (value !== undefined && value !== null && String(value).trim() !== '') return value;
+  }
+  return null;
+}
+
+// Factors are published as fractions (0.09) or percents (9.0); null when absent or out of range
+export function toFactor(value: string | number | null | undefined, min: number, max: number): number | null {
+  const n = Number(value);
+  if (!(n > 0)) return null;
+  const fraction = n > 1 ? n / 100 : n;
+  return fraction >= min && fraction <= max ? Math.round(fraction * 1000) / 1000 : null;
+}
+
+// Earlier counts published as year-suffixed columns on the feature, oldest first
+export function yearColumns(attributes: Attributes): AadtObservation[] {
+  const history: AadtObservation[] = [];
+  for (const [key, value] of Object.entries(attributes)) {
+    const year = key.match(YEAR_COLUMN_PATTERN)?.[1];
+    const aadt = Number(value);
+    if (year && aadt > 0) history.push({ year: Number(year), aadt: Math.round(aadt) });
+  }
+  return history.sort((a, b) => a.year - b.year);
+}
+
+// Normalize one feature's attributes to a count; null when it has no positive AADT
+export function toTrafficCount(
+  attributes: Attributes,
+  fields: CountFieldNames,
+  source: { agency: string; label: string; fallbackSegmentId: string; defaultYear?: number }
+): TrafficCount | null {
+  const aadt = Number(pickField(attributes, fields.aadt));
+  if (!(aadt > 0)) return null;
+  const text = (names?: string[]) => {
+    const value = pickField(attributes, names);
+    return value === null ? undefined : String(value).trim();
+  };
+
+  // Layers without a year column publish the latest complete year
+  const year = Number(pickField(attributes, fields.year)) || source.defaultYear || new Date().getFullYear() - 1;
+  const history = yearColumns(attributes);
+  // K above 25% or D outside 50-100% isn't a design factor (likely a different column sharing the name)
+  const kFactor = toFactor(pickField(attributes, fields.kFactor ?? DESIGN_FACTOR_FIELDS.kFactor), 0.01, 0.25);
+  const dFactor = toFactor(pickField(attributes, fields.dFactor ?? DESIGN_FACTOR_FIELDS.dFactor), 0.5, 1);
+  return {
+    agency: source.agency,
+    sourceLabel: source.label,
+    aadt: Math.round(aadt),
+    year,
+    roadName: text(fields.road) ?? '',
+    segmentId: text(fields.segment) ?? source.fallbackSegmentId,
+    routeId: text(fields.route),
+    descFrom: text(fields.from),
+    descTo: text(fields.to),
+    ...(kFactor !== null ? { kFactor } : {}),
+    ...(dFactor !== null ? { dFactor } : {}),
+    ...(history.length > 0 ? { history } : {}),
+  };
+}
+
+interface EsriGeometry {
+  x?: number;
+  y?: number;
+  paths?: number[][][];
+}
+
+function metersFrom(lat: number, lng: number, geometry?: EsriGeometry): number | undefined {
+  const origin = turf.point([lng, lat]);
+  if (geometry?.x !== undefined && geometry.y !== undefined) {
+    return Math.round(turf.distance(origin, turf.point([geometry.x, geometry.y]), { units: 'meters' }));
+  }
+  const paths = geometry?.paths?.filter(path => path.length >= 2);
+  if (paths?.length) {
+    return Math.round(Math.min(...paths.map(path => turf.pointToLineDistance(origin, turf.lineString(path), { units: 'meters' }))));
+  }
+  return undefined;
+}
+
+async function queryLayer(layer: ArcGisCountLayer, params: Record<string, string>): Promise<Array<{ attributes?: Attributes; geometry?: EsriGeometry }>> {
+  const url = process.env[`DRONE_SENSE_AADT_URL_${layer.state}`] || layer.url;
+  const query = new URLSearchParams({ outFields: '*', f: 'json', ...params });
+
+  const response = await providerFetch(`${url}/query?${query}`, { timeoutMs: 10000 });
+  if (!response.ok) throw new Error(`${layer.agency} layer returned ${response.status}`);
+  const data = await response.json();
+  if (data.error) throw new Error(`${layer.agency} layer error: ${data.error.message || data.error.code}`);
+  return data.features || [];
+}
+
+function createProvider(layer: ArcGisCountLayer): TrafficCountProvider {
+  const historyField = layer.annualRowsBy;
+  return {
+    id: layer.id,
+    agency: layer.agency,
+    label: layer.label,
+    states: [layer.state],
+
+    async fetchCounts(lat, lng, radiusMeters) {
+      const distance = Math.max(radiusMeters, layer.minRadiusMeters ?? 0);
+      const features = await queryLayer(layer, {
+        geometry: `${lng},${lat}`,
+        geometryType: 'esriGeometryPoint',
+        inSR: '4326',
+        outSR: '4326',
+        distance: String(Math.round(distance)),
+        units: 'esriSRUnit_Meter',
+        spatialRel: 'esriSpatialRelIntersects',
+        returnGeometry: 'true',
+      });
+
+      const counts: TrafficCount[] = [];
+      features.forEach((feature, index) => {
+        const count = toTrafficCount(feature.attributes || {}, layer.fields, {
+          agency: layer.agency,
+          label: layer.label,
+          fallbackSegmentId: `${layer.id}-${index}`,
+        });
+        if (count) counts.push({ ...count, distanceMeters: metersFrom(lat, lng, feature.geometry) });
+      });
+      return counts.sort((a, b) => (a.distanceMeters ?? Infinity) - (b.distanceMeters ?? Infinity));
+    },
+
+    ...(historyField ? {
+      async fetchHistory(segmentId: string) {
+        const features = await queryLayer(layer, {
+          where: `${historyField} = '${segmentId.replace(/'/g, "''")}'`,
+          returnGeometry: 'false',
+        });
+        return features.flatMap(feature => {
+          const count = toTrafficCount(feature.attributes || {}, layer.fields, {
+            agency: layer.agency,
+            label: layer.label,
+            fallbackSegmentId: segmentId,
+          });
+          return count ? [{ year: count.year, aadt: count.aadt }, ...(count.history ?? [])] : [];
+        });
+      },
+    } : {}),
+  };
+}
+
+export const ARCGIS_COUNT_PROVIDERS: TrafficCountProvider[] = LAYERS.map(createProvider);
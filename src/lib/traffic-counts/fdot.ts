@@ -0,0 +1,58 @@
+// Florida DOT: AADT segments from the Florida Traffic Online (FTO) map service
+
+import { providerFetch } from '@/lib/providers';
+import type { TrafficCount } from '@/types';
+import { toFactor } from './arcgis';
+import type { TrafficCountProvider } from './index';
+
+const FTO_IDENTIFY_URL = 'https://gis.fdot.gov/arcgis/rest/services/FTO/fto_PROD/MapServer/identify';
+const AADT_LAYER = 7;
+
+// identify searches `tolerance` pixels around the point on an image of `mapExtent`; an extent twice
+// the radius across 400 pixels makes 100 pixels of tolerance reach exactly the radius
+const IMAGE_PIXELS = 400;
+const TOLERANCE_PIXELS = 100;
+const METERS_PER_DEGREE = 111320;
+
+const AGENCY = 'FDOT';
+const LABEL = 'Florida DOT AADT';
+
+export const fdotProvider: TrafficCountProvider = {
+  id: 'fdot',
+  agency: AGENCY,
+  label: LABEL,
+  states: ['FL'],
+
+  async fetchCounts(lat, lng, radiusMeters) {
+    const half = (radiusMeters * 2) / METERS_PER_DEGREE;
+    const mapExtent = `${lng - half},${lat - half},${lng + half},${lat + half}`;
+    const url = `${FTO_IDENTIFY_URL}?` +
+      `geometry=${lng},${lat}&geometryType=esriGeometryPoint&sr=4326&` +
+      `layers=all:${AADT_LAYER}&tolerance=${TOLERANCE_PIXELS}&mapExtent=${mapExtent}&imageDisplay=${IMAGE_PIXELS},${IMAGE_PIXELS},96&` +
+      `returnGeometry=false&f=json`;
+
+    const response = await providerFetch(url, { timeoutMs: 8000 });
+    if (!response.ok) throw new Error(`FTO returned ${response.status}`);
+
+    const data = await response.json();
+    const counts: TrafficCount[] = [];
+    for (const result of data.results || []) {
+      const attrs = result.attributes;
+      if (!attrs || !(Number(attrs.AADT) > 0)) continue;
+      counts.push({
+        agency: AGENCY,
+        sourceLabel: LABEL,
+        aadt: Number(attrs.AADT),
+        year: Number(attrs.YEAR_) || new Date().getFullYear() - 1,
+        roadName: attrs.ROAD_NAME || attrs.ROADNAME || '',
+        segmentId: attrs.ROADWAY || '',
+        routeId: attrs.ROUTE_ID || attrs.ROUTEID || undefined,
+        descFrom: attrs.DESC_FRM || undefined,
+        descTo: attrs.DESC_TO || undefined,
+        kFactor: toFactor(attrs.KFCTR, 0.01, 0.25) ?? undefined,
+        dFactor: toFactor(attrs.DFCTR, 0.5, 1) ?? undefined,
+      });
+    }
+    return counts;
+  },
+};
@@ -0,0 +1,107 @@
+// Traffic count providers: AADT from the DOT of the state a site is in, plus any count layers
+// imported locally (county or MPO counts), behind one lookup used by the traffic, access point and
+// batch routes
+
+import { providerFetch } from '@/lib/providers';
+import type { AadtObservation, TrafficCount } from '@/types';
+import { fdotProvider } from './fdot';
+import { ARCGIS_COUNT_PROVIDERS } from './arcgis';
+import { findLocalCounts } from './local';
+
+export {
+  importTrafficCountLayer,
+  listTrafficCountDatasets,
+  deleteTrafficCountDataset,
+  TrafficCountImportError,
+} from './local';
+export type { TrafficCountImportOptions, TrafficCountImportResult } from './local';
+export { analyzeTrend, collectHistory, mergeHistory, summarizeGrowth, PROJECTION_YEARS } from './trend';
+
+export interface TrafficCountProvider {
+  id: string;
+  // Short agency name shown in vpdSource, e.g. 'FDOT'
+  agency: string;
+  label: string;
+  // Two-letter state codes the provider covers
+  states: string[];
+  fetchCounts(lat: number, lng: number, radiusMeters: number): Promise<TrafficCount[]>;
+  // Every published year for one segment/station, for sources whose nearby query returns only the latest
+  fetchHistory?(segmentId: string): Promise<AadtObservation[]>;
+}
+
+export interface TrafficCountQuery {
+  radiusMeters: number;
+  // Resolved with resolveStateCode when omitted; null queries every state provider
+  stateCode?: string | null;
+}
+
+const providers: TrafficCountProvider[] = [fdotProvider, ...ARCGIS_COUNT_PROVIDERS];
+
+// Add or replace a state provider (e.g. a DOT whose service isn't built in)
+export function registerTrafficCountProvider(provider: TrafficCountProvider): void {
+  const index = providers.findIndex(p => p.id === provider.id);
+  if (index >= 0) providers[index] = provider;
+  else providers.push(provider);
+}
+
+export function getTrafficCountProviders(stateCode?: string | null): TrafficCountProvider[] {
+  if (!stateCode) return [...providers];
+  return providers.filter(p => p.states.includes(stateCode.toUpperCase()));
+}
+
+// Two-letter state code for a point from the FCC area API; null outside the US or on failure
+export async function resolveStateCode(lat: number, lng: number): Promise<string | null> {
+  try {
+    const url = `https://geo.fcc.gov/api/census/area?lat=${lat}&lon=${lng}&format=json`;
+    const response = await providerFetch(url, { timeoutMs: 8000 });
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.results?.[0]?.state_code || null;
+  } catch (error) {
+    console.error('[TrafficCounts] State lookup failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Counts near a point from imported layers and the state's DOT, imported counts first
+ * (they're usually more local and more recent). A failing source is logged and skipped.
+ */
+export async function fetchTrafficCounts(lat: number, lng: number, query: TrafficCountQuery): Promise<TrafficCount[]> {
+  const stateCode = query.stateCode === undefined ? await resolveStateCode(lat, lng) : query.stateCode;
+  const sources: Array<{ name: string; fetch: () => Promise<TrafficCount[]> }> = [
+    { name: 'local layers', fetch: () => findLocalCounts(lat, lng, query.radiusMeters) },
+    ...getTrafficCountProviders(stateCode).map(provider => ({
+      name: provider.agency,
+      fetch: () => provider.fetchCounts(lat, lng, query.radiusMeters),
+    })),
+  ];
+
+  const results = await Promise.all(sources.map(async source => {
+    try {
+      return await source.fetch();
+    } catch (error) {
+      console.error(`[TrafficCounts] ${source.name} lookup failed:`, error);
+      return [];
+    }
+  }));
+  return results.flat();
+}
+
+/**
+ * Earlier years for a count from the provider that published it, when the provider can look them up.
+ * Empty for imported layers (their years arrive with the nearby query) and on failure.
+ */
+export async function fetchCountHistory(
+  count: Pick<TrafficCount, 'agency' | 'segmentId'>,
+  stateCode: string | null
+): Promise<AadtObservation[]> {
+  const provider = getTrafficCountProviders(stateCode).find(p => p.agency === count.agency && p.fetchHistory);
+  if (!provider) return [];
+  try {
+    return await provider.fetchHistory!(count.segmentId);
+  } catch (error) {
+    console.error(`[TrafficCounts] ${provider.agency} history lookup failed for ${count.segmentId}:`, error);
+    return [];
+  }
+}
@@ -0,0 +1,219 @@
+// Locally imported count layers: a county or MPO count file (GeoJSON or zipped shapefile) stored in the
+// document store and searched by distance alongside the state DOT services
+
+import * as turf from '@turf/turf';
+import { getStore } from '@/lib/db';
+import type { StoredDocument } from '@/lib/db';
+import { readShapefileZip } from '@/lib/shapefile';
+import type { ImportIssue } from '@/lib/tenant-spreadsheet';
+import type { TrafficCount, TrafficCountDataset } from '@/types';
+import { CountFieldNames, pickField, toTrafficCount } from './arcgis';
+
+export const TRAFFIC_COUNT_LAYERS_COLLECTION = 'traffic-count-layers';
+
+const MAX_IMPORT_FEATURES = 50000;
+const METERS_PER_DEGREE = 111320;
+
+// Column names recognized in imported layers, in order of preference
+const IMPORT_FIELDS: CountFieldNames = {
+  aadt: ['AADT', 'AADT_CUR', 'CURRENT_AADT', 'AADT_RPT_QTY', 'AADT_VN', 'ADT', 'TRAFFIC', 'VOLUME', 'COUNT'],
+  year: ['AADT_YEAR', 'YEAR', 'YEAR_', 'COUNT_YEAR', 'AADT_YR', 'YR'],
+  road: ['ROAD_NAME', 'ROADNAME', 'ROAD', 'STREET', 'ST_NAME', 'FULLNAME', 'ROUTE_NAME', 'NAME'],
+  segment: ['SEGMENT_ID', 'STATION_ID', 'STATION', 'SITE_ID', 'ROADWAY', 'COUNT_ID'],
+  route: ['ROUTE_ID', 'ROUTEID', 'ROUTE'],
+  from: ['DESC_FRM', 'FROM_DESC', 'BEGIN_DESC', 'FROM_STREET'],
+  to: ['DESC_TO', 'TO_DESC', 'END_DESC', 'TO_STREET'],
+};
+
+interface LocalCountFeature extends TrafficCount {
+  // [lng, lat] parts; points are single-coordinate parts
+  parts: Array<[number, number][]>;
+}
+
+interface TrafficCountLayer {
+  name: string;
+  agency: string;
+  years: { min: number; max: number };
+  bounds: [number, number, number, number];
+  features: LocalCountFeature[];
+}
+
+export interface TrafficCountImportOptions {
+  name?: string;
+  // Agency credited in vpdSource, e.g. 'Leon County' or 'CAMPO'
+  agency?: string;
+  // Count year for layers without a year column
+  year?: number;
+}
+
+export interface TrafficCountImportResult {
+  dataset: TrafficCountDataset | null;
+  imported: number;
+  skipped: number;
+  issues: ImportIssue[];
+}
+
+export class TrafficCountImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrafficCountImportError';
+  }
+}
+
+function toDataset(doc: StoredDocument<TrafficCountLayer>): TrafficCountDataset {
+  const { name, agency, years, bounds, features } = doc.data;
+  return { id: doc.id, name, agency, featureCount: features.length, years, bounds, importedAt: doc.createdAt };
+}
+
+type RawFeature = { parts: Array<[number, number][]>; attributes: Record<string, string | number | null> };
+
+// GeoJSON points and lines; polygons (e.g. count zones) aren't traffic counts and are skipped
+function readGeoJson(text: string): RawFeature[] {
+  let data;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new TrafficCountImportError('File is not valid JSON');
+  }
+  if (data?.type !== 'FeatureCollection' || !Array.isArray(data.features)) {
+    throw new TrafficCountImportError('GeoJSON must be a FeatureCollection');
+  }
+
+  return data.features.map((feature: { geometry?: { type: string; coordinates: unknown }; properties?: Record<string, string | number | null> }) => {
+    const geometry = feature.geometry;
+    let parts: Array<[number, number][]> = [];
+    if (geometry?.type === 'Point') parts = [[geometry.coordinates as [number, number]]];
+    else if (geometry?.type === 'MultiPoint' || geometry?.type === 'LineString') parts = [geometry.coordinates as [number, number][]];
+    else if (geometry?.type === 'MultiLineString') parts = geometry.coordinates as Array<[number, number][]>;
+    return { parts: parts.map(part => part.map(([x, y]) => [x, y] as [number, number])), attributes: feature.properties || {} };
+  });
+}
+
+function readShapefile(data: Uint8Array): RawFeature[] {
+  let shapefile;
+  try {
+    shapefile = readShapefileZip(data);
+  } catch (err) {
+    throw new TrafficCountImportError(err instanceof Error ? err.message : String(err));
+  }
+  if (shapefile.projection && /^\s*PROJCS/i.test(shapefile.projection)) {
+    const name = shapefile.projection.match(/^\s*PROJCS\["([^"]+)"/i)?.[1] || 'a projected coordinate system';
+    throw new TrafficCountImportError(`Shapefile is in ${name}; reproject it to WGS 84 (EPSG:4326) before importing`);
+  }
+  return shapefile.records;
+}
+
+/**
+ * Parse a GeoJSON file or zipped shapefile of counts and store it as one layer.
+ * Features without a positive AADT or usable coordinates are reported and skipped.
+ */
+export async function importTrafficCountLayer(
+  fileName: string,
+  data: Uint8Array,
+  options: TrafficCountImportOptions = {}
+): Promise<TrafficCountImportResult> {
+  const isZip = data[0] === 0x50 && data[1] === 0x4b;
+  const raw = isZip ? readShapefile(data) : readGeoJson(new TextDecoder().decode(data));
+  if (raw.length > MAX_IMPORT_FEATURES) {
+    throw new TrafficCountImportError(`Layer has ${raw.length.toLocaleString()} features; the limit is ${MAX_IMPORT_FEATURES.toLocaleString()}`);
+  }
+
+  const agency = options.agency?.trim() || 'Local';
+  const name = options.name?.trim() || fileName.replace(/\.[^.]+$/, '');
+  const label = `${agency} AADT`;
+  const issues: ImportIssue[] = [];
+  const features: LocalCountFeature[] = [];
+  const datasetKey = Date.now().toString(36);
+  let undated = 0;
+
+  raw.forEach((feature, index) => {
+    const row = index + 1;
+    const parts = feature.parts.filter(part => part.length > 0);
+    const coords = parts.flat();
+    if (coords.length === 0) {
+      issues.push({ row, column: null, severity: 'warning', message: 'Feature has no point or line geometry' });
+      return;
+    }
+    if (coords.some(([x, y]) => !(Math.abs(x) <= 180 && Math.abs(y) <= 90))) {
+      issues.push({ row, column: null, severity: 'error', message: 'Coordinates are not longitude/latitude' });
+      return;
+    }
+
+    const count = toTrafficCount(feature.attributes, IMPORT_FIELDS, {
+      agency,
+      label,
+      fallbackSegmentId: `${datasetKey}-${row}`,
+      defaultYear: options.year,
+    });
+    if (!count) {
+      issues.push({ row, column: 'AADT', severity: 'error', message: 'No positive AADT value' });
+      return;
+    }
+    if (!options.year && pickField(feature.attributes, IMPORT_FIELDS.year) === null) undated++;
+    features.push({ ...count, parts });
+  });
+
+  if (undated > 0) {
+    issues.push({
+      row: 1,
+      column: 'YEAR',
+      severity: 'warning',
+      message: `No count year on ${undated} feature(s); dated ${new Date().getFullYear() - 1}. Set a year when importing to override`,
+    });
+  }
+
+  if (features.length === 0) {
+    return { dataset: null, imported: 0, skipped: raw.length, issues };
+  }
+
+  const coords = features.flatMap(f => f.parts.flat());
+  const lngs = coords.map(([x]) => x);
+  const lats = coords.map(([, y]) => y);
+  const years = features.map(f => f.year);
+  const layer: TrafficCountLayer = {
+    name,
+    agency,
+    years: { min: Math.min(...years), max: Math.max(...years) },
+    bounds: [Math.min(...lats), Math.min(...lngs), Math.max(...lats), Math.max(...lngs)],
+    features,
+  };
+
+  const doc = await getStore().put<TrafficCountLayer>(TRAFFIC_COUNT_LAYERS_COLLECTION, layer);
+  console.log(`[TrafficCounts] Imported ${features.length} counts from ${fileName} as "${name}" (${raw.length - features.length} skipped)`);
+  return { dataset: toDataset(doc), imported: features.length, skipped: raw.length - features.length, issues };
+}
+
+export async function listTrafficCountDatasets(): Promise<TrafficCountDataset[]> {
+  const docs = await getStore().list<TrafficCountLayer>(TRAFFIC_COUNT_LAYERS_COLLECTION, { order: 'desc' });
+  return docs.map(toDataset);
+}
+
+export async function deleteTrafficCountDataset(id: string): Promise<boolean> {
+  return getStore().delete(TRAFFIC_COUNT_LAYERS_COLLECTION, id);
+}
+
+function featureDistance(origin: ReturnType<typeof turf.point>, parts: Array<[number, number][]>): number {
+  return Math.min(...parts.map(part => part.length === 1
+    ? turf.distance(origin, turf.point(part[0]), { units: 'meters' })
+    : turf.pointToLineDistance(origin, turf.lineString(part), { units: 'meters' })));
+}
+
+// Imported counts within the radius, nearest first
+export async function findLocalCounts(lat: number, lng: number, radiusMeters: number): Promise<TrafficCount[]> {
+  const docs = await getStore().list<TrafficCountLayer>(TRAFFIC_COUNT_LAYERS_COLLECTION);
+  const origin = turf.point([lng, lat]);
+  const marginLat = radiusMeters / METERS_PER_DEGREE;
+  const marginLng = marginLat / Math.cos(lat * Math.PI / 180);
+
+  const counts: TrafficCount[] = [];
+  for (const { data: layer } of docs) {
+    const [south, west, north, east] = layer.bounds;
+    if (lat < south - marginLat || lat > north + marginLat || lng < west - marginLng || lng > east + marginLng) continue;
+
+    for (const { parts, ...count } of layer.features) {
+      const distanceMeters = Math.round(featureDistance(origin, parts));
+      if (distanceMeters <= radiusMeters) counts.push({ ...count, distanceMeters });
+    }
+  }
+  return counts.sort((a, b) => a.distanceMeters! - b.distanceMeters!);
+}
@@ -0,0 +1,132 @@
+// AADT trend analysis: growth rate from a log-linear fit of a segment's annual counts, anomalous
+// years (fitted without the year itself, so one bad count can't hide itself) and a short projection
+
+import type { AadtAnomaly, AadtObservation, TrafficCount, TrafficGrowth, TrafficTrend, TrafficTrendDirection } from '@/types';
+
+export const PROJECTION_YEARS = 5;
+
+// A year deviating more than this from the trend of the other years is an anomaly
+const ANOMALY_THRESHOLD = 0.25;
+// Leave-one-out fits need at least three other years to be meaningful
+const MIN_YEARS_FOR_ANOMALIES = 4;
+// Annual growth beyond ±1.5% counts as growing/declining
+const DIRECTION_THRESHOLD = 0.015;
+// Projections don't compound more than ±10%/yr, whatever a short history says
+const MAX_PROJECTION_RATE = 0.1;
+
+/**
+ * Merge annual counts into one history, oldest first. For a year present in several lists the
+ * first list that has it wins; within a list the highest count wins (matching how a segment's
+ * best count is picked).
+ */
+export function mergeHistory(...lists: AadtObservation[][]): AadtObservation[] {
+  const byYear = new Map<number, number>();
+  for (const list of lists) {
+    const listYears = new Map<number, number>();
+    for (const { year, aadt } of list) {
+      if (!(aadt > 0) || byYear.has(year)) continue;
+      listYears.set(year, Math.max(aadt, listYears.get(year) ?? 0));
+    }
+    listYears.forEach((aadt, year) => byYear.set(year, aadt));
+  }
+  return Array.from(byYear, ([year, aadt]) => ({ year, aadt })).sort((a, b) => a.year - b.year);
+}
+
+// History of one segment from its counts: reported counts first, then history columns
+export function collectHistory(counts: TrafficCount[]): AadtObservation[] {
+  return mergeHistory(
+    counts.map(({ year, aadt }) => ({ year, aadt })),
+    counts.flatMap(count => count.history ?? [])
+  );
+}
+
+// Least squares on ln(aadt) by year
+function fitLogLinear(points: AadtObservation[]): { intercept: number; slope: number } {
+  const n = points.length;
+  const meanX = points.reduce((sum, p) => sum + p.year, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + Math.log(p.aadt), 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  for (const p of points) {
+    sxx += (p.year - meanX) ** 2;
+    sxy += (p.year - meanX) * (Math.log(p.aadt) - meanY);
+  }
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  return { intercept: meanY - slope * meanX, slope };
+}
+
+function predict(fit: { intercept: number; slope: number }, year: number): number {
+  return Math.exp(fit.intercept + fit.slope * year);
+}
+
+function directionOf(cagr: number | null): TrafficTrendDirection {
+  if (cagr === null) return 'unknown';
+  if (cagr >= DIRECTION_THRESHOLD) return 'growing';
+  if (cagr <= -DIRECTION_THRESHOLD) return 'declining';
+  return 'stable';
+}
+
+function findAnomalies(points: AadtObservation[]): AadtAnomaly[] {
+  if (points.length < MIN_YEARS_FOR_ANOMALIES) return [];
+
+  const anomalies: AadtAnomaly[] = [];
+  points.forEach((point, index) => {
+    const others = points.filter((_, i) => i !== index);
+    const expected = predict(fitLogLinear(others), point.year);
+    const deviation = point.aadt / expected - 1;
+    if (Math.abs(deviation) > ANOMALY_THRESHOLD) {
+      anomalies.push({
+        year: point.year,
+        aadt: point.aadt,
+        expectedAadt: Math.round(expected),
+        deviationPercent: Math.round(deviation * 100),
+      });
+    }
+  });
+  return anomalies;
+}
+
+export function analyzeTrend(
+  history: AadtObservation[],
+  projectionYear: number = new Date().getFullYear() + PROJECTION_YEARS
+): TrafficTrend {
+  const points = mergeHistory(history);
+  const anomalies = findAnomalies(points);
+  const anomalyYears = new Set(anomalies.map(a => a.year));
+  const clean = points.filter(p => !anomalyYears.has(p.year));
+  const fitted = clean.length >= 2 ? clean : points;
+
+  if (fitted.length < 2) {
+    return { history: points, cagr: null, direction: 'unknown', anomalies, projectionYear, projectedVpd: null };
+  }
+
+  const cagr = Math.round((Math.exp(fitLogLinear(fitted).slope) - 1) * 10000) / 10000;
+  const latest = fitted[fitted.length - 1];
+  const rate = Math.max(-MAX_PROJECTION_RATE, Math.min(MAX_PROJECTION_RATE, cagr));
+  const projectedVpd = Math.round(latest.aadt * (1 + rate) ** Math.max(0, projectionYear - latest.year));
+
+  return { history: points, cagr, direction: directionOf(cagr), anomalies, projectionYear, projectedVpd };
+}
+
+/**
+ * Volume-weighted growth across a site's roads. Roads without a trend are projected flat, and the
+ * projection is their average (the same way the traffic route combines roads into one VPD).
+ */
+export function summarizeGrowth(roads: Array<{ vpd: number; trend?: TrafficTrend }>): TrafficGrowth | null {
+  const withCagr = roads.filter(r => r.trend && r.trend.cagr !== null);
+  if (withCagr.length === 0) return null;
+
+  const weight = withCagr.reduce((sum, r) => sum + r.vpd, 0);
+  const cagr = weight > 0
+    ? withCagr.reduce((sum, r) => sum + r.trend!.cagr! * r.vpd, 0) / weight
+    : withCagr.reduce((sum, r) => sum + r.trend!.cagr!, 0) / withCagr.length;
+  const projected = roads.map(r => r.trend?.projectedVpd ?? r.vpd);
+
+  return {
+    cagr: Math.round(cagr * 10000) / 10000,
+    direction: directionOf(cagr),
+    projectionYear: withCagr[0].trend!.projectionYear,
+    projectedVpd: Math.round(projected.reduce((sum, v) => sum + v, 0) / projected.length),
+    roadsWithHistory: withCagr.length,
+  };
+}
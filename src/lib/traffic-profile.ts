@@ -0,0 +1,286 @@
+// Hourly and day-of-week traffic profiles: spreads a road's AADT over a typical weekday by road class,
+// scaled to the count's published K factor and split by direction with its D factor, then oriented
+// against the area's activity center to tell the morning-commute side from the going-home side
+
+import { providerFetch } from '@/lib/providers';
+import type {
+  Daypart,
+  DaypartFit,
+  DaypartVolume,
+  HourlyTraffic,
+  TrafficProfile,
+  TrafficProfileType,
+  TravelDirection,
+} from '@/types';
+
+// Percent of weekday traffic by hour starting, midnight first (typical urban counts by road class)
+const HOURLY_PERCENT: Record<TrafficProfileType, number[]> = {
+  commuter: [0.8, 0.5, 0.4, 0.4, 0.7, 1.8, 4.5, 7.2, 6.6, 5.2, 5.0, 5.6, 6.0, 5.8, 6.0, 6.9, 7.6, 8.0, 6.3, 4.6, 3.6, 2.9, 2.1, 1.5],
+  local: [0.6, 0.3, 0.2, 0.2, 0.4, 1.2, 3.8, 7.5, 6.5, 4.8, 4.8, 5.3, 5.8, 5.6, 6.2, 7.6, 7.9, 8.1, 6.8, 5.0, 3.8, 2.9, 2.0, 1.1],
+  freeway: [1.2, 0.8, 0.7, 0.7, 1.1, 2.5, 5.0, 6.6, 6.1, 5.1, 5.0, 5.3, 5.5, 5.6, 6.0, 6.7, 7.2, 7.3, 6.0, 4.6, 3.8, 3.2, 2.5, 1.8],
+};
+
+// Day volume relative to AADT, Monday first
+const WEEKLY_FACTORS: Record<TrafficProfileType, number[]> = {
+  commuter: [1.02, 1.04, 1.05, 1.06, 1.10, 0.92, 0.81],
+  local: [1.02, 1.03, 1.04, 1.05, 1.08, 0.93, 0.85],
+  freeway: [0.98, 0.97, 0.98, 1.02, 1.12, 1.00, 0.93],
+};
+
+// Directional split of peak-hour traffic when the count doesn't publish one
+const DEFAULT_D_FACTOR: Record<TrafficProfileType, number> = {
+  commuter: 0.57,
+  local: 0.6,
+  freeway: 0.55,
+};
+
+const DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const DAYPARTS: Array<{ daypart: Daypart; label: string; hours: [number, number] }> = [
+  { daypart: 'morning', label: 'Morning (6-10 AM)', hours: [6, 10] },
+  { daypart: 'lunch', label: 'Lunch (11 AM-2 PM)', hours: [11, 14] },
+  { daypart: 'afternoon', label: 'Afternoon (2-4 PM)', hours: [14, 16] },
+  { daypart: 'evening', label: 'Evening (4-8 PM)', hours: [16, 20] },
+  { daypart: 'late-night', label: 'Late night (8 PM-12 AM)', hours: [20, 24] },
+];
+
+// Commute direction the daypart's customers are travelling; lunch and late night have none
+const DAYPART_DIRECTION: Partial<Record<Daypart, TravelDirection>> = {
+  morning: 'inbound',
+  evening: 'outbound',
+};
+
+const METERS_PER_DEGREE = 111320;
+// Sites this close to the activity center have no meaningful inbound side
+const MIN_CENTER_DISTANCE_METERS = 400;
+// Roads running more across than toward the center (|cos| below this) have no inbound side either
+const MIN_RADIAL_ALIGNMENT = 0.35;
+
+// How far the hour's peak-direction share leans toward the D factor: +1 in the AM peak, -1 in the PM
+function directionalWeight(hour: number): number {
+  if (hour >= 6 && hour <= 8) return 1;
+  if (hour === 5 || hour === 9) return 0.5;
+  if (hour >= 15 && hour <= 17) return -1;
+  if (hour === 14 || hour === 18) return -0.5;
+  return 0;
+}
+
+export function profileTypeFor(highwayType: string | undefined): TrafficProfileType {
+  if (!highwayType) return 'commuter';
+  if (/^(motorway|trunk)/.test(highwayType)) return 'freeway';
+  if (/^(primary|secondary)/.test(highwayType)) return 'commuter';
+  return 'local';
+}
+
+// Hourly shares (summing to 1) whose peak hour carries the K factor, by blending toward or away from flat
+function hourlyShares(type: TrafficProfileType, kFactor: number | undefined): number[] {
+  const total = HOURLY_PERCENT[type].reduce((sum, p) => sum + p, 0);
+  const base = HOURLY_PERCENT[type].map(p => p / total);
+  if (!kFactor) return base;
+
+  const flat = 1 / 24;
+  const peak = Math.max(...base);
+  const blend = Math.max(0.5, Math.min(1.6, (kFactor - flat) / (peak - flat)));
+  const shares = base.map(s => Math.max(0.002, flat + blend * (s - flat)));
+  const sum = shares.reduce((acc, s) => acc + s, 0);
+  return shares.map(s => s / sum);
+}
+
+function peakOf(hourly: HourlyTraffic[], from: number, to: number): { hour: number; vpd: number } {
+  const window = hourly.slice(from, to);
+  const peak = window.reduce((best, h) => (h.vpd > best.vpd ? h : best), window[0]);
+  return { hour: peak.hour, vpd: peak.vpd };
+}
+
+export interface TrafficProfileInput {
+  roadName: string;
+  aadt: number;
+  // OSM highway tag of the road, e.g. 'primary'
+  highwayType?: string;
+  // Published with the count; modeled from the road class when missing
+  kFactor?: number;
+  dFactor?: number;
+  siteSideDirection?: TravelDirection | null;
+  activityCenter?: { name: string; lat: number; lng: number } | null;
+}
+
+export function buildTrafficProfile(input: TrafficProfileInput): TrafficProfile {
+  const profileType = profileTypeFor(input.highwayType);
+  const shares = hourlyShares(profileType, input.kFactor);
+  const dFactor = input.dFactor ?? DEFAULT_D_FACTOR[profileType];
+  const siteSide = input.siteSideDirection ?? null;
+
+  const hourly: HourlyTraffic[] = shares.map((share, hour) => {
+    const vpd = Math.round(input.aadt * share);
+    const inbound = Math.round(vpd * (0.5 + (dFactor - 0.5) * directionalWeight(hour)));
+    const outbound = vpd - inbound;
+    return {
+      hour,
+      vpd,
+      inbound,
+      outbound,
+      siteSide: siteSide === null ? null : (siteSide === 'inbound' ? inbound : outbound),
+    };
+  });
+
+  const dayparts: DaypartVolume[] = DAYPARTS.map(({ daypart, label, hours }) => {
+    const slice = hourly.slice(hours[0], hours[1]);
+    return {
+      daypart,
+      label,
+      hours,
+      total: slice.reduce((sum, h) => sum + h.vpd, 0),
+      siteSide: siteSide === null ? null : slice.reduce((sum, h) => sum + h.siteSide!, 0),
+    };
+  });
+
+  const factors = WEEKLY_FACTORS[profileType];
+  const meanFactor = factors.reduce((sum, f) => sum + f, 0) / factors.length;
+
+  const profile: TrafficProfile = {
+    roadName: input.roadName,
+    aadt: input.aadt,
+    profileType,
+    factorSource: input.kFactor || input.dFactor ? 'published' : 'modeled',
+    kFactor: Math.round(Math.max(...shares) * 1000) / 1000,
+    dFactor,
+    hourly,
+    weekly: factors.map((factor, i) => ({ day: DAYS[i], vpd: Math.round(input.aadt * factor / meanFactor) })),
+    dayparts,
+    amPeak: peakOf(hourly, 5, 11),
+    pmPeak: peakOf(hourly, 14, 20),
+    siteSideDirection: siteSide,
+    activityCenter: input.activityCenter ?? null,
+    daypartFits: [],
+  };
+  profile.daypartFits = DAYPARTS.map(({ daypart }) => scoreDaypartFit(profile, daypart));
+  return profile;
+}
+
+export interface RoadLine {
+  // [lat, lng] vertices in way order
+  coordinates: Array<[number, number]>;
+  oneway?: boolean;
+}
+
+/**
+ * Travel direction of the lanes next to the site on the nearest road, relative to the activity center.
+ * Assumes right-hand traffic. Null when the site is at the center or the road runs across rather than
+ * toward it.
+ */
+export function siteSideDirection(
+  site: { lat: number; lng: number },
+  lines: RoadLine[],
+  center: { lat: number; lng: number }
+): TravelDirection | null {
+  const cosLat = Math.cos(site.lat * Math.PI / 180);
+  // Local meters with the site at the origin
+  const toXY = ([lat, lng]: [number, number]) => ({
+    x: (lng - site.lng) * cosLat * METERS_PER_DEGREE,
+    y: (lat - site.lat) * METERS_PER_DEGREE,
+  });
+
+  let nearest: { distance: number; point: { x: number; y: number }; travel: { x: number; y: number } } | null = null;
+  for (const line of lines) {
+    const points = line.coordinates.map(toXY);
+    for (let i = 1; i < points.length; i++) {
+      const a = points[i - 1];
+      const b = points[i];
+      const seg = { x: b.x - a.x, y: b.y - a.y };
+      const lengthSq = seg.x ** 2 + seg.y ** 2;
+      if (lengthSq === 0) continue;
+      const t = Math.max(0, Math.min(1, -(a.x * seg.x + a.y * seg.y) / lengthSq));
+      const point = { x: a.x + t * seg.x, y: a.y + t * seg.y };
+      const distance = Math.hypot(point.x, point.y);
+      if (nearest && distance >= nearest.distance) continue;
+
+      // Two-way roads: the near lanes run with the site on their right (site right of a->b when the cross product is negative)
+      const cross = seg.x * -a.y - seg.y * -a.x;
+      const travel = line.oneway || cross < 0 ? seg : { x: -seg.x, y: -seg.y };
+      nearest = { distance, point, travel };
+    }
+  }
+  if (!nearest) return null;
+
+  const c = toXY([center.lat, center.lng]);
+  const toCenter = { x: c.x - nearest.point.x, y: c.y - nearest.point.y };
+  const centerDistance = Math.hypot(toCenter.x, toCenter.y);
+  if (centerDistance < MIN_CENTER_DISTANCE_METERS) return null;
+
+  const alignment = (nearest.travel.x * toCenter.x + nearest.travel.y * toCenter.y)
+    / (Math.hypot(nearest.travel.x, nearest.travel.y) * centerDistance);
+  if (Math.abs(alignment) < MIN_RADIAL_ALIGNMENT) return null;
+  return alignment > 0 ? 'inbound' : 'outbound';
+}
+
+// The city's center from Nominatim, as a stand-in for where the morning commute heads
+export async function findActivityCenter(
+  city: string,
+  state: string
+): Promise<{ name: string; lat: number; lng: number } | null> {
+  try {
+    const response = await providerFetch(
+      `https://nominatim.openstreetmap.org/search?format=json&city=${encodeURIComponent(city)}&state=${encodeURIComponent(state)}&country=US&limit=1`,
+      { headers: { 'User-Agent': 'DroneSense/1.0' }, timeoutMs: 8000 }
+    );
+    if (!response.ok) return null;
+    const [place] = await response.json();
+    if (!place) return null;
+    return { name: `${city}, ${state}`, lat: parseFloat(place.lat), lng: parseFloat(place.lon) };
+  } catch (error) {
+    console.error('[TrafficProfile] Activity center lookup failed:', error);
+    return null;
+  }
+}
+
+// Daypart share of the day on a typical arterial, the baseline a road's own share is compared to
+function typicalShare(daypart: Daypart): number {
+  const { hours } = DAYPARTS.find(d => d.daypart === daypart)!;
+  const shares = hourlyShares('commuter', undefined);
+  return shares.slice(hours[0], hours[1]).reduce((sum, s) => sum + s, 0);
+}
+
+/**
+ * 0-10 fit of a road for a concept that trades in one daypart; 5 is a typical arterial with the
+ * site side unknown. Up to ±2 for the daypart's share of the day and ±3 for being on the side of the
+ * road that daypart's commute travels (inbound for morning, outbound for evening).
+ */
+export function scoreDaypartFit(profile: TrafficProfile, daypart: Daypart): DaypartFit {
+  const volume = profile.dayparts.find(d => d.daypart === daypart)!;
+  const share = profile.aadt > 0 ? volume.total / profile.aadt : 0;
+  const volumeAdjustment = Math.max(-2, Math.min(2, (share / typicalShare(daypart) - 1) * 10));
+
+  let sideAdjustment = 0;
+  let sideDetail = '';
+  const wanted = DAYPART_DIRECTION[daypart];
+  if (wanted && profile.siteSideDirection) {
+    const strength = profile.dFactor >= 0.6 ? 3 : 2;
+    const onSide = profile.siteSideDirection === wanted;
+    sideAdjustment = onSide ? strength : -strength;
+    const sideName = wanted === 'inbound' ? 'morning-commute (inbound)' : 'going-home (outbound)';
+    sideDetail = onSide ? `; site is on the ${sideName} side` : `; site is across from the ${sideName} side`;
+  }
+
+  const score = Math.max(0, Math.min(10, Math.round((5 + volumeAdjustment + sideAdjustment) * 10) / 10));
+  return {
+    daypart,
+    score,
+    detail: `${volume.label}: ${volume.total.toLocaleString()} vehicles (${Math.round(share * 100)}% of daily)${sideDetail}`,
+  };
+}
+
+// Daypart a tenant trades in, from its name, segment and notes; null for all-day concepts. The broad
+// category is left out: "Coffee / Bakery / Smoothie / Dessert" would make every cookie shop a breakfast stop
+export function tenantDaypart(tenant: { name: string; segment?: string | null; notes?: string | null }): Daypart | null {
+  const text = `${tenant.name} ${tenant.segment ?? ''}`.toLowerCase();
+  const notes = (tenant.notes ?? '').toLowerCase();
+
+  if (/coffee|donut|doughnut|bagel|breakfast|biscuit|bakery|pancake|waffle|\bihop\b|juice|smoothie/.test(text) || /breakfast(\/brunch)? only/.test(notes)) {
+    return 'morning';
+  }
+  if (/casual dining|dinner|steak|brewery|\bpub\b|pizza|grocery|supermarket|liquor|wine|beer/.test(text)) {
+    return 'evening';
+  }
+  if (/sandwich|salad|\bdeli\b/.test(text)) return 'lunch';
+  return null;
+}
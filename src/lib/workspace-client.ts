@@ -0,0 +1,131 @@
+// Browser-side helpers for the project workspace API
+// Resolves the active project, runs the one-time localStorage import and keeps hook instances in sync
+
+import { Project, WorkspaceImport } from '@/types';
+
+const CURRENT_PROJECT_KEY = 'drone-sense-current-project';
+const IMPORT_DONE_KEY = 'drone-sense-workspace-imported';
+const CHANGE_EVENT = 'drone-sense-workspace-change';
+const DEFAULT_PROJECT_NAME = 'My Workspace';
+
+// Legacy localStorage keys written by earlier versions of the hooks
+const LEGACY_KEYS = {
+  savedProperties: 'drone-sense-saved-properties',
+  searchHistory: 'drone-sense-search-history',
+  favorites: 'drone-sense-search-favorites',
+};
+
+export type WorkspaceResource = 'projects' | 'properties' | 'history' | 'favorites' | 'tenant-profiles';
+
+let projectPromise: Promise<string> | null = null;
+
+export async function workspaceFetch<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(path, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed: ${response.status}`);
+  }
+  return data as T;
+}
+
+function readLegacy<T>(key: string): T[] | undefined {
+  try {
+    const stored = localStorage.getItem(key);
+    const parsed = stored ? JSON.parse(stored) : undefined;
+    return Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Copy anything left in localStorage into the project (runs once per browser)
+async function importLegacyData(projectId: string): Promise<void> {
+  if (localStorage.getItem(IMPORT_DONE_KEY)) return;
+
+  const payload: WorkspaceImport = {
+    savedProperties: readLegacy(LEGACY_KEYS.savedProperties),
+    searchHistory: readLegacy(LEGACY_KEYS.searchHistory),
+    favorites: readLegacy(LEGACY_KEYS.favorites),
+  };
+
+  if (payload.savedProperties || payload.searchHistory || payload.favorites) {
+    await workspaceFetch(`/api/projects/${projectId}/import`, {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    });
+  }
+  localStorage.setItem(IMPORT_DONE_KEY, new Date().toISOString());
+}
+
+async function resolveProjectId(): Promise<string> {
+  const { projects } = await workspaceFetch<{ projects: Project[] }>('/api/projects');
+  const storedId = localStorage.getItem(CURRENT_PROJECT_KEY);
+
+  let project = projects.find(p => p.id === storedId) || projects[0];
+  if (!project) {
+    const created = await workspaceFetch<{ project: Project }>('/api/projects', {
+      method: 'POST',
+      body: JSON.stringify({ name: DEFAULT_PROJECT_NAME }),
+    });
+    project = created.project;
+  }
+
+  localStorage.setItem(CURRENT_PROJECT_KEY, project.id);
+
+  try {
+    await importLegacyData(project.id);
+  } catch (err) {
+    // Leave the flag unset so the import is retried on the next load
+    console.error('Failed to import local workspace data:', err);
+  }
+
+  return project.id;
+}
+
+// Get the active project id, creating a default project on first use
+export function getCurrentProjectId(): Promise<string> {
+  if (!projectPromise) {
+    projectPromise = resolveProjectId().catch(err => {
+      projectPromise = null;
+      throw err;
+    });
+  }
+  return projectPromise;
+}
+
+export function setCurrentProjectId(projectId: string): void {
+  localStorage.setItem(CURRENT_PROJECT_KEY, projectId);
+  projectPromise = Promise.resolve(projectId);
+  notifyWorkspaceChange('projects');
+}
+
+// Forget the active project (e.g. after deleting it) so the next lookup picks or creates another
+export function clearCurrentProjectId(): void {
+  localStorage.removeItem(CURRENT_PROJECT_KEY);
+  projectPromise = null;
+  notifyWorkspaceChange('projects');
+}
+
+// Let other hook instances know data changed so they can refetch
+export function notifyWorkspaceChange(resource: WorkspaceResource): void {
+  window.dispatchEvent(new CustomEvent<WorkspaceResource>(CHANGE_EVENT, { detail: resource }));
+}
+
+export function onWorkspaceChange(
+  resources: WorkspaceResource[],
+  listener: () => void
+): () => void {
+  const handler = (event: Event) => {
+    const resource = (event as CustomEvent<WorkspaceResource>).detail;
+    // Switching projects invalidates every resource
+    if (resource === 'projects' || resources.includes(resource)) {
+      listener();
+    }
+  };
+  window.addEventListener(CHANGE_EVENT, handler);
+  return () => window.removeEventListener(CHANGE_EVENT, handler);
+}
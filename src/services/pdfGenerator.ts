@@ -169,11 +169,25 @@ function generateMarketSection(
   });
 
   if (comps && comps.length > 0) {
+    const verified = comps.filter(c => c.verification === 'verified');
+    const estimated = comps.length - verified.length;
     lines.push('');
     lines.push('Comparable Sales:');
-    const avgPrice = Math.round(comps.reduce((sum, c) => sum + c.pricePerSqft, 0) / comps.length);
-    lines.push(`  Average Price/SqFt: $${avgPrice}`);
-    lines.push(`  Number of Comps: ${comps.length}`);
+    if (verified.length > 0) {
+      const avgPrice = Math.round(verified.reduce((sum, c) => sum + c.pricePerSqft, 0) / verified.length);
+      lines.push(`  Recorded Sales: ${verified.length}`);
+      lines.push(`  Average Price/SqFt: $${avgPrice}`);
+      verified.slice(0, 5).forEach(c => {
+        lines.push(`  - ${c.address}: $${c.salePrice.toLocaleString()} (${c.saleDate}, ${c.assetClass || 'Commercial'}, ${c.sourceLabel || 'recorded sale'})`);
+      });
+      if (estimated > 0) {
+        lines.push(`  Regional estimates excluded: ${estimated}`);
+      }
+    } else {
+      const avgPrice = Math.round(comps.reduce((sum, c) => sum + c.pricePerSqft, 0) / comps.length);
+      lines.push('  No recorded sales found nearby');
+      lines.push(`  Estimated Price/SqFt (regional pricing, not transactions): $${avgPrice}`);
+    }
   }
 
   return lines.join('\n');
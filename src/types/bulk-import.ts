@@ -0,0 +1,63 @@
+// Bulk address import: a broker's list of addresses run through the full site analysis pipeline
+import type { FeasibilityScore } from './index';
+import type { FeasibilityRating } from './scoring';
+import type { GeocodeMatchQuality } from './geocode';
+import type { JobItemStatus } from './jobs';
+
+export interface BulkImportIssue {
+  // 1-based spreadsheet row, header row included
+  row: number;
+  column: string | null;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+// One line of the uploaded sheet and, once analyzed, what the pipeline found
+export interface BulkImportRow {
+  // Spreadsheet row the site came from (header is row 1)
+  row: number;
+  // Address as given, or built from street/city/state/zip columns
+  address: string;
+  apn: string | null;
+  // From lat/lng columns when the sheet has them, otherwise from the geocoder
+  coordinates: { lat: number; lng: number } | null;
+  status: JobItemStatus;
+  error?: string;
+  // Low-confidence geocodes, APN mismatches and data sources that didn't answer
+  warnings: string[];
+
+  geocode?: {
+    formattedAddress: string;
+    quality: GeocodeMatchQuality;
+    confidence: number;
+  };
+  parcel?: {
+    apn?: string;
+    acres?: number;
+    zoning?: string;
+    source?: string;
+  };
+  vpd?: number | null;
+  medianIncome?: number | null;
+  population?: number | null;
+  nearbyBusinesses?: number;
+  floodRisk?: 'low' | 'medium' | 'high' | null;
+  environmentalRiskScore?: number | null;
+  avgPricePerSqft?: number | null;
+
+  score?: number;
+  rating?: FeasibilityRating;
+  breakdown?: FeasibilityScore['breakdown'];
+  modelVersion?: string;
+  topRetailers?: Array<{ name: string; matchScore: number }>;
+  retailerMatchCount?: number;
+  completedAt?: string;
+}
+
+// Bulk import job data (see JobSnapshot): the uploaded file and its sites, analyzed ones ranked by
+// score (best first), then queued, running and failed ones in sheet order
+export interface BulkImportView {
+  fileName: string;
+  rows: BulkImportRow[];
+  issues: BulkImportIssue[];
+}
@@ -0,0 +1,33 @@
+// Co-tenancy analysis of a recommended tenant against the businesses around the site
+
+export type CannibalizationRisk = 'none' | 'low' | 'moderate' | 'high';
+
+export interface CoTenant {
+  name: string;
+  // Canonical catalog brand; null for independents and unrecognized names
+  brand: string | null;
+  distance: string;
+  category: string | null;
+}
+
+export interface DirectCompetitor extends CoTenant {
+  // Same finer segment (e.g. "QSR / Chicken"), not just the same category
+  sameSegment: boolean;
+}
+
+export interface ComplementaryAnchor extends CoTenant {
+  // Why the anchor helps, e.g. "Grocery anchor drives daily trips"
+  role: string;
+}
+
+export interface CoTenancyReport {
+  tenantId: string;
+  directCompetitors: DirectCompetitor[];
+  complementaryAnchors: ComplementaryAnchor[];
+  cannibalization: {
+    risk: CannibalizationRisk;
+    sameBrandLocations: CoTenant[];
+    note: string;
+  };
+  summary: string;
+}
@@ -0,0 +1,36 @@
+// Recorded commercial sale transactions used as market comps
+
+export type CompAssetClass = 'Retail' | 'Office' | 'Industrial' | 'Mixed-Use' | 'Hospitality' | 'Multifamily' | 'Land' | 'Other';
+
+// Verified comps are real recorded sales (uploaded or from county records); estimates are synthesized
+// from regional pricing and must never be presented as transactions
+export type CompVerification = 'verified' | 'estimated';
+
+export type CompSource = 'upload' | 'county-records' | 'regional-estimate';
+
+export interface SaleComp {
+  address: string;
+  city?: string;
+  state?: string;
+  zip?: string;
+  salePrice: number;
+  // ISO date (YYYY-MM-DD)
+  saleDate: string;
+  // Building area; absent for land sales
+  sqft?: number;
+  lotSize?: number;
+  propertyType: string;
+  assetClass: CompAssetClass;
+  yearBuilt?: number;
+  apn?: string;
+  coordinates: { lat: number; lng: number };
+  source: CompSource;
+  // File name or county layer the record came from
+  sourceLabel: string;
+  geocodedBy?: 'input' | 'census';
+}
+
+export interface StoredSaleComp extends SaleComp {
+  id: string;
+  importedAt: string;
+}
@@ -1,3 +1,5 @@
+import type { DataProvenance } from './provenance';
+
 export interface NearbyUniversity {
   name: string;
   enrollment: number;
@@ -34,4 +36,5 @@ export interface DemographicsData {
     description: string;
     preferredBusinesses: string[];
   };
+  provenance?: DataProvenance[];
 }
@@ -0,0 +1,21 @@
+// Road frontage measured from parcel geometry against OSM road centerlines (see utils/geometry)
+
+export interface RoadFrontage {
+  roadName: string;
+  roadType: string;
+  frontageFeet: number;
+}
+
+export interface FrontageAnalysis {
+  // Longest frontage first
+  frontages: RoadFrontage[];
+  totalFrontageFeet: number;
+  // Frontage on the road the parcel faces most; tenant minimums are checked against this
+  primaryFrontageFeet: number;
+  // Frontage on two named roads that meet near a parcel vertex
+  isCornerLot: boolean;
+  cornerRoads?: [string, string];
+  // Parcel depth perpendicular to the primary frontage road; null without frontage
+  depthFeet: number | null;
+  depthToFrontageRatio: number | null;
+}
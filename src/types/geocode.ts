@@ -0,0 +1,36 @@
+// Address geocoding: ranked candidates from every geocoder that answered (see lib/geocoding)
+
+export type GeocodeSource = 'google' | 'census' | 'nominatim';
+
+// How precisely a candidate locates the address, best first
+export type GeocodeMatchQuality =
+  | 'rooftop' // Address point or building
+  | 'interpolated' // Placed along the street's address range; right street, approximate spot
+  | 'street' // Somewhere on the named street
+  | 'locality'; // City, ZIP or region only
+
+export interface GeocodeCandidate {
+  lat: number;
+  lng: number;
+  formattedAddress: string;
+  quality: GeocodeMatchQuality;
+  // 0-1; match quality, discounted for partial matches and raised when geocoders agree
+  confidence: number;
+  // Geocoders that returned this location (within a few meters of each other), best first
+  sources: GeocodeSource[];
+}
+
+export interface GeocodeResult {
+  // The top candidate, flattened for callers that just want a point
+  lat: number;
+  lng: number;
+  formattedAddress: string;
+  source: GeocodeSource;
+  quality: GeocodeMatchQuality;
+  confidence: number;
+  // Highest confidence first; the first is the top candidate
+  candidates: GeocodeCandidate[];
+  // The top candidate isn't clearly right: low confidence, or a close runner-up somewhere else
+  ambiguous: boolean;
+  warning?: string;
+}
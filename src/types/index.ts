@@ -1,12 +1,79 @@
 // Re-export demographics types
 export * from './demographics';
 
+// Re-export workspace (projects, saved properties, history, favorites) types
+export * from './workspace';
+
+// Re-export data provenance types
+export * from './provenance';
+
+// Re-export custom tenant profile types
+export * from './tenant-profile';
+
+// Re-export drive-time trade area types
+export * from './trade-area';
+
+// Re-export recorded sale comp types
+export * from './comps';
+
+// Re-export sales forecast types
+export * from './sales-forecast';
+
+// Re-export co-tenancy analysis types
+export * from './co-tenancy';
+
+// Re-export POI category types
+export * from './poi';
+
+// Re-export frontage types
+export * from './frontage';
+
+// Re-export site capacity types
+export * from './site-capacity';
+
+// Re-export traffic count types
+export * from './traffic-counts';
+
+// Re-export traffic profile types
+export * from './traffic-profile';
+
+// Re-export scoring model types
+export * from './scoring';
+
+// Re-export what-if scenario types
+export * from './scenario';
+
+// Re-export geocoding types
+export * from './geocode';
+
+// Re-export bulk address import types
+export * from './bulk-import';
+
+// Re-export background job types
+export * from './jobs';
+import type { DataProvenance } from './provenance';
+import type { CompSource, CompVerification } from './comps';
+import type { CoTenancyReport } from './co-tenancy';
+import type { PoiCategoryCode } from './poi';
+import type { SiteConstraintArea } from './site-capacity';
+import type { TrafficGrowth, TrafficTrend } from './traffic-counts';
+import type { TrafficProfile } from './traffic-profile';
+import type { FactorTrace, FeasibilityRating } from './scoring';
+
 // Business types
 export interface Business {
   name: string;
   type: string;
   distance: string;
   address: string;
+  // Absent on businesses saved before coordinates were returned
+  lat?: number;
+  lng?: number;
+  // Canonical brand and tenant catalog ID, when the business resolves to a known tenant
+  brand?: string;
+  tenantId?: string;
+  // Normalized POI category; absent on businesses saved before categories were returned
+  category?: PoiCategoryCode;
 }
 
 // Traffic types
@@ -19,11 +86,20 @@ export interface TrafficInfo {
   congestionPercent: number;
   currentSpeed?: number;
   freeFlowSpeed?: number;
-  roads?: Array<{ roadName: string; vpd: number; year: number }>;
+  // Roads matched to an official count; source is the count layer, e.g. 'Florida DOT AADT'
+  roads?: Array<{ roadName: string; vpd: number; year: number; source?: string; trend?: TrafficTrend }>;
   hasMultipleRoads?: boolean;
   averageVPD?: number;
+  growth?: TrafficGrowth | null;
+  // Typical-weekday hourly/directional traffic for each counted road
+  profiles?: TrafficProfile[];
+  provenance?: DataProvenance[];
 }
 
+// Turning movements a driveway allows: all turns, right turns only (divided road without a nearby
+// median opening, or too close to a signal), or restricted further (one-way road, ramp, controlled access)
+export type AccessType = 'full' | 'right-in-right-out' | 'limited';
+
 // Access point types (for parcel boundary road intersections)
 export interface AccessPoint {
   coordinates: [number, number]; // [lat, lng]
@@ -31,10 +107,17 @@ export interface AccessPoint {
   type: 'entrance' | 'exit' | 'access';
   roadType?: string; // OSM highway type (primary, secondary, residential, etc.)
   distance?: number; // Distance from parcel boundary in meters
-  vpd?: number; // Official VPD from FDOT if available
+  vpd?: number; // Official VPD (state DOT or imported count layer) if available
   vpdYear?: number; // Year of VPD count
-  vpdSource?: 'fdot' | 'estimated'; // Source of VPD data
+  vpdSource?: 'official' | 'estimated'; // Source of VPD data
+  vpdAgency?: string; // Agency that published the official count, e.g. 'FDOT'
   estimatedVpd?: number; // Estimated VPD based on road classification
+  accessType?: AccessType; // Absent when the OSM road context could not be loaded
+  accessReason?: string; // Why the access type was assigned
+  dividedRoad?: boolean; // Road mapped as two one-way carriageways
+  medianOpeningDistance?: number; // Meters to the nearest median break on a divided road
+  nearestSignalDistance?: number; // Meters to the nearest traffic signal on the same road
+  nearestIntersection?: { crossStreet: string; distance: number }; // Nearest public-road intersection on the same road
 }
 
 // Top recommendation type (ranked by score)
@@ -64,7 +147,10 @@ export interface RetailerMatch {
     traffic: { matches: boolean; note: string };
     demographics: { matches: boolean; note: string };
     region: { matches: boolean; note: string };
+    coTenancy?: { matches: boolean; note: string };
   };
+  custom?: boolean;
+  coTenancyReport?: CoTenancyReport;
   activelyExpanding: boolean;
   franchiseAvailable: boolean;
   corporateOnly: boolean;
@@ -78,6 +164,7 @@ export interface RetailerMatchResult {
   matches: RetailerMatch[];
   totalMatches: number;
   totalRetailersInDatabase?: number;
+  customProfiles?: number;
 }
 
 // Feasibility score types
@@ -103,7 +190,13 @@ export interface FeasibilityScore {
     economic: string;
     site: string;
   };
-  rating: 'Excellent' | 'Good' | 'Fair' | 'Poor';
+  rating: FeasibilityRating;
+  // Scoring model that produced the score, e.g. '1.0.0'
+  modelVersion: string;
+  // Tenant category whose overrides were applied, if any
+  tenantCategory?: string;
+  // Per-factor inputs, sources and rules fired; absent on scores saved before audit trails
+  audit?: FactorTrace[];
 }
 
 // Analysis result types
@@ -135,12 +228,40 @@ export interface AnalysisResult {
 // Extended demographics (combines base with multi-radius)
 import { DemographicsData } from './demographics';
 
+export interface RadiusRing {
+  population: number;
+  households: number;
+  medianIncome?: number;
+  // Number of Census geographies pooled into the ring
+  geographyCount?: number;
+  method?: 'block-group-centroid' | 'tract-centroid' | 'single-tract-scaled';
+}
+
+export interface DriveTimeRing extends RadiusRing {
+  driveMinutes: number;
+  areaSqMiles: number;
+}
+
 export interface ExtendedDemographics extends DemographicsData {
   multiRadius?: {
-    oneMile: { population: number; households: number };
-    threeMile: { population: number; households: number };
-    fiveMile: { population: number; households: number };
+    oneMile: RadiusRing;
+    threeMile: RadiusRing;
+    fiveMile: RadiusRing;
   };
+  // How the ring figures were derived (pooled block groups/tracts or a scaled estimate)
+  radiusMethod?: {
+    method: 'block-group-centroid' | 'tract-centroid' | 'single-tract-scaled';
+    geography: 'block group' | 'tract' | null;
+    vintage: string | null;
+    note: string;
+  };
+  // Population within 5/10/15-minute drive-time polygons, when requested
+  driveTime?: {
+    areas: DriveTimeRing[];
+    geography: 'block group' | 'tract';
+    vintage: string;
+    note: string;
+  } | null;
   growthTrend?: number;
   consumerSpending?: number;
   ageDistribution?: { age: string; percent: number }[];
@@ -156,6 +277,8 @@ export interface EnvironmentalRisk {
   superfund: { present: boolean; count: number; sites?: { name: string; distance: number; status: string }[] };
   overallRiskScore: number;
   riskFactors?: string[];
+  constraintAreas?: SiteConstraintArea[];
+  provenance?: DataProvenance[];
 }
 
 // Market comp types
@@ -171,6 +294,10 @@ export interface MarketComp {
   yearBuilt?: number;
   lotSize?: number;
   coordinates?: { lat: number; lng: number }; // Location for map display
+  // Recorded sale vs regional-pricing estimate; older snapshots without this were all estimates
+  verification?: CompVerification;
+  source?: CompSource;
+  sourceLabel?: string;
 }
 
 // Selected parcel types
@@ -222,6 +349,7 @@ export interface LocationIntelligence {
     interchangeName?: string;
     hasDirectAccess: boolean; // Within 0.5 miles
   };
+  provenance?: DataProvenance[];
 }
 
 // Property data (for saving/loading)
@@ -238,3 +366,24 @@ export interface PropertyData {
   selectedParcel?: SelectedParcel | null;
   locationIntelligence?: LocationIntelligence | null;
 }
+
+// Shared analysis snapshot (immutable copy served at /shared/[id])
+export interface SharedSnapshot {
+  id: string;
+  address: string;
+  coordinates: { lat: number; lng: number } | null;
+  score: number | null;
+  createdAt: string;
+  expiresAt: string | null;
+  propertyData: PropertyData;
+  accessPoints?: AccessPoint[];
+  retailerMatches?: RetailerMatchResult | null;
+}
+
+export interface CreateShareResult {
+  id: string;
+  url: string;
+  expiresAt: string | null;
+  // Secret returned only to the creator; required to revoke the link
+  revokeToken: string;
+}
@@ -0,0 +1,74 @@
+// Background jobs: long-running work (search batch analysis, bulk imports) run by the server-side worker
+// in lib/jobs, one item at a time per site, so progress and partial results can be watched while it runs
+import type { QuickFeasibility } from './workspace';
+
+export type JobKind = 'batch-analyze' | 'bulk-import';
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export type JobItemStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface JobItem<TInput = unknown, TResult = unknown> {
+  input: TInput;
+  status: JobItemStatus;
+  result?: TResult;
+  error?: string;
+}
+
+export interface JobProgress {
+  total: number;
+  completed: number;
+  failed: number;
+}
+
+// Stored job; items still queued or running when the server stops are picked up again on restart
+export interface Job<TInput = unknown, TContext = unknown, TItem = unknown, TItemResult = unknown, TResult = unknown> {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  input: TInput;
+  // Set up once before the first item (e.g. area demographics every parcel shares) and kept so a
+  // resumed job doesn't fetch it again
+  context: TContext | null;
+  items: JobItem<TItem, TItemResult>[];
+  // Set when the last item finishes
+  result: TResult | null;
+  error: string | null;
+}
+
+// What the status endpoint and event stream send: progress plus the job kind's own view of its results,
+// which covers the items done so far while the job runs
+export interface JobSnapshot<TView = unknown> {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  // What the job works on, e.g. the uploaded file name
+  label: string;
+  progress: JobProgress;
+  error: string | null;
+  data: TView;
+}
+
+export type JobSummary = Omit<JobSnapshot, 'data'>;
+
+// Search results from a batch-analyze job; ranked by score and filtered to the minimum score. Frontage
+// and tenant profile fit are applied once every parcel is analyzed (`final`)
+export interface BatchAnalyzeView {
+  results: QuickFeasibility[];
+  totalAnalyzed: number;
+  matchingCount: number;
+  final: boolean;
+  searchTime: number;
+  usedFastMode: boolean;
+  tenantProfile: { id: string; name: string } | null;
+  scoringModel: { version: string; tenantCategory: string | null };
+  demographics: { medianIncome: number; population: number; isCollegeTown?: boolean } | null;
+}
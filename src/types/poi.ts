@@ -0,0 +1,25 @@
+// Normalized point-of-interest categories returned by the Places API (see data/poiTaxonomy)
+export type PoiCategoryCode =
+  | 'fast-food'
+  | 'coffee'
+  | 'restaurant'
+  | 'grocery'
+  | 'convenience-fuel'
+  | 'pharmacy'
+  | 'medical'
+  | 'bank'
+  | 'dollar-discount'
+  | 'big-box'
+  | 'mall'
+  | 'apparel'
+  | 'home-improvement'
+  | 'specialty-retail'
+  | 'personal-services'
+  | 'fitness'
+  | 'entertainment'
+  | 'auto'
+  | 'hotel'
+  | 'school'
+  | 'childcare'
+  | 'ev-charging'
+  | 'civic';
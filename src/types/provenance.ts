@@ -0,0 +1,13 @@
+// Where a piece of external data came from, attached to API responses by the provider client
+
+export interface DataProvenance {
+  provider: string; // Provider registry name, e.g. 'overpass', 'census-acs'
+  label: string; // Human-readable source name
+  url: string; // Request URL with API keys redacted
+  fetchedAt: string; // When the upstream response was originally fetched
+  cached: boolean; // Served from the provider cache instead of the network
+  fixture?: boolean; // Replayed from a recorded fixture (DRONE_SENSE_FIXTURES=replay)
+  expiresAt: string | null; // When the cached copy goes stale (null when not cacheable)
+  status: number; // Upstream HTTP status, 0 when the request never completed
+  attempts: number; // Network attempts made, including retries and mirror failover
+}
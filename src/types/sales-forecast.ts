@@ -0,0 +1,45 @@
+import type { TradeAreaMode } from './trade-area';
+
+// Huff gravity model forecast for a proposed use at the subject site
+
+export interface ForecastCompetitor {
+  name: string;
+  type: string;
+  distanceMiles: number;
+  annualVisits: number;
+  // Share of all category trips originating in the study area (0-100)
+  marketShare: number;
+}
+
+export interface SalesForecast {
+  category: string;
+  categoryLabel: string;
+  annualVisits: number;
+  annualRevenue: number;
+  // Subject's share of all category trips originating in the study area (0-100)
+  marketShare: number;
+  tradeArea: {
+    mode: TradeAreaMode;
+    radiusMiles?: number;
+    driveMinutes?: number;
+    population: number;
+    households: number;
+    geographyCount: number;
+    // Category trips and spending generated by all households in the study area
+    totalAnnualVisits: number;
+    totalAnnualSpend: number;
+  };
+  // Largest competitors by captured trips
+  competitors: ForecastCompetitor[];
+  competitorCount: number;
+  parameters: {
+    distanceDecay: number;
+    subjectAttractiveness: number;
+    annualVisitsPerHousehold: number;
+    averageTicket: number;
+    incomeElasticity: number;
+  };
+  demandGeography: 'block group' | 'tract';
+  vintage: string;
+  notes: string[];
+}
@@ -0,0 +1,49 @@
+// What-if scenarios: user overrides applied on top of a site's fetched inputs, re-scored against
+// the unchanged baseline (see lib/scoring/scenario)
+
+import type { AccessPoint, Business, EnvironmentalRisk, ExtendedDemographics, LocationIntelligence, MarketComp, TrafficInfo } from './index';
+import type { PoiCategoryCode } from './poi';
+
+// Everything the feasibility score, retailer matching and recommendations are derived from
+export interface SiteInputs {
+  traffic: TrafficInfo | null;
+  accessPoints: AccessPoint[];
+  demographics: Partial<ExtendedDemographics> | null;
+  businesses: Business[];
+  environmentalRisk: EnvironmentalRisk | null;
+  marketComps: MarketComp[] | null;
+  locationIntelligence: LocationIntelligence | null;
+  parcel: { acres?: number; sqft?: number; zoning?: string } | null;
+}
+
+export type FloodRisk = 'low' | 'medium' | 'high';
+
+// Unset fields keep the fetched value
+export interface ScenarioOverrides {
+  // Primary road VPD; every counted road scales by the same ratio
+  vpd?: number;
+  lotAcres?: number;
+  zoning?: string;
+  medianIncome?: number;
+  // Hypothetical businesses opening near the site
+  addedBusinesses?: Array<{ name: string; category: PoiCategoryCode }>;
+  // Nearby businesses treated as closed, by businessKey()
+  removedBusinesses?: string[];
+  floodRisk?: FloodRisk;
+}
+
+export type ScenarioInput = 'vpd' | 'lotAcres' | 'zoning' | 'medianIncome' | 'businesses' | 'floodRisk';
+
+// One tornado bar: the overall score with a single input moved to each end of its test range
+export interface ScoreSensitivity {
+  input: ScenarioInput;
+  label: string;
+  lowLabel: string;
+  highLabel: string;
+  lowScore: number;
+  highScore: number;
+  // Overall score with every input as given
+  baseScore: number;
+  // |highScore - lowScore|; bars are sorted by it, widest first
+  swing: number;
+}
@@ -0,0 +1,166 @@
+// Feasibility scoring model definitions (see lib/scoring). A model is plain data: factor weights,
+// breakpoint tables and per-tenant-category overrides, published under a version that every
+// FeasibilityScore records so a saved report can be re-scored the same way later
+
+export type ScoreFactor =
+  | 'traffic'
+  | 'demographics'
+  | 'competition'
+  | 'access'
+  | 'environmental'
+  | 'market'
+  | 'economic'
+  | 'site';
+
+export type FeasibilityRating = 'Excellent' | 'Good' | 'Fair' | 'Poor';
+
+// A value at or above `min` scores `score`; tables are listed highest first and the first match wins
+export interface ScoreBreakpoint {
+  min: number;
+  score: number;
+  // Shown in the factor detail, e.g. 'Very high traffic'
+  label?: string;
+  // Appended to the detail, e.g. 'ideal for most retail'
+  note?: string;
+}
+
+// A value in [min, max) scores `score`; for measures where more isn't always better (lot size)
+export interface ScoreRange {
+  min: number;
+  max: number;
+  score: number;
+  label: string;
+}
+
+// Case-insensitive substring match against a free-text value such as a zoning code or road class
+export interface ScorePattern {
+  patterns: string[];
+  score: number;
+  label?: string;
+}
+
+export interface ScoringFactorParams {
+  traffic: {
+    vpd: ScoreBreakpoint[];
+    // Corridors growing (or shrinking) at least this fast a year gain (or lose) growthPoints
+    growthCagr: number;
+    growthPoints: number;
+  };
+  access: {
+    // Distinct roads with an access point
+    roadCount: ScoreBreakpoint[];
+    majorRoadTypes: string[];
+    majorRoadBonus: number;
+    noFullAccessPenalty: number;
+    rightInRightOutPenalty: number;
+    signalDistanceMeters: number;
+    signalBonus: number;
+    // Without access points, scored from the traffic road class; the last entry is the fallback
+    roadClass: ScorePattern[];
+    highwayDirectMiles: number;
+    highwayDirectBonus: number;
+    highwayNearMiles: number;
+    highwayNearBonus: number;
+  };
+  demographics: {
+    income: ScoreBreakpoint[];
+    // Replaces income in college towns, by percent of residents enrolled
+    collegeTown: ScoreBreakpoint[];
+    employmentBonus: ScoreBreakpoint[];
+    collegeTownEmploymentBonus: number;
+    populationBonus: ScoreBreakpoint[];
+    // Percent with a bachelor's degree or higher
+    educationBonus: ScoreBreakpoint[];
+    // Annual population growth, percent
+    growthBonus: ScoreBreakpoint[];
+    // Percent of residents aged 25-64
+    workingAgeBonus: ScoreBreakpoint[];
+  };
+  economic: {
+    // Consumer spending in the 3-mile trade area, dollars
+    consumerSpending: ScoreBreakpoint[];
+    // Percent of households earning $100K+
+    highIncomeBonus: ScoreBreakpoint[];
+  };
+  competition: {
+    // Checked in order; the first band whose count (and type count, when set) fits wins
+    bands: Array<{ minCount: number; maxCount: number; minTypes?: number; score: number; label: string }>;
+    anchorNames: string[];
+    anchorCategories: string[];
+    anchorBonus: number;
+  };
+  environmental: {
+    highFloodPenalty: number;
+    moderateFloodPenalty: number;
+    wetlandsPenalty: number;
+    brownfieldsPenalty: number;
+    superfundPenalty: number;
+  };
+  market: {
+    verifiedSales: ScoreBreakpoint[];
+    pricePerSqftBonus: ScoreBreakpoint[];
+  };
+  site: {
+    lotAcres: ScoreRange[];
+    zoning: ScorePattern[];
+    daytime: Record<'commercial' | 'mixed' | 'residential', number>;
+    // Blend of the site components that are known
+    componentWeights: { lot: number; zoning: number; daytime: number };
+    opportunityZoneBonus: number;
+  };
+}
+
+// Changes applied on top of the base model when scoring for one tenant category
+export interface ScoringOverride {
+  weights?: Partial<Record<ScoreFactor, number>>;
+  factors?: { [F in keyof ScoringFactorParams]?: Partial<ScoringFactorParams[F]> };
+}
+
+export interface ScoringModel {
+  version: string;
+  name: string;
+  description: string;
+  // Score of a factor with no data behind it
+  neutralScore: number;
+  // Normalized when they don't sum to 1
+  weights: Record<ScoreFactor, number>;
+  // Highest first; the first rating whose min the overall score reaches
+  ratings: Array<{ min: number; rating: FeasibilityRating }>;
+  factors: ScoringFactorParams;
+  // Keyed by tenant category (SE_CRE_CATEGORIES)
+  categoryOverrides: Record<string, ScoringOverride>;
+}
+
+// One scoring rule that fired while scoring a factor
+export interface ScoreTraceStep {
+  // e.g. 'VPD 20,000+ (Very high traffic)'
+  rule: string;
+  // 'base' sets the score to `points`; 'adjust' adds them (negative subtracts)
+  kind: 'base' | 'adjust';
+  points: number;
+}
+
+export type ScoreTraceInputs = Record<string, string | number | boolean | null>;
+
+// How a factor's score was reached, for disputes over a score
+export interface FactorTrace {
+  factor: ScoreFactor;
+  score: number;
+  // Model weight normalized to sum to 1; contributions sum to the overall score
+  weight: number;
+  contribution: number;
+  // No data behind the factor, so it scored the model's neutral score
+  neutral: boolean;
+  source: string | null;
+  inputs: ScoreTraceInputs;
+  steps: ScoreTraceStep[];
+}
+
+// Model summary for pickers and report footers
+export interface ScoringModelInfo {
+  version: string;
+  name: string;
+  description: string;
+  current: boolean;
+  categories: string[];
+}
@@ -0,0 +1,59 @@
+// Buildable envelope and site-plan capacity for a parcel (see lib/site-capacity)
+
+export type SiteConstraintSource = 'wetland' | 'flood';
+
+// Mapped wetland or special flood hazard area that can't be built on
+export interface SiteConstraintArea {
+  source: SiteConstraintSource;
+  // NWI wetland type or FEMA flood zone, e.g. 'Freshwater Forested/Shrub Wetland' or 'AE'
+  label: string;
+  // Each polygon is an outer ring followed by its holes, [lat, lng]
+  polygons: Array<[number, number][][]>;
+}
+
+export interface SiteCapacitySettings {
+  // Applied uniformly inside the parcel line
+  setbackFeet: number;
+  // Share of the buildable area kept for landscaping and stormwater (0-100)
+  landscapePercent: number;
+  // One stall plus its share of drive aisles
+  parkingStallSqFt: number;
+  // Stalls per 1,000 SF used for the generic maximum footprint
+  parkingRatio: number;
+}
+
+export interface TenantCapacityFit {
+  tenantId: string;
+  name: string;
+  category: string;
+  fits: boolean;
+  // Smallest prototype building the tenant builds
+  buildingSF: number | null;
+  parkingStalls: number;
+  // Catalog ratio as written, e.g. '4.0/1K SF'
+  parkingRatio: string | null;
+  stackingCars: number;
+  // Building + parking + stacking lanes
+  requiredSqFt: number;
+  reasons: string[];
+}
+
+export interface SiteCapacity {
+  parcelSqFt: number;
+  // Left inside the setbacks
+  setbackEnvelopeSqFt: number;
+  // Wetland and flood area removed from the setback envelope
+  constrainedSqFt: number;
+  buildableSqFt: number;
+  // Buildable area after landscaping and stormwater
+  usableSqFt: number;
+  // Schematic envelope, one entry per polygon part; each is an outer ring followed by its holes, [lat, lng]
+  envelope: Array<[number, number][][]>;
+  // Largest single-story building whose parking at the default ratio also fits
+  maxBuildingFootprintSqFt: number;
+  maxParkingStalls: number;
+  constraints: SiteConstraintArea[];
+  settings: SiteCapacitySettings;
+  tenants: TenantCapacityFit[];
+  notes: string[];
+}
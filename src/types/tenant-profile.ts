@@ -0,0 +1,41 @@
+// A client's own site criteria, saved server-side and offered next to the built-in
+// business presets and catalog tenants
+export interface TenantProfile {
+  id: string;
+  name: string;
+  description?: string;
+  // Site
+  minAcres: number;
+  maxAcres: number;
+  minVPD: number;
+  idealVPD?: number;
+  zoning: string[];
+  minRoadFrontage?: number;
+  preferCornerLot?: boolean;
+  driveThruRequired?: boolean;
+  // Trade area
+  minHHI?: number;
+  maxHHI?: number;
+  minPopulation?: number;
+  // Brand or business-type names the tenant wants nearby, and ones it won't locate next to
+  coTenancy: {
+    preferred: string[];
+    excluded: string[];
+  };
+  // States or US regions; empty means anywhere
+  expansionRegions: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TenantProfileInput = Omit<TenantProfile, 'id' | 'createdAt' | 'updatedAt'>;
+
+// How well one site fits a profile (0-10), with the reasons behind the score
+export interface ProfileFit {
+  profileId: string;
+  profileName: string;
+  score: number;
+  meetsRequirements: boolean;
+  notes: string[];
+  coTenants?: { preferred: string[]; excluded: string[] };
+}
@@ -0,0 +1,22 @@
+import type { Polygon, MultiPolygon } from 'geojson';
+
+// A trade area is either a straight-line ring or a drive-time polygon over the road network
+export type TradeAreaMode = 'radius' | 'drive-time';
+
+export interface DriveTimeArea {
+  minutes: number;
+  // GeoJSON ([lng, lat]) outline of everywhere reachable within `minutes`
+  polygon: Polygon | MultiPolygon;
+  areaSqMiles: number;
+  // Farthest straight-line distance reached, useful for sizing map views and bbox queries
+  maxReachMiles: number;
+  reachableNodes: number;
+}
+
+export interface IsochroneResult {
+  origin: { lat: number; lng: number };
+  areas: DriveTimeArea[];
+  roadSegments: number;
+  method: 'osm-road-graph';
+  speedAssumptions: Record<string, number>;
+}
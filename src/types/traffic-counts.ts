@@ -0,0 +1,77 @@
+// Annual average daily traffic counts from state DOT services and imported local count layers
+// (see lib/traffic-counts)
+
+export interface AadtObservation {
+  year: number;
+  aadt: number;
+}
+
+export interface TrafficCount {
+  // Publishing agency, e.g. 'FDOT', 'TxDOT', or the agency named when a local layer was imported
+  agency: string;
+  // e.g. 'Florida DOT AADT'
+  sourceLabel: string;
+  aadt: number;
+  year: number;
+  // Road the count is on as the agency names it ('' when the source doesn't say)
+  roadName: string;
+  // Agency segment or station id; counts that share one describe the same road
+  segmentId: string;
+  routeId?: string;
+  // Segment limits, usually cross streets
+  descFrom?: string;
+  descTo?: string;
+  // From the query point, when the source returns geometry
+  distanceMeters?: number;
+  // Published design factors as fractions: K is the peak-hour share of AADT, D the peak-direction share
+  kFactor?: number;
+  dFactor?: number;
+  // Earlier annual counts published on the same feature (e.g. AADT_2019 columns), oldest first
+  history?: AadtObservation[];
+}
+
+// A count layer imported from a GeoJSON file or zipped shapefile
+export interface TrafficCountDataset {
+  id: string;
+  name: string;
+  agency: string;
+  featureCount: number;
+  years: { min: number; max: number };
+  // [south, west, north, east]
+  bounds: [number, number, number, number];
+  importedAt: string;
+}
+
+// A year whose count is far off the fitted trend (pandemic years, construction detours, recounts)
+export interface AadtAnomaly {
+  year: number;
+  aadt: number;
+  expectedAadt: number;
+  // Signed percent difference from the trend fitted without this year
+  deviationPercent: number;
+}
+
+export type TrafficTrendDirection = 'growing' | 'stable' | 'declining' | 'unknown';
+
+// Multi-year AADT history for one road segment with its growth rate and projection
+export interface TrafficTrend {
+  // Oldest first
+  history: AadtObservation[];
+  // Compound annual growth as a fraction (0.025 = 2.5%/yr) from a log-linear fit of the history
+  // without anomalies; null with fewer than two years of counts
+  cagr: number | null;
+  direction: TrafficTrendDirection;
+  anomalies: AadtAnomaly[];
+  projectionYear: number;
+  // Latest count grown at the (capped) CAGR to projectionYear; null without a growth rate
+  projectedVpd: number | null;
+}
+
+// Growth across the roads behind a site's VPD, weighted by each road's volume
+export interface TrafficGrowth {
+  cagr: number;
+  direction: TrafficTrendDirection;
+  projectionYear: number;
+  projectedVpd: number;
+  roadsWithHistory: number;
+}
@@ -0,0 +1,60 @@
+// Typical-weekday hourly and day-of-week traffic for a road, split by direction of travel
+// (see lib/traffic-profile)
+
+export type Daypart = 'morning' | 'lunch' | 'afternoon' | 'evening' | 'late-night';
+
+// Toward the area's activity center (the morning commute) or away from it (the going-home side)
+export type TravelDirection = 'inbound' | 'outbound';
+
+// Shape of the 24-hour curve, picked from the road's functional class
+export type TrafficProfileType = 'commuter' | 'local' | 'freeway';
+
+export interface HourlyTraffic {
+  // 0-23, hour starting
+  hour: number;
+  vpd: number;
+  inbound: number;
+  outbound: number;
+  // Vehicles in the lanes next to the site; null when the site side isn't known
+  siteSide: number | null;
+}
+
+export interface DaypartVolume {
+  daypart: Daypart;
+  label: string;
+  // Hours starting, inclusive-exclusive, e.g. [6, 10] for 6-10 AM
+  hours: [number, number];
+  total: number;
+  siteSide: number | null;
+}
+
+export interface TrafficProfile {
+  roadName: string;
+  aadt: number;
+  profileType: TrafficProfileType;
+  // 'published' when the K and D factors came with the count, otherwise modeled from the road class
+  factorSource: 'published' | 'modeled';
+  // Peak-hour share of AADT
+  kFactor: number;
+  // Peak-direction share of peak-hour traffic
+  dFactor: number;
+  hourly: HourlyTraffic[];
+  // Monday first
+  weekly: Array<{ day: string; vpd: number }>;
+  dayparts: DaypartVolume[];
+  amPeak: { hour: number; vpd: number };
+  pmPeak: { hour: number; vpd: number };
+  // Travel direction of the lanes next to the site, relative to the activity center
+  siteSideDirection: TravelDirection | null;
+  activityCenter: { name: string; lat: number; lng: number } | null;
+  // Fit of each daypart, for showing which concepts the road suits
+  daypartFits: DaypartFit[];
+}
+
+// How well a road's traffic suits a concept that trades in one daypart
+export interface DaypartFit {
+  daypart: Daypart;
+  // 0-10, 5 is typical
+  score: number;
+  detail: string;
+}
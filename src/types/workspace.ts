@@ -0,0 +1,76 @@
+import type { FactorTrace, PropertyData } from './index';
+import type { ProfileFit } from './tenant-profile';
+
+// A shared workspace that groups saved properties, search runs and favorites
+export interface Project {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedProperty {
+  id: string;
+  name: string;
+  address: string;
+  savedAt: string;
+  data: PropertyData;
+  thumbnail?: string;
+}
+
+export interface SearchHistoryItem {
+  id: string;
+  address: string;
+  coordinates: { lat: number; lng: number };
+  timestamp: string;
+  feasibilityScore: number | null;
+  thumbnail?: string;
+}
+
+// QuickFeasibility type matching the batch-analyze API response
+export interface QuickFeasibility {
+  parcelId: string;
+  address: string;
+  coordinates: { lat: number; lng: number };
+  lotSize?: number;
+  lotSizeAcres?: number;
+  score: number;
+  // Absent on results saved before scores were versioned
+  modelVersion?: string;
+  factors: {
+    trafficScore: number;
+    businessDensity: number;
+    zoningScore: number;
+    accessScore: number;
+    demographicsScore?: number;
+    lotSizeScore?: number;
+    environmentalScore?: number;
+    profileFitScore?: number;
+  };
+  // Per-factor inputs and rules behind the score; absent on results saved before audit trails
+  audit?: FactorTrace[];
+  zoning?: string;
+  nearbyBusinesses?: number;
+  estimatedVPD?: number;
+  medianIncome?: number;
+  population?: number;
+  // Measured from the parcel boundary; absent when the boundary or road network was unavailable
+  frontageFeet?: number;
+  isCornerLot?: boolean;
+  depthToFrontageRatio?: number | null;
+  profileFit?: ProfileFit;
+}
+
+// Payload for the one-time migration of browser localStorage data into a project
+export interface WorkspaceImport {
+  savedProperties?: SavedProperty[];
+  searchHistory?: SearchHistoryItem[];
+  favorites?: QuickFeasibility[];
+}
+
+export interface WorkspaceImportResult {
+  savedProperties: number;
+  searchHistory: number;
+  favorites: number;
+}
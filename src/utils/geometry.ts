@@ -1,4 +1,5 @@
 import * as turf from '@turf/turf';
+import type { FrontageAnalysis, RoadFrontage } from '@/types';
 
 export interface AccessPoint {
   coordinates: [number, number]; // [lat, lng]
@@ -11,6 +12,8 @@ export interface RoadGeometry {
   name: string;
   type: string;
   coordinates: Array<[number, number]>; // Array of [lat, lng]
+  // OSM node ids, one per coordinate, when the way was fetched with `out body`
+  nodes?: number[];
 }
 
 /**
@@ -161,6 +164,19 @@ export function findNearestAccessPoints(
   return accessPoints;
 }
 
+/**
+ * Great-circle distance between two points, in miles unless other units are given
+ */
+export function distanceBetween(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number,
+  units: 'miles' | 'kilometers' | 'meters' = 'miles'
+): number {
+  return turf.distance([lng1, lat1], [lng2, lat2], { units });
+}
+
 /**
  * Calculate the area of a polygon in square feet
  */
@@ -202,7 +218,31 @@ export function getCentroid(boundary: Array<[number, number]>): [number, number]
 }
 
 /**
- * Buffer a polygon by a given distance
+ * A point inside the polygon: the centroid, unless the lot is shaped (L, U, flag lot) so the
+ * centroid falls outside it
+ */
+export function getInteriorPoint(boundary: Array<[number, number]>): [number, number] {
+  if (!boundary || boundary.length < 3) {
+    return boundary?.[0] || [0, 0];
+  }
+
+  const coords = boundary.map(([lat, lng]) => [lng, lat] as [number, number]);
+  if (coords[0][0] !== coords[coords.length - 1][0] ||
+      coords[0][1] !== coords[coords.length - 1][1]) {
+    coords.push(coords[0]);
+  }
+
+  const polygon = turf.polygon([coords]);
+  const centroid = turf.centroid(polygon);
+  const point = turf.booleanPointInPolygon(centroid, polygon) ? centroid : turf.pointOnFeature(polygon);
+  const [lng, lat] = point.geometry.coordinates;
+
+  return [lat, lng];
+}
+
+/**
+ * Buffer a polygon by a given distance; a negative distance shrinks it (e.g. for setbacks).
+ * An inward buffer wider than the parcel leaves nothing and returns an empty boundary.
  */
 export function bufferBoundary(
   boundary: Array<[number, number]>,
@@ -220,8 +260,177 @@ export function bufferBoundary(
   const buffered = turf.buffer(polygon, distanceMeters, { units: 'meters' });
 
   if (!buffered || !buffered.geometry.coordinates[0]) {
-    return boundary;
+    return distanceMeters < 0 ? [] : boundary;
+  }
+
+  // Shrinking a narrow-waisted parcel can split it; keep the largest part
+  let ring = buffered.geometry.coordinates[0] as number[][];
+  if (buffered.geometry.type === 'MultiPolygon') {
+    const parts = buffered.geometry.coordinates.map(part => turf.polygon(part));
+    ring = parts.reduce((a, b) => (turf.area(b) > turf.area(a) ? b : a)).geometry.coordinates[0];
+  }
+
+  return ring.map(([lng, lat]) => [lat, lng] as [number, number]);
+}
+
+const FEET_PER_METER = 3.28084;
+
+// Roads that give a parcel frontage; driveways, parking aisles and paths don't
+const NON_FRONTAGE_ROAD_TYPES = new Set(['service', 'track', 'footway', 'path', 'cycleway', 'pedestrian', 'steps', 'bridleway']);
+
+// A parcel edge fronts a road when the road centerline is within this distance (right-of-way half width)
+const FRONTAGE_SETBACK_METERS = 35;
+// ...and runs within this angle of the road, so side lot lines running away from the road don't count
+const FRONTAGE_MAX_ANGLE_DEGREES = 30;
+const FRONTAGE_SAMPLE_METERS = 3;
+const MIN_ROAD_FRONTAGE_FEET = 15;
+
+// Two frontage roads make a corner lot when each has this much frontage and they meet this close to a parcel vertex
+const CORNER_MIN_FRONTAGE_FEET = 40;
+const CORNER_VERTEX_METERS = 50;
+
+function closedRing(boundary: Array<[number, number]>): Array<[number, number]> {
+  const coords = boundary.map(([lat, lng]) => [lng, lat] as [number, number]);
+  if (coords[0][0] !== coords[coords.length - 1][0] ||
+      coords[0][1] !== coords[coords.length - 1][1]) {
+    coords.push(coords[0]);
+  }
+  return coords;
+}
+
+// Where two sets of road ways meet, as [lng, lat]. Ways joined at an intersection share an OSM node,
+// so with node ids a bridge over the other road doesn't count; without them, wherever the lines cross
+function roadMeetings(roadsA: RoadGeometry[], roadsB: RoadGeometry[]): Array<[number, number]> {
+  const hasNodeIds = (road: RoadGeometry) => road.nodes?.length === road.coordinates.length;
+  if (roadsA.every(hasNodeIds) && roadsB.every(hasNodeIds)) {
+    const nodesB = new Set(roadsB.flatMap(road => road.nodes ?? []));
+    return roadsA.flatMap(road => (road.nodes ?? []).flatMap((id, i) => {
+      const [lat, lng] = road.coordinates[i];
+      return nodesB.has(id) ? [[lng, lat] as [number, number]] : [];
+    }));
+  }
+
+  const line = (road: RoadGeometry) => turf.lineString(road.coordinates.map(([lat, lng]) => [lng, lat]));
+  return roadsA.flatMap(a => roadsB.flatMap(b =>
+    turf.lineIntersect(line(a), line(b)).features.map(crossing => crossing.geometry.coordinates as [number, number])
+  ));
+}
+
+// Smallest angle between two bearings, ignoring direction (0-90)
+function axisAngle(bearingA: number, bearingB: number): number {
+  const diff = Math.abs(bearingA - bearingB) % 180;
+  return Math.min(diff, 180 - diff);
+}
+
+/**
+ * Measure linear frontage per adjacent road, detect corner lots and compute depth-to-frontage ratio
+ */
+export function measureFrontage(
+  parcelBoundary: Array<[number, number]>, // Array of [lat, lng]
+  roads: RoadGeometry[]
+): FrontageAnalysis {
+  const empty: FrontageAnalysis = {
+    frontages: [],
+    totalFrontageFeet: 0,
+    primaryFrontageFeet: 0,
+    isCornerLot: false,
+    depthFeet: null,
+    depthToFrontageRatio: null,
+  };
+  if (!parcelBoundary || parcelBoundary.length < 3 || !roads || roads.length === 0) {
+    return empty;
+  }
+
+  const ring = closedRing(parcelBoundary);
+  const parcelBbox = turf.bbox(turf.buffer(turf.polygon([ring]), FRONTAGE_SETBACK_METERS, { units: 'meters' })!);
+
+  // Named public roads passing near the parcel
+  const candidates = roads
+    .filter(road => road.name && road.coordinates?.length >= 2 && !NON_FRONTAGE_ROAD_TYPES.has(road.type))
+    .map(road => ({ road, line: turf.lineString(road.coordinates.map(([lat, lng]) => [lng, lat])) }))
+    .filter(({ line }) => {
+      const [minX, minY, maxX, maxY] = turf.bbox(line);
+      return minX <= parcelBbox[2] && maxX >= parcelBbox[0] && minY <= parcelBbox[3] && maxY >= parcelBbox[1];
+    });
+  if (candidates.length === 0) return empty;
+
+  // Walk each parcel edge in short steps, crediting each step to the nearest parallel road within the setback
+  const metersByRoad = new Map<string, { type: string; meters: number }>();
+  for (let i = 0; i < ring.length - 1; i++) {
+    const start = turf.point(ring[i]);
+    const end = turf.point(ring[i + 1]);
+    const edgeMeters = turf.distance(start, end, { units: 'meters' });
+    if (edgeMeters === 0) continue;
+    const edgeBearing = turf.bearing(start, end);
+    const steps = Math.max(1, Math.ceil(edgeMeters / FRONTAGE_SAMPLE_METERS));
+
+    for (let step = 0; step < steps; step++) {
+      const t = (step + 0.5) / steps;
+      const sample = turf.point([
+        ring[i][0] + (ring[i + 1][0] - ring[i][0]) * t,
+        ring[i][1] + (ring[i + 1][1] - ring[i][1]) * t,
+      ]);
+
+      let best: { road: RoadGeometry; dist: number } | null = null;
+      for (const { road, line } of candidates) {
+        const nearest = turf.nearestPointOnLine(line, sample, { units: 'meters' });
+        const dist = nearest.properties.dist;
+        if (dist > FRONTAGE_SETBACK_METERS || (best && dist >= best.dist)) continue;
+
+        const coords = line.geometry.coordinates;
+        const index = Math.min(nearest.properties.index, coords.length - 2);
+        const roadBearing = turf.bearing(turf.point(coords[index]), turf.point(coords[index + 1]));
+        if (axisAngle(edgeBearing, roadBearing) > FRONTAGE_MAX_ANGLE_DEGREES) continue;
+
+        best = { road, dist };
+      }
+
+      if (best) {
+        const entry = metersByRoad.get(best.road.name) ?? { type: best.road.type, meters: 0 };
+        entry.meters += edgeMeters / steps;
+        metersByRoad.set(best.road.name, entry);
+      }
+    }
+  }
+
+  const frontages: RoadFrontage[] = Array.from(metersByRoad.entries())
+    .map(([roadName, { type, meters }]) => ({ roadName, roadType: type, frontageFeet: Math.round(meters * FEET_PER_METER) }))
+    .filter(f => f.frontageFeet >= MIN_ROAD_FRONTAGE_FEET)
+    .sort((a, b) => b.frontageFeet - a.frontageFeet);
+  if (frontages.length === 0) return empty;
+
+  const linesFor = (name: string) => candidates.filter(c => c.road.name === name).map(c => c.line);
+  const roadsFor = (name: string) => candidates.filter(c => c.road.name === name).map(c => c.road);
+  const vertices = ring.slice(0, -1).map(coord => turf.point(coord));
+
+  // Corner: two frontage roads that meet near one of the parcel's vertices
+  let cornerRoads: [string, string] | undefined;
+  const cornerCandidates = frontages.filter(f => f.frontageFeet >= CORNER_MIN_FRONTAGE_FEET);
+  for (let a = 0; a < cornerCandidates.length && !cornerRoads; a++) {
+    for (let b = a + 1; b < cornerCandidates.length && !cornerRoads; b++) {
+      const meetsNearVertex = roadMeetings(roadsFor(cornerCandidates[a].roadName), roadsFor(cornerCandidates[b].roadName))
+        .some(meeting => vertices.some(vertex => turf.distance(vertex, meeting, { units: 'meters' }) <= CORNER_VERTEX_METERS));
+      if (meetsNearVertex) {
+        cornerRoads = [cornerCandidates[a].roadName, cornerCandidates[b].roadName];
+      }
+    }
   }
 
-  return buffered.geometry.coordinates[0].map(([lng, lat]) => [lat, lng] as [number, number]);
+  // Depth: spread of the parcel's vertices away from the primary frontage road
+  const primary = frontages[0];
+  const primaryLines = linesFor(primary.roadName);
+  const vertexDistances = vertices.map(vertex =>
+    Math.min(...primaryLines.map(line => turf.pointToLineDistance(vertex, line, { units: 'meters' })))
+  );
+  const depthFeet = Math.round((Math.max(...vertexDistances) - Math.min(...vertexDistances)) * FEET_PER_METER);
+
+  return {
+    frontages,
+    totalFrontageFeet: frontages.reduce((sum, f) => sum + f.frontageFeet, 0),
+    primaryFrontageFeet: primary.frontageFeet,
+    isCornerLot: cornerRoads !== undefined,
+    cornerRoads,
+    depthFeet,
+    depthToFrontageRatio: Math.round((depthFeet / primary.frontageFeet) * 100) / 100,
+  };
 }
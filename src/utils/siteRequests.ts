@@ -0,0 +1,97 @@
+import { FrontageAnalysis, SiteInputs } from '@/types';
+import { sitePrimaryVpd } from '@/lib/scoring';
+
+type IncomeLevel = 'low' | 'moderate' | 'middle' | 'upper-middle' | 'high';
+
+// Fallback when the address has no "ST 12345" part
+const STATE_NAMES: Record<string, string> = {
+  'florida': 'FL', 'georgia': 'GA', 'alabama': 'AL', 'texas': 'TX',
+  'california': 'CA', 'new york': 'NY', 'tennessee': 'TN', 'north carolina': 'NC',
+  'south carolina': 'SC', 'virginia': 'VA', 'ohio': 'OH', 'michigan': 'MI',
+};
+
+export function incomeLevelFor(medianIncome: number | null): IncomeLevel | null {
+  if (!medianIncome) return null;
+  if (medianIncome < 35000) return 'low';
+  if (medianIncome < 50000) return 'moderate';
+  if (medianIncome < 75000) return 'middle';
+  if (medianIncome < 100000) return 'upper-middle';
+  return 'high';
+}
+
+export function stateCodeFromAddress(address: string): string | null {
+  if (!address) return null;
+  const stateMatch = address.match(/,\s*([A-Z]{2})\s*\d{5}/);
+  if (stateMatch) return stateMatch[1];
+
+  const lowerAddress = address.toLowerCase();
+  for (const [name, code] of Object.entries(STATE_NAMES)) {
+    if (lowerAddress.includes(name)) return code;
+  }
+  return null;
+}
+
+// Body for /api/retailer-match, or null with fewer than 2 of lot size, VPD, income and population
+export function buildRetailerMatchRequest(site: SiteInputs, address: string) {
+  const lotSizeAcres = site.parcel?.acres || null;
+  const vpd = sitePrimaryVpd(site);
+  const medianIncome = site.demographics?.medianHouseholdIncome || null;
+  const population = site.demographics?.population || null;
+
+  const dataPoints = [lotSizeAcres, vpd, medianIncome, population].filter(v => v !== null).length;
+  if (dataPoints < 2) return null;
+
+  return {
+    lotSizeAcres,
+    vpd,
+    medianIncome,
+    incomeLevel: incomeLevelFor(medianIncome),
+    population,
+    stateCode: stateCodeFromAddress(address),
+    nearbyBusinesses: site.businesses,
+  };
+}
+
+// Body for /api/recommendations (without businessType)
+export function buildRecommendationRequest(
+  site: Pick<SiteInputs, 'traffic' | 'accessPoints' | 'demographics' | 'businesses' | 'environmentalRisk' | 'parcel'>,
+  frontage?: FrontageAnalysis | null
+) {
+  const { accessPoints } = site;
+
+  // Count unique roads
+  const uniqueRoads = new Set(accessPoints.map(ap => ap.roadName)).size;
+
+  // Corner lot from measured frontage, else assume one when the parcel touches 2+ roads
+  const isCornerLot = frontage ? frontage.isCornerLot : uniqueRoads >= 2;
+
+  // Check for highway access
+  const hasHighwayAccess = accessPoints.some(ap =>
+    ap.roadType?.includes('trunk') ||
+    ap.roadType?.includes('motorway') ||
+    ap.roadType?.includes('primary')
+  );
+
+  // Format nearby businesses
+  const nearbyBusinesses = site.businesses.map(b => ({
+    name: b.name,
+    type: b.type || 'business',
+    category: b.category,
+    distance: b.distance || 0,
+  }));
+
+  return {
+    vpd: sitePrimaryVpd(site),
+    accessPointCount: accessPoints.length,
+    roadCount: uniqueRoads,
+    isCornerLot,
+    frontageFeet: frontage?.primaryFrontageFeet || null,
+    hasHighwayAccess,
+    lotSizeAcres: site.parcel?.acres || null,
+    medianIncome: site.demographics?.medianHouseholdIncome || null,
+    population: site.demographics?.population || null,
+    nearbyBusinesses,
+    floodRisk: site.environmentalRisk?.floodZone?.risk ?? null,
+    zoning: site.parcel?.zoning || null,
+  };
+}
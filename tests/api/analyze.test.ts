@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { POST } from '@/app/api/analyze/route';
+
+// What the home page sends once the site data for the pin has loaded
+const siteAnalysis = {
+  images: [],
+  address: '1650 Opelika Rd, Auburn, AL 36830',
+  coordinates: { lat: 32.6266, lng: -85.4432 },
+  nearbyBusinesses: [
+    { name: 'Starbucks', type: 'cafe', distance: '0.2 mi', address: '1627 Opelika Rd' },
+    { name: "McDonald's", type: 'fast_food', distance: '0.3 mi', address: '1710 Opelika Rd' },
+    { name: 'Walgreens', type: 'pharmacy', distance: '0.4 mi', address: '1580 Opelika Rd' },
+  ],
+  trafficData: {
+    estimatedVPD: 24800,
+    vpdRange: '22,000 - 28,000',
+    roadType: 'Primary Arterial',
+    trafficLevel: 'moderate',
+    congestionPercent: 18,
+  },
+  demographicsData: {
+    population: 18450,
+    medianHouseholdIncome: 61200,
+    perCapitaIncome: 31800,
+    incomeLevel: 'middle',
+    povertyRate: 14.2,
+    medianAge: 29.4,
+    educationBachelorsOrHigher: 48,
+    employmentRate: 94,
+    isCollegeTown: true,
+    collegeEnrollmentPercent: 21,
+    consumerProfile: {
+      type: 'College Town',
+      description: 'Students and university staff with steady year-round spending',
+      preferredBusinesses: ['Chick-fil-A', 'Chipotle', 'Dutch Bros', 'Planet Fitness'],
+    },
+  },
+  environmentalRisk: {
+    floodZone: { zone: 'X', risk: 'minimal' },
+    wetlands: { present: false },
+    brownfields: { present: false },
+    superfund: { present: false },
+    overallRiskScore: 12,
+  },
+  marketComps: [
+    { address: '1499 Opelika Rd', salePrice: 1150000, pricePerSqft: 23.5, sqft: 48900, saleDate: '2025-08-14', distance: '0.5 mi', propertyType: 'Commercial Land', verification: 'verified' },
+  ],
+  locationIntelligence: {
+    opportunityZone: { isInZone: false },
+    daytimePopulation: { totalWorkers: 9200, totalResidents: 7400, workerToResidentRatio: 1.24, populationType: 'mixed' },
+    highwayAccess: { nearestHighway: 'I-85', distanceMiles: 1.8, hasDirectAccess: false },
+  },
+  accessPoints: [
+    {
+      coordinates: [32.6262, -85.4429],
+      roadName: 'Opelika Road',
+      type: 'access',
+      roadType: 'primary',
+      vpd: 24800,
+      vpdSource: 'official',
+      accessType: 'full',
+      dividedRoad: true,
+      nearestSignalDistance: 90,
+    },
+  ],
+};
+
+function analyzeRequest(body: unknown): Request {
+  return new Request('http://localhost/api/analyze', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('POST /api/analyze', () => {
+  it('combines the recorded site analysis with the feasibility score', async () => {
+    const response = await POST(analyzeRequest(siteAnalysis));
+    expect(response.status).toBe(200);
+    const analysis = await response.json();
+
+    expect(analysis.usingMockData).toBeUndefined();
+    expect(analysis.keyFindings).toContain('24,800 VPD on Opelika Road');
+    expect(analysis.businessRecommendation).toMatch(/Dutch Bros/);
+
+    // The score replaces the model's own viability score
+    expect(analysis.viabilityScore).toBe(analysis.feasibilityScore.overall);
+    expect(analysis.feasibilityScore.overall).toBeGreaterThan(0);
+
+    // Nothing already trading nearby is recommended again
+    const recommended = analysis.topRecommendations.map((r: { name: string }) => r.name);
+    expect(recommended.length).toBeGreaterThan(0);
+    expect(recommended).not.toContain('Starbucks');
+    expect(recommended).not.toContain("McDonald's");
+    expect(analysis.retailerMatches).toBeDefined();
+  });
+
+  it('scores the turning movements of the access points sent with the site', async () => {
+    const response = await POST(analyzeRequest(siteAnalysis));
+    const { feasibilityScore } = await response.json();
+    expect(feasibilityScore.details.access).toContain('signalized full access');
+  });
+
+  it('rejects an unknown scoring model', async () => {
+    const response = await POST(analyzeRequest({ ...siteAnalysis, scoringModelVersion: 'no-such-model' }));
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBeTruthy();
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { POST as createProject } from '@/app/api/projects/route';
+import { GET as listProperties, POST as saveProperty } from '@/app/api/projects/[id]/properties/route';
+
+function post(path: string, body: unknown): Request {
+  return new Request(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+async function newProject(name: string): Promise<string> {
+  const response = await createProject(post('/api/projects', { name }));
+  return (await response.json()).project.id;
+}
+
+const context = (id: string) => ({ params: Promise.resolve({ id }) });
+
+describe('POST /api/projects/[id]/properties', () => {
+  it("won't take over a property saved in another project", async () => {
+    const ours = await newProject('Opelika Road sites');
+    const theirs = await newProject('Another team');
+    const property = { id: 'opelika-1650', address: '1650 Opelika Rd, Auburn, AL 36830', data: { score: 7.4 } };
+
+    const saved = await saveProperty(post(`/api/projects/${ours}/properties`, property), context(ours));
+    expect(saved.status).toBe(201);
+
+    const hijack = await saveProperty(
+      post(`/api/projects/${theirs}/properties`, { ...property, data: { score: 0 } }),
+      context(theirs)
+    );
+    expect(hijack.status).toBe(409);
+
+    const listed = await listProperties(new Request(`http://localhost/api/projects/${ours}/properties`), context(ours));
+    const { properties } = await listed.json();
+    expect(properties).toHaveLength(1);
+    expect(properties[0].data).toEqual({ score: 7.4 });
+  });
+});
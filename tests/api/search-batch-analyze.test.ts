@@ -0,0 +1,72 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { POST as searchParcels } from '@/app/api/search/parcels-radius/route';
+import { POST as batchAnalyze } from '@/app/api/search/batch-analyze/route';
+import { GET as getJob } from '@/app/api/jobs/[id]/route';
+import type { BatchAnalyzeView, JobSnapshot } from '@/types';
+
+const center = { lat: 32.6266, lng: -85.4432 };
+
+function post(path: string, body: unknown): NextRequest {
+  return new NextRequest(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+// Polls the job the way the search page follows it, until the final snapshot is in
+async function waitForJob(id: string): Promise<JobSnapshot<BatchAnalyzeView>> {
+  for (let attempt = 0; attempt < 200; attempt++) {
+    const response = await getJob(new Request(`http://localhost/api/jobs/${id}`), { params: Promise.resolve({ id }) });
+    const snapshot: JobSnapshot<BatchAnalyzeView> = await response.json();
+    if (['done', 'failed', 'cancelled'].includes(snapshot.status)) return snapshot;
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+  throw new Error(`Job ${id} did not finish`);
+}
+
+describe('radius search and batch analysis', () => {
+  it('finds the parcels around a point and scores each one in a background job', async () => {
+    const searchResponse = await searchParcels(post('/api/search/parcels-radius', { center, radiusMiles: 0.25 }));
+    expect(searchResponse.status).toBe(200);
+    const search = await searchResponse.json();
+
+    expect(search.source).toBe('ArcGIS USA Parcels');
+    expect(search.parcels.map((p: { address: string }) => p.address).sort()).toEqual(['1650 OPELIKA RD', '1714 DEKALB ST']);
+
+    const queued = await batchAnalyze(post('/api/search/batch-analyze', {
+      parcels: search.parcels,
+      minScore: 0,
+      searchCenter: center,
+    }));
+    expect(queued.status).toBe(202);
+    const job = await waitForJob((await queued.json()).id);
+
+    expect(job.status).toBe('done');
+    expect(job.progress).toEqual({ total: 2, completed: 2, failed: 0 });
+
+    const view = job.data;
+    expect(view.final).toBe(true);
+    expect(view.usedFastMode).toBe(false);
+    expect(view.demographics).toEqual({ medianIncome: 48750, population: 5123, isCollegeTown: true });
+    expect(view.results).toHaveLength(2);
+
+    const byAddress = Object.fromEntries(view.results.map(r => [r.address, r]));
+    const onArterial = byAddress['1650 OPELIKA RD'];
+    const sideStreet = byAddress['1714 DEKALB ST'];
+
+    // The arterial parcel has an ALDOT count station out front; the side street falls back to its road class
+    expect(onArterial.estimatedVPD).toBe(24800);
+    expect(sideStreet.estimatedVPD).toBe(8000);
+    expect(onArterial.nearbyBusinesses).toBe(42);
+    expect(sideStreet.nearbyBusinesses).toBe(7);
+
+    // Frontage is measured against the recorded road centerlines once every parcel is scored
+    expect(onArterial.frontageFeet).toBeGreaterThan(0);
+
+    // Best first
+    expect(view.results[0].score).toBeGreaterThanOrEqual(view.results[1].score);
+    expect(onArterial.score).toBeGreaterThan(sideStreet.score);
+  });
+});
@@ -0,0 +1,26 @@
+// Tests replay recorded provider responses from fixtures/providers and never touch the network.
+// `npm run test:record` runs them against the live providers instead and rewrites the fixtures
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, vi } from 'vitest';
+
+process.env.DRONE_SENSE_FIXTURES ??= 'replay';
+
+// A throwaway document store per test file, so jobs and the provider cache start empty
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'drone-sense-test-'));
+process.env.DRONE_SENSE_DATA_DIR = dataDir;
+process.env.DRONE_SENSE_STORE = 'json';
+
+if (process.env.DRONE_SENSE_FIXTURES === 'replay') {
+  // Anything not served from a fixture is a missing recording, not a reason to go online
+  vi.stubGlobal('fetch', async (input: string | URL | Request) => {
+    const url = input instanceof Request ? input.url : input.toString();
+    throw new Error(`Network disabled in replay tests: ${url}`);
+  });
+}
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});